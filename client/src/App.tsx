@@ -14,6 +14,8 @@ import ForgotCompanyIdPage from "@/components/ForgotCompanyIdPage";
 import ResetPasswordPage from "@/components/ResetPasswordPage";
 import CompanyRegistration from "@/pages/CompanyRegistration";
 import EmailVerification from "@/pages/EmailVerification";
+import Kiosk from "@/pages/Kiosk";
+import KioskScan from "@/pages/KioskScan";
 import UserLayout from "@/components/UserLayout";
 import AdminLayout from "@/components/AdminLayout";
 import TeamLeaderLayout from "@/components/TeamLeaderLayout";
@@ -28,12 +30,15 @@ import LeaveManagement from "@/pages/user/LeaveManagement";
 import Attendance from "@/pages/user/Attendance";
 import AttendanceHistory from "@/pages/user/AttendanceHistory";
 import CorrectionRequests from "@/pages/user/CorrectionRequests";
+import Overtime from "@/pages/user/Overtime";
 import Dashboard from "@/pages/admin/Dashboard";
 import LeaveApproval from "@/pages/admin/LeaveApproval";
 import CorrectionApproval from "@/pages/admin/CorrectionApproval";
 import AttendanceMonitor from "@/pages/admin/AttendanceMonitor";
 import AttendanceReports from "@/pages/admin/AttendanceReports";
 import AttendancePolicy from "@/pages/admin/AttendancePolicy";
+import ShiftRoster from "@/pages/admin/ShiftRoster";
+import LeaveTypes from "@/pages/admin/LeaveTypes";
 import HolidayManagement from "@/pages/admin/HolidayManagement";
 import Users from "@/pages/admin/Users";
 import TeamMembersManagement from "@/pages/admin/TeamMembersManagement";
@@ -55,6 +60,7 @@ import TeamTasks from "@/pages/team-leader/TeamTasks";
 import TeamLeaveApproval from "@/pages/team-leader/TeamLeaveApproval";
 import TeamLeaderLeaveRequests from "@/pages/team-leader/TeamLeaderLeaveRequests";
 import TeamCorrectionRequests from "@/pages/team-leader/TeamCorrectionRequests";
+import TeamOvertime from "@/pages/team-leader/TeamOvertime";
 import TeamLeaderAttendance from "@/pages/team-leader/TeamLeaderAttendance";
 import TeamAttendanceMonitor from "@/pages/team-leader/TeamAttendanceMonitor";
 import TeamAttendanceReports from "@/pages/team-leader/TeamAttendanceReports";
@@ -168,6 +174,10 @@ function Router() {
             <Route path="/forgot-company-id" component={ForgotCompanyIdPage} />
             <Route path="/reset-password" component={ResetPasswordPage} />
             <Route path="/superadmin" component={SuperAdminLogin} />
+            <Route path="/kiosk" component={Kiosk} />
+            <Route path="/kiosk/scan">
+                {() => <ProtectedRoute component={KioskScan} />}
+            </Route>
             <Route path="/user/overview">
                 {() => (
                     <ProtectedRoute
@@ -300,6 +310,18 @@ function Router() {
                     />
                 )}
             </Route>
+            <Route path="/user/overtime">
+                {() => (
+                    <ProtectedRoute
+                        component={() => (
+                            <UserLayout>
+                                <Overtime />
+                            </UserLayout>
+                        )}
+                        allowedRole="user"
+                    />
+                )}
+            </Route>
             <Route path="/user">
                 <Redirect to="/user/overview" />
             </Route>
@@ -375,6 +397,30 @@ function Router() {
                     />
                 )}
             </Route>
+            <Route path="/admin/leave-types">
+                {() => (
+                    <ProtectedRoute
+                        component={() => (
+                            <AdminLayout>
+                                <LeaveTypes />
+                            </AdminLayout>
+                        )}
+                        allowedRole="admin"
+                    />
+                )}
+            </Route>
+            <Route path="/admin/shift-roster">
+                {() => (
+                    <ProtectedRoute
+                        component={() => (
+                            <AdminLayout>
+                                <ShiftRoster />
+                            </AdminLayout>
+                        )}
+                        allowedRole="admin"
+                    />
+                )}
+            </Route>
             <Route path="/admin/holidays">
                 {() => (
                     <ProtectedRoute
@@ -633,6 +679,18 @@ function Router() {
                     />
                 )}
             </Route>
+            <Route path="/team-leader/overtime">
+                {() => (
+                    <ProtectedRoute
+                        component={() => (
+                            <TeamLeaderLayout>
+                                <TeamOvertime />
+                            </TeamLeaderLayout>
+                        )}
+                        allowedRole="team_leader"
+                    />
+                )}
+            </Route>
             <Route path="/team-leader/attendance">
                 {() => (
                     <ProtectedRoute
@@ -724,17 +782,17 @@ function App() {
     const basePath = import.meta.env.MODE === "production" ? "/worklogix" : "";
     return (
         <WouterRouter base={basePath}>
-            <WebSocketProvider>
-                <QueryClientProvider client={queryClient}>
-                    <TooltipProvider>
-                        <AuthProvider>
+            <QueryClientProvider client={queryClient}>
+                <TooltipProvider>
+                    <AuthProvider>
+                        <WebSocketProvider>
                             <Toaster />
                             <NotificationPermissionBanner />
                             <Router />
-                        </AuthProvider>
-                    </TooltipProvider>
-                </QueryClientProvider>
-            </WebSocketProvider>
+                        </WebSocketProvider>
+                    </AuthProvider>
+                </TooltipProvider>
+            </QueryClientProvider>
         </WouterRouter>
     );
 }
@@ -130,7 +130,7 @@ export default function AdminDashboard() {
                 params.append("endDate", dateFilter.endDate);
             if (params.toString()) url += `?${params.toString()}`;
 
-            const res = await fetch(url);
+            const res = await fetch(url, { credentials: "include" });
             if (!res.ok) throw new Error("Failed to fetch reports");
             return res.json();
         },
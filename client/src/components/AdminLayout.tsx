@@ -23,7 +23,9 @@ import {
   TrendingUp,
   Settings,
   FileEdit,
-  Briefcase
+  Briefcase,
+  CalendarClock,
+  CalendarDays
 } from "lucide-react";
 import ThemeToggle from "./ThemeToggle";
 import BottomNav, { BottomNavItem } from "./BottomNav";
@@ -49,10 +51,12 @@ const navItems: NavItem[] = [
   { path: "/admin/ratings", label: "Ratings", icon: Star },
   { path: "/admin/feedback", label: "Feedback", icon: MessageCircle },
   { path: "/admin/leaves", label: "Leave Approval", icon: Calendar },
+  { path: "/admin/leave-types", label: "Leave Types", icon: CalendarDays },
   { path: "/admin/corrections", label: "Correction Requests", icon: FileEdit },
   { path: "/admin/attendance", label: "Attendance Monitor", icon: Clock },
   { path: "/admin/attendance-reports", label: "Attendance Reports", icon: TrendingUp },
   { path: "/admin/attendance-policy", label: "Attendance Policy", icon: Settings },
+  { path: "/admin/shift-roster", label: "Shift Roster", icon: CalendarClock },
   { path: "/admin/holidays", label: "Holiday Management", icon: Calendar },
 ];
 
@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import type { AttendanceBreak, AttendancePunch } from "@shared/schema";
+
+interface AttendanceTimelineProps {
+  attendanceId: number;
+}
+
+const breakTypeLabels: Record<string, string> = {
+  lunch: "Lunch break",
+  personal: "Personal break",
+  meeting: "Meeting break",
+};
+
+function formatSpan(start: Date | string, end: Date | string | null) {
+  const from = format(new Date(start), "hh:mm a");
+  if (!end) return `${from} - ongoing`;
+  const minutes = Math.max(0, Math.floor((new Date(end).getTime() - new Date(start).getTime()) / 60000));
+  return `${from} - ${format(new Date(end), "hh:mm a")} (${Math.floor(minutes / 60)}h ${minutes % 60}m)`;
+}
+
+export default function AttendanceTimeline({ attendanceId }: AttendanceTimelineProps) {
+  const { data, isLoading } = useQuery<{ sessions: AttendancePunch[]; breaks: AttendanceBreak[] }>({
+    queryKey: ["/api/admin/attendance", attendanceId, "timeline"],
+    // Open sessions and breaks keep changing while the employee works
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading timeline...</p>;
+  }
+
+  const entries = [
+    ...(data?.sessions ?? []).map((session, i) => ({
+      key: `session-${session.id}`,
+      at: new Date(session.checkIn).getTime(),
+      label: `Session ${i + 1}`,
+      span: formatSpan(session.checkIn, session.checkOut),
+      site: session.checkInSite,
+      isBreak: false,
+    })),
+    ...(data?.breaks ?? []).map((b) => ({
+      key: `break-${b.id}`,
+      at: new Date(b.startedAt).getTime(),
+      label: breakTypeLabels[b.breakType] || b.breakType,
+      span: formatSpan(b.startedAt, b.endedAt),
+      site: null,
+      isBreak: true,
+    })),
+  ].sort((a, b) => a.at - b.at);
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid={`text-no-timeline-${attendanceId}`}>
+        No punch sessions recorded for this day.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-3 border-l pl-4" data-testid={`list-timeline-${attendanceId}`}>
+      {entries.map((entry) => (
+        <li key={entry.key} className={entry.isBreak ? "ml-4 text-sm" : "text-sm"}>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">{entry.label}</span>
+            {entry.isBreak && <Badge variant="outline">Break</Badge>}
+            {entry.site && <Badge variant="secondary">{entry.site}</Badge>}
+          </div>
+          <p className="text-muted-foreground">{entry.span}</p>
+        </li>
+      ))}
+    </ol>
+  );
+}
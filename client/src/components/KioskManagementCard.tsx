@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { MonitorSmartphone, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import { getDeviceId, getKioskToken, setKioskToken } from "@/lib/device";
+import type { AttendanceKiosk } from "@shared/schema";
+
+type KioskDetails = Omit<AttendanceKiosk, "tokenHash">;
+
+// Position of this browser as "lat,lng", or null when location is unavailable
+function currentLocation(): Promise<string | null> {
+  if (!navigator.geolocation) return Promise.resolve(null);
+  return new Promise((resolve) =>
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(`${position.coords.latitude},${position.coords.longitude}`),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000 }
+    )
+  );
+}
+
+// Shared check-in devices of the company. A kiosk is registered from the tablet itself
+// while an admin is signed in on it; the kiosk keeps working after the admin signs out.
+export default function KioskManagementCard() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [name, setName] = useState("");
+  const isKiosk = !!getKioskToken();
+
+  const { data: kiosks = [] } = useQuery<KioskDetails[]>({
+    queryKey: ["/api/admin/kiosks"],
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(`${API_BASE_URL}/api/admin/kiosks`, "POST", {
+        name,
+        deviceId: getDeviceId(),
+        gpsLocation: await currentLocation(),
+      });
+      return (await res.json()) as { kiosk: KioskDetails; token: string };
+    },
+    onSuccess: ({ token }) => {
+      setKioskToken(token);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/kiosks"] });
+      setName("");
+      toast({
+        title: "Kiosk Registered",
+        description: "Open the kiosk screen, then sign out to hand this device over.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Registration Failed",
+        description: error.message || "Unable to register this device.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return await apiRequest(`${API_BASE_URL}/api/admin/kiosks/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/kiosks"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Unable to update the kiosk.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="w-5 h-5" />
+          Kiosks
+        </CardTitle>
+        <CardDescription>
+          Shared tablets where employees punch in by scanning a QR code or entering their user ID and PIN
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isKiosk ? (
+          <div className="flex items-center justify-between gap-4 flex-wrap p-3 border rounded-md">
+            <p className="text-sm text-muted-foreground">This device is registered as a kiosk.</p>
+            <Button onClick={() => setLocation("/kiosk")} data-testid="button-open-kiosk">
+              Open Kiosk
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-4 items-end flex-wrap">
+            <div className="flex-1 min-w-[200px] space-y-2">
+              <Label htmlFor="kiosk-name">Kiosk Name</Label>
+              <Input
+                id="kiosk-name"
+                placeholder="e.g. Reception"
+                maxLength={100}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-kiosk-name"
+              />
+            </div>
+            <Button
+              onClick={() => registerMutation.mutate()}
+              disabled={!name.trim() || registerMutation.isPending}
+              data-testid="button-register-kiosk"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {registerMutation.isPending ? "Registering..." : "Register This Device"}
+            </Button>
+          </div>
+        )}
+
+        {kiosks.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No kiosks registered yet</p>
+        ) : (
+          <div className="space-y-3">
+            {kiosks.map((kiosk) => (
+              <div
+                key={kiosk.id}
+                className="flex items-center justify-between gap-4 p-3 border rounded-md"
+                data-testid={`kiosk-${kiosk.id}`}
+              >
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {kiosk.name}
+                    {!kiosk.isActive && <Badge variant="secondary">Disabled</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {kiosk.site || "No office location"}
+                    {" - "}
+                    {kiosk.lastSeenAt
+                      ? `last active ${format(new Date(kiosk.lastSeenAt), "MMM dd, HH:mm")}`
+                      : "not used yet"}
+                  </p>
+                </div>
+                <Switch
+                  checked={kiosk.isActive}
+                  onCheckedChange={(isActive) => toggleMutation.mutate({ id: kiosk.id, isActive })}
+                  disabled={toggleMutation.isPending}
+                  data-testid={`switch-kiosk-${kiosk.id}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+
+// Lets an employee set the PIN they punch in with at an attendance kiosk
+export default function KioskPinCard() {
+  const { toast } = useToast();
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+
+  const { data: pinStatus } = useQuery<{ hasPin: boolean; updatedAt: string | null }>({
+    queryKey: ["/api/attendance/kiosk-pin"],
+  });
+
+  const setPinMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`${API_BASE_URL}/api/attendance/kiosk-pin`, "PUT", { pin });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance/kiosk-pin"] });
+      setPin("");
+      setConfirmPin("");
+      toast({
+        title: "Kiosk PIN Saved",
+        description: "Use it with your user ID to mark attendance at a kiosk.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not save PIN",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValidPin = /^\d{4,6}$/.test(pin);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Kiosk PIN
+        </CardTitle>
+        <CardDescription>
+          {pinStatus?.hasPin && pinStatus.updatedAt
+            ? `Set on ${format(new Date(pinStatus.updatedAt), "MMM dd, yyyy")}. Enter a new PIN to change it.`
+            : "Set a 4 to 6 digit PIN to mark attendance at an office kiosk"}
+        </CardDescription>
+        {pinStatus && !pinStatus.hasPin && (
+          <p className="text-sm font-medium text-amber-600 dark:text-amber-400" data-testid="text-kiosk-pin-missing">
+            You have no kiosk PIN yet. Kiosks will not accept your user ID until you set one.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="kiosk-pin">PIN</Label>
+            <Input
+              id="kiosk-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              data-testid="input-kiosk-pin"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kiosk-pin-confirm">Confirm PIN</Label>
+            <Input
+              id="kiosk-pin-confirm"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              maxLength={6}
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+              data-testid="input-kiosk-pin-confirm"
+            />
+          </div>
+        </div>
+        <Button
+          className="w-full"
+          onClick={() => setPinMutation.mutate()}
+          disabled={!isValidPin || pin !== confirmPin || setPinMutation.isPending}
+          data-testid="button-save-kiosk-pin"
+        >
+          {pinStatus?.hasPin ? "Change PIN" : "Set PIN"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+
+interface LatePenaltyRules {
+  lateMarksPerDeduction: number | null;
+  lateMarkDeductionDays: number;
+  severeLateMinutes: number | null;
+}
+
+interface UserLatePenalty {
+  userId: number;
+  userName: string;
+  lateMarks: number;
+  severeLateDays: string[];
+  deductionDays: number;
+  marksToNextDeduction: number | null;
+}
+
+// What the late penalty rules being edited would deduct for a month, before they are saved
+export default function LatePenaltyPreview({
+  lateMarksPerDeduction,
+  lateMarkDeductionDays,
+  severeLateMinutes,
+}: LatePenaltyRules) {
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const [year, monthNumber] = month.split("-");
+  const params = new URLSearchParams({
+    month: String(parseInt(monthNumber)),
+    year,
+    lateMarksPerDeduction: lateMarksPerDeduction?.toString() ?? "",
+    lateMarkDeductionDays: String(lateMarkDeductionDays),
+    severeLateMinutes: severeLateMinutes?.toString() ?? "",
+  });
+
+  const { data, isLoading } = useQuery<{ penalties: UserLatePenalty[] }>({
+    queryKey: [`/api/admin/attendance/late-penalties?${params}`],
+    enabled: !!month,
+  });
+  const latecomers = (data?.penalties ?? []).filter((p) => p.lateMarks > 0 || p.severeLateDays.length > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end justify-between gap-4 flex-wrap">
+        <div>
+          <p className="text-sm font-medium">Preview</p>
+          <p className="text-xs text-muted-foreground">Deductions these rules give for the chosen month</p>
+        </div>
+        <div className="min-w-[160px]">
+          <Label htmlFor="late-penalty-month">Month</Label>
+          <Input
+            id="late-penalty-month"
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            data-testid="input-late-penalty-month"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading preview...</p>
+      ) : latecomers.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No late arrivals this month</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee</TableHead>
+              <TableHead>Late Marks</TableHead>
+              <TableHead>Half Days for Late Arrival</TableHead>
+              <TableHead>Deduction (days)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {latecomers.map((penalty) => (
+              <TableRow key={penalty.userId} data-testid={`row-late-penalty-${penalty.userId}`}>
+                <TableCell>{penalty.userName}</TableCell>
+                <TableCell>{penalty.lateMarks}</TableCell>
+                <TableCell>{penalty.severeLateDays.length}</TableCell>
+                <TableCell className={penalty.deductionDays > 0 ? "font-medium text-destructive" : ""}>
+                  {penalty.deductionDays}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import type { LeaveApprovalStep } from "@shared/schema";
+
+interface LeaveApprovalTrailProps {
+  leaveId: number;
+}
+
+const roleLabels: Record<string, string> = {
+  team_leader: "Team Leader",
+  company_admin: "Company Admin",
+};
+
+// Steps that decide a change to an approved leave rather than the request itself
+const subjectLabels: Record<string, string> = {
+  cancel: "Cancellation",
+  modify: "Date change",
+};
+
+const stepStatusStyles: Record<string, { label: string; className: string }> = {
+  pending: {
+    label: "Awaiting decision",
+    className: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  },
+  waiting: {
+    label: "Not reached",
+    className: "bg-muted text-muted-foreground",
+  },
+  approved: {
+    label: "Approved",
+    className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  },
+  rejected: {
+    label: "Rejected",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  },
+  escalated: {
+    label: "Escalated",
+    className: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+  },
+  skipped: {
+    label: "Skipped",
+    className: "bg-muted text-muted-foreground",
+  },
+};
+
+export default function LeaveApprovalTrail({ leaveId }: LeaveApprovalTrailProps) {
+  const { data: steps = [], isLoading } = useQuery<LeaveApprovalStep[]>({
+    queryKey: ["/api/leaves", leaveId, "approvals"],
+    // Steps move on from other users' actions and the escalation job, so reload on open
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading approval trail...</p>;
+  }
+
+  if (steps.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid={`text-no-approval-trail-${leaveId}`}>
+        No approval steps recorded for this request.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-3" data-testid={`list-approval-trail-${leaveId}`}>
+      {steps.map((step) => {
+        const style = stepStatusStyles[step.status] || stepStatusStyles.waiting;
+        return (
+          <li key={step.id} className="flex items-start gap-3 text-sm" data-testid={`approval-step-${step.id}`}>
+            <span className="mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium">
+              {step.stepIndex + 1}
+            </span>
+            <div className="flex-1 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{roleLabels[step.approverRole] || step.approverRole}</span>
+                <Badge className={style.className}>{style.label}</Badge>
+                {subjectLabels[step.subject] && <Badge variant="outline">{subjectLabels[step.subject]}</Badge>}
+              </div>
+              {step.actedAt && (
+                <p className="text-xs text-muted-foreground">
+                  {step.actedByName ? `${step.actedByName} · ` : ""}
+                  {format(new Date(step.actedAt), "MMM dd, yyyy h:mm a")}
+                </p>
+              )}
+              {step.status === "pending" && step.dueAt && (
+                <p className="text-xs text-muted-foreground">
+                  Escalates if undecided by {format(new Date(step.dueAt), "MMM dd, yyyy h:mm a")}
+                </p>
+              )}
+              {step.remarks && <p className="text-muted-foreground">{step.remarks}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
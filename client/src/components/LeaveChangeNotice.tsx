@@ -0,0 +1,73 @@
+import { format } from "date-fns";
+import type { Leave, LeaveRevision } from "@shared/schema";
+
+type LeaveChangeFields = Pick<
+  Leave,
+  "changeType" | "requestedStartDate" | "requestedEndDate" | "changeReason" | "history"
+>;
+
+interface LeaveChangeNoticeProps {
+  leave: LeaveChangeFields;
+  showHistory?: boolean;
+}
+
+const revisionLabels: Record<LeaveRevision["action"], string> = {
+  withdrawn: "Withdrawn",
+  cancelled: "Cancelled",
+  partially_cancelled: "Partly cancelled",
+  modified: "Dates changed",
+  change_rejected: "Change rejected",
+};
+
+function formatRange(startDate: string, endDate: string) {
+  const start = format(new Date(startDate), "MMM dd, yyyy");
+  return startDate === endDate ? start : `${start} - ${format(new Date(endDate), "MMM dd, yyyy")}`;
+}
+
+// What the pending change asks for, in words
+export function describeLeaveChange(leave: LeaveChangeFields): string | null {
+  if (!leave.changeType) return null;
+  if (!leave.requestedStartDate || !leave.requestedEndDate) return "Cancellation requested";
+
+  const range = formatRange(leave.requestedStartDate, leave.requestedEndDate);
+  return leave.changeType === "cancel"
+    ? `Partial cancellation requested, keeping ${range}`
+    : `Date change requested to ${range}`;
+}
+
+export default function LeaveChangeNotice({ leave, showHistory = true }: LeaveChangeNoticeProps) {
+  const pendingChange = describeLeaveChange(leave);
+  const history = showHistory ? leave.history ?? [] : [];
+
+  if (!pendingChange && history.length === 0) return null;
+
+  return (
+    <div className="space-y-2 text-sm">
+      {pendingChange && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-amber-900 dark:border-amber-900 dark:bg-amber-900/20 dark:text-amber-300">
+          <p className="font-medium">{pendingChange}</p>
+          {leave.changeReason && <p className="text-xs">{leave.changeReason}</p>}
+        </div>
+      )}
+      {history.length > 0 && (
+        <ul className="space-y-1 text-xs text-muted-foreground">
+          {history.map((revision, i) => (
+            <li key={i}>
+              <span className="font-medium">{revisionLabels[revision.action]}</span>
+              {" · "}
+              {revision.action === "modified" || revision.action === "partially_cancelled"
+                ? `${formatRange(revision.previousStartDate, revision.previousEndDate)} → ${formatRange(
+                    revision.startDate,
+                    revision.endDate
+                  )}`
+                : formatRange(revision.previousStartDate, revision.previousEndDate)}
+              {" · "}
+              {revision.actedByName}, {format(new Date(revision.at), "MMM dd, yyyy h:mm a")}
+              {revision.reason && ` · ${revision.reason}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -104,6 +104,7 @@ export default function LoginPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(companyAdminData),
+        credentials: 'include',
       });
       
       if (!response.ok) {
@@ -139,6 +140,7 @@ export default function LoginPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(companyUserData),
+        credentials: 'include',
       });
       
       if (!response.ok) {
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { FileSpreadsheet, Download } from "lucide-react";
+import { format, subMonths } from "date-fns";
+import { apiRequest, API_BASE_URL } from "@/lib/queryClient";
+import type { PayrollColumnMapping } from "@shared/schema";
+
+interface PayrollLayouts {
+  presets: { id: string; name: string; columns: PayrollColumnMapping }[];
+  custom: PayrollColumnMapping;
+}
+
+export default function PayrollExportCard() {
+  const { toast } = useToast();
+  // Payroll usually runs for the month that just ended
+  const [month, setMonth] = useState(format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [preset, setPreset] = useState("standard");
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const { data: layouts } = useQuery<PayrollLayouts>({
+    queryKey: ["/api/admin/attendance/payroll-export/layouts"],
+  });
+  const hasCustomLayout = Object.values(layouts?.custom ?? {}).some((header) => header?.trim());
+
+  const download = async (fileFormat: "csv" | "xlsx") => {
+    const [year, monthNumber] = month.split("-");
+    setDownloading(fileFormat);
+    try {
+      const res = await apiRequest(
+        `${API_BASE_URL}/api/admin/attendance/payroll-export?month=${parseInt(monthNumber)}&year=${year}&format=${fileFormat}&preset=${preset}`,
+        "GET"
+      );
+      const url = window.URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `payroll-${month}.${fileFormat}`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Unable to export payroll data.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5" />
+          Payroll Export
+        </CardTitle>
+        <CardDescription>
+          Payable days, loss of pay, paid leave, holidays, weekly offs, late marks, half days and approved
+          overtime per employee for a month
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-4 flex-wrap items-end">
+          <div className="min-w-[160px]">
+            <Label htmlFor="payroll-month">Month</Label>
+            <Input
+              id="payroll-month"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              data-testid="input-payroll-month"
+            />
+          </div>
+          <div className="flex-1 min-w-[200px]">
+            <Label>Column Layout</Label>
+            <Select value={preset} onValueChange={setPreset}>
+              <SelectTrigger data-testid="select-payroll-layout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {layouts?.presets.map((layout) => (
+                  <SelectItem key={layout.id} value={layout.id}>
+                    {layout.name}
+                  </SelectItem>
+                ))}
+                {hasCustomLayout && <SelectItem value="custom">Company layout</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => download("csv")}
+            disabled={!month || !!downloading}
+            data-testid="button-payroll-csv"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button onClick={() => download("xlsx")} disabled={!month || !!downloading} data-testid="button-payroll-xlsx">
+            <Download className="w-4 h-4 mr-2" />
+            Excel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,442 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Repeat, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import type { AutoTask, RecurringTask, User } from "@shared/schema";
+
+type RecurringTaskWithSchedule = RecurringTask & { nextRunDates: string[] };
+
+type RunDetails = {
+  recurringTaskId: number;
+  date: string;
+  taskIds?: number[];
+  reason?: string;
+};
+
+const WEEK_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  daily: "Every day",
+  weekdays: "Every weekday",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+const emptyForm = () => ({
+  title: "",
+  description: "",
+  priority: "medium",
+  frequency: "daily",
+  weekDays: [] as number[],
+  monthDay: "1",
+  dueTime: "",
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  endDate: "",
+  assigneeRule: "user",
+  assigneeId: "",
+  rotationUserIds: [] as number[],
+});
+
+function scheduleLabel(definition: RecurringTask) {
+  if (definition.frequency === "weekly") {
+    return `Weekly on ${definition.weekDays.map((d) => WEEK_DAYS[d]).join(", ")}`;
+  }
+  if (definition.frequency === "monthly") {
+    return `Monthly on day ${definition.monthDay}`;
+  }
+  return FREQUENCY_LABELS[definition.frequency] ?? definition.frequency;
+}
+
+function parseRun(run: AutoTask): RunDetails | null {
+  try {
+    return run.details ? JSON.parse(run.details) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Tasks the scheduler creates on a schedule, and a log of its recent runs. Runs on
+// company holidays are skipped.
+export default function RecurringTasksCard() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: definitions = [] } = useQuery<RecurringTaskWithSchedule[]>({
+    queryKey: ["/api/admin/recurring-tasks"],
+  });
+  const { data: runs = [] } = useQuery<AutoTask[]>({
+    queryKey: ["/api/admin/recurring-tasks/runs"],
+  });
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const activeUsers = users.filter((u) => u.isActive && u.role !== "company_admin");
+  const teamLeaders = activeUsers.filter((u) => u.role === "team_leader");
+  const userName = (id: number | null) => users.find((u) => u.id === id)?.displayName ?? "Unknown user";
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/recurring-tasks"] });
+  };
+  const onError = (error: any) => {
+    toast({
+      title: "Recurring Task Not Saved",
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`${API_BASE_URL}/api/admin/recurring-tasks`, "POST", {
+        title: form.title,
+        description: form.description || null,
+        priority: form.priority,
+        frequency: form.frequency,
+        weekDays: form.frequency === "weekly" ? form.weekDays : [],
+        monthDay: form.frequency === "monthly" ? parseInt(form.monthDay) : null,
+        dueTime: form.dueTime || null,
+        startDate: form.startDate,
+        endDate: form.endDate || null,
+        assigneeRule: form.assigneeRule,
+        assigneeId: form.assigneeRule !== "round_robin" && form.assigneeId ? parseInt(form.assigneeId) : null,
+        rotationUserIds: form.assigneeRule === "round_robin" ? form.rotationUserIds : [],
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      setDialogOpen(false);
+      setForm(emptyForm());
+      toast({ title: "Recurring Task Created" });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return await apiRequest(`${API_BASE_URL}/api/admin/recurring-tasks/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`${API_BASE_URL}/api/admin/recurring-tasks/${id}`, "DELETE");
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const toggleIn = (list: number[], value: number) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const definitionTitle = (id: number) => definitions.find((d) => d.id === id)?.title;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5" />
+            Recurring Tasks
+          </CardTitle>
+          <CardDescription>
+            Tasks created automatically on a schedule. Company holidays are skipped.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setDialogOpen(true)} data-testid="button-new-recurring-task">
+          <Plus className="w-4 h-4 mr-2" />
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {definitions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No recurring tasks yet</p>
+        ) : (
+          <div className="space-y-3">
+            {definitions.map((definition) => (
+              <div
+                key={definition.id}
+                className="flex items-start justify-between gap-4 p-3 border rounded-md"
+                data-testid={`recurring-task-${definition.id}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium flex items-center gap-2 flex-wrap">
+                    {definition.title}
+                    <Badge variant="outline">{definition.priority}</Badge>
+                    {!definition.isActive && <Badge variant="secondary">Paused</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {scheduleLabel(definition)}
+                    {definition.dueTime && ` - due ${definition.dueTime}`}
+                    {" - "}
+                    {definition.assigneeRule === "round_robin"
+                      ? `rotating between ${definition.rotationUserIds.map(userName).join(", ")}`
+                      : definition.assigneeRule === "team"
+                        ? `${userName(definition.assigneeId)}'s team`
+                        : userName(definition.assigneeId)}
+                  </p>
+                  {definition.nextRunDates.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Next:{" "}
+                      {definition.nextRunDates.map((d) => format(new Date(`${d}T00:00:00`), "EEE, MMM dd")).join(" · ")}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={definition.isActive}
+                    onCheckedChange={(isActive) => toggleMutation.mutate({ id: definition.id, isActive })}
+                    disabled={toggleMutation.isPending}
+                    data-testid={`switch-recurring-task-${definition.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      if (confirm(`Delete "${definition.title}"? Tasks it already created are kept.`)) {
+                        deleteMutation.mutate(definition.id);
+                      }
+                    }}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-recurring-task-${definition.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {runs.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Recent Runs</p>
+            {runs.slice(0, 10).map((run) => {
+              const details = parseRun(run);
+              return (
+                <div
+                  key={run.id}
+                  className="flex items-center justify-between gap-4 text-sm"
+                  data-testid={`recurring-run-${run.id}`}
+                >
+                  <span className="truncate">
+                    {(details && definitionTitle(details.recurringTaskId)) || run.taskName}
+                    <span className="text-muted-foreground">
+                      {" - "}
+                      {format(new Date(run.executedAt), "MMM dd, HH:mm")}
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    {run.status === "created" && details?.taskIds && (
+                      <span className="text-muted-foreground">
+                        {details.taskIds.length} task{details.taskIds.length === 1 ? "" : "s"}
+                      </span>
+                    )}
+                    {run.status !== "created" && details?.reason && (
+                      <span className="text-muted-foreground truncate max-w-[200px]">{details.reason}</span>
+                    )}
+                    <Badge variant={run.status === "failed" ? "destructive" : run.status === "skipped" ? "secondary" : "default"}>
+                      {run.status}
+                    </Badge>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Recurring Task</DialogTitle>
+            <DialogDescription>A task is created for each scheduled day that is not a company holiday.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-title">Title</Label>
+              <Input
+                id="recurring-title"
+                maxLength={255}
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                data-testid="input-recurring-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-description">Description</Label>
+              <Textarea
+                id="recurring-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                data-testid="input-recurring-description"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={form.priority} onValueChange={(priority) => setForm({ ...form, priority })}>
+                  <SelectTrigger data-testid="select-recurring-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-due-time">Due Time</Label>
+                <Input
+                  id="recurring-due-time"
+                  type="time"
+                  value={form.dueTime}
+                  onChange={(e) => setForm({ ...form, dueTime: e.target.value })}
+                  data-testid="input-recurring-due-time"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Repeats</Label>
+              <Select value={form.frequency} onValueChange={(frequency) => setForm({ ...form, frequency })}>
+                <SelectTrigger data-testid="select-recurring-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.frequency === "weekly" && (
+              <div className="flex gap-1 flex-wrap">
+                {WEEK_DAYS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={form.weekDays.includes(day) ? "default" : "outline"}
+                    onClick={() => setForm({ ...form, weekDays: toggleIn(form.weekDays, day) })}
+                    data-testid={`button-recurring-day-${day}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {form.frequency === "monthly" && (
+              <div className="space-y-2">
+                <Label htmlFor="recurring-month-day">Day of the Month</Label>
+                <Input
+                  id="recurring-month-day"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={form.monthDay}
+                  onChange={(e) => setForm({ ...form, monthDay: e.target.value })}
+                  data-testid="input-recurring-month-day"
+                />
+                <p className="text-xs text-muted-foreground">Shorter months use their last day.</p>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-start">Starts</Label>
+                <Input
+                  id="recurring-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                  data-testid="input-recurring-start"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-end">Ends (optional)</Label>
+                <Input
+                  id="recurring-end"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  data-testid="input-recurring-end"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Assign To</Label>
+              <Select value={form.assigneeRule} onValueChange={(assigneeRule) => setForm({ ...form, assigneeRule, assigneeId: "" })}>
+                <SelectTrigger data-testid="select-recurring-assignee-rule">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="user">A person</SelectItem>
+                  <SelectItem value="team">A team leader's whole team</SelectItem>
+                  <SelectItem value="round_robin">Round-robin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.assigneeRule === "round_robin" ? (
+              <div className="space-y-2 max-h-40 overflow-y-auto border rounded-md p-2">
+                {activeUsers.map((u) => (
+                  <div key={u.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`rotation-${u.id}`}
+                      checked={form.rotationUserIds.includes(u.id)}
+                      onCheckedChange={() => setForm({ ...form, rotationUserIds: toggleIn(form.rotationUserIds, u.id) })}
+                      data-testid={`checkbox-rotation-${u.id}`}
+                    />
+                    <label htmlFor={`rotation-${u.id}`} className="text-sm">
+                      {u.displayName}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <Select value={form.assigneeId} onValueChange={(assigneeId) => setForm({ ...form, assigneeId })}>
+                <SelectTrigger data-testid="select-recurring-assignee">
+                  <SelectValue placeholder={form.assigneeRule === "team" ? "Choose a team leader" : "Choose a person"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(form.assigneeRule === "team" ? teamLeaders : activeUsers).map((u) => (
+                    <SelectItem key={u.id} value={String(u.id)}>
+                      {u.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={() => createMutation.mutate()}
+              disabled={!form.title.trim() || createMutation.isPending}
+              data-testid="button-create-recurring-task"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Recurring Task"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useTaskWorkflow } from "@/hooks/useTaskWorkflow";
+import { Calendar } from "lucide-react";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+
+export interface BoardTask {
+  id: number;
+  title: string;
+  status: string;
+  priority: string;
+  deadline: string | Date | null;
+  assignedTo: number;
+  isBlocked?: boolean;
+}
+
+interface TaskBoardProps {
+  tasks: BoardTask[];
+  assigneeName?: (userId: number) => string | undefined;
+  onOpenTask?: (taskId: number) => void;
+}
+
+// The company's workflow as columns. Tasks are dragged between columns; the server
+// checks every move against the transition rules and WIP limits.
+export default function TaskBoard({ tasks, assigneeName, onOpenTask }: TaskBoardProps) {
+  const { toast } = useToast();
+  const { columns, canMove } = useTaskWorkflow();
+  const [dragged, setDragged] = useState<BoardTask | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ taskId, status }: { taskId: number; status: string }) => {
+      return await apiRequest(`${API_BASE_URL}/api/tasks/${taskId}/status`, "PATCH", { status });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      queryClient.invalidateQueries({ queryKey: [`${API_BASE_URL}/api/tasks`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/task-statuses"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Task Not Moved",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const knownKeys = new Set(columns.map((c) => c.key));
+  const unplaced = tasks.filter((t) => !knownKeys.has(t.status));
+
+  const drop = (status: string) => {
+    setDropTarget(null);
+    if (dragged && canMove(dragged.status, status)) {
+      moveMutation.mutate({ taskId: dragged.id, status });
+    }
+    setDragged(null);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2" data-testid="task-board">
+      {columns.map((column) => {
+        const columnTasks = tasks.filter((t) => t.status === column.key);
+        const atLimit = column.wipLimit !== null && column.taskCount >= column.wipLimit;
+        const accepts = !!dragged && canMove(dragged.status, column.key) && !atLimit;
+        return (
+          <div
+            key={column.key}
+            className={`w-72 shrink-0 rounded-md border bg-muted/40 p-3 space-y-3 ${
+              dropTarget === column.key && accepts ? "ring-2 ring-primary" : ""
+            } ${dragged && !accepts && dragged.status !== column.key ? "opacity-50" : ""}`}
+            onDragOver={(e) => {
+              if (accepts) {
+                e.preventDefault();
+                setDropTarget(column.key);
+              }
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              drop(column.key);
+            }}
+            data-testid={`board-column-${column.key}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-semibold text-sm">{column.name}</p>
+              <Badge variant={atLimit ? "destructive" : "secondary"}>
+                {column.wipLimit !== null ? `${column.taskCount} / ${column.wipLimit}` : columnTasks.length}
+              </Badge>
+            </div>
+            {columnTasks.map((task) => (
+              <div
+                key={task.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDragged(task);
+                }}
+                onDragEnd={() => {
+                  setDragged(null);
+                  setDropTarget(null);
+                }}
+                onClick={() => onOpenTask?.(task.id)}
+                className="rounded-md border bg-background p-3 space-y-2 cursor-grab active:cursor-grabbing"
+                data-testid={`board-task-${task.id}`}
+              >
+                <p className="text-sm font-medium">{task.title}</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={task.priority === "high" ? "destructive" : task.priority === "medium" ? "default" : "secondary"}>
+                    {task.priority}
+                  </Badge>
+                  {task.isBlocked && <Badge variant="destructive">blocked</Badge>}
+                </div>
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span className="truncate">{assigneeName?.(task.assignedTo)}</span>
+                  {task.deadline && (
+                    <span className="flex items-center gap-1 shrink-0">
+                      <Calendar className="h-3 w-3" />
+                      {new Date(task.deadline).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+            {columnTasks.length === 0 && (
+              <p className="text-xs text-muted-foreground text-center py-4">No tasks</p>
+            )}
+          </div>
+        );
+      })}
+      {unplaced.length > 0 && (
+        <div className="w-72 shrink-0 rounded-md border border-dashed p-3 space-y-3" data-testid="board-column-other">
+          <p className="font-semibold text-sm">Other</p>
+          {unplaced.map((task) => (
+            <div
+              key={task.id}
+              draggable
+              onDragStart={() => setDragged(task)}
+              onDragEnd={() => setDragged(null)}
+              onClick={() => onOpenTask?.(task.id)}
+              className="rounded-md border bg-background p-3 cursor-grab"
+              data-testid={`board-task-${task.id}`}
+            >
+              <p className="text-sm font-medium">{task.title}</p>
+              <p className="text-xs text-muted-foreground">{task.status}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,9 +14,11 @@ interface TaskCardProps {
   description: string;
   priority: "Low" | "Medium" | "High";
   deadline?: Date;
-  status: "Pending" | "In Progress" | "Completed";
+  // Key of the task's column in the company workflow, shown as statusName
+  status: string;
+  statusName?: string;
   assignedDate: Date;
-  onStatusChange?: (status: "Pending" | "In Progress" | "Completed") => void;
+  onStatusChange?: (status: string) => void;
 }
 
 const priorityColors = {
@@ -25,10 +27,11 @@ const priorityColors = {
   High: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
 };
 
-const statusColors = {
-  Pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
-  "In Progress": "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
-  Completed: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+// Custom workflow columns use the in-progress colour
+const statusColors: Record<string, string> = {
+  pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  in_progress: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  completed: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
 };
 
 export default function TaskCard({
@@ -39,6 +42,7 @@ export default function TaskCard({
   priority,
   deadline,
   status,
+  statusName,
   assignedDate,
   onStatusChange,
 }: TaskCardProps) {
@@ -52,7 +56,7 @@ export default function TaskCard({
   const { data: timeLog, refetch: refetchTimeLog } = useQuery({
     queryKey: [`${API_BASE_URL}/api/tasks/${id}/timer`, userId, today],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE_URL}/api/tasks/${id}/timer?userId=${userId}&date=${today}`);
+      const res = await fetch(`${API_BASE_URL}/api/tasks/${id}/timer?date=${today}`, { credentials: 'include' });
       if (!res.ok) return null;
       return res.json();
     },
@@ -83,7 +87,8 @@ export default function TaskCard({
       const res = await fetch(`${API_BASE_URL}/api/tasks/${id}/timer/start`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, date: today }),
+        body: JSON.stringify({ date: today }),
+        credentials: 'include',
       });
       if (!res.ok) throw new Error('Failed to start timer');
       return res.json();
@@ -98,7 +103,8 @@ export default function TaskCard({
       const res = await fetch(`${API_BASE_URL}/api/tasks/${id}/timer/pause`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, date: today }),
+        body: JSON.stringify({ date: today }),
+        credentials: 'include',
       });
       if (!res.ok) throw new Error('Failed to pause timer');
       return res.json();
@@ -113,7 +119,8 @@ export default function TaskCard({
       const timerRes = await fetch(`${API_BASE_URL}/api/tasks/${id}/timer/complete`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, date: today }),
+        body: JSON.stringify({ date: today }),
+        credentials: 'include',
       });
       if (!timerRes.ok) throw new Error('Failed to complete timer');
       
@@ -121,14 +128,15 @@ export default function TaskCard({
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ status: 'completed' }),
+        credentials: 'include',
       });
       if (!statusRes.ok) throw new Error('Failed to update task status');
       
       return timerRes.json();
     },
     onSuccess: () => {
-      setCurrentStatus('Completed');
-      onStatusChange?.('Completed');
+      setCurrentStatus('completed');
+      onStatusChange?.('completed');
       refetchTimeLog();
     },
   });
@@ -140,18 +148,6 @@ export default function TaskCard({
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleStatusChange = () => {
-    const statusFlow: Record<string, "Pending" | "In Progress" | "Completed"> = {
-      Pending: "In Progress",
-      "In Progress": "Completed",
-      Completed: "Completed",
-    };
-    const newStatus = statusFlow[currentStatus];
-    setCurrentStatus(newStatus);
-    onStatusChange?.(newStatus);
-    console.log(`Task ${id} status changed to ${newStatus}`);
-  };
-
   return (
     <Card
       className={`border-l-4 ${
@@ -175,8 +171,8 @@ export default function TaskCard({
             <Badge className={priorityColors[priority]} data-testid={`badge-priority-${id}`}>
               {priority}
             </Badge>
-            <Badge className={statusColors[currentStatus]} data-testid={`badge-status-${id}`}>
-              {currentStatus}
+            <Badge className={statusColors[currentStatus] ?? statusColors.in_progress} data-testid={`badge-status-${id}`}>
+              {currentStatus === status && statusName ? statusName : currentStatus.replace("_", " ")}
             </Badge>
           </div>
         </div>
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { ListChecks, Plus, X } from "lucide-react";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import type { SubtaskWithProgress } from "@/hooks/useTaskDetails";
+import type { Task, TaskChecklistItem } from "@shared/schema";
+
+interface TaskChecklistProps {
+  task: Task;
+  progress: number;
+  checklist: TaskChecklistItem[];
+  subtasks: SubtaskWithProgress[];
+}
+
+// Progress of a task with its checklist and subtasks. Checklist items can be added,
+// ticked off and removed here; subtasks are created like any other task.
+export default function TaskChecklist({ task, progress, checklist, subtasks }: TaskChecklistProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const checklistUrl = `${API_BASE_URL}/api/tasks/${task.id}/checklist`;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tasks/${task.id}/details`] });
+  };
+  const onError = (error: any) => {
+    toast({
+      title: "Checklist Not Updated",
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(checklistUrl, "POST", { title });
+    },
+    onSuccess: () => {
+      setTitle("");
+      refresh();
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isDone }: { id: number; isDone: boolean }) => {
+      return await apiRequest(`${checklistUrl}/${id}`, "PATCH", { isDone });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`${checklistUrl}/${id}`, "DELETE");
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const openRequired = subtasks.filter((s) => s.isRequired && s.status !== "completed").length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ListChecks className="w-4 h-4" />
+          Subtasks & Checklist
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-secondary-foreground">Progress</span>
+            <span className="font-semibold" data-testid="text-task-progress">
+              {progress}%
+            </span>
+          </div>
+          <Progress value={progress} />
+          {openRequired > 0 && (
+            <p className="text-xs text-secondary-foreground">
+              {openRequired} required subtask{openRequired > 1 ? "s" : ""} must be completed before this task
+            </p>
+          )}
+        </div>
+
+        {subtasks.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-secondary-foreground">Subtasks</p>
+            {subtasks.map((subtask) => (
+              <div
+                key={subtask.id}
+                className="flex items-center justify-between gap-2 p-2 rounded border"
+                data-testid={`subtask-${subtask.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{subtask.title}</p>
+                  <div className="flex items-center gap-2 mt-1">
+                    <Badge variant={subtask.status === "completed" ? "default" : "outline"}>
+                      {subtask.status.replace("_", " ")}
+                    </Badge>
+                    {!subtask.isRequired && <Badge variant="secondary">optional</Badge>}
+                  </div>
+                </div>
+                <span className="text-sm font-semibold">{subtask.progress}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm text-secondary-foreground">Checklist</p>
+          {checklist.map((item) => (
+            <div key={item.id} className="flex items-center gap-2" data-testid={`checklist-item-${item.id}`}>
+              <Checkbox
+                id={`checklist-${item.id}`}
+                checked={item.isDone}
+                disabled={toggleMutation.isPending}
+                onCheckedChange={(checked) => toggleMutation.mutate({ id: item.id, isDone: checked === true })}
+              />
+              <label
+                htmlFor={`checklist-${item.id}`}
+                className={`flex-1 text-sm ${item.isDone ? "line-through text-secondary-foreground" : ""}`}
+              >
+                {item.title}
+              </label>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => deleteMutation.mutate(item.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-checklist-item-${item.id}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              placeholder="Add a checklist item"
+              maxLength={255}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && title.trim()) addMutation.mutate();
+              }}
+              data-testid="input-checklist-item"
+            />
+            <Button
+              size="icon"
+              onClick={() => addMutation.mutate()}
+              disabled={!title.trim() || addMutation.isPending}
+              data-testid="button-add-checklist-item"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
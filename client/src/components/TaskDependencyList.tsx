@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { GitBranch, Plus, X } from "lucide-react";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import type { DependencySummary, TaskDependencies } from "@/hooks/useTaskDetails";
+import type { Task } from "@shared/schema";
+
+interface TaskDependencyListProps {
+  task: Task;
+  dependencies: TaskDependencies;
+}
+
+function DependencyRow({ dependency, onRemove }: { dependency: DependencySummary; onRemove?: () => void }) {
+  return (
+    <div className="flex items-center justify-between gap-2 p-2 rounded border" data-testid={`dependency-${dependency.id}`}>
+      <p className="text-sm font-medium truncate">{dependency.title}</p>
+      <div className="flex items-center gap-2 shrink-0">
+        <Badge variant={dependency.status === "completed" ? "default" : "outline"}>
+          {dependency.status.replace("_", " ")}
+        </Badge>
+        {onRemove && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={onRemove}
+            data-testid={`button-remove-dependency-${dependency.id}`}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Tasks that must be completed before this one can start, and the tasks waiting for it
+export default function TaskDependencyList({ task, dependencies }: TaskDependencyListProps) {
+  const { toast } = useToast();
+  const [dependsOnTaskId, setDependsOnTaskId] = useState("");
+  const dependenciesUrl = `${API_BASE_URL}/api/tasks/${task.id}/dependencies`;
+
+  const { data: tasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+  });
+  const linked = new Set([task.id, ...dependencies.dependsOn.map((d) => d.id)]);
+  const candidates = tasks.filter((t) => !linked.has(t.id) && t.status !== "completed");
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tasks/${task.id}/details`] });
+  };
+  const onError = (error: any) => {
+    toast({
+      title: "Dependency Not Updated",
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(dependenciesUrl, "POST", { dependsOnTaskId: parseInt(dependsOnTaskId) });
+    },
+    onSuccess: () => {
+      setDependsOnTaskId("");
+      refresh();
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`${dependenciesUrl}/${id}`, "DELETE");
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <GitBranch className="w-4 h-4" />
+          Dependencies
+          {dependencies.isBlocked && <Badge variant="destructive">blocked</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <p className="text-sm text-secondary-foreground">Waiting for</p>
+          {dependencies.dependsOn.length === 0 && (
+            <p className="text-xs text-secondary-foreground">This task can start at any time</p>
+          )}
+          {dependencies.dependsOn.map((dependency) => (
+            <DependencyRow
+              key={dependency.id}
+              dependency={dependency}
+              onRemove={() => removeMutation.mutate(dependency.id)}
+            />
+          ))}
+          <div className="flex gap-2">
+            <Select value={dependsOnTaskId} onValueChange={setDependsOnTaskId}>
+              <SelectTrigger data-testid="select-dependency">
+                <SelectValue placeholder="Add a task this one waits for" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((t) => (
+                  <SelectItem key={t.id} value={String(t.id)}>
+                    {t.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="icon"
+              onClick={() => addMutation.mutate()}
+              disabled={!dependsOnTaskId || addMutation.isPending}
+              data-testid="button-add-dependency"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {dependencies.blocking.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-secondary-foreground">Blocking</p>
+            {dependencies.blocking.map((dependency) => (
+              <DependencyRow key={dependency.id} dependency={dependency} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,11 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { format } from "date-fns";
 import { Clock, Repeat2, Calendar, CheckCircle2, AlertCircle } from "lucide-react";
-import type { Task } from "@shared/schema";
+import TaskDiscussion from "@/components/TaskDiscussion";
+import TaskChecklist from "@/components/TaskChecklist";
+import TaskDependencyList from "@/components/TaskDependencyList";
+import type { SubtaskWithProgress, TaskDependencies } from "@/hooks/useTaskDetails";
+import type { Task, TaskChecklistItem } from "@shared/schema";
 
 interface TaskDetailsModalProps {
   open: boolean;
@@ -13,12 +17,18 @@ interface TaskDetailsModalProps {
     totalSeconds: number;
     oldTimeSeconds: number;
     newTimeSeconds: number;
+    subtaskSeconds?: number;
   } | null;
   returnCount: number;
   reworkHistory?: Array<{
     date: string;
     message: string;
   }>;
+  progress?: number;
+  checklist?: TaskChecklistItem[];
+  subtasks?: SubtaskWithProgress[];
+  parentTask?: { id: number; title: string } | null;
+  dependencies?: TaskDependencies;
 }
 
 export default function TaskDetailsModal({
@@ -28,6 +38,11 @@ export default function TaskDetailsModal({
   timeLogs,
   returnCount,
   reworkHistory = [],
+  progress,
+  checklist = [],
+  subtasks = [],
+  parentTask,
+  dependencies,
 }: TaskDetailsModalProps) {
   if (!task) return null;
 
@@ -68,6 +83,11 @@ export default function TaskDetailsModal({
                   <Badge variant={task.status === "completed" ? "default" : task.status === "returned" ? "destructive" : "outline"}>
                     {task.status}
                   </Badge>
+                  {dependencies?.isBlocked && (
+                    <Badge variant="destructive" className="ml-2" data-testid="badge-task-blocked">
+                      blocked
+                    </Badge>
+                  )}
                 </div>
               </div>
               {task.description && (
@@ -76,9 +96,24 @@ export default function TaskDetailsModal({
                   <p className="text-sm">{task.description}</p>
                 </div>
               )}
+              {parentTask && (
+                <div>
+                  <p className="text-sm text-secondary-foreground">Subtask of</p>
+                  <p className="text-sm">
+                    {parentTask.title}
+                    {!task.isRequired && " (optional)"}
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {progress !== undefined && (
+            <TaskChecklist task={task} progress={progress} checklist={checklist} subtasks={subtasks} />
+          )}
+
+          {dependencies && <TaskDependencyList task={task} dependencies={dependencies} />}
+
           {/* Time Tracking */}
           <Card>
             <CardHeader className="pb-3">
@@ -101,6 +136,12 @@ export default function TaskDetailsModal({
                         <span className="font-semibold text-orange-700 dark:text-orange-300">{formatTime(timeLogs.oldTimeSeconds)}</span>
                       </div>
                     )}
+                    {!!timeLogs.subtaskSeconds && (
+                      <div className="flex justify-between items-center p-2 bg-muted rounded">
+                        <span className="text-sm">From Subtasks</span>
+                        <span className="font-semibold">{formatTime(timeLogs.subtaskSeconds)}</span>
+                      </div>
+                    )}
                     {timeLogs.newTimeSeconds > 0 && (
                       <div className="flex justify-between items-center p-2 bg-blue-50 dark:bg-blue-950/20 rounded">
                         <span className="text-sm">Rework Time</span>
@@ -195,6 +236,9 @@ export default function TaskDetailsModal({
               </div>
             </CardContent>
           </Card>
+
+          {/* Comments and activity */}
+          <TaskDiscussion task={task} />
         </div>
       </DialogContent>
     </Dialog>
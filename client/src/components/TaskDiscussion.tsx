@@ -0,0 +1,270 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { Activity, CornerDownRight, MessageSquare, Send, X } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import type { Task, TaskCommentWithUser, User } from "@shared/schema";
+
+const MAX_SUGGESTIONS = 5;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function statusLabel(status: string | null) {
+  return (status || "none").replace("_", " ");
+}
+
+function activityText(entry: TaskCommentWithUser) {
+  const actor = entry.userName || "Someone";
+  switch (entry.activityType) {
+    case "status_changed":
+      return `${actor} changed the status from ${statusLabel(entry.oldValue)} to ${statusLabel(entry.newValue)}`;
+    case "reassigned":
+      return `${actor} reassigned the task from ${entry.oldValue || "nobody"} to ${entry.newValue || "nobody"}`;
+    case "deadline_changed":
+      return entry.newValue
+        ? `${actor} changed the deadline to ${format(new Date(entry.newValue), "MMM dd, yyyy hh:mm a")}`
+        : `${actor} removed the deadline`;
+    case "timer_started":
+      return `${actor} started the timer`;
+    case "timer_paused":
+      return `${actor} paused the timer`;
+    case "timer_completed":
+      return `${actor} stopped the timer and completed the work`;
+    default:
+      return `${actor} updated the task`;
+  }
+}
+
+// Comment text with the "@Name" of each mentioned user highlighted
+function CommentBody({ body, names }: { body: string; names: string[] }) {
+  if (names.length === 0) return <>{body}</>;
+  const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join("|")}))`, "gi");
+  return (
+    <>
+      {body.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="font-medium text-primary">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+// Comment thread and activity history of a task. New entries arrive over the websocket
+// while the task is open; typing "@" suggests company users to mention.
+export default function TaskDiscussion({ task }: { task: Task }) {
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const [replyTo, setReplyTo] = useState<TaskCommentWithUser | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const commentsKey = `/api/tasks/${task.id}/comments`;
+
+  const { data: entries = [], isLoading } = useQuery<TaskCommentWithUser[]>({
+    queryKey: [commentsKey],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+  const companyUsers = useMemo(
+    () => users.filter((u) => u.companyId === task.companyId && u.isActive),
+    [users, task.companyId]
+  );
+  const userNames = useMemo(() => new Map(companyUsers.map((u) => [u.id, u.displayName])), [companyUsers]);
+
+  const handleMessage = useCallback(
+    (message: any) => {
+      if (message.type === "task_comment" && message.taskId === task.id) {
+        queryClient.invalidateQueries({ queryKey: [commentsKey] });
+      }
+    },
+    [task.id, commentsKey]
+  );
+  useWebSocket(handleMessage);
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`${API_BASE_URL}${commentsKey}`, "POST", {
+        body,
+        parentId: replyTo?.id ?? null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [commentsKey] });
+      setBody("");
+      setReplyTo(null);
+      setMentionQuery(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Comment Not Posted",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleBodyChange = (value: string, caret: number) => {
+    setBody(value);
+    const match = /@([^@\n]*)$/.exec(value.slice(0, caret));
+    setMentionQuery(match && match[1].length <= 30 ? match[1] : null);
+  };
+
+  const suggestions =
+    mentionQuery === null
+      ? []
+      : companyUsers
+          .filter((u) => u.displayName.toLowerCase().includes(mentionQuery.toLowerCase()))
+          .slice(0, MAX_SUGGESTIONS);
+
+  const insertMention = (user: User) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const start = body.slice(0, caret).lastIndexOf("@");
+    setBody(`${body.slice(0, start)}@${user.displayName} ${body.slice(caret)}`);
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const topLevel = entries.filter((e) => e.parentId === null);
+  const replies = (id: number) => entries.filter((e) => e.parentId === id);
+
+  const renderComment = (comment: TaskCommentWithUser, isReply: boolean) => (
+    <div
+      key={comment.id}
+      className={`p-3 rounded border ${isReply ? "ml-6" : ""}`}
+      data-testid={`task-comment-${comment.id}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium flex items-center gap-1">
+          {isReply && <CornerDownRight className="w-3 h-3 text-secondary-foreground" />}
+          {comment.userName || "Former user"}
+        </p>
+        <p className="text-xs text-secondary-foreground">
+          {format(new Date(comment.createdAt), "MMM dd, hh:mm a")}
+        </p>
+      </div>
+      <p className="text-sm mt-1 whitespace-pre-wrap break-words">
+        <CommentBody
+          body={comment.body || ""}
+          names={comment.mentions.map((id) => userNames.get(id)).filter((n): n is string => !!n)}
+        />
+      </p>
+      {!isReply && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 mt-1"
+          onClick={() => {
+            setReplyTo(comment);
+            textareaRef.current?.focus();
+          }}
+          data-testid={`button-reply-comment-${comment.id}`}
+        >
+          Reply
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" />
+          Discussion & Activity
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-secondary-foreground">Loading...</p>
+        ) : topLevel.length === 0 ? (
+          <p className="text-sm text-secondary-foreground">No comments or activity yet</p>
+        ) : (
+          <div className="space-y-2">
+            {topLevel.map((entry) =>
+              entry.kind === "activity" ? (
+                <div
+                  key={entry.id}
+                  className="flex items-start gap-2 px-1 text-xs text-secondary-foreground"
+                  data-testid={`task-activity-${entry.id}`}
+                >
+                  <Activity className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  <span className="flex-1">{activityText(entry)}</span>
+                  <span>{format(new Date(entry.createdAt), "MMM dd, hh:mm a")}</span>
+                </div>
+              ) : (
+                <div key={entry.id} className="space-y-2">
+                  {renderComment(entry, false)}
+                  {replies(entry.id).map((reply) => renderComment(reply, true))}
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-3">
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-secondary-foreground">
+              <span>Replying to {replyTo.userName || "Former user"}</span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setReplyTo(null)}>
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+          <div className="relative">
+            <Textarea
+              ref={textareaRef}
+              placeholder="Write a comment. Type @ to mention someone."
+              maxLength={2000}
+              rows={2}
+              value={body}
+              onChange={(e) => handleBodyChange(e.target.value, e.target.selectionStart)}
+              data-testid="input-task-comment"
+            />
+            {suggestions.length > 0 && (
+              <div className="absolute z-10 left-0 right-0 mt-1 rounded-md border bg-popover shadow-md">
+                {suggestions.map((user) => (
+                  <button
+                    key={user.id}
+                    type="button"
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-accent"
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      insertMention(user);
+                    }}
+                    data-testid={`mention-option-${user.id}`}
+                  >
+                    {user.displayName}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => postMutation.mutate()}
+              disabled={!body.trim() || postMutation.isPending}
+              data-testid="button-post-task-comment"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {postMutation.isPending ? "Posting..." : replyTo ? "Reply" : "Comment"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
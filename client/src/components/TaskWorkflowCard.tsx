@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTaskWorkflow, type WorkflowColumn } from "@/hooks/useTaskWorkflow";
+import { ArrowDown, ArrowUp, Columns3, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+
+// Columns every workflow keeps
+const BUILT_IN_COLUMNS = ["pending", "in_progress", "completed"];
+
+const CATEGORY_LABELS: Record<string, string> = {
+  todo: "Not started",
+  in_progress: "Started",
+  done: "Done",
+};
+
+// The columns of the company's task board: their names, WIP limits and the columns
+// each may move tasks to. Pending, In Progress and Completed can be renamed but not
+// removed.
+export default function TaskWorkflowCard() {
+  const { toast } = useToast();
+  const { columns } = useTaskWorkflow();
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState("in_progress");
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/task-statuses"] });
+  };
+  const onError = (error: any) => {
+    toast({
+      title: "Workflow Not Updated",
+      description: error.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`${API_BASE_URL}/api/admin/task-statuses`, "POST", { name, category });
+    },
+    onSuccess: () => {
+      setName("");
+      onSuccess();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ key, changes }: { key: string; changes: Record<string, unknown> }) => {
+      return await apiRequest(`${API_BASE_URL}/api/admin/task-statuses/${key}`, "PATCH", changes);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (key: string) => {
+      return await apiRequest(`${API_BASE_URL}/api/admin/task-statuses/${key}`, "DELETE");
+    },
+    onSuccess,
+    onError,
+  });
+
+  const update = (column: WorkflowColumn, changes: Record<string, unknown>) =>
+    updateMutation.mutate({ key: column.key, changes });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="w-5 h-5" />
+          Workflow
+        </CardTitle>
+        <CardDescription>
+          Board columns, in order. Leave "Can move to" empty to allow any move.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {columns.map((column, index) => (
+          <div key={column.key} className="p-3 border rounded-md space-y-3" data-testid={`workflow-column-${column.key}`}>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Input
+                className="flex-1 min-w-[160px]"
+                maxLength={50}
+                defaultValue={column.name}
+                onBlur={(e) => {
+                  const value = e.target.value.trim();
+                  if (value && value !== column.name) update(column, { name: value });
+                }}
+                data-testid={`input-workflow-name-${column.key}`}
+              />
+              <Badge variant="outline">{CATEGORY_LABELS[column.category] ?? column.category}</Badge>
+              <Input
+                className="w-24"
+                type="number"
+                min={1}
+                placeholder="No limit"
+                disabled={column.category === "done"}
+                defaultValue={column.wipLimit ?? ""}
+                onBlur={(e) => {
+                  const wipLimit = e.target.value ? parseInt(e.target.value) : null;
+                  if (wipLimit !== column.wipLimit) update(column, { wipLimit });
+                }}
+                data-testid={`input-workflow-wip-${column.key}`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === 0 || updateMutation.isPending}
+                onClick={() => update(column, { position: index - 1 })}
+                data-testid={`button-workflow-up-${column.key}`}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === columns.length - 1 || updateMutation.isPending}
+                onClick={() => update(column, { position: index + 1 })}
+                data-testid={`button-workflow-down-${column.key}`}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              {!BUILT_IN_COLUMNS.includes(column.key) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(column.key)}
+                  data-testid={`button-workflow-delete-${column.key}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-1 flex-wrap">
+              <span className="text-xs text-muted-foreground mr-1">Can move to:</span>
+              {columns
+                .filter((other) => other.key !== column.key)
+                .map((other) => {
+                  const allowed = column.allowedTransitions.includes(other.key);
+                  return (
+                    <Button
+                      key={other.key}
+                      size="sm"
+                      variant={allowed ? "default" : "outline"}
+                      className="h-7"
+                      disabled={updateMutation.isPending}
+                      onClick={() =>
+                        update(column, {
+                          allowedTransitions: allowed
+                            ? column.allowedTransitions.filter((k) => k !== other.key)
+                            : [...column.allowedTransitions, other.key],
+                        })
+                      }
+                      data-testid={`button-workflow-transition-${column.key}-${other.key}`}
+                    >
+                      {other.name}
+                    </Button>
+                  );
+                })}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex gap-4 items-end flex-wrap">
+          <div className="flex-1 min-w-[200px] space-y-2">
+            <Label htmlFor="workflow-column-name">New Column</Label>
+            <Input
+              id="workflow-column-name"
+              placeholder="e.g. In Review"
+              maxLength={50}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-workflow-column-name"
+            />
+          </div>
+          <div className="w-40 space-y-2">
+            <Label>Tasks Here Are</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger data-testid="select-workflow-column-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="todo">{CATEGORY_LABELS.todo}</SelectItem>
+                <SelectItem value="in_progress">{CATEGORY_LABELS.in_progress}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => addMutation.mutate()}
+            disabled={!name.trim() || addMutation.isPending}
+            data-testid="button-add-workflow-column"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,6 +15,7 @@ import {
   LogOut,
   Mail,
   Megaphone,
+  Timer,
 } from "lucide-react";
 import {
   Sidebar,
@@ -48,6 +49,7 @@ const teamLeaderNavItems: NavItem[] = [
   { path: "/team-leader/leave-requests", label: "My Leave Requests", icon: Calendar },
   { path: "/team-leader/leaves", label: "Leave Approval", icon: Calendar },
   { path: "/team-leader/corrections", label: "Correction Requests", icon: FileEdit },
+  { path: "/team-leader/overtime", label: "Overtime", icon: Timer },
   { path: "/team-leader/attendance", label: "My Attendance", icon: UserCheck },
   { path: "/team-leader/attendance-monitor", label: "Team Attendance", icon: Clock },
   { path: "/team-leader/attendance-reports", label: "Attendance Reports", icon: TrendingUp },
@@ -12,6 +12,7 @@ import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
 import { useWebSocket } from "@/contexts/WebSocketContext";
+import { useTaskWorkflow } from "@/hooks/useTaskWorkflow";
 import { useCallback, useState } from "react";
 import type { Task, Message, Rating, GroupMessage, Report } from "@shared/schema";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -21,6 +22,7 @@ import { format } from "date-fns";
 
 export default function UserDashboard() {
   const { user, signOut, dbUserId } = useAuth();
+  const { statusName } = useTaskWorkflow();
   const [, setLocation] = useLocation();
   const [viewReportsOpen, setViewReportsOpen] = useState(false);
   const currentHour = new Date().getHours();
@@ -38,7 +40,7 @@ export default function UserDashboard() {
   const { data: tasks = [], isLoading: tasksLoading } = useQuery<Task[]>({
     queryKey: [`${API_BASE_URL}/api/tasks`, dbUserId],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE_URL}/api/tasks?userId=${dbUserId}`);
+      const res = await fetch(`${API_BASE_URL}/api/tasks?userId=${dbUserId}`, { credentials: 'include' });
       if (!res.ok) throw new Error('Failed to fetch tasks');
       return res.json();
     },
@@ -48,7 +50,7 @@ export default function UserDashboard() {
   const { data: messages = [], isLoading: messagesLoading } = useQuery<Message[]>({
     queryKey: [`${API_BASE_URL}/api/messages`, dbUserId],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE_URL}/api/messages?receiverId=${dbUserId}`);
+      const res = await fetch(`${API_BASE_URL}/api/messages?receiverId=${dbUserId}`, { credentials: 'include' });
       if (!res.ok) throw new Error('Failed to fetch messages');
       return res.json();
     },
@@ -58,7 +60,7 @@ export default function UserDashboard() {
   const { data: latestRating, isLoading: ratingLoading } = useQuery<Rating | null>({
     queryKey: [`${API_BASE_URL}/api/ratings`, dbUserId, 'latest'],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE_URL}/api/ratings?userId=${dbUserId}&latest=true`);
+      const res = await fetch(`${API_BASE_URL}/api/ratings?userId=${dbUserId}&latest=true`, { credentials: 'include' });
       if (!res.ok) throw new Error('Failed to fetch rating');
       return res.json();
     },
@@ -68,7 +70,7 @@ export default function UserDashboard() {
   const { data: allRatings = [] } = useQuery<Rating[]>({
     queryKey: [`${API_BASE_URL}/api/ratings`, dbUserId, 'all'],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE_URL}/api/ratings?userId=${dbUserId}`);
+      const res = await fetch(`${API_BASE_URL}/api/ratings?userId=${dbUserId}`, { credentials: 'include' });
       if (!res.ok) throw new Error('Failed to fetch ratings');
       return res.json();
     },
@@ -78,7 +80,7 @@ export default function UserDashboard() {
   const { data: groupMessages = [] } = useQuery<GroupMessage[]>({
     queryKey: [`${API_BASE_URL}/api/group-messages`],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE_URL}/api/group-messages?limit=10`);
+      const res = await fetch(`${API_BASE_URL}/api/group-messages?limit=10`, { credentials: 'include' });
       if (!res.ok) throw new Error('Failed to fetch announcements');
       return res.json();
     },
@@ -87,7 +89,7 @@ export default function UserDashboard() {
   const { data: userReports = [], isLoading: reportsLoading } = useQuery<Report[]>({
     queryKey: [`${API_BASE_URL}/api/reports`, dbUserId],
     queryFn: async () => {
-      const res = await fetch(`${API_BASE_URL}/api/reports?userId=${dbUserId}`);
+      const res = await fetch(`${API_BASE_URL}/api/reports?userId=${dbUserId}`, { credentials: 'include' });
       if (!res.ok) throw new Error('Failed to fetch reports');
       return res.json();
     },
@@ -303,11 +305,6 @@ export default function UserDashboard() {
               ) : tasks.length > 0 ? (
                 <div className="space-y-4">
                   {tasks.map(task => {
-                    const statusMap: Record<string, "Pending" | "In Progress" | "Completed"> = {
-                      'pending': 'Pending',
-                      'in progress': 'In Progress',
-                      'completed': 'Completed'
-                    };
                     const priorityMap: Record<string, "Low" | "Medium" | "High"> = {
                       'low': 'Low',
                       'medium': 'Medium',
@@ -322,11 +319,11 @@ export default function UserDashboard() {
                         description={task.description || ""}
                         priority={priorityMap[task.priority.toLowerCase()] || 'Medium'}
                         deadline={task.deadline ? new Date(task.deadline) : undefined}
-                        status={statusMap[task.status.toLowerCase()] || 'Pending'}
+                        status={task.status}
+                        statusName={statusName(task.status)}
                         assignedDate={new Date(task.createdAt)}
                         onStatusChange={(status) => {
-                          const dbStatus = status.toLowerCase();
-                          updateTaskStatusMutation.mutate({ taskId: task.id, status: dbStatus });
+                          updateTaskStatusMutation.mutate({ taskId: task.id, status });
                         }}
                       />
                     );
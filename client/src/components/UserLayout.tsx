@@ -17,7 +17,8 @@ import {
   Calendar,
   Clock,
   History,
-  FileEdit
+  FileEdit,
+  Timer
 } from "lucide-react";
 import ThemeToggle from "./ThemeToggle";
 import BottomNav, { BottomNavItem } from "./BottomNav";
@@ -41,6 +42,7 @@ const navItems: NavItem[] = [
   { path: "/user/attendance", label: "Attendance", icon: Clock },
   { path: "/user/attendance-history", label: "Attendance History", icon: History },
   { path: "/user/correction-requests", label: "Correction Requests", icon: FileEdit },
+  { path: "/user/overtime", label: "Overtime", icon: Timer },
 ];
 
 const bottomNavItems: BottomNavItem[] = [
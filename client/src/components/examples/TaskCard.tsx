@@ -9,7 +9,8 @@ export default function TaskCardExample() {
         description="Prepare comprehensive sales analysis for Q4 including regional breakdowns, customer segments, and revenue projections."
         priority="High"
         deadline={new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)}
-        status="In Progress"
+        status="in_progress"
+        statusName="In Progress"
         assignedDate={new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)}
       />
       <TaskCard
@@ -18,7 +19,8 @@ export default function TaskCardExample() {
         description="Conduct individual performance reviews for team members and prepare feedback."
         priority="Medium"
         deadline={new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)}
-        status="Pending"
+        status="pending"
+        statusName="Pending"
         assignedDate={new Date()}
       />
     </div>
@@ -37,40 +37,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [dbUserId, setDbUserId] = useState<number | null>(null);
   const [companyId, setCompanyId] = useState<number | null>(null);
 
+  const applyUser = (userData: User | null) => {
+    setUser(userData);
+    setUserRole(userData?.role ?? null);
+    setDbUserId(userData?.id ?? null);
+    setCompanyId(userData?.companyId || null);
+  };
+
   useEffect(() => {
     const storedUser = localStorage.getItem('user');
-    if (storedUser) {
-      const userData = JSON.parse(storedUser);
-      setUser(userData);
-      setUserRole(userData.role);
-      setDbUserId(userData.id);
-      setCompanyId(userData.companyId || null);
+    if (!storedUser) {
+      setLoading(false);
+      return;
     }
-    setLoading(false);
-  }, []);
-
-  useEffect(() => {
-    if (!user) return;
-
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
 
-    ws.onmessage = (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        if (message.type === 'USER_SUSPENDED' && message.userId === user.id) {
-          localStorage.clear();
-          window.location.href = "/worklogix/";
+    // The stored user is only a cache; the session cookie is what authenticates us, so confirm it is still live
+    const cachedUser = JSON.parse(storedUser);
+    fetch(`${API_BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      credentials: 'include',
+    })
+      .then(async (response) => {
+        if (response.status === 401) {
+          localStorage.removeItem('user');
+          applyUser(null);
+          return;
         }
-      } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
-      }
-    };
-
-    return () => {
-      ws.close();
-    };
-  }, [user]);
+        if (!response.ok) {
+          applyUser(cachedUser);
+          return;
+        }
+        const freshUser = { ...cachedUser, ...(await response.json()) };
+        localStorage.setItem('user', JSON.stringify(freshUser));
+        applyUser(freshUser);
+      })
+      .catch(() => {
+        // Offline or server unreachable: keep the cached user, requests will re-check the session
+        applyUser(cachedUser);
+      })
+      .finally(() => setLoading(false));
+  }, []);
 
   const login = async (email: string, password: string) => {
     try {
@@ -78,6 +84,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ email, password }),
+        credentials: 'include',
       });
       
       if (!response.ok) {
@@ -103,6 +110,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ email, displayName, password }),
+        credentials: 'include',
       });
       
       if (!response.ok) {
@@ -124,6 +132,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = async () => {
     setLoggingOut(true);
+
+    try {
+      await fetch(`${API_BASE_URL}/api/auth/logout`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+    } catch (error) {
+      console.error("Error ending session:", error);
+    }
     
     setUser(null);
     setUserRole(null);
@@ -7,6 +7,8 @@ import {
     ReactNode,
     useCallback,
 } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { clearUserStorage } from "@/lib/device";
 
 interface WebSocketMessage {
     type: string;
@@ -18,16 +20,22 @@ type MessageHandler = (message: WebSocketMessage) => void;
 
 interface WebSocketContextType {
     lastMessage: WebSocketMessage | null;
+    channels: string[];
     sendMessage: (message: any) => void;
     subscribe: (handler: MessageHandler) => () => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType | null>(null);
 
+// Close code the server uses when the session behind the socket has been revoked
+const SESSION_REVOKED_CODE = 4001;
+
 export function WebSocketProvider({ children }: { children: ReactNode }) {
+    const { dbUserId } = useAuth();
     const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(
         null
     );
+    const [channels, setChannels] = useState<string[]>([]);
     const [ws, setWs] = useState<WebSocket | null>(null);
     const subscribersRef = useRef<Set<MessageHandler>>(new Set());
     const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -38,7 +46,11 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
     const baseReconnectDelay = 1000;
 
     useEffect(() => {
+        // The server only accepts sockets for a logged-in session
+        if (!dbUserId) return;
+
         isUnmountedRef.current = false;
+        reconnectAttemptsRef.current = 0;
 
         let wsUrl: string;
         const externalApiUrl = import.meta.env.VITE_API_URL;
@@ -82,6 +94,33 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
                             data.type,
                             data
                         );
+
+                        // The server lists the channels this user is entitled to;
+                        // subscribe to exactly those and nothing else
+                        if (data.type === "CHANNELS") {
+                            websocket.send(
+                                JSON.stringify({
+                                    type: "subscribe",
+                                    channels: data.channels,
+                                })
+                            );
+                            return;
+                        }
+
+                        if (data.type === "SUBSCRIBED") {
+                            setChannels(data.channels);
+                            return;
+                        }
+
+                        if (
+                            data.type === "USER_SUSPENDED" &&
+                            data.userId === dbUserId
+                        ) {
+                            clearUserStorage();
+                            window.location.href = "/worklogix/";
+                            return;
+                        }
+
                         setLastMessage(data);
 
                         subscribersRef.current.forEach((handler) => {
@@ -113,6 +152,12 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
                     if (isUnmountedRef.current) return;
 
                     setWs(null);
+                    setChannels([]);
+
+                    // The session is gone; reconnecting would only be refused again
+                    if (event.code === SESSION_REVOKED_CODE) {
+                        return;
+                    }
 
                     // Attempt to reconnect with exponential backoff
                     if (reconnectAttemptsRef.current < maxReconnectAttempts) {
@@ -161,7 +206,7 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
                 socketRef.current = null;
             }
         };
-    }, []);
+    }, [dbUserId]);
 
     const sendMessage = useCallback(
         (message: any) => {
@@ -182,7 +227,7 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
 
     return (
         <WebSocketContext.Provider
-            value={{ lastMessage, sendMessage, subscribe }}>
+            value={{ lastMessage, channels, sendMessage, subscribe }}>
             {children}
         </WebSocketContext.Provider>
     );
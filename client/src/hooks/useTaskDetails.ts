@@ -0,0 +1,60 @@
+import { useCallback, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import type { Task, TaskChecklistItem } from '@shared/schema';
+
+export type SubtaskWithProgress = Task & { progress: number };
+
+export type DependencySummary = { id: number; title: string; status: string };
+
+export interface TaskDependencies {
+  isBlocked: boolean;
+  dependsOn: DependencySummary[];
+  blocking: DependencySummary[];
+}
+
+export interface TaskDetails {
+  task: Task;
+  timeLogs: {
+    totalSeconds: number;
+    oldTimeSeconds: number;
+    newTimeSeconds: number;
+    subtaskSeconds: number;
+  } | null;
+  reworkHistory: Array<{ date: string; message: string }>;
+  returnCount: number;
+  progress: number;
+  checklist: TaskChecklistItem[];
+  subtasks: SubtaskWithProgress[];
+  parentTask: { id: number; title: string } | null;
+  dependencies: TaskDependencies;
+}
+
+// The task shown in TaskDetailsModal, with its time logs, rework history and the
+// progress of its checklist and subtasks, and the tasks it depends on. Refetched whenever the task changes.
+export function useTaskDetails() {
+  const [taskId, setTaskId] = useState<number | null>(null);
+  const detailsKey = `/api/tasks/${taskId}/details`;
+  const { data: details } = useQuery<TaskDetails>({
+    queryKey: [detailsKey],
+    enabled: taskId !== null,
+  });
+
+  const handleMessage = useCallback(
+    (message: any) => {
+      if (message.type === 'task_updated' && message.taskId === taskId) {
+        queryClient.invalidateQueries({ queryKey: [detailsKey] });
+      }
+    },
+    [taskId, detailsKey]
+  );
+  useWebSocket(handleMessage);
+
+  return {
+    isOpen: taskId !== null,
+    details: taskId !== null ? details : undefined,
+    openTask: (id: number) => setTaskId(id),
+    closeTask: () => setTaskId(null),
+  };
+}
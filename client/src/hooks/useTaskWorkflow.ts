@@ -0,0 +1,37 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import type { TaskWorkflowStatus } from '@shared/schema';
+
+export type WorkflowColumn = Pick<
+  TaskWorkflowStatus,
+  'key' | 'name' | 'category' | 'position' | 'wipLimit' | 'allowedTransitions'
+> & { taskCount: number };
+
+// The columns of the company's task board with how many tasks each holds. Refetched
+// when an admin changes the workflow or any task moves.
+export function useTaskWorkflow() {
+  const { data: columns = [] } = useQuery<WorkflowColumn[]>({
+    queryKey: ['/api/task-statuses'],
+  });
+
+  const handleMessage = useCallback((message: any) => {
+    if (message.type === 'task_workflow_updated' || message.type === 'task_updated') {
+      queryClient.invalidateQueries({ queryKey: ['/api/task-statuses'] });
+    }
+  }, []);
+  useWebSocket(handleMessage);
+
+  const statusName = (key: string) =>
+    columns.find((c) => c.key === key)?.name ?? key.replace('_', ' ');
+
+  // Mirrors the server's transition rules so the board only offers allowed moves
+  const canMove = (from: string, to: string) => {
+    if (from === to) return false;
+    const column = columns.find((c) => c.key === from);
+    return !column || column.allowedTransitions.length === 0 || column.allowedTransitions.includes(to);
+  };
+
+  return { columns, statusName, canMove };
+}
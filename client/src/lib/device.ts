@@ -0,0 +1,73 @@
+// Identifies this browser for attendance device binding. The id is random and only
+// meaningful to our server, so it is generated once and kept in localStorage.
+const DEVICE_ID_KEY = "worklogix.deviceId";
+
+export function getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+        deviceId =
+            typeof crypto !== "undefined" && "randomUUID" in crypto
+                ? crypto.randomUUID()
+                : `${Date.now().toString(36)}-${Math.random()
+                      .toString(36)
+                      .slice(2)}`;
+        localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+}
+
+// Human-readable description shown to admins reviewing a rebind request
+export function getDeviceLabel(): string {
+    const ua = navigator.userAgent;
+    const platform = /Android/i.test(ua)
+        ? "Android"
+        : /iPhone|iPad|iPod/i.test(ua)
+        ? "iOS"
+        : /Windows/i.test(ua)
+        ? "Windows"
+        : /Mac OS X/i.test(ua)
+        ? "macOS"
+        : /Linux/i.test(ua)
+        ? "Linux"
+        : "Unknown OS";
+    const browser = /Edg\//.test(ua)
+        ? "Edge"
+        : /Chrome\//.test(ua)
+        ? "Chrome"
+        : /Firefox\//.test(ua)
+        ? "Firefox"
+        : /Safari\//.test(ua)
+        ? "Safari"
+        : "Browser";
+    return `${browser} on ${platform}`;
+}
+
+// Set when an admin registers this browser as an attendance kiosk
+const KIOSK_TOKEN_KEY = "worklogix.kioskToken";
+
+export function getKioskToken(): string | null {
+    return localStorage.getItem(KIOSK_TOKEN_KEY);
+}
+
+export function setKioskToken(token: string) {
+    localStorage.setItem(KIOSK_TOKEN_KEY, token);
+}
+
+export function clearKioskToken() {
+    localStorage.removeItem(KIOSK_TOKEN_KEY);
+}
+
+// Clears the signed-in user's cached data but keeps the device id, which has to
+// survive logouts for the binding to mean anything, and the kiosk token, since the
+// admin who sets up a kiosk signs out before handing it over
+export function clearUserStorage() {
+    const kept = [DEVICE_ID_KEY, KIOSK_TOKEN_KEY].map(
+        (key) => [key, localStorage.getItem(key)] as const
+    );
+    localStorage.clear();
+    for (const [key, value] of kept) {
+        if (value) {
+            localStorage.setItem(key, value);
+        }
+    }
+}
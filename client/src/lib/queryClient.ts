@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { clearUserStorage } from "@/lib/device";
 
 // API base URL - uses environment variable for external server, otherwise relative path
 
@@ -15,16 +16,25 @@ async function throwIfResNotOk(res: Response) {
         const text = (await res.text()) || res.statusText;
 
         if (res.status === 401) {
+            let errorCode: string | undefined;
             try {
-                const errorData = JSON.parse(text);
-                if (errorData.code === "USER_INACTIVE") {
-                    localStorage.clear();
-                    window.location.href = "/worklogix/";
-                    throw new Error(
-                        "Your account has been disabled. You have been logged out."
-                    );
-                }
+                errorCode = JSON.parse(text).code;
             } catch (parseError) {}
+
+            if (errorCode === "USER_INACTIVE") {
+                clearUserStorage();
+                window.location.href = "/worklogix/";
+                throw new Error(
+                    "Your account has been disabled. You have been logged out."
+                );
+            }
+
+            // The server no longer recognises our session (expired, logged out elsewhere or revoked)
+            if (localStorage.getItem("user")) {
+                localStorage.removeItem("user");
+                window.location.href = "/worklogix/";
+                throw new Error("Your session has expired. Please log in again.");
+            }
         }
 
         throw new Error(`${res.status}: ${text}`);
@@ -36,16 +46,10 @@ export async function apiRequest(
     method: string,
     data?: unknown | undefined
 ): Promise<Response> {
-    const user = localStorage.getItem("user");
-    const userId = user ? JSON.parse(user).id : null;
-
     const headers: Record<string, string> = {};
     if (data) {
         headers["Content-Type"] = "application/json";
     }
-    if (userId) {
-        headers["x-user-id"] = userId.toString();
-    }
 
     const res = await fetch(getApiUrl(url), {
         method,
@@ -64,18 +68,9 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
     ({ on401: unauthorizedBehavior }) =>
     async ({ queryKey }) => {
-        const user = localStorage.getItem("user");
-        const userId = user ? JSON.parse(user).id : null;
-
-        const headers: Record<string, string> = {};
-        if (userId) {
-            headers["x-user-id"] = userId.toString();
-        }
-
         const url = getApiUrl(queryKey.join("/") as string);
         const res = await fetch(url, {
             credentials: "include",
-            headers,
         });
 
         if (unauthorizedBehavior === "returnNull" && res.status === 401) {
@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, Delete, Loader2, MonitorSmartphone, QrCode, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { getApiUrl, queryClient } from "@/lib/queryClient";
+import { clearKioskToken, getKioskToken } from "@/lib/device";
+
+interface KioskSession {
+  id: number;
+  name: string;
+  site: string | null;
+  companyName: string | null;
+}
+
+type KioskPunchAction = "check_in" | "check_out";
+
+interface KioskPunchResult {
+  action: KioskPunchAction;
+  userName: string;
+  time: string;
+}
+
+// Kiosk requests authenticate with the kiosk token rather than a user session
+async function kioskRequest<T>(path: string, token: string, body?: unknown): Promise<T> {
+  const res = await fetch(getApiUrl(path), {
+    method: body ? "POST" : "GET",
+    headers: {
+      Authorization: `Kiosk ${token}`,
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    if (res.status === 401 && data.code === "KIOSK_UNREGISTERED") {
+      clearKioskToken();
+    }
+    throw new Error(data.message || res.statusText);
+  }
+  return data;
+}
+
+const PIN_KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+// How long the result of a punch stays on screen before the pad resets
+const RESULT_SECONDS = 5;
+// How often the kiosk asks whether its code was scanned and needs replacing
+const CODE_CHECK_SECONDS = 2;
+
+interface KioskCode {
+  code: string;
+  expiresAt: string;
+}
+
+export default function Kiosk() {
+  const token = getKioskToken();
+  const [now, setNow] = useState(new Date());
+  const [uniqueUserId, setUniqueUserId] = useState("");
+  const [pin, setPin] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<KioskPunchResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!result && !error) return;
+    const timer = setTimeout(() => {
+      setResult(null);
+      setError(null);
+    }, RESULT_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [result, error]);
+
+  const { data: session, isLoading, isError } = useQuery<KioskSession>({
+    queryKey: ["/api/kiosk/session", token],
+    queryFn: () => kioskRequest("/api/kiosk/session", token!),
+    enabled: !!token,
+  });
+
+  // Each code punches once, so the kiosk keeps checking the one it shows and swaps it
+  // for a new one as soon as it is scanned or expires
+  const { data: code } = useQuery<KioskCode>({
+    queryKey: ["/api/kiosk/code", token],
+    queryFn: () => {
+      const shown = queryClient.getQueryData<KioskCode>(["/api/kiosk/code", token]);
+      return kioskRequest(
+        `/api/kiosk/code${shown ? `?current=${encodeURIComponent(shown.code)}` : ""}`,
+        token!
+      );
+    },
+    enabled: !!session,
+    staleTime: 0,
+    refetchInterval: (query) =>
+      query.state.data
+        ? Math.max(
+            1000,
+            Math.min(CODE_CHECK_SECONDS * 1000, new Date(query.state.data.expiresAt).getTime() - Date.now())
+          )
+        : 5000,
+  });
+
+  const submit = async (action: KioskPunchAction) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      setResult(await kioskRequest<KioskPunchResult>("/api/kiosk/punch", token!, { uniqueUserId, pin, action }));
+      setUniqueUserId("");
+    } catch (e: any) {
+      setError(e.message || "Unable to mark attendance");
+    } finally {
+      setPin("");
+      setSubmitting(false);
+    }
+  };
+
+  if (!token || isError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-6">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <MonitorSmartphone className="w-12 h-12 mx-auto text-muted-foreground" />
+            <CardTitle>Kiosk Not Set Up</CardTitle>
+            <CardDescription>
+              Sign in on this device as a company admin and register it under Attendance Policy &gt; Kiosks.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const scanUrl = code
+    ? `${window.location.origin}${import.meta.env.BASE_URL}kiosk/scan?code=${encodeURIComponent(code.code)}`
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background p-6 flex flex-col gap-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">{session.companyName}</h1>
+          <p className="text-muted-foreground">
+            {session.name}
+            {session.site && ` - ${session.site}`}
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-4xl font-semibold tabular-nums" data-testid="text-kiosk-clock">
+            {format(now, "HH:mm:ss")}
+          </div>
+          <div className="text-muted-foreground">{format(now, "EEEE, MMM dd")}</div>
+        </div>
+      </div>
+
+      {(result || error) && (
+        <Card className={result ? "border-green-500" : "border-destructive"} data-testid="kiosk-result">
+          <CardContent className="p-6 flex items-center gap-4">
+            {result ? (
+              <CheckCircle2 className="w-10 h-10 text-green-600" />
+            ) : (
+              <XCircle className="w-10 h-10 text-destructive" />
+            )}
+            <div className="text-xl">
+              {result
+                ? `${result.userName} checked ${result.action === "check_in" ? "in" : "out"} at ${format(
+                    new Date(result.time),
+                    "HH:mm"
+                  )}`
+                : error}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 flex-1">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <QrCode className="w-5 h-5" />
+              Scan with Your Phone
+            </CardTitle>
+            <CardDescription>Open your camera while signed in to WorkLogix on your phone</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center gap-4">
+            {scanUrl ? (
+              <div className="bg-white p-4 rounded-md">
+                <QRCodeSVG value={scanUrl} size={280} data-testid="kiosk-qr" />
+              </div>
+            ) : (
+              <Loader2 className="h-12 w-12 animate-spin text-primary" />
+            )}
+            {code && (
+              <p className="text-sm text-muted-foreground">
+                Code refreshes in {Math.max(0, Math.ceil((new Date(code.expiresAt).getTime() - now.getTime()) / 1000))}s
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Enter User ID and PIN</CardTitle>
+            <CardDescription>Then choose whether you are checking in or out</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-user-id">User ID</Label>
+              <Input
+                id="kiosk-user-id"
+                autoComplete="off"
+                className="text-lg h-12"
+                value={uniqueUserId}
+                onChange={(e) => setUniqueUserId(e.target.value)}
+                data-testid="input-kiosk-user-id"
+              />
+            </div>
+            <div
+              className="h-12 border rounded-md flex items-center justify-center text-2xl tracking-[0.5em]"
+              data-testid="text-kiosk-pin"
+            >
+              {pin ? "•".repeat(pin.length) : <span className="text-base tracking-normal text-muted-foreground">PIN</span>}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {PIN_KEYS.map((key) => (
+                <Button
+                  key={key}
+                  variant="outline"
+                  className="h-16 text-2xl"
+                  disabled={pin.length >= 6}
+                  onClick={() => setPin(pin + key)}
+                  data-testid={`button-kiosk-key-${key}`}
+                >
+                  {key}
+                </Button>
+              ))}
+              <Button variant="outline" className="h-16" onClick={() => setPin("")} data-testid="button-kiosk-clear">
+                Clear
+              </Button>
+              <Button
+                variant="outline"
+                className="h-16 text-2xl"
+                disabled={pin.length >= 6}
+                onClick={() => setPin(pin + "0")}
+                data-testid="button-kiosk-key-0"
+              >
+                0
+              </Button>
+              <Button
+                variant="outline"
+                className="h-16"
+                onClick={() => setPin(pin.slice(0, -1))}
+                data-testid="button-kiosk-backspace"
+              >
+                <Delete className="w-6 h-6" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                className="h-14 text-lg"
+                disabled={submitting || !uniqueUserId.trim() || pin.length < 4}
+                onClick={() => submit("check_in")}
+                data-testid="button-kiosk-check-in"
+              >
+                {submitting ? <Loader2 className="w-5 h-5 animate-spin" /> : "Check In"}
+              </Button>
+              <Button
+                variant="secondary"
+                className="h-14 text-lg"
+                disabled={submitting || !uniqueUserId.trim() || pin.length < 4}
+                onClick={() => submit("check_out")}
+                data-testid="button-kiosk-check-out"
+              >
+                {submitting ? <Loader2 className="w-5 h-5 animate-spin" /> : "Check Out"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+
+type KioskPunchAction = "check_in" | "check_out";
+
+// Opened from the QR code on an attendance kiosk; punches the signed-in user in or out
+// there, whichever they choose. The code works once, so a failed punch needs a new scan.
+export default function KioskScan() {
+  const [, setLocation] = useLocation();
+  const { userRole } = useAuth();
+  const [status, setStatus] = useState<"choose" | "loading" | "success" | "error">("choose");
+  const [message, setMessage] = useState("");
+  const code = new URLSearchParams(window.location.search).get("code");
+
+  useEffect(() => {
+    if (!code) {
+      setStatus("error");
+      setMessage("The QR code is missing. Scan the code on the kiosk again.");
+    }
+  }, [code]);
+
+  const punch = (action: KioskPunchAction) => {
+    setStatus("loading");
+    apiRequest(`${API_BASE_URL}/api/attendance/kiosk-scan`, "POST", { code, action })
+      .then((res) => res.json())
+      .then((result: { action: KioskPunchAction; kioskName: string }) => {
+        queryClient.invalidateQueries({ queryKey: ["/api/attendance/today"] });
+        setStatus("success");
+        setMessage(
+          `Checked ${result.action === "check_in" ? "in" : "out"} at ${result.kioskName}, ${format(new Date(), "HH:mm")}`
+        );
+      })
+      .catch((error: any) => {
+        setStatus("error");
+        setMessage(error.message || "Unable to mark attendance");
+      });
+  };
+
+  const attendancePath = userRole === "team_leader" ? "/team-leader/attendance" : "/user/attendance";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <div className="mx-auto mb-2">
+            {status === "loading" && <Loader2 className="h-12 w-12 animate-spin text-primary" />}
+            {status === "success" && <CheckCircle2 className="h-12 w-12 text-green-600" />}
+            {status === "error" && <XCircle className="h-12 w-12 text-destructive" />}
+          </div>
+          <CardTitle>
+            {status === "choose" && "Mark Attendance"}
+            {status === "loading" && "Marking Attendance..."}
+            {status === "success" && "Attendance Marked"}
+            {status === "error" && "Attendance Not Marked"}
+          </CardTitle>
+          <CardDescription data-testid="text-kiosk-scan-message">
+            {status === "choose" ? "Are you checking in or out?" : message}
+          </CardDescription>
+        </CardHeader>
+        {status === "choose" && (
+          <CardContent className="grid grid-cols-2 gap-3">
+            <Button onClick={() => punch("check_in")} data-testid="button-kiosk-scan-check-in">
+              Check In
+            </Button>
+            <Button variant="secondary" onClick={() => punch("check_out")} data-testid="button-kiosk-scan-check-out">
+              Check Out
+            </Button>
+          </CardContent>
+        )}
+        {(status === "success" || status === "error") && (
+          <CardContent>
+            <Button className="w-full" onClick={() => setLocation(attendancePath)} data-testid="button-go-attendance">
+              Go to Attendance
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
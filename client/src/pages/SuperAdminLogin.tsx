@@ -49,6 +49,7 @@ export default function SuperAdminLogin() {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify(superAdminData),
+                credentials: "include",
             });
 
             if (!response.ok) {
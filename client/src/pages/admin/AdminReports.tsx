@@ -34,9 +34,6 @@ export default function AdminReports() {
     >({
         queryKey: ["/api/reports", dateFilter.startDate, dateFilter.endDate],
         queryFn: async () => {
-            const user = localStorage.getItem("user");
-            const userId = user ? JSON.parse(user).id : null;
-
             let url = `${API_BASE_URL}/api/reports`;
             const params = new URLSearchParams();
             if (dateFilter.startDate)
@@ -45,12 +42,7 @@ export default function AdminReports() {
                 params.append("endDate", dateFilter.endDate);
             if (params.toString()) url += `?${params.toString()}`;
 
-            const headers: Record<string, string> = {};
-            if (userId) {
-                headers["x-user-id"] = userId.toString();
-            }
-
-            const res = await fetch(url, { headers, credentials: "include" });
+            const res = await fetch(url, { credentials: "include" });
             if (!res.ok) throw new Error("Failed to fetch reports");
             return res.json();
         },
@@ -36,6 +36,8 @@ import {
     Trash2,
     Undo2,
     Eye,
+    Repeat,
+    Columns3,
 } from "lucide-react";
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -44,7 +46,11 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { format } from "date-fns";
 import TaskDetailsModal from "@/components/TaskDetailsModal";
-import type { Task, User } from "@shared/schema";
+import RecurringTasksCard from "@/components/RecurringTasksCard";
+import TaskBoard from "@/components/TaskBoard";
+import TaskWorkflowCard from "@/components/TaskWorkflowCard";
+import { useTaskDetails } from "@/hooks/useTaskDetails";
+import type { Task, TaskWithBlockers, User } from "@shared/schema";
 
 export default function AdminTasks() {
     const { toast } = useToast();
@@ -58,27 +64,15 @@ export default function AdminTasks() {
         priority: "medium",
         deadline: "",
     });
-    const [taskDetailsOpen, setTaskDetailsOpen] = useState(false);
-    const [selectedTaskForDetails, setSelectedTaskForDetails] =
-        useState<Task | null>(null);
-    const [taskDetailsData, setTaskDetailsData] = useState<any>(null);
+    const {
+        isOpen: taskDetailsOpen,
+        details: taskDetailsData,
+        openTask,
+        closeTask,
+    } = useTaskDetails();
 
-    const handleViewTaskDetails = async (task: Task) => {
-        setSelectedTaskForDetails(task);
-        try {
-            const response = await apiRequest(
-                `${API_BASE_URL}/api/tasks/${task.id}/details`,
-                "GET"
-            );
-            setTaskDetailsData(response);
-            setTaskDetailsOpen(true);
-        } catch (error) {
-            toast({
-                title: "Error",
-                description: "Failed to load task details",
-                variant: "destructive",
-            });
-        }
+    const handleViewTaskDetails = (task: Task) => {
+        openTask(task.id);
     };
 
     const safeConvertToISO = (
@@ -98,7 +92,7 @@ export default function AdminTasks() {
         queryKey: ["/api/users"],
     });
 
-    const { data: allTasks = [], isLoading: tasksLoading } = useQuery<Task[]>({
+    const { data: allTasks = [], isLoading: tasksLoading } = useQuery<TaskWithBlockers[]>({
         queryKey: ["/api/tasks"],
     });
 
@@ -489,19 +483,22 @@ export default function AdminTasks() {
             </Dialog>
 
             {/* Task Details Modal */}
-            {selectedTaskForDetails && (
-                <TaskDetailsModal
-                    open={taskDetailsOpen}
-                    onOpenChange={setTaskDetailsOpen}
-                    task={selectedTaskForDetails}
-                    timeLogs={taskDetailsData?.timeLogs}
-                    returnCount={taskDetailsData?.returnCount || 0}
-                    reworkHistory={taskDetailsData?.reworkHistory}
-                />
-            )}
+            <TaskDetailsModal
+                open={taskDetailsOpen}
+                onOpenChange={(open) => !open && closeTask()}
+                task={taskDetailsData?.task ?? null}
+                timeLogs={taskDetailsData?.timeLogs ?? null}
+                returnCount={taskDetailsData?.returnCount || 0}
+                reworkHistory={taskDetailsData?.reworkHistory}
+                progress={taskDetailsData?.progress}
+                checklist={taskDetailsData?.checklist}
+                subtasks={taskDetailsData?.subtasks}
+                parentTask={taskDetailsData?.parentTask}
+                dependencies={taskDetailsData?.dependencies}
+            />
 
             <Tabs defaultValue="all" className="w-full">
-                <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsList className="grid w-full grid-cols-4 mb-4">
                     <TabsTrigger
                         value="all"
                         className="flex items-center gap-2">
@@ -514,6 +511,18 @@ export default function AdminTasks() {
                         <UserCheck className="h-4 w-4" />
                         My Created Tasks ({myTasks.length})
                     </TabsTrigger>
+                    <TabsTrigger
+                        value="board"
+                        className="flex items-center gap-2">
+                        <Columns3 className="h-4 w-4" />
+                        Board
+                    </TabsTrigger>
+                    <TabsTrigger
+                        value="recurring"
+                        className="flex items-center gap-2">
+                        <Repeat className="h-4 w-4" />
+                        Recurring
+                    </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="all">
@@ -900,6 +909,21 @@ export default function AdminTasks() {
                         </CardContent>
                     </Card>
                 </TabsContent>
+
+                <TabsContent value="board" className="space-y-4">
+                    <TaskBoard
+                        tasks={allTasks}
+                        assigneeName={(userId) =>
+                            users.find((u) => u.id === userId)?.displayName
+                        }
+                        onOpenTask={openTask}
+                    />
+                    <TaskWorkflowCard />
+                </TabsContent>
+
+                <TabsContent value="recurring">
+                    <RecurringTasksCard />
+                </TabsContent>
             </Tabs>
         </div>
     );
@@ -6,10 +6,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Calendar, Users, Clock, UserCheck, UserX, MoreVertical, History, Shield, Award, Flame, Settings } from "lucide-react";
+import { Calendar, Users, Clock, UserCheck, UserX, MoreVertical, History, Shield, Award, Flame, Settings, MapPin, ListOrdered } from "lucide-react";
 import { format } from "date-fns";
 import type { DailyAttendanceRecord, AttendanceRecord, AttendanceBadge, AttendancePolicy, AttendanceStreak } from "@shared/schema";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import AttendanceTimeline from "@/components/AttendanceTimeline";
 
 export default function AttendanceMonitor() {
   const [selectedDate, setSelectedDate] = useState(
@@ -17,6 +18,7 @@ export default function AttendanceMonitor() {
   );
   const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<{id: number; name: string; email: string} | null>(null);
+  const [timelineRecord, setTimelineRecord] = useState<DailyAttendanceRecord | null>(null);
 
   const { data: attendanceRecords, isLoading } = useQuery<DailyAttendanceRecord[]>({
     queryKey: [`/api/admin/attendance/daily?date=${selectedDate}`],
@@ -69,7 +71,12 @@ export default function AttendanceMonitor() {
       present: { variant: "default", label: "Present" },
       absent: { variant: "destructive", label: "Absent" },
       late: { variant: "secondary", label: "Late" },
+      half_day: { variant: "outline", label: "Half Day" },
+      short_day: { variant: "outline", label: "Short Day" },
       leave: { variant: "outline", label: "Leave" },
+      on_leave: { variant: "outline", label: "On Leave" },
+      holiday: { variant: "outline", label: "Holiday" },
+      weekly_off: { variant: "outline", label: "Weekly Off" },
     };
     const config = variants[status] || variants.absent;
     return <Badge variant={config.variant}>{config.label}</Badge>;
@@ -88,6 +95,13 @@ export default function AttendanceMonitor() {
     return `${hours}h ${mins}m`;
   };
 
+  // Matched geofence and distance recorded at punch time
+  const formatPunchLocation = (site: string | null, distance: number | null) => {
+    if (site) return `${site} (${distance ?? 0} m)`;
+    if (distance !== null) return `Outside (${distance} m)`;
+    return "-";
+  };
+
   return (
     <div className="flex flex-col gap-6 p-6">
       <div className="flex items-center justify-between">
@@ -294,6 +308,7 @@ export default function AttendanceMonitor() {
                     <th className="p-3 text-left text-sm font-medium">Email</th>
                     <th className="p-3 text-left text-sm font-medium">Check-In</th>
                     <th className="p-3 text-left text-sm font-medium">Check-Out</th>
+                    <th className="p-3 text-left text-sm font-medium">Location</th>
                     <th className="p-3 text-left text-sm font-medium">Duration</th>
                     <th className="p-3 text-left text-sm font-medium">Status</th>
                     <th className="p-3 text-left text-sm font-medium">Actions</th>
@@ -314,8 +329,26 @@ export default function AttendanceMonitor() {
                       <td className="p-3 text-sm" data-testid={`checkout-${record.id}`}>
                         {formatTime(record.checkOut)}
                       </td>
+                      <td className="p-3 text-sm" data-testid={`location-${record.id}`}>
+                        <div className="flex items-start gap-1">
+                          <MapPin className="w-3 h-3 mt-1 text-muted-foreground shrink-0" />
+                          <div>
+                            <div>In: {formatPunchLocation(record.checkInSite, record.checkInDistance)}</div>
+                            {record.checkOut && (
+                              <div className="text-muted-foreground">
+                                Out: {formatPunchLocation(record.checkOutSite, record.checkOutDistance)}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      </td>
                       <td className="p-3 text-sm" data-testid={`duration-${record.id}`}>
                         {formatDuration(record.workDuration)}
+                        {record.breakMinutes > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {formatDuration(record.breakMinutes)} break
+                          </div>
+                        )}
                       </td>
                       <td className="p-3 text-sm">
                         {getStatusBadge(record.status)}
@@ -342,6 +375,13 @@ export default function AttendanceMonitor() {
                               <History className="w-4 h-4 mr-2" />
                               View Details
                             </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => setTimelineRecord(record)}
+                              data-testid={`menu-view-timeline-${record.id}`}
+                            >
+                              <ListOrdered className="w-4 h-4 mr-2" />
+                              Session Timeline
+                            </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </td>
@@ -368,7 +408,7 @@ export default function AttendanceMonitor() {
           </DialogHeader>
           {userHistory ? (
             <div className="space-y-4">
-              <div className="grid grid-cols-4 gap-4">
+              <div className="grid grid-cols-5 gap-4">
                 <Card>
                   <CardContent className="p-4">
                     <div className="text-sm text-muted-foreground">Present</div>
@@ -385,6 +425,14 @@ export default function AttendanceMonitor() {
                     </div>
                   </CardContent>
                 </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="text-sm text-muted-foreground">Half / Short Days</div>
+                    <div className="text-2xl font-bold text-purple-600">
+                      {(userHistory.summary.halfDays || 0) + (userHistory.summary.shortDays || 0)}
+                    </div>
+                  </CardContent>
+                </Card>
                 <Card>
                   <CardContent className="p-4">
                     <div className="text-sm text-muted-foreground">Absent</div>
@@ -409,6 +457,7 @@ export default function AttendanceMonitor() {
                       <th className="p-3 text-left text-sm font-medium">Date</th>
                       <th className="p-3 text-left text-sm font-medium">Check-In</th>
                       <th className="p-3 text-left text-sm font-medium">Check-Out</th>
+                      <th className="p-3 text-left text-sm font-medium">Location</th>
                       <th className="p-3 text-left text-sm font-medium">Duration</th>
                       <th className="p-3 text-left text-sm font-medium">Status</th>
                     </tr>
@@ -420,13 +469,21 @@ export default function AttendanceMonitor() {
                           <td className="p-3 text-sm">{record.date}</td>
                           <td className="p-3 text-sm">{formatTime(record.checkIn)}</td>
                           <td className="p-3 text-sm">{formatTime(record.checkOut)}</td>
-                          <td className="p-3 text-sm">{formatDuration(record.workDuration)}</td>
+                          <td className="p-3 text-sm">{formatPunchLocation(record.checkInSite, record.checkInDistance)}</td>
+                          <td className="p-3 text-sm">
+                            {formatDuration(record.workDuration)}
+                            {record.breakMinutes > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                {formatDuration(record.breakMinutes)} break
+                              </div>
+                            )}
+                          </td>
                           <td className="p-3 text-sm">{getStatusBadge(record.status)}</td>
                         </tr>
                       ))
                     ) : (
                       <tr>
-                        <td colSpan={5} className="p-6 text-center text-sm text-muted-foreground">
+                        <td colSpan={6} className="p-6 text-center text-sm text-muted-foreground">
                           No attendance records found for this month
                         </td>
                       </tr>
@@ -442,6 +499,16 @@ export default function AttendanceMonitor() {
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!timelineRecord} onOpenChange={(open) => !open && setTimelineRecord(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Session Timeline - {timelineRecord?.userName || `User ${timelineRecord?.userId}`}</DialogTitle>
+            <DialogDescription>{timelineRecord?.date}</DialogDescription>
+          </DialogHeader>
+          {timelineRecord && <AttendanceTimeline attendanceId={timelineRecord.id} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
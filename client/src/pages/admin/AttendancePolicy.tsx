@@ -12,9 +12,47 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, Clock, MapPin, Smartphone, Save } from "lucide-react";
+import {
+    Settings,
+    Clock,
+    MapPin,
+    Smartphone,
+    Save,
+    Plus,
+    Trash2,
+    LocateFixed,
+    CalendarOff,
+    Timer,
+    FileSpreadsheet,
+    AlarmClock,
+} from "lucide-react";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
-import type { AttendancePolicy } from "@shared/schema";
+import LatePenaltyPreview from "@/components/LatePenaltyPreview";
+import KioskManagementCard from "@/components/KioskManagementCard";
+import type {
+    AttendancePolicy,
+    BreakType,
+    BreakTypeLimits,
+    Geofence,
+    OvertimeApproval,
+    PayrollColumnMapping,
+    PayrollField,
+} from "@shared/schema";
+
+const breakTypeLabels: Record<BreakType, string> = {
+    lunch: "Lunch",
+    personal: "Personal",
+    meeting: "Meeting",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const emptyGeofenceForm = {
+    name: "",
+    latitude: "",
+    longitude: "",
+    radiusMeters: "100",
+};
 
 export default function AttendancePolicy() {
     const { toast } = useToast();
@@ -22,26 +60,154 @@ export default function AttendancePolicy() {
         halfDayHours: 4,
         fullDayHours: 8,
         lateMarkThreshold: 3,
+        lateMarksPerDeduction: null as number | null,
+        lateMarkDeductionDays: 0.5,
+        severeLateMinutes: null as number | null,
         autoAbsentHours: 2,
         allowSelfCheckIn: true,
         requireGPS: false,
         requireDeviceBinding: false,
+        weeklyOffDays: [0],
+        correctionWindowDays: null as number | null,
+        monthlyCorrectionCap: null as number | null,
+        maxBreakMinutes: null as number | null,
+        breakTypeLimits: {} as BreakTypeLimits,
+        overtimeApproval: "post" as OvertimeApproval,
+        overtimeMinBlockMinutes: 0,
+        overtimeMultiplier: 1.5,
+        weekendOvertimeMultiplier: 2,
+        holidayOvertimeMultiplier: 2,
+        payrollColumns: {} as PayrollColumnMapping,
     });
 
+    const [geofenceForm, setGeofenceForm] = useState(emptyGeofenceForm);
+
     const { data: policy, isLoading } = useQuery<AttendancePolicy>({
         queryKey: ["/api/admin/attendance-policy"],
     });
 
+    const { data: payrollLayouts } = useQuery<{
+        presets: { id: string; columns: PayrollColumnMapping }[];
+    }>({
+        queryKey: ["/api/admin/attendance/payroll-export/layouts"],
+    });
+    // The standard layout names every field, so it doubles as the field list
+    const payrollFields = Object.entries(
+        payrollLayouts?.presets.find((p) => p.id === "standard")?.columns ?? {}
+    ) as [PayrollField, string][];
+
+    const { data: geofences = [] } = useQuery<Geofence[]>({
+        queryKey: ["/api/admin/geofences"],
+    });
+
+    const createGeofenceMutation = useMutation({
+        mutationFn: async (data: typeof geofenceForm) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/geofences`,
+                "POST",
+                {
+                    name: data.name,
+                    latitude: parseFloat(data.latitude),
+                    longitude: parseFloat(data.longitude),
+                    radiusMeters: parseInt(data.radiusMeters),
+                }
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/geofences"],
+            });
+            setGeofenceForm(emptyGeofenceForm);
+            toast({
+                title: "Location Added",
+                description: "Employees can now check in at this location.",
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Failed to Add Location",
+                description: error.message || "Please check the values.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const deleteGeofenceMutation = useMutation({
+        mutationFn: async (id: number) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/geofences/${id}`,
+                "DELETE"
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/geofences"],
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Failed to Remove Location",
+                description: error.message || "Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const fillCurrentLocation = () => {
+        if (!navigator.geolocation) {
+            toast({
+                title: "Location Unavailable",
+                description: "This browser does not support geolocation.",
+                variant: "destructive",
+            });
+            return;
+        }
+        navigator.geolocation.getCurrentPosition(
+            (position) =>
+                setGeofenceForm((prev) => ({
+                    ...prev,
+                    latitude: position.coords.latitude.toFixed(6),
+                    longitude: position.coords.longitude.toFixed(6),
+                })),
+            () =>
+                toast({
+                    title: "Location Unavailable",
+                    description: "Allow location access and try again.",
+                    variant: "destructive",
+                }),
+            { enableHighAccuracy: true, timeout: 10000 }
+        );
+    };
+
+    const handleAddGeofence = (e: React.FormEvent) => {
+        e.preventDefault();
+        createGeofenceMutation.mutate(geofenceForm);
+    };
+
     useEffect(() => {
         if (policy) {
             setFormData({
                 halfDayHours: policy.halfDayHours,
                 fullDayHours: policy.fullDayHours,
                 lateMarkThreshold: policy.lateMarkThreshold,
+                lateMarksPerDeduction: policy.lateMarksPerDeduction,
+                lateMarkDeductionDays: policy.lateMarkDeductionDays,
+                severeLateMinutes: policy.severeLateMinutes,
                 autoAbsentHours: policy.autoAbsentHours,
                 allowSelfCheckIn: policy.allowSelfCheckIn,
                 requireGPS: policy.requireGPS,
                 requireDeviceBinding: policy.requireDeviceBinding,
+                weeklyOffDays: policy.weeklyOffDays,
+                correctionWindowDays: policy.correctionWindowDays,
+                monthlyCorrectionCap: policy.monthlyCorrectionCap,
+                maxBreakMinutes: policy.maxBreakMinutes,
+                breakTypeLimits: policy.breakTypeLimits,
+                overtimeApproval: policy.overtimeApproval,
+                overtimeMinBlockMinutes: policy.overtimeMinBlockMinutes,
+                overtimeMultiplier: policy.overtimeMultiplier,
+                weekendOvertimeMultiplier: policy.weekendOvertimeMultiplier,
+                holidayOvertimeMultiplier: policy.holidayOvertimeMultiplier,
+                payrollColumns: policy.payrollColumns,
             });
         }
     }, [policy]);
@@ -74,6 +240,37 @@ export default function AttendancePolicy() {
         },
     });
 
+    const toggleWeeklyOff = (day: number) => {
+        setFormData((prev) => ({
+            ...prev,
+            weeklyOffDays: prev.weeklyOffDays.includes(day)
+                ? prev.weeklyOffDays.filter((d) => d !== day)
+                : [...prev.weeklyOffDays, day].sort((a, b) => a - b),
+        }));
+    };
+
+    const setBreakTypeLimit = (type: BreakType, value: string) => {
+        setFormData((prev) => {
+            const { [type]: _removed, ...rest } = prev.breakTypeLimits;
+            return {
+                ...prev,
+                breakTypeLimits: value
+                    ? { ...rest, [type]: parseInt(value) }
+                    : rest,
+            };
+        });
+    };
+
+    const setPayrollColumn = (field: PayrollField, header: string) => {
+        setFormData((prev) => {
+            const { [field]: _removed, ...rest } = prev.payrollColumns;
+            return {
+                ...prev,
+                payrollColumns: header ? { ...rest, [field]: header } : rest,
+            };
+        });
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         updatePolicyMutation.mutate(formData);
@@ -85,10 +282,24 @@ export default function AttendancePolicy() {
                 halfDayHours: policy.halfDayHours,
                 fullDayHours: policy.fullDayHours,
                 lateMarkThreshold: policy.lateMarkThreshold,
+                lateMarksPerDeduction: policy.lateMarksPerDeduction,
+                lateMarkDeductionDays: policy.lateMarkDeductionDays,
+                severeLateMinutes: policy.severeLateMinutes,
                 autoAbsentHours: policy.autoAbsentHours,
                 allowSelfCheckIn: policy.allowSelfCheckIn,
                 requireGPS: policy.requireGPS,
                 requireDeviceBinding: policy.requireDeviceBinding,
+                weeklyOffDays: policy.weeklyOffDays,
+                correctionWindowDays: policy.correctionWindowDays,
+                monthlyCorrectionCap: policy.monthlyCorrectionCap,
+                maxBreakMinutes: policy.maxBreakMinutes,
+                breakTypeLimits: policy.breakTypeLimits,
+                overtimeApproval: policy.overtimeApproval,
+                overtimeMinBlockMinutes: policy.overtimeMinBlockMinutes,
+                overtimeMultiplier: policy.overtimeMultiplier,
+                weekendOvertimeMultiplier: policy.weekendOvertimeMultiplier,
+                holidayOvertimeMultiplier: policy.holidayOvertimeMultiplier,
+                payrollColumns: policy.payrollColumns,
             });
         }
     };
@@ -233,6 +444,363 @@ export default function AttendancePolicy() {
                                 </p>
                             </div>
                         </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="correctionWindowDays">
+                                    Correction Window (days)
+                                </Label>
+                                <Input
+                                    id="correctionWindowDays"
+                                    type="number"
+                                    min="1"
+                                    max="366"
+                                    placeholder="No limit"
+                                    value={formData.correctionWindowDays ?? ""}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            correctionWindowDays: e.target.value
+                                                ? parseInt(e.target.value)
+                                                : null,
+                                        })
+                                    }
+                                    data-testid="input-correction-window-days"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    How many days back employees can request
+                                    attendance corrections
+                                </p>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="monthlyCorrectionCap">
+                                    Monthly Correction Limit (days)
+                                </Label>
+                                <Input
+                                    id="monthlyCorrectionCap"
+                                    type="number"
+                                    min="1"
+                                    max="31"
+                                    placeholder="No limit"
+                                    value={formData.monthlyCorrectionCap ?? ""}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            monthlyCorrectionCap: e.target.value
+                                                ? parseInt(e.target.value)
+                                                : null,
+                                        })
+                                    }
+                                    data-testid="input-monthly-correction-cap"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Days each employee can have corrected per
+                                    month
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="maxBreakMinutes">
+                                    Daily Break Limit (minutes)
+                                </Label>
+                                <Input
+                                    id="maxBreakMinutes"
+                                    type="number"
+                                    min="1"
+                                    max="720"
+                                    placeholder="No limit"
+                                    value={formData.maxBreakMinutes ?? ""}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            maxBreakMinutes: e.target.value
+                                                ? parseInt(e.target.value)
+                                                : null,
+                                        })
+                                    }
+                                    data-testid="input-max-break-minutes"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Total break time allowed per day
+                                </p>
+                            </div>
+                            {(Object.keys(breakTypeLabels) as BreakType[]).map(
+                                (type) => (
+                                    <div key={type} className="space-y-2">
+                                        <Label htmlFor={`break-limit-${type}`}>
+                                            {breakTypeLabels[type]} Break Limit
+                                            (minutes)
+                                        </Label>
+                                        <Input
+                                            id={`break-limit-${type}`}
+                                            type="number"
+                                            min="1"
+                                            max="720"
+                                            placeholder="No limit"
+                                            value={
+                                                formData.breakTypeLimits[type] ??
+                                                ""
+                                            }
+                                            onChange={(e) =>
+                                                setBreakTypeLimit(
+                                                    type,
+                                                    e.target.value
+                                                )
+                                            }
+                                            data-testid={`input-break-limit-${type}`}
+                                        />
+                                    </div>
+                                )
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <AlarmClock className="w-5 h-5" />
+                            Late Penalties
+                        </CardTitle>
+                        <CardDescription>
+                            Deductions for late arrivals, worked out per month
+                            and added to loss of pay. Leave a rule blank to turn
+                            it off.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="lateMarksPerDeduction">
+                                    Late Marks per Deduction
+                                </Label>
+                                <Input
+                                    id="lateMarksPerDeduction"
+                                    type="number"
+                                    min="1"
+                                    max="31"
+                                    placeholder="No deduction"
+                                    value={formData.lateMarksPerDeduction ?? ""}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            lateMarksPerDeduction: e.target
+                                                .value
+                                                ? parseInt(e.target.value)
+                                                : null,
+                                        })
+                                    }
+                                    data-testid="input-late-marks-per-deduction"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Every this many late marks in a month lead
+                                    to a deduction
+                                </p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="lateMarkDeductionDays">
+                                    Deduction (days)
+                                </Label>
+                                <Input
+                                    id="lateMarkDeductionDays"
+                                    type="number"
+                                    min="0.25"
+                                    max="5"
+                                    step="0.25"
+                                    value={formData.lateMarkDeductionDays}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            lateMarkDeductionDays:
+                                                parseFloat(e.target.value) ||
+                                                0.5,
+                                        })
+                                    }
+                                    data-testid="input-late-mark-deduction-days"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Days deducted each time the late marks add
+                                    up
+                                </p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="severeLateMinutes">
+                                    Half Day When Late By (minutes)
+                                </Label>
+                                <Input
+                                    id="severeLateMinutes"
+                                    type="number"
+                                    min="1"
+                                    max="720"
+                                    placeholder="Never"
+                                    value={formData.severeLateMinutes ?? ""}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            severeLateMinutes: e.target.value
+                                                ? parseInt(e.target.value)
+                                                : null,
+                                        })
+                                    }
+                                    data-testid="input-severe-late-minutes"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Arriving later than this after the shift
+                                    start counts as a half day
+                                </p>
+                            </div>
+                        </div>
+
+                        <LatePenaltyPreview
+                            lateMarksPerDeduction={
+                                formData.lateMarksPerDeduction
+                            }
+                            lateMarkDeductionDays={
+                                formData.lateMarkDeductionDays
+                            }
+                            severeLateMinutes={formData.severeLateMinutes}
+                        />
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Timer className="w-5 h-5" />
+                            Overtime
+                        </CardTitle>
+                        <CardDescription>
+                            Time worked beyond the shift (or the full day
+                            hours) and how it is approved
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                                <Label htmlFor="overtimePreApproval">
+                                    Require Pre-Approval
+                                </Label>
+                                <p className="text-sm text-muted-foreground">
+                                    Only overtime a team leader approved in
+                                    advance counts. When off, overtime is
+                                    reviewed after it is worked.
+                                </p>
+                            </div>
+                            <Switch
+                                id="overtimePreApproval"
+                                checked={formData.overtimeApproval === "pre"}
+                                onCheckedChange={(checked) =>
+                                    setFormData({
+                                        ...formData,
+                                        overtimeApproval: checked
+                                            ? "pre"
+                                            : "post",
+                                    })
+                                }
+                                data-testid="switch-overtime-pre-approval"
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="overtimeMinBlockMinutes">
+                                    Minimum Block (minutes)
+                                </Label>
+                                <Input
+                                    id="overtimeMinBlockMinutes"
+                                    type="number"
+                                    min="0"
+                                    max="240"
+                                    value={formData.overtimeMinBlockMinutes}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            overtimeMinBlockMinutes:
+                                                parseInt(e.target.value) || 0,
+                                        })
+                                    }
+                                    data-testid="input-overtime-min-block"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Overtime counts in whole blocks; 0 counts
+                                    every minute
+                                </p>
+                            </div>
+                            {(
+                                [
+                                    ["overtimeMultiplier", "Working Day"],
+                                    ["weekendOvertimeMultiplier", "Weekend"],
+                                    ["holidayOvertimeMultiplier", "Holiday"],
+                                ] as const
+                            ).map(([field, label]) => (
+                                <div key={field} className="space-y-2">
+                                    <Label htmlFor={field}>
+                                        {label} Multiplier
+                                    </Label>
+                                    <Input
+                                        id={field}
+                                        type="number"
+                                        min="1"
+                                        max="5"
+                                        step="0.25"
+                                        value={formData[field]}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                [field]:
+                                                    parseFloat(
+                                                        e.target.value
+                                                    ) || 1,
+                                            })
+                                        }
+                                        data-testid={`input-${field}`}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <FileSpreadsheet className="w-5 h-5" />
+                            Payroll Export Columns
+                        </CardTitle>
+                        <CardDescription>
+                            Column headers for the company layout of the
+                            monthly payroll export. Leave a field blank to
+                            leave it out.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            {payrollFields.map(([field, label]) => (
+                                <div key={field} className="space-y-2">
+                                    <Label htmlFor={`payroll-${field}`}>
+                                        {label}
+                                    </Label>
+                                    <Input
+                                        id={`payroll-${field}`}
+                                        maxLength={60}
+                                        placeholder="Not exported"
+                                        value={
+                                            formData.payrollColumns[field] ?? ""
+                                        }
+                                        onChange={(e) =>
+                                            setPayrollColumn(
+                                                field,
+                                                e.target.value
+                                            )
+                                        }
+                                        data-testid={`input-payroll-${field}`}
+                                    />
+                                </div>
+                            ))}
+                        </div>
                     </CardContent>
                 </Card>
 
@@ -327,6 +895,38 @@ export default function AttendancePolicy() {
                     </CardContent>
                 </Card>
 
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarOff className="w-5 h-5" />
+                            Weekly Offs
+                        </CardTitle>
+                        <CardDescription>
+                            Employees are not marked absent on these days, and
+                            attendance streaks carry over them
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="flex gap-2 flex-wrap">
+                            {WEEKDAYS.map((label, day) => (
+                                <Button
+                                    key={label}
+                                    type="button"
+                                    size="sm"
+                                    variant={
+                                        formData.weeklyOffDays.includes(day)
+                                            ? "default"
+                                            : "outline"
+                                    }
+                                    onClick={() => toggleWeeklyOff(day)}
+                                    data-testid={`button-weekly-off-${day}`}>
+                                    {label}
+                                </Button>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+
                 <div className="flex gap-3 justify-end flex-wrap">
                     <Button
                         type="button"
@@ -347,6 +947,158 @@ export default function AttendancePolicy() {
                 </div>
             </form>
 
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <MapPin className="w-5 h-5" />
+                        Office Locations
+                    </CardTitle>
+                    <CardDescription>
+                        When GPS is required, employees can only check in or
+                        out within the radius of one of these locations
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    {geofences.length > 0 ? (
+                        <div className="border rounded-md divide-y">
+                            {geofences.map((geofence) => (
+                                <div
+                                    key={geofence.id}
+                                    className="flex items-center justify-between p-3"
+                                    data-testid={`geofence-${geofence.id}`}>
+                                    <div>
+                                        <p className="font-medium">
+                                            {geofence.name}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {geofence.latitude.toFixed(6)},{" "}
+                                            {geofence.longitude.toFixed(6)} ·{" "}
+                                            {geofence.radiusMeters} m radius
+                                        </p>
+                                    </div>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() =>
+                                            deleteGeofenceMutation.mutate(
+                                                geofence.id
+                                            )
+                                        }
+                                        disabled={
+                                            deleteGeofenceMutation.isPending
+                                        }
+                                        data-testid={`button-delete-geofence-${geofence.id}`}>
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            No office locations yet. Until one is added, a
+                            valid GPS location is all that is required.
+                        </p>
+                    )}
+
+                    <form
+                        onSubmit={handleAddGeofence}
+                        className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                        <div className="space-y-2">
+                            <Label htmlFor="geofenceName">Name</Label>
+                            <Input
+                                id="geofenceName"
+                                value={geofenceForm.name}
+                                onChange={(e) =>
+                                    setGeofenceForm({
+                                        ...geofenceForm,
+                                        name: e.target.value,
+                                    })
+                                }
+                                placeholder="Head Office"
+                                required
+                                data-testid="input-geofence-name"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="geofenceLatitude">Latitude</Label>
+                            <Input
+                                id="geofenceLatitude"
+                                type="number"
+                                step="any"
+                                value={geofenceForm.latitude}
+                                onChange={(e) =>
+                                    setGeofenceForm({
+                                        ...geofenceForm,
+                                        latitude: e.target.value,
+                                    })
+                                }
+                                required
+                                data-testid="input-geofence-latitude"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="geofenceLongitude">Longitude</Label>
+                            <Input
+                                id="geofenceLongitude"
+                                type="number"
+                                step="any"
+                                value={geofenceForm.longitude}
+                                onChange={(e) =>
+                                    setGeofenceForm({
+                                        ...geofenceForm,
+                                        longitude: e.target.value,
+                                    })
+                                }
+                                required
+                                data-testid="input-geofence-longitude"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="geofenceRadius">
+                                Radius (meters)
+                            </Label>
+                            <Input
+                                id="geofenceRadius"
+                                type="number"
+                                min="10"
+                                max="10000"
+                                value={geofenceForm.radiusMeters}
+                                onChange={(e) =>
+                                    setGeofenceForm({
+                                        ...geofenceForm,
+                                        radiusMeters: e.target.value,
+                                    })
+                                }
+                                required
+                                data-testid="input-geofence-radius"
+                            />
+                        </div>
+                        <div className="md:col-span-4 flex gap-3 justify-end flex-wrap">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={fillCurrentLocation}
+                                data-testid="button-use-current-location">
+                                <LocateFixed className="w-4 h-4 mr-2" />
+                                Use Current Location
+                            </Button>
+                            <Button
+                                type="submit"
+                                disabled={createGeofenceMutation.isPending}
+                                data-testid="button-add-geofence">
+                                <Plus className="w-4 h-4 mr-2" />
+                                {createGeofenceMutation.isPending
+                                    ? "Adding..."
+                                    : "Add Location"}
+                            </Button>
+                        </div>
+                    </form>
+                </CardContent>
+            </Card>
+
+            <KioskManagementCard />
+
             <Card className="bg-muted/50">
                 <CardHeader>
                     <CardTitle className="text-base">
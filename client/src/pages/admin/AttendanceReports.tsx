@@ -43,6 +43,7 @@ import {
     ResponsiveContainer,
 } from "recharts";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import PayrollExportCard from "@/components/PayrollExportCard";
 
 export default function AttendanceReports() {
     const [dateRange, setDateRange] = useState("7");
@@ -294,6 +295,8 @@ export default function AttendanceReports() {
                 </CardContent>
             </Card>
 
+            <PayrollExportCard />
+
             {isLoading ? (
                 <div className="flex items-center justify-center h-64">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
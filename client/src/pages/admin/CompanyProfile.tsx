@@ -74,6 +74,7 @@ interface CompanyProfile {
     city: string | null;
     state: string | null;
     country: string | null;
+    timezone: string;
     employees: number | null;
     annualTurnover: string | null;
     yearEstablished: number | null;
@@ -97,6 +98,7 @@ const companyProfileSchema = z.object({
     city: z.string().min(2, "City is required"),
     state: z.string().min(2, "State is required"),
     country: z.string().min(2, "Country is required"),
+    timezone: z.string().min(1, "Timezone is required"),
     employees: z.string().min(1, "Number of employees is required"),
     annualTurnover: z.string().min(1, "Annual turnover is required"),
     yearEstablished: z.string().min(4, "Year established is required"),
@@ -126,6 +128,9 @@ const designations = [
     "Other",
 ];
 
+// Attendance dates, late marks and the nightly absent run all follow this timezone
+const timezones = Intl.supportedValuesOf("timeZone");
+
 const turnoverRanges = [
     "₹1–10 Cr",
     "₹10–50 Cr",
@@ -160,6 +165,7 @@ export default function CompanyProfile() {
             city: "",
             state: "",
             country: "India",
+            timezone: "Asia/Kolkata",
             employees: "",
             annualTurnover: "",
             yearEstablished: "",
@@ -183,6 +189,7 @@ export default function CompanyProfile() {
                 city: company.city || "",
                 state: company.state || "",
                 country: company.country || "India",
+                timezone: company.timezone || "Asia/Kolkata",
                 employees: company.employees?.toString() || "",
                 annualTurnover: company.annualTurnover || "",
                 yearEstablished: company.yearEstablished?.toString() || "",
@@ -241,6 +248,7 @@ export default function CompanyProfile() {
                 city: company.city || "",
                 state: company.state || "",
                 country: company.country || "India",
+                timezone: company.timezone || "Asia/Kolkata",
                 employees: company.employees?.toString() || "",
                 annualTurnover: company.annualTurnover || "",
                 yearEstablished: company.yearEstablished?.toString() || "",
@@ -527,6 +535,16 @@ export default function CompanyProfile() {
                                 </p>
                             </div>
                         </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">
+                                Timezone
+                            </p>
+                            <p
+                                className="font-medium"
+                                data-testid="text-timezone">
+                                {company.timezone}
+                            </p>
+                        </div>
                     </CardContent>
                 </Card>
 
@@ -920,6 +938,39 @@ export default function CompanyProfile() {
                                             </FormItem>
                                         )}
                                     />
+
+                                    <FormField
+                                        control={form.control}
+                                        name="timezone"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Timezone *</FormLabel>
+                                                <Select
+                                                    onValueChange={
+                                                        field.onChange
+                                                    }
+                                                    value={field.value}>
+                                                    <FormControl>
+                                                        <SelectTrigger data-testid="select-timezone">
+                                                            <SelectValue placeholder="Select timezone" />
+                                                        </SelectTrigger>
+                                                    </FormControl>
+                                                    <SelectContent>
+                                                        {timezones.map(
+                                                            (tz) => (
+                                                                <SelectItem
+                                                                    key={tz}
+                                                                    value={tz}>
+                                                                    {tz}
+                                                                </SelectItem>
+                                                            )
+                                                        )}
+                                                    </SelectContent>
+                                                </Select>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
                                 </div>
 
                                 <Separator />
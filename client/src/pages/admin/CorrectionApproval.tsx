@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
     Dialog,
     DialogContent,
@@ -19,6 +20,12 @@ import type { CorrectionRequest } from "@shared/schema";
 
 type CorrectionWithUser = CorrectionRequest & { userName: string };
 
+type BulkReviewResult = {
+    approved: number;
+    rejected: number;
+    skipped: { id: number; reason: string }[];
+};
+
 export default function CorrectionApproval() {
     const { toast } = useToast();
     const [reviewDialog, setReviewDialog] = useState<{
@@ -31,6 +38,7 @@ export default function CorrectionApproval() {
         action: null,
     });
     const [comments, setComments] = useState("");
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
 
     const { data: corrections = [], isLoading } = useQuery<
         CorrectionWithUser[]
@@ -109,8 +117,83 @@ export default function CorrectionApproval() {
         },
     });
 
+    const bulkMutation = useMutation({
+        mutationFn: async ({
+            ids,
+            action,
+            comments,
+        }: {
+            ids: number[];
+            action: "approve" | "reject";
+            comments: string;
+        }): Promise<BulkReviewResult> => {
+            const res = await apiRequest(
+                `${API_BASE_URL}/api/admin/attendance/corrections/bulk`,
+                "PATCH",
+                { ids, action, comments }
+            );
+            return await res.json();
+        },
+        onSuccess: (result) => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/attendance/corrections/pending"],
+            });
+            setReviewDialog({ open: false, request: null, action: null });
+            setComments("");
+            setSelectedIds([]);
+            const reviewed = result.approved
+                ? `${result.approved} approved`
+                : `${result.rejected} rejected`;
+            toast({
+                title: "Requests Reviewed",
+                description: result.skipped.length
+                    ? `${reviewed}, ${result.skipped.length} skipped (already reviewed or not accessible).`
+                    : `${reviewed}.`,
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description:
+                    error.message ||
+                    "Failed to review correction requests. Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const isReviewing =
+        approveMutation.isPending ||
+        rejectMutation.isPending ||
+        bulkMutation.isPending;
+
+    const pendingIds = corrections.map((c) => c.id);
+    const selectedPending = selectedIds.filter((id) => pendingIds.includes(id));
+    const allSelected =
+        pendingIds.length > 0 && selectedPending.length === pendingIds.length;
+
+    const toggleSelected = (id: number, checked: boolean) => {
+        setSelectedIds((ids) =>
+            checked ? [...ids, id] : ids.filter((i) => i !== id)
+        );
+    };
+
+    // Days filed together as one multi-day request
+    const batchSize = (batchId: string | null) =>
+        batchId ? corrections.filter((c) => c.batchId === batchId).length : 1;
+
+    const selectBatch = (batchId: string) => {
+        const batchIds = corrections
+            .filter((c) => c.batchId === batchId)
+            .map((c) => c.id);
+        setSelectedIds((ids) => [
+            ...ids.filter((id) => !batchIds.includes(id)),
+            ...batchIds,
+        ]);
+    };
+
     const handleReview = () => {
-        if (!reviewDialog.request) return;
+        if (!reviewDialog.action) return;
 
         if (reviewDialog.action === "reject" && !comments.trim()) {
             toast({
@@ -121,6 +204,16 @@ export default function CorrectionApproval() {
             return;
         }
 
+        // No single request means the selected requests are reviewed together
+        if (!reviewDialog.request) {
+            bulkMutation.mutate({
+                ids: selectedPending,
+                action: reviewDialog.action,
+                comments,
+            });
+            return;
+        }
+
         const mutationData = { id: reviewDialog.request.id, comments };
 
         if (reviewDialog.action === "approve") {
@@ -147,6 +240,64 @@ export default function CorrectionApproval() {
                 </p>
             </div>
 
+            {corrections.length > 0 && (
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="select-all-corrections"
+                            checked={allSelected}
+                            onCheckedChange={(checked) =>
+                                setSelectedIds(checked ? pendingIds : [])
+                            }
+                            data-testid="checkbox-select-all"
+                        />
+                        <label
+                            htmlFor="select-all-corrections"
+                            className="text-sm">
+                            {selectedPending.length > 0
+                                ? `${selectedPending.length} selected`
+                                : "Select all"}
+                        </label>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button
+                            onClick={() => {
+                                setReviewDialog({
+                                    open: true,
+                                    request: null,
+                                    action: "approve",
+                                });
+                                setComments("");
+                            }}
+                            disabled={
+                                selectedPending.length === 0 || isReviewing
+                            }
+                            className="bg-green-600 hover:bg-green-700"
+                            data-testid="button-bulk-approve">
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve Selected
+                        </Button>
+                        <Button
+                            onClick={() => {
+                                setReviewDialog({
+                                    open: true,
+                                    request: null,
+                                    action: "reject",
+                                });
+                                setComments("");
+                            }}
+                            disabled={
+                                selectedPending.length === 0 || isReviewing
+                            }
+                            variant="destructive"
+                            data-testid="button-bulk-reject">
+                            <X className="h-4 w-4 mr-1" />
+                            Reject Selected
+                        </Button>
+                    </div>
+                </div>
+            )}
+
             <div className="space-y-4">
                 {isLoading && (
                     <Card className="p-6">
@@ -176,7 +327,19 @@ export default function CorrectionApproval() {
                         data-testid={`card-correction-${correction.id}`}>
                         <CardHeader>
                             <div className="flex items-center justify-between gap-4 flex-wrap">
-                                <div className="flex items-center gap-3">
+                                <div className="flex items-center gap-3 flex-wrap">
+                                    <Checkbox
+                                        checked={selectedIds.includes(
+                                            correction.id
+                                        )}
+                                        onCheckedChange={(checked) =>
+                                            toggleSelected(
+                                                correction.id,
+                                                checked === true
+                                            )
+                                        }
+                                        data-testid={`checkbox-correction-${correction.id}`}
+                                    />
                                     <FileEdit className="w-5 h-5 text-muted-foreground" />
                                     <CardTitle
                                         className="text-lg"
@@ -188,6 +351,22 @@ export default function CorrectionApproval() {
                                         data-testid={`status-correction-${correction.id}`}>
                                         Pending Review
                                     </Badge>
+                                    {correction.batchId &&
+                                        batchSize(correction.batchId) > 1 && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() =>
+                                                    selectBatch(
+                                                        correction.batchId!
+                                                    )
+                                                }
+                                                data-testid={`button-select-batch-${correction.id}`}>
+                                                Select all{" "}
+                                                {batchSize(correction.batchId)}{" "}
+                                                days of this request
+                                            </Button>
+                                        )}
                                 </div>
                                 <div className="flex gap-2">
                                     <Button
@@ -199,10 +378,7 @@ export default function CorrectionApproval() {
                                             });
                                             setComments("");
                                         }}
-                                        disabled={
-                                            approveMutation.isPending ||
-                                            rejectMutation.isPending
-                                        }
+                                        disabled={isReviewing}
                                         className="bg-green-600 hover:bg-green-700"
                                         data-testid={`button-approve-${correction.id}`}>
                                         <Check className="h-4 w-4 mr-1" />
@@ -217,10 +393,7 @@ export default function CorrectionApproval() {
                                             });
                                             setComments("");
                                         }}
-                                        disabled={
-                                            approveMutation.isPending ||
-                                            rejectMutation.isPending
-                                        }
+                                        disabled={isReviewing}
                                         variant="destructive"
                                         data-testid={`button-reject-${correction.id}`}>
                                         <X className="h-4 w-4 mr-1" />
@@ -303,11 +476,7 @@ export default function CorrectionApproval() {
             <Dialog
                 open={reviewDialog.open}
                 onOpenChange={(open) => {
-                    if (
-                        !open &&
-                        !approveMutation.isPending &&
-                        !rejectMutation.isPending
-                    ) {
+                    if (!open && !isReviewing) {
                         setReviewDialog({
                             open: false,
                             request: null,
@@ -322,7 +491,9 @@ export default function CorrectionApproval() {
                             {reviewDialog.action === "approve"
                                 ? "Approve"
                                 : "Reject"}{" "}
-                            Correction Request
+                            {reviewDialog.request
+                                ? "Correction Request"
+                                : `${selectedPending.length} Correction Requests`}
                         </DialogTitle>
                     </DialogHeader>
                     <div className="space-y-4">
@@ -343,10 +514,7 @@ export default function CorrectionApproval() {
                             onChange={(e) => setComments(e.target.value)}
                             rows={4}
                             data-testid="input-review-comments"
-                            disabled={
-                                approveMutation.isPending ||
-                                rejectMutation.isPending
-                            }
+                            disabled={isReviewing}
                         />
                     </div>
                     <DialogFooter>
@@ -360,27 +528,20 @@ export default function CorrectionApproval() {
                                 });
                                 setComments("");
                             }}
-                            disabled={
-                                approveMutation.isPending ||
-                                rejectMutation.isPending
-                            }
+                            disabled={isReviewing}
                             data-testid="button-cancel-review">
                             Cancel
                         </Button>
                         <Button
                             onClick={handleReview}
-                            disabled={
-                                approveMutation.isPending ||
-                                rejectMutation.isPending
-                            }
+                            disabled={isReviewing}
                             variant={
                                 reviewDialog.action === "approve"
                                     ? "default"
                                     : "destructive"
                             }
                             data-testid="button-confirm-review">
-                            {approveMutation.isPending ||
-                            rejectMutation.isPending
+                            {isReviewing
                                 ? "Processing..."
                                 : "Confirm"}
                         </Button>
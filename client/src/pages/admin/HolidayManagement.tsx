@@ -18,6 +18,8 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -31,6 +33,7 @@ const holidayFormSchema = z.object({
     name: z.string().min(1, "Holiday name is required"),
     date: z.string().min(1, "Date is required"),
     description: z.string().optional(),
+    isOptional: z.boolean(),
 });
 
 type HolidayFormData = z.infer<typeof holidayFormSchema>;
@@ -54,6 +57,7 @@ export default function HolidayManagement() {
             name: "",
             date: "",
             description: "",
+            isOptional: false,
         },
     });
 
@@ -194,6 +198,32 @@ export default function HolidayManagement() {
                                         </FormItem>
                                     )}
                                 />
+                                <FormField
+                                    control={form.control}
+                                    name="isOptional"
+                                    render={({ field }) => (
+                                        <FormItem className="flex items-center justify-between rounded-md border p-3">
+                                            <div className="space-y-1">
+                                                <FormLabel>
+                                                    Optional Holiday
+                                                </FormLabel>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Only applies to employees
+                                                    who opt in
+                                                </p>
+                                            </div>
+                                            <FormControl>
+                                                <Switch
+                                                    checked={field.value}
+                                                    onCheckedChange={
+                                                        field.onChange
+                                                    }
+                                                    data-testid="switch-holiday-optional"
+                                                />
+                                            </FormControl>
+                                        </FormItem>
+                                    )}
+                                />
                                 <div className="flex justify-end gap-2">
                                     <Button
                                         type="button"
@@ -250,6 +280,13 @@ export default function HolidayManagement() {
                                     className="font-semibold text-lg"
                                     data-testid={`text-holiday-name-${holiday.id}`}>
                                     {holiday.name}
+                                    {holiday.isOptional && (
+                                        <Badge
+                                            variant="outline"
+                                            className="ml-2 align-middle">
+                                            Optional
+                                        </Badge>
+                                    )}
                                 </h3>
                                 <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
                                     <Calendar className="h-4 w-4" />
@@ -2,10 +2,11 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar, Clock, Check, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Calendar, Clock, Check, X, ListChecks } from "lucide-react";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
 import { useWebSocket } from "@/contexts/WebSocketContext";
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import {
     Select,
     SelectContent,
@@ -14,11 +15,19 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import type { Leave } from "@shared/schema";
+import LeaveApprovalTrail from "@/components/LeaveApprovalTrail";
+import LeaveChangeNotice from "@/components/LeaveChangeNotice";
 
-type LeaveWithUser = Leave & { userName: string };
+type LeaveWithUser = Leave & {
+    userName: string;
+    availableBalance: number | null;
+    awaitingApprover: string | null;
+};
 
 export default function LeaveApproval() {
     const { toast } = useToast();
+    const [openTrail, setOpenTrail] = useState<number | null>(null);
+    const [remarks, setRemarks] = useState<Record<number, string>>({});
 
     const { data: user } = useQuery<any>({
         queryKey: ["/api/me"],
@@ -33,13 +42,23 @@ export default function LeaveApproval() {
                 queryClient.invalidateQueries({
                     queryKey: ["/api/leaves/company", user?.companyId],
                 });
+                queryClient.invalidateQueries({
+                    queryKey: ["/api/leaves", data.data.leaveId, "approvals"],
+                });
+                if (data.data.status === "escalated") {
+                    toast({
+                        title: "Leave Approval Escalated",
+                        description: `${data.data.userName}'s leave request was not decided in time and now needs your approval`,
+                    });
+                    return;
+                }
                 const actionBy =
                     data.data.changedBy ||
                     data.data.approvedBy ||
                     data.data.rejectedBy;
                 toast({
                     title: "Leave Status Updated",
-                    description: `${data.data.userName}'s leave status changed to ${data.data.status} by ${actionBy}`,
+                    description: `${data.data.userName}'s leave status changed to ${data.data.status.replace("_", " ")} by ${actionBy}`,
                 });
             }
         },
@@ -58,23 +77,27 @@ export default function LeaveApproval() {
             return await apiRequest(
                 `${API_BASE_URL}/api/leaves/${leaveId}/approve`,
                 "PATCH",
-                {}
+                { remarks: remarks[leaveId] }
             );
         },
-        onSuccess: () => {
+        onSuccess: (_data, leaveId) => {
             queryClient.invalidateQueries({
                 queryKey: ["/api/leaves/company", user?.companyId],
             });
+            queryClient.invalidateQueries({
+                queryKey: ["/api/leaves", leaveId, "approvals"],
+            });
             toast({
                 title: "Leave approved",
                 description:
                     "The leave request has been approved successfully.",
             });
         },
-        onError: () => {
+        onError: (error: any) => {
             toast({
                 title: "Error",
                 description:
+                    error.message ||
                     "Failed to approve leave request. Please try again.",
                 variant: "destructive",
             });
@@ -86,13 +109,16 @@ export default function LeaveApproval() {
             return await apiRequest(
                 `${API_BASE_URL}/api/leaves/${leaveId}/reject`,
                 "PATCH",
-                {}
+                { remarks: remarks[leaveId] }
             );
         },
-        onSuccess: () => {
+        onSuccess: (_data, leaveId) => {
             queryClient.invalidateQueries({
                 queryKey: ["/api/leaves/company", user?.companyId],
             });
+            queryClient.invalidateQueries({
+                queryKey: ["/api/leaves", leaveId, "approvals"],
+            });
             toast({
                 title: "Leave rejected",
                 description: "The leave request has been rejected.",
@@ -126,15 +152,20 @@ export default function LeaveApproval() {
             queryClient.invalidateQueries({
                 queryKey: ["/api/leaves/company", user?.companyId],
             });
+            queryClient.invalidateQueries({
+                queryKey: ["/api/leaves", variables.leaveId, "approvals"],
+            });
             toast({
                 title: "Status updated",
                 description: `Leave status changed to ${variables.status}`,
             });
         },
-        onError: () => {
+        onError: (error: any) => {
             toast({
                 title: "Error",
-                description: "Failed to update leave status. Please try again.",
+                description:
+                    error.message ||
+                    "Failed to update leave status. Please try again.",
                 variant: "destructive",
             });
         },
@@ -146,16 +177,19 @@ export default function LeaveApproval() {
                 return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
             case "rejected":
                 return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+            case "cancelled":
+                return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200";
             default:
                 return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
         }
     };
 
+    // Requested changes to approved leaves wait for a decision like new requests
     const pendingLeaves = leaves.filter(
-        (leave: any) => leave.status === "pending"
+        (leave: any) => leave.status === "pending" || leave.changeType
     );
     const processedLeaves = leaves.filter(
-        (leave: any) => leave.status !== "pending"
+        (leave: any) => leave.status !== "pending" && !leave.changeType
     );
 
     return (
@@ -210,6 +244,8 @@ export default function LeaveApproval() {
                                                 className="px-3 py-1 rounded-full text-xs font-medium capitalize bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
                                                 data-testid={`text-leave-type-${leave.id}`}>
                                                 {leave.leaveType} Leave
+                                                {leave.isHalfDay &&
+                                                    " (Half Day)"}
                                             </span>
                                             <span
                                                 className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(
@@ -218,6 +254,14 @@ export default function LeaveApproval() {
                                                 data-testid={`status-leave-${leave.id}`}>
                                                 {leave.status.toUpperCase()}
                                             </span>
+                                            {leave.awaitingApprover ===
+                                                "team_leader" && (
+                                                <span
+                                                    className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+                                                    data-testid={`text-awaiting-${leave.id}`}>
+                                                    Awaiting team leader
+                                                </span>
+                                            )}
                                         </div>
                                         <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
                                             <div className="flex items-center gap-1">
@@ -233,6 +277,31 @@ export default function LeaveApproval() {
                                                     ).toLocaleDateString()}
                                                 </span>
                                             </div>
+                                            {leave.days !== null && (
+                                                <span
+                                                    data-testid={`text-days-${leave.id}`}>
+                                                    {leave.days}{" "}
+                                                    {leave.days === 1
+                                                        ? "day"
+                                                        : "days"}
+                                                </span>
+                                            )}
+                                            {leave.availableBalance !==
+                                                null && (
+                                                <span
+                                                    className={
+                                                        leave.days !== null &&
+                                                        leave.availableBalance <
+                                                            leave.days
+                                                            ? "text-red-600 dark:text-red-400"
+                                                            : undefined
+                                                    }
+                                                    data-testid={`text-balance-${leave.id}`}>
+                                                    Balance:{" "}
+                                                    {leave.availableBalance}{" "}
+                                                    days
+                                                </span>
+                                            )}
                                             <div className="flex items-center gap-1">
                                                 <Clock className="h-4 w-4" />
                                                 <span
@@ -252,36 +321,74 @@ export default function LeaveApproval() {
                                             </span>{" "}
                                             {leave.reason}
                                         </p>
+                                        <LeaveChangeNotice leave={leave} />
                                     </div>
-                                    <div className="flex gap-2">
-                                        <Button
-                                            onClick={() =>
-                                                approveMutation.mutate(leave.id)
-                                            }
-                                            disabled={
-                                                approveMutation.isPending ||
-                                                rejectMutation.isPending
-                                            }
-                                            className="bg-green-600 hover:bg-green-700"
-                                            data-testid={`button-approve-${leave.id}`}>
-                                            <Check className="h-4 w-4 mr-1" />
-                                            Approve
-                                        </Button>
-                                        <Button
-                                            onClick={() =>
-                                                rejectMutation.mutate(leave.id)
-                                            }
-                                            disabled={
-                                                approveMutation.isPending ||
-                                                rejectMutation.isPending
+                                    <div className="flex flex-col gap-2 items-end">
+                                        <Input
+                                            className="w-56"
+                                            placeholder="Remarks (optional)"
+                                            value={remarks[leave.id] || ""}
+                                            onChange={(e) =>
+                                                setRemarks({
+                                                    ...remarks,
+                                                    [leave.id]: e.target.value,
+                                                })
                                             }
-                                            variant="destructive"
-                                            data-testid={`button-reject-${leave.id}`}>
-                                            <X className="h-4 w-4 mr-1" />
-                                            Reject
-                                        </Button>
+                                            data-testid={`input-remarks-${leave.id}`}
+                                        />
+                                        <div className="flex gap-2">
+                                            <Button
+                                                onClick={() =>
+                                                    approveMutation.mutate(leave.id)
+                                                }
+                                                disabled={
+                                                    approveMutation.isPending ||
+                                                    rejectMutation.isPending
+                                                }
+                                                className="bg-green-600 hover:bg-green-700"
+                                                data-testid={`button-approve-${leave.id}`}>
+                                                <Check className="h-4 w-4 mr-1" />
+                                                Approve
+                                            </Button>
+                                            <Button
+                                                onClick={() =>
+                                                    rejectMutation.mutate(leave.id)
+                                                }
+                                                disabled={
+                                                    approveMutation.isPending ||
+                                                    rejectMutation.isPending
+                                                }
+                                                variant="destructive"
+                                                data-testid={`button-reject-${leave.id}`}>
+                                                <X className="h-4 w-4 mr-1" />
+                                                Reject
+                                            </Button>
+                                        </div>
                                     </div>
                                 </div>
+                                <div className="mt-4 space-y-3">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() =>
+                                            setOpenTrail(
+                                                openTrail === leave.id
+                                                    ? null
+                                                    : leave.id
+                                            )
+                                        }
+                                        data-testid={`button-trail-${leave.id}`}>
+                                        <ListChecks className="h-4 w-4 mr-1" />
+                                        {openTrail === leave.id
+                                            ? "Hide approval trail"
+                                            : "Show approval trail"}
+                                    </Button>
+                                    {openTrail === leave.id && (
+                                        <LeaveApprovalTrail
+                                            leaveId={leave.id}
+                                        />
+                                    )}
+                                </div>
                             </Card>
                         ))}
                     </div>
@@ -354,6 +461,7 @@ export default function LeaveApproval() {
                                             </span>{" "}
                                             {leave.reason}
                                         </p>
+                                        <LeaveChangeNotice leave={leave} />
                                     </div>
                                     <div className="flex gap-2 items-center">
                                         <Select
@@ -382,10 +490,39 @@ export default function LeaveApproval() {
                                                 <SelectItem value="rejected">
                                                     Rejected
                                                 </SelectItem>
+                                                {leave.status ===
+                                                    "cancelled" && (
+                                                    <SelectItem value="cancelled">
+                                                        Cancelled
+                                                    </SelectItem>
+                                                )}
                                             </SelectContent>
                                         </Select>
                                     </div>
                                 </div>
+                                <div className="mt-4 space-y-3">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() =>
+                                            setOpenTrail(
+                                                openTrail === leave.id
+                                                    ? null
+                                                    : leave.id
+                                            )
+                                        }
+                                        data-testid={`button-trail-${leave.id}`}>
+                                        <ListChecks className="h-4 w-4 mr-1" />
+                                        {openTrail === leave.id
+                                            ? "Hide approval trail"
+                                            : "Show approval trail"}
+                                    </Button>
+                                    {openTrail === leave.id && (
+                                        <LeaveApprovalTrail
+                                            leaveId={leave.id}
+                                        />
+                                    )}
+                                </div>
                             </Card>
                         ))}
                     </div>
@@ -0,0 +1,591 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import {
+    Card,
+    CardContent,
+    CardHeader,
+    CardTitle,
+    CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarDays, Plus, GitBranch } from "lucide-react";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import type { LeaveApprovalPolicy, LeaveType } from "@shared/schema";
+
+const emptyLeaveTypeForm = {
+    code: "",
+    name: "",
+    annualQuota: "12",
+    accrual: "annual",
+    carryForwardCap: "0",
+    allowHalfDay: true,
+    sandwichRule: false,
+    isPaid: true,
+};
+
+// Approval chains offered to admins, keyed by the steps they send to the server
+const APPROVAL_CHAINS: Record<string, { label: string; steps: string[] }> = {
+    team_leader: {
+        label: "Team leader only",
+        steps: ["team_leader"],
+    },
+    company_admin: {
+        label: "Company admin only",
+        steps: ["company_admin"],
+    },
+    "team_leader,company_admin": {
+        label: "Team leader, then company admin",
+        steps: ["team_leader", "company_admin"],
+    },
+};
+
+export default function LeaveTypes() {
+    const { toast } = useToast();
+    const [form, setForm] = useState(emptyLeaveTypeForm);
+
+    const { data: leaveTypes = [], isLoading } = useQuery<LeaveType[]>({
+        queryKey: ["/api/admin/leave-types"],
+    });
+
+    const { data: approvalPolicy } = useQuery<LeaveApprovalPolicy>({
+        queryKey: ["/api/admin/leave-approval-policy"],
+    });
+
+    const [policyForm, setPolicyForm] = useState({
+        chain: "team_leader",
+        longLeaveDays: "",
+        slaHours: "48",
+    });
+
+    useEffect(() => {
+        if (approvalPolicy) {
+            setPolicyForm({
+                chain: approvalPolicy.steps.join(","),
+                longLeaveDays: approvalPolicy.longLeaveDays?.toString() ?? "",
+                slaHours: approvalPolicy.slaHours.toString(),
+            });
+        }
+    }, [approvalPolicy]);
+
+    const savePolicyMutation = useMutation({
+        mutationFn: async (data: typeof policyForm) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/leave-approval-policy`,
+                "PUT",
+                {
+                    steps: APPROVAL_CHAINS[data.chain]?.steps ?? ["team_leader"],
+                    longLeaveDays: data.longLeaveDays
+                        ? parseInt(data.longLeaveDays)
+                        : null,
+                    slaHours: parseInt(data.slaHours),
+                }
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/leave-approval-policy"],
+            });
+            toast({
+                title: "Approval Workflow Saved",
+                description: "New leave requests will follow this workflow.",
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Failed to Save Workflow",
+                description: error.message || "Please check the values.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const createLeaveTypeMutation = useMutation({
+        mutationFn: async (data: typeof form) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/leave-types`,
+                "POST",
+                {
+                    code: data.code.trim().toLowerCase(),
+                    name: data.name.trim(),
+                    annualQuota: parseFloat(data.annualQuota),
+                    accrual: data.accrual,
+                    carryForwardCap: parseFloat(data.carryForwardCap),
+                    allowHalfDay: data.allowHalfDay,
+                    sandwichRule: data.sandwichRule,
+                    isPaid: data.isPaid,
+                }
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/leave-types"],
+            });
+            setForm(emptyLeaveTypeForm);
+            toast({
+                title: "Leave Type Added",
+                description: "Employees can now request this leave type.",
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Failed to Add Leave Type",
+                description: error.message || "Please check the values.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const updateLeaveTypeMutation = useMutation({
+        mutationFn: async ({
+            id,
+            updates,
+        }: {
+            id: number;
+            updates: Partial<LeaveType>;
+        }) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/leave-types/${id}`,
+                "PATCH",
+                updates
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/leave-types"],
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Update Failed",
+                description: error.message || "Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        createLeaveTypeMutation.mutate(form);
+    };
+
+    return (
+        <div className="flex flex-col gap-6 p-6">
+            <div>
+                <h1 className="text-2xl font-semibold">Leave Types</h1>
+                <p className="text-sm text-muted-foreground">
+                    Define the leave your employees are entitled to and how
+                    their balances build up
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <CalendarDays className="w-5 h-5" />
+                        Configured Leave Types
+                    </CardTitle>
+                    <CardDescription>
+                        Inactive types can no longer be requested; existing
+                        balances are kept
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <p className="text-sm text-muted-foreground">
+                            Loading...
+                        </p>
+                    ) : leaveTypes.length === 0 ? (
+                        <p
+                            className="text-sm text-muted-foreground"
+                            data-testid="text-no-leave-types">
+                            No leave types yet. Until you add one, employees
+                            can request leave without balance tracking.
+                        </p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Annual Quota</TableHead>
+                                    <TableHead>Accrual</TableHead>
+                                    <TableHead>Carry Forward Cap</TableHead>
+                                    <TableHead>Rules</TableHead>
+                                    <TableHead>Active</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {leaveTypes.map((leaveType) => (
+                                    <TableRow
+                                        key={leaveType.id}
+                                        data-testid={`row-leave-type-${leaveType.id}`}>
+                                        <TableCell>
+                                            <div className="font-medium">
+                                                {leaveType.name}
+                                            </div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {leaveType.code}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            {leaveType.annualQuota} days
+                                        </TableCell>
+                                        <TableCell className="capitalize">
+                                            {leaveType.accrual}
+                                        </TableCell>
+                                        <TableCell>
+                                            {leaveType.carryForwardCap} days
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex gap-1 flex-wrap">
+                                                {leaveType.allowHalfDay && (
+                                                    <Badge variant="outline">
+                                                        Half day
+                                                    </Badge>
+                                                )}
+                                                {leaveType.sandwichRule && (
+                                                    <Badge variant="outline">
+                                                        Sandwich
+                                                    </Badge>
+                                                )}
+                                                {!leaveType.isPaid && (
+                                                    <Badge variant="outline">
+                                                        Unpaid
+                                                    </Badge>
+                                                )}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Switch
+                                                checked={leaveType.isActive}
+                                                disabled={
+                                                    updateLeaveTypeMutation.isPending
+                                                }
+                                                onCheckedChange={(checked) =>
+                                                    updateLeaveTypeMutation.mutate(
+                                                        {
+                                                            id: leaveType.id,
+                                                            updates: {
+                                                                isActive:
+                                                                    checked,
+                                                            },
+                                                        }
+                                                    )
+                                                }
+                                                data-testid={`switch-active-${leaveType.id}`}
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <GitBranch className="w-5 h-5" />
+                        Approval Workflow
+                    </CardTitle>
+                    <CardDescription>
+                        Who approves leave requests and in which order. A step
+                        left undecided past the deadline moves to the next
+                        approver; admins can decide at any step.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            savePolicyMutation.mutate(policyForm);
+                        }}
+                        className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label>Approval Chain</Label>
+                                <Select
+                                    value={policyForm.chain}
+                                    onValueChange={(chain) =>
+                                        setPolicyForm({ ...policyForm, chain })
+                                    }>
+                                    <SelectTrigger data-testid="select-approval-chain">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(APPROVAL_CHAINS).map(
+                                            ([value, chain]) => (
+                                                <SelectItem
+                                                    key={value}
+                                                    value={value}>
+                                                    {chain.label}
+                                                </SelectItem>
+                                            )
+                                        )}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="longLeaveDays">
+                                    Admin Approval Above (days)
+                                </Label>
+                                <Input
+                                    id="longLeaveDays"
+                                    type="number"
+                                    min="1"
+                                    placeholder="Never"
+                                    value={policyForm.longLeaveDays}
+                                    onChange={(e) =>
+                                        setPolicyForm({
+                                            ...policyForm,
+                                            longLeaveDays: e.target.value,
+                                        })
+                                    }
+                                    data-testid="input-long-leave-days"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="slaHours">
+                                    Escalate After (hours)
+                                </Label>
+                                <Input
+                                    id="slaHours"
+                                    type="number"
+                                    min="1"
+                                    max="720"
+                                    value={policyForm.slaHours}
+                                    onChange={(e) =>
+                                        setPolicyForm({
+                                            ...policyForm,
+                                            slaHours: e.target.value,
+                                        })
+                                    }
+                                    data-testid="input-sla-hours"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex justify-end">
+                            <Button
+                                type="submit"
+                                disabled={
+                                    savePolicyMutation.isPending ||
+                                    !policyForm.slaHours
+                                }
+                                data-testid="button-save-approval-workflow">
+                                {savePolicyMutation.isPending
+                                    ? "Saving..."
+                                    : "Save Workflow"}
+                            </Button>
+                        </div>
+                    </form>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Plus className="w-5 h-5" />
+                        Add Leave Type
+                    </CardTitle>
+                    <CardDescription>
+                        Monthly accrual credits a twelfth of the quota each
+                        month. Unused days up to the cap carry into the next
+                        year.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="leaveTypeName">Name</Label>
+                                <Input
+                                    id="leaveTypeName"
+                                    placeholder="Casual Leave"
+                                    value={form.name}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            name: e.target.value,
+                                        })
+                                    }
+                                    data-testid="input-leave-type-name"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="leaveTypeCode">Code</Label>
+                                <Input
+                                    id="leaveTypeCode"
+                                    placeholder="casual"
+                                    value={form.code}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            code: e.target.value,
+                                        })
+                                    }
+                                    data-testid="input-leave-type-code"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="annualQuota">
+                                    Annual Quota (days)
+                                </Label>
+                                <Input
+                                    id="annualQuota"
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    value={form.annualQuota}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            annualQuota: e.target.value,
+                                        })
+                                    }
+                                    data-testid="input-annual-quota"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Accrual</Label>
+                                <Select
+                                    value={form.accrual}
+                                    onValueChange={(accrual) =>
+                                        setForm({ ...form, accrual })
+                                    }>
+                                    <SelectTrigger data-testid="select-accrual">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="annual">
+                                            Full quota at year start
+                                        </SelectItem>
+                                        <SelectItem value="monthly">
+                                            Monthly accrual
+                                        </SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="carryForwardCap">
+                                    Carry Forward Cap (days)
+                                </Label>
+                                <Input
+                                    id="carryForwardCap"
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    value={form.carryForwardCap}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            carryForwardCap: e.target.value,
+                                        })
+                                    }
+                                    data-testid="input-carry-forward-cap"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                                <Label htmlFor="allowHalfDay">
+                                    Allow Half Days
+                                </Label>
+                                <p className="text-sm text-muted-foreground">
+                                    Employees can take this leave for half a
+                                    day
+                                </p>
+                            </div>
+                            <Switch
+                                id="allowHalfDay"
+                                checked={form.allowHalfDay}
+                                onCheckedChange={(checked) =>
+                                    setForm({ ...form, allowHalfDay: checked })
+                                }
+                                data-testid="switch-allow-half-day"
+                            />
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                                <Label htmlFor="sandwichRule">
+                                    Sandwich Rule
+                                </Label>
+                                <p className="text-sm text-muted-foreground">
+                                    Holidays and weekly offs between two leave
+                                    days are counted as leave
+                                </p>
+                            </div>
+                            <Switch
+                                id="sandwichRule"
+                                checked={form.sandwichRule}
+                                onCheckedChange={(checked) =>
+                                    setForm({ ...form, sandwichRule: checked })
+                                }
+                                data-testid="switch-sandwich-rule"
+                            />
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                                <Label htmlFor="isPaid">Paid Leave</Label>
+                                <p className="text-sm text-muted-foreground">
+                                    Unpaid leave is exported to payroll as loss
+                                    of pay
+                                </p>
+                            </div>
+                            <Switch
+                                id="isPaid"
+                                checked={form.isPaid}
+                                onCheckedChange={(checked) =>
+                                    setForm({ ...form, isPaid: checked })
+                                }
+                                data-testid="switch-is-paid"
+                            />
+                        </div>
+
+                        <div className="flex justify-end">
+                            <Button
+                                type="submit"
+                                disabled={
+                                    createLeaveTypeMutation.isPending ||
+                                    !form.name ||
+                                    !form.code
+                                }
+                                data-testid="button-add-leave-type">
+                                <Plus className="w-4 h-4 mr-2" />
+                                {createLeaveTypeMutation.isPending
+                                    ? "Adding..."
+                                    : "Add Leave Type"}
+                            </Button>
+                        </div>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,632 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { format, addWeeks, startOfWeek, parseISO } from "date-fns";
+import {
+    Card,
+    CardContent,
+    CardHeader,
+    CardTitle,
+    CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+    CalendarClock,
+    ChevronLeft,
+    ChevronRight,
+    Clock,
+    Plus,
+    Repeat,
+    Trash2,
+} from "lucide-react";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import type { Shift, ShiftAssignment, ShiftRosterEntry } from "@shared/schema";
+
+interface RosterData {
+    dates: string[];
+    shifts: Shift[];
+    roster: ShiftRosterEntry[];
+}
+
+const NO_ROTATION = "none";
+
+const emptyShiftForm = {
+    name: "",
+    startTime: "09:00",
+    endTime: "18:00",
+};
+
+const emptyAssignmentForm = {
+    target: "",
+    shiftId: "",
+    rotateWithShiftId: NO_ROTATION,
+    effectiveFrom: format(new Date(), "yyyy-MM-dd"),
+    effectiveTo: "",
+};
+
+export default function ShiftRoster() {
+    const { toast } = useToast();
+    const [weekStart, setWeekStart] = useState(() =>
+        startOfWeek(new Date(), { weekStartsOn: 1 })
+    );
+    const [shiftForm, setShiftForm] = useState(emptyShiftForm);
+    const [assignmentForm, setAssignmentForm] = useState(emptyAssignmentForm);
+
+    const rosterKey = `/api/admin/shift-roster?start=${format(
+        weekStart,
+        "yyyy-MM-dd"
+    )}&days=7`;
+
+    const { data: shifts = [] } = useQuery<Shift[]>({
+        queryKey: ["/api/admin/shifts"],
+    });
+
+    const { data: assignments = [] } = useQuery<ShiftAssignment[]>({
+        queryKey: ["/api/admin/shift-assignments"],
+    });
+
+    const { data: rosterData, isLoading } = useQuery<RosterData>({
+        queryKey: [rosterKey],
+    });
+
+    const roster = rosterData?.roster ?? [];
+    const shiftById = new Map(shifts.map((shift) => [shift.id, shift]));
+    const userName = (id: number | null) =>
+        roster.find((entry) => entry.userId === id)?.userName ?? `User #${id}`;
+    const teamLeaders = roster.filter(
+        (entry) => entry.teamLeaderId === entry.userId
+    );
+
+    const invalidateRoster = () => {
+        queryClient.invalidateQueries({
+            queryKey: ["/api/admin/shift-assignments"],
+        });
+        queryClient.invalidateQueries({
+            predicate: (query) =>
+                String(query.queryKey[0]).startsWith("/api/admin/shift-roster"),
+        });
+    };
+
+    const createShiftMutation = useMutation({
+        mutationFn: async (data: typeof shiftForm) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/shifts`,
+                "POST",
+                data
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/shifts"],
+            });
+            invalidateRoster();
+            setShiftForm(emptyShiftForm);
+            toast({ title: "Shift Created" });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Failed to Create Shift",
+                description: error.message || "Please check the values.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const createAssignmentMutation = useMutation({
+        mutationFn: async (data: typeof assignmentForm) => {
+            const [kind, id] = data.target.split(":");
+            const shiftIds = [parseInt(data.shiftId)];
+            if (data.rotateWithShiftId !== NO_ROTATION) {
+                shiftIds.push(parseInt(data.rotateWithShiftId));
+            }
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/shift-assignments`,
+                "POST",
+                {
+                    userId: kind === "user" ? parseInt(id) : null,
+                    teamLeaderId: kind === "team" ? parseInt(id) : null,
+                    shiftIds,
+                    effectiveFrom: data.effectiveFrom,
+                    effectiveTo: data.effectiveTo || null,
+                }
+            );
+        },
+        onSuccess: () => {
+            invalidateRoster();
+            setAssignmentForm(emptyAssignmentForm);
+            toast({
+                title: "Shift Assigned",
+                description: "The roster has been updated.",
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Failed to Assign Shift",
+                description: error.message || "Please check the values.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const deleteAssignmentMutation = useMutation({
+        mutationFn: async (id: number) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/shift-assignments/${id}`,
+                "DELETE"
+            );
+        },
+        onSuccess: () => {
+            invalidateRoster();
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Failed to Remove Assignment",
+                description: error.message || "Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const handleAddShift = (e: React.FormEvent) => {
+        e.preventDefault();
+        createShiftMutation.mutate(shiftForm);
+    };
+
+    const handleAddAssignment = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!assignmentForm.target || !assignmentForm.shiftId) {
+            toast({
+                title: "Missing Details",
+                description: "Choose who to assign and which shift.",
+                variant: "destructive",
+            });
+            return;
+        }
+        createAssignmentMutation.mutate(assignmentForm);
+    };
+
+    const describeAssignment = (assignment: ShiftAssignment) => {
+        const names = assignment.shiftIds.map(
+            (id) => shiftById.get(id)?.name ?? `Shift #${id}`
+        );
+        return names.length > 1
+            ? `Rotates weekly: ${names.join(" → ")}`
+            : names[0];
+    };
+
+    return (
+        <div className="flex flex-col gap-6 p-6">
+            <div className="flex items-center justify-between flex-wrap gap-4">
+                <div>
+                    <h1 className="text-2xl font-semibold">Shift Roster</h1>
+                    <p className="text-sm text-muted-foreground">
+                        Assign shifts to people and teams, and see who works
+                        which shift each day
+                    </p>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <div className="flex items-center justify-between flex-wrap gap-4">
+                        <div>
+                            <CardTitle className="flex items-center gap-2">
+                                <CalendarClock className="w-5 h-5" />
+                                Week of {format(weekStart, "MMM d, yyyy")}
+                            </CardTitle>
+                            <CardDescription>
+                                Users without an assignment work the company's
+                                default shift
+                            </CardDescription>
+                        </div>
+                        <div className="flex gap-2">
+                            <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={() =>
+                                    setWeekStart(addWeeks(weekStart, -1))
+                                }
+                                data-testid="button-previous-week">
+                                <ChevronLeft className="w-4 h-4" />
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={() =>
+                                    setWeekStart(addWeeks(weekStart, 1))
+                                }
+                                data-testid="button-next-week">
+                                <ChevronRight className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                        </div>
+                    ) : roster.length > 0 ? (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Employee</TableHead>
+                                        {rosterData?.dates.map((date) => (
+                                            <TableHead
+                                                key={date}
+                                                className="text-center">
+                                                {format(
+                                                    parseISO(date),
+                                                    "EEE d"
+                                                )}
+                                            </TableHead>
+                                        ))}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {roster.map((entry) => (
+                                        <TableRow
+                                            key={entry.userId}
+                                            data-testid={`roster-row-${entry.userId}`}>
+                                            <TableCell className="font-medium whitespace-nowrap">
+                                                {entry.userName}
+                                            </TableCell>
+                                            {entry.days.map((day) => {
+                                                const shift = day.shiftId
+                                                    ? shiftById.get(day.shiftId)
+                                                    : undefined;
+                                                return (
+                                                    <TableCell
+                                                        key={day.date}
+                                                        className="text-center">
+                                                        {shift ? (
+                                                            <Badge
+                                                                variant={
+                                                                    day.assignmentId
+                                                                        ? "default"
+                                                                        : "outline"
+                                                                }
+                                                                title={`${shift.startTime} – ${shift.endTime}`}>
+                                                                {shift.name}
+                                                            </Badge>
+                                                        ) : (
+                                                            <span className="text-xs text-muted-foreground">
+                                                                —
+                                                            </span>
+                                                        )}
+                                                    </TableCell>
+                                                );
+                                            })}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground text-center py-8">
+                            No active users found
+                        </p>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Repeat className="w-5 h-5" />
+                        Shift Assignments
+                    </CardTitle>
+                    <CardDescription>
+                        A person's own assignment takes priority over their
+                        team's. Pick a second shift to alternate weekly.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    {assignments.length > 0 ? (
+                        <div className="border rounded-md divide-y">
+                            {assignments.map((assignment) => (
+                                <div
+                                    key={assignment.id}
+                                    className="flex items-center justify-between p-3"
+                                    data-testid={`shift-assignment-${assignment.id}`}>
+                                    <div>
+                                        <p className="font-medium">
+                                            {assignment.userId
+                                                ? userName(assignment.userId)
+                                                : `${userName(
+                                                      assignment.teamLeaderId
+                                                  )}'s team`}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {describeAssignment(assignment)} ·{" "}
+                                            {assignment.effectiveFrom} to{" "}
+                                            {assignment.effectiveTo ??
+                                                "ongoing"}
+                                        </p>
+                                    </div>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() =>
+                                            deleteAssignmentMutation.mutate(
+                                                assignment.id
+                                            )
+                                        }
+                                        disabled={
+                                            deleteAssignmentMutation.isPending
+                                        }
+                                        data-testid={`button-delete-assignment-${assignment.id}`}>
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            No assignments yet. Everyone works the default
+                            shift.
+                        </p>
+                    )}
+
+                    <form
+                        onSubmit={handleAddAssignment}
+                        className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                        <div className="space-y-2">
+                            <Label>Assign To</Label>
+                            <Select
+                                value={assignmentForm.target}
+                                onValueChange={(value) =>
+                                    setAssignmentForm({
+                                        ...assignmentForm,
+                                        target: value,
+                                    })
+                                }>
+                                <SelectTrigger data-testid="select-assignment-target">
+                                    <SelectValue placeholder="User or team" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {teamLeaders.map((leader) => (
+                                        <SelectItem
+                                            key={`team:${leader.userId}`}
+                                            value={`team:${leader.userId}`}>
+                                            {leader.userName}'s team
+                                        </SelectItem>
+                                    ))}
+                                    {roster.map((entry) => (
+                                        <SelectItem
+                                            key={`user:${entry.userId}`}
+                                            value={`user:${entry.userId}`}>
+                                            {entry.userName}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Shift</Label>
+                            <Select
+                                value={assignmentForm.shiftId}
+                                onValueChange={(value) =>
+                                    setAssignmentForm({
+                                        ...assignmentForm,
+                                        shiftId: value,
+                                    })
+                                }>
+                                <SelectTrigger data-testid="select-assignment-shift">
+                                    <SelectValue placeholder="Shift" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {shifts.map((shift) => (
+                                        <SelectItem
+                                            key={shift.id}
+                                            value={String(shift.id)}>
+                                            {shift.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Alternate Weekly With</Label>
+                            <Select
+                                value={assignmentForm.rotateWithShiftId}
+                                onValueChange={(value) =>
+                                    setAssignmentForm({
+                                        ...assignmentForm,
+                                        rotateWithShiftId: value,
+                                    })
+                                }>
+                                <SelectTrigger data-testid="select-assignment-rotation">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NO_ROTATION}>
+                                        No rotation
+                                    </SelectItem>
+                                    {shifts.map((shift) => (
+                                        <SelectItem
+                                            key={shift.id}
+                                            value={String(shift.id)}>
+                                            {shift.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="effectiveFrom">Effective From</Label>
+                            <Input
+                                id="effectiveFrom"
+                                type="date"
+                                value={assignmentForm.effectiveFrom}
+                                onChange={(e) =>
+                                    setAssignmentForm({
+                                        ...assignmentForm,
+                                        effectiveFrom: e.target.value,
+                                    })
+                                }
+                                required
+                                data-testid="input-effective-from"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="effectiveTo">
+                                Effective To (optional)
+                            </Label>
+                            <Input
+                                id="effectiveTo"
+                                type="date"
+                                value={assignmentForm.effectiveTo}
+                                onChange={(e) =>
+                                    setAssignmentForm({
+                                        ...assignmentForm,
+                                        effectiveTo: e.target.value,
+                                    })
+                                }
+                                data-testid="input-effective-to"
+                            />
+                        </div>
+                        <Button
+                            type="submit"
+                            disabled={createAssignmentMutation.isPending}
+                            className="md:col-start-5"
+                            data-testid="button-add-assignment">
+                            <Plus className="w-4 h-4 mr-2" />
+                            {createAssignmentMutation.isPending
+                                ? "Assigning..."
+                                : "Assign Shift"}
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Clock className="w-5 h-5" />
+                        Shifts
+                    </CardTitle>
+                    <CardDescription>
+                        Late and early check-ins are measured against the start
+                        of each person's assigned shift. A shift that ends
+                        before it starts runs overnight and is recorded on its
+                        start date.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    {shifts.length > 0 ? (
+                        <div className="border rounded-md divide-y">
+                            {shifts.map((shift) => (
+                                <div
+                                    key={shift.id}
+                                    className="flex items-center justify-between p-3"
+                                    data-testid={`shift-${shift.id}`}>
+                                    <div>
+                                        <p className="font-medium">
+                                            {shift.name}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {shift.startTime} – {shift.endTime}
+                                            {shift.endTime <= shift.startTime &&
+                                                " (ends next day)"}
+                                        </p>
+                                    </div>
+                                    {!shift.isActive && (
+                                        <Badge variant="outline">Inactive</Badge>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            No shifts yet. Check-ins are measured against a
+                            10:00 AM start.
+                        </p>
+                    )}
+
+                    <form
+                        onSubmit={handleAddShift}
+                        className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                        <div className="space-y-2">
+                            <Label htmlFor="shiftName">Name</Label>
+                            <Input
+                                id="shiftName"
+                                value={shiftForm.name}
+                                onChange={(e) =>
+                                    setShiftForm({
+                                        ...shiftForm,
+                                        name: e.target.value,
+                                    })
+                                }
+                                placeholder="Day Shift"
+                                required
+                                data-testid="input-shift-name"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="shiftStart">Start Time</Label>
+                            <Input
+                                id="shiftStart"
+                                type="time"
+                                value={shiftForm.startTime}
+                                onChange={(e) =>
+                                    setShiftForm({
+                                        ...shiftForm,
+                                        startTime: e.target.value,
+                                    })
+                                }
+                                required
+                                data-testid="input-shift-start"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="shiftEnd">End Time</Label>
+                            <Input
+                                id="shiftEnd"
+                                type="time"
+                                value={shiftForm.endTime}
+                                onChange={(e) =>
+                                    setShiftForm({
+                                        ...shiftForm,
+                                        endTime: e.target.value,
+                                    })
+                                }
+                                required
+                                data-testid="input-shift-end"
+                            />
+                        </div>
+                        <Button
+                            type="submit"
+                            disabled={createShiftMutation.isPending}
+                            data-testid="button-add-shift">
+                            <Plus className="w-4 h-4 mr-2" />
+                            {createShiftMutation.isPending
+                                ? "Creating..."
+                                : "Add Shift"}
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
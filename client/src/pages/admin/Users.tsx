@@ -28,12 +28,13 @@ import {
     DropdownMenuTrigger,
     DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
-import { useState, useMemo } from "react";
+import { useState, useMemo, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
-import type { User } from "@shared/schema";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import type { User, UserDeviceWithUser } from "@shared/schema";
 import {
     Plus,
     Users as UsersIcon,
@@ -49,6 +50,7 @@ import {
     Crown,
     UserMinus,
     Trash2,
+    Smartphone,
 } from "lucide-react";
 import { useLocation } from "wouter";
 
@@ -168,6 +170,85 @@ export default function Users() {
         },
     });
 
+    const { data: deviceBindings = [] } = useQuery<UserDeviceWithUser[]>({
+        queryKey: ["/api/admin/device-bindings"],
+    });
+
+    useWebSocket(
+        useCallback((message: any) => {
+            if (message.type === "DEVICE_REBIND_REQUESTED") {
+                queryClient.invalidateQueries({
+                    queryKey: ["/api/admin/device-bindings"],
+                });
+            }
+        }, [])
+    );
+
+    const pendingDevices = deviceBindings.filter(
+        (device) => device.status === "pending"
+    );
+    const activeDevices = deviceBindings.filter(
+        (device) => device.status === "active"
+    );
+
+    const reviewDeviceMutation = useMutation({
+        mutationFn: async ({
+            deviceId,
+            decision,
+        }: {
+            deviceId: number;
+            decision: "approve" | "reject";
+        }) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/device-bindings/${deviceId}/${decision}`,
+                "POST"
+            );
+        },
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/device-bindings"],
+            });
+            toast({
+                title: `Device ${
+                    variables.decision === "approve" ? "approved" : "rejected"
+                }`,
+            });
+        },
+        onError: (error) => {
+            toast({
+                title: "Failed to review device",
+                description: error.message || "Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const resetDeviceMutation = useMutation({
+        mutationFn: async ({ userId }: { userId: number }) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/admin/users/${userId}/reset-device`,
+                "POST"
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/admin/device-bindings"],
+            });
+            toast({
+                title: "Device binding reset",
+                description:
+                    "The user can register a new device on their next check-in.",
+            });
+        },
+        onError: (error) => {
+            toast({
+                title: "Failed to reset device",
+                description: error.message || "Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
     const createUserMutation = useMutation({
         mutationFn: async (userData: typeof userForm) => {
             const response = await apiRequest(
@@ -228,7 +309,8 @@ export default function Users() {
             queryFn: async () => {
                 if (!selectedTeamLeader) return [];
                 const response = await fetch(
-                    `${API_BASE_URL}/api/team-assignments/${selectedTeamLeader.id}/members`
+                    `${API_BASE_URL}/api/team-assignments/${selectedTeamLeader.id}/members`,
+                    { credentials: "include" }
                 );
                 if (!response.ok)
                     throw new Error("Failed to fetch team assignments");
@@ -651,6 +733,19 @@ export default function Users() {
                                                                 <DropdownMenuSeparator />
                                                             </>
                                                         )}
+                                                        <DropdownMenuItem
+                                                            onClick={() =>
+                                                                resetDeviceMutation.mutate(
+                                                                    { userId: user.id }
+                                                                )
+                                                            }
+                                                            disabled={
+                                                                resetDeviceMutation.isPending
+                                                            }
+                                                            data-testid={`menu-reset-device-${user.id}`}>
+                                                            <Smartphone className="h-4 w-4 mr-2" />
+                                                            Reset Device
+                                                        </DropdownMenuItem>
                                                         <DropdownMenuItem
                                                             className="text-destructive"
                                                             onClick={() =>
@@ -745,6 +840,94 @@ export default function Users() {
                 </CardContent>
             </Card>
 
+            {deviceBindings.length > 0 && (
+                <Card data-testid="card-trusted-devices">
+                    <CardHeader>
+                        <CardTitle className="text-lg sm:text-xl">
+                            Trusted Devices
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {[...pendingDevices, ...activeDevices].map((device) => (
+                            <div
+                                key={device.id}
+                                className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 border rounded-md"
+                                data-testid={`device-binding-${device.id}`}>
+                                <Smartphone className="h-5 w-5 text-muted-foreground shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-medium truncate">
+                                        {device.userName}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground truncate">
+                                        {device.deviceLabel || "Unknown device"}{" "}
+                                        &middot;{" "}
+                                        {new Date(
+                                            device.createdAt
+                                        ).toLocaleDateString()}
+                                    </p>
+                                </div>
+                                <Badge
+                                    variant={
+                                        device.status === "pending"
+                                            ? "secondary"
+                                            : "default"
+                                    }>
+                                    {device.status === "pending"
+                                        ? "Awaiting approval"
+                                        : "Trusted"}
+                                </Badge>
+                                {device.status === "pending" ? (
+                                    <div className="flex gap-2">
+                                        <Button
+                                            size="sm"
+                                            onClick={() =>
+                                                reviewDeviceMutation.mutate({
+                                                    deviceId: device.id,
+                                                    decision: "approve",
+                                                })
+                                            }
+                                            disabled={
+                                                reviewDeviceMutation.isPending
+                                            }
+                                            data-testid={`button-approve-device-${device.id}`}>
+                                            Approve
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() =>
+                                                reviewDeviceMutation.mutate({
+                                                    deviceId: device.id,
+                                                    decision: "reject",
+                                                })
+                                            }
+                                            disabled={
+                                                reviewDeviceMutation.isPending
+                                            }
+                                            data-testid={`button-reject-device-${device.id}`}>
+                                            Reject
+                                        </Button>
+                                    </div>
+                                ) : (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() =>
+                                            resetDeviceMutation.mutate({
+                                                userId: device.userId,
+                                            })
+                                        }
+                                        disabled={resetDeviceMutation.isPending}
+                                        data-testid={`button-reset-device-${device.id}`}>
+                                        Reset
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
             {suspendedUsers.length > 0 && (
                 <Card>
                     <CardHeader>
@@ -60,9 +60,7 @@ export default function PaymentTracking() {
             const res = await fetch(
                 `${API_BASE_URL}/api/super-admin/payments?${queryParams}`,
                 {
-                    headers: {
-                        "x-user-id": localStorage.getItem("userId") || "",
-                    },
+                    credentials: "include",
                 }
             );
             if (!res.ok) {
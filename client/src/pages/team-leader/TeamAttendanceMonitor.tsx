@@ -80,6 +80,11 @@ export default function TeamAttendanceMonitor() {
                 return "secondary";
             case "absent":
                 return "destructive";
+            case "half_day":
+            case "short_day":
+            case "holiday":
+            case "weekly_off":
+                return "outline";
             case "on_leave":
                 return "secondary";
             default:
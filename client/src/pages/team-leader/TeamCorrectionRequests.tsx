@@ -7,6 +7,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Check, X, Clock, User } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
@@ -25,15 +26,20 @@ import {
 interface CorrectionRequest {
     id: number;
     userId: number;
-    requestedDate: string;
-    originalClockIn?: string;
-    originalClockOut?: string;
-    correctedClockIn?: string;
-    correctedClockOut?: string;
+    batchId: string | null;
+    date: string;
+    requestedCheckIn: string | null;
+    requestedCheckOut: string | null;
     reason: string;
     status: string;
     companyId: number;
-    displayName?: string;
+    userName: string | null;
+}
+
+interface BulkReviewResult {
+    approved: number;
+    rejected: number;
+    skipped: { id: number; reason: string }[];
 }
 
 interface TeamMember {
@@ -45,6 +51,7 @@ export default function TeamCorrectionRequests() {
     const { dbUserId, companyId } = useAuth();
     const { toast } = useToast();
     const [statusFilter, setStatusFilter] = useState<string>("pending");
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
 
     const { data: teamMembers = [] } = useQuery<TeamMember[]>({
         queryKey: [`/api/team-assignments/${dbUserId}/members`],
@@ -113,7 +120,70 @@ export default function TeamCorrectionRequests() {
         },
     });
 
-    const formatTime = (timeStr?: string) => {
+    const bulkReview = useMutation({
+        mutationFn: async ({
+            ids,
+            action,
+        }: {
+            ids: number[];
+            action: "approve" | "reject";
+        }): Promise<BulkReviewResult> => {
+            const res = await apiRequest(
+                `${API_BASE_URL}/api/corrections/bulk`,
+                "PATCH",
+                { ids, action }
+            );
+            return await res.json();
+        },
+        onSuccess: (result) => {
+            queryClient.invalidateQueries({
+                queryKey: [`/api/corrections/team/${dbUserId}`],
+            });
+            setSelectedIds([]);
+            const reviewed = result.approved
+                ? `${result.approved} correction requests approved`
+                : `${result.rejected} correction requests rejected`;
+            toast({
+                title: "Success",
+                description: result.skipped.length
+                    ? `${reviewed}, ${result.skipped.length} skipped`
+                    : reviewed,
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to review corrections",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const isReviewing =
+        approveCorrection.isPending ||
+        rejectCorrection.isPending ||
+        bulkReview.isPending;
+
+    const selectableIds = filteredCorrections
+        .filter((corr) => corr.status === "pending")
+        .map((corr) => corr.id);
+    const selectedPending = selectedIds.filter((id) =>
+        selectableIds.includes(id)
+    );
+
+    const toggleSelected = (id: number, checked: boolean) => {
+        setSelectedIds((ids) =>
+            checked ? [...ids, id] : ids.filter((i) => i !== id)
+        );
+    };
+
+    // Days filed together as one multi-day request
+    const batchSize = (batchId: string | null) =>
+        batchId
+            ? teamCorrections.filter((corr) => corr.batchId === batchId).length
+            : 1;
+
+    const formatTime = (timeStr?: string | null) => {
         if (!timeStr) return "N/A";
         return new Date(timeStr).toLocaleTimeString("en-US", {
             hour: "2-digit",
@@ -161,19 +231,76 @@ export default function TeamCorrectionRequests() {
                         Review and approve attendance correction requests
                     </p>
                 </div>
-                <Select value={statusFilter} onValueChange={setStatusFilter}>
-                    <SelectTrigger
-                        className="w-40"
-                        data-testid="select-status-filter">
-                        <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                        <SelectItem value="all">All</SelectItem>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="approved">Approved</SelectItem>
-                        <SelectItem value="rejected">Rejected</SelectItem>
-                    </SelectContent>
-                </Select>
+                <div className="flex flex-wrap items-center gap-2">
+                    {selectableIds.length > 0 && (
+                        <>
+                            <Checkbox
+                                id="select-all-corrections"
+                                checked={
+                                    selectedPending.length ===
+                                    selectableIds.length
+                                }
+                                onCheckedChange={(checked) =>
+                                    setSelectedIds(
+                                        checked ? selectableIds : []
+                                    )
+                                }
+                                data-testid="checkbox-select-all"
+                            />
+                            <label
+                                htmlFor="select-all-corrections"
+                                className="text-sm mr-2">
+                                {selectedPending.length > 0
+                                    ? `${selectedPending.length} selected`
+                                    : "Select all"}
+                            </label>
+                            <Button
+                                size="sm"
+                                onClick={() =>
+                                    bulkReview.mutate({
+                                        ids: selectedPending,
+                                        action: "approve",
+                                    })
+                                }
+                                disabled={
+                                    selectedPending.length === 0 || isReviewing
+                                }
+                                data-testid="button-bulk-approve">
+                                <Check className="h-4 w-4 mr-2" />
+                                Approve Selected
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() =>
+                                    bulkReview.mutate({
+                                        ids: selectedPending,
+                                        action: "reject",
+                                    })
+                                }
+                                disabled={
+                                    selectedPending.length === 0 || isReviewing
+                                }
+                                data-testid="button-bulk-reject">
+                                <X className="h-4 w-4 mr-2" />
+                                Reject Selected
+                            </Button>
+                        </>
+                    )}
+                    <Select value={statusFilter} onValueChange={setStatusFilter}>
+                        <SelectTrigger
+                            className="w-40"
+                            data-testid="select-status-filter">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All</SelectItem>
+                            <SelectItem value="pending">Pending</SelectItem>
+                            <SelectItem value="approved">Approved</SelectItem>
+                            <SelectItem value="rejected">Rejected</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
             </div>
 
             <div className="grid gap-4">
@@ -190,8 +317,23 @@ export default function TeamCorrectionRequests() {
                                 <div className="flex flex-wrap items-start justify-between gap-4">
                                     <div className="flex-1 min-w-0">
                                         <CardTitle className="text-lg flex items-center gap-2">
+                                            {request.status === "pending" && (
+                                                <Checkbox
+                                                    checked={selectedIds.includes(
+                                                        request.id
+                                                    )}
+                                                    onCheckedChange={(checked) =>
+                                                        toggleSelected(
+                                                            request.id,
+                                                            checked === true
+                                                        )
+                                                    }
+                                                    data-testid={`checkbox-correction-${request.id}`}
+                                                />
+                                            )}
                                             <User className="h-5 w-5" />
-                                            {member?.displayName ||
+                                            {request.userName ||
+                                                member?.displayName ||
                                                 "Unknown Employee"}
                                         </CardTitle>
                                         <CardDescription className="mt-2">
@@ -200,44 +342,39 @@ export default function TeamCorrectionRequests() {
                                                     <Clock className="h-4 w-4" />
                                                     <span>
                                                         {new Date(
-                                                            request.requestedDate
+                                                            `${request.date}T00:00:00`
                                                         ).toLocaleDateString()}
                                                     </span>
+                                                    {batchSize(request.batchId) >
+                                                        1 && (
+                                                        <Badge variant="outline">
+                                                            {batchSize(
+                                                                request.batchId
+                                                            )}
+                                                            -day request
+                                                        </Badge>
+                                                    )}
                                                 </div>
-                                                {(request.originalClockIn ||
-                                                    request.correctedClockIn) && (
+                                                {request.requestedCheckIn && (
                                                     <div className="flex items-center gap-2 text-sm">
                                                         <span className="font-medium">
                                                             Clock In:
                                                         </span>
-                                                        <span className="text-destructive line-through">
-                                                            {formatTime(
-                                                                request.originalClockIn
-                                                            )}
-                                                        </span>
-                                                        <span>→</span>
                                                         <span className="text-green-600 font-medium">
                                                             {formatTime(
-                                                                request.correctedClockIn
+                                                                request.requestedCheckIn
                                                             )}
                                                         </span>
                                                     </div>
                                                 )}
-                                                {(request.originalClockOut ||
-                                                    request.correctedClockOut) && (
+                                                {request.requestedCheckOut && (
                                                     <div className="flex items-center gap-2 text-sm">
                                                         <span className="font-medium">
                                                             Clock Out:
                                                         </span>
-                                                        <span className="text-destructive line-through">
-                                                            {formatTime(
-                                                                request.originalClockOut
-                                                            )}
-                                                        </span>
-                                                        <span>→</span>
                                                         <span className="text-green-600 font-medium">
                                                             {formatTime(
-                                                                request.correctedClockOut
+                                                                request.requestedCheckOut
                                                             )}
                                                         </span>
                                                     </div>
@@ -272,10 +409,7 @@ export default function TeamCorrectionRequests() {
                                                     request.id
                                                 )
                                             }
-                                            disabled={
-                                                approveCorrection.isPending ||
-                                                rejectCorrection.isPending
-                                            }
+                                            disabled={isReviewing}
                                             data-testid={`button-approve-correction-${request.id}`}>
                                             <Check className="h-4 w-4 mr-2" />
                                             Approve
@@ -288,10 +422,7 @@ export default function TeamCorrectionRequests() {
                                                     request.id
                                                 )
                                             }
-                                            disabled={
-                                                approveCorrection.isPending ||
-                                                rejectCorrection.isPending
-                                            }
+                                            disabled={isReviewing}
                                             data-testid={`button-reject-correction-${request.id}`}>
                                             <X className="h-4 w-4 mr-2" />
                                             Reject
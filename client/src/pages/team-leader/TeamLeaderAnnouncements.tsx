@@ -23,14 +23,9 @@ function AnnouncementCard({ announcement }: { announcement: GroupMessage }) {
     >({
         queryKey: [`/api/group-messages/${announcement.id}/replies`, userId],
         queryFn: async () => {
-            const headers: Record<string, string> = {};
-            if (userId) {
-                headers["x-user-id"] = userId.toString();
-            }
-
             const res = await fetch(
                 `${API_BASE_URL}/api/group-messages/${announcement.id}/replies`,
-                { headers, credentials: "include" }
+                { credentials: "include" }
             );
             if (!res.ok) throw new Error("Failed to fetch replies");
             return res.json();
@@ -7,6 +7,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
+import KioskPinCard from "@/components/KioskPinCard";
 import { format } from "date-fns";
 import type { AttendanceBadge, AttendancePolicy } from "@shared/schema";
 
@@ -173,10 +174,18 @@ export default function TeamLeaderAttendance() {
                 return <Badge variant="default">Present</Badge>;
             case "late":
                 return <Badge variant="secondary">Late</Badge>;
+            case "half_day":
+                return <Badge variant="outline">Half Day</Badge>;
+            case "short_day":
+                return <Badge variant="outline">Short Day</Badge>;
             case "absent":
                 return <Badge variant="destructive">Absent</Badge>;
             case "on_leave":
                 return <Badge variant="outline">On Leave</Badge>;
+            case "holiday":
+                return <Badge variant="outline">Holiday</Badge>;
+            case "weekly_off":
+                return <Badge variant="outline">Weekly Off</Badge>;
             default:
                 return <Badge variant="secondary">{status}</Badge>;
         }
@@ -542,6 +551,8 @@ export default function TeamLeaderAttendance() {
                         </div>
                     </CardContent>
                 </Card>
+
+                <KioskPinCard />
             </div>
         </div>
     );
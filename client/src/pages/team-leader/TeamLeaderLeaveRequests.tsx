@@ -32,7 +32,14 @@ import { z } from "zod";
 import { Plus, Calendar, Clock } from "lucide-react";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
 import { useState } from "react";
-import type { Leave } from "@shared/schema";
+import type { Leave, LeaveType } from "@shared/schema";
+
+const DEFAULT_LEAVE_TYPES = [
+    { code: "casual", name: "Casual Leave" },
+    { code: "sick", name: "Sick Leave" },
+    { code: "annual", name: "Annual Leave" },
+    { code: "emergency", name: "Emergency Leave" },
+];
 
 const leaveFormSchema = z.object({
     startDate: z.string().min(1, "Start date is required"),
@@ -51,12 +58,18 @@ export default function TeamLeaderLeaveRequests() {
         queryKey: ["/api/leaves/me"],
     });
 
+    const { data: leaveTypes = [] } = useQuery<LeaveType[]>({
+        queryKey: ["/api/leaves/types"],
+    });
+
+    const typeOptions = leaveTypes.length > 0 ? leaveTypes : DEFAULT_LEAVE_TYPES;
+
     const form = useForm<LeaveFormData>({
         resolver: zodResolver(leaveFormSchema),
         defaultValues: {
             startDate: "",
             endDate: "",
-            leaveType: "casual",
+            leaveType: "",
             reason: "",
         },
     });
@@ -77,10 +90,11 @@ export default function TeamLeaderLeaveRequests() {
             form.reset();
             setDialogOpen(false);
         },
-        onError: () => {
+        onError: (error: any) => {
             toast({
                 title: "Error",
                 description:
+                    error.message ||
                     "Failed to submit leave request. Please try again.",
                 variant: "destructive",
             });
@@ -183,18 +197,13 @@ export default function TeamLeaderLeaveRequests() {
                                                     </SelectTrigger>
                                                 </FormControl>
                                                 <SelectContent>
-                                                    <SelectItem value="casual">
-                                                        Casual Leave
-                                                    </SelectItem>
-                                                    <SelectItem value="sick">
-                                                        Sick Leave
-                                                    </SelectItem>
-                                                    <SelectItem value="annual">
-                                                        Annual Leave
-                                                    </SelectItem>
-                                                    <SelectItem value="emergency">
-                                                        Emergency Leave
-                                                    </SelectItem>
+                                                    {typeOptions.map((type) => (
+                                                        <SelectItem
+                                                            key={type.code}
+                                                            value={type.code}>
+                                                            {type.name}
+                                                        </SelectItem>
+                                                    ))}
                                                 </SelectContent>
                                             </Select>
                                             <FormMessage />
@@ -7,7 +7,8 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Check, X, Calendar, User } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Check, X, Calendar, User, ListChecks } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
@@ -22,6 +23,9 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import { useWebSocket } from "@/contexts/WebSocketContext";
+import LeaveApprovalTrail from "@/components/LeaveApprovalTrail";
+import LeaveChangeNotice from "@/components/LeaveChangeNotice";
+import type { LeaveRevision } from "@shared/schema";
 
 interface Leave {
     id: number;
@@ -33,6 +37,15 @@ interface Leave {
     status: string;
     companyId: number;
     displayName?: string;
+    isHalfDay: boolean;
+    days: number | null;
+    availableBalance: number | null;
+    awaitingApprover: string | null;
+    changeType: string | null;
+    requestedStartDate: string | null;
+    requestedEndDate: string | null;
+    changeReason: string | null;
+    history: LeaveRevision[];
 }
 
 interface TeamMember {
@@ -44,6 +57,8 @@ export default function TeamLeaveApproval() {
     const { dbUserId, companyId } = useAuth();
     const { toast } = useToast();
     const [statusFilter, setStatusFilter] = useState<string>("pending");
+    const [openTrail, setOpenTrail] = useState<number | null>(null);
+    const [remarks, setRemarks] = useState<Record<number, string>>({});
 
     const handleWebSocketMessage = useCallback(
         (data: any) => {
@@ -54,13 +69,23 @@ export default function TeamLeaveApproval() {
                 queryClient.invalidateQueries({
                     queryKey: [`/api/leaves/company/${companyId}`],
                 });
+                queryClient.invalidateQueries({
+                    queryKey: ["/api/leaves", data.data.leaveId, "approvals"],
+                });
+                if (data.data.status === "escalated") {
+                    toast({
+                        title: "Leave Approval Escalated",
+                        description: `${data.data.userName}'s leave request was not decided in time and moved to the next approver`,
+                    });
+                    return;
+                }
                 const actionBy =
                     data.data.changedBy ||
                     data.data.approvedBy ||
                     data.data.rejectedBy;
                 toast({
                     title: "Leave Status Updated",
-                    description: `${data.data.userName}'s leave status changed to ${data.data.status} by ${actionBy}`,
+                    description: `${data.data.userName}'s leave status changed to ${data.data.status.replace("_", " ")} by ${actionBy}`,
                 });
             }
         },
@@ -83,23 +108,35 @@ export default function TeamLeaveApproval() {
     const teamLeaves = allLeaves.filter((leave) =>
         teamMemberIds.includes(leave.userId)
     );
+    // Requested changes to approved leaves are listed with the pending requests
     const filteredLeaves =
         statusFilter === "all"
             ? teamLeaves
+            : statusFilter === "pending"
+            ? teamLeaves.filter(
+                  (leave) => leave.status === "pending" || leave.changeType
+              )
             : teamLeaves.filter((leave) => leave.status === statusFilter);
+    const awaitsDecision = (leave: Leave) =>
+        leave.status === "pending" || !!leave.changeType;
 
     const approveLeave = useMutation({
         mutationFn: async (leaveId: number) => {
-            return apiRequest(
+            const res = await apiRequest(
                 `${API_BASE_URL}/api/leaves/${leaveId}/approve`,
-                "PATCH"
+                "PATCH",
+                { remarks: remarks[leaveId] }
             );
+            return res.json();
         },
-        onSuccess: () => {
+        onSuccess: (data, leaveId) => {
             queryClient.invalidateQueries({
                 queryKey: [`/api/leaves/company/${companyId}`],
             });
-            toast({ title: "Success", description: "Leave request approved" });
+            queryClient.invalidateQueries({
+                queryKey: ["/api/leaves", leaveId, "approvals"],
+            });
+            toast({ title: "Success", description: data.message });
         },
         onError: (error: any) => {
             toast({
@@ -114,13 +151,17 @@ export default function TeamLeaveApproval() {
         mutationFn: async (leaveId: number) => {
             return apiRequest(
                 `${API_BASE_URL}/api/leaves/${leaveId}/reject`,
-                "PATCH"
+                "PATCH",
+                { remarks: remarks[leaveId] }
             );
         },
-        onSuccess: () => {
+        onSuccess: (_data, leaveId) => {
             queryClient.invalidateQueries({
                 queryKey: [`/api/leaves/company/${companyId}`],
             });
+            queryClient.invalidateQueries({
+                queryKey: ["/api/leaves", leaveId, "approvals"],
+            });
             toast({ title: "Success", description: "Leave request rejected" });
         },
         onError: (error: any) => {
@@ -191,6 +232,7 @@ export default function TeamLeaveApproval() {
                         <SelectItem value="pending">Pending</SelectItem>
                         <SelectItem value="approved">Approved</SelectItem>
                         <SelectItem value="rejected">Rejected</SelectItem>
+                        <SelectItem value="cancelled">Cancelled</SelectItem>
                     </SelectContent>
                 </Select>
             </div>
@@ -200,10 +242,9 @@ export default function TeamLeaveApproval() {
                     const member = teamMembers.find(
                         (m) => m.id === request.userId
                     );
-                    const days = calculateDays(
-                        request.startDate,
-                        request.endDate
-                    );
+                    const days =
+                        request.days ??
+                        calculateDays(request.startDate, request.endDate);
 
                     return (
                         <Card
@@ -239,7 +280,28 @@ export default function TeamLeaveApproval() {
                                                         Type:
                                                     </span>{" "}
                                                     {request.leaveType}
+                                                    {request.isHalfDay &&
+                                                        " (half day)"}
                                                 </div>
+                                                {request.availableBalance !==
+                                                    null && (
+                                                    <div
+                                                        className={
+                                                            request.availableBalance <
+                                                            days
+                                                                ? "text-destructive"
+                                                                : undefined
+                                                        }
+                                                        data-testid={`text-balance-${request.id}`}>
+                                                        <span className="font-medium">
+                                                            Balance:
+                                                        </span>{" "}
+                                                        {
+                                                            request.availableBalance
+                                                        }{" "}
+                                                        days available
+                                                    </div>
+                                                )}
                                             </div>
                                         </CardDescription>
                                     </div>
@@ -260,8 +322,33 @@ export default function TeamLeaveApproval() {
                                         {request.reason}
                                     </p>
                                 </div>
-                                {request.status === "pending" && (
-                                    <div className="flex gap-2">
+                                <LeaveChangeNotice leave={request} />
+                                {awaitsDecision(request) &&
+                                    request.awaitingApprover ===
+                                        "company_admin" && (
+                                        <p
+                                            className="text-sm text-muted-foreground"
+                                            data-testid={`text-awaiting-admin-${request.id}`}>
+                                            Awaiting company admin approval
+                                        </p>
+                                    )}
+                                {awaitsDecision(request) &&
+                                    request.awaitingApprover !==
+                                        "company_admin" && (
+                                    <div className="flex flex-wrap gap-2">
+                                        <Input
+                                            className="w-56 h-9"
+                                            placeholder="Remarks (optional)"
+                                            value={remarks[request.id] || ""}
+                                            onChange={(e) =>
+                                                setRemarks({
+                                                    ...remarks,
+                                                    [request.id]:
+                                                        e.target.value,
+                                                })
+                                            }
+                                            data-testid={`input-remarks-${request.id}`}
+                                        />
                                         <Button
                                             variant="default"
                                             size="sm"
@@ -292,6 +379,25 @@ export default function TeamLeaveApproval() {
                                         </Button>
                                     </div>
                                 )}
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() =>
+                                        setOpenTrail(
+                                            openTrail === request.id
+                                                ? null
+                                                : request.id
+                                        )
+                                    }
+                                    data-testid={`button-trail-${request.id}`}>
+                                    <ListChecks className="h-4 w-4 mr-2" />
+                                    {openTrail === request.id
+                                        ? "Hide approval trail"
+                                        : "Show approval trail"}
+                                </Button>
+                                {openTrail === request.id && (
+                                    <LeaveApprovalTrail leaveId={request.id} />
+                                )}
                             </CardContent>
                         </Card>
                     );
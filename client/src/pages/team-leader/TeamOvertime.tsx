@@ -0,0 +1,239 @@
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, X, Clock, User } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useState } from "react";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import type { OvertimeRequest } from "@shared/schema";
+
+type TeamOvertimeRequest = OvertimeRequest & { userName: string | null };
+
+const dayTypeLabels: Record<string, string> = {
+    working: "Working day",
+    weekend: "Weekend",
+    holiday: "Holiday",
+};
+
+const formatOvertime = (minutes: number) =>
+    `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+export default function TeamOvertime() {
+    const { toast } = useToast();
+    const [statusFilter, setStatusFilter] = useState<string>("pending");
+
+    const { data: overtime = [], isLoading } = useQuery<TeamOvertimeRequest[]>(
+        {
+            queryKey: ["/api/overtime/team"],
+        }
+    );
+
+    const filteredOvertime =
+        statusFilter === "all"
+            ? overtime
+            : overtime.filter((o) => o.status === statusFilter);
+
+    const reviewOvertime = useMutation({
+        mutationFn: async ({
+            id,
+            action,
+        }: {
+            id: number;
+            action: "approve" | "reject";
+        }) => {
+            return apiRequest(`${API_BASE_URL}/api/overtime/${id}`, "PATCH", {
+                action,
+            });
+        },
+        onSuccess: (_, { action }) => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/overtime/team"],
+            });
+            toast({
+                title: "Success",
+                description:
+                    action === "approve"
+                        ? "Overtime approved"
+                        : "Overtime rejected",
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to review overtime",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const getStatusColor = (status: string) => {
+        switch (status) {
+            case "approved":
+                return "default";
+            case "rejected":
+                return "destructive";
+            default:
+                return "secondary";
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="space-y-6">
+                <Skeleton className="h-10 w-48 mb-2" />
+                <div className="space-y-4">
+                    {[...Array(2)].map((_, i) => (
+                        <Skeleton key={i} className="h-32 w-full" />
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold">Overtime</h1>
+                    <p className="text-muted-foreground">
+                        Review overtime requested or worked by your team
+                    </p>
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger
+                        className="w-40"
+                        data-testid="select-status-filter">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All</SelectItem>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="approved">Approved</SelectItem>
+                        <SelectItem value="rejected">Rejected</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="grid gap-4">
+                {filteredOvertime.map((request) => (
+                    <Card
+                        key={request.id}
+                        data-testid={`card-overtime-${request.id}`}>
+                        <CardHeader>
+                            <div className="flex flex-wrap items-start justify-between gap-4">
+                                <div className="flex-1 min-w-0">
+                                    <CardTitle className="text-lg flex items-center gap-2">
+                                        <User className="h-5 w-5" />
+                                        {request.userName || "Unknown Employee"}
+                                    </CardTitle>
+                                    <CardDescription className="mt-2 flex flex-wrap items-center gap-2">
+                                        <Clock className="h-4 w-4" />
+                                        <span>
+                                            {new Date(
+                                                `${request.date}T00:00:00`
+                                            ).toLocaleDateString()}
+                                        </span>
+                                        <Badge variant="outline">
+                                            {dayTypeLabels[request.dayType] ||
+                                                request.dayType}{" "}
+                                            x{request.multiplier}
+                                        </Badge>
+                                        {request.plannedMinutes !== null && (
+                                            <Badge variant="outline">
+                                                Pre-approval
+                                            </Badge>
+                                        )}
+                                    </CardDescription>
+                                </div>
+                                <Badge
+                                    variant={getStatusColor(request.status)}>
+                                    {request.status}
+                                </Badge>
+                            </div>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="flex flex-wrap gap-6 text-sm">
+                                {request.plannedMinutes !== null && (
+                                    <div>
+                                        <span className="font-medium">
+                                            Planned:{" "}
+                                        </span>
+                                        {formatOvertime(request.plannedMinutes)}
+                                    </div>
+                                )}
+                                <div>
+                                    <span className="font-medium">
+                                        Worked:{" "}
+                                    </span>
+                                    {formatOvertime(request.workedMinutes)}
+                                </div>
+                            </div>
+                            {request.reason && (
+                                <p className="text-sm text-muted-foreground">
+                                    {request.reason}
+                                </p>
+                            )}
+                            {request.status === "pending" && (
+                                <div className="flex gap-2">
+                                    <Button
+                                        size="sm"
+                                        onClick={() =>
+                                            reviewOvertime.mutate({
+                                                id: request.id,
+                                                action: "approve",
+                                            })
+                                        }
+                                        disabled={reviewOvertime.isPending}
+                                        data-testid={`button-approve-overtime-${request.id}`}>
+                                        <Check className="h-4 w-4 mr-2" />
+                                        Approve
+                                    </Button>
+                                    <Button
+                                        variant="destructive"
+                                        size="sm"
+                                        onClick={() =>
+                                            reviewOvertime.mutate({
+                                                id: request.id,
+                                                action: "reject",
+                                            })
+                                        }
+                                        disabled={reviewOvertime.isPending}
+                                        data-testid={`button-reject-overtime-${request.id}`}>
+                                        <X className="h-4 w-4 mr-2" />
+                                        Reject
+                                    </Button>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            {filteredOvertime.length === 0 && (
+                <Card>
+                    <CardContent className="flex flex-col items-center justify-center py-12">
+                        <p className="text-muted-foreground">
+                            No {statusFilter !== "all" && statusFilter} overtime
+                            found
+                        </p>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
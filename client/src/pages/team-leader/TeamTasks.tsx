@@ -18,10 +18,12 @@ import {
     Play,
     Pause,
     CheckCircle2,
+    MessageSquare,
+    Columns3,
 } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import {
     Dialog,
     DialogContent,
@@ -34,6 +36,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
     Select,
     SelectContent,
@@ -43,6 +46,10 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useTaskUpdates } from "@/hooks/useTaskUpdates";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { useTaskDetails } from "@/hooks/useTaskDetails";
+import TaskDetailsModal from "@/components/TaskDetailsModal";
+import TaskBoard from "@/components/TaskBoard";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -57,6 +64,9 @@ interface Task {
     priority: string;
     status: string;
     companyId: number;
+    parentTaskId: number | null;
+    isRequired: boolean;
+    isBlocked: boolean;
 }
 
 interface TeamMember {
@@ -67,6 +77,7 @@ interface TeamMember {
 
 export default function TeamTasks() {
     const { dbUserId } = useAuth();
+    const { isOpen, details, openTask, closeTask } = useTaskDetails();
     const { toast } = useToast();
     const [isCreateOpen, setIsCreateOpen] = useState(false);
     const [isEditOpen, setIsEditOpen] = useState(false);
@@ -79,6 +90,9 @@ export default function TeamTasks() {
         priority: "medium",
         status: "pending",
     });
+    // Parent of the task being created, when it is a subtask
+    const [subtaskOf, setSubtaskOf] = useState("");
+    const [isRequired, setIsRequired] = useState(true);
     const [timerStates, setTimerStates] = useState<
         Record<number, { isRunning: boolean; elapsed: number }>
     >({});
@@ -111,73 +125,51 @@ export default function TeamTasks() {
     }, []);
 
     // Listen to WebSocket updates to handle status changes
-    useEffect(() => {
-        const ws = new WebSocket(
-            `${window.location.protocol === "https:" ? "wss:" : "ws:"}//${
-                window.location.host
-            }/ws`
-        );
-
-        ws.onopen = () => {
-            console.log("[WebSocket] Connected for task updates");
-        };
-
-        ws.onmessage = (event) => {
-            try {
-                const message = JSON.parse(event.data);
-
-                if (message.type === "task_updated") {
-                    console.log("[WebSocket] Task update received:", message);
-                    // If task was reverted to pending, clear it from completed
-                    if (message.status === "pending") {
-                        setCompletedTaskIds((prev) => {
-                            const updated = new Set(prev);
-                            updated.delete(message.taskId);
-                            // Update localStorage immediately
-                            localStorage.setItem(
-                                "completedTaskIds",
-                                JSON.stringify(Array.from(updated))
-                            );
-                            return updated;
-                        });
-                        // Also reset timer for this task
-                        setTimerStates((prev) => ({
-                            ...prev,
-                            [message.taskId]: { isRunning: false, elapsed: 0 },
-                        }));
-                        // Clear from localStorage
+    const handleTaskMessage = useCallback(
+        (message: any) => {
+            if (message.type === "task_updated") {
+                console.log("[WebSocket] Task update received:", message);
+                // If task was reverted to pending, clear it from completed
+                if (message.status === "pending") {
+                    setCompletedTaskIds((prev) => {
+                        const updated = new Set(prev);
+                        updated.delete(message.taskId);
+                        // Update localStorage immediately
                         localStorage.setItem(
-                            "taskTimers",
-                            JSON.stringify({
-                                ...JSON.parse(
-                                    localStorage.getItem("taskTimers") || "{}"
-                                ),
-                                [message.taskId]: {
-                                    isRunning: false,
-                                    elapsed: 0,
-                                },
-                            })
+                            "completedTaskIds",
+                            JSON.stringify(Array.from(updated))
                         );
-                    }
-                    // Invalidate queries to force refetch
-                    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-                    queryClient.invalidateQueries({
-                        queryKey: ["/api/dashboard/stats"],
+                        return updated;
                     });
+                    // Also reset timer for this task
+                    setTimerStates((prev) => ({
+                        ...prev,
+                        [message.taskId]: { isRunning: false, elapsed: 0 },
+                    }));
+                    // Clear from localStorage
+                    localStorage.setItem(
+                        "taskTimers",
+                        JSON.stringify({
+                            ...JSON.parse(
+                                localStorage.getItem("taskTimers") || "{}"
+                            ),
+                            [message.taskId]: {
+                                isRunning: false,
+                                elapsed: 0,
+                            },
+                        })
+                    );
                 }
-            } catch (error) {
-                console.error("[WebSocket] Error parsing message:", error);
+                // Invalidate queries to force refetch
+                queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+                queryClient.invalidateQueries({
+                    queryKey: ["/api/dashboard/stats"],
+                });
             }
-        };
-
-        ws.onerror = (error) => {
-            console.error("[WebSocket] Error:", error);
-        };
-
-        return () => {
-            ws.close();
-        };
-    }, []);
+        },
+        []
+    );
+    useWebSocket(handleTaskMessage);
 
     // Save timer state to localStorage whenever it changes
     useEffect(() => {
@@ -206,6 +198,11 @@ export default function TeamTasks() {
     const teamMemberTasks = allTasks.filter((task) =>
         teamMemberIds.includes(task.assignedTo)
     );
+    const parentOptions = allTasks.filter(
+        (task) => !task.parentTaskId && task.status !== "completed"
+    );
+    const parentTitle = (task: Task) =>
+        allTasks.find((t) => t.id === task.parentTaskId)?.title;
 
     const createTaskMutation = useMutation({
         mutationFn: async (data: any) => {
@@ -289,6 +286,8 @@ export default function TeamTasks() {
             priority: "medium",
             status: "pending",
         });
+        setSubtaskOf("");
+        setIsRequired(true);
     };
 
     const handleCreate = () => {
@@ -306,6 +305,8 @@ export default function TeamTasks() {
             deadline: taskForm.deadline
                 ? new Date(taskForm.deadline).toISOString()
                 : null,
+            parentTaskId: subtaskOf ? parseInt(subtaskOf) : null,
+            isRequired,
         });
     };
 
@@ -412,7 +413,6 @@ export default function TeamTasks() {
                 `${API_BASE_URL}/api/tasks/${taskId}/timer/complete`,
                 "POST",
                 {
-                    userId: dbUserId,
                     date: new Date().toISOString().split("T")[0],
                     duration: timer?.elapsed || 0,
                 }
@@ -554,6 +554,49 @@ export default function TeamTasks() {
                                     </SelectContent>
                                 </Select>
                             </div>
+                            <div>
+                                <Label htmlFor="subtaskOf">Subtask Of</Label>
+                                <Select
+                                    value={subtaskOf || "none"}
+                                    onValueChange={(value) =>
+                                        setSubtaskOf(
+                                            value === "none" ? "" : value
+                                        )
+                                    }>
+                                    <SelectTrigger data-testid="select-parent-task">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="none">
+                                            None (top-level task)
+                                        </SelectItem>
+                                        {parentOptions.map((task) => (
+                                            <SelectItem
+                                                key={task.id}
+                                                value={task.id.toString()}>
+                                                {task.title}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {subtaskOf && (
+                                    <div className="flex items-center gap-2 mt-2">
+                                        <Checkbox
+                                            id="isRequired"
+                                            checked={isRequired}
+                                            onCheckedChange={(checked) =>
+                                                setIsRequired(checked === true)
+                                            }
+                                            data-testid="checkbox-subtask-required"
+                                        />
+                                        <Label
+                                            htmlFor="isRequired"
+                                            className="font-normal">
+                                            Required to complete the parent task
+                                        </Label>
+                                    </div>
+                                )}
+                            </div>
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
                                     <Label htmlFor="deadline">Deadline *</Label>
@@ -616,7 +659,7 @@ export default function TeamTasks() {
             </div>
 
             <Tabs defaultValue="my-tasks" className="w-full">
-                <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsList className="grid w-full grid-cols-3 mb-4">
                     <TabsTrigger
                         value="my-tasks"
                         className="flex items-center gap-2"
@@ -631,6 +674,13 @@ export default function TeamTasks() {
                         <Users className="h-4 w-4" />
                         Team Member Tasks ({teamMemberTasks.length})
                     </TabsTrigger>
+                    <TabsTrigger
+                        value="board"
+                        className="flex items-center gap-2"
+                        data-testid="tab-board">
+                        <Columns3 className="h-4 w-4" />
+                        Board
+                    </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="my-tasks">
@@ -650,6 +700,13 @@ export default function TeamTasks() {
                                                 <CardTitle className="text-lg">
                                                     {task.title}
                                                 </CardTitle>
+                                                {task.parentTaskId && (
+                                                    <p className="text-xs text-muted-foreground mt-1">
+                                                        Subtask of{" "}
+                                                        {parentTitle(task) ||
+                                                            "another task"}
+                                                    </p>
+                                                )}
                                                 {task.description && (
                                                     <p className="text-sm text-muted-foreground mt-2">
                                                         {task.description}
@@ -682,6 +739,13 @@ export default function TeamTasks() {
                                                         " "
                                                     )}
                                                 </Badge>
+                                                {task.isBlocked && (
+                                                    <Badge
+                                                        variant="destructive"
+                                                        data-testid={`badge-task-blocked-${task.id}`}>
+                                                        blocked
+                                                    </Badge>
+                                                )}
                                             </div>
                                         </div>
                                     </CardHeader>
@@ -710,6 +774,9 @@ export default function TeamTasks() {
                                                                         task.id
                                                                     )
                                                                 }
+                                                                disabled={
+                                                                    task.isBlocked
+                                                                }
                                                                 data-testid={`button-start-timer-${task.id}`}>
                                                                 <Play className="h-4 w-4 mr-2" />
                                                                 Start
@@ -736,7 +803,8 @@ export default function TeamTasks() {
                                                                 )
                                                             }
                                                             disabled={
-                                                                updateTaskMutation.isPending
+                                                                updateTaskMutation.isPending ||
+                                                                task.isBlocked
                                                             }
                                                             data-testid={`button-complete-task-${task.id}`}>
                                                             <CheckCircle2 className="h-4 w-4 mr-2" />
@@ -745,6 +813,16 @@ export default function TeamTasks() {
                                                     </div>
                                                 </div>
                                             )}
+                                            <div>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => openTask(task.id)}
+                                                    data-testid={`button-task-discussion-${task.id}`}>
+                                                    <MessageSquare className="h-4 w-4 mr-2" />
+                                                    Discussion
+                                                </Button>
+                                            </div>
                                         </div>
                                     </CardContent>
                                 </Card>
@@ -782,6 +860,13 @@ export default function TeamTasks() {
                                                 <CardTitle className="text-lg">
                                                     {task.title}
                                                 </CardTitle>
+                                                {task.parentTaskId && (
+                                                    <p className="text-xs text-muted-foreground mt-1">
+                                                        Subtask of{" "}
+                                                        {parentTitle(task) ||
+                                                            "another task"}
+                                                    </p>
+                                                )}
                                                 {task.description && (
                                                     <p className="text-sm text-muted-foreground mt-2">
                                                         {task.description}
@@ -822,6 +907,13 @@ export default function TeamTasks() {
                                                         " "
                                                     )}
                                                 </Badge>
+                                                {task.isBlocked && (
+                                                    <Badge
+                                                        variant="destructive"
+                                                        data-testid={`badge-task-blocked-${task.id}`}>
+                                                        blocked
+                                                    </Badge>
+                                                )}
                                             </div>
                                         </div>
                                     </CardHeader>
@@ -835,6 +927,14 @@ export default function TeamTasks() {
                                                 <Edit className="h-4 w-4 mr-2" />
                                                 Edit
                                             </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => openTask(task.id)}
+                                                data-testid={`button-task-discussion-${task.id}`}>
+                                                <MessageSquare className="h-4 w-4 mr-2" />
+                                                Discussion
+                                            </Button>
                                         </div>
                                     </CardContent>
                                 </Card>
@@ -855,6 +955,19 @@ export default function TeamTasks() {
                         </Card>
                     )}
                 </TabsContent>
+
+                <TabsContent value="board">
+                    <TaskBoard
+                        tasks={[...leaderTasks, ...teamMemberTasks]}
+                        assigneeName={(userId) =>
+                            userId === dbUserId
+                                ? "You"
+                                : teamMembers.find((m) => m.id === userId)
+                                      ?.displayName
+                        }
+                        onOpenTask={openTask}
+                    />
+                </TabsContent>
             </Tabs>
 
             <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
@@ -974,6 +1087,20 @@ export default function TeamTasks() {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            <TaskDetailsModal
+                open={isOpen}
+                onOpenChange={(open) => !open && closeTask()}
+                task={details?.task ?? null}
+                timeLogs={details?.timeLogs ?? null}
+                returnCount={details?.returnCount || 0}
+                reworkHistory={details?.reworkHistory}
+                progress={details?.progress}
+                checklist={details?.checklist}
+                subtasks={details?.subtasks}
+                parentTask={details?.parentTask}
+                dependencies={details?.dependencies}
+            />
         </div>
     );
 }
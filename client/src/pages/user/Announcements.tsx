@@ -101,14 +101,9 @@ function AnnouncementCard({ announcement }: { announcement: GroupMessage }) {
     >({
         queryKey: [`/api/group-messages/${announcement.id}/replies`, userId],
         queryFn: async () => {
-            const headers: Record<string, string> = {};
-            if (userId) {
-                headers["x-user-id"] = userId.toString();
-            }
-
             const res = await fetch(
                 `${API_BASE_URL}/api/group-messages/${announcement.id}/replies`,
-                { headers, credentials: "include" }
+                { credentials: "include" }
             );
             if (!res.ok) throw new Error("Failed to fetch replies");
             return res.json();
@@ -271,15 +266,7 @@ export default function Announcements() {
     } = useQuery<GroupMessage[]>({
         queryKey: ["/api/group-messages"],
         queryFn: async () => {
-            const user = localStorage.getItem("user");
-            const userId = user ? JSON.parse(user).id : null;
-            const headers: Record<string, string> = {};
-            if (userId) {
-                headers["x-user-id"] = userId.toString();
-            }
-
             const res = await fetch(`${API_BASE_URL}/api/group-messages`, {
-                headers,
                 credentials: "include",
             });
             if (!res.ok) throw new Error("Failed to fetch announcements");
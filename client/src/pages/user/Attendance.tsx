@@ -1,21 +1,58 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Clock, LogIn, LogOut, Calendar, Award, FileText, Flame, Target, Zap, Star } from "lucide-react";
+import { Clock, LogIn, LogOut, Calendar, Award, FileText, Flame, Target, Zap, Star, Smartphone, Coffee, Play } from "lucide-react";
 import { format } from "date-fns";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
-import type { AttendanceRecord, Reward, AttendanceBadge, AttendanceStreak, AttendancePolicy } from "@shared/schema";
+import { getDeviceId, getDeviceLabel } from "@/lib/device";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import KioskPinCard from "@/components/KioskPinCard";
+import type {
+  AttendanceRecord,
+  AttendanceBreak,
+  AttendancePunch,
+  BreakType,
+  Reward,
+  AttendanceBadge,
+  AttendanceStreak,
+  AttendancePolicy,
+  UserDevice,
+} from "@shared/schema";
+
+const breakTypeLabels: Record<BreakType, string> = {
+  lunch: "Lunch",
+  personal: "Personal",
+  meeting: "Meeting",
+};
+
+// Resolves to "lat,lng", or null when the browser can't or won't share a location.
+// The server decides whether a missing location is acceptable under the company policy.
+function getCurrentLocation(): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(`${position.coords.latitude},${position.coords.longitude}`),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+}
 
 export default function Attendance() {
   const { toast } = useToast();
   const [currentTime, setCurrentTime] = useState(new Date());
   const [leaveDialogOpen, setLeaveDialogOpen] = useState(false);
   const [leaveReason, setLeaveReason] = useState("");
+  const [breakType, setBreakType] = useState<BreakType>("lunch");
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -24,7 +61,14 @@ export default function Attendance() {
     return () => clearInterval(timer);
   }, []);
 
-  const { data: todayAttendance, isLoading } = useQuery<AttendanceRecord | null>({
+  const { data: todayAttendance, isLoading } = useQuery<
+    | (AttendanceRecord & {
+        sessions: AttendancePunch[];
+        breaks: AttendanceBreak[];
+        breakOverageMinutes: number;
+      })
+    | null
+  >({
     queryKey: ["/api/attendance/today"],
   });
 
@@ -55,11 +99,58 @@ export default function Attendance() {
     queryKey: ["/api/attendance/policy"],
   });
 
+  const deviceId = getDeviceId();
+  const deviceQueryKey = [`/api/attendance/device?deviceId=${encodeURIComponent(deviceId)}`];
+
+  const { data: deviceStatus } = useQuery<{
+    requireDeviceBinding: boolean;
+    activeDevice: UserDevice | null;
+    pendingDevice: UserDevice | null;
+    isCurrentDevice: boolean;
+  }>({
+    queryKey: deviceQueryKey,
+  });
+
+  useWebSocket(
+    useCallback((message: any) => {
+      if (message.type === "DEVICE_BINDING_UPDATED") {
+        queryClient.invalidateQueries({ queryKey: deviceQueryKey });
+      } else if (message.type === "LATE_PENALTY_NOTICE") {
+        toast({ title: message.data.title, description: message.data.body });
+      }
+    }, [deviceQueryKey[0]])
+  );
+
+  const registerDeviceMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`${API_BASE_URL}/api/attendance/device`, "POST", {
+        deviceId,
+        deviceLabel: getDeviceLabel(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deviceQueryKey });
+      toast({
+        title: deviceStatus?.activeDevice ? "Device Change Requested" : "Device Registered",
+        description: deviceStatus?.activeDevice
+          ? "Your admin needs to approve this device before you can use it for attendance."
+          : "This device can now be used to mark your attendance.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Device Registration Failed",
+        description: error.message || "Unable to register this device. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const checkInMutation = useMutation({
     mutationFn: async () => {
       return await apiRequest(`${API_BASE_URL}/api/attendance/check-in`, "POST", {
-        gpsLocation: null,
-        deviceId: navigator.userAgent,
+        gpsLocation: await getCurrentLocation(),
+        deviceId,
       });
     },
     onSuccess: () => {
@@ -82,7 +173,10 @@ export default function Attendance() {
 
   const checkOutMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest(`${API_BASE_URL}/api/attendance/check-out`, "POST");
+      return await apiRequest(`${API_BASE_URL}/api/attendance/check-out`, "POST", {
+        gpsLocation: await getCurrentLocation(),
+        deviceId,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/attendance/today"] });
@@ -100,6 +194,46 @@ export default function Attendance() {
     },
   });
 
+  const startBreakMutation = useMutation({
+    mutationFn: async (type: BreakType) => {
+      return await apiRequest(`${API_BASE_URL}/api/attendance/break/start`, "POST", { breakType: type });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance/today"] });
+      toast({
+        title: "Break Started",
+        description: "Break time is not counted as work time.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Unable to Start Break",
+        description: error.message || "Unable to start break. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const endBreakMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`${API_BASE_URL}/api/attendance/break/end`, "POST");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance/today"] });
+      toast({
+        title: "Break Ended",
+        description: "Welcome back!",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Unable to End Break",
+        description: error.message || "Unable to end break. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const markLeaveMutation = useMutation({
     mutationFn: async (reason: string) => {
       return await apiRequest(`${API_BASE_URL}/api/attendance/mark-leave`, "POST", { reason });
@@ -139,7 +273,12 @@ export default function Attendance() {
       present: { variant: "default", label: "Present" },
       absent: { variant: "destructive", label: "Absent" },
       late: { variant: "secondary", label: "Late" },
+      half_day: { variant: "outline", label: "Half Day" },
+      short_day: { variant: "outline", label: "Short Day" },
       leave: { variant: "outline", label: "On Leave" },
+      on_leave: { variant: "outline", label: "On Leave" },
+      holiday: { variant: "outline", label: "Holiday" },
+      weekly_off: { variant: "outline", label: "Weekly Off" },
     };
     const config = variants[status] || variants.absent;
     return <Badge variant={config.variant} data-testid={`badge-status-${status}`}>{config.label}</Badge>;
@@ -154,6 +293,10 @@ export default function Attendance() {
 
   const totalRewardPoints = rewards?.reduce((sum, r) => sum + r.points, 0) || 0;
 
+  const breaks = todayAttendance?.breaks ?? [];
+  const openBreak = breaks.find((b) => !b.endedAt);
+  const isWorking = !!todayAttendance?.checkIn && !todayAttendance?.checkOut;
+
   return (
     <div className="flex flex-col gap-6 p-6">
       <div>
@@ -201,12 +344,100 @@ export default function Attendance() {
                       : "Not checked out"}
                   </p>
                 </div>
-                <div className="col-span-2">
-                  <p className="text-sm text-muted-foreground">Duration</p>
+                <div>
+                  <p className="text-sm text-muted-foreground">Net Duration</p>
                   <p className="text-lg font-medium" data-testid="text-duration">
                     {formatDuration(todayAttendance.workDuration)}
                   </p>
+                  {todayAttendance.grossDuration !== null && (
+                    <p className="text-xs text-muted-foreground" data-testid="text-gross-duration">
+                      {formatDuration(todayAttendance.grossDuration)} gross
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Breaks</p>
+                  <p className="text-lg font-medium" data-testid="text-break-duration">
+                    {formatDuration(todayAttendance.breakMinutes)}
+                  </p>
+                  {todayAttendance.breakOverageMinutes > 0 && (
+                    <p className="text-xs text-red-600" data-testid="text-break-overage">
+                      {todayAttendance.breakOverageMinutes} min over the break allowance
+                    </p>
+                  )}
                 </div>
+                {todayAttendance.sessions.length > 1 && (
+                  <ul className="col-span-2 space-y-1 text-sm" data-testid="list-sessions">
+                    {todayAttendance.sessions.map((session, i) => (
+                      <li key={session.id} className="flex justify-between text-muted-foreground">
+                        <span>Session {i + 1}</span>
+                        <span>
+                          {format(new Date(session.checkIn), "hh:mm a")} -{" "}
+                          {session.checkOut ? format(new Date(session.checkOut), "hh:mm a") : "ongoing"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {breaks.length > 0 && (
+                  <ul className="col-span-2 space-y-1 text-sm" data-testid="list-breaks">
+                    {breaks.map((b) => (
+                      <li key={b.id} className="flex justify-between text-muted-foreground">
+                        <span>{breakTypeLabels[b.breakType as BreakType] || b.breakType}</span>
+                        <span>
+                          {format(new Date(b.startedAt), "hh:mm a")} -{" "}
+                          {b.endedAt ? format(new Date(b.endedAt), "hh:mm a") : "ongoing"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {isWorking && (
+              <div className="flex items-center gap-2 pt-4 border-t" data-testid="break-controls">
+                {openBreak ? (
+                  <>
+                    <p className="flex-1 text-sm text-muted-foreground" data-testid="text-on-break">
+                      On {breakTypeLabels[openBreak.breakType as BreakType]?.toLowerCase() || openBreak.breakType} break
+                      since {format(new Date(openBreak.startedAt), "hh:mm a")}
+                    </p>
+                    <Button
+                      onClick={() => endBreakMutation.mutate()}
+                      disabled={endBreakMutation.isPending}
+                      variant="outline"
+                      data-testid="button-end-break"
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      End Break
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Select value={breakType} onValueChange={(value) => setBreakType(value as BreakType)}>
+                      <SelectTrigger className="flex-1" data-testid="select-break-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(breakTypeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => startBreakMutation.mutate(breakType)}
+                      disabled={startBreakMutation.isPending}
+                      variant="outline"
+                      data-testid="button-start-break"
+                    >
+                      <Coffee className="w-4 h-4 mr-2" />
+                      Start Break
+                    </Button>
+                  </>
+                )}
               </div>
             )}
 
@@ -247,11 +478,16 @@ export default function Attendance() {
                 </Button>
               )}
               {todayAttendance?.checkOut && (
-                <div className="flex-1 p-3 text-center border rounded-md bg-muted">
-                  <p className="text-sm text-muted-foreground">
-                    You have completed your attendance for today
-                  </p>
-                </div>
+                <Button
+                  onClick={() => checkInMutation.mutate()}
+                  disabled={checkInMutation.isPending}
+                  variant="outline"
+                  className="flex-1"
+                  data-testid="button-checkin-again"
+                >
+                  <LogIn className="w-4 h-4 mr-2" />
+                  Check In Again
+                </Button>
               )}
               {todayAttendance?.status === 'leave' && (
                 <div className="flex-1 p-3 text-center border rounded-md bg-muted">
@@ -261,6 +497,42 @@ export default function Attendance() {
                 </div>
               )}
             </div>
+
+            {deviceStatus?.requireDeviceBinding && !deviceStatus.isCurrentDevice && (
+              <div className="flex items-center gap-3 p-3 border rounded-md" data-testid="device-binding-status">
+                <Smartphone className="w-5 h-5 text-muted-foreground shrink-0" />
+                <div className="flex-1">
+                  {deviceStatus.pendingDevice?.deviceId === deviceId ? (
+                    <p className="text-sm text-muted-foreground">
+                      Your request to use this device is awaiting admin approval.
+                    </p>
+                  ) : deviceStatus.activeDevice ? (
+                    <p className="text-sm text-muted-foreground">
+                      Attendance can only be marked from your registered device
+                      {deviceStatus.activeDevice.deviceLabel
+                        ? ` (${deviceStatus.activeDevice.deviceLabel})`
+                        : ""}
+                      .
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Register this device to start marking attendance.
+                    </p>
+                  )}
+                </div>
+                {deviceStatus.pendingDevice?.deviceId !== deviceId && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => registerDeviceMutation.mutate()}
+                    disabled={registerDeviceMutation.isPending || !!deviceStatus.pendingDevice}
+                    data-testid="button-register-device"
+                  >
+                    {deviceStatus.activeDevice ? "Request Device Change" : "Register Device"}
+                  </Button>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -393,9 +665,31 @@ export default function Attendance() {
                   {policyData?.policy?.fullDayHours || 8} hours
                 </Badge>
               </div>
+              {policyData?.policy?.lateMarksPerDeduction && (
+                <div className="flex justify-between items-center p-2 border rounded-md">
+                  <span className="text-sm text-muted-foreground">Late Mark Deduction</span>
+                  <Badge variant="outline">
+                    {policyData.policy.lateMarkDeductionDays} day / {policyData.policy.lateMarksPerDeduction} late marks
+                  </Badge>
+                </div>
+              )}
+              {policyData?.policy?.severeLateMinutes && (
+                <div className="flex justify-between items-center p-2 border rounded-md">
+                  <span className="text-sm text-muted-foreground">Half Day If Late By</span>
+                  <Badge variant="outline">{policyData.policy.severeLateMinutes} min</Badge>
+                </div>
+              )}
+              {policyData?.policy?.maxBreakMinutes && (
+                <div className="flex justify-between items-center p-2 border rounded-md">
+                  <span className="text-sm text-muted-foreground">Break Allowance</span>
+                  <Badge variant="outline">{policyData.policy.maxBreakMinutes} min / day</Badge>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
+
+        <KioskPinCard />
       </div>
 
       <Dialog open={leaveDialogOpen} onOpenChange={setLeaveDialogOpen}>
@@ -1,8 +1,9 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
 import {
     Select,
     SelectContent,
@@ -26,7 +27,7 @@ import {
     isSameDay,
     parseISO,
 } from "date-fns";
-import type { AttendanceRecord } from "@shared/schema";
+import type { AttendanceRecord, HolidayOptIn } from "@shared/schema";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
 
 const MONTHS = [
@@ -50,9 +51,11 @@ interface Holiday {
     name: string;
     date: string;
     description: string | null;
+    isOptional: boolean;
 }
 
 export default function AttendanceHistory() {
+    const { toast } = useToast();
     const currentDate = new Date();
     const [selectedMonth, setSelectedMonth] = useState(currentDate.getMonth());
     const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear());
@@ -84,15 +87,29 @@ export default function AttendanceHistory() {
 
     const { data: monthlySummary } = useQuery<{
         totalDays: number;
-        present: number;
-        absent: number;
-        late: number;
-        leave: number;
-        halfDay: number;
+        presentDays: number;
+        lateDays: number;
+        halfDays: number;
+        shortDays: number;
+        absentDays: number;
+        leaveDays: number;
+        holidayDays: number;
+        weeklyOffDays: number;
+        totalHours: number;
+        grossHours: number;
+        breakHours: number;
+        overtimeHours: number;
+        latePenalty: {
+            lateMarks: number;
+            severeLateDays: string[];
+            deductionDays: number;
+            marksToNextDeduction: number | null;
+        } | null;
     }>({
         queryKey: [
-            "/api/attendance/monthly-summary",
-            { month: selectedMonth + 1, year: selectedYear },
+            `/api/attendance/monthly-summary?month=${
+                selectedMonth + 1
+            }&year=${selectedYear}`,
         ],
     });
 
@@ -107,9 +124,53 @@ export default function AttendanceHistory() {
         return attendanceRecords.find((record) => record.date === dateStr);
     };
 
+    const { data: holidayOptIns = [] } = useQuery<HolidayOptIn[]>({
+        queryKey: ["/api/holidays/opt-ins"],
+    });
+
+    const isOptedIn = (holidayId: number) =>
+        holidayOptIns.some((optIn) => optIn.holidayId === holidayId);
+
+    const holidayOptInMutation = useMutation({
+        mutationFn: async ({
+            holidayId,
+            optIn,
+        }: {
+            holidayId: number;
+            optIn: boolean;
+        }) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/holidays/${holidayId}/opt-in`,
+                optIn ? "POST" : "DELETE"
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/holidays/opt-ins"],
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Could not update holiday",
+                description: error.message || "Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const todayStr = format(new Date(), "yyyy-MM-dd");
+    const upcomingOptionalHolidays = holidays
+        .filter((holiday) => holiday.isOptional && holiday.date >= todayStr)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    // Optional holidays are only days off for employees who opted in
     const getHolidayForDate = (date: Date) => {
         const dateStr = format(date, "yyyy-MM-dd");
-        return holidays.find((holiday) => holiday.date === dateStr);
+        return holidays.find(
+            (holiday) =>
+                holiday.date === dateStr &&
+                (!holiday.isOptional || isOptedIn(holiday.id))
+        );
     };
 
     const filteredRecords =
@@ -128,8 +189,15 @@ export default function AttendanceHistory() {
             absent: "bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-200 border-red-300 dark:border-red-700",
             late: "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 border-yellow-300 dark:border-yellow-700",
             leave: "bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200 border-blue-300 dark:border-blue-700",
-            "half-day":
+            half_day:
                 "bg-purple-100 dark:bg-purple-900/20 text-purple-800 dark:text-purple-200 border-purple-300 dark:border-purple-700",
+            short_day:
+                "bg-pink-100 dark:bg-pink-900/20 text-pink-800 dark:text-pink-200 border-pink-300 dark:border-pink-700",
+            on_leave:
+                "bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200 border-blue-300 dark:border-blue-700",
+            holiday:
+                "bg-orange-100 dark:bg-orange-900/20 text-orange-800 dark:text-orange-200 border-orange-300 dark:border-orange-700",
+            weekly_off: "bg-muted text-muted-foreground border-border",
         };
         return colors[status] || "bg-muted";
     };
@@ -140,7 +208,11 @@ export default function AttendanceHistory() {
             absent: { variant: "destructive", label: "Absent" },
             late: { variant: "secondary", label: "Late" },
             leave: { variant: "outline", label: "Leave" },
-            "half-day": { variant: "outline", label: "Half Day" },
+            half_day: { variant: "outline", label: "Half Day" },
+            short_day: { variant: "outline", label: "Short Day" },
+            on_leave: { variant: "outline", label: "On Leave" },
+            holiday: { variant: "outline", label: "Holiday" },
+            weekly_off: { variant: "outline", label: "Weekly Off" },
         };
         const config = variants[status] || {
             variant: "outline",
@@ -257,7 +329,7 @@ export default function AttendanceHistory() {
             </div>
 
             {monthlySummary && (
-                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
                     <Card>
                         <CardContent className="p-4">
                             <div className="text-sm text-muted-foreground">
@@ -278,7 +350,7 @@ export default function AttendanceHistory() {
                             <div
                                 className="text-2xl font-semibold text-green-600"
                                 data-testid="text-present">
-                                {monthlySummary.present}
+                                {monthlySummary.presentDays}
                             </div>
                         </CardContent>
                     </Card>
@@ -290,7 +362,7 @@ export default function AttendanceHistory() {
                             <div
                                 className="text-2xl font-semibold text-red-600"
                                 data-testid="text-absent">
-                                {monthlySummary.absent}
+                                {monthlySummary.absentDays}
                             </div>
                         </CardContent>
                     </Card>
@@ -302,7 +374,7 @@ export default function AttendanceHistory() {
                             <div
                                 className="text-2xl font-semibold text-yellow-600"
                                 data-testid="text-late">
-                                {monthlySummary.late}
+                                {monthlySummary.lateDays}
                             </div>
                         </CardContent>
                     </Card>
@@ -314,7 +386,7 @@ export default function AttendanceHistory() {
                             <div
                                 className="text-2xl font-semibold text-blue-600"
                                 data-testid="text-leave">
-                                {monthlySummary.leave}
+                                {monthlySummary.leaveDays}
                             </div>
                         </CardContent>
                     </Card>
@@ -326,13 +398,161 @@ export default function AttendanceHistory() {
                             <div
                                 className="text-2xl font-semibold text-purple-600"
                                 data-testid="text-halfday">
-                                {monthlySummary.halfDay}
+                                {monthlySummary.halfDays}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-4">
+                            <div className="text-sm text-muted-foreground">
+                                Short Day
+                            </div>
+                            <div
+                                className="text-2xl font-semibold text-pink-600"
+                                data-testid="text-shortday">
+                                {monthlySummary.shortDays}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-4">
+                            <div className="text-sm text-muted-foreground">
+                                Days Off
+                            </div>
+                            <div
+                                className="text-2xl font-semibold"
+                                data-testid="text-days-off">
+                                {monthlySummary.holidayDays +
+                                    monthlySummary.weeklyOffDays}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                                {monthlySummary.holidayDays} holiday,{" "}
+                                {monthlySummary.weeklyOffDays} weekly off
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+
+            {monthlySummary && (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <Card>
+                        <CardContent className="p-4">
+                            <div className="text-sm text-muted-foreground">
+                                Net Working Hours
+                            </div>
+                            <div
+                                className="text-2xl font-semibold"
+                                data-testid="text-net-hours">
+                                {monthlySummary.totalHours}h
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-4">
+                            <div className="text-sm text-muted-foreground">
+                                Gross Hours
+                            </div>
+                            <div
+                                className="text-2xl font-semibold"
+                                data-testid="text-gross-hours">
+                                {monthlySummary.grossHours}h
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-4">
+                            <div className="text-sm text-muted-foreground">
+                                Break Hours
+                            </div>
+                            <div
+                                className="text-2xl font-semibold"
+                                data-testid="text-break-hours">
+                                {monthlySummary.breakHours}h
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-4">
+                            <div className="text-sm text-muted-foreground">
+                                Approved Overtime
+                            </div>
+                            <div
+                                className="text-2xl font-semibold"
+                                data-testid="text-overtime-hours">
+                                {monthlySummary.overtimeHours}h
                             </div>
                         </CardContent>
                     </Card>
                 </div>
             )}
 
+            {monthlySummary?.latePenalty &&
+                (monthlySummary.latePenalty.deductionDays > 0 ||
+                    monthlySummary.latePenalty.marksToNextDeduction !==
+                        null) && (
+                    <Card data-testid="card-late-penalty">
+                        <CardContent className="p-4 flex flex-wrap gap-8">
+                            <div>
+                                <div className="text-sm text-muted-foreground">
+                                    Late Marks
+                                </div>
+                                <div
+                                    className="text-2xl font-semibold text-yellow-600"
+                                    data-testid="text-late-marks">
+                                    {monthlySummary.latePenalty.lateMarks}
+                                </div>
+                            </div>
+                            <div>
+                                <div className="text-sm text-muted-foreground">
+                                    Late Deduction
+                                </div>
+                                <div
+                                    className="text-2xl font-semibold text-red-600"
+                                    data-testid="text-late-deduction">
+                                    {monthlySummary.latePenalty.deductionDays}{" "}
+                                    days
+                                </div>
+                            </div>
+                            {monthlySummary.latePenalty.marksToNextDeduction !==
+                                null && (
+                                <div>
+                                    <div className="text-sm text-muted-foreground">
+                                        Until Next Deduction
+                                    </div>
+                                    <div
+                                        className="text-2xl font-semibold"
+                                        data-testid="text-marks-to-deduction">
+                                        {
+                                            monthlySummary.latePenalty
+                                                .marksToNextDeduction
+                                        }{" "}
+                                        late marks
+                                    </div>
+                                </div>
+                            )}
+                            {monthlySummary.latePenalty.severeLateDays.length >
+                                0 && (
+                                <div>
+                                    <div className="text-sm text-muted-foreground">
+                                        Half Days for Late Arrival
+                                    </div>
+                                    <div className="text-sm font-medium pt-2">
+                                        {monthlySummary.latePenalty.severeLateDays
+                                            .map((date) =>
+                                                format(
+                                                    parseISO(date),
+                                                    "MMM dd"
+                                                )
+                                            )
+                                            .join(", ")}
+                                    </div>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+
             <div className="flex items-center gap-4 flex-wrap">
                 <div className="text-sm font-medium">Filter by Status:</div>
                 <div className="flex gap-2 flex-wrap">
@@ -361,6 +581,24 @@ export default function AttendanceHistory() {
                         data-testid="filter-late">
                         Late
                     </Button>
+                    <Button
+                        size="sm"
+                        variant={
+                            statusFilter === "half_day" ? "default" : "outline"
+                        }
+                        onClick={() => setStatusFilter("half_day")}
+                        data-testid="filter-half-day">
+                        Half Day
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant={
+                            statusFilter === "short_day" ? "default" : "outline"
+                        }
+                        onClick={() => setStatusFilter("short_day")}
+                        data-testid="filter-short-day">
+                        Short Day
+                    </Button>
                     <Button
                         size="sm"
                         variant={
@@ -382,6 +620,53 @@ export default function AttendanceHistory() {
                 </div>
             </div>
 
+            {upcomingOptionalHolidays.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Optional Holidays</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {upcomingOptionalHolidays.map((holiday) => (
+                            <div
+                                key={holiday.id}
+                                className="flex items-center justify-between gap-4 flex-wrap border rounded-md p-3"
+                                data-testid={`optional-holiday-${holiday.id}`}>
+                                <div>
+                                    <div className="font-medium">
+                                        {holiday.name}
+                                    </div>
+                                    <div className="text-sm text-muted-foreground">
+                                        {format(
+                                            parseISO(holiday.date),
+                                            "EEEE, MMM d, yyyy"
+                                        )}
+                                    </div>
+                                </div>
+                                <Button
+                                    size="sm"
+                                    variant={
+                                        isOptedIn(holiday.id)
+                                            ? "outline"
+                                            : "default"
+                                    }
+                                    disabled={holidayOptInMutation.isPending}
+                                    onClick={() =>
+                                        holidayOptInMutation.mutate({
+                                            holidayId: holiday.id,
+                                            optIn: !isOptedIn(holiday.id),
+                                        })
+                                    }
+                                    data-testid={`button-opt-in-${holiday.id}`}>
+                                    {isOptedIn(holiday.id)
+                                        ? "Opt Out"
+                                        : "Opt In"}
+                                </Button>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
             <Card>
                 <CardHeader>
                     <CardTitle className="flex items-center gap-2">
@@ -401,6 +686,18 @@ export default function AttendanceHistory() {
                             <div className="w-4 h-4 rounded bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700"></div>
                             <span className="text-muted-foreground">Late</span>
                         </div>
+                        <div className="flex items-center gap-2">
+                            <div className="w-4 h-4 rounded bg-purple-100 dark:bg-purple-900/20 border border-purple-300 dark:border-purple-700"></div>
+                            <span className="text-muted-foreground">
+                                Half Day
+                            </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="w-4 h-4 rounded bg-pink-100 dark:bg-pink-900/20 border border-pink-300 dark:border-pink-700"></div>
+                            <span className="text-muted-foreground">
+                                Short Day
+                            </span>
+                        </div>
                         <div className="flex items-center gap-2">
                             <div className="w-4 h-4 rounded bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700"></div>
                             <span className="text-muted-foreground">
@@ -559,7 +856,10 @@ export default function AttendanceHistory() {
                                             Check Out
                                         </th>
                                         <th className="text-left p-3 text-sm font-semibold">
-                                            Duration
+                                            Net Duration
+                                        </th>
+                                        <th className="text-left p-3 text-sm font-semibold">
+                                            Breaks
                                         </th>
                                         <th className="text-left p-3 text-sm font-semibold">
                                             Remarks
@@ -592,6 +892,11 @@ export default function AttendanceHistory() {
                                                     record.workDuration
                                                 )}
                                             </td>
+                                            <td className="p-3 text-sm">
+                                                {formatDuration(
+                                                    record.breakMinutes
+                                                )}
+                                            </td>
                                             <td className="p-3 text-sm text-muted-foreground">
                                                 {record.remarks || "-"}
                                             </td>
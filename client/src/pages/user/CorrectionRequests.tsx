@@ -28,15 +28,37 @@ import {
     XCircle,
     AlertCircle,
 } from "lucide-react";
-import { format, parseISO } from "date-fns";
+import { addDays, eachDayOfInterval, format, parseISO } from "date-fns";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
-import type { CorrectionRequest } from "@shared/schema";
+import type { AttendancePolicy, CorrectionRequest } from "@shared/schema";
+
+// Mirrors the server's limit on days per regularization request
+const MAX_CORRECTION_DAYS = 31;
+
+function datesBetween(startDate: string, endDate: string): string[] {
+    if (!endDate || endDate <= startDate) return [startDate];
+    return eachDayOfInterval({
+        start: parseISO(startDate),
+        end: parseISO(endDate),
+    }).map((day) => format(day, "yyyy-MM-dd"));
+}
+
+// A check-out time earlier than the check-in belongs to the next day (overnight shifts)
+function punchTime(date: string, time: string, after?: string): string | null {
+    if (!time) return null;
+    const day =
+        after && time <= after
+            ? format(addDays(parseISO(date), 1), "yyyy-MM-dd")
+            : date;
+    return new Date(`${day}T${time}:00`).toISOString();
+}
 
 export default function CorrectionRequests() {
     const { toast } = useToast();
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [formData, setFormData] = useState({
         date: "",
+        endDate: "",
         requestedCheckIn: "",
         requestedCheckOut: "",
         reason: "",
@@ -46,26 +68,39 @@ export default function CorrectionRequests() {
         queryKey: ["/api/attendance/my-corrections"],
     });
 
+    const { data: policyData } = useQuery<{
+        policy: Partial<AttendancePolicy>;
+    }>({
+        queryKey: ["/api/attendance/policy"],
+    });
+    const correctionWindowDays = policyData?.policy.correctionWindowDays;
+    const monthlyCorrectionCap = policyData?.policy.monthlyCorrectionCap;
+
+    const today = format(new Date(), "yyyy-MM-dd");
+    const earliestDate = correctionWindowDays
+        ? format(addDays(new Date(), -correctionWindowDays), "yyyy-MM-dd")
+        : undefined;
+    const selectedDates = formData.date
+        ? datesBetween(formData.date, formData.endDate)
+        : [];
+
     const createCorrectionMutation = useMutation({
         mutationFn: async (data: typeof formData) => {
-            const checkInDateTime = data.requestedCheckIn
-                ? new Date(
-                      `${data.date}T${data.requestedCheckIn}:00`
-                  ).toISOString()
-                : null;
-            const checkOutDateTime = data.requestedCheckOut
-                ? new Date(
-                      `${data.date}T${data.requestedCheckOut}:00`
-                  ).toISOString()
-                : null;
+            const items = datesBetween(data.date, data.endDate).map((date) => ({
+                date,
+                requestedCheckIn: punchTime(date, data.requestedCheckIn),
+                requestedCheckOut: punchTime(
+                    date,
+                    data.requestedCheckOut,
+                    data.requestedCheckIn
+                ),
+            }));
 
             return await apiRequest(
                 `${API_BASE_URL}/api/attendance/correction-request`,
                 "POST",
                 {
-                    date: data.date,
-                    requestedCheckIn: checkInDateTime,
-                    requestedCheckOut: checkOutDateTime,
+                    items,
                     reason: data.reason,
                 }
             );
@@ -77,6 +112,7 @@ export default function CorrectionRequests() {
             setIsDialogOpen(false);
             setFormData({
                 date: "",
+                endDate: "",
                 requestedCheckIn: "",
                 requestedCheckOut: "",
                 reason: "",
@@ -108,6 +144,22 @@ export default function CorrectionRequests() {
             });
             return;
         }
+        if (!formData.requestedCheckIn && !formData.requestedCheckOut) {
+            toast({
+                title: "Validation Error",
+                description: "Enter a check-in or check-out time.",
+                variant: "destructive",
+            });
+            return;
+        }
+        if (selectedDates.length > MAX_CORRECTION_DAYS) {
+            toast({
+                title: "Validation Error",
+                description: `A request can cover at most ${MAX_CORRECTION_DAYS} days.`,
+                variant: "destructive",
+            });
+            return;
+        }
         createCorrectionMutation.mutate(formData);
     };
 
@@ -162,6 +214,16 @@ export default function CorrectionRequests() {
                     <p className="text-sm text-muted-foreground">
                         Request corrections for your attendance records
                     </p>
+                    {(correctionWindowDays || monthlyCorrectionCap) && (
+                        <p
+                            className="text-xs text-muted-foreground mt-1"
+                            data-testid="text-correction-limits">
+                            {correctionWindowDays &&
+                                `Corrections must be filed within ${correctionWindowDays} days.`}{" "}
+                            {monthlyCorrectionCap &&
+                                `Up to ${monthlyCorrectionCap} correction days per month.`}
+                        </p>
+                    )}
                 </div>
 
                 <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -176,23 +238,48 @@ export default function CorrectionRequests() {
                             <DialogTitle>Submit Correction Request</DialogTitle>
                         </DialogHeader>
                         <form onSubmit={handleSubmit} className="space-y-4">
-                            <div className="space-y-2">
-                                <Label htmlFor="date">Date *</Label>
-                                <Input
-                                    id="date"
-                                    type="date"
-                                    value={formData.date}
-                                    onChange={(e) =>
-                                        setFormData({
-                                            ...formData,
-                                            date: e.target.value,
-                                        })
-                                    }
-                                    max={new Date().toISOString().split("T")[0]}
-                                    required
-                                    data-testid="input-correction-date"
-                                />
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="date">Date *</Label>
+                                    <Input
+                                        id="date"
+                                        type="date"
+                                        value={formData.date}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                date: e.target.value,
+                                            })
+                                        }
+                                        min={earliestDate}
+                                        max={today}
+                                        required
+                                        data-testid="input-correction-date"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="endDate">Until</Label>
+                                    <Input
+                                        id="endDate"
+                                        type="date"
+                                        value={formData.endDate}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                endDate: e.target.value,
+                                            })
+                                        }
+                                        min={formData.date || earliestDate}
+                                        max={today}
+                                        data-testid="input-correction-end-date"
+                                    />
+                                </div>
                             </div>
+                            <p className="text-xs text-muted-foreground">
+                                {selectedDates.length > 1
+                                    ? `The same times will be requested for all ${selectedDates.length} days.`
+                                    : "Set an end date to regularize several days at once."}
+                            </p>
 
                             <div className="space-y-2">
                                 <Label htmlFor="checkIn">
@@ -382,6 +469,11 @@ export default function CorrectionRequests() {
                                                     {getStatusBadge(
                                                         correction.status
                                                     )}
+                                                    {correction.batchId && (
+                                                        <Badge variant="outline">
+                                                            Multi-day request
+                                                        </Badge>
+                                                    )}
                                                 </div>
 
                                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -35,16 +35,9 @@ export default function Feedback() {
         useQuery<Feedback[]>({
             queryKey: [`/api/feedbacks?submittedBy=${dbUserId}`],
             queryFn: async () => {
-                const user = localStorage.getItem("user");
-                const userId = user ? JSON.parse(user).id : null;
-                const headers: Record<string, string> = {};
-                if (userId) {
-                    headers["x-user-id"] = userId.toString();
-                }
-
                 const res = await fetch(
                     `${API_BASE_URL}/api/feedbacks?submittedBy=${dbUserId}`,
-                    { headers, credentials: "include" }
+                    { credentials: "include" }
                 );
                 if (!res.ok) throw new Error("Failed to fetch feedbacks");
                 return res.json();
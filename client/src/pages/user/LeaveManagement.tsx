@@ -17,6 +17,8 @@ import {
     FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import {
     Select,
@@ -29,46 +31,97 @@ import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Calendar, Clock } from "lucide-react";
+import { Plus, Calendar, Clock, ListChecks, CalendarX } from "lucide-react";
 import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
 import { useState } from "react";
-import type { Leave } from "@shared/schema";
+import type { Leave, LeaveBalanceSummary, LeaveType } from "@shared/schema";
+import LeaveApprovalTrail from "@/components/LeaveApprovalTrail";
+import LeaveChangeNotice from "@/components/LeaveChangeNotice";
+
+const DEFAULT_LEAVE_TYPES = [
+    { code: "casual", name: "Casual Leave" },
+    { code: "sick", name: "Sick Leave" },
+    { code: "annual", name: "Annual Leave" },
+    { code: "emergency", name: "Emergency Leave" },
+];
 
 const leaveFormSchema = z.object({
     startDate: z.string().min(1, "Start date is required"),
-    endDate: z.string().min(1, "End date is required"),
+    endDate: z.string(),
     leaveType: z.string().min(1, "Leave type is required"),
     reason: z.string().min(10, "Reason must be at least 10 characters"),
+    isHalfDay: z.boolean(),
+    halfDaySession: z.enum(["first", "second"]),
+}).refine((data) => data.isHalfDay || data.endDate.length > 0, {
+    message: "End date is required",
+    path: ["endDate"],
 });
 
 type LeaveFormData = z.infer<typeof leaveFormSchema>;
 
+// "cancel_days" cancels only the given days at the start or end of the leave
+type ChangeKind = "cancel" | "cancel_days" | "modify";
+
+const emptyChangeForm = {
+    kind: "cancel" as ChangeKind,
+    startDate: "",
+    endDate: "",
+    reason: "",
+};
+
 export default function LeaveManagement() {
     const { toast } = useToast();
     const [dialogOpen, setDialogOpen] = useState(false);
+    const [openTrail, setOpenTrail] = useState<number | null>(null);
+    const [changingLeave, setChangingLeave] = useState<Leave | null>(null);
+    const [changeForm, setChangeForm] = useState(emptyChangeForm);
 
     const { data: leaves = [], isLoading } = useQuery<Leave[]>({
         queryKey: ["/api/leaves/me"],
     });
 
+    const { data: leaveTypes = [] } = useQuery<LeaveType[]>({
+        queryKey: ["/api/leaves/types"],
+    });
+
+    const { data: balances = [] } = useQuery<LeaveBalanceSummary[]>({
+        queryKey: ["/api/leaves/balances/me"],
+    });
+
+    // Companies that haven't configured leave types keep the built-in list
+    const typeOptions = leaveTypes.length > 0 ? leaveTypes : DEFAULT_LEAVE_TYPES;
+
     const form = useForm<LeaveFormData>({
         resolver: zodResolver(leaveFormSchema),
         defaultValues: {
             startDate: "",
             endDate: "",
-            leaveType: "casual",
+            leaveType: "",
             reason: "",
+            isHalfDay: false,
+            halfDaySession: "first",
         },
     });
 
+    const isHalfDay = form.watch("isHalfDay");
+    const selectedType = leaveTypes.find(
+        (t) => t.code === form.watch("leaveType")
+    );
+
     const createLeaveMutation = useMutation({
         mutationFn: async (data: LeaveFormData) => {
-            return await apiRequest(`${API_BASE_URL}/api/leaves`, "POST", data);
+            return await apiRequest(`${API_BASE_URL}/api/leaves`, "POST", {
+                ...data,
+                endDate: data.isHalfDay ? data.startDate : data.endDate,
+            });
         },
         onSuccess: () => {
             queryClient.invalidateQueries({
                 queryKey: ["/api/leaves/me"],
             });
+            queryClient.invalidateQueries({
+                queryKey: ["/api/leaves/balances/me"],
+            });
             toast({
                 title: "Leave request submitted",
                 description:
@@ -77,18 +130,85 @@ export default function LeaveManagement() {
             form.reset();
             setDialogOpen(false);
         },
-        onError: () => {
+        onError: (error: any) => {
             toast({
                 title: "Error",
                 description:
+                    error.message ||
                     "Failed to submit leave request. Please try again.",
                 variant: "destructive",
             });
         },
     });
 
+    const changeLeaveMutation = useMutation({
+        mutationFn: async ({
+            leave,
+            change,
+        }: {
+            leave: Leave;
+            change: typeof changeForm;
+        }) => {
+            const dates =
+                change.kind === "cancel"
+                    ? {}
+                    : {
+                          startDate: change.startDate,
+                          endDate: leave.isHalfDay
+                              ? change.startDate
+                              : change.endDate,
+                      };
+            return await apiRequest(
+                `${API_BASE_URL}/api/leaves/${leave.id}/change`,
+                "POST",
+                {
+                    type: change.kind === "modify" ? "modify" : "cancel",
+                    ...dates,
+                    reason: change.reason,
+                }
+            );
+        },
+        onSuccess: (_data, { leave }) => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/leaves/me"],
+            });
+            queryClient.invalidateQueries({
+                queryKey: ["/api/leaves/balances/me"],
+            });
+            toast({
+                title:
+                    leave.status === "approved"
+                        ? "Change requested"
+                        : "Leave request updated",
+                description:
+                    leave.status === "approved"
+                        ? "Your leave stays as approved until the change is approved."
+                        : "Your pending leave request has been updated.",
+            });
+            setChangingLeave(null);
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Error",
+                description:
+                    error.message ||
+                    "Failed to change leave. Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const openChangeDialog = (leave: Leave) => {
+        setChangeForm({
+            ...emptyChangeForm,
+            startDate: leave.startDate,
+            endDate: leave.endDate,
+        });
+        setChangingLeave(leave);
+    };
+
     const onSubmit = (data: LeaveFormData) => {
-        if (new Date(data.endDate) < new Date(data.startDate)) {
+        if (!data.isHalfDay && new Date(data.endDate) < new Date(data.startDate)) {
             toast({
                 title: "Invalid dates",
                 description: "End date cannot be before start date.",
@@ -105,6 +225,8 @@ export default function LeaveManagement() {
                 return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
             case "rejected":
                 return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+            case "cancelled":
+                return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200";
             default:
                 return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
         }
@@ -153,23 +275,25 @@ export default function LeaveManagement() {
                                         </FormItem>
                                     )}
                                 />
-                                <FormField
-                                    control={form.control}
-                                    name="endDate"
-                                    render={({ field }) => (
-                                        <FormItem>
-                                            <FormLabel>End Date</FormLabel>
-                                            <FormControl>
-                                                <Input
-                                                    type="date"
-                                                    data-testid="input-end-date"
-                                                    {...field}
-                                                />
-                                            </FormControl>
-                                            <FormMessage />
-                                        </FormItem>
-                                    )}
-                                />
+                                {!isHalfDay && (
+                                    <FormField
+                                        control={form.control}
+                                        name="endDate"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>End Date</FormLabel>
+                                                <FormControl>
+                                                    <Input
+                                                        type="date"
+                                                        data-testid="input-end-date"
+                                                        {...field}
+                                                    />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                )}
                                 <FormField
                                     control={form.control}
                                     name="leaveType"
@@ -185,24 +309,69 @@ export default function LeaveManagement() {
                                                     </SelectTrigger>
                                                 </FormControl>
                                                 <SelectContent>
-                                                    <SelectItem value="casual">
-                                                        Casual Leave
-                                                    </SelectItem>
-                                                    <SelectItem value="sick">
-                                                        Sick Leave
-                                                    </SelectItem>
-                                                    <SelectItem value="annual">
-                                                        Annual Leave
-                                                    </SelectItem>
-                                                    <SelectItem value="emergency">
-                                                        Emergency Leave
-                                                    </SelectItem>
+                                                    {typeOptions.map((type) => (
+                                                        <SelectItem
+                                                            key={type.code}
+                                                            value={type.code}>
+                                                            {type.name}
+                                                        </SelectItem>
+                                                    ))}
                                                 </SelectContent>
                                             </Select>
                                             <FormMessage />
                                         </FormItem>
                                     )}
                                 />
+                                {(!selectedType || selectedType.allowHalfDay) && (
+                                    <FormField
+                                        control={form.control}
+                                        name="isHalfDay"
+                                        render={({ field }) => (
+                                            <FormItem className="flex items-center justify-between rounded-md border p-3">
+                                                <FormLabel>Half Day</FormLabel>
+                                                <FormControl>
+                                                    <Switch
+                                                        checked={field.value}
+                                                        onCheckedChange={
+                                                            field.onChange
+                                                        }
+                                                        data-testid="switch-half-day"
+                                                    />
+                                                </FormControl>
+                                            </FormItem>
+                                        )}
+                                    />
+                                )}
+                                {isHalfDay && (
+                                    <FormField
+                                        control={form.control}
+                                        name="halfDaySession"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Session</FormLabel>
+                                                <Select
+                                                    onValueChange={
+                                                        field.onChange
+                                                    }
+                                                    value={field.value}>
+                                                    <FormControl>
+                                                        <SelectTrigger data-testid="select-half-day-session">
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                    </FormControl>
+                                                    <SelectContent>
+                                                        <SelectItem value="first">
+                                                            First Half
+                                                        </SelectItem>
+                                                        <SelectItem value="second">
+                                                            Second Half
+                                                        </SelectItem>
+                                                    </SelectContent>
+                                                </Select>
+                                            </FormItem>
+                                        )}
+                                    />
+                                )}
                                 <FormField
                                     control={form.control}
                                     name="reason"
@@ -244,6 +413,34 @@ export default function LeaveManagement() {
                 </Dialog>
             </div>
 
+            {balances.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {balances.map((balance) => (
+                        <Card
+                            key={balance.leaveTypeId}
+                            className="p-4"
+                            data-testid={`card-balance-${balance.code}`}>
+                            <div className="text-sm text-gray-600 dark:text-gray-400">
+                                {balance.name}
+                            </div>
+                            <div className="text-2xl font-semibold">
+                                {balance.available}
+                                <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                                    {" "}
+                                    days left
+                                </span>
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                {balance.accrued} accrued
+                                {balance.carriedForward > 0 &&
+                                    ` + ${balance.carriedForward} carried forward`}{" "}
+                                · {balance.used} used
+                            </div>
+                        </Card>
+                    ))}
+                </div>
+            )}
+
             <div className="grid gap-4">
                 {isLoading && (
                     <Card className="p-6">
@@ -276,6 +473,8 @@ export default function LeaveManagement() {
                                         className="font-semibold text-lg capitalize"
                                         data-testid={`text-leave-type-${leave.id}`}>
                                         {leave.leaveType} Leave
+                                        {leave.isHalfDay &&
+                                            ` (${leave.halfDaySession} half)`}
                                     </h3>
                                     <span
                                         className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(
@@ -299,6 +498,13 @@ export default function LeaveManagement() {
                                             ).toLocaleDateString()}
                                         </span>
                                     </div>
+                                    {leave.days !== null && (
+                                        <span
+                                            data-testid={`text-days-${leave.id}`}>
+                                            {leave.days}{" "}
+                                            {leave.days === 1 ? "day" : "days"}
+                                        </span>
+                                    )}
                                     <div className="flex items-center gap-1">
                                         <Clock className="h-4 w-4" />
                                         <span
@@ -316,11 +522,187 @@ export default function LeaveManagement() {
                                     <span className="font-medium">Reason:</span>{" "}
                                     {leave.reason}
                                 </p>
+                                <LeaveChangeNotice leave={leave} />
                             </div>
+                            {(leave.status === "pending" ||
+                                leave.status === "approved") &&
+                                !leave.changeType && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => openChangeDialog(leave)}
+                                        data-testid={`button-change-leave-${leave.id}`}>
+                                        <CalendarX className="h-4 w-4 mr-1" />
+                                        {leave.status === "pending"
+                                            ? "Withdraw / Edit"
+                                            : "Cancel / Change"}
+                                    </Button>
+                                )}
+                        </div>
+                        <div className="mt-4 space-y-3">
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                    setOpenTrail(
+                                        openTrail === leave.id ? null : leave.id
+                                    )
+                                }
+                                data-testid={`button-trail-${leave.id}`}>
+                                <ListChecks className="h-4 w-4 mr-1" />
+                                {openTrail === leave.id
+                                    ? "Hide approval trail"
+                                    : "Show approval trail"}
+                            </Button>
+                            {openTrail === leave.id && (
+                                <LeaveApprovalTrail leaveId={leave.id} />
+                            )}
                         </div>
                     </Card>
                 ))}
             </div>
+
+            <Dialog
+                open={!!changingLeave}
+                onOpenChange={(open) => !open && setChangingLeave(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>
+                            {changingLeave?.status === "pending"
+                                ? "Withdraw or Edit Leave Request"
+                                : "Cancel or Change Approved Leave"}
+                        </DialogTitle>
+                    </DialogHeader>
+                    {changingLeave && (
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                changeLeaveMutation.mutate({
+                                    leave: changingLeave,
+                                    change: changeForm,
+                                });
+                            }}
+                            className="space-y-4">
+                            {changingLeave.status === "approved" && (
+                                <p className="text-sm text-muted-foreground">
+                                    The change goes to your approvers. Your
+                                    leave stays as approved until then.
+                                </p>
+                            )}
+                            <div className="space-y-2">
+                                <Label>Change</Label>
+                                <Select
+                                    value={changeForm.kind}
+                                    onValueChange={(kind) =>
+                                        setChangeForm({
+                                            ...changeForm,
+                                            kind: kind as ChangeKind,
+                                        })
+                                    }>
+                                    <SelectTrigger data-testid="select-change-kind">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="cancel">
+                                            {changingLeave.status === "pending"
+                                                ? "Withdraw the request"
+                                                : "Cancel the whole leave"}
+                                        </SelectItem>
+                                        {!changingLeave.isHalfDay &&
+                                            changingLeave.startDate !==
+                                                changingLeave.endDate && (
+                                                <SelectItem value="cancel_days">
+                                                    Cancel some days
+                                                </SelectItem>
+                                            )}
+                                        <SelectItem value="modify">
+                                            Change the dates
+                                        </SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {changeForm.kind !== "cancel" && (
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="changeStartDate">
+                                            {changeForm.kind === "cancel_days"
+                                                ? "Cancel From"
+                                                : "New Start Date"}
+                                        </Label>
+                                        <Input
+                                            id="changeStartDate"
+                                            type="date"
+                                            value={changeForm.startDate}
+                                            onChange={(e) =>
+                                                setChangeForm({
+                                                    ...changeForm,
+                                                    startDate: e.target.value,
+                                                })
+                                            }
+                                            data-testid="input-change-start-date"
+                                        />
+                                    </div>
+                                    {!changingLeave.isHalfDay && (
+                                        <div className="space-y-2">
+                                            <Label htmlFor="changeEndDate">
+                                                {changeForm.kind ===
+                                                "cancel_days"
+                                                    ? "Cancel To"
+                                                    : "New End Date"}
+                                            </Label>
+                                            <Input
+                                                id="changeEndDate"
+                                                type="date"
+                                                value={changeForm.endDate}
+                                                onChange={(e) =>
+                                                    setChangeForm({
+                                                        ...changeForm,
+                                                        endDate: e.target.value,
+                                                    })
+                                                }
+                                                data-testid="input-change-end-date"
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                            {changeForm.kind === "cancel_days" && (
+                                <p className="text-xs text-muted-foreground">
+                                    Only days at the start or end of the leave
+                                    can be cancelled.
+                                </p>
+                            )}
+                            <div className="space-y-2">
+                                <Label htmlFor="changeReason">Reason</Label>
+                                <Textarea
+                                    id="changeReason"
+                                    value={changeForm.reason}
+                                    onChange={(e) =>
+                                        setChangeForm({
+                                            ...changeForm,
+                                            reason: e.target.value,
+                                        })
+                                    }
+                                    data-testid="input-change-reason"
+                                />
+                            </div>
+                            <div className="flex justify-end">
+                                <Button
+                                    type="submit"
+                                    disabled={
+                                        changeLeaveMutation.isPending ||
+                                        !changeForm.reason.trim()
+                                    }
+                                    data-testid="button-submit-change">
+                                    {changeLeaveMutation.isPending
+                                        ? "Submitting..."
+                                        : "Submit"}
+                                </Button>
+                            </div>
+                        </form>
+                    )}
+                </DialogContent>
+            </Dialog>
         </div>
     );
 }
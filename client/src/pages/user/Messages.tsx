@@ -63,9 +63,6 @@ export default function Messages() {
             queryFn: async () => {
                 const res = await fetch(`${API_BASE_URL}/api/team-leader/me`, {
                     credentials: "include",
-                    headers: {
-                        "x-user-id": dbUserId?.toString() || "",
-                    },
                 });
 
                 if (res.status === 404) {
@@ -0,0 +1,265 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import {
+    Card,
+    CardContent,
+    CardHeader,
+    CardTitle,
+    CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Timer, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient, API_BASE_URL } from "@/lib/queryClient";
+import type { AttendancePolicy, OvertimeRequest } from "@shared/schema";
+
+const dayTypeLabels: Record<string, string> = {
+    working: "Working day",
+    weekend: "Weekend",
+    holiday: "Holiday",
+};
+
+function formatMinutes(minutes: number) {
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export default function Overtime() {
+    const { toast } = useToast();
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [formData, setFormData] = useState({
+        date: "",
+        hours: "",
+        reason: "",
+    });
+
+    const { data: overtime = [], isLoading } = useQuery<OvertimeRequest[]>({
+        queryKey: ["/api/attendance/my-overtime"],
+    });
+
+    const { data: policyData } = useQuery<{
+        policy: Partial<AttendancePolicy>;
+    }>({
+        queryKey: ["/api/attendance/policy"],
+    });
+    const needsPreApproval = policyData?.policy.overtimeApproval === "pre";
+
+    const requestMutation = useMutation({
+        mutationFn: async (data: typeof formData) => {
+            return await apiRequest(
+                `${API_BASE_URL}/api/attendance/overtime-request`,
+                "POST",
+                {
+                    date: data.date,
+                    plannedMinutes: Math.round(parseFloat(data.hours) * 60),
+                    reason: data.reason,
+                }
+            );
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ["/api/attendance/my-overtime"],
+            });
+            toast({
+                title: "Overtime Requested",
+                description: "Your team leader will review the request.",
+            });
+            setIsDialogOpen(false);
+            setFormData({ date: "", hours: "", reason: "" });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Request Failed",
+                description: error.message || "Unable to request overtime.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const getStatusBadge = (status: string) => {
+        switch (status) {
+            case "approved":
+                return <Badge className="bg-green-500">Approved</Badge>;
+            case "rejected":
+                return <Badge variant="destructive">Rejected</Badge>;
+            default:
+                return <Badge variant="secondary">Pending</Badge>;
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-screen">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-6 p-6">
+            <div className="flex items-center justify-between flex-wrap gap-4">
+                <div>
+                    <h1 className="text-2xl font-semibold">Overtime</h1>
+                    <p className="text-sm text-muted-foreground">
+                        {needsPreApproval
+                            ? "Overtime counts only when approved in advance"
+                            : "Overtime is worked out at check-out and reviewed by your team leader"}
+                    </p>
+                </div>
+                {needsPreApproval && (
+                    <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                        <DialogTrigger asChild>
+                            <Button data-testid="button-request-overtime">
+                                <Plus className="w-4 h-4 mr-2" />
+                                Request Overtime
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                            <DialogHeader>
+                                <DialogTitle>Request Overtime</DialogTitle>
+                            </DialogHeader>
+                            <div className="space-y-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="overtime-date">Date</Label>
+                                    <Input
+                                        id="overtime-date"
+                                        type="date"
+                                        min={format(new Date(), "yyyy-MM-dd")}
+                                        value={formData.date}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                date: e.target.value,
+                                            })
+                                        }
+                                        data-testid="input-overtime-date"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="overtime-hours">
+                                        Planned Hours
+                                    </Label>
+                                    <Input
+                                        id="overtime-hours"
+                                        type="number"
+                                        min="0.25"
+                                        max="12"
+                                        step="0.25"
+                                        value={formData.hours}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                hours: e.target.value,
+                                            })
+                                        }
+                                        data-testid="input-overtime-hours"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="overtime-reason">
+                                        Reason
+                                    </Label>
+                                    <Textarea
+                                        id="overtime-reason"
+                                        value={formData.reason}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                reason: e.target.value,
+                                            })
+                                        }
+                                        data-testid="input-overtime-reason"
+                                    />
+                                </div>
+                            </div>
+                            <DialogFooter>
+                                <Button
+                                    onClick={() =>
+                                        requestMutation.mutate(formData)
+                                    }
+                                    disabled={
+                                        requestMutation.isPending ||
+                                        !formData.date ||
+                                        !formData.hours ||
+                                        !formData.reason.trim()
+                                    }
+                                    data-testid="button-submit-overtime">
+                                    Submit Request
+                                </Button>
+                            </DialogFooter>
+                        </DialogContent>
+                    </Dialog>
+                )}
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Timer className="w-5 h-5" />
+                        My Overtime
+                    </CardTitle>
+                    <CardDescription>
+                        Approved overtime appears in your attendance reports
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {overtime.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">
+                            No overtime yet
+                        </p>
+                    ) : (
+                        <div className="space-y-3">
+                            {overtime.map((entry) => (
+                                <div
+                                    key={entry.id}
+                                    className="flex flex-wrap items-center justify-between gap-4 p-4 border rounded-md"
+                                    data-testid={`overtime-${entry.id}`}>
+                                    <div className="space-y-1">
+                                        <p className="font-medium">
+                                            {format(
+                                                new Date(
+                                                    `${entry.date}T00:00:00`
+                                                ),
+                                                "MMM dd, yyyy"
+                                            )}
+                                        </p>
+                                        <p className="text-sm text-muted-foreground">
+                                            {dayTypeLabels[entry.dayType] ||
+                                                entry.dayType}{" "}
+                                            (x{entry.multiplier})
+                                            {entry.plannedMinutes !== null &&
+                                                ` - planned ${formatMinutes(
+                                                    entry.plannedMinutes
+                                                )}`}
+                                            {` - worked ${formatMinutes(
+                                                entry.workedMinutes
+                                            )}`}
+                                        </p>
+                                        {entry.reviewComments && (
+                                            <p className="text-sm text-muted-foreground">
+                                                {entry.reviewComments}
+                                            </p>
+                                        )}
+                                    </div>
+                                    {getStatusBadge(entry.status)}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -28,24 +28,17 @@ export default function Overview() {
     const { data: stats, isLoading } = useQuery({
         queryKey: ["/api/dashboard/stats"],
         queryFn: async () => {
-            const user = localStorage.getItem("user");
-            const userId = user ? JSON.parse(user).id : null;
-            const headers: Record<string, string> = {};
-            if (userId) {
-                headers["x-user-id"] = userId.toString();
-            }
-
             const tasks = await fetch(
                 `${API_BASE_URL}/api/tasks?userId=${dbUserId}`,
-                { headers, credentials: "include" }
+                { credentials: "include" }
             ).then((r) => r.json());
             const reports = await fetch(
                 `${API_BASE_URL}/api/reports?userId=${dbUserId}`,
-                { headers, credentials: "include" }
+                { credentials: "include" }
             ).then((r) => r.json());
             const ratings = await fetch(
                 `${API_BASE_URL}/api/ratings?userId=${dbUserId}`,
-                { headers, credentials: "include" }
+                { credentials: "include" }
             ).then((r) => r.json());
 
             return {
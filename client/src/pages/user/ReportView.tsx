@@ -12,16 +12,9 @@ export default function ReportView() {
     const { data: reports = [], isLoading } = useQuery<Report[]>({
         queryKey: ["/api/reports", dbUserId],
         queryFn: async () => {
-            const user = localStorage.getItem("user");
-            const userId = user ? JSON.parse(user).id : null;
-            const headers: Record<string, string> = {};
-            if (userId) {
-                headers["x-user-id"] = userId.toString();
-            }
-
             const res = await fetch(
                 `${API_BASE_URL}/api/reports?userId=${dbUserId}`,
-                { headers, credentials: "include" }
+                { credentials: "include" }
             );
             if (!res.ok) throw new Error("Failed to fetch reports");
             return res.json();
@@ -10,15 +10,31 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, Play, Pause, CheckCircle2 } from "lucide-react";
-import { useState, useEffect } from "react";
+import {
+    Calendar,
+    Play,
+    Pause,
+    CheckCircle2,
+    MessageSquare,
+    List,
+    Columns3,
+} from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useTaskUpdates } from "@/hooks/useTaskUpdates";
-import type { Task } from "@shared/schema";
+import { useWebSocket } from "@/contexts/WebSocketContext";
+import { useTaskDetails } from "@/hooks/useTaskDetails";
+import TaskDetailsModal from "@/components/TaskDetailsModal";
+import TaskBoard from "@/components/TaskBoard";
+import { useTaskWorkflow } from "@/hooks/useTaskWorkflow";
+import type { TaskWithBlockers } from "@shared/schema";
 
 export default function Tasks() {
     const { dbUserId } = useAuth();
     const { toast } = useToast();
+    const { isOpen, details, openTask, closeTask } = useTaskDetails();
+    const { statusName } = useTaskWorkflow();
+    const [view, setView] = useState<"list" | "board">("list");
     const [timerStates, setTimerStates] = useState<
         Record<number, { isRunning: boolean; elapsed: number }>
     >({});
@@ -53,76 +69,63 @@ export default function Tasks() {
     }, []);
 
     // Listen to WebSocket updates to handle status changes
-    useEffect(() => {
-        const ws = new WebSocket(
-            `${window.location.protocol === "https:" ? "wss:" : "ws:"}//${
-                window.location.host
-            }/ws`
-        );
-
-        ws.onopen = () => {
-            console.log("[WebSocket] Connected for task updates");
-        };
-
-        ws.onmessage = (event) => {
-            try {
-                const message = JSON.parse(event.data);
-
-                if (message.type === "task_updated") {
-                    console.log("[WebSocket] Task update received:", message);
-                    // If task was reverted to pending, clear it from completed
-                    if (message.status === "pending") {
-                        setCompletedTaskIds((prev) => {
-                            const updated = new Set(prev);
-                            updated.delete(message.taskId);
-                            // Update localStorage immediately
-                            localStorage.setItem(
-                                "memberCompletedTaskIds",
-                                JSON.stringify(Array.from(updated))
-                            );
-                            return updated;
-                        });
-                        // Also reset timer for this task
-                        setTimerStates((prev) => ({
-                            ...prev,
-                            [message.taskId]: { isRunning: false, elapsed: 0 },
-                        }));
-                        // Clear from localStorage
+    const handleTaskMessage = useCallback(
+        (message: any) => {
+            if (message.type === "task_updated") {
+                console.log("[WebSocket] Task update received:", message);
+                // If task was reverted to pending, clear it from completed
+                if (message.status === "pending") {
+                    setCompletedTaskIds((prev) => {
+                        const updated = new Set(prev);
+                        updated.delete(message.taskId);
+                        // Update localStorage immediately
                         localStorage.setItem(
-                            "memberTaskTimers",
-                            JSON.stringify({
-                                ...JSON.parse(
-                                    localStorage.getItem("memberTaskTimers") ||
-                                        "{}"
-                                ),
-                                [message.taskId]: {
-                                    isRunning: false,
-                                    elapsed: 0,
-                                },
-                            })
+                            "memberCompletedTaskIds",
+                            JSON.stringify(Array.from(updated))
                         );
-                    }
-                    // Invalidate queries to force refetch
-                    queryClient.invalidateQueries({
-                        queryKey: ["/api/tasks", dbUserId],
-                    });
-                    queryClient.invalidateQueries({
-                        queryKey: ["/api/dashboard/stats"],
+                        return updated;
                     });
+                    // Also reset timer for this task
+                    setTimerStates((prev) => ({
+                        ...prev,
+                        [message.taskId]: { isRunning: false, elapsed: 0 },
+                    }));
+                    // Clear from localStorage
+                    localStorage.setItem(
+                        "memberTaskTimers",
+                        JSON.stringify({
+                            ...JSON.parse(
+                                localStorage.getItem("memberTaskTimers") ||
+                                    "{}"
+                            ),
+                            [message.taskId]: {
+                                isRunning: false,
+                                elapsed: 0,
+                            },
+                        })
+                    );
                 }
-            } catch (error) {
-                console.error("[WebSocket] Error parsing message:", error);
+                // Invalidate queries to force refetch
+                queryClient.invalidateQueries({
+                    queryKey: ["/api/tasks", dbUserId],
+                });
+                queryClient.invalidateQueries({
+                    queryKey: ["/api/dashboard/stats"],
+                });
+            } else if (message.type === "task_unblocked") {
+                queryClient.invalidateQueries({
+                    queryKey: ["/api/tasks", dbUserId],
+                });
+                toast({
+                    title: "Task ready to start",
+                    description:
+                        "Everything this task was waiting for is done.",
+                });
             }
-        };
-
-        ws.onerror = (error) => {
-            console.error("[WebSocket] Error:", error);
-        };
-
-        return () => {
-            ws.close();
-        };
-    }, [dbUserId]);
+        },
+        [dbUserId, toast]
+    );
+    useWebSocket(handleTaskMessage);
 
     // Save timer state to localStorage
     useEffect(() => {
@@ -137,19 +140,12 @@ export default function Tasks() {
         );
     }, [completedTaskIds]);
 
-    const { data: tasks = [], isLoading } = useQuery<Task[]>({
+    const { data: tasks = [], isLoading } = useQuery<TaskWithBlockers[]>({
         queryKey: ["/api/tasks", dbUserId],
         queryFn: async () => {
-            const user = localStorage.getItem("user");
-            const userId = user ? JSON.parse(user).id : null;
-            const headers: Record<string, string> = {};
-            if (userId) {
-                headers["x-user-id"] = userId.toString();
-            }
-
             const res = await fetch(
                 `${API_BASE_URL}/api/tasks?userId=${dbUserId}`,
-                { headers, credentials: "include" }
+                { credentials: "include" }
             );
             if (!res.ok) throw new Error("Failed to fetch tasks");
             return res.json();
@@ -199,7 +195,6 @@ export default function Tasks() {
                 `${API_BASE_URL}/api/tasks/${taskId}/timer/complete`,
                 "POST",
                 {
-                    userId: dbUserId,
                     date: new Date().toISOString().split("T")[0],
                     duration: timer?.elapsed || 0,
                 }
@@ -289,16 +284,39 @@ export default function Tasks() {
 
     return (
         <div className="space-y-4 sm:space-y-6">
-            <div>
-                <h2 className="text-2xl sm:text-3xl font-bold">
-                    Assigned Tasks
-                </h2>
-                <p className="text-sm sm:text-base text-muted-foreground mt-1">
-                    {tasks.length} task{tasks.length !== 1 ? "s" : ""} assigned
-                </p>
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl sm:text-3xl font-bold">
+                        Assigned Tasks
+                    </h2>
+                    <p className="text-sm sm:text-base text-muted-foreground mt-1">
+                        {tasks.length} task{tasks.length !== 1 ? "s" : ""}{" "}
+                        assigned
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Button
+                        size="sm"
+                        variant={view === "list" ? "default" : "outline"}
+                        onClick={() => setView("list")}
+                        data-testid="button-view-list">
+                        <List className="h-4 w-4 mr-2" />
+                        List
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant={view === "board" ? "default" : "outline"}
+                        onClick={() => setView("board")}
+                        data-testid="button-view-board">
+                        <Columns3 className="h-4 w-4 mr-2" />
+                        Board
+                    </Button>
+                </div>
             </div>
 
-            {tasks.length > 0 ? (
+            {view === "board" ? (
+                <TaskBoard tasks={tasks} onOpenTask={openTask} />
+            ) : tasks.length > 0 ? (
                 <div className="space-y-4">
                     {tasks.map((task) => {
                         const timer = timerStates[task.id] || {
@@ -342,8 +360,15 @@ export default function Tasks() {
                                                 variant={getStatusColor(
                                                     task.status
                                                 )}>
-                                                {task.status.replace("_", " ")}
+                                                {statusName(task.status)}
                                             </Badge>
+                                            {task.isBlocked && (
+                                                <Badge
+                                                    variant="destructive"
+                                                    data-testid={`badge-task-blocked-${task.id}`}>
+                                                    blocked
+                                                </Badge>
+                                            )}
                                         </div>
                                     </div>
                                 </CardHeader>
@@ -370,6 +395,9 @@ export default function Tasks() {
                                                                     task.id
                                                                 )
                                                             }
+                                                            disabled={
+                                                                task.isBlocked
+                                                            }
                                                             data-testid={`button-start-timer-${task.id}`}>
                                                             <Play className="h-4 w-4 mr-2" />
                                                             Start
@@ -395,6 +423,9 @@ export default function Tasks() {
                                                                 task.id
                                                             )
                                                         }
+                                                        disabled={
+                                                            task.isBlocked
+                                                        }
                                                         data-testid={`button-complete-task-${task.id}`}>
                                                         <CheckCircle2 className="h-4 w-4 mr-2" />
                                                         Complete
@@ -402,6 +433,16 @@ export default function Tasks() {
                                                 </div>
                                             </div>
                                         )}
+                                        <div>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => openTask(task.id)}
+                                                data-testid={`button-task-discussion-${task.id}`}>
+                                                <MessageSquare className="h-4 w-4 mr-2" />
+                                                Discussion
+                                            </Button>
+                                        </div>
                                     </div>
                                 </CardContent>
                             </Card>
@@ -420,6 +461,20 @@ export default function Tasks() {
                     </CardContent>
                 </Card>
             )}
+
+            <TaskDetailsModal
+                open={isOpen}
+                onOpenChange={(open) => !open && closeTask()}
+                task={details?.task ?? null}
+                timeLogs={details?.timeLogs ?? null}
+                returnCount={details?.returnCount || 0}
+                reworkHistory={details?.reworkHistory}
+                progress={details?.progress}
+                checklist={details?.checklist}
+                subtasks={details?.subtasks}
+                parentTask={details?.parentTask}
+                dependencies={details?.dependencies}
+            />
         </div>
     );
 }
@@ -0,0 +1,95 @@
+import { storage } from "./storage";
+import type {
+    AttendanceBreak,
+    AttendanceRecord,
+    BreakType,
+} from "@shared/schema";
+import {
+    breakDuration,
+    remainingBreakMinutes,
+    totalBreakMinutes,
+} from "./utils/break-time";
+
+function openBreakOf(breaks: AttendanceBreak[]): AttendanceBreak | undefined {
+    return breaks.find((b) => !b.endedAt);
+}
+
+// Starts a break on an open attendance day. Refused while another break is running
+// or once the policy's allowance for the type is used up. Returns why, if so.
+export async function startBreak(
+    record: AttendanceRecord,
+    breakType: BreakType,
+    now: Date
+): Promise<{ started: AttendanceBreak | null; error: string | null }> {
+    if (!record.checkIn || record.checkOut) {
+        return {
+            started: null,
+            error: "Breaks can only be taken between check-in and check-out",
+        };
+    }
+
+    const breaks = await storage.getBreaksByAttendance(record.id);
+    if (openBreakOf(breaks)) {
+        return { started: null, error: "You are already on a break" };
+    }
+
+    const policy = await storage.getAttendancePolicyByCompany(record.companyId);
+    const remaining = remainingBreakMinutes(breaks, breakType, policy, now);
+    if (remaining === 0) {
+        return {
+            started: null,
+            error: `No ${breakType} break time left for today`,
+        };
+    }
+
+    const started = await storage.createAttendanceBreak({
+        attendanceId: record.id,
+        userId: record.userId,
+        companyId: record.companyId,
+        breakType,
+        startedAt: now,
+    });
+    await storage.createAttendanceLog({
+        attendanceId: record.id,
+        userId: record.userId,
+        action: "break_started",
+        performedBy: record.userId,
+        newValue: JSON.stringify({ breakId: started.id, breakType }),
+    });
+    return { started, error: null };
+}
+
+// Ends the running break, if any, and stores the day's total break minutes on the
+// record. Returns the ended break and the new total.
+export async function endBreak(
+    record: AttendanceRecord,
+    now: Date
+): Promise<{ ended: AttendanceBreak | null; breakMinutes: number }> {
+    const breaks = await storage.getBreaksByAttendance(record.id);
+    const open = openBreakOf(breaks);
+    if (!open) {
+        return { ended: null, breakMinutes: record.breakMinutes };
+    }
+
+    const ended = await storage.updateAttendanceBreak(open.id, {
+        endedAt: now,
+        durationMinutes: breakDuration(open, now),
+    });
+    const breakMinutes = totalBreakMinutes(
+        breaks.map((b) => (b.id === ended.id ? ended : b)),
+        now
+    );
+    await storage.updateAttendanceRecord(record.id, { breakMinutes });
+    await storage.createAttendanceLog({
+        attendanceId: record.id,
+        userId: record.userId,
+        action: "break_ended",
+        performedBy: record.userId,
+        newValue: JSON.stringify({
+            breakId: ended.id,
+            breakType: ended.breakType,
+            durationMinutes: ended.durationMinutes,
+        }),
+    });
+    return { ended, breakMinutes };
+}
@@ -0,0 +1,291 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { CorrectionRequest, User } from "@shared/schema";
+import { settleAttendance } from "./attendance-status";
+import { alignSessions } from "./attendance-sessions";
+import { recordOvertime } from "./overtime";
+import { companyToday } from "./company-time";
+import { resolveUserShift } from "./shifts";
+import { addDays } from "./utils/shift-schedule";
+import {
+    reviewEach,
+    type ReviewDecision,
+    type ReviewOutcome,
+    type ReviewScope,
+} from "./batch-review";
+
+// One regularization request covers at most a month of days
+export const MAX_CORRECTION_DAYS = 31;
+
+export interface CorrectionItem {
+    date: string;
+    requestedCheckIn: Date | null;
+    requestedCheckOut: Date | null;
+}
+
+export type CorrectionDecision = ReviewDecision;
+
+export type CorrectionOutcome = ReviewOutcome<CorrectionRequest>;
+
+function punches(
+    value: Pick<CorrectionRequest, "requestedCheckIn" | "requestedCheckOut">
+) {
+    return {
+        checkIn: value.requestedCheckIn,
+        checkOut: value.requestedCheckOut,
+    };
+}
+
+// Checks the days of a regularization request against the company's filing window
+// and monthly cap. Returns why the request can't be filed, if so.
+export async function validateCorrectionItems(
+    user: Pick<User, "id" | "companyId">,
+    items: CorrectionItem[]
+): Promise<string | null> {
+    if (items.length === 0) {
+        return "At least one day is required";
+    }
+    if (items.length > MAX_CORRECTION_DAYS) {
+        return `A request can cover at most ${MAX_CORRECTION_DAYS} days`;
+    }
+
+    const dates = new Set(items.map((item) => item.date));
+    if (dates.size !== items.length) {
+        return "Each day can only appear once in a request";
+    }
+
+    const today = await companyToday(user.companyId);
+    const policy = user.companyId
+        ? await storage.getAttendancePolicyByCompany(user.companyId)
+        : null;
+    const earliest = policy?.correctionWindowDays
+        ? addDays(today, -policy.correctionWindowDays)
+        : null;
+
+    for (const item of items) {
+        if (!item.requestedCheckIn && !item.requestedCheckOut) {
+            return `Enter a check-in or check-out time for ${item.date}`;
+        }
+        if (
+            item.requestedCheckIn &&
+            item.requestedCheckOut &&
+            item.requestedCheckOut <= item.requestedCheckIn
+        ) {
+            return `Check-out must be after check-in on ${item.date}`;
+        }
+        if (item.date > today) {
+            return `${item.date} is in the future`;
+        }
+        if (earliest && item.date < earliest) {
+            return `Corrections must be filed within ${policy!.correctionWindowDays} days; ${item.date} is too old`;
+        }
+    }
+
+    const existing = await storage.getCorrectionRequestsByUser(user.id);
+    const pending = existing.find(
+        (request) => request.status === "pending" && dates.has(request.date)
+    );
+    if (pending) {
+        return `A correction for ${pending.date} is already awaiting review`;
+    }
+
+    const cap = policy?.monthlyCorrectionCap;
+    if (cap) {
+        const perMonth = new Map<string, number>();
+        for (const request of existing) {
+            if (request.status !== "rejected") {
+                const month = request.date.slice(0, 7);
+                perMonth.set(month, (perMonth.get(month) ?? 0) + 1);
+            }
+        }
+        for (const item of items) {
+            const month = item.date.slice(0, 7);
+            const count = (perMonth.get(month) ?? 0) + 1;
+            if (count > cap) {
+                return `Only ${cap} correction days are allowed per month (${month})`;
+            }
+            perMonth.set(month, count);
+        }
+    }
+
+    for (const item of items) {
+        if (item.requestedCheckIn) {
+            continue;
+        }
+        const record = await storage.getAttendanceByUserAndDate(
+            user.id,
+            item.date
+        );
+        if (!record?.checkIn) {
+            return `${item.date} has no check-in, so a check-in time is required`;
+        }
+    }
+
+    return null;
+}
+
+// Files one correction request per day. Days filed together share a batch id so
+// reviewers can see them as one regularization.
+export async function fileCorrectionRequests(
+    user: Pick<User, "id" | "companyId">,
+    items: CorrectionItem[],
+    reason: string,
+    attachment: string | null
+): Promise<CorrectionRequest[]> {
+    const batchId = items.length > 1 ? crypto.randomUUID() : null;
+    const created: CorrectionRequest[] = [];
+
+    for (const item of items) {
+        const record = await storage.getAttendanceByUserAndDate(
+            user.id,
+            item.date
+        );
+        const request = await storage.createCorrectionRequest({
+            userId: user.id,
+            companyId: user.companyId!,
+            attendanceId: record?.id ?? null,
+            batchId,
+            date: item.date,
+            requestedCheckIn: item.requestedCheckIn,
+            requestedCheckOut: item.requestedCheckOut,
+            reason,
+            attachment,
+        });
+        await storage.createAttendanceLog({
+            attendanceId: request.attendanceId,
+            userId: user.id,
+            action: "correction_requested",
+            performedBy: user.id,
+            oldValue: record
+                ? JSON.stringify({
+                      checkIn: record.checkIn,
+                      checkOut: record.checkOut,
+                      status: record.status,
+                  })
+                : null,
+            newValue: JSON.stringify({
+                requestId: request.id,
+                batchId,
+                date: item.date,
+                ...punches(request),
+            }),
+        });
+        created.push(request);
+    }
+
+    return created;
+}
+
+// Writes the requested punches onto the day's attendance, creating the record when
+// the employee never checked in, and re-settles its status
+async function applyCorrection(
+    request: CorrectionRequest,
+    reviewerId: number
+): Promise<void> {
+    const update: { checkIn?: Date; checkOut?: Date } = {};
+    if (request.requestedCheckIn) {
+        update.checkIn = request.requestedCheckIn;
+    }
+    if (request.requestedCheckOut) {
+        update.checkOut = request.requestedCheckOut;
+    }
+
+    const existing = request.attendanceId
+        ? await storage.getAttendanceById(request.attendanceId)
+        : await storage.getAttendanceByUserAndDate(request.userId, request.date);
+
+    let corrected;
+    if (existing) {
+        corrected = await storage.updateAttendanceRecord(existing.id, {
+            ...update,
+            ...(update.checkIn && !existing.checkIn
+                ? { status: "present" }
+                : {}),
+        });
+    } else {
+        const user = await storage.getUserById(request.userId);
+        const shift = user ? await resolveUserShift(user, request.date) : null;
+        corrected = await storage.createAttendanceRecord({
+            userId: request.userId,
+            companyId: request.companyId,
+            shiftId: shift?.id ?? null,
+            date: request.date,
+            ...update,
+            status: "present",
+            remarks: "Created from an approved correction request",
+        });
+        await storage.updateCorrectionRequest(request.id, {
+            attendanceId: corrected.id,
+        });
+    }
+
+    await alignSessions(corrected);
+    const settled = await settleAttendance(corrected);
+    if (Object.keys(settled).length) {
+        corrected = await storage.updateAttendanceRecord(corrected.id, settled);
+    }
+    await recordOvertime(corrected);
+
+    await storage.createAttendanceLog({
+        attendanceId: corrected.id,
+        userId: request.userId,
+        action: "correction_applied",
+        performedBy: reviewerId,
+        oldValue: existing
+            ? JSON.stringify({
+                  checkIn: existing.checkIn,
+                  checkOut: existing.checkOut,
+                  status: existing.status,
+                  workDuration: existing.workDuration,
+              })
+            : null,
+        newValue: JSON.stringify({
+            requestId: request.id,
+            checkIn: corrected.checkIn,
+            checkOut: corrected.checkOut,
+            status: corrected.status,
+            workDuration: corrected.workDuration,
+        }),
+    });
+}
+
+// Approves or rejects each request in turn; see reviewEach for the requests that are
+// skipped. An approved correction is applied before the request is marked approved, so
+// a failure leaves it pending to be approved again rather than approved but unapplied.
+export async function decideCorrections(
+    ids: number[],
+    decision: CorrectionDecision,
+    reviewer: Pick<User, "id" | "role" | "companyId">,
+    scope: ReviewScope,
+    comments: string | null
+): Promise<CorrectionOutcome[]> {
+    return reviewEach(
+        ids,
+        decision,
+        reviewer,
+        scope,
+        (id) => storage.getCorrectionRequestById(id),
+        async (request) => {
+            if (decision === "approved") {
+                await applyCorrection(request, reviewer.id);
+            } else {
+                await storage.createAttendanceLog({
+                    attendanceId: request.attendanceId,
+                    userId: request.userId,
+                    action: "correction_rejected",
+                    performedBy: reviewer.id,
+                    newValue: JSON.stringify({
+                        requestId: request.id,
+                        date: request.date,
+                        comments,
+                    }),
+                });
+            }
+            return await storage.updateCorrectionRequest(request.id, {
+                status: decision,
+                reviewedBy: reviewer.id,
+                reviewComments: comments,
+            });
+        }
+    );
+}
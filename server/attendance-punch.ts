@@ -0,0 +1,211 @@
+import { storage } from "./storage";
+import type { AttendanceRecord, InsertAttendancePunch, User } from "@shared/schema";
+import type { resolveWorkday } from "./shifts";
+import { continuesStreak } from "./working-calendar";
+import {
+    DEFAULT_LATE_THRESHOLD,
+    minutesAfterShiftStart,
+    settleAttendance,
+} from "./attendance-status";
+import { companyTimezone } from "./company-time";
+import { endBreak } from "./attendance-breaks";
+import { closeSession, openSession } from "./attendance-sessions";
+import { recordOvertime } from "./overtime";
+import { notifyLatePenalty } from "./late-penalties";
+
+export type Workday = Awaited<ReturnType<typeof resolveWorkday>>;
+
+export type CheckInDetails = Pick<
+    InsertAttendancePunch,
+    "gpsLocation" | "checkInDistance" | "checkInSite" | "deviceId"
+>;
+
+export type CheckOutDetails = Pick<
+    InsertAttendancePunch,
+    "checkOutGpsLocation" | "checkOutDistance" | "checkOutSite"
+>;
+
+// Records a check-in that already passed the company's device and location checks,
+// whether punched from the employee's own session or at a kiosk. The first check-in
+// of the day sets the arrival status and updates the attendance streak and badges.
+export async function punchIn(
+    user: User & { companyId: number },
+    workday: Workday,
+    existingRecord: AttendanceRecord | null,
+    checkInTime: Date,
+    sessionDetails: CheckInDetails,
+    ipAddress: string | null
+): Promise<AttendanceRecord> {
+    const userId = user.id;
+    const today = workday.date;
+    const policy = await storage.getAttendancePolicyByCompany(user.companyId);
+
+    // Returning after checking out opens another session on the same day;
+    // arrival status and streaks were settled by the first check-in
+    if (existingRecord?.checkIn) {
+        await openSession(
+            existingRecord,
+            checkInTime,
+            sessionDetails
+        );
+        const reopened = await storage.updateAttendanceRecord(
+            existingRecord.id,
+            { checkOut: null }
+        );
+        return reopened;
+    }
+
+    // Graded by the same rule settleAttendance applies again at check-out
+    const userShift = workday.shift;
+    const minutesLate = minutesAfterShiftStart(
+        checkInTime,
+        today,
+        userShift,
+        await companyTimezone(user.companyId)
+    );
+    const isEarly = minutesLate < 0;
+    const isLate =
+        minutesLate > (policy?.lateMarkThreshold ?? DEFAULT_LATE_THRESHOLD);
+
+    let status: "late" | "present" = isLate ? "late" : "present";
+
+    const checkInData = {
+        userId,
+        companyId: user.companyId,
+        shiftId: userShift?.id || null,
+        date: today,
+        checkIn: checkInTime,
+        status,
+        ...sessionDetails,
+        ipAddress,
+    };
+
+    const record = existingRecord
+        ? await storage.updateAttendanceRecord(
+              existingRecord.id,
+              checkInData
+          )
+        : await storage.createAttendanceRecord(checkInData);
+    await openSession(record, checkInTime, sessionDetails);
+    if (isLate) {
+        notifyLatePenalty(record).catch((error) =>
+            console.error("Failed to send late mark notice:", error)
+        );
+    }
+
+    // Update attendance streak
+    try {
+        const existingStreak = await storage.getAttendanceStreakByUser(userId);
+        
+        let currentStreak = existingStreak?.currentStreak || 0;
+        let longestStreak = existingStreak?.longestStreak || 0;
+        let earlyBirdCount = existingStreak?.earlyBirdCount || 0;
+        let onTimeCount = existingStreak?.onTimeCount || 0;
+        let lateCount = existingStreak?.lateCount || 0;
+        
+        // Continue the streak if the user was present on the last working day
+        if (
+            await continuesStreak(
+                userId,
+                user.companyId,
+                existingStreak?.lastPresentDate,
+                today
+            )
+        ) {
+            currentStreak += 1;
+        } else if (existingStreak?.lastPresentDate !== today) {
+            // Reset streak if not consecutive
+            currentStreak = 1;
+        }
+        
+        if (currentStreak > longestStreak) {
+            longestStreak = currentStreak;
+        }
+        
+        // Update counts based on status
+        if (isEarly) {
+            earlyBirdCount += 1;
+            onTimeCount += 1;
+        } else if (!isLate) {
+            onTimeCount += 1;
+        } else {
+            lateCount += 1;
+        }
+        
+        await storage.createOrUpdateAttendanceStreak({
+            userId,
+            companyId: user.companyId,
+            currentStreak,
+            longestStreak,
+            lastPresentDate: today,
+            earlyBirdCount,
+            onTimeCount,
+            lateCount,
+            absentCount: existingStreak?.absentCount || 0,
+            totalWorkingDays: (existingStreak?.totalWorkingDays || 0) + 1,
+        });
+        
+        // Award badges based on achievements
+        const currentMonth = today.substring(0, 7);
+        
+        // Early Bird badge for 5+ early check-ins
+        if (earlyBirdCount === 5 || earlyBirdCount === 10 || earlyBirdCount === 20) {
+            await storage.createAttendanceBadge({
+                userId,
+                companyId: user.companyId,
+                badgeType: "early_bird",
+                badgeName: `Early Bird ${earlyBirdCount}`,
+                description: `Checked in early ${earlyBirdCount} times`,
+                earnedDate: today,
+                month: currentMonth,
+                streakCount: earlyBirdCount,
+                isActive: true,
+            });
+        }
+        
+        // Perfect Streak badges
+        if (currentStreak === 5 || currentStreak === 10 || currentStreak === 20 || currentStreak === 30) {
+            await storage.createAttendanceBadge({
+                userId,
+                companyId: user.companyId,
+                badgeType: "streak",
+                badgeName: `${currentStreak} Day Streak`,
+                description: `Maintained ${currentStreak} consecutive days of attendance`,
+                earnedDate: today,
+                month: currentMonth,
+                streakCount: currentStreak,
+                isActive: true,
+            });
+        }
+    } catch (streakError) {
+        console.error("Error updating streak:", streakError);
+    }
+
+    return record;
+}
+
+// Closes the open session of a day and settles its work duration and status
+export async function punchOut(
+    record: AttendanceRecord,
+    checkOut: Date,
+    details: CheckOutDetails
+): Promise<AttendanceRecord> {
+    // A break still running ends with the session
+    const { breakMinutes } = await endBreak(record, checkOut);
+    await closeSession(record, checkOut, details);
+    // Net work duration and the final present/half_day/short_day status
+    const settled = await settleAttendance({
+        ...record,
+        checkOut,
+        breakMinutes,
+    });
+
+    const updatedRecord = await storage.updateAttendanceRecord(record.id, {
+        checkOut,
+        breakMinutes,
+        ...settled,
+        ...details,
+    });
+    await recordOvertime(updatedRecord);
+    return updatedRecord;
+}
@@ -0,0 +1,85 @@
+import { storage } from "./storage";
+import type { AttendancePunch, AttendanceRecord } from "@shared/schema";
+import type { CheckInDetails, CheckOutDetails } from "./attendance-punch";
+
+// Opens a punch session under the day's record. A day punched before sessions were
+// recorded gets its first session filled in from the record, so the day's totals
+// still cover it.
+export async function openSession(
+    record: AttendanceRecord,
+    checkIn: Date,
+    details: CheckInDetails
+): Promise<AttendancePunch> {
+    const punches = await storage.getPunchesByAttendance(record.id);
+    if (punches.length === 0 && record.checkIn && record.checkOut) {
+        await storage.createAttendancePunch({
+            attendanceId: record.id,
+            userId: record.userId,
+            companyId: record.companyId,
+            checkIn: record.checkIn,
+            checkOut: record.checkOut,
+            gpsLocation: record.gpsLocation,
+            checkInDistance: record.checkInDistance,
+            checkInSite: record.checkInSite,
+            checkOutGpsLocation: record.checkOutGpsLocation,
+            checkOutDistance: record.checkOutDistance,
+            checkOutSite: record.checkOutSite,
+            deviceId: record.deviceId,
+        });
+    }
+
+    return await storage.createAttendancePunch({
+        attendanceId: record.id,
+        userId: record.userId,
+        companyId: record.companyId,
+        checkIn,
+        ...details,
+    });
+}
+
+// Closes the day's open session, if there is one
+export async function closeSession(
+    record: AttendanceRecord,
+    checkOut: Date,
+    details: CheckOutDetails
+): Promise<AttendancePunch | null> {
+    const punches = await storage.getPunchesByAttendance(record.id);
+    const open = punches.find((punch) => !punch.checkOut);
+    if (!open) {
+        return null;
+    }
+    return await storage.updateAttendancePunch(open.id, {
+        checkOut,
+        ...details,
+    });
+}
+
+// Keeps the first session's check-in and the last session's check-out in line with
+// the day's punches after an admin edit or an approved correction
+export async function alignSessions(record: AttendanceRecord): Promise<void> {
+    const punches = await storage.getPunchesByAttendance(record.id);
+    if (punches.length === 0) {
+        return;
+    }
+
+    const first = punches[0];
+    const last = punches[punches.length - 1];
+    if (
+        record.checkIn &&
+        new Date(first.checkIn).getTime() !== new Date(record.checkIn).getTime()
+    ) {
+        await storage.updateAttendancePunch(first.id, {
+            checkIn: record.checkIn,
+        });
+    }
+    if (
+        record.checkOut &&
+        (!last.checkOut ||
+            new Date(last.checkOut).getTime() !==
+                new Date(record.checkOut).getTime())
+    ) {
+        await storage.updateAttendancePunch(last.id, {
+            checkOut: record.checkOut,
+        });
+    }
+}
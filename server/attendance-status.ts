@@ -0,0 +1,193 @@
+import { storage } from "./storage";
+import type {
+    AttendanceRecord,
+    InsertAttendanceRecord,
+    Shift,
+} from "@shared/schema";
+import { loadCompanyShifts } from "./shifts";
+import { companyTimezone } from "./company-time";
+import { addDays, toMinutes } from "./utils/shift-schedule";
+import { startOfDayInTimezone, zonedTime } from "./utils/timezone";
+import { loadWorkingCalendar } from "./working-calendar";
+import {
+    deriveDayStatus,
+    isLeaveDay,
+    sessionMinutes,
+    workedMinutes,
+    type ArrivalStatus,
+} from "./utils/day-status";
+
+// Check-in falls back to a 10:00 start and a 3 minute threshold without a shift/policy
+const DEFAULT_SHIFT_START = "10:00";
+export const DEFAULT_LATE_THRESHOLD = 3;
+const DEFAULT_AUTO_ABSENT_HOURS = 2;
+
+// Minutes between the start of the shift (10:00 without one) and `checkIn`, on the
+// company's clock; negative for early arrivals. Overnight check-ins after midnight
+// count from the start date.
+export function minutesAfterShiftStart(
+    checkIn: Date,
+    date: string,
+    shift: Pick<Shift, "startTime"> | null,
+    timezone: string
+): number {
+    const local = zonedTime(checkIn, timezone);
+    const dayOffset =
+        local.date > date ? 24 * 60 : local.date < date ? -24 * 60 : 0;
+    return (
+        local.minutes +
+        dayOffset -
+        toMinutes(shift?.startTime || DEFAULT_SHIFT_START)
+    );
+}
+
+// Whether `checkIn` was late for the shift the record was punched against
+async function classifyArrival(
+    record: SettleInput,
+    checkIn: Date,
+    lateMarkThreshold: number
+): Promise<ArrivalStatus> {
+    const shift = record.shiftId
+        ? await storage.getShiftById(record.shiftId)
+        : null;
+    const minutes = minutesAfterShiftStart(
+        checkIn,
+        record.date,
+        shift,
+        await companyTimezone(record.companyId)
+    );
+    return minutes > lateMarkThreshold ? "late" : "present";
+}
+
+type SettleInput = Pick<AttendanceRecord, "companyId" | "date" | "status"> & {
+    id?: number;
+    shiftId?: number | null;
+    checkIn?: Date | null;
+    checkOut?: Date | null;
+    breakMinutes?: number | null;
+};
+
+// Work duration and final day status for a record that has both punches, derived from
+// the company's halfDayHours/fullDayHours policy. workDuration is the net time after
+// breaks, which is what the status is graded on; grossDuration keeps check-in to
+// check-out, or the sum of the punch sessions on days with several. Returns no changes
+// for leave days and for days that are still open.
+export async function settleAttendance(
+    record: SettleInput
+): Promise<Partial<InsertAttendanceRecord>> {
+    if (
+        !record.checkIn ||
+        !record.checkOut ||
+        isLeaveDay(record.status)
+    ) {
+        return {};
+    }
+
+    const policy = await storage.getAttendancePolicyByCompany(record.companyId);
+    const checkIn = new Date(record.checkIn);
+    const checkOut = new Date(record.checkOut);
+    const sessions = record.id
+        ? await storage.getPunchesByAttendance(record.id)
+        : [];
+    const gross =
+        sessions.length > 1
+            ? sessionMinutes(sessions)
+            : workedMinutes(checkIn, checkOut);
+    const minutes = Math.max(0, gross - (record.breakMinutes ?? 0));
+    const arrival = await classifyArrival(
+        record,
+        checkIn,
+        policy?.lateMarkThreshold ?? DEFAULT_LATE_THRESHOLD
+    );
+
+    return {
+        workDuration: minutes,
+        grossDuration: gross,
+        status: deriveDayStatus(minutes, policy, arrival),
+    };
+}
+
+// Applies the autoAbsentHours rule: a user with no attendance record once that many
+// hours have passed since their shift started is marked absent for the workday. A
+// late check-in afterwards still replaces the absent record. Non-working days are
+// left to the end-of-day job, which records them as such. Shifts, leave and
+// attendance are loaded once for the company rather than per user.
+export async function markNoShows(
+    companyId: number,
+    now: Date
+): Promise<number> {
+    const policy = await storage.getAttendancePolicyByCompany(companyId);
+    const autoAbsentHours =
+        policy?.autoAbsentHours ?? DEFAULT_AUTO_ABSENT_HOURS;
+    if (autoAbsentHours <= 0) {
+        return 0;
+    }
+
+    const timezone = await companyTimezone(companyId);
+    const today = zonedTime(now, timezone).date;
+    const yesterday = addDays(today, -1);
+    const calendar = await loadWorkingCalendar(companyId, yesterday, today);
+    const shiftFor = await loadCompanyShifts(companyId);
+    const recorded = new Set(
+        (
+            await storage.getAttendanceByCompanyInRange(
+                companyId,
+                yesterday,
+                today
+            )
+        ).map((record) => `${record.userId}:${record.date}`)
+    );
+    const companyUsers = await storage.getUsersByCompanyId(companyId);
+    let markedCount = 0;
+
+    for (const user of companyUsers) {
+        // Yesterday is included for overnight shifts whose deadline falls after midnight
+        for (const date of [yesterday, today]) {
+            if (recorded.has(`${user.id}:${date}`)) {
+                continue;
+            }
+            const deadline = noShowDeadline(
+                shiftFor(user, date),
+                date,
+                autoAbsentHours,
+                timezone
+            );
+            // Users who joined after the deadline were never expected that day
+            if (
+                now.getTime() < deadline ||
+                user.createdAt.getTime() > deadline ||
+                calendar.nonWorkingDay(user.id, date)
+            ) {
+                continue;
+            }
+
+            await storage.createAttendanceRecord({
+                userId: user.id,
+                companyId,
+                date,
+                status: "absent",
+                checkIn: null,
+                checkOut: null,
+                workDuration: null,
+                remarks: `Auto-marked absent - no check-in within ${autoAbsentHours} hours of shift start`,
+            });
+            markedCount++;
+        }
+    }
+
+    return markedCount;
+}
+
+// When a user who has not checked in on `date` counts as a no-show
+function noShowDeadline(
+    shift: Shift | null,
+    date: string,
+    autoAbsentHours: number,
+    timezone: string
+): number {
+    const start = toMinutes(shift?.startTime || DEFAULT_SHIFT_START);
+    return (
+        startOfDayInTimezone(date, timezone).getTime() +
+        (start + autoAbsentHours * 60) * 60 * 1000
+    );
+}
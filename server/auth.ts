@@ -0,0 +1,82 @@
+import type express from "express";
+import type { User } from "@shared/schema";
+
+export const SESSION_COOKIE_NAME = "worklogix.sid";
+
+// Logs the user into a fresh session. Passport regenerates the session id on login,
+// so a pre-login session id can never be reused after authentication.
+export function establishSession(
+    req: express.Request,
+    user: User
+): Promise<void> {
+    const { password: _, ...sessionUser } = user;
+    return new Promise((resolve, reject) => {
+        req.login(sessionUser, (error) => (error ? reject(error) : resolve()));
+    });
+}
+
+export function destroySession(
+    req: express.Request,
+    res: express.Response
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        req.logout((logoutError) => {
+            if (logoutError) {
+                return reject(logoutError);
+            }
+            req.session.destroy((destroyError) => {
+                if (destroyError) {
+                    return reject(destroyError);
+                }
+                res.clearCookie(SESSION_COOKIE_NAME);
+                resolve();
+            });
+        });
+    });
+}
+
+export async function requireAuth(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    if (!req.user) {
+        return res.status(401).json({
+            message: "Authentication required",
+            code: "UNAUTHENTICATED",
+        });
+    }
+
+    if (!req.user.isActive) {
+        return res
+            .status(401)
+            .json({ message: "User account disabled", code: "USER_INACTIVE" });
+    }
+
+    next();
+}
+
+export async function requireAdmin(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+) {
+    if (!req.user) {
+        return res.status(401).json({
+            message: "Authentication required",
+            code: "UNAUTHENTICATED",
+        });
+    }
+
+    if (!req.user.isActive) {
+        return res
+            .status(401)
+            .json({ message: "User account disabled", code: "USER_INACTIVE" });
+    }
+
+    if (req.user.role !== "company_admin" && req.user.role !== "super_admin") {
+        return res.status(403).json({ message: "Admin access required" });
+    }
+
+    next();
+}
@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+export type ReviewDecision = "approved" | "rejected";
+
+export type ReviewOutcome<T> =
+    | { id: number; outcome: ReviewDecision; request: T }
+    | {
+          id: number;
+          outcome: "skipped";
+          reason: "not_found" | "forbidden" | "reviewed";
+      };
+
+// Who may review a request: admins any in their company (super admins any at all),
+// team leaders those of their own team members
+export type ReviewScope = "company" | "team";
+
+interface Reviewable {
+    userId: number;
+    companyId: number;
+    status: string;
+}
+
+// Runs `decide` on each pending request the reviewer may act on, in turn. Requests that
+// don't exist, are out of the reviewer's scope or were already reviewed are reported as
+// skipped rather than failing the batch.
+export async function reviewEach<T extends Reviewable>(
+    ids: number[],
+    decision: ReviewDecision,
+    reviewer: Pick<User, "id" | "role" | "companyId">,
+    scope: ReviewScope,
+    load: (id: number) => Promise<T | null>,
+    decide: (request: T) => Promise<T>
+): Promise<ReviewOutcome<T>[]> {
+    const teamMemberIds =
+        scope === "team"
+            ? (await storage.getTeamMembersByLeader(reviewer.id)).map(
+                  (m) => m.id
+              )
+            : [];
+    const inScope = (request: T) =>
+        scope === "team"
+            ? teamMemberIds.includes(request.userId)
+            : reviewer.role === "super_admin" ||
+              request.companyId === reviewer.companyId;
+
+    const outcomes: ReviewOutcome<T>[] = [];
+    for (const id of ids) {
+        const request = await load(id);
+        if (!request) {
+            outcomes.push({ id, outcome: "skipped", reason: "not_found" });
+            continue;
+        }
+        if (!inScope(request)) {
+            outcomes.push({ id, outcome: "skipped", reason: "forbidden" });
+            continue;
+        }
+        if (request.status !== "pending") {
+            outcomes.push({ id, outcome: "skipped", reason: "reviewed" });
+            continue;
+        }
+
+        outcomes.push({ id, outcome: decision, request: await decide(request) });
+    }
+
+    return outcomes;
+}
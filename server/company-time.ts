@@ -0,0 +1,19 @@
+import { storage } from "./storage";
+import { DEFAULT_TIMEZONE, todayInTimezone } from "./utils/timezone";
+
+// All attendance, report and leave dates are bucketed in the company's own timezone
+export async function companyTimezone(
+    companyId: number | null | undefined
+): Promise<string> {
+    if (!companyId) {
+        return DEFAULT_TIMEZONE;
+    }
+    const company = await storage.getCompanyById(companyId);
+    return company?.timezone || DEFAULT_TIMEZONE;
+}
+
+export async function companyToday(
+    companyId: number | null | undefined
+): Promise<string> {
+    return todayInTimezone(await companyTimezone(companyId));
+}
@@ -1,13 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic, log } from "./vite";
-import { WebSocketServer } from "ws";
 import { storage } from "./storage";
 import bcrypt from "bcryptjs";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { Pool } from "pg";
 import passport from "./passport";
+import { SESSION_COOKIE_NAME } from "./auth";
+import { attachRealtime } from "./realtime";
+import { resolveUserShift } from "./shifts";
+import { markNoShows } from "./attendance-status";
+import { loadWorkingCalendar } from "./working-calendar";
+import { escalateOverdueLeaveApprovals } from "./leave-approvals";
+import { runRecurringTasks } from "./recurring-tasks";
+import { addDays, isOvernightShift } from "./utils/shift-schedule";
+import { zonedTime } from "./utils/timezone";
 import dotenv from "dotenv";
 import cron from "node-cron";
 import path from "path";
@@ -41,7 +49,7 @@ app.use(
         },
         credentials: true,
         methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-        allowedHeaders: ["Content-Type", "Authorization", "x-user-id"],
+        allowedHeaders: ["Content-Type", "Authorization"],
     })
 );
 
@@ -69,12 +77,20 @@ const PgSession = connectPgSimple(session);
 const isProduction = process.env.NODE_ENV === "production";
 const isCrossOrigin = !!process.env.ALLOWED_ORIGINS;
 
+// Render/cPanel terminate TLS at a proxy; without this express-session refuses to set secure cookies
+if (isProduction) {
+    app.set("trust proxy", 1);
+}
+
 const sessionConfig: session.SessionOptions = {
+    name: SESSION_COOKIE_NAME,
     secret:
         process.env.SESSION_SECRET ||
         "worklogix-secret-key-change-in-production",
     resave: false,
     saveUninitialized: false,
+    // Sliding expiry: every authenticated request pushes the cookie's maxAge forward
+    rolling: true,
     cookie: {
         secure: isProduction,
         httpOnly: true,
@@ -99,13 +115,12 @@ if (process.env.DATABASE_URL) {
     );
 }
 
-app.use(session(sessionConfig));
+const sessionMiddleware = session(sessionConfig);
+app.use(sessionMiddleware);
 
 app.use(passport.initialize());
 app.use(passport.session());
 
-export let broadcast: (message: any) => void;
-
 app.use((req, res, next) => {
     const start = Date.now();
     const path = req.path;
@@ -176,86 +191,94 @@ async function initializeSuperAdmin() {
 
     await initializeSuperAdmin();
 
-    cron.schedule(
-        "59 23 * * *",
-        async () => {
+    // Absent marking: every tick applies each company's autoAbsentHours rule, and the
+    // end-of-day pass runs at the end of the company's own day. Every timezone offset
+    // is a multiple of 15 minutes, so exactly one tick lands in 23:45-23:59 local time.
+    cron.schedule("*/15 * * * *", async () => {
+        const now = new Date();
+        let companies;
+        try {
+            companies = await storage.getAllCompanies();
+        } catch (error) {
+            console.error("Error in daily absent marking cron job:", error);
+            return;
+        }
+
+        for (const company of companies) {
             try {
-                const today = new Date().toISOString().split("T")[0];
-                const markedCount = await storage.markAbsentUsers(today);
+                const noShows = await markNoShows(company.id, now);
+                if (noShows > 0) {
+                    log(
+                        `✅ Auto-marked ${noShows} users as absent after the no-show window (${company.name})`
+                    );
+                }
+
+                const local = zonedTime(now, company.timezone);
+                if (local.minutes < 23 * 60 + 45) continue;
+
+                const today = local.date;
+                const yesterday = addDays(today, -1);
+                const calendar = await loadWorkingCalendar(
+                    company.id,
+                    yesterday,
+                    today
+                );
+
+                // Overnight shifts only end the next morning, so those users are
+                // settled a day later than everyone else
+                const markedCount = await storage.markAbsentUsers(
+                    company.id,
+                    today,
+                    async (user) =>
+                        !isOvernightShift(await resolveUserShift(user, today)),
+                    calendar
+                );
+                const markedOvernight = await storage.markAbsentUsers(
+                    company.id,
+                    yesterday,
+                    async (user) =>
+                        isOvernightShift(await resolveUserShift(user, yesterday)),
+                    calendar
+                );
                 log(
-                    `✅ Auto-marked ${markedCount} users as absent for ${today}`
+                    `✅ Auto-marked ${markedCount} users without a check-in for ${today} and ${markedOvernight} overnight-shift users for ${yesterday} (${company.name}, ${company.timezone})`
                 );
             } catch (error) {
-                console.error("Error in daily absent marking cron job:", error);
+                console.error(
+                    `Error in daily absent marking for company ${company.id}:`,
+                    error
+                );
             }
-        },
-        {
-            timezone: "Asia/Kolkata",
         }
-    );
-
-    log("📅 Daily absent marking cron job scheduled at 11:59 PM IST");
-
-    const wss = new WebSocketServer({ noServer: true });
+    });
 
-    server.on("upgrade", (request, socket, head) => {
-        const url = request.url || "";
-        log(`[WebSocket] Upgrade request received for: ${url}`);
+    log("📅 Daily absent marking cron job scheduled at 11:45 PM in each company's timezone");
 
-        // Use startsWith to handle query parameters that Render might add
-        if (url.startsWith("/ws")) {
-            log(`[WebSocket] Upgrading connection for path: ${url}`);
-            wss.handleUpgrade(request, socket, head, (ws) => {
-                wss.emit("connection", ws, request);
-            });
-        } else {
-            log(`[WebSocket] Rejected upgrade for path: ${url}`);
-            socket.destroy();
+    // Leave approval steps left undecided past the company's SLA move up the chain
+    cron.schedule("*/15 * * * *", async () => {
+        try {
+            const escalated = await escalateOverdueLeaveApprovals(new Date());
+            if (escalated > 0) {
+                log(`⏫ Escalated ${escalated} overdue leave approvals`);
+            }
+        } catch (error) {
+            console.error("Error in leave approval escalation cron job:", error);
         }
     });
 
-    // Ping interval to keep connections alive (Render has 60s timeout)
-    const pingInterval = setInterval(() => {
-        wss.clients.forEach((ws) => {
-            if (ws.readyState === 1) {
-                ws.ping();
+    // Recurring tasks are generated on the first tick of each company's day
+    cron.schedule("*/15 * * * *", async () => {
+        try {
+            const created = await runRecurringTasks(new Date());
+            if (created > 0) {
+                log(`🔁 Generated ${created} tasks from recurring tasks`);
             }
-        });
-    }, 30000); // Ping every 30 seconds
-
-    wss.on("close", () => {
-        clearInterval(pingInterval);
-    });
-
-    wss.on("connection", (ws) => {
-        log(`[WebSocket] Client connected. Total clients: ${wss.clients.size}`);
-
-        ws.on("error", (error) => {
-            console.error("[WebSocket] Client error:", error);
-        });
-
-        ws.on("pong", () => {
-            // Client responded to ping - connection is alive
-        });
-
-        ws.on("close", () => {
-            log(
-                `[WebSocket] Client disconnected. Total clients: ${wss.clients.size}`
-            );
-        });
+        } catch (error) {
+            console.error("Error in recurring task cron job:", error);
+        }
     });
 
-    broadcast = (message: any) => {
-        console.log(
-            `[WebSocket] Broadcasting to ${wss.clients.size} clients:`,
-            message.type
-        );
-        wss.clients.forEach((client) => {
-            if (client.readyState === 1) {
-                client.send(JSON.stringify(message));
-            }
-        });
-    };
+    attachRealtime(server, sessionMiddleware);
 
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
         const status = err.status || err.statusCode || 500;
@@ -0,0 +1,339 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { storage } from "./storage";
+import type { AttendanceKiosk, AttendanceRecord, User } from "@shared/schema";
+import { companyToday } from "./company-time";
+import { findCurrentAttendance, resolveWorkday } from "./shifts";
+import { punchIn, punchOut } from "./attendance-punch";
+import {
+    evaluatePunchLocation,
+    type PunchLocationCheck,
+} from "./utils/geofence";
+
+// The kiosk QR code changes every 30 seconds, and as soon as someone scans it; a scan of
+// the previous code still counts so an employee who scanned just before it rotated is
+// not turned away
+export const KIOSK_CODE_SECONDS = 30;
+
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCK_MINUTES = 15;
+
+export type KioskPunchAction = "check_in" | "check_out";
+
+export function hashKioskToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+const KIOSK_LOCATION_ERRORS: Record<
+    Exclude<PunchLocationCheck, { allowed: true }>["reason"],
+    string
+> = {
+    gps_required:
+        "Your company requires a GPS location for attendance. Allow location access on the kiosk.",
+    no_geofence:
+        "Your company requires attendance at an office location, but none is set up yet.",
+    outside_geofence: "The kiosk must be inside an office location.",
+};
+
+// Where the kiosk stands, held to the company's GPS policy like any other punch
+async function kioskLocation(
+    companyId: number,
+    gpsLocation: string | null
+): Promise<PunchLocationCheck> {
+    const policy = await storage.getAttendancePolicyByCompany(companyId);
+    return evaluatePunchLocation(
+        gpsLocation,
+        await storage.getGeofencesByCompany(companyId),
+        policy?.requireGPS ?? false
+    );
+}
+
+// Registers the browser an admin is signed in on as a kiosk of their company. The
+// returned token is shown only once; the kiosk keeps it to authenticate its requests.
+// When the policy requires GPS, the kiosk has to stand inside an office geofence.
+export async function registerKiosk(
+    admin: Pick<User, "id"> & { companyId: number },
+    details: { name: string; deviceId: string; gpsLocation: string | null }
+): Promise<{ kiosk: AttendanceKiosk | null; token: string | null; error: string | null }> {
+    const location = await kioskLocation(admin.companyId, details.gpsLocation);
+    if (!location.allowed) {
+        return {
+            kiosk: null,
+            token: null,
+            error: KIOSK_LOCATION_ERRORS[location.reason],
+        };
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+    const kiosk = await storage.createAttendanceKiosk({
+        companyId: admin.companyId,
+        name: details.name,
+        deviceId: details.deviceId,
+        tokenHash: hashKioskToken(token),
+        gpsLocation: details.gpsLocation,
+        site: location.site,
+        isActive: true,
+        createdBy: admin.id,
+    });
+    await storage.createAttendanceLog({
+        attendanceId: null,
+        userId: admin.id,
+        action: "kiosk_registered",
+        performedBy: admin.id,
+        newValue: kiosk.name,
+    });
+    return { kiosk, token, error: null };
+}
+
+// The active kiosk a request comes from. Kiosks send their token as
+// "Authorization: Kiosk <token>".
+export async function kioskFromAuthorization(
+    authorization: string | undefined
+): Promise<AttendanceKiosk | null> {
+    const [scheme, token] = (authorization ?? "").split(" ");
+    if (scheme !== "Kiosk" || !token) {
+        return null;
+    }
+    const kiosk = await storage.getAttendanceKioskByTokenHash(
+        hashKioskToken(token)
+    );
+    if (!kiosk?.isActive) {
+        return null;
+    }
+    return await storage.updateAttendanceKiosk(kiosk.id, {
+        lastSeenAt: new Date(),
+    });
+}
+
+function codeSignature(
+    kiosk: AttendanceKiosk,
+    window: number,
+    nonce: string
+): string {
+    return crypto
+        .createHmac("sha256", kiosk.tokenHash)
+        .update(`${kiosk.id}:${window}:${nonce}`)
+        .digest("hex")
+        .slice(0, 20);
+}
+
+function parseKioskCode(code: string) {
+    const [kioskId, window, nonce, signature] = code.split(".");
+    return {
+        kioskId: parseInt(kioskId),
+        window: parseInt(window),
+        nonce: nonce ?? "",
+        signature: signature ?? "",
+    };
+}
+
+function codeWindow(now: Date): number {
+    return Math.floor(now.getTime() / 1000 / KIOSK_CODE_SECONDS);
+}
+
+// The code the kiosk shows as a QR code, as "<kiosk id>.<window>.<nonce>.<signature>".
+// The kiosk passes the code it is showing; it keeps it while it is in the current
+// window and nobody has scanned it, and otherwise gets a new one.
+export async function kioskCode(
+    kiosk: AttendanceKiosk,
+    now: Date,
+    shown: string | undefined
+): Promise<{ code: string; expiresAt: Date }> {
+    const window = codeWindow(now);
+    const expiresAt = new Date((window + 1) * KIOSK_CODE_SECONDS * 1000);
+    if (shown) {
+        const parsed = parseKioskCode(shown);
+        if (
+            parsed.kioskId === kiosk.id &&
+            parsed.window === window &&
+            parsed.signature === codeSignature(kiosk, window, parsed.nonce) &&
+            !(await storage.isKioskCodeRedeemed(kiosk.id, parsed.nonce))
+        ) {
+            return { code: shown, expiresAt };
+        }
+    }
+
+    const nonce = crypto.randomBytes(8).toString("hex");
+    return {
+        code: `${kiosk.id}.${window}.${nonce}.${codeSignature(kiosk, window, nonce)}`,
+        expiresAt,
+    };
+}
+
+// The kiosk a scanned code was shown on, if the code is current, genuine and not
+// scanned before. Redeeming the code uses it up, whatever the punch then does.
+export async function redeemKioskCode(
+    code: string,
+    now: Date
+): Promise<AttendanceKiosk | null> {
+    const { kioskId, window, nonce, signature } = parseKioskCode(code);
+    const current = codeWindow(now);
+    if (window !== current && window !== current - 1) {
+        return null;
+    }
+
+    const kiosk = await storage.getAttendanceKioskById(kioskId);
+    if (!kiosk?.isActive || !nonce) {
+        return null;
+    }
+    const expected = codeSignature(kiosk, window, nonce);
+    if (
+        signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+        return null;
+    }
+
+    // Codes from before the previous window are refused anyway, so their records can go
+    await storage.deleteKioskCodeRedemptionsBefore(
+        new Date((current - 1) * KIOSK_CODE_SECONDS * 1000)
+    );
+    if (!(await storage.redeemKioskCode(kiosk.id, nonce))) {
+        return null;
+    }
+    return kiosk;
+}
+
+// Looks up the employee punching in at a kiosk with their user ID and PIN. Repeated
+// wrong PINs lock the PIN for a while.
+export async function verifyKioskPin(
+    kiosk: AttendanceKiosk,
+    uniqueUserId: string,
+    pin: string,
+    now: Date
+): Promise<{ user: User | null; error: string | null }> {
+    const invalid = { user: null, error: "Invalid user ID or PIN" };
+    const user = await storage.getUserByUniqueUserId(uniqueUserId);
+    if (!user || !user.isActive || user.companyId !== kiosk.companyId) {
+        return invalid;
+    }
+
+    // Answered like a wrong PIN, so the kiosk does not reveal which user IDs exist;
+    // the attendance page reminds employees without a PIN to set one
+    const kioskPin = await storage.getKioskPinByUser(user.id);
+    if (!kioskPin) {
+        return invalid;
+    }
+    if (kioskPin.lockedUntil && kioskPin.lockedUntil > now) {
+        return {
+            user: null,
+            error: "Too many wrong PINs. Try again later or use the QR code.",
+        };
+    }
+
+    if (!(await bcrypt.compare(pin, kioskPin.pinHash))) {
+        const failedAttempts = kioskPin.failedAttempts + 1;
+        const locked = failedAttempts >= MAX_PIN_ATTEMPTS;
+        await storage.updateKioskPin(user.id, {
+            failedAttempts: locked ? 0 : failedAttempts,
+            lockedUntil: locked
+                ? new Date(now.getTime() + PIN_LOCK_MINUTES * 60 * 1000)
+                : null,
+        });
+        await storage.createAttendanceLog({
+            attendanceId: null,
+            userId: user.id,
+            action: "kiosk_pin_rejected",
+            performedBy: user.id,
+            newValue: kiosk.name,
+        });
+        return invalid;
+    }
+
+    if (kioskPin.failedAttempts > 0) {
+        await storage.updateKioskPin(user.id, {
+            failedAttempts: 0,
+            lockedUntil: null,
+        });
+    }
+    return { user, error: null };
+}
+
+export async function setKioskPin(
+    user: Pick<User, "id"> & { companyId: number },
+    pin: string
+) {
+    return await storage.setKioskPin({
+        userId: user.id,
+        companyId: user.companyId,
+        pinHash: await bcrypt.hash(pin, 10),
+    });
+}
+
+// Checks the employee in or out at the kiosk, as they asked. Checking in with a session
+// open or out without one is refused, so a repeated punch never undoes the first. The
+// punch carries the kiosk's device ID and location; the employee's own device binding
+// and GPS do not apply, since the kiosk is a trusted device at a known place.
+export async function kioskPunch(
+    kiosk: AttendanceKiosk,
+    user: User,
+    action: KioskPunchAction,
+    now: Date,
+    ipAddress: string | null
+): Promise<{
+    record: AttendanceRecord | null;
+    action: KioskPunchAction | null;
+    error: string | null;
+}> {
+    if (!user.companyId || user.companyId !== kiosk.companyId) {
+        return { record: null, action: null, error: "User not found" };
+    }
+    const location = await kioskLocation(kiosk.companyId, kiosk.gpsLocation);
+    if (!location.allowed) {
+        return {
+            record: null,
+            action: null,
+            error: KIOSK_LOCATION_ERRORS[location.reason],
+        };
+    }
+    const site = location.site ?? kiosk.site ?? kiosk.name;
+
+    const current = await findCurrentAttendance(
+        user.id,
+        await companyToday(user.companyId)
+    );
+    const checkedIn = !!current?.checkIn && !current.checkOut;
+    if (action === "check_in" && checkedIn) {
+        return { record: null, action: null, error: "You are already checked in" };
+    }
+    if (action === "check_out" && !checkedIn) {
+        return { record: null, action: null, error: "You are not checked in" };
+    }
+
+    let record: AttendanceRecord;
+    if (action === "check_out") {
+        record = await punchOut(current!, now, {
+            checkOutGpsLocation: kiosk.gpsLocation,
+            checkOutDistance: location.distance,
+            checkOutSite: site,
+        });
+    } else {
+        const workday = await resolveWorkday(user, now);
+        const existing = await storage.getAttendanceByUserAndDate(
+            user.id,
+            workday.date
+        );
+        record = await punchIn(
+            { ...user, companyId: user.companyId },
+            workday,
+            existing,
+            now,
+            {
+                gpsLocation: kiosk.gpsLocation,
+                checkInDistance: location.distance,
+                checkInSite: site,
+                deviceId: kiosk.deviceId,
+            },
+            ipAddress
+        );
+    }
+
+    await storage.createAttendanceLog({
+        attendanceId: record.id,
+        userId: user.id,
+        action: `kiosk_${action}`,
+        performedBy: user.id,
+        newValue: kiosk.name,
+    });
+    return { record, action, error: null };
+}
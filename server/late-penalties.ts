@@ -0,0 +1,187 @@
+import { storage } from "./storage";
+import type { AttendanceRecord, Shift } from "@shared/schema";
+import { channels, publish } from "./realtime";
+import { sendPushNotificationToUser } from "./lib/firebase-admin";
+import { companyTimezone } from "./company-time";
+import {
+    DEFAULT_LATE_THRESHOLD,
+    minutesAfterShiftStart,
+} from "./attendance-status";
+import { monthBounds } from "./utils/shift-schedule";
+import { isLeaveDay, isNonWorkingDay } from "./utils/day-status";
+import {
+    latePenalty,
+    type LateDay,
+    type LatePenalty,
+    type LatePenaltyRules,
+} from "./utils/late-penalty";
+
+export type UserLatePenalty = LatePenalty & {
+    userId: number;
+    userName: string;
+};
+
+// Companies without a saved policy have no penalty rules
+const NO_PENALTY_RULES: LatePenaltyRules = {
+    lateMarksPerDeduction: null,
+    lateMarkDeductionDays: 0.5,
+    severeLateMinutes: null,
+};
+
+interface LateContext {
+    rules: LatePenaltyRules;
+    threshold: number;
+    timezone: string;
+    shifts: Map<number, Shift>;
+}
+
+async function lateContext(
+    companyId: number,
+    overrides: Partial<LatePenaltyRules> = {}
+): Promise<LateContext> {
+    const policy = await storage.getAttendancePolicyByCompany(companyId);
+    const shifts = await storage.getShiftsByCompany(companyId);
+    return {
+        rules: {
+            lateMarksPerDeduction:
+                policy?.lateMarksPerDeduction ??
+                NO_PENALTY_RULES.lateMarksPerDeduction,
+            lateMarkDeductionDays:
+                policy?.lateMarkDeductionDays ??
+                NO_PENALTY_RULES.lateMarkDeductionDays,
+            severeLateMinutes:
+                policy?.severeLateMinutes ?? NO_PENALTY_RULES.severeLateMinutes,
+            ...overrides,
+        },
+        threshold: policy?.lateMarkThreshold ?? DEFAULT_LATE_THRESHOLD,
+        timezone: await companyTimezone(companyId),
+        shifts: new Map(shifts.map((s) => [s.id, s])),
+    };
+}
+
+// Arrivals past the late mark threshold, measured against the shift each day was
+// punched for, the same way check-in marks a day late
+function lateDays(records: AttendanceRecord[], context: LateContext): LateDay[] {
+    return records.flatMap((record): LateDay[] => {
+        // Nobody is expected in on leave, holidays or weekly offs
+        if (
+            !record.checkIn ||
+            isLeaveDay(record.status) ||
+            isNonWorkingDay(record.status)
+        ) {
+            return [];
+        }
+        const shift = record.shiftId
+            ? context.shifts.get(record.shiftId) ?? null
+            : null;
+        const minutesLate = minutesAfterShiftStart(
+            new Date(record.checkIn),
+            record.date,
+            shift,
+            context.timezone
+        );
+        if (minutesLate <= context.threshold) {
+            return [];
+        }
+        return [
+            {
+                date: record.date,
+                minutesLate,
+                fullDay: record.status === "present" || record.status === "late",
+            },
+        ];
+    });
+}
+
+export async function userLatePenalty(
+    userId: number,
+    companyId: number,
+    month: number,
+    year: number
+): Promise<LatePenalty> {
+    const { startDate, endDate } = monthBounds(year, month);
+    const context = await lateContext(companyId);
+    const records = await storage.getAttendanceHistory(
+        userId,
+        startDate,
+        endDate
+    );
+    return latePenalty(lateDays(records, context), context.rules);
+}
+
+// Late penalties of every employee for a month. `overrides` replaces the saved rules,
+// so admins can preview a change before saving it.
+export async function evaluateLatePenalties(
+    companyId: number,
+    month: number,
+    year: number,
+    overrides: Partial<LatePenaltyRules> = {}
+): Promise<{ rules: LatePenaltyRules; penalties: UserLatePenalty[] }> {
+    const { startDate, endDate } = monthBounds(year, month);
+    const context = await lateContext(companyId, overrides);
+    const companyUsers = await storage.getUsersByCompanyId(companyId);
+    const records = await storage.getAttendanceByCompanyInRange(
+        companyId,
+        startDate,
+        endDate
+    );
+
+    const penalties = companyUsers.map((user) => ({
+        userId: user.id,
+        userName: user.displayName,
+        ...latePenalty(
+            lateDays(
+                records.filter((r) => r.userId === user.id),
+                context
+            ),
+            context.rules
+        ),
+    }));
+    return { rules: context.rules, penalties };
+}
+
+// Tells an employee who just checked in late where they stand for the month: one
+// mark short of a deduction, a deduction reached, or a day counted as half for
+// arriving too late. Other late marks pass without a notice.
+export async function notifyLatePenalty(
+    record: AttendanceRecord
+): Promise<void> {
+    const [year, month] = record.date.split("-").map(Number);
+    const penalty = await userLatePenalty(
+        record.userId,
+        record.companyId,
+        month,
+        year
+    );
+    const policy = await storage.getAttendancePolicyByCompany(
+        record.companyId
+    );
+    const perDeduction = policy?.lateMarksPerDeduction ?? null;
+
+    let title: string;
+    let body: string;
+    if (penalty.severeLateDays.includes(record.date)) {
+        title = "Late Arrival: Half Day";
+        body = `You checked in more than ${policy?.severeLateMinutes} minutes late, so today counts as a half day.`;
+    } else if (perDeduction && penalty.marksToNextDeduction === perDeduction) {
+        title = "Late Mark Deduction";
+        body = `You have ${penalty.lateMarks} late marks this month. ${policy?.lateMarkDeductionDays} day will be deducted for every ${perDeduction}.`;
+    } else if (penalty.marksToNextDeduction === 1) {
+        title = "Late Mark Warning";
+        body = `You have ${penalty.lateMarks} late marks this month. One more will lead to a ${policy?.lateMarkDeductionDays} day deduction.`;
+    } else {
+        return;
+    }
+
+    publish(channels.user(record.userId), {
+        type: "LATE_PENALTY_NOTICE",
+        data: { title, body, ...penalty },
+    });
+    await sendPushNotificationToUser(
+        record.userId,
+        title,
+        body,
+        { url: "/user/attendance" },
+        storage
+    );
+}
@@ -0,0 +1,312 @@
+import { storage } from "./storage";
+import type { Leave, LeaveApproval, User } from "@shared/schema";
+import { channels, publish } from "./realtime";
+import {
+    approvalChain,
+    dueAt,
+    DEFAULT_APPROVAL_STEPS,
+    DEFAULT_SLA_HOURS,
+} from "./utils/approval-chain";
+
+type Actor = Pick<User, "id" | "role" | "displayName">;
+
+// Realtime audience for leave events: the applicant, their team leader and the company admins
+export async function leaveChannels(leave: Leave): Promise<string[]> {
+    const audience = [
+        channels.user(leave.userId),
+        channels.companyAdmins(leave.companyId),
+    ];
+    const leader = await storage.getTeamLeaderByMember(leave.userId);
+    if (leader) {
+        audience.push(channels.user(leader.id));
+    }
+    return audience;
+}
+
+function isAdmin(actor: Pick<User, "role">): boolean {
+    return actor.role === "company_admin" || actor.role === "super_admin";
+}
+
+async function slaHoursFor(companyId: number): Promise<number> {
+    const policy = await storage.getLeaveApprovalPolicy(companyId);
+    return policy?.slaHours ?? DEFAULT_SLA_HOURS;
+}
+
+// Creates the approval steps of a new leave, or of a change to an approved one, from the
+// company's chain. The first step becomes pending; team leader steps are skipped when
+// nobody leads the requester.
+export async function startLeaveApproval(
+    leave: Leave,
+    subject: "request" | "cancel" | "modify" = "request"
+): Promise<void> {
+    const policy = await storage.getLeaveApprovalPolicy(leave.companyId);
+    const chain = approvalChain(
+        policy?.steps ?? DEFAULT_APPROVAL_STEPS,
+        leave.days,
+        policy?.longLeaveDays ?? null
+    );
+
+    const requester = await storage.getUserById(leave.userId);
+    const hasTeamLeader =
+        requester?.role !== "team_leader" &&
+        !!(await storage.getTeamLeaderByMember(leave.userId));
+    if (!hasTeamLeader && !chain.includes("company_admin")) {
+        chain.push("company_admin");
+    }
+
+    const now = new Date();
+    const slaHours = policy?.slaHours ?? DEFAULT_SLA_HOURS;
+    const firstIndex = nextStepIndex(
+        await storage.getLeaveApprovalsByLeave(leave.id)
+    );
+    let activated = false;
+    for (let i = 0; i < chain.length; i++) {
+        const approverRole = chain[i];
+        const skipped = approverRole === "team_leader" && !hasTeamLeader;
+        const status: string = skipped
+            ? "skipped"
+            : activated
+            ? "waiting"
+            : "pending";
+        await storage.createLeaveApproval({
+            leaveId: leave.id,
+            companyId: leave.companyId,
+            stepIndex: firstIndex + i,
+            approverRole,
+            subject,
+            status,
+            remarks: skipped ? "No team leader to approve" : null,
+            dueAt: status === "pending" ? dueAt(now, slaHours) : null,
+        });
+        activated ||= status === "pending";
+    }
+}
+
+// The step a leave is waiting on; null for leaves requested before approval chains
+export async function currentApprovalStep(
+    leaveId: number
+): Promise<LeaveApproval | null> {
+    const [step] = await storage.getPendingLeaveApprovals([leaveId]);
+    return step ?? null;
+}
+
+// Adds the role whose decision each pending leave or change is waiting on, for the
+// approval screens
+export async function withAwaitingApprover<T extends Leave>(
+    leaves: T[]
+): Promise<(T & { awaitingApprover: string | null })[]> {
+    const pendingSteps = await storage.getPendingLeaveApprovals(
+        leaves
+            .filter((l) => l.status === "pending" || l.changeType)
+            .map((l) => l.id)
+    );
+    return leaves.map((leave) => ({
+        ...leave,
+        awaitingApprover:
+            pendingSteps.find((s) => s.leaveId === leave.id)?.approverRole ??
+            null,
+    }));
+}
+
+// Admins may decide at any step; team leaders only on their own team's team leader step
+export async function canDecideStep(
+    actor: Actor,
+    leave: Leave,
+    step: LeaveApproval | null
+): Promise<boolean> {
+    if (isAdmin(actor)) {
+        return true;
+    }
+    if (actor.role !== "team_leader") {
+        return false;
+    }
+    if (step && step.approverRole !== "team_leader") {
+        return false;
+    }
+    const leader = await storage.getTeamLeaderByMember(leave.userId);
+    return leader?.id === actor.id;
+}
+
+// Whether approving `step` finishes the chain: an admin's approval always does
+export async function isFinalApproval(
+    actor: Actor,
+    step: LeaveApproval | null
+): Promise<boolean> {
+    if (!step || isAdmin(actor)) {
+        return true;
+    }
+    const trail = await storage.getLeaveApprovalsByLeave(step.leaveId);
+    return !trail.some((s) => s.status === "waiting");
+}
+
+function nextStepIndex(trail: LeaveApproval[]): number {
+    return trail.length > 0 ? trail[trail.length - 1].stepIndex + 1 : 0;
+}
+
+// Closes the steps that had not been reached yet, and the current one with them when
+// `includeCurrent` is set
+async function skipRemainingSteps(
+    leaveId: number,
+    includeCurrent = false
+): Promise<void> {
+    const trail = await storage.getLeaveApprovalsByLeave(leaveId);
+    for (const s of trail) {
+        if (s.status === "waiting" || (includeCurrent && s.status === "pending")) {
+            await storage.updateLeaveApproval(s.id, { status: "skipped" });
+        }
+    }
+}
+
+// Closes the open steps of a request the employee withdrew
+export async function closeLeaveApproval(leaveId: number): Promise<void> {
+    await skipRemainingSteps(leaveId, true);
+}
+
+// Activates the next waiting step, or appends an admin step if there is none
+async function advance(
+    leave: Leave,
+    after: LeaveApproval,
+    now: Date
+): Promise<LeaveApproval> {
+    const slaHours = await slaHoursFor(leave.companyId);
+    const trail = await storage.getLeaveApprovalsByLeave(leave.id);
+    const next = trail.find(
+        (s) => s.status === "waiting" && s.stepIndex > after.stepIndex
+    );
+    if (next) {
+        return (await storage.updateLeaveApproval(next.id, {
+            status: "pending",
+            dueAt: dueAt(now, slaHours),
+        }))!;
+    }
+
+    return await storage.createLeaveApproval({
+        leaveId: leave.id,
+        companyId: leave.companyId,
+        stepIndex: nextStepIndex(trail),
+        approverRole: "company_admin",
+        subject: after.subject,
+        status: "pending",
+        dueAt: dueAt(now, slaHours),
+    });
+}
+
+// Records a decision on the current step. Decisions on leaves that aren't waiting on a
+// step (requested before approval chains, or already decided) are appended to the trail.
+export async function recordLeaveDecision(
+    leave: Leave,
+    step: LeaveApproval | null,
+    actor: Actor,
+    decision: "approved" | "rejected",
+    remarks: string | null,
+    final: boolean
+): Promise<void> {
+    const now = new Date();
+    if (!step) {
+        const trail = await storage.getLeaveApprovalsByLeave(leave.id);
+        await storage.createLeaveApproval({
+            leaveId: leave.id,
+            companyId: leave.companyId,
+            stepIndex: nextStepIndex(trail),
+            approverRole: isAdmin(actor) ? "company_admin" : "team_leader",
+            subject: leave.changeType ?? "request",
+            status: decision,
+            actedBy: actor.id,
+            actedAt: now,
+            remarks,
+        });
+        return;
+    }
+
+    await storage.updateLeaveApproval(step.id, {
+        status: decision,
+        actedBy: actor.id,
+        actedAt: now,
+        remarks,
+    });
+
+    if (decision === "rejected" || final) {
+        await skipRemainingSteps(leave.id);
+    } else {
+        await advance(leave, step, now);
+    }
+}
+
+// Admins setting a leave's status directly close the open steps and leave a note in
+// the trail. Reopening a leave hands it to an admin step.
+export async function recordStatusOverride(
+    leave: Leave,
+    actor: Actor,
+    status: "pending" | "approved" | "rejected"
+): Promise<void> {
+    const now = new Date();
+    await skipRemainingSteps(leave.id, true);
+
+    const stepIndex = nextStepIndex(
+        await storage.getLeaveApprovalsByLeave(leave.id)
+    );
+    if (status === "pending") {
+        await storage.createLeaveApproval({
+            leaveId: leave.id,
+            companyId: leave.companyId,
+            stepIndex,
+            approverRole: "company_admin",
+            status: "pending",
+            remarks: `Reopened by ${actor.displayName}`,
+            dueAt: dueAt(now, await slaHoursFor(leave.companyId)),
+        });
+        return;
+    }
+
+    await storage.createLeaveApproval({
+        leaveId: leave.id,
+        companyId: leave.companyId,
+        stepIndex,
+        approverRole: "company_admin",
+        status,
+        actedBy: actor.id,
+        actedAt: now,
+        remarks: "Status changed directly",
+    });
+}
+
+// Escalates steps that sat idle past the company's SLA to the next level. Admin steps
+// have nowhere further to go and stay pending.
+export async function escalateOverdueLeaveApprovals(
+    now: Date
+): Promise<number> {
+    let escalatedCount = 0;
+    for (const step of await storage.getOverdueLeaveApprovals(now)) {
+        if (step.approverRole === "company_admin") {
+            continue;
+        }
+
+        const leave = await storage.getLeaveById(step.leaveId);
+        if (!leave || (leave.status !== "pending" && !leave.changeType)) {
+            continue;
+        }
+
+        const slaHours = await slaHoursFor(leave.companyId);
+        await storage.updateLeaveApproval(step.id, {
+            status: "escalated",
+            actedAt: now,
+            remarks: `No decision within ${slaHours} hours`,
+        });
+        const next = await advance(leave, step, now);
+        escalatedCount++;
+
+        const leaveUser = await storage.getUserById(leave.userId);
+        publish(await leaveChannels(leave), {
+            type: "LEAVE_STATUS_UPDATE",
+            data: {
+                leaveId: leave.id,
+                userId: leave.userId,
+                userName: leaveUser?.displayName,
+                status: "escalated",
+                approverRole: next.approverRole,
+                companyId: leave.companyId,
+            },
+        });
+    }
+    return escalatedCount;
+}
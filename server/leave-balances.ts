@@ -0,0 +1,347 @@
+import { storage } from "./storage";
+import type {
+    Leave,
+    LeaveBalance,
+    LeaveBalanceSummary,
+    LeaveType,
+} from "@shared/schema";
+import { companyToday } from "./company-time";
+import { loadWorkingCalendar } from "./working-calendar";
+import {
+    accruedDays,
+    carryForwardDays,
+    countLeaveDaysByYear,
+    yearOf,
+} from "./utils/leave-balance";
+
+export interface LeaveRequestInput {
+    leaveType: string;
+    startDate: string;
+    endDate: string;
+    isHalfDay: boolean;
+}
+
+// What was left of the previous year's balance, up to the type's cap. Worked out on
+// every read rather than once, so leave approved or revoked in the previous year after
+// the new year started still carries forward correctly.
+async function carriedForwardInto(
+    userId: number,
+    leaveType: LeaveType,
+    year: number
+): Promise<number> {
+    const previous = await storage.getLeaveBalance(
+        userId,
+        leaveType.id,
+        year - 1
+    );
+    if (!previous) {
+        return 0;
+    }
+    const unused =
+        accruedDays(leaveType, 12) +
+        (await carriedForwardInto(userId, leaveType, year - 1)) -
+        previous.used;
+    return carryForwardDays(unused, leaveType.carryForwardCap);
+}
+
+// A user's balance row for a leave type and year, created on first use
+async function balanceRow(
+    userId: number,
+    companyId: number,
+    leaveType: LeaveType,
+    year: number
+): Promise<LeaveBalance> {
+    const carriedForward = await carriedForwardInto(userId, leaveType, year);
+    const existing = await storage.getLeaveBalance(userId, leaveType.id, year);
+    if (existing) {
+        return existing.carriedForward === carriedForward
+            ? existing
+            : await storage.updateLeaveBalanceCarriedForward(
+                  existing.id,
+                  carriedForward
+              );
+    }
+
+    return await storage.createLeaveBalance({
+        companyId,
+        userId,
+        leaveTypeId: leaveType.id,
+        year,
+        carriedForward,
+        used: 0,
+    });
+}
+
+function summarize(
+    leaveType: LeaveType,
+    balance: LeaveBalance,
+    month: number
+): LeaveBalanceSummary {
+    const accrued = accruedDays(leaveType, month);
+    return {
+        leaveTypeId: leaveType.id,
+        code: leaveType.code,
+        name: leaveType.name,
+        year: balance.year,
+        accrued,
+        carriedForward: balance.carriedForward,
+        used: balance.used,
+        available: accrued + balance.carriedForward - balance.used,
+    };
+}
+
+// Balance of one leave type, accrued through the month of `date`
+async function balanceOn(
+    userId: number,
+    companyId: number,
+    leaveType: LeaveType,
+    date: string
+): Promise<{ row: LeaveBalance; summary: LeaveBalanceSummary }> {
+    const [year, month] = date.split("-").map(Number);
+    const row = await balanceRow(userId, companyId, leaveType, year);
+    return { row, summary: summarize(leaveType, row, month) };
+}
+
+// Current balances of every active leave type of the user's company
+export async function getLeaveBalances(
+    userId: number,
+    companyId: number
+): Promise<LeaveBalanceSummary[]> {
+    const today = await companyToday(companyId);
+    const activeTypes = (await storage.getLeaveTypesByCompany(companyId)).filter(
+        (t) => t.isActive
+    );
+
+    const balances: LeaveBalanceSummary[] = [];
+    for (const leaveType of activeTypes) {
+        balances.push(
+            (await balanceOn(userId, companyId, leaveType, today)).summary
+        );
+    }
+    return balances;
+}
+
+// Days a leave costs in each year it touches: holidays and weekly offs are free unless
+// the type's sandwich rule pulls them in
+async function leaveDaysByYear(
+    userId: number,
+    companyId: number,
+    leaveType: LeaveType | null,
+    request: Omit<LeaveRequestInput, "leaveType">
+): Promise<Map<number, number>> {
+    const calendar = await loadWorkingCalendar(
+        companyId,
+        request.startDate,
+        request.endDate
+    );
+    return countLeaveDaysByYear(request.startDate, request.endDate, {
+        isHalfDay: request.isHalfDay,
+        sandwichRule: leaveType?.sandwichRule ?? false,
+        isNonWorking: (date) => {
+            const day = calendar.nonWorkingDay(userId, date);
+            return !!day && day.status !== "on_leave";
+        },
+    });
+}
+
+function totalDays(byYear: Map<number, number>): number {
+    return Array.from(byYear.values()).reduce((sum, days) => sum + days, 0);
+}
+
+// The `days` of an approved leave as charged to each year's balance. If the calendar
+// changed since they were priced, the difference is settled from the start year on,
+// so a revocation gives back exactly what was debited.
+async function chargedDaysByYear(
+    leave: Leave,
+    leaveType: LeaveType,
+    days: number
+): Promise<Map<number, number>> {
+    const byYear = await leaveDaysByYear(
+        leave.userId,
+        leave.companyId,
+        leaveType,
+        leave
+    );
+    let difference = days - totalDays(byYear);
+    const startYear = yearOf(leave.startDate);
+    if (difference >= 0) {
+        byYear.set(startYear, (byYear.get(startYear) ?? 0) + difference);
+        return byYear;
+    }
+    for (let year = startYear; year <= yearOf(leave.endDate); year++) {
+        const share = byYear.get(year) ?? 0;
+        const taken = Math.min(share, -difference);
+        byYear.set(year, share - taken);
+        difference += taken;
+    }
+    return byYear;
+}
+
+// The date a year's share of a leave is priced on: its start date, or New Year's Day
+// for the years after
+function shareStart(leave: Pick<Leave, "startDate">, year: number): string {
+    return year === yearOf(leave.startDate) ? leave.startDate : `${year}-01-01`;
+}
+
+// Validates a new leave request against the company's leave types and the user's
+// balance, and prices it in days. Companies that have not configured any leave types
+// keep accepting free-form types without balance tracking. `held` is the approved leave
+// this request replaces the dates of, whose days the user already holds. A leave over
+// New Year needs enough balance in both years.
+export async function assessLeaveRequest(
+    userId: number,
+    companyId: number,
+    request: LeaveRequestInput,
+    held: Leave | null = null
+): Promise<{ days: number; error: string | null }> {
+    const companyTypes = await storage.getLeaveTypesByCompany(companyId);
+    const leaveType =
+        companyTypes.find((t) => t.code === request.leaveType && t.isActive) ||
+        null;
+    if (companyTypes.length > 0 && !leaveType) {
+        return { days: 0, error: "Unknown leave type" };
+    }
+
+    if (request.isHalfDay) {
+        if (request.startDate !== request.endDate) {
+            return {
+                days: 0,
+                error: "A half-day leave must start and end on the same day",
+            };
+        }
+        if (leaveType && !leaveType.allowHalfDay) {
+            return {
+                days: 0,
+                error: `${leaveType.name} cannot be taken as a half day`,
+            };
+        }
+    }
+
+    const byYear = await leaveDaysByYear(userId, companyId, leaveType, request);
+    const days = totalDays(byYear);
+    if (days === 0) {
+        return {
+            days,
+            error: "The selected dates fall entirely on holidays or weekly offs",
+        };
+    }
+
+    if (leaveType) {
+        const heldByYear =
+            held && held.days !== null
+                ? await chargedDaysByYear(held, leaveType, held.days)
+                : new Map<number, number>();
+        for (const [year, yearDays] of Array.from(byYear.entries())) {
+            const { summary } = await balanceOn(
+                userId,
+                companyId,
+                leaveType,
+                shareStart(request, year)
+            );
+            const available = summary.available + (heldByYear.get(year) ?? 0);
+            if (yearDays > available) {
+                return {
+                    days,
+                    error: `Insufficient ${leaveType.name} balance for ${year}: ${available} of ${yearDays} days available`,
+                };
+            }
+        }
+    }
+
+    return { days, error: null };
+}
+
+// Debits the user's balance when a leave is approved, or returns why it can't be. A
+// leave over New Year is charged to each year's balance for its days in that year.
+export async function debitLeaveBalance(leave: Leave): Promise<string | null> {
+    const leaveType = await storage.getLeaveTypeByCode(
+        leave.companyId,
+        leave.leaveType
+    );
+    if (!leaveType) {
+        return null;
+    }
+
+    let days = leave.days;
+    if (days === null) {
+        days = totalDays(
+            await leaveDaysByYear(
+                leave.userId,
+                leave.companyId,
+                leaveType,
+                leave
+            )
+        );
+        await storage.updateLeave(leave.id, { days });
+    }
+
+    const charges: { row: LeaveBalance; days: number }[] = [];
+    const byYear = await chargedDaysByYear(leave, leaveType, days);
+    for (const [year, yearDays] of Array.from(byYear.entries())) {
+        const { row, summary } = await balanceOn(
+            leave.userId,
+            leave.companyId,
+            leaveType,
+            shareStart(leave, year)
+        );
+        if (yearDays > summary.available) {
+            return `Insufficient ${leaveType.name} balance for ${year}: ${summary.available} of ${yearDays} days available`;
+        }
+        charges.push({ row, days: yearDays });
+    }
+
+    for (const charge of charges) {
+        await storage.adjustLeaveBalanceUsed(charge.row.id, charge.days);
+    }
+    return null;
+}
+
+// Gives back what debitLeaveBalance charged when an approved leave is revoked
+export async function restoreLeaveBalance(leave: Leave): Promise<void> {
+    const leaveType = await storage.getLeaveTypeByCode(
+        leave.companyId,
+        leave.leaveType
+    );
+    if (!leaveType || leave.days === null) {
+        return;
+    }
+
+    const byYear = await chargedDaysByYear(leave, leaveType, leave.days);
+    for (const [year, yearDays] of Array.from(byYear.entries())) {
+        const { row } = await balanceOn(
+            leave.userId,
+            leave.companyId,
+            leaveType,
+            shareStart(leave, year)
+        );
+        await storage.adjustLeaveBalanceUsed(row.id, -yearDays);
+    }
+}
+
+// Adds the requester's available balance to pending leaves, for the approval screens
+export async function withAvailableBalance<T extends Leave>(
+    leaves: T[]
+): Promise<(T & { availableBalance: number | null })[]> {
+    const result: (T & { availableBalance: number | null })[] = [];
+    for (const leave of leaves) {
+        let availableBalance: number | null = null;
+        if (leave.status === "pending") {
+            const leaveType = await storage.getLeaveTypeByCode(
+                leave.companyId,
+                leave.leaveType
+            );
+            if (leaveType) {
+                availableBalance = (
+                    await balanceOn(
+                        leave.userId,
+                        leave.companyId,
+                        leaveType,
+                        leave.startDate
+                    )
+                ).summary.available;
+            }
+        }
+        result.push({ ...leave, availableBalance });
+    }
+    return result;
+}
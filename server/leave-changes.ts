@@ -0,0 +1,347 @@
+import { storage } from "./storage";
+import type { Leave, LeaveRevision, User } from "@shared/schema";
+import { companyToday } from "./company-time";
+import { loadWorkingCalendar } from "./working-calendar";
+import {
+    assessLeaveRequest,
+    debitLeaveBalance,
+    restoreLeaveBalance,
+} from "./leave-balances";
+import { closeLeaveApproval, startLeaveApproval } from "./leave-approvals";
+import { addDays } from "./utils/shift-schedule";
+
+type Actor = Pick<User, "id" | "displayName">;
+
+// Cancelling takes optional dates to cancel only part of the leave; modifying takes
+// the leave's new dates
+export interface LeaveChangeInput {
+    type: "cancel" | "modify";
+    startDate?: string;
+    endDate?: string;
+    reason: string;
+}
+
+type DateRange = { startDate: string; endDate: string };
+
+// Statuses the attendance jobs write for days without punches
+const GENERATED_STATUSES = ["absent", "on_leave", "holiday", "weekly_off"];
+
+const clearedChange = {
+    changeType: null,
+    requestedStartDate: null,
+    requestedEndDate: null,
+    changeReason: null,
+};
+
+function revision(
+    leave: Leave,
+    action: LeaveRevision["action"],
+    next: DateRange & { days: number | null },
+    reason: string | null,
+    actor: Actor
+): LeaveRevision {
+    return {
+        action,
+        previousStartDate: leave.startDate,
+        previousEndDate: leave.endDate,
+        previousDays: leave.days,
+        startDate: next.startDate,
+        endDate: next.endDate,
+        days: next.days,
+        reason,
+        actedBy: actor.id,
+        actedByName: actor.displayName,
+        at: new Date().toISOString(),
+    };
+}
+
+// The dates the leave keeps after the change; a null range cancels all of it. A leave
+// can only lose days at its start or end, since one leave can't be split in two.
+function resolveChange(
+    leave: Leave,
+    input: LeaveChangeInput
+): { range: DateRange | null; error: string | null } {
+    if (input.type === "modify") {
+        if (!input.startDate || !input.endDate) {
+            return { range: null, error: "New start and end dates are required" };
+        }
+        if (input.endDate < input.startDate) {
+            return { range: null, error: "End date cannot be before start date" };
+        }
+        if (leave.isHalfDay && input.startDate !== input.endDate) {
+            return {
+                range: null,
+                error: "A half-day leave must start and end on the same day",
+            };
+        }
+        if (
+            input.startDate === leave.startDate &&
+            input.endDate === leave.endDate
+        ) {
+            return {
+                range: null,
+                error: "The new dates are the same as the current ones",
+            };
+        }
+        return {
+            range: { startDate: input.startDate, endDate: input.endDate },
+            error: null,
+        };
+    }
+
+    if (!input.startDate && !input.endDate) {
+        return { range: null, error: null };
+    }
+    const from = input.startDate || leave.startDate;
+    const to = input.endDate || leave.endDate;
+    if (to < from || from < leave.startDate || to > leave.endDate) {
+        return {
+            range: null,
+            error: "The days to cancel must fall within the leave",
+        };
+    }
+    if (from === leave.startDate && to === leave.endDate) {
+        return { range: null, error: null };
+    }
+    if (from === leave.startDate) {
+        return {
+            range: { startDate: addDays(to, 1), endDate: leave.endDate },
+            error: null,
+        };
+    }
+    if (to === leave.endDate) {
+        return {
+            range: { startDate: leave.startDate, endDate: addDays(from, -1) },
+            error: null,
+        };
+    }
+    return {
+        range: null,
+        error: "Only days at the start or end of a leave can be cancelled",
+    };
+}
+
+function pricing(leave: Leave, range: DateRange, held: Leave | null) {
+    return assessLeaveRequest(
+        leave.userId,
+        leave.companyId,
+        {
+            leaveType: leave.leaveType,
+            startDate: range.startDate,
+            endDate: range.endDate,
+            isHalfDay: leave.isHalfDay,
+        },
+        held
+    );
+}
+
+// Rewrites the generated attendance of the leave's dates up to today from the working
+// calendar, so days the leave no longer covers turn absent and newly covered days turn
+// into leave. Days with punches are left alone.
+export async function regenerateLeaveAttendance(
+    leave: Pick<Leave, "userId" | "companyId">,
+    range: DateRange
+): Promise<void> {
+    const today = await companyToday(leave.companyId);
+    const endDate = range.endDate < today ? range.endDate : today;
+    if (range.startDate > endDate) {
+        return;
+    }
+
+    const calendar = await loadWorkingCalendar(
+        leave.companyId,
+        range.startDate,
+        endDate
+    );
+    const records = await storage.getAttendanceHistory(
+        leave.userId,
+        range.startDate,
+        endDate
+    );
+    for (const record of records) {
+        if (record.checkIn || !GENERATED_STATUSES.includes(record.status)) {
+            continue;
+        }
+
+        const day = calendar.nonWorkingDay(leave.userId, record.date);
+        const status = day?.status ?? "absent";
+        if (status !== record.status) {
+            await storage.updateAttendanceRecord(record.id, {
+                status,
+                remarks: day
+                    ? `Updated after leave change - ${day.reason}`
+                    : "Updated after leave change - no check-in",
+            });
+        }
+    }
+}
+
+// Handles an employee's request to cancel or move their leave. Pending leaves change
+// straight away; approved ones keep their dates until the change is approved by the
+// same chain as the original request. Returns why the change can't be made, if so.
+export async function requestLeaveChange(
+    leave: Leave,
+    input: LeaveChangeInput,
+    actor: Actor
+): Promise<string | null> {
+    if (leave.status !== "pending" && leave.status !== "approved") {
+        return "Only pending or approved leaves can be changed";
+    }
+    if (leave.changeType) {
+        return "A change to this leave is already awaiting approval";
+    }
+
+    const { range, error } = resolveChange(leave, input);
+    if (error) {
+        return error;
+    }
+
+    if (leave.status === "pending") {
+        if (!range) {
+            await storage.updateLeave(leave.id, {
+                status: "cancelled",
+                history: [
+                    ...leave.history,
+                    revision(
+                        leave,
+                        "withdrawn",
+                        { ...leave, days: null },
+                        input.reason,
+                        actor
+                    ),
+                ],
+            });
+            await closeLeaveApproval(leave.id);
+            return null;
+        }
+
+        const { days, error: priceError } = await pricing(leave, range, null);
+        if (priceError) {
+            return priceError;
+        }
+        await storage.updateLeave(leave.id, {
+            ...range,
+            days,
+            history: [
+                ...leave.history,
+                revision(
+                    leave,
+                    input.type === "cancel" ? "partially_cancelled" : "modified",
+                    { ...range, days },
+                    input.reason,
+                    actor
+                ),
+            ],
+        });
+        return null;
+    }
+
+    if (range) {
+        const { error: priceError } = await pricing(leave, range, leave);
+        if (priceError) {
+            return priceError;
+        }
+    }
+
+    await storage.updateLeave(leave.id, {
+        changeType: input.type,
+        requestedStartDate: range?.startDate ?? null,
+        requestedEndDate: range?.endDate ?? null,
+        changeReason: input.reason,
+    });
+    await startLeaveApproval(leave, input.type);
+    return null;
+}
+
+// Applies an approved change: the balance the leave held is given back and the new
+// dates are charged, then the attendance of every affected day is regenerated
+export async function applyLeaveChange(
+    leave: Leave,
+    actor: Actor
+): Promise<string | null> {
+    const range =
+        leave.requestedStartDate && leave.requestedEndDate
+            ? { startDate: leave.requestedStartDate, endDate: leave.requestedEndDate }
+            : null;
+
+    if (!range) {
+        await restoreLeaveBalance(leave);
+        await storage.updateLeave(leave.id, {
+            ...clearedChange,
+            status: "cancelled",
+            history: [
+                ...leave.history,
+                revision(
+                    leave,
+                    "cancelled",
+                    { ...leave, days: null },
+                    leave.changeReason,
+                    actor
+                ),
+            ],
+        });
+        await regenerateLeaveAttendance(leave, leave);
+        return null;
+    }
+
+    const { days, error } = await pricing(leave, range, leave);
+    if (error) {
+        return error;
+    }
+
+    await restoreLeaveBalance(leave);
+    const insufficient = await debitLeaveBalance({ ...leave, ...range, days });
+    if (insufficient) {
+        if (leave.days !== null) {
+            await debitLeaveBalance(leave);
+        }
+        return insufficient;
+    }
+
+    await storage.updateLeave(leave.id, {
+        ...clearedChange,
+        ...range,
+        days,
+        history: [
+            ...leave.history,
+            revision(
+                leave,
+                leave.changeType === "cancel" ? "partially_cancelled" : "modified",
+                { ...range, days },
+                leave.changeReason,
+                actor
+            ),
+        ],
+    });
+    await regenerateLeaveAttendance(leave, {
+        startDate:
+            range.startDate < leave.startDate ? range.startDate : leave.startDate,
+        endDate: range.endDate > leave.endDate ? range.endDate : leave.endDate,
+    });
+    return null;
+}
+
+// A rejected change leaves the approved leave as it was
+export async function declineLeaveChange(
+    leave: Leave,
+    actor: Actor,
+    remarks: string | null
+): Promise<void> {
+    await storage.updateLeave(leave.id, {
+        ...clearedChange,
+        history: [
+            ...leave.history,
+            revision(
+                leave,
+                "change_rejected",
+                {
+                    startDate: leave.requestedStartDate ?? leave.startDate,
+                    endDate: leave.requestedEndDate ?? leave.endDate,
+                    days: leave.days,
+                },
+                remarks,
+                actor
+            ),
+        ],
+    });
+}
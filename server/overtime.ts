@@ -0,0 +1,214 @@
+import { storage } from "./storage";
+import type { AttendanceRecord, OvertimeRequest, User } from "@shared/schema";
+import { companyToday } from "./company-time";
+import { loadWorkingCalendar } from "./working-calendar";
+import { DEFAULT_DAY_HOURS, isLeaveDay } from "./utils/day-status";
+import { shiftLengthMinutes } from "./utils/shift-schedule";
+import {
+    overtimeMinutes,
+    overtimeMultiplier,
+    type OvertimeDayType,
+} from "./utils/overtime";
+import {
+    reviewEach,
+    type ReviewDecision,
+    type ReviewOutcome,
+    type ReviewScope,
+} from "./batch-review";
+
+export type OvertimeDecision = ReviewDecision;
+
+export type OvertimeOutcome = ReviewOutcome<OvertimeRequest>;
+
+// Holidays and weekly offs have no expected hours, so all time worked on them is overtime
+async function overtimeDayType(
+    userId: number,
+    companyId: number,
+    date: string
+): Promise<OvertimeDayType> {
+    const calendar = await loadWorkingCalendar(companyId, date, date);
+    const nonWorking = calendar.nonWorkingDay(userId, date);
+    if (nonWorking?.status === "holiday") {
+        return "holiday";
+    }
+    if (nonWorking?.status === "weekly_off") {
+        return "weekend";
+    }
+    return "working";
+}
+
+// Overtime on a settled day. Days punched against a shift are measured on the clock
+// against the shift's length; other days compare net work time with fullDayHours.
+async function overtimeWorked(
+    record: AttendanceRecord,
+    dayType: OvertimeDayType,
+    blockMinutes: number
+): Promise<number> {
+    const net = record.workDuration ?? 0;
+    if (dayType !== "working") {
+        return overtimeMinutes(net, 0, blockMinutes);
+    }
+
+    const shift = record.shiftId
+        ? await storage.getShiftById(record.shiftId)
+        : null;
+    if (shift) {
+        return overtimeMinutes(
+            record.grossDuration ?? net,
+            shiftLengthMinutes(shift),
+            blockMinutes
+        );
+    }
+
+    const policy = await storage.getAttendancePolicyByCompany(record.companyId);
+    const fullDayHours =
+        policy?.fullDayHours ?? DEFAULT_DAY_HOURS.fullDayHours;
+    return overtimeMinutes(net, fullDayHours * 60, blockMinutes);
+}
+
+// Records the overtime of a settled day. Under post-approval it is filed for review;
+// under pre-approval only days with an earlier request are updated, and time nobody
+// approved in advance does not count.
+export async function recordOvertime(
+    record: AttendanceRecord
+): Promise<OvertimeRequest | null> {
+    if (
+        !record.checkIn ||
+        !record.checkOut ||
+        isLeaveDay(record.status)
+    ) {
+        return null;
+    }
+
+    const policy = await storage.getAttendancePolicyByCompany(record.companyId);
+    const dayType = await overtimeDayType(
+        record.userId,
+        record.companyId,
+        record.date
+    );
+    const minutes = await overtimeWorked(
+        record,
+        dayType,
+        policy?.overtimeMinBlockMinutes ?? 0
+    );
+    const existing = await storage.getOvertimeRequestByUserAndDate(
+        record.userId,
+        record.date
+    );
+
+    if (existing) {
+        // A re-settled day without overtime drops its unreviewed post-approval entry
+        if (
+            minutes === 0 &&
+            existing.plannedMinutes === null &&
+            existing.status === "pending"
+        ) {
+            await storage.deleteOvertimeRequest(existing.id);
+            return null;
+        }
+        return await storage.updateOvertimeRequest(existing.id, {
+            attendanceId: record.id,
+            dayType,
+            workedMinutes: minutes,
+            multiplier: overtimeMultiplier(policy, dayType),
+        });
+    }
+
+    if (minutes === 0 || policy?.overtimeApproval === "pre") {
+        return null;
+    }
+    return await storage.createOvertimeRequest({
+        userId: record.userId,
+        companyId: record.companyId,
+        attendanceId: record.id,
+        date: record.date,
+        dayType,
+        workedMinutes: minutes,
+        multiplier: overtimeMultiplier(policy, dayType),
+    });
+}
+
+// Files a request to work overtime on a coming day, for companies that approve
+// overtime in advance. Returns why it can't be filed, if so.
+export async function requestOvertime(
+    user: Pick<User, "id" | "companyId">,
+    date: string,
+    plannedMinutes: number,
+    reason: string
+): Promise<{ request: OvertimeRequest | null; error: string | null }> {
+    const companyId = user.companyId!;
+    const policy = await storage.getAttendancePolicyByCompany(companyId);
+    if (policy?.overtimeApproval !== "pre") {
+        return {
+            request: null,
+            error: "Overtime is reviewed after it is worked; no request is needed",
+        };
+    }
+    if (date < (await companyToday(companyId))) {
+        return {
+            request: null,
+            error: "Overtime can only be requested for today or a later day",
+        };
+    }
+    if (await storage.getOvertimeRequestByUserAndDate(user.id, date)) {
+        return {
+            request: null,
+            error: `Overtime for ${date} has already been requested`,
+        };
+    }
+
+    const dayType = await overtimeDayType(user.id, companyId, date);
+    const request = await storage.createOvertimeRequest({
+        userId: user.id,
+        companyId,
+        date,
+        dayType,
+        plannedMinutes,
+        multiplier: overtimeMultiplier(policy, dayType),
+        reason,
+    });
+    return { request, error: null };
+}
+
+// Approves or rejects each overtime entry in turn, like correction reviews. Approval
+// grants the planned minutes for a pre-approval request, or the time worked otherwise.
+export async function decideOvertime(
+    ids: number[],
+    decision: OvertimeDecision,
+    reviewer: Pick<User, "id" | "role" | "companyId">,
+    scope: ReviewScope,
+    comments: string | null
+): Promise<OvertimeOutcome[]> {
+    return reviewEach(
+        ids,
+        decision,
+        reviewer,
+        scope,
+        (id) => storage.getOvertimeRequestById(id),
+        async (request) => {
+            const updated = await storage.updateOvertimeRequest(request.id, {
+                status: decision,
+                approvedMinutes:
+                    decision === "approved"
+                        ? request.plannedMinutes ?? request.workedMinutes
+                        : null,
+                reviewedBy: reviewer.id,
+                reviewComments: comments,
+                reviewedAt: new Date(),
+            });
+            await storage.createAttendanceLog({
+                attendanceId: request.attendanceId,
+                userId: request.userId,
+                action: `overtime_${decision}`,
+                performedBy: reviewer.id,
+                newValue: JSON.stringify({
+                    overtimeId: request.id,
+                    date: request.date,
+                    approvedMinutes: updated.approvedMinutes,
+                    comments,
+                }),
+            });
+            return updated;
+        }
+    );
+}
@@ -1,6 +1,38 @@
 import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 import { storage } from './storage';
+import type { User as DbUser } from '@shared/schema';
+
+declare global {
+  namespace Express {
+    // The authenticated user attached to req.user by the session, without the password hash
+    interface User extends Omit<DbUser, 'password'> {}
+
+    interface Request {
+      // Set by the Google callback, which bootstraps company registration rather than signing in
+      googleRegistration?: GoogleRegistrationProfile;
+    }
+  }
+}
+
+export interface GoogleRegistrationProfile {
+  email: string;
+  displayName: string;
+  photoURL?: string;
+  googleId: string;
+}
+
+export interface SessionPayload {
+  id: number;
+  sessionVersion: number;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    // Written by passport.serializeUser
+    passport?: { user?: SessionPayload };
+  }
+}
 
 const callbackURL = process.env.REPLIT_DEV_DOMAIN 
   ? `${process.env.REPLIT_DEV_DOMAIN}/api/auth/google/callback`
@@ -25,12 +57,14 @@ if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
             return done(new Error('No email found in Google profile'), undefined);
           }
 
-          done(null, {
+          // Not a sign-in: no user is returned and the profile is handed back as info
+          const registration: GoogleRegistrationProfile = {
             email,
             displayName,
             photoURL,
             googleId,
-          });
+          };
+          done(null, false, registration);
         } catch (error) {
           done(error as Error, undefined);
         }
@@ -42,11 +76,28 @@ if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
 }
 
 passport.serializeUser((user, done) => {
-  done(null, user);
+  const payload: SessionPayload = { id: user.id, sessionVersion: user.sessionVersion };
+  done(null, payload);
 });
 
-passport.deserializeUser((user: any, done) => {
-  done(null, user);
+// Sessions are revoked by bumping users.session_version, so a stale version means the session is dead
+export async function resolveSessionUser(payload: SessionPayload): Promise<Express.User | null> {
+  const user = await storage.getUserById(payload.id);
+  if (!user || user.sessionVersion !== payload.sessionVersion) {
+    return null;
+  }
+
+  const { password: _, ...userWithoutPassword } = user;
+  return userWithoutPassword;
+}
+
+passport.deserializeUser(async (payload: SessionPayload, done) => {
+  try {
+    const user = await resolveSessionUser(payload);
+    done(null, user ?? false);
+  } catch (error) {
+    done(error as Error);
+  }
 });
 
 export default passport;
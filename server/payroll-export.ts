@@ -0,0 +1,241 @@
+import ExcelJS from "exceljs";
+import { storage } from "./storage";
+import type { AttendanceRecord, Leave } from "@shared/schema";
+import { companyTimezone, companyToday } from "./company-time";
+import { loadWorkingCalendar } from "./working-calendar";
+import { addDays, monthBounds } from "./utils/shift-schedule";
+import { zonedTime } from "./utils/timezone";
+import { creditedOvertimeMinutes } from "./utils/overtime";
+import type { PayrollColumn } from "./utils/payroll-columns";
+import { evaluateLatePenalties } from "./late-penalties";
+
+export interface PayrollRow {
+    userId: number;
+    employeeId: string;
+    employeeName: string;
+    email: string;
+    periodDays: number;
+    payableDays: number;
+    lopDays: number;
+    paidLeaveDays: number;
+    paidLeaveByType: Record<string, number>;
+    holidays: number;
+    weeklyOffs: number;
+    presentDays: number;
+    lateCount: number;
+    lateDeductionDays: number;
+    halfDays: number;
+    overtimeHours: number;
+    weightedOvertimeHours: number;
+}
+
+// How much of a working day the attendance record pays for. Days still open (no
+// check-out yet) count in full; corrections settle them later.
+function attendedShare(record: AttendanceRecord | undefined): number {
+    if (!record?.checkIn) {
+        return 0;
+    }
+    if (record.status === "half_day") {
+        return 0.5;
+    }
+    if (record.status === "short_day") {
+        return 0;
+    }
+    return 1;
+}
+
+function leaveOn(leaves: Leave[], userId: number, date: string) {
+    return leaves.find(
+        (l) => l.userId === userId && l.startDate <= date && l.endDate >= date
+    );
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Per-employee payroll figures for a month. Holidays and weekly offs are paid; working
+// days are paid by approved leave of a paid type and by attendance, and whatever is
+// left of each day is loss of pay. Days after today and before an employee joined are
+// not part of the period. Inactive employees are included when they have attendance or
+// approved leave in the month.
+export async function buildPayrollRows(
+    companyId: number,
+    month: number,
+    year: number
+): Promise<{ rows: PayrollRow[]; leaveTypeCodes: string[] }> {
+    const { startDate, endDate: monthEnd } = monthBounds(year, month);
+    const today = await companyToday(companyId);
+    const endDate = monthEnd < today ? monthEnd : today;
+    const timezone = await companyTimezone(companyId);
+
+    const activeUsers = await storage.getUsersByCompanyId(companyId);
+    const calendar = await loadWorkingCalendar(companyId, startDate, monthEnd);
+    const leaves = await storage.getApprovedLeavesInRange(
+        companyId,
+        startDate,
+        monthEnd
+    );
+    const leaveTypes = await storage.getLeaveTypesByCompany(companyId);
+    const records = await storage.getAttendanceByCompanyInRange(
+        companyId,
+        startDate,
+        monthEnd
+    );
+    const overtime = await storage.getOvertimeRequestsByCompany(companyId, {
+        status: "approved",
+        startDate,
+        endDate: monthEnd,
+    });
+    const { penalties } = await evaluateLatePenalties(companyId, month, year);
+
+    // Employees deactivated since are still paid for the days they worked or were
+    // on approved leave
+    const companyUsers = [...activeUsers];
+    const listed = new Set(activeUsers.map((u) => u.id));
+    const inactiveIds = Array.from(
+        new Set([...records, ...leaves].map((r) => r.userId))
+    )
+        .filter((id) => !listed.has(id))
+        .sort((x, y) => x - y);
+    for (const id of inactiveIds) {
+        const user = await storage.getUserById(id);
+        if (user && user.companyId === companyId) {
+            companyUsers.push(user);
+        }
+    }
+
+    const recordsByDay = new Map(
+        records.map((r) => [`${r.userId}:${r.date}`, r])
+    );
+    // Leave types not set up in the company (older free-text leaves) are paid
+    const isPaidLeave = (code: string) =>
+        leaveTypes.find((t) => t.code === code)?.isPaid ?? true;
+    const leaveTypeCodes = Array.from(
+        new Set([
+            ...leaveTypes
+                .filter((t) => t.isActive && t.isPaid)
+                .map((t) => t.code),
+            ...leaves.map((l) => l.leaveType).filter(isPaidLeave),
+        ])
+    ).sort();
+
+    const rows = companyUsers.map((user): PayrollRow => {
+        const row: PayrollRow = {
+            userId: user.id,
+            employeeId: user.uniqueUserId,
+            employeeName: user.displayName,
+            email: user.email,
+            periodDays: 0,
+            payableDays: 0,
+            lopDays: 0,
+            paidLeaveDays: 0,
+            paidLeaveByType: {},
+            holidays: 0,
+            weeklyOffs: 0,
+            presentDays: 0,
+            lateCount: 0,
+            lateDeductionDays: 0,
+            halfDays: 0,
+            overtimeHours: 0,
+            weightedOvertimeHours: 0,
+        };
+        const joined = zonedTime(user.createdAt, timezone).date;
+        const firstDay = joined > startDate ? joined : startDate;
+
+        for (let date = firstDay; date <= endDate; date = addDays(date, 1)) {
+            row.periodDays++;
+            const nonWorking = calendar.nonWorkingDay(user.id, date);
+            if (nonWorking?.status === "holiday") {
+                row.holidays++;
+                row.payableDays++;
+                continue;
+            }
+            if (nonWorking?.status === "weekly_off") {
+                row.weeklyOffs++;
+                row.payableDays++;
+                continue;
+            }
+
+            const record = recordsByDay.get(`${user.id}:${date}`);
+            const leave = leaveOn(leaves, user.id, date);
+            const leaveShare = leave ? (leave.isHalfDay ? 0.5 : 1) : 0;
+            if (leave && isPaidLeave(leave.leaveType)) {
+                row.paidLeaveDays += leaveShare;
+                row.paidLeaveByType[leave.leaveType] =
+                    (row.paidLeaveByType[leave.leaveType] ?? 0) + leaveShare;
+                row.payableDays += leaveShare;
+            } else {
+                row.lopDays += leaveShare;
+            }
+
+            const rest = 1 - leaveShare;
+            const attended = Math.min(rest, attendedShare(record));
+            row.payableDays += attended;
+            row.lopDays += rest - attended;
+
+            if (record?.status === "present" || record?.status === "late") {
+                row.presentDays++;
+            }
+            if (record?.status === "late") {
+                row.lateCount++;
+            }
+            if (record?.status === "half_day") {
+                row.halfDays++;
+            }
+        }
+
+        // Late-coming deductions turn payable days into loss of pay
+        const deduction = Math.min(
+            row.payableDays,
+            penalties.find((p) => p.userId === user.id)?.deductionDays ?? 0
+        );
+        row.lateDeductionDays = deduction;
+        row.payableDays -= deduction;
+        row.lopDays += deduction;
+
+        const approved = overtime.filter((o) => o.userId === user.id);
+        row.overtimeHours = round2(
+            approved.reduce((sum, o) => sum + creditedOvertimeMinutes(o), 0) /
+                60
+        );
+        row.weightedOvertimeHours = round2(
+            approved.reduce(
+                (sum, o) => sum + creditedOvertimeMinutes(o) * o.multiplier,
+                0
+            ) / 60
+        );
+        return row;
+    });
+
+    return { rows, leaveTypeCodes };
+}
+
+// Header row followed by one row per employee, in the given column layout
+export function payrollTable(
+    columns: PayrollColumn[],
+    rows: PayrollRow[]
+): (string | number)[][] {
+    return [
+        columns.map((column) => column.header),
+        ...rows.map((row) =>
+            columns.map((column) =>
+                column.field === "paidLeaveByType"
+                    ? row.paidLeaveByType[column.leaveType!] ?? 0
+                    : row[column.field]
+            )
+        ),
+    ];
+}
+
+export async function payrollWorkbook(
+    table: (string | number)[][],
+    sheetName: string
+): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet(sheetName);
+    sheet.addRows(table);
+    sheet.getRow(1).font = { bold: true };
+    sheet.columns.forEach((column) => {
+        column.width = 18;
+    });
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,298 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import type { RequestHandler, Request, Response } from "express";
+import { WebSocketServer, type WebSocket } from "ws";
+import { storage } from "./storage";
+import { resolveSessionUser } from "./passport";
+import { log } from "./vite";
+
+// Every realtime event is published to one or more of these channels. A socket only
+// receives events for channels it has subscribed to, and it may only subscribe to
+// the channels returned by entitledChannels() for its session user.
+export const channels = {
+    user: (userId: number) => `user:${userId}`,
+    team: (leaderId: number) => `team:${leaderId}`,
+    company: (companyId: number) => `company:${companyId}`,
+    companyAdmins: (companyId: number) => `company:${companyId}:admins`,
+    platform: "platform",
+};
+
+interface ClientState {
+    user: Express.User;
+    entitled: Set<string>;
+    subscribed: Set<string>;
+    // The last entitlement check, shared by every event published while it runs
+    check: Promise<boolean> | null;
+    checkedAt: number;
+}
+
+const clients = new Map<WebSocket, ClientState>();
+
+// A burst of events costs one entitlement lookup per socket rather than one per event
+const ENTITLEMENT_CHECK_INTERVAL_MS = 5000;
+
+async function entitledChannels(user: Express.User): Promise<string[]> {
+    const result = [channels.user(user.id)];
+
+    if (user.role === "super_admin") {
+        result.push(channels.platform);
+    }
+
+    if (user.companyId) {
+        result.push(channels.company(user.companyId));
+        if (user.role === "company_admin") {
+            result.push(channels.companyAdmins(user.companyId));
+        }
+    }
+
+    if (user.role === "team_leader") {
+        result.push(channels.team(user.id));
+    } else {
+        const leader = await storage.getTeamLeaderByMember(user.id);
+        if (leader) {
+            result.push(channels.team(leader.id));
+        }
+    }
+
+    return result;
+}
+
+// Re-resolves the socket's user before it is sent an event, so a revoked session,
+// suspended account or changed role/team stops receiving what it is no longer
+// entitled to. Returns false once the socket has been closed.
+function recheckEntitlements(
+    ws: WebSocket,
+    state: ClientState
+): Promise<boolean> {
+    if (
+        state.check &&
+        Date.now() - state.checkedAt < ENTITLEMENT_CHECK_INTERVAL_MS
+    ) {
+        return state.check;
+    }
+    state.checkedAt = Date.now();
+    state.check = (async () => {
+        const user = await resolveSessionUser({
+            id: state.user.id,
+            sessionVersion: state.user.sessionVersion,
+        });
+        if (!user || !user.isActive) {
+            ws.close(4001, "Session revoked");
+            return false;
+        }
+
+        const entitled = new Set(await entitledChannels(user));
+        const dropped = Array.from(state.subscribed).filter(
+            (channel) => !entitled.has(channel)
+        );
+        const changed =
+            entitled.size !== state.entitled.size ||
+            Array.from(entitled).some(
+                (channel) => !state.entitled.has(channel)
+            );
+        dropped.forEach((channel) => state.subscribed.delete(channel));
+        state.user = user;
+        state.entitled = entitled;
+        if (changed) {
+            send(ws, { type: "CHANNELS", channels: Array.from(entitled) });
+        }
+        return true;
+    })().catch((error) => {
+        console.error("[WebSocket] Entitlement check failed:", error);
+        state.check = null;
+        return false;
+    });
+    return state.check;
+}
+
+// Runs the express session middleware against the upgrade request so the socket is
+// bound to the same login (and the same session_version revocation) as HTTP requests.
+function authenticateUpgrade(
+    request: IncomingMessage,
+    sessionMiddleware: RequestHandler
+): Promise<Express.User | null> {
+    return new Promise((resolve, reject) => {
+        const req = request as Request;
+        sessionMiddleware(req, {} as Response, async (error?: unknown) => {
+            if (error) {
+                return reject(error);
+            }
+            const payload = req.session?.passport?.user;
+            if (!payload) {
+                return resolve(null);
+            }
+            try {
+                const user = await resolveSessionUser(payload);
+                resolve(user && user.isActive ? user : null);
+            } catch (lookupError) {
+                reject(lookupError);
+            }
+        });
+    });
+}
+
+function rejectUpgrade(socket: Duplex, status: string) {
+    socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+}
+
+function send(ws: WebSocket, message: unknown) {
+    if (ws.readyState === 1) {
+        ws.send(JSON.stringify(message));
+    }
+}
+
+export function attachRealtime(
+    server: Server,
+    sessionMiddleware: RequestHandler
+) {
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on("upgrade", async (request, socket, head) => {
+        const url = request.url || "";
+        log(`[WebSocket] Upgrade request received for: ${url}`);
+
+        // Use startsWith to handle query parameters that Render might add
+        if (!url.startsWith("/ws")) {
+            log(`[WebSocket] Rejected upgrade for path: ${url}`);
+            socket.destroy();
+            return;
+        }
+
+        try {
+            const user = await authenticateUpgrade(request, sessionMiddleware);
+            if (!user) {
+                log(`[WebSocket] Rejected unauthenticated upgrade`);
+                return rejectUpgrade(socket, "401 Unauthorized");
+            }
+
+            const entitled = new Set(await entitledChannels(user));
+            wss.handleUpgrade(request, socket, head, (ws) => {
+                clients.set(ws, {
+                    user,
+                    entitled,
+                    subscribed: new Set(),
+                    check: Promise.resolve(true),
+                    checkedAt: Date.now(),
+                });
+                wss.emit("connection", ws, request);
+            });
+        } catch (error) {
+            console.error("[WebSocket] Upgrade failed:", error);
+            rejectUpgrade(socket, "500 Internal Server Error");
+        }
+    });
+
+    // Ping interval to keep connections alive (Render has 60s timeout)
+    const pingInterval = setInterval(() => {
+        wss.clients.forEach((ws) => {
+            if (ws.readyState === 1) {
+                ws.ping();
+            }
+        });
+    }, 30000); // Ping every 30 seconds
+
+    wss.on("close", () => {
+        clearInterval(pingInterval);
+    });
+
+    wss.on("connection", (ws: WebSocket) => {
+        const state = clients.get(ws);
+        if (!state) {
+            ws.close();
+            return;
+        }
+
+        log(
+            `[WebSocket] User ${state.user.id} connected. Total clients: ${wss.clients.size}`
+        );
+
+        // Tell the client which channels it may subscribe to
+        send(ws, { type: "CHANNELS", channels: Array.from(state.entitled) });
+
+        ws.on("message", (raw) => {
+            let message: any;
+            try {
+                message = JSON.parse(raw.toString());
+            } catch {
+                return;
+            }
+
+            if (
+                message?.type !== "subscribe" ||
+                !Array.isArray(message.channels)
+            ) {
+                return;
+            }
+
+            // Anything outside the entitlement set is silently dropped
+            for (const channel of message.channels) {
+                if (state.entitled.has(channel)) {
+                    state.subscribed.add(channel);
+                }
+            }
+            send(ws, {
+                type: "SUBSCRIBED",
+                channels: Array.from(state.subscribed),
+            });
+        });
+
+        ws.on("error", (error) => {
+            console.error("[WebSocket] Client error:", error);
+        });
+
+        ws.on("pong", () => {
+            // Client responded to ping - connection is alive
+        });
+
+        ws.on("close", () => {
+            clients.delete(ws);
+            log(
+                `[WebSocket] Client disconnected. Total clients: ${wss.clients.size}`
+            );
+        });
+    });
+}
+
+function isSubscribed(state: ClientState, targets: string[]): boolean {
+    return targets.some((channel) => state.subscribed.has(channel));
+}
+
+// Sends the event once to every socket subscribed to at least one of the channels,
+// after confirming the socket is still entitled to them
+export function publish(target: string | string[], message: any) {
+    const targets = Array.isArray(target) ? target : [target];
+    const recipients: Promise<boolean>[] = [];
+
+    clients.forEach((state, ws) => {
+        if (!isSubscribed(state, targets)) {
+            return;
+        }
+        recipients.push(
+            recheckEntitlements(ws, state).then((entitled) => {
+                if (!entitled || !isSubscribed(state, targets)) {
+                    return false;
+                }
+                send(ws, message);
+                return true;
+            })
+        );
+    });
+
+    Promise.all(recipients).then((sent) => {
+        log(
+            `[WebSocket] Published ${message.type} to ${targets.join(
+                ", "
+            )} (${sent.filter(Boolean).length} clients)`
+        );
+    });
+}
+
+// Closes every open socket of a user, e.g. after their account is suspended
+export function disconnectUser(userId: number) {
+    clients.forEach((state, ws) => {
+        if (state.user.id === userId) {
+            ws.close(4001, "Session revoked");
+        }
+    });
+}
@@ -0,0 +1,288 @@
+import { storage } from "./storage";
+import type { Company, RecurringTask, User } from "@shared/schema";
+import { publish } from "./realtime";
+import { taskChannels } from "./task-activity";
+import { startOfDayInTimezone, zonedTime } from "./utils/timezone";
+import { addDays, toMinutes } from "./utils/shift-schedule";
+import {
+    nextInRotation,
+    occursOn,
+    upcomingOccurrences,
+} from "./utils/recurrence";
+
+// Runs are recorded in autoTasks under this type
+export const RECURRING_TASK_RUN = "recurring_task";
+
+export type RecurringTaskWithSchedule = RecurringTask & {
+    nextRunDates: string[];
+};
+
+type RecurringTaskFields = Pick<
+    RecurringTask,
+    "frequency" | "startDate" | "assigneeRule"
+> &
+    Partial<
+        Pick<
+            RecurringTask,
+            "weekDays" | "monthDay" | "endDate" | "assigneeId" | "rotationUserIds"
+        >
+    >;
+
+// Checks that a definition's schedule is complete and that its assignees are active
+// users of the company
+export async function validateRecurringTask(
+    companyId: number,
+    definition: RecurringTaskFields
+): Promise<string | null> {
+    if (definition.frequency === "weekly" && !definition.weekDays?.length) {
+        return "Choose at least one day of the week";
+    }
+    if (definition.frequency === "monthly" && !definition.monthDay) {
+        return "Choose the day of the month";
+    }
+    if (definition.endDate && definition.endDate < definition.startDate) {
+        return "End date must be on or after the start date";
+    }
+
+    const companyUsers = new Map(
+        (await storage.getUsersByCompanyId(companyId))
+            .filter((u) => u.isActive)
+            .map((u) => [u.id, u])
+    );
+    if (definition.assigneeRule === "round_robin") {
+        const rotation = definition.rotationUserIds ?? [];
+        if (rotation.length < 2) {
+            return "Round-robin needs at least two users";
+        }
+        if (rotation.some((id) => !companyUsers.has(id))) {
+            return "Every user in the rotation must be an active member of your company";
+        }
+        return null;
+    }
+
+    const assignee = definition.assigneeId
+        ? companyUsers.get(definition.assigneeId)
+        : undefined;
+    if (!assignee) {
+        return definition.assigneeRule === "team"
+            ? "Choose a team leader"
+            : "Choose who the task is assigned to";
+    }
+    if (definition.assigneeRule === "team" && assignee.role !== "team_leader") {
+        return "Team assignment needs a team leader";
+    }
+    return null;
+}
+
+// Company holidays that apply to everyone; optional holidays do not stop a recurrence
+async function mandatoryHolidays(companyId: number) {
+    return (await storage.getHolidaysByCompanyId(companyId)).filter(
+        (h) => !h.isOptional
+    );
+}
+
+// The definitions of a company, each with its next few run dates
+export async function recurringTasksWithSchedule(
+    companyId: number,
+    today: string
+): Promise<RecurringTaskWithSchedule[]> {
+    const holidayDates = new Set(
+        (await mandatoryHolidays(companyId)).map((h) => h.date)
+    );
+    return (await storage.getRecurringTasksByCompany(companyId)).map(
+        (definition) => ({
+            ...definition,
+            nextRunDates: definition.isActive
+                ? upcomingOccurrences(
+                      definition,
+                      // Today's run is listed until it has happened
+                      definition.lastRunDate === today
+                          ? addDays(today, 1)
+                          : today,
+                      3,
+                      holidayDates
+                  )
+                : [],
+        })
+    );
+}
+
+type RunOutcome = {
+    status: "created" | "skipped";
+    taskIds: number[];
+    reason?: string;
+};
+
+// Users the definition assigns to on this run, and where a rotation continues from
+async function runAssignees(
+    definition: RecurringTask,
+    companyUsers: Map<number, User>
+): Promise<{ userIds: number[]; rotationIndex: number }> {
+    const isAvailable = (userId: number) =>
+        companyUsers.get(userId)?.isActive === true;
+
+    if (definition.assigneeRule === "round_robin") {
+        const turn = nextInRotation(
+            definition.rotationUserIds,
+            definition.rotationIndex,
+            isAvailable
+        );
+        return turn
+            ? { userIds: [turn.userId], rotationIndex: turn.index + 1 }
+            : { userIds: [], rotationIndex: definition.rotationIndex };
+    }
+    if (definition.assigneeRule === "team" && definition.assigneeId) {
+        const members = await storage.getTeamMembersByLeader(
+            definition.assigneeId
+        );
+        return {
+            userIds: members.map((m) => m.id).filter(isAvailable),
+            rotationIndex: definition.rotationIndex,
+        };
+    }
+    return {
+        userIds:
+            definition.assigneeId && isAvailable(definition.assigneeId)
+                ? [definition.assigneeId]
+                : [],
+        rotationIndex: definition.rotationIndex,
+    };
+}
+
+// Marks the definition as run on `date` and creates its tasks in one go, so a run
+// either happens completely or not at all. Null when another tick already ran it.
+async function runDefinition(
+    definition: RecurringTask,
+    date: string,
+    timezone: string,
+    companyUsers: Map<number, User>,
+    skipReason: string | null
+): Promise<RunOutcome | null> {
+    const { userIds, rotationIndex } = skipReason
+        ? { userIds: [], rotationIndex: definition.rotationIndex }
+        : await runAssignees(definition, companyUsers);
+
+    const deadline = definition.dueTime
+        ? new Date(
+              startOfDayInTimezone(date, timezone).getTime() +
+                  toMinutes(definition.dueTime) * 60 * 1000
+          )
+        : null;
+    const created = await storage.recordRecurringTaskRun(
+        definition.id,
+        date,
+        rotationIndex,
+        userIds.map((assignedTo) => ({
+            companyId: definition.companyId,
+            assignedBy: definition.createdBy,
+            assignedTo,
+            title: definition.title,
+            description: definition.description,
+            priority: definition.priority,
+            deadline,
+            status: "pending",
+            recurringTaskId: definition.id,
+        }))
+    );
+    if (!created) {
+        return null;
+    }
+    if (created.length === 0) {
+        return {
+            status: "skipped",
+            taskIds: [],
+            reason: skipReason ?? "No active assignee",
+        };
+    }
+
+    for (const task of created) {
+        publish(await taskChannels(task), {
+            type: "task_updated",
+            taskId: task.id,
+            status: task.status,
+        });
+    }
+    return { status: "created", taskIds: created.map((t) => t.id) };
+}
+
+// Generates the tasks of every active definition that falls on the current day in its
+// company's timezone. Each definition runs at most once a day, on the first tick of
+// the day; the run, or why it was skipped, is recorded in autoTasks. A run that fails
+// unexpectedly leaves nothing behind and is retried on the next tick, and a company
+// whose run fails does not hold up the others.
+export async function runRecurringTasks(now: Date): Promise<number> {
+    let createdCount = 0;
+    for (const company of await storage.getAllCompanies()) {
+        try {
+            createdCount += await runCompanyRecurringTasks(company, now);
+        } catch (error) {
+            console.error(
+                `Error generating recurring tasks for company ${company.id}:`,
+                error
+            );
+        }
+    }
+    return createdCount;
+}
+
+async function runCompanyRecurringTasks(
+    company: Pick<Company, "id" | "timezone">,
+    now: Date
+): Promise<number> {
+    let createdCount = 0;
+    const today = zonedTime(now, company.timezone).date;
+    const due = (await storage.getRecurringTasksByCompany(company.id)).filter(
+        (d) => d.isActive && d.lastRunDate !== today && occursOn(d, today)
+    );
+    if (due.length === 0) {
+        return 0;
+    }
+
+    const holiday = (await mandatoryHolidays(company.id)).find(
+        (h) => h.date === today
+    );
+    const companyUsers = new Map(
+        (await storage.getUsersByCompanyId(company.id)).map((u) => [u.id, u])
+    );
+    for (const definition of due) {
+        const record = (status: string, details: Record<string, unknown>) =>
+            storage.createAutoTask({
+                companyId: company.id,
+                taskName: definition.title.slice(0, 100),
+                taskType: RECURRING_TASK_RUN,
+                status,
+                details: JSON.stringify({
+                    recurringTaskId: definition.id,
+                    date: today,
+                    ...details,
+                }),
+            });
+
+        try {
+            const outcome = await runDefinition(
+                definition,
+                today,
+                company.timezone,
+                companyUsers,
+                holiday ? `Holiday: ${holiday.name}` : null
+            );
+            if (!outcome) {
+                continue;
+            }
+            await record(outcome.status, {
+                taskIds: outcome.taskIds,
+                reason: outcome.reason,
+            });
+            createdCount += outcome.taskIds.length;
+        } catch (error) {
+            console.error(
+                `Error generating recurring task ${definition.id}:`,
+                error
+            );
+            await record("failed", {
+                reason: error instanceof Error ? error.message : String(error),
+            }).catch(() => undefined);
+        }
+    }
+    return createdCount;
+}
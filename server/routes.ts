@@ -2,12 +2,15 @@ import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { broadcast } from "./index";
+import { publish, channels, disconnectUser } from "./realtime";
 import { sendPushNotificationToUser } from "./lib/firebase-admin";
 import {
     insertCompanySchema,
     insertUserSchema,
     insertTaskSchema,
+    insertTaskChecklistItemSchema,
+    insertRecurringTaskSchema,
+    insertTaskWorkflowStatusSchema,
     insertReportSchema,
     insertMessageSchema,
     insertRatingSchema,
@@ -30,7 +33,16 @@ import {
     passwordResetRequestSchema,
     passwordResetSchema,
     insertAttendanceRecordSchema,
-    insertCorrectionRequestSchema,
+    insertGeofenceSchema,
+    insertAttendancePolicySchema,
+    insertLeaveTypeSchema,
+    insertLeaveApprovalPolicySchema,
+    insertShiftAssignmentSchema,
+    type AttendancePolicy,
+    type InsertShiftAssignment,
+    type ShiftRosterEntry,
+    type Shift,
+    type User,
 } from "@shared/schema";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
@@ -45,6 +57,124 @@ import {
 import crypto from "crypto";
 import Stripe from "stripe";
 import passport from "passport";
+import type { GoogleRegistrationProfile } from "./passport";
+import {
+    establishSession,
+    destroySession,
+    requireAuth,
+    requireAdmin,
+} from "./auth";
+import { tenantStorageFor } from "./tenant-storage";
+import { evaluatePunchLocation } from "./utils/geofence";
+import {
+    addDays,
+    findAssignmentForDate,
+    shiftIdForDate,
+} from "./utils/shift-schedule";
+import { resolveWorkday, findCurrentAttendance } from "./shifts";
+import { companyToday } from "./company-time";
+import { settleAttendance } from "./attendance-status";
+import { endBreak, startBreak } from "./attendance-breaks";
+import { punchIn, punchOut } from "./attendance-punch";
+import {
+    kioskCode,
+    kioskFromAuthorization,
+    kioskPunch,
+    redeemKioskCode,
+    registerKiosk,
+    setKioskPin,
+    verifyKioskPin,
+} from "./kiosks";
+import { alignSessions } from "./attendance-sessions";
+import {
+    decideOvertime,
+    recordOvertime,
+    requestOvertime,
+    type OvertimeOutcome,
+} from "./overtime";
+import {
+    buildPayrollRows,
+    payrollTable,
+    payrollWorkbook,
+} from "./payroll-export";
+import {
+    evaluateLatePenalties,
+    userLatePenalty,
+} from "./late-penalties";
+import {
+    PAYROLL_PRESETS,
+    payrollColumns,
+    toCsv,
+} from "./utils/payroll-columns";
+import { breakOverageMinutes } from "./utils/break-time";
+import {
+    assessLeaveRequest,
+    debitLeaveBalance,
+    getLeaveBalances,
+    restoreLeaveBalance,
+    withAvailableBalance,
+} from "./leave-balances";
+import {
+    leaveChannels,
+    startLeaveApproval,
+    currentApprovalStep,
+    canDecideStep,
+    isFinalApproval,
+    recordLeaveDecision,
+    recordStatusOverride,
+    withAwaitingApprover,
+} from "./leave-approvals";
+import {
+    requestLeaveChange,
+    applyLeaveChange,
+    declineLeaveChange,
+    regenerateLeaveAttendance,
+} from "./leave-changes";
+import {
+    decideCorrections,
+    fileCorrectionRequests,
+    validateCorrectionItems,
+    MAX_CORRECTION_DAYS,
+    type CorrectionOutcome,
+} from "./attendance-corrections";
+import { isValidTimezone } from "./utils/timezone";
+import {
+    addTaskComment,
+    recordTaskActivity,
+    recordTaskChanges,
+    taskChannels,
+} from "./task-activity";
+import {
+    RECURRING_TASK_RUN,
+    recurringTasksWithSchedule,
+    validateRecurringTask,
+} from "./recurring-tasks";
+import {
+    completionBlocker,
+    publishParentUpdate,
+    taskBreakdown,
+    validateParentTask,
+} from "./subtasks";
+import {
+    publishDependencyChanges,
+    startBlocker,
+    taskDependencies,
+    validateDependency,
+    withBlockers,
+} from "./task-dependencies";
+import {
+    addWorkflowColumn,
+    companyWorkflow,
+    isStartedStatus,
+    removeWorkflowColumn,
+    saveTaskChanges,
+    updateWorkflowColumn,
+    validateStatusChange,
+} from "./task-workflow";
+import {
+    DEFAULT_APPROVAL_STEPS,
+    DEFAULT_SLA_HOURS,
+} from "./utils/approval-chain";
 
 const stripe = process.env.STRIPE_SECRET_KEY
     ? new Stripe(process.env.STRIPE_SECRET_KEY)
@@ -56,48 +186,169 @@ const isGoogleOAuthConfigured = !!(
     process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
 );
 
-async function requireAuth(
-    req: express.Request,
-    res: express.Response,
-    next: express.NextFunction
-) {
-    const userId = parseInt(req.headers["x-user-id"] as string);
-    if (!userId) {
-        return res.status(401).json({ message: "Authentication required" });
+// Body of a comment on a task; replies name the comment they answer
+const taskCommentSchema = z.object({
+    body: z
+        .string()
+        .trim()
+        .min(1, "Comment cannot be empty")
+        .max(2000, "Comment must be at most 2000 characters"),
+    parentId: z.number().int().positive().nullable().optional(),
+});
+
+const taskDependencySchema = z.object({
+    dependsOnTaskId: z.number().int().positive(),
+});
+
+const checklistItemUpdateSchema = insertTaskChecklistItemSchema
+    .pick({ title: true, isDone: true })
+    .partial();
+
+const workflowColumnSchema = insertTaskWorkflowStatusSchema.pick({
+    name: true,
+    category: true,
+    position: true,
+    wipLimit: true,
+    allowedTransitions: true,
+});
+
+// Admins define recurring tasks for their own company only
+const recurringTaskBodySchema = insertRecurringTaskSchema.omit({
+    companyId: true,
+    createdBy: true,
+});
+
+// Body of a leave approval or rejection; remarks are kept on the approval trail
+const leaveDecisionSchema = z.object({
+    remarks: z
+        .string()
+        .trim()
+        .max(500, "Remarks must be at most 500 characters")
+        .optional()
+        .transform((remarks) => remarks || undefined),
+});
+
+type PunchRejection = {
+    allowed: false;
+    status: number;
+    code: string;
+    message: string;
+};
+
+type PunchLocationResult =
+    | { allowed: true; distance: number | null; site: string | null }
+    | PunchRejection;
+
+// Checks a check-in/out location against the company's geofences and turns a
+// failed check into the rejection the attendance page shows
+async function checkPunchLocation(
+    companyId: number,
+    policy: AttendancePolicy | null,
+    gpsLocation: string | null | undefined
+): Promise<PunchLocationResult> {
+    const check = evaluatePunchLocation(
+        gpsLocation,
+        await storage.getGeofencesByCompany(companyId),
+        policy?.requireGPS ?? false
+    );
+    if (check.allowed) {
+        return check;
     }
 
-    const user = await storage.getUserById(userId);
-    if (!user || !user.isActive) {
-        return res
-            .status(401)
-            .json({ message: "User account disabled", code: "USER_INACTIVE" });
+    switch (check.reason) {
+        case "gps_required":
+            return {
+                allowed: false,
+                status: 400,
+                code: "GPS_REQUIRED",
+                message:
+                    "Your company requires a GPS location to mark attendance. Please enable location access.",
+            };
+        case "no_geofence":
+            return {
+                allowed: false,
+                status: 403,
+                code: "NO_GEOFENCE",
+                message:
+                    "Your company requires attendance at an office location, but none is set up yet. Please contact your admin.",
+            };
+        case "outside_geofence":
+            return {
+                allowed: false,
+                status: 403,
+                code: "OUTSIDE_GEOFENCE",
+                message: `You are ${check.match.distance} m from ${check.match.geofence.name}. Attendance can only be marked within ${check.match.geofence.radiusMeters} m of an office location.`,
+            };
     }
+}
+
+// When the policy requires device binding, a punch must come from the user's active
+// trusted device. Rejections are written to the attendance audit log.
+async function checkPunchDevice(
+    userId: number,
+    policy: AttendancePolicy | null,
+    deviceId: string | null | undefined,
+    attendanceId: number | null
+): Promise<{ allowed: true } | PunchRejection> {
+    if (!policy?.requireDeviceBinding) {
+        return { allowed: true };
+    }
+
+    const activeDevice = await storage.getActiveDeviceByUser(userId);
+    if (activeDevice && deviceId && activeDevice.deviceId === deviceId) {
+        return { allowed: true };
+    }
+
+    await storage.createAttendanceLog({
+        attendanceId,
+        userId,
+        action: "device_rejected",
+        performedBy: userId,
+        oldValue: activeDevice?.deviceId || null,
+        newValue: deviceId || null,
+    });
 
-    next();
+    return {
+        allowed: false,
+        status: 403,
+        code: activeDevice ? "DEVICE_NOT_TRUSTED" : "DEVICE_NOT_REGISTERED",
+        message: activeDevice
+            ? "Attendance can only be marked from your registered device. Request a device change if you replaced it."
+            : "Register this device before marking attendance.",
+    };
 }
 
-async function requireAdmin(
-    req: express.Request,
-    res: express.Response,
-    next: express.NextFunction
-) {
-    const userId = parseInt(req.headers["x-user-id"] as string);
-    if (!userId) {
-        return res.status(401).json({ message: "Authentication required" });
+// Checks that an assignment targets exactly one user or team and only references the
+// company's own users and shifts. Returns an error message, or null when valid.
+async function validateShiftAssignment(
+    companyId: number,
+    assignment: InsertShiftAssignment
+): Promise<string | null> {
+    if (!assignment.userId === !assignment.teamLeaderId) {
+        return "Assign the shift to either a user or a team";
     }
 
-    const user = await storage.getUserById(userId);
-    if (!user || !user.isActive) {
-        return res
-            .status(401)
-            .json({ message: "User account disabled", code: "USER_INACTIVE" });
+    if (assignment.effectiveTo && assignment.effectiveTo < assignment.effectiveFrom) {
+        return "Effective to must not be before effective from";
+    }
+
+    const targetId = (assignment.userId ?? assignment.teamLeaderId)!;
+    const target = await storage.getUserById(targetId);
+    if (!target || target.companyId !== companyId) {
+        return "User not found";
+    }
+    if (assignment.teamLeaderId && target.role !== "team_leader") {
+        return "Team assignments must reference a team leader";
     }
 
-    if (user.role !== "company_admin" && user.role !== "super_admin") {
-        return res.status(403).json({ message: "Admin access required" });
+    const companyShiftIds = new Set(
+        (await storage.getShiftsByCompany(companyId)).map((s) => s.id)
+    );
+    if (assignment.shiftIds.some((id) => !companyShiftIds.has(id))) {
+        return "Shift not found";
     }
 
-    next();
+    return null;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -464,14 +715,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
             if (!isGoogleOAuthConfigured) {
                 return res.redirect("/?error=google_oauth_not_configured");
             }
-            passport.authenticate("google", {
-                failureRedirect: "/?error=google_auth_failed",
-                session: false,
-            })(req, res, next);
+            passport.authenticate(
+                "google",
+                { session: false },
+                (
+                    error: Error | null,
+                    _user: false,
+                    registration?: GoogleRegistrationProfile
+                ) => {
+                    if (error) {
+                        return next(error);
+                    }
+                    if (!registration) {
+                        return res.redirect("/?error=google_auth_failed");
+                    }
+                    req.googleRegistration = registration;
+                    next();
+                }
+            )(req, res, next);
         },
         async (req, res, next) => {
             try {
-                const googleUser = req.user as any;
+                const googleUser = req.googleRegistration;
 
                 if (!googleUser || !googleUser.email) {
                     return res.redirect("/?error=no_email");
@@ -595,6 +860,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     .json({ message: "Invalid email or password" });
             }
 
+            await establishSession(req, user);
+
             const { password: _, ...userWithoutPassword } = user;
             res.json(userWithoutPassword);
         } catch (error) {
@@ -678,6 +945,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     role: newAdmin.role,
                 });
 
+                await establishSession(req, newAdmin);
+
                 const { password: _, ...userWithoutPassword } = newAdmin;
                 return res.json({
                     ...userWithoutPassword,
@@ -698,6 +967,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 company.yearEstablished
             );
 
+            await establishSession(req, adminUser);
+
             const { password: _, ...userWithoutPassword } = adminUser;
             res.json({
                 ...userWithoutPassword,
@@ -757,6 +1028,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 return res.status(401).json({ message: "Invalid password" });
             }
 
+            await establishSession(req, user);
+
             const { password: _, ...userWithoutPassword } = user;
             res.json(userWithoutPassword);
         } catch (error) {
@@ -808,6 +1081,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 role,
             });
 
+            await establishSession(req, user);
+
             const { password: _, ...userWithoutPassword } = user;
             res.json(userWithoutPassword);
         } catch (error) {
@@ -841,6 +1116,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     .json({ message: "Invalid email or password" });
             }
 
+            if (!user.isActive) {
+                return res.status(401).json({
+                    message:
+                        "Account is inactive. Please contact your administrator.",
+                });
+            }
+
+            await establishSession(req, user);
+
             const { password: _, ...userWithoutPassword } = user;
 
             let companyProfileComplete = true;
@@ -942,9 +1226,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
     });
 
+    // Rotates the session id and extends its expiry; the client calls this on load to
+    // confirm its stored user still has a live session
+    app.post("/api/auth/refresh", requireAuth, async (req, res, next) => {
+        try {
+            const user = await storage.getUserById(req.user!.id);
+            if (!user) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            await establishSession(req, user);
+
+            const { password: _, ...userWithoutPassword } = user;
+            res.json(userWithoutPassword);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.post("/api/auth/logout", async (req, res, next) => {
+        try {
+            await destroySession(req, res);
+            res.json({ message: "Logged out successfully" });
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Signs the user out of every device, not just this browser
+    app.post("/api/auth/logout-all", requireAuth, async (req, res, next) => {
+        try {
+            await storage.revokeUserSessions(req.user!.id);
+            disconnectUser(req.user!.id);
+            await destroySession(req, res);
+            res.json({ message: "Logged out of all sessions" });
+        } catch (error) {
+            next(error);
+        }
+    });
+
     app.get("/api/users", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -952,7 +1275,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
@@ -985,7 +1308,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/users/:id", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -993,7 +1316,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res
@@ -1024,9 +1347,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Get the assigned team leader for the current user
     app.get("/api/team-leader/me", requireAuth, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
-            );
+            const requestingUserId = req.user!.id;
             const requestingUser = await storage.getUserById(requestingUserId);
 
             if (!requestingUser) {
@@ -1066,7 +1387,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Team Leader: Get today's team attendance
     app.get("/api/team-leader/team-attendance/today", requireAuth, async (req, res, next) => {
         try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
+            const userId = req.user!.id;
             const user = await storage.getUserById(userId);
             
             if (!user) {
@@ -1080,9 +1401,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             // Get all team members assigned to this team leader
             const teamMembers = await storage.getTeamMembersByLeader(userId);
             
-            // Get today's date in IST (Indian Standard Time) for consistency
-            const today = new Date();
-            const todayStr = today.toISOString().split('T')[0];
+            // Today in the company's timezone
+            const todayStr = await companyToday(user.companyId);
             
             // Get attendance records for each team member
             const teamAttendance = await Promise.all(
@@ -1108,7 +1428,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.patch("/api/users/:id/role", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1116,7 +1436,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (
                 !requestingUser ||
@@ -1160,7 +1480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Permanently delete a user and all their data
     app.delete("/api/users/:id/permanent", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1168,7 +1488,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (
                 !requestingUser ||
@@ -1210,7 +1530,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.post("/api/users", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
 
             if (!requestingUserId) {
                 return res
@@ -1219,7 +1539,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
 
             if (
@@ -1310,9 +1630,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
     });
 
+    app.post(
+        "/api/users/:id/revoke-sessions",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                const targetUser = await storage.getUserById(
+                    parseInt(req.params.id)
+                );
+                if (!targetUser) {
+                    return res.status(404).json({ message: "User not found" });
+                }
+
+                // Company scoping: admins can only revoke users in their company (or all if super_admin)
+                if (
+                    requestingUser.role !== "super_admin" &&
+                    targetUser.companyId !== requestingUser.companyId
+                ) {
+                    return res.status(403).json({ message: "Access denied" });
+                }
+
+                await storage.revokeUserSessions(targetUser.id);
+                disconnectUser(targetUser.id);
+                res.json({ message: "User sessions revoked" });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
     app.patch("/api/users/:id/status", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
 
             if (!requestingUserId) {
                 return res
@@ -1321,7 +1671,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
 
             if (
@@ -1363,15 +1713,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             await storage.toggleUserStatus(userId, isActive);
-
-            const { broadcast } = await import("./index");
-            if (broadcast) {
-                if (!isActive) {
-                    broadcast({ type: "USER_SUSPENDED", userId });
-                }
-                broadcast({ type: "USERS_UPDATED" });
+            if (!isActive) {
+                await storage.revokeUserSessions(userId);
             }
 
+            if (!isActive) {
+                publish(channels.user(userId), {
+                    type: "USER_SUSPENDED",
+                    userId,
+                });
+                disconnectUser(userId);
+            }
+            publish(
+                targetUser.companyId
+                    ? [
+                          channels.companyAdmins(targetUser.companyId),
+                          channels.platform,
+                      ]
+                    : channels.platform,
+                { type: "USERS_UPDATED" }
+            );
+
             res.json({
                 message: `User ${
                     isActive ? "activated" : "suspended"
@@ -1385,7 +1747,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Team Assignment routes
     app.post("/api/team-assignments", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1393,7 +1755,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (
                 !requestingUser ||
@@ -1490,7 +1852,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "/api/team-assignments/:teamLeaderId/members",
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
+                const requestingUserId = req.user?.id;
                 if (!requestingUserId) {
                     return res
                         .status(401)
@@ -1498,7 +1860,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
 
                 const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                    requestingUserId
                 );
                 if (!requestingUser) {
                     return res.status(404).json({ message: "User not found" });
@@ -1545,7 +1907,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "/api/team-assignments/:teamLeaderId/attendance/today",
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
+                const requestingUserId = req.user?.id;
                 if (!requestingUserId) {
                     return res
                         .status(401)
@@ -1553,7 +1915,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
 
                 const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                    requestingUserId
                 );
                 if (!requestingUser) {
                     return res.status(404).json({ message: "User not found" });
@@ -1592,10 +1954,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 const memberIds = members.map((m) => m.id);
 
                 // Get today's attendance for all team members
-                const today = new Date().toISOString().split("T")[0];
                 if (!teamLeader.companyId) {
                     return res.json([]);
                 }
+                const today = await companyToday(teamLeader.companyId);
 
                 const allAttendance = await storage.getDailyAttendance(
                     teamLeader.companyId,
@@ -1616,7 +1978,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "/api/team-assignments/:teamLeaderId/attendance/reports",
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
+                const requestingUserId = req.user?.id;
                 if (!requestingUserId) {
                     return res
                         .status(401)
@@ -1624,7 +1986,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
 
                 const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                    requestingUserId
                 );
                 if (!requestingUser) {
                     return res.status(404).json({ message: "User not found" });
@@ -1650,15 +2012,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 );
 
                 // Get date range from query params (default to current month)
-                const now = new Date();
+                const today = await companyToday(teamLeader.companyId);
                 const startDate =
                     (req.query.startDate as string) ||
-                    new Date(now.getFullYear(), now.getMonth(), 1)
-                        .toISOString()
-                        .split("T")[0];
-                const endDate =
-                    (req.query.endDate as string) ||
-                    now.toISOString().split("T")[0];
+                    `${today.substring(0, 7)}-01`;
+                const endDate = (req.query.endDate as string) || today;
 
                 // Calculate stats for each team member
                 const memberStats = [];
@@ -1679,6 +2037,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     const lateDays = attendanceHistory.filter(
                         (a) => a.status === "late"
                     ).length;
+                    const halfDays = attendanceHistory.filter(
+                        (a) => a.status === "half_day"
+                    ).length;
+                    const shortDays = attendanceHistory.filter(
+                        (a) => a.status === "short_day"
+                    ).length;
 
                     // Calculate average working hours
                     const totalMinutes = attendanceHistory
@@ -1735,6 +2099,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                         presentDays,
                         absentDays,
                         lateDays,
+                        halfDays,
+                        shortDays,
                         avgHours,
                         trend,
                     });
@@ -1746,7 +2112,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     0
                 );
                 const totalRecords = memberStats.reduce(
-                    (sum, m) => sum + m.presentDays + m.absentDays,
+                    (sum, m) =>
+                        sum +
+                        m.presentDays +
+                        m.halfDays +
+                        m.shortDays +
+                        m.absentDays,
                     0
                 );
                 const attendanceRate =
@@ -1788,7 +2159,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "/api/team-assignments/:teamLeaderId/members/:memberId",
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
+                const requestingUserId = req.user?.id;
                 if (!requestingUserId) {
                     return res
                         .status(401)
@@ -1796,7 +2167,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
 
                 const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                    requestingUserId
                 );
                 if (
                     !requestingUser ||
@@ -1837,7 +2208,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/team-assignments", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1845,7 +2216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (
                 !requestingUser ||
@@ -1868,7 +2239,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Company routes (Super Admin only)
     app.post("/api/companies", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1876,7 +2247,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({
@@ -1899,7 +2270,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/companies", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1907,7 +2278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({
@@ -1924,7 +2295,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/companies/:id", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1932,7 +2303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({
@@ -1954,7 +2325,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/companies/:id/users", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1962,7 +2333,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({
@@ -1984,7 +2355,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.patch("/api/companies/:id", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -1992,7 +2363,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(401).json({ message: "User not found" });
@@ -2022,7 +2393,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.delete("/api/companies/:id", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2030,7 +2401,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({
@@ -2056,7 +2427,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Super Admin Dashboard Routes
     app.get("/api/super-admin/companies-with-stats", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2064,7 +2435,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({ message: "Access denied" });
@@ -2079,7 +2450,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/super-admin/companies/:id/stats", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2087,7 +2458,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({ message: "Access denied" });
@@ -2109,7 +2480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "/api/super-admin/companies/:id/suspend",
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
+                const requestingUserId = req.user?.id;
                 if (!requestingUserId) {
                     return res
                         .status(401)
@@ -2117,7 +2488,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
 
                 const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                    requestingUserId
                 );
                 if (!requestingUser || requestingUser.role !== "super_admin") {
                     return res.status(403).json({ message: "Access denied" });
@@ -2138,7 +2509,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "/api/super-admin/companies/:id/reactivate",
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
+                const requestingUserId = req.user?.id;
                 if (!requestingUserId) {
                     return res
                         .status(401)
@@ -2146,7 +2517,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
 
                 const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                    requestingUserId
                 );
                 if (!requestingUser || requestingUser.role !== "super_admin") {
                     return res.status(403).json({ message: "Access denied" });
@@ -2165,7 +2536,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/super-admin/analytics", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2173,7 +2544,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({ message: "Access denied" });
@@ -2188,7 +2559,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/super-admin/activity-logs", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2196,7 +2567,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({ message: "Access denied" });
@@ -2216,7 +2587,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "/api/super-admin/activity-logs/company/:companyId",
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
+                const requestingUserId = req.user?.id;
                 if (!requestingUserId) {
                     return res
                         .status(401)
@@ -2224,7 +2595,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
 
                 const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                    requestingUserId
                 );
                 if (!requestingUser || requestingUser.role !== "super_admin") {
                     return res.status(403).json({ message: "Access denied" });
@@ -2242,7 +2613,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/super-admin/payments", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2250,7 +2621,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "super_admin") {
                 return res.status(403).json({ message: "Access denied" });
@@ -2279,7 +2650,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Company Admin routes (for managing their own company)
     app.get("/api/my-company", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2287,7 +2658,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || !requestingUser.companyId) {
                 return res
@@ -2324,7 +2695,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.patch("/api/my-company", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2332,7 +2703,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || requestingUser.role !== "company_admin") {
                 return res.status(403).json({
@@ -2347,6 +2718,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const updates = req.body;
+            if (
+                updates.timezone !== undefined &&
+                (typeof updates.timezone !== "string" ||
+                    !isValidTimezone(updates.timezone))
+            ) {
+                return res.status(400).json({ message: "Invalid timezone" });
+            }
             await storage.updateCompany(requestingUser.companyId, updates);
             res.json({ message: "Company updated successfully" });
         } catch (error) {
@@ -2357,7 +2735,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Task routes
     app.post("/api/tasks", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2365,7 +2743,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser || !requestingUser.companyId) {
                 return res
@@ -2377,6 +2755,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 ...req.body,
                 companyId: requestingUser.companyId,
             });
+            if (validatedTask.parentTaskId) {
+                const parentError = await validateParentTask(
+                    validatedTask.parentTaskId,
+                    { companyId: requestingUser.companyId }
+                );
+                if (parentError) {
+                    return res.status(400).json({ message: parentError });
+                }
+            }
             const task = await storage.createTask(validatedTask);
 
             if (validatedTask.assignedTo) {
@@ -2429,7 +2816,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/tasks", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2437,73 +2824,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
+            const tenant = tenantStorageFor(requestingUser);
             const { userId, assignedBy } = req.query;
 
             if (userId) {
-                const tasks = await storage.getTasksByUserId(
+                const tasks = await tenant.getTasksByUserId(
                     parseInt(userId as string)
                 );
-                // Filter by company unless super_admin
-                if (requestingUser.role === "super_admin") {
-                    res.json(tasks);
-                } else {
-                    res.json(
-                        tasks.filter(
-                            (task) =>
-                                task.companyId === requestingUser.companyId
-                        )
-                    );
-                }
+                res.json(await withBlockers(tasks));
             } else if (assignedBy) {
-                const tasks = await storage.getTasksByAssignedBy(
+                const tasks = await tenant.getTasksByAssignedBy(
                     parseInt(assignedBy as string)
                 );
-                // Filter by company unless super_admin
-                if (requestingUser.role === "super_admin") {
-                    res.json(tasks);
-                } else {
-                    res.json(
-                        tasks.filter(
-                            (task) =>
-                                task.companyId === requestingUser.companyId
-                        )
-                    );
-                }
-            } else if (requestingUser.role === "super_admin") {
-                const tasks = await storage.getAllTasks();
-                res.json(tasks);
-            } else if (requestingUser.role === "company_admin") {
+                res.json(await withBlockers(tasks));
+            } else if (
+                requestingUser.role === "super_admin" ||
+                requestingUser.role === "company_admin"
+            ) {
                 // Admin sees all tasks in their company
-                const tasks = await storage.getTasksByCompanyId(
-                    requestingUser.companyId
-                );
-                res.json(tasks);
+                const tasks = await tenant.getTasks();
+                res.json(await withBlockers(tasks));
             } else if (requestingUser.role === "team_leader") {
                 // Team leader sees tasks assigned to their team members AND tasks assigned to them
                 const teamMembers = await storage.getTeamMembersByLeader(
                     requestingUser.id
                 );
                 const teamMemberIds = teamMembers.map((m) => m.id);
-                const allTasks = await storage.getTasksByCompanyId(
-                    requestingUser.companyId
-                );
+                const allTasks = await tenant.getTasks();
                 res.json(
-                    allTasks.filter(
-                        (task) =>
-                            teamMemberIds.includes(task.assignedTo) ||
-                            task.assignedTo === requestingUser.id
+                    await withBlockers(
+                        allTasks.filter(
+                            (task) =>
+                                teamMemberIds.includes(task.assignedTo) ||
+                                task.assignedTo === requestingUser.id
+                        )
                     )
                 );
             } else if (requestingUser.role === "company_member") {
                 // Employee sees only their assigned tasks
-                const tasks = await storage.getTasksByUserId(requestingUser.id);
-                res.json(tasks);
+                const tasks = await tenant.getTasksByUserId(requestingUser.id);
+                res.json(await withBlockers(tasks));
             } else {
                 res.json([]);
             }
@@ -2514,7 +2880,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/tasks/:id", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2522,25 +2888,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const task = await storage.getTaskById(parseInt(req.params.id));
+            const task = await tenantStorageFor(requestingUser).getTaskById(
+                parseInt(req.params.id)
+            );
             if (!task) {
                 return res.status(404).json({ message: "Task not found" });
             }
 
-            // Check company access unless super_admin
-            if (
-                requestingUser.role !== "super_admin" &&
-                task.companyId !== requestingUser.companyId
-            ) {
-                return res.status(403).json({ message: "Access denied" });
-            }
-
             res.json(task);
         } catch (error) {
             next(error);
@@ -2549,7 +2909,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.patch("/api/tasks/:id/status", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2557,25 +2917,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const task = await storage.getTaskById(parseInt(req.params.id));
+            const tenant = tenantStorageFor(requestingUser);
+            const task = await tenant.getTaskById(parseInt(req.params.id));
             if (!task) {
                 return res.status(404).json({ message: "Task not found" });
             }
 
-            // Check company access unless super_admin
-            if (
-                requestingUser.role !== "super_admin" &&
-                task.companyId !== requestingUser.companyId
-            ) {
-                return res.status(403).json({ message: "Access denied" });
-            }
-
             const { status } = req.body;
             console.log(
                 `[TaskStatus] Updating task ${parseInt(
@@ -2583,23 +2936,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 )} to status: ${status}`
             );
 
+            const statusError = await validateStatusChange(task, status);
+            if (statusError) {
+                return res.status(400).json({ message: statusError });
+            }
+            if (status === "completed" && task.status !== "completed") {
+                const blocker = await completionBlocker(task);
+                if (blocker) {
+                    return res.status(400).json({ message: blocker });
+                }
+            }
+            if (
+                status !== task.status &&
+                (await isStartedStatus(task.companyId, status))
+            ) {
+                const blocker = await startBlocker(task);
+                if (blocker) {
+                    return res.status(400).json({ message: blocker });
+                }
+            }
+
             // Set completedAt when status changes to completed
             const updates: any = { status };
             if (status === "completed") {
                 updates.completedAt = new Date();
             }
 
-            await storage.updateTask(parseInt(req.params.id), updates);
-            console.log(
-                `[TaskStatus] Broadcasting task update: ${parseInt(
-                    req.params.id
-                )} -> ${status}`
-            );
-            broadcast({
+            const saved = await saveTaskChanges(tenant, task, updates);
+            if (saved.error) {
+                return res.status(400).json({ message: saved.error });
+            }
+            publish(await taskChannels(task), {
                 type: "task_updated",
                 taskId: parseInt(req.params.id),
                 status,
             });
+            await publishParentUpdate(task);
+            await publishDependencyChanges(task, { ...task, status });
+            if (status !== task.status) {
+                await recordTaskActivity(
+                    { ...task, status },
+                    requestingUser.id,
+                    "status_changed",
+                    task.status,
+                    status
+                );
+            }
             res.json({ message: "Task status updated" });
         } catch (error) {
             next(error);
@@ -2609,7 +2991,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Get task details with time logs and rework count
     app.get("/api/tasks/:id/details", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2617,30 +2999,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const task = await storage.getTaskById(parseInt(req.params.id));
+            const task = await tenantStorageFor(requestingUser).getTaskById(
+                parseInt(req.params.id)
+            );
             if (!task) {
                 return res.status(404).json({ message: "Task not found" });
             }
 
-            // Check company access unless super_admin
-            if (
-                requestingUser.role !== "super_admin" &&
-                task.companyId !== requestingUser.companyId
-            ) {
-                return res.status(403).json({ message: "Access denied" });
-            }
-
             // Get time logs for the user the task is assigned to
             const timeLogs = await storage.getTaskTimeLogs(
                 parseInt(req.params.id),
                 task.assignedTo
             );
+            const breakdown = await taskBreakdown(task);
 
             // Aggregate all time logs for this task
             let totalSeconds = 0;
@@ -2659,8 +3036,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
             });
 
+            // Time spent on subtasks counts towards the parent
+            let subtaskSeconds = 0;
+            for (const subtask of breakdown.subtasks) {
+                const subtaskLogs = await storage.getTaskTimeLogs(
+                    subtask.id,
+                    subtask.assignedTo
+                );
+                subtaskLogs.forEach((log) => {
+                    subtaskSeconds += log.totalSeconds || 0;
+                });
+            }
+            totalSeconds += subtaskSeconds;
+
+            const parentTask = task.parentTaskId
+                ? await storage.getTaskById(task.parentTaskId)
+                : null;
+            const dependencies = await taskDependencies(task);
+
             // Get rework history with dates from message history
-            const messages = await storage.getAllMessages();
+            const messages = await tenantStorageFor(
+                requestingUser
+            ).getMessages();
             const reworkHistory = messages
                 .filter(
                     (m) =>
@@ -2684,10 +3081,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
                               totalSeconds,
                               oldTimeSeconds,
                               newTimeSeconds,
+                              subtaskSeconds,
                           }
                         : null,
                 reworkHistory,
                 returnCount: reworkHistory.length,
+                ...breakdown,
+                parentTask: parentTask
+                    ? { id: parentTask.id, title: parentTask.title }
+                    : null,
+                dependencies,
             });
         } catch (error) {
             next(error);
@@ -2696,7 +3099,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.patch("/api/tasks/:id", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2704,42 +3107,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const task = await storage.getTaskById(parseInt(req.params.id));
+            const tenant = tenantStorageFor(requestingUser);
+            const task = await tenant.getTaskById(parseInt(req.params.id));
             if (!task) {
                 return res.status(404).json({ message: "Task not found" });
             }
 
-            // Check company access unless super_admin
-            if (
-                requestingUser.role !== "super_admin" &&
-                task.companyId !== requestingUser.companyId
-            ) {
-                return res.status(403).json({ message: "Access denied" });
-            }
-
             const updates = req.body;
             // Convert deadline string to Date object if present
             if (updates.deadline && typeof updates.deadline === "string") {
                 updates.deadline = new Date(updates.deadline);
             }
-            await storage.updateTask(parseInt(req.params.id), updates);
-
-            // Get the updated task to broadcast the actual status
-            const updatedTask = await storage.getTaskById(
-                parseInt(req.params.id)
-            );
+            if (updates.parentTaskId) {
+                const parentError = await validateParentTask(
+                    updates.parentTaskId,
+                    task
+                );
+                if (parentError) {
+                    return res.status(400).json({ message: parentError });
+                }
+            }
+            if (updates.status !== undefined) {
+                const statusError = await validateStatusChange(
+                    task,
+                    updates.status
+                );
+                if (statusError) {
+                    return res.status(400).json({ message: statusError });
+                }
+            }
+            if (
+                updates.status === "completed" &&
+                task.status !== "completed"
+            ) {
+                const blocker = await completionBlocker(task);
+                if (blocker) {
+                    return res.status(400).json({ message: blocker });
+                }
+            }
+            if (
+                updates.status !== undefined &&
+                updates.status !== task.status &&
+                (await isStartedStatus(task.companyId, updates.status))
+            ) {
+                const blocker = await startBlocker(task);
+                if (blocker) {
+                    return res.status(400).json({ message: blocker });
+                }
+            }
+            const { task: updatedTask, error: saveError } =
+                await saveTaskChanges(tenant, task, updates);
+            if (saveError) {
+                return res.status(400).json({ message: saveError });
+            }
             if (updatedTask) {
-                broadcast({
+                publish(await taskChannels(updatedTask), {
                     type: "task_updated",
                     taskId: parseInt(req.params.id),
                     status: updatedTask.status,
                 });
+                await recordTaskChanges(task, updatedTask, requestingUser.id);
+                await publishParentUpdate(updatedTask);
+                await publishDependencyChanges(task, updatedTask);
             }
 
             res.json({ message: "Task updated" });
@@ -2750,7 +3185,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.delete("/api/tasks/:id", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2758,27 +3193,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const task = await storage.getTaskById(parseInt(req.params.id));
+            const tenant = tenantStorageFor(requestingUser);
+            const task = await tenant.getTaskById(parseInt(req.params.id));
             if (!task) {
                 return res.status(404).json({ message: "Task not found" });
             }
 
-            // Check company access unless super_admin
-            if (
-                requestingUser.role !== "super_admin" &&
-                task.companyId !== requestingUser.companyId
-            ) {
-                return res.status(403).json({ message: "Access denied" });
-            }
-
-            await storage.deleteTask(parseInt(req.params.id));
-            broadcast({
+            const audience = await taskChannels(task);
+            await tenant.deleteTask(task.id);
+            publish(audience, {
                 type: "task_deleted",
                 taskId: parseInt(req.params.id),
             });
@@ -2789,18 +3218,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     // Task timer routes
-    app.get("/api/tasks/:id/timer", async (req, res, next) => {
+    app.get("/api/tasks/:id/timer", requireAuth, async (req, res, next) => {
         try {
-            const { userId, date } = req.query;
-            if (!userId || !date) {
-                return res
-                    .status(400)
-                    .json({ message: "userId and date are required" });
+            const { date } = req.query;
+            if (!date) {
+                return res.status(400).json({ message: "date is required" });
             }
 
             const timeLog = await storage.getTaskTimeLog(
                 parseInt(req.params.id),
-                parseInt(userId as string),
+                req.user!.id,
                 date as string
             );
             res.json(timeLog);
@@ -2809,76 +3236,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
     });
 
-    app.post("/api/tasks/:id/timer/start", async (req, res, next) => {
+    app.post("/api/tasks/:id/timer/start", requireAuth, async (req, res, next) => {
         try {
-            const { userId, date } = req.body;
-            if (!userId || !date) {
-                return res
-                    .status(400)
-                    .json({ message: "userId and date are required" });
+            // Timers only ever run for the signed-in user
+            const userId = req.user!.id;
+            const { date } = req.body;
+            if (!date) {
+                return res.status(400).json({ message: "date is required" });
             }
 
-            const timeLog = await storage.startTaskTimer(
-                parseInt(req.params.id),
-                userId,
-                date
+            const task = await tenantStorageFor(req.user!).getTaskById(
+                parseInt(req.params.id)
             );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
+            }
+            const blocker = await startBlocker(task);
+            if (blocker) {
+                return res.status(400).json({ message: blocker });
+            }
+
+            const timeLog = await storage.startTaskTimer(task.id, userId, date);
+            await recordTaskActivity(task, userId, "timer_started");
             res.json(timeLog);
         } catch (error) {
             next(error);
         }
     });
 
-    app.post("/api/tasks/:id/timer/pause", async (req, res, next) => {
+    app.post("/api/tasks/:id/timer/pause", requireAuth, async (req, res, next) => {
         try {
-            const { userId, date } = req.body;
-            if (!userId || !date) {
-                return res
-                    .status(400)
-                    .json({ message: "userId and date are required" });
+            const userId = req.user!.id;
+            const { date } = req.body;
+            if (!date) {
+                return res.status(400).json({ message: "date is required" });
             }
 
-            const timeLog = await storage.pauseTaskTimer(
-                parseInt(req.params.id),
-                userId,
-                date
+            const task = await tenantStorageFor(req.user!).getTaskById(
+                parseInt(req.params.id)
             );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
+            }
+
+            const timeLog = await storage.pauseTaskTimer(task.id, userId, date);
+            await recordTaskActivity(task, userId, "timer_paused");
             res.json(timeLog);
         } catch (error) {
             next(error);
         }
     });
 
-    app.post("/api/tasks/:id/timer/complete", async (req, res, next) => {
+    app.post("/api/tasks/:id/timer/complete", requireAuth, async (req, res, next) => {
         try {
-            const { userId, date } = req.body;
-            if (!userId || !date) {
-                return res
-                    .status(400)
-                    .json({ message: "userId and date are required" });
+            const userId = req.user!.id;
+            const { date } = req.body;
+            if (!date) {
+                return res.status(400).json({ message: "date is required" });
             }
 
-            const timeLog = await storage.completeTaskTimer(
-                parseInt(req.params.id),
-                userId,
-                date
+            const task = await tenantStorageFor(req.user!).getTaskById(
+                parseInt(req.params.id)
             );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
+            }
+
+            const timeLog = await storage.completeTaskTimer(task.id, userId, date);
+            await recordTaskActivity(task, userId, "timer_completed");
             res.json(timeLog);
         } catch (error) {
             next(error);
         }
     });
 
-    app.get("/api/tasks/:id/timer/logs", async (req, res, next) => {
+    app.get("/api/tasks/:id/timer/logs", requireAuth, async (req, res, next) => {
         try {
-            const { userId } = req.query;
-            if (!userId) {
-                return res.status(400).json({ message: "userId is required" });
-            }
-
             const timeLogs = await storage.getTaskTimeLogs(
                 parseInt(req.params.id),
-                parseInt(userId as string)
+                req.user!.id
             );
             res.json(timeLogs);
         } catch (error) {
@@ -2886,10 +3322,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
     });
 
-    // Report routes
-    app.post("/api/reports", async (req, res, next) => {
+    // Task checklist routes
+    app.post("/api/tasks/:id/checklist", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2897,51 +3333,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
-            if (!requestingUser || !requestingUser.companyId) {
-                return res
-                    .status(403)
-                    .json({ message: "User must belong to a company" });
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
             }
 
-            const validatedReport = insertReportSchema.parse({
-                ...req.body,
-                companyId: requestingUser.companyId,
-            });
-            const report = await storage.createReport(validatedReport);
-
-            // Get user information and company admin email for notification
-            const user = await storage.getUserById(validatedReport.userId);
-            if (user) {
-                // Get company to find admin email
-                const company = await storage.getCompanyById(user.companyId!);
-                if (company && company.email) {
-                    // Send email notification to company admin asynchronously (don't wait for it)
-                    sendReportNotification({
-                        adminEmail: company.email,
-                        userName: user.displayName,
-                        reportType: validatedReport.reportType,
-                        plannedTasks: validatedReport.plannedTasks,
-                        completedTasks: validatedReport.completedTasks,
-                        pendingTasks: validatedReport.pendingTasks,
-                        notes: validatedReport.notes,
-                        createdAt: report.createdAt,
-                    }).catch((err) =>
-                        console.error("Failed to send email notification:", err)
-                    );
-                }
+            const task = await tenantStorageFor(requestingUser).getTaskById(
+                parseInt(req.params.id)
+            );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
             }
 
-            res.json(report);
+            const { title } = insertTaskChecklistItemSchema
+                .pick({ title: true })
+                .parse(req.body);
+            const existing = await storage.getTaskChecklistItems(task.id);
+            const item = await storage.createTaskChecklistItem({
+                taskId: task.id,
+                title,
+                position: existing.length,
+            });
+            publish(await taskChannels(task), {
+                type: "task_updated",
+                taskId: task.id,
+                status: task.status,
+            });
+            await publishParentUpdate(task);
+            res.json(item);
         } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
             next(error);
         }
     });
 
-    app.get("/api/reports", async (req, res, next) => {
+    app.patch("/api/tasks/:id/checklist/:itemId", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -2949,82 +3382,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const { userId, startDate, endDate } = req.query;
-
-            if (userId && startDate && endDate) {
-                const reports = await storage.getReportsByUserAndDate(
-                    parseInt(userId as string),
-                    new Date(startDate as string),
-                    new Date(endDate as string)
-                );
-                // Filter by company unless super_admin
-                if (requestingUser.role === "super_admin") {
-                    res.json(reports);
-                } else {
-                    res.json(
-                        reports.filter(
-                            (report) =>
-                                report.companyId === requestingUser.companyId
-                        )
-                    );
-                }
-            } else if (userId) {
-                const reports = await storage.getReportsByUserId(
-                    parseInt(userId as string)
-                );
-                // Filter by company unless super_admin
-                if (requestingUser.role === "super_admin") {
-                    res.json(reports);
-                } else {
-                    res.json(
-                        reports.filter(
-                            (report) =>
-                                report.companyId === requestingUser.companyId
-                        )
-                    );
-                }
-            } else if (startDate && endDate) {
-                const reports = await storage.getReportsByDate(
-                    new Date(startDate as string),
-                    new Date(endDate as string)
-                );
-                // Filter by company unless super_admin
-                if (requestingUser.role === "super_admin") {
-                    res.json(reports);
-                } else {
-                    res.json(
-                        reports.filter(
-                            (report) =>
-                                report.companyId === requestingUser.companyId
-                        )
-                    );
-                }
-            } else if (requestingUser.role === "super_admin") {
-                const reports = await storage.getAllReports();
-                res.json(reports);
-            } else if (requestingUser.companyId) {
-                const reports = await storage.getReportsByCompanyId(
-                    requestingUser.companyId
-                );
-                res.json(reports);
-            } else {
-                res.json([]);
+            const task = await tenantStorageFor(requestingUser).getTaskById(
+                parseInt(req.params.id)
+            );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
             }
+
+            const item = await storage.getTaskChecklistItemById(
+                parseInt(req.params.itemId)
+            );
+            if (!item || item.taskId !== task.id) {
+                return res
+                    .status(404)
+                    .json({ message: "Checklist item not found" });
+            }
+
+            const updates = checklistItemUpdateSchema.parse(req.body);
+            const updated = await storage.updateTaskChecklistItem(item.id, {
+                ...updates,
+                ...(updates.isDone !== undefined &&
+                updates.isDone !== item.isDone
+                    ? {
+                          completedBy: updates.isDone
+                              ? requestingUser.id
+                              : null,
+                          completedAt: updates.isDone ? new Date() : null,
+                      }
+                    : {}),
+            });
+            publish(await taskChannels(task), {
+                type: "task_updated",
+                taskId: task.id,
+                status: task.status,
+            });
+            await publishParentUpdate(task);
+            res.json(updated);
         } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
             next(error);
         }
     });
 
-    // Message routes
-    app.post("/api/messages", async (req, res, next) => {
+    app.delete("/api/tasks/:id/checklist/:itemId", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -3032,176 +3444,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const receiverUser = await storage.getUserById(req.body.receiverId);
-            if (!receiverUser) {
-                return res.status(404).json({ message: "Receiver not found" });
-            }
-
-            // Same-company check: ensure both users belong to the same company
-            if (
-                requestingUser.companyId !== receiverUser.companyId &&
-                requestingUser.role !== "super_admin"
-            ) {
-                return res.status(403).json({
-                    message: "Cannot send messages across different companies",
-                });
-            }
-
-            // Determine message type based on sender and receiver roles
-            let messageType = "team_leader_to_employee";
-
-            // Super admin sending messages
-            if (
-                requestingUser.role === "super_admin" &&
-                receiverUser.role === "team_leader"
-            ) {
-                messageType = "admin_to_team_leader";
-            } else if (
-                requestingUser.role === "super_admin" &&
-                receiverUser.role === "company_member"
-            ) {
-                messageType = "admin_to_employee";
-            } else if (
-                requestingUser.role === "super_admin" &&
-                receiverUser.role === "company_admin"
-            ) {
-                messageType = "admin_to_admin";
-            }
-            // Company admin sending messages
-            else if (
-                requestingUser.role === "company_admin" &&
-                receiverUser.role === "team_leader"
-            ) {
-                messageType = "admin_to_team_leader";
-            } else if (
-                requestingUser.role === "company_admin" &&
-                receiverUser.role === "company_member"
-            ) {
-                messageType = "admin_to_employee";
-            }
-            // Team leader sending messages
-            else if (
-                requestingUser.role === "team_leader" &&
-                receiverUser.role === "company_member"
-            ) {
-                messageType = "team_leader_to_employee";
-            } else if (
-                requestingUser.role === "team_leader" &&
-                receiverUser.role === "company_admin"
-            ) {
-                messageType = "team_leader_to_admin";
-            }
-            // Employee (company member) sending messages
-            else if (
-                requestingUser.role === "company_member" &&
-                receiverUser.role === "team_leader"
-            ) {
-                messageType = "employee_to_team_leader";
-            } else if (
-                requestingUser.role === "company_member" &&
-                receiverUser.role === "company_admin"
-            ) {
-                messageType = "employee_to_admin";
+            const task = await tenantStorageFor(requestingUser).getTaskById(
+                parseInt(req.params.id)
+            );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
             }
 
-            // Authorization: Team leaders can message their team members and admins, employees can reply to their team leader or admin
-            if (requestingUser.role === "team_leader") {
-                // Team leader can message admins or their team members
-                if (
-                    receiverUser.role !== "company_admin" &&
-                    receiverUser.role !== "super_admin"
-                ) {
-                    // Check if receiver is in their team
-                    const teamMembers = await storage.getTeamMembersByLeader(
-                        requestingUser.id
-                    );
-                    const teamMemberIds = teamMembers.map((m) => m.id);
-                    if (!teamMemberIds.includes(receiverUser.id)) {
-                        return res.status(403).json({
-                            message:
-                                "You can only message your team members or admins",
-                        });
-                    }
-                }
-            } else if (requestingUser.role === "company_member") {
-                // Employee replying to team leader - check if sender is their team leader
-                const teamAssignments =
-                    await storage.getTeamAssignmentsByMemberId(
-                        requestingUser.id
-                    );
-                const leaderIds = teamAssignments.map((t) => t.teamLeaderId);
-                if (
-                    !leaderIds.includes(receiverUser.id) ||
-                    receiverUser.role !== "team_leader"
-                ) {
-                    return res.status(403).json({
-                        message: "You can only reply to your team leader",
-                    });
-                }
-            } else if (
-                requestingUser.role !== "super_admin" &&
-                requestingUser.role !== "company_admin"
-            ) {
+            const item = await storage.getTaskChecklistItemById(
+                parseInt(req.params.itemId)
+            );
+            if (!item || item.taskId !== task.id) {
                 return res
-                    .status(403)
-                    .json({ message: "Unauthorized to send messages" });
+                    .status(404)
+                    .json({ message: "Checklist item not found" });
             }
 
-            const messageData = {
-                senderId: requestingUser.id,
-                receiverId: req.body.receiverId,
-                message: req.body.message,
-                messageType,
-                relatedTaskId: req.body.relatedTaskId,
-                readStatus: false,
-            };
-
-            const validatedMessage = insertMessageSchema.parse(messageData);
-            const message = await storage.createMessage(validatedMessage);
-
-            // Broadcast new message via WebSocket
-            const { broadcast } = await import("./index.js");
-            broadcast({
-                type: "NEW_MESSAGE",
-                data: {
-                    ...message,
-                    senderName: requestingUser.displayName,
-                    receiverName: receiverUser.displayName,
-                },
+            await storage.deleteTaskChecklistItem(item.id);
+            publish(await taskChannels(task), {
+                type: "task_updated",
+                taskId: task.id,
+                status: task.status,
             });
-
-            // Send push notification to receiver
-            sendPushNotificationToUser(
-                message.receiverId,
-                "New Message",
-                `${requestingUser.displayName}: ${message.message.substring(
-                    0,
-                    50
-                )}${message.message.length > 50 ? "..." : ""}`,
-                {
-                    messageId: message.id.toString(),
-                    url: "/user/messages",
-                },
-                storage
-            ).catch((error) =>
-                console.error("Failed to send push notification:", error)
-            );
-
-            res.json(message);
+            await publishParentUpdate(task);
+            res.json({ message: "Checklist item deleted" });
         } catch (error) {
             next(error);
         }
     });
 
-    app.get("/api/messages", async (req, res, next) => {
+    // Task dependency routes
+    app.post("/api/tasks/:id/dependencies", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -3209,179 +3490,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const { receiverId, unreadOnly } = req.query;
+            const task = await tenantStorageFor(requestingUser).getTaskById(
+                parseInt(req.params.id)
+            );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
+            }
 
-            if (receiverId) {
-                // Only super_admin can query other users' messages
-                if (
-                    requestingUser.role !== "super_admin" &&
-                    parseInt(receiverId as string) !== requestingUser.id
-                ) {
-                    return res.status(403).json({
-                        message: "You can only view your own messages",
-                    });
-                }
+            const { dependsOnTaskId } = taskDependencySchema.parse(req.body);
+            const validationError = await validateDependency(
+                task,
+                dependsOnTaskId
+            );
+            if (validationError) {
+                return res.status(400).json({ message: validationError });
+            }
 
-                const messages =
-                    unreadOnly === "true"
-                        ? await storage.getUnreadMessagesByReceiverId(
-                              parseInt(receiverId as string)
-                          )
-                        : await storage.getMessagesByReceiverId(
-                              parseInt(receiverId as string)
-                          );
-                res.json(messages);
-            } else if (requestingUser.role === "super_admin") {
-                const messages = await storage.getAllMessages();
-                res.json(messages);
-            } else {
-                // Return all messages where user is either sender or receiver
-                const allMessages = await storage.getAllMessages();
-                const userMessages = allMessages.filter(
-                    (msg) =>
-                        msg.senderId === requestingUser.id ||
-                        msg.receiverId === requestingUser.id
-                );
-                res.json(userMessages);
-            }
-        } catch (error) {
-            next(error);
-        }
-    });
-
-    app.patch("/api/messages/:id/read", async (req, res, next) => {
-        try {
-            await storage.markMessageAsRead(parseInt(req.params.id));
-            res.json({ message: "Message marked as read" });
+            const dependency = await storage.createTaskDependency({
+                taskId: task.id,
+                dependsOnTaskId,
+                companyId: task.companyId,
+                createdBy: requestingUser.id,
+            });
+            publish(await taskChannels(task), {
+                type: "task_updated",
+                taskId: task.id,
+                status: task.status,
+            });
+            res.json(dependency);
         } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
             next(error);
         }
     });
 
-    // Rating routes
-    app.post("/api/ratings", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
-
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser) {
-                return res.status(404).json({ message: "User not found" });
-            }
-
-            const targetUser = await storage.getUserById(req.body.userId);
-            if (!targetUser) {
-                return res
-                    .status(404)
-                    .json({ message: "Target user not found" });
-            }
-
-            // Prevent self-rating
-            if (requestingUser.id === req.body.userId) {
-                return res
-                    .status(403)
-                    .json({ message: "You cannot rate yourself" });
-            }
+    app.delete(
+        "/api/tasks/:id/dependencies/:dependsOnTaskId",
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user?.id;
+                if (!requestingUserId) {
+                    return res
+                        .status(401)
+                        .json({ message: "Authentication required" });
+                }
 
-            // Authorization checks
-            if (requestingUser.role === "team_leader") {
-                // Team leader can only rate their team members (not themselves or other leaders)
-                const teamMembers = await storage.getTeamMembersByLeader(
-                    requestingUser.id
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
                 );
-                const teamMemberIds = teamMembers
-                    .map((m) => m.id)
-                    .filter((id) => id !== requestingUser.id);
-                if (!teamMemberIds.includes(req.body.userId)) {
-                    return res.status(403).json({
-                        message: "You can only rate your team members",
-                    });
-                }
-                // Ensure target is a team member, not another leader
-                if (
-                    targetUser.role === "team_leader" ||
-                    targetUser.role === "company_admin" ||
-                    targetUser.role === "super_admin"
-                ) {
+                if (!requestingUser) {
                     return res
-                        .status(403)
-                        .json({ message: "You can only rate team members" });
-                }
-            } else if (requestingUser.role === "company_admin") {
-                // Admin can rate both team leaders and employees in their company
-                if (targetUser.companyId !== requestingUser.companyId) {
-                    return res.status(403).json({
-                        message: "You can only rate users in your company",
-                    });
-                }
-                if (
-                    targetUser.role !== "team_leader" &&
-                    targetUser.role !== "company_member"
-                ) {
-                    return res.status(403).json({
-                        message: "You can only rate team leaders and employees",
-                    });
-                }
-            } else {
-                // Super admins can also rate both team leaders and employees
-                if (
-                    targetUser.role !== "team_leader" &&
-                    targetUser.role !== "company_member"
-                ) {
-                    return res.status(403).json({
-                        message: "You can only rate team leaders and employees",
-                    });
+                        .status(404)
+                        .json({ message: "User not found" });
                 }
-            }
-
-            const ratingData = {
-                userId: req.body.userId,
-                ratedBy: requestingUser.id,
-                rating: req.body.rating,
-                feedback: req.body.feedback,
-                period: req.body.period,
-            };
-
-            const validatedRating = insertRatingSchema.parse(ratingData);
 
-            try {
-                const rating = await storage.createRating(validatedRating);
-
-                // Ratings are now shown only in the Ratings Section, not in messages
-                res.json(rating);
-            } catch (dbError: any) {
-                // Catch unique constraint violation (PostgreSQL error code 23505)
-                if (
-                    dbError.code === "23505" ||
-                    dbError.message?.includes("unique_rating_per_period")
-                ) {
-                    return res.status(409).json({
-                        message: `You have already rated this user for the ${validatedRating.period} period`,
-                    });
+                const task = await tenantStorageFor(
+                    requestingUser
+                ).getTaskById(parseInt(req.params.id));
+                if (!task) {
+                    return res
+                        .status(404)
+                        .json({ message: "Task not found" });
                 }
-                throw dbError;
+
+                await storage.deleteTaskDependency(
+                    task.id,
+                    parseInt(req.params.dependsOnTaskId)
+                );
+                publish(await taskChannels(task), {
+                    type: "task_updated",
+                    taskId: task.id,
+                    status: task.status,
+                });
+                res.json({ message: "Dependency removed" });
+            } catch (error) {
+                next(error);
             }
-        } catch (error) {
-            next(error);
         }
-    });
+    );
 
-    app.get("/api/ratings", async (req, res, next) => {
+    // Task comment routes
+    app.get("/api/tasks/:id/comments", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -3389,72 +3590,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
             if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            const { userId, latest } = req.query;
-
-            if (userId && latest === "true") {
-                // Verify target user exists and belongs to same company
-                const ratedUser = await storage.getUserById(
-                    parseInt(userId as string)
-                );
-                if (
-                    !ratedUser ||
-                    ratedUser.companyId !== requestingUser.companyId
-                ) {
-                    return res.status(403).json({ message: "Access denied" });
-                }
-
-                const rating = await storage.getLatestRatingByUserId(
-                    parseInt(userId as string)
-                );
-                res.json(rating);
-            } else if (userId) {
-                // Verify target user exists and belongs to same company
-                const ratedUser = await storage.getUserById(
-                    parseInt(userId as string)
-                );
-                if (
-                    !ratedUser ||
-                    ratedUser.companyId !== requestingUser.companyId
-                ) {
-                    return res.json([]);
-                }
-
-                const ratings = await storage.getRatingsByUserId(
-                    parseInt(userId as string)
-                );
-                res.json(ratings);
-            } else if (requestingUser.role === "super_admin") {
-                const ratings = await storage.getAllRatings();
-                res.json(ratings);
-            } else if (requestingUser.companyId) {
-                // Return ratings for users in the same company
-                const companyUsers = await storage.getUsersByCompanyId(
-                    requestingUser.companyId
-                );
-                const companyUserIds = companyUsers.map((u) => u.id);
-                const allRatings = await storage.getAllRatings();
-                const companyRatings = allRatings.filter((r) =>
-                    companyUserIds.includes(r.userId)
-                );
-                res.json(companyRatings);
-            } else {
-                res.json([]);
+            const task = await tenantStorageFor(requestingUser).getTaskById(
+                parseInt(req.params.id)
+            );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
             }
+
+            res.json(await storage.getTaskComments(task.id));
         } catch (error) {
             next(error);
         }
     });
 
-    // Feedback routes
-    app.post("/api/feedbacks", async (req, res, next) => {
+    app.post("/api/tasks/:id/comments", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -3462,130 +3619,332 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
-            if (!requestingUser || !requestingUser.companyId) {
+            if (!requestingUser) {
                 return res.status(404).json({ message: "User not found" });
             }
 
-            // Validate request body first
-            const validatedInput = z
-                .object({
-                    recipientType: z.enum(["Admin", "TeamLeader", "Employee"]),
-                    message: z.string().min(1, "Message is required"),
-                })
-                .parse(req.body);
-
-            const feedbackData = {
-                companyId: requestingUser.companyId,
-                submittedBy: requestingUser.id,
-                recipientType: validatedInput.recipientType,
-                message: validatedInput.message,
-                adminResponse: null,
-            };
-
-            const validatedFeedback = insertFeedbackSchema.parse(feedbackData);
-            const feedback = await storage.createFeedback(validatedFeedback);
+            const task = await tenantStorageFor(requestingUser).getTaskById(
+                parseInt(req.params.id)
+            );
+            if (!task) {
+                return res.status(404).json({ message: "Task not found" });
+            }
 
-            res.json(feedback);
+            const { body, parentId } = taskCommentSchema.parse(req.body);
+            const { comment, error } = await addTaskComment(
+                task,
+                requestingUser,
+                body,
+                parentId ?? null
+            );
+            if (error) {
+                return res.status(400).json({ message: error });
+            }
+            res.json(comment);
         } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
             next(error);
         }
     });
 
-    app.get("/api/feedbacks", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
+    // Recurring task routes
+    app.get(
+        "/api/admin/recurring-tasks",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
+                }
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser) {
-                return res.status(404).json({ message: "User not found" });
+                res.json(
+                    await recurringTasksWithSchedule(
+                        requestingUser.companyId,
+                        await companyToday(requestingUser.companyId)
+                    )
+                );
+            } catch (error) {
+                next(error);
             }
+        }
+    );
 
-            const { submittedBy } = req.query;
-
-            let feedbacks;
-            if (submittedBy) {
-                // Only allow users to query their own feedback or admins to query anyone's
-                const targetUserId = parseInt(submittedBy as string);
-                if (
-                    targetUserId !== requestingUser.id &&
-                    requestingUser.role !== "super_admin" &&
-                    requestingUser.role !== "company_admin"
-                ) {
-                    return res.status(403).json({
-                        message:
-                            "You can only view your own submitted feedback",
-                    });
+    // Recent runs of the company's recurring tasks, newest first
+    app.get(
+        "/api/admin/recurring-tasks/runs",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
                 }
 
-                const targetUser = await storage.getUserById(targetUserId);
+                res.json(
+                    await storage.getAutoTasksByCompany(
+                        requestingUser.companyId,
+                        RECURRING_TASK_RUN,
+                        50
+                    )
+                );
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    app.post(
+        "/api/admin/recurring-tasks",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
+                }
+
+                const validatedData = recurringTaskBodySchema.parse(req.body);
+                const validationError = await validateRecurringTask(
+                    requestingUser.companyId,
+                    validatedData
+                );
+                if (validationError) {
+                    return res.status(400).json({ message: validationError });
+                }
+
+                const definition = await storage.createRecurringTask({
+                    ...validatedData,
+                    companyId: requestingUser.companyId,
+                    createdBy: requestingUser.id,
+                });
+                res.json(definition);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    app.patch(
+        "/api/admin/recurring-tasks/:id",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                const definition = await storage.getRecurringTaskById(
+                    parseInt(req.params.id)
+                );
                 if (
-                    !targetUser ||
-                    targetUser.companyId !== requestingUser.companyId
+                    !definition ||
+                    definition.companyId !== requestingUser.companyId
                 ) {
-                    return res.json([]);
+                    return res
+                        .status(404)
+                        .json({ message: "Recurring task not found" });
                 }
-                feedbacks = await storage.getFeedbacksByUserId(targetUserId);
-            } else if (requestingUser.role === "super_admin") {
-                feedbacks = await storage.getAllFeedbacks();
-            } else if (
-                requestingUser.role === "company_admin" &&
-                requestingUser.companyId
-            ) {
-                // Admins see all feedbacks in their company
-                feedbacks = await storage.getFeedbacksByCompanyId(
-                    requestingUser.companyId
+
+                const updates = recurringTaskBodySchema
+                    .partial()
+                    .parse(req.body);
+                const validationError = await validateRecurringTask(
+                    definition.companyId,
+                    { ...definition, ...updates }
                 );
-            } else if (
-                requestingUser.role === "team_leader" &&
-                requestingUser.companyId
-            ) {
-                // Team leaders see feedbacks intended for them (recipientType = 'TeamLeader')
-                const allCompanyFeedbacks =
-                    await storage.getFeedbacksByCompanyId(
-                        requestingUser.companyId
-                    );
-                feedbacks = allCompanyFeedbacks.filter(
-                    (f) => f.recipientType === "TeamLeader"
+                if (validationError) {
+                    return res.status(400).json({ message: validationError });
+                }
+
+                // A new rotation starts from its first user
+                const rotationChanged =
+                    updates.rotationUserIds !== undefined &&
+                    updates.rotationUserIds.join(",") !==
+                        definition.rotationUserIds.join(",");
+                const updated = await storage.updateRecurringTask(
+                    definition.id,
+                    rotationChanged ? { ...updates, rotationIndex: 0 } : updates
                 );
-            } else {
-                // Regular users see their own submitted feedbacks
-                feedbacks = await storage.getFeedbacksByUserId(
-                    requestingUser.id
+                res.json(updated);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    app.delete(
+        "/api/admin/recurring-tasks/:id",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                const definition = await storage.getRecurringTaskById(
+                    parseInt(req.params.id)
                 );
+                if (
+                    !definition ||
+                    definition.companyId !== requestingUser.companyId
+                ) {
+                    return res
+                        .status(404)
+                        .json({ message: "Recurring task not found" });
+                }
+
+                await storage.deleteRecurringTask(definition.id);
+                res.json({ message: "Recurring task deleted" });
+            } catch (error) {
+                next(error);
             }
+        }
+    );
 
-            // Enrich feedbacks with submitter information
-            const enrichedFeedbacks = await Promise.all(
-                feedbacks.map(async (feedback) => {
-                    const submitter = await storage.getUserById(
-                        feedback.submittedBy
-                    );
-                    return {
-                        ...feedback,
-                        submitterName: submitter?.displayName || null,
-                        submitterRole: submitter?.role || null,
-                    };
-                })
-            );
+    // Task workflow routes. Every company member sees the board's columns; only
+    // admins change them.
+    app.get("/api/task-statuses", requireAuth, async (req, res, next) => {
+        try {
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
 
-            res.json(enrichedFeedbacks);
+            const columns = await companyWorkflow(requestingUser.companyId);
+            const withCounts = [];
+            for (const column of columns) {
+                withCounts.push({
+                    ...column,
+                    taskCount: await storage.countTasksWithStatus(
+                        requestingUser.companyId,
+                        column.key
+                    ),
+                });
+            }
+            res.json(withCounts);
         } catch (error) {
             next(error);
         }
     });
 
-    app.patch("/api/feedbacks/:id/respond", async (req, res, next) => {
+    app.post(
+        "/api/admin/task-statuses",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
+                }
+
+                const column = workflowColumnSchema
+                    .omit({ position: true })
+                    .parse(req.body);
+                const error = await addWorkflowColumn(
+                    requestingUser.companyId,
+                    column
+                );
+                if (error) {
+                    return res.status(400).json({ message: error });
+                }
+                res.json(await companyWorkflow(requestingUser.companyId));
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    app.patch(
+        "/api/admin/task-statuses/:key",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
+                }
+
+                const changes = workflowColumnSchema.partial().parse(req.body);
+                const error = await updateWorkflowColumn(
+                    requestingUser.companyId,
+                    req.params.key,
+                    changes
+                );
+                if (error) {
+                    return res
+                        .status(error === "Column not found" ? 404 : 400)
+                        .json({ message: error });
+                }
+                res.json(await companyWorkflow(requestingUser.companyId));
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    app.delete(
+        "/api/admin/task-statuses/:key",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
+                }
+
+                const error = await removeWorkflowColumn(
+                    requestingUser.companyId,
+                    req.params.key
+                );
+                if (error) {
+                    return res
+                        .status(error === "Column not found" ? 404 : 400)
+                        .json({ message: error });
+                }
+                res.json(await companyWorkflow(requestingUser.companyId));
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    // Report routes
+    app.post("/api/reports", async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
+            const requestingUserId = req.user?.id;
             if (!requestingUserId) {
                 return res
                     .status(401)
@@ -3593,161 +3952,2651 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
+                requestingUserId
             );
-            if (
-                !requestingUser ||
-                (requestingUser.role !== "company_admin" &&
-                    requestingUser.role !== "super_admin")
-            ) {
+            if (!requestingUser || !requestingUser.companyId) {
                 return res
                     .status(403)
-                    .json({ message: "Only admins can respond to feedback" });
+                    .json({ message: "User must belong to a company" });
             }
 
-            // Validate admin response
-            const validatedInput = z
-                .object({
-                    adminResponse: z.enum([
-                        "Good",
-                        "Bad",
-                        "Excellent",
-                        "Satisfactory",
-                        "Needs Improvement",
-                    ]),
-                })
-                .parse(req.body);
+            // Reports are always filed by the signed-in user
+            const validatedReport = insertReportSchema.parse({
+                ...req.body,
+                userId: requestingUser.id,
+                companyId: requestingUser.companyId,
+            });
+            const report = await storage.createReport(validatedReport);
 
-            // Get feedback by ID
-            const feedbackId = parseInt(req.params.id);
-            if (isNaN(feedbackId)) {
-                return res.status(404).json({ message: "Feedback not found" });
+            // Notify the company admin by email asynchronously (don't wait for it)
+            const company = await storage.getCompanyById(
+                requestingUser.companyId
+            );
+            if (company && company.email) {
+                sendReportNotification({
+                    adminEmail: company.email,
+                    userName: requestingUser.displayName,
+                    reportType: validatedReport.reportType,
+                    plannedTasks: validatedReport.plannedTasks,
+                    completedTasks: validatedReport.completedTasks,
+                    pendingTasks: validatedReport.pendingTasks,
+                    notes: validatedReport.notes,
+                    createdAt: report.createdAt,
+                }).catch((err) =>
+                    console.error("Failed to send email notification:", err)
+                );
             }
 
-            const feedback = await storage.getFeedbackById(feedbackId);
+            res.json(report);
+        } catch (error) {
+            next(error);
+        }
+    });
 
-            // Return generic 404 to prevent ID enumeration
-            if (!feedback) {
-                return res.status(404).json({ message: "Feedback not found" });
+    app.get("/api/reports", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
             }
 
-            // Verify company scoping (super_admin can respond to any, company_admin only to their company's)
-            if (
-                requestingUser.role === "company_admin" &&
-                feedback.companyId !== requestingUser.companyId
-            ) {
-                return res.status(404).json({ message: "Feedback not found" });
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
             }
 
-            await storage.respondToFeedback(
-                feedbackId,
-                validatedInput.adminResponse
-            );
-            res.json({ message: "Response sent successfully" });
+            const tenant = tenantStorageFor(requestingUser);
+            const { userId, startDate, endDate } = req.query;
+
+            if (startDate && endDate) {
+                const reports = await tenant.getReportsByDate(
+                    new Date(startDate as string),
+                    new Date(endDate as string),
+                    userId ? parseInt(userId as string) : undefined
+                );
+                res.json(reports);
+            } else if (userId) {
+                const reports = await tenant.getReportsByUserId(
+                    parseInt(userId as string)
+                );
+                res.json(reports);
+            } else {
+                const reports = await tenant.getReports();
+                res.json(reports);
+            }
         } catch (error) {
             next(error);
         }
     });
 
-    // File upload routes
-    app.post("/api/files", async (req, res, next) => {
+    // Message routes
+    app.post("/api/messages", async (req, res, next) => {
         try {
-            const validatedFile = insertFileUploadSchema.parse(req.body);
-            const file = await storage.createFileUpload(validatedFile);
-            res.json(file);
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            const receiverUser = await storage.getUserById(req.body.receiverId);
+            if (!receiverUser) {
+                return res.status(404).json({ message: "Receiver not found" });
+            }
+
+            // Same-company check: ensure both users belong to the same company
+            if (
+                requestingUser.companyId !== receiverUser.companyId &&
+                requestingUser.role !== "super_admin"
+            ) {
+                return res.status(403).json({
+                    message: "Cannot send messages across different companies",
+                });
+            }
+
+            // Determine message type based on sender and receiver roles
+            let messageType = "team_leader_to_employee";
+
+            // Super admin sending messages
+            if (
+                requestingUser.role === "super_admin" &&
+                receiverUser.role === "team_leader"
+            ) {
+                messageType = "admin_to_team_leader";
+            } else if (
+                requestingUser.role === "super_admin" &&
+                receiverUser.role === "company_member"
+            ) {
+                messageType = "admin_to_employee";
+            } else if (
+                requestingUser.role === "super_admin" &&
+                receiverUser.role === "company_admin"
+            ) {
+                messageType = "admin_to_admin";
+            }
+            // Company admin sending messages
+            else if (
+                requestingUser.role === "company_admin" &&
+                receiverUser.role === "team_leader"
+            ) {
+                messageType = "admin_to_team_leader";
+            } else if (
+                requestingUser.role === "company_admin" &&
+                receiverUser.role === "company_member"
+            ) {
+                messageType = "admin_to_employee";
+            }
+            // Team leader sending messages
+            else if (
+                requestingUser.role === "team_leader" &&
+                receiverUser.role === "company_member"
+            ) {
+                messageType = "team_leader_to_employee";
+            } else if (
+                requestingUser.role === "team_leader" &&
+                receiverUser.role === "company_admin"
+            ) {
+                messageType = "team_leader_to_admin";
+            }
+            // Employee (company member) sending messages
+            else if (
+                requestingUser.role === "company_member" &&
+                receiverUser.role === "team_leader"
+            ) {
+                messageType = "employee_to_team_leader";
+            } else if (
+                requestingUser.role === "company_member" &&
+                receiverUser.role === "company_admin"
+            ) {
+                messageType = "employee_to_admin";
+            }
+
+            // Authorization: Team leaders can message their team members and admins, employees can reply to their team leader or admin
+            if (requestingUser.role === "team_leader") {
+                // Team leader can message admins or their team members
+                if (
+                    receiverUser.role !== "company_admin" &&
+                    receiverUser.role !== "super_admin"
+                ) {
+                    // Check if receiver is in their team
+                    const teamMembers = await storage.getTeamMembersByLeader(
+                        requestingUser.id
+                    );
+                    const teamMemberIds = teamMembers.map((m) => m.id);
+                    if (!teamMemberIds.includes(receiverUser.id)) {
+                        return res.status(403).json({
+                            message:
+                                "You can only message your team members or admins",
+                        });
+                    }
+                }
+            } else if (requestingUser.role === "company_member") {
+                // Employee replying to team leader - check if sender is their team leader
+                const teamAssignments =
+                    await storage.getTeamAssignmentsByMemberId(
+                        requestingUser.id
+                    );
+                const leaderIds = teamAssignments.map((t) => t.teamLeaderId);
+                if (
+                    !leaderIds.includes(receiverUser.id) ||
+                    receiverUser.role !== "team_leader"
+                ) {
+                    return res.status(403).json({
+                        message: "You can only reply to your team leader",
+                    });
+                }
+            } else if (
+                requestingUser.role !== "super_admin" &&
+                requestingUser.role !== "company_admin"
+            ) {
+                return res
+                    .status(403)
+                    .json({ message: "Unauthorized to send messages" });
+            }
+
+            const messageData = {
+                senderId: requestingUser.id,
+                receiverId: req.body.receiverId,
+                message: req.body.message,
+                messageType,
+                relatedTaskId: req.body.relatedTaskId,
+                readStatus: false,
+            };
+
+            const validatedMessage = insertMessageSchema.parse(messageData);
+            const message = await storage.createMessage(validatedMessage);
+
+            // Deliver the new message to both participants
+            publish(
+                [
+                    channels.user(message.senderId),
+                    channels.user(message.receiverId),
+                ],
+                {
+                    type: "NEW_MESSAGE",
+                    data: {
+                        ...message,
+                        senderName: requestingUser.displayName,
+                        receiverName: receiverUser.displayName,
+                    },
+                }
+            );
+
+            // Send push notification to receiver
+            sendPushNotificationToUser(
+                message.receiverId,
+                "New Message",
+                `${requestingUser.displayName}: ${message.message.substring(
+                    0,
+                    50
+                )}${message.message.length > 50 ? "..." : ""}`,
+                {
+                    messageId: message.id.toString(),
+                    url: "/user/messages",
+                },
+                storage
+            ).catch((error) =>
+                console.error("Failed to send push notification:", error)
+            );
+
+            res.json(message);
         } catch (error) {
             next(error);
         }
     });
 
-    app.get("/api/files", async (req, res, next) => {
+    app.get("/api/messages", async (req, res, next) => {
         try {
-            const { userId, reportId } = req.query;
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
 
-            if (userId) {
-                const files = await storage.getFilesByUserId(
-                    parseInt(userId as string)
-                );
-                res.json(files);
-            } else if (reportId) {
-                const files = await storage.getFilesByReportId(
-                    parseInt(reportId as string)
-                );
-                res.json(files);
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            const { receiverId, unreadOnly } = req.query;
+
+            if (receiverId) {
+                // Only super_admin can query other users' messages
+                if (
+                    requestingUser.role !== "super_admin" &&
+                    parseInt(receiverId as string) !== requestingUser.id
+                ) {
+                    return res.status(403).json({
+                        message: "You can only view your own messages",
+                    });
+                }
+
+                const messages =
+                    unreadOnly === "true"
+                        ? await storage.getUnreadMessagesByReceiverId(
+                              parseInt(receiverId as string)
+                          )
+                        : await storage.getMessagesByReceiverId(
+                              parseInt(receiverId as string)
+                          );
+                res.json(messages);
+            } else if (requestingUser.role === "super_admin") {
+                const messages = await tenantStorageFor(
+                    requestingUser
+                ).getMessages();
+                res.json(messages);
             } else {
-                const files = await storage.getAllFiles();
-                res.json(files);
+                // Return all messages where user is either sender or receiver
+                const messages = await tenantStorageFor(
+                    requestingUser
+                ).getMessages(requestingUser.id);
+                res.json(messages);
             }
         } catch (error) {
             next(error);
         }
     });
 
-    // Archive routes
-    app.post("/api/archive", async (req, res, next) => {
+    app.patch("/api/messages/:id/read", requireAuth, async (req, res, next) => {
         try {
-            const { month, year } = req.body;
-            await storage.archiveReports(month, year);
-            res.json({ message: "Reports archived successfully" });
+            const marked = await storage.markMessageAsRead(
+                parseInt(req.params.id),
+                req.user!.id
+            );
+            if (!marked) {
+                return res.status(404).json({ message: "Message not found" });
+            }
+            res.json({ message: "Message marked as read" });
         } catch (error) {
             next(error);
         }
     });
 
-    app.get("/api/archive", async (req, res, next) => {
+    // Rating routes
+    app.post("/api/ratings", async (req, res, next) => {
         try {
-            const { userId } = req.query;
-            const archives = await storage.getArchivedReports(
-                userId ? parseInt(userId as string) : undefined
-            );
-            res.json(archives);
-        } catch (error) {
-            next(error);
-        }
-    });
+            const requestingUserId = req.user?.id;
+
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            const targetUser = await storage.getUserById(req.body.userId);
+            if (!targetUser) {
+                return res
+                    .status(404)
+                    .json({ message: "Target user not found" });
+            }
+
+            // Prevent self-rating
+            if (requestingUser.id === req.body.userId) {
+                return res
+                    .status(403)
+                    .json({ message: "You cannot rate yourself" });
+            }
+
+            // Authorization checks
+            if (requestingUser.role === "team_leader") {
+                // Team leader can only rate their team members (not themselves or other leaders)
+                const teamMembers = await storage.getTeamMembersByLeader(
+                    requestingUser.id
+                );
+                const teamMemberIds = teamMembers
+                    .map((m) => m.id)
+                    .filter((id) => id !== requestingUser.id);
+                if (!teamMemberIds.includes(req.body.userId)) {
+                    return res.status(403).json({
+                        message: "You can only rate your team members",
+                    });
+                }
+                // Ensure target is a team member, not another leader
+                if (
+                    targetUser.role === "team_leader" ||
+                    targetUser.role === "company_admin" ||
+                    targetUser.role === "super_admin"
+                ) {
+                    return res
+                        .status(403)
+                        .json({ message: "You can only rate team members" });
+                }
+            } else if (requestingUser.role === "company_admin") {
+                // Admin can rate both team leaders and employees in their company
+                if (targetUser.companyId !== requestingUser.companyId) {
+                    return res.status(403).json({
+                        message: "You can only rate users in your company",
+                    });
+                }
+                if (
+                    targetUser.role !== "team_leader" &&
+                    targetUser.role !== "company_member"
+                ) {
+                    return res.status(403).json({
+                        message: "You can only rate team leaders and employees",
+                    });
+                }
+            } else {
+                // Super admins can also rate both team leaders and employees
+                if (
+                    targetUser.role !== "team_leader" &&
+                    targetUser.role !== "company_member"
+                ) {
+                    return res.status(403).json({
+                        message: "You can only rate team leaders and employees",
+                    });
+                }
+            }
+
+            const ratingData = {
+                userId: req.body.userId,
+                ratedBy: requestingUser.id,
+                rating: req.body.rating,
+                feedback: req.body.feedback,
+                period: req.body.period,
+            };
+
+            const validatedRating = insertRatingSchema.parse(ratingData);
+
+            try {
+                const rating = await storage.createRating(validatedRating);
+
+                // Ratings are now shown only in the Ratings Section, not in messages
+                res.json(rating);
+            } catch (dbError: any) {
+                // Catch unique constraint violation (PostgreSQL error code 23505)
+                if (
+                    dbError.code === "23505" ||
+                    dbError.message?.includes("unique_rating_per_period")
+                ) {
+                    return res.status(409).json({
+                        message: `You have already rated this user for the ${validatedRating.period} period`,
+                    });
+                }
+                throw dbError;
+            }
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.get("/api/ratings", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            const tenant = tenantStorageFor(requestingUser);
+            const { userId, latest } = req.query;
+
+            if (userId && latest === "true") {
+                const rating = await tenant.getLatestRatingByUserId(
+                    parseInt(userId as string)
+                );
+                res.json(rating);
+            } else if (userId) {
+                const ratings = await tenant.getRatingsByUserId(
+                    parseInt(userId as string)
+                );
+                res.json(ratings);
+            } else {
+                const ratings = await tenant.getRatings();
+                res.json(ratings);
+            }
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Feedback routes
+    app.post("/api/feedbacks", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser || !requestingUser.companyId) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            // Validate request body first
+            const validatedInput = z
+                .object({
+                    recipientType: z.enum(["Admin", "TeamLeader", "Employee"]),
+                    message: z.string().min(1, "Message is required"),
+                })
+                .parse(req.body);
+
+            const feedbackData = {
+                companyId: requestingUser.companyId,
+                submittedBy: requestingUser.id,
+                recipientType: validatedInput.recipientType,
+                message: validatedInput.message,
+                adminResponse: null,
+            };
+
+            const validatedFeedback = insertFeedbackSchema.parse(feedbackData);
+            const feedback = await storage.createFeedback(validatedFeedback);
+
+            res.json(feedback);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.get("/api/feedbacks", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            const { submittedBy } = req.query;
+            const tenant = tenantStorageFor(requestingUser);
+
+            let feedbacks;
+            if (submittedBy) {
+                // Only allow users to query their own feedback or admins to query anyone's
+                const targetUserId = parseInt(submittedBy as string);
+                if (
+                    targetUserId !== requestingUser.id &&
+                    requestingUser.role !== "super_admin" &&
+                    requestingUser.role !== "company_admin"
+                ) {
+                    return res.status(403).json({
+                        message:
+                            "You can only view your own submitted feedback",
+                    });
+                }
+
+                feedbacks = await tenant.getFeedbacksByUserId(targetUserId);
+            } else if (
+                requestingUser.role === "super_admin" ||
+                requestingUser.role === "company_admin"
+            ) {
+                // Admins see all feedbacks in their company
+                feedbacks = await tenant.getFeedbacks();
+            } else if (requestingUser.role === "team_leader") {
+                // Team leaders see feedbacks intended for them (recipientType = 'TeamLeader')
+                feedbacks = (await tenant.getFeedbacks()).filter(
+                    (f) => f.recipientType === "TeamLeader"
+                );
+            } else {
+                // Regular users see their own submitted feedbacks
+                feedbacks = await tenant.getFeedbacksByUserId(
+                    requestingUser.id
+                );
+            }
+
+            // Enrich feedbacks with submitter information
+            const enrichedFeedbacks = await Promise.all(
+                feedbacks.map(async (feedback) => {
+                    const submitter = await storage.getUserById(
+                        feedback.submittedBy
+                    );
+                    return {
+                        ...feedback,
+                        submitterName: submitter?.displayName || null,
+                        submitterRole: submitter?.role || null,
+                    };
+                })
+            );
+
+            res.json(enrichedFeedbacks);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.patch("/api/feedbacks/:id/respond", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (
+                !requestingUser ||
+                (requestingUser.role !== "company_admin" &&
+                    requestingUser.role !== "super_admin")
+            ) {
+                return res
+                    .status(403)
+                    .json({ message: "Only admins can respond to feedback" });
+            }
+
+            // Validate admin response
+            const validatedInput = z
+                .object({
+                    adminResponse: z.enum([
+                        "Good",
+                        "Bad",
+                        "Excellent",
+                        "Satisfactory",
+                        "Needs Improvement",
+                    ]),
+                })
+                .parse(req.body);
+
+            // Get feedback by ID
+            const feedbackId = parseInt(req.params.id);
+            if (isNaN(feedbackId)) {
+                return res.status(404).json({ message: "Feedback not found" });
+            }
+
+            const feedback = await storage.getFeedbackById(feedbackId);
+
+            // Return generic 404 to prevent ID enumeration
+            if (!feedback) {
+                return res.status(404).json({ message: "Feedback not found" });
+            }
+
+            // Verify company scoping (super_admin can respond to any, company_admin only to their company's)
+            if (
+                requestingUser.role === "company_admin" &&
+                feedback.companyId !== requestingUser.companyId
+            ) {
+                return res.status(404).json({ message: "Feedback not found" });
+            }
+
+            await storage.respondToFeedback(
+                feedbackId,
+                validatedInput.adminResponse
+            );
+            res.json({ message: "Response sent successfully" });
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // File upload routes
+    // Files are uploaded by the signed-in user, onto one of their own reports
+    app.post("/api/files", requireAuth, async (req, res, next) => {
+        try {
+            const validatedFile = insertFileUploadSchema.parse({
+                ...req.body,
+                userId: req.user!.id,
+            });
+            if (validatedFile.reportId) {
+                const ownReports = await tenantStorageFor(
+                    req.user!
+                ).getReportsByUserId(req.user!.id);
+                if (!ownReports.some((r) => r.id === validatedFile.reportId)) {
+                    return res
+                        .status(404)
+                        .json({ message: "Report not found" });
+                }
+            }
+            const file = await storage.createFileUpload(validatedFile);
+            res.json(file);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    app.get("/api/files", requireAuth, async (req, res, next) => {
+        try {
+            const tenant = tenantStorageFor(req.user!);
+            const { userId, reportId } = req.query;
+
+            if (userId) {
+                const files = await tenant.getFilesByUserId(
+                    parseInt(userId as string)
+                );
+                res.json(files);
+            } else if (reportId) {
+                const files = await tenant.getFilesByReportId(
+                    parseInt(reportId as string)
+                );
+                res.json(files);
+            } else {
+                const files = await tenant.getFiles();
+                res.json(files);
+            }
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Archive routes
+    const archiveReportsSchema = z.object({
+        month: z.number().int().min(1).max(12),
+        year: z.number().int().min(2000).max(2100),
+    });
+
+    // Admins archive their own company's reports; super admins every company's
+    app.post("/api/archive", requireAdmin, async (req, res, next) => {
+        try {
+            const { month, year } = archiveReportsSchema.parse(req.body);
+            await storage.archiveReports(
+                month,
+                year,
+                tenantStorageFor(req.user!).companyId
+            );
+            res.json({ message: "Reports archived successfully" });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    app.get("/api/archive", requireAuth, async (req, res, next) => {
+        try {
+            const { userId } = req.query;
+            const archives = await tenantStorageFor(
+                req.user!
+            ).getArchivedReports(
+                userId ? parseInt(userId as string) : undefined
+            );
+            res.json(archives);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Dashboard stats
+    app.get("/api/dashboard/stats", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+
+            let companyId: number | undefined;
+
+            if (requestingUserId) {
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
+
+                if (
+                    requestingUser &&
+                    requestingUser.role !== "super_admin" &&
+                    requestingUser.companyId
+                ) {
+                    companyId = requestingUser.companyId;
+                }
+            }
+
+            const stats = await storage.getDashboardStats(companyId);
+            res.json(stats);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Group message routes
+    app.post("/api/group-messages", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+
+            if (
+                !requestingUser ||
+                (requestingUser.role !== "company_admin" &&
+                    requestingUser.role !== "super_admin")
+            ) {
+                return res
+                    .status(403)
+                    .json({ message: "Only admins can send announcements" });
+            }
+
+            if (!requestingUser.companyId) {
+                return res
+                    .status(403)
+                    .json({ message: "User must belong to a company" });
+            }
+
+            const messageData = {
+                companyId: requestingUser.companyId,
+                senderId: requestingUser.id,
+                title: req.body.title,
+                message: req.body.message,
+            };
+
+            const validatedMessage =
+                insertGroupMessageSchema.parse(messageData);
+            const message = await storage.createGroupMessage(validatedMessage);
+
+            // Announcements go to everyone in the company
+            publish(channels.company(message.companyId), {
+                type: "NEW_GROUP_MESSAGE",
+                data: {
+                    ...message,
+                    senderName: requestingUser.displayName,
+                },
+            });
+
+            // Send push notification to all company users
+            const companyUsers = await storage.getUsersByCompanyId(
+                requestingUser.companyId
+            );
+            const otherUsers = companyUsers.filter(
+                (u) => u.id !== requestingUser.id
+            );
+            for (const user of otherUsers) {
+                sendPushNotificationToUser(
+                    user.id,
+                    message.title,
+                    message.message.substring(0, 100),
+                    {
+                        messageId: message.id.toString(),
+                        url: "/user/announcements",
+                    },
+                    storage
+                ).catch((error) =>
+                    console.error("Failed to send push notification:", error)
+                );
+            }
+
+            res.json(message);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.get("/api/group-messages", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            const { limit } = req.query;
+
+            if (requestingUser.role === "super_admin") {
+                if (limit) {
+                    const messages = await storage.getRecentGroupMessages(
+                        parseInt(limit as string)
+                    );
+                    res.json(messages);
+                } else {
+                    const messages = await storage.getAllGroupMessages();
+                    res.json(messages);
+                }
+            } else if (requestingUser.companyId) {
+                const messages = await storage.getGroupMessagesByCompanyId(
+                    requestingUser.companyId
+                );
+                if (limit) {
+                    res.json(messages.slice(0, parseInt(limit as string)));
+                } else {
+                    res.json(messages);
+                }
+            } else {
+                res.json([]);
+            }
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Group message reply routes
+    app.post(
+        "/api/group-messages/:messageId/replies",
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user?.id;
+                if (!requestingUserId) {
+                    return res
+                        .status(401)
+                        .json({ message: "Authentication required" });
+                }
+
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
+                if (!requestingUser) {
+                    return res.status(404).json({ message: "User not found" });
+                }
+
+                if (!requestingUser.isActive) {
+                    return res.status(401).json({
+                        message: "User account disabled",
+                        code: "USER_INACTIVE",
+                    });
+                }
+
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(403)
+                        .json({ message: "User must belong to a company" });
+                }
+
+                const messageId = parseInt(req.params.messageId);
+
+                const groupMessage = await storage.getGroupMessageById(
+                    messageId
+                );
+                if (!groupMessage) {
+                    return res
+                        .status(404)
+                        .json({ message: "Group message not found" });
+                }
+
+                if (groupMessage.companyId !== requestingUser.companyId) {
+                    return res.status(403).json({
+                        message:
+                            "Access denied: you can only reply to messages in your company",
+                    });
+                }
+
+                if (
+                    typeof req.body.message !== "string" ||
+                    !req.body.message.trim()
+                ) {
+                    return res.status(400).json({
+                        message: "Reply message must be a non-empty string",
+                    });
+                }
+
+                const replyData = {
+                    groupMessageId: messageId,
+                    senderId: requestingUser.id,
+                    message: req.body.message,
+                };
+
+                const validatedReply =
+                    insertGroupMessageReplySchema.parse(replyData);
+                const reply = await storage.createGroupMessageReply(
+                    validatedReply
+                );
+
+                publish(channels.company(groupMessage.companyId), {
+                    type: "GROUP_MESSAGE_REPLY",
+                    reply,
+                    groupMessageId: messageId,
+                });
+
+                res.json(reply);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    app.get(
+        "/api/group-messages/:messageId/replies",
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user?.id;
+                if (!requestingUserId) {
+                    return res
+                        .status(401)
+                        .json({ message: "Authentication required" });
+                }
+
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
+                if (!requestingUser) {
+                    return res.status(404).json({ message: "User not found" });
+                }
+
+                if (!requestingUser.isActive) {
+                    return res.status(401).json({
+                        message: "User account disabled",
+                        code: "USER_INACTIVE",
+                    });
+                }
+
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(403)
+                        .json({ message: "User must belong to a company" });
+                }
+
+                const messageId = parseInt(req.params.messageId);
+
+                const groupMessage = await storage.getGroupMessageById(
+                    messageId
+                );
+                if (!groupMessage) {
+                    return res
+                        .status(404)
+                        .json({ message: "Group message not found" });
+                }
+
+                if (groupMessage.companyId !== requestingUser.companyId) {
+                    return res.status(403).json({
+                        message:
+                            "Access denied: you can only view replies for messages in your company",
+                    });
+                }
+
+                const replies = await storage.getGroupMessageReplies(messageId);
+                res.json(replies);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    // Device token routes
+    app.post("/api/device-tokens", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            if (!requestingUser.isActive) {
+                return res.status(401).json({
+                    message: "User account disabled",
+                    code: "USER_INACTIVE",
+                });
+            }
+
+            const { token, deviceType } = req.body;
+            if (!token) {
+                return res.status(400).json({ message: "Token is required" });
+            }
+
+            const deviceToken = await storage.createOrUpdateDeviceToken({
+                userId: requestingUser.id,
+                token,
+                deviceType: deviceType || "web",
+            });
+
+            res.json(deviceToken);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.delete("/api/device-tokens/:token", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            if (!requestingUser.isActive) {
+                return res.status(401).json({
+                    message: "User account disabled",
+                    code: "USER_INACTIVE",
+                });
+            }
+
+            const { token } = req.params;
+            await storage.deleteDeviceToken(token);
+
+            res.json({ message: "Device token deleted successfully" });
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Feedback routes
+    app.post("/api/feedbacks", requireAuth, async (req, res, next) => {
+        try {
+            const user = req.user!;
+            if (!user.companyId) {
+                return res.status(404).json({ message: "User not found" });
+            }
+            const validatedFeedback = insertFeedbackSchema.parse({
+                ...req.body,
+                companyId: user.companyId,
+                submittedBy: user.id,
+            });
+            const feedback = await storage.createFeedback(validatedFeedback);
+            res.json(feedback);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    app.get("/api/feedbacks", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            const { userId } = req.query;
+            const tenant = tenantStorageFor(requestingUser);
+
+            if (userId) {
+                const feedbacks = await tenant.getFeedbacksByUserId(
+                    parseInt(userId as string)
+                );
+                res.json(feedbacks);
+            } else {
+                // Admin viewing all company feedbacks
+                if (
+                    requestingUser.role === "company_admin" ||
+                    requestingUser.role === "super_admin"
+                ) {
+                    res.json(await tenant.getFeedbacks());
+                } else if (requestingUser.role === "team_leader") {
+                    // Team leaders can view feedback from their team members
+                    const teamMembers = await storage.getTeamMembersByLeader(
+                        requestingUser.id
+                    );
+                    const teamMemberIds = teamMembers.map((m) => m.id);
+                    const allFeedbacks = await tenant.getFeedbacks();
+                    const teamFeedbacks = allFeedbacks.filter((f) =>
+                        teamMemberIds.includes(f.submittedBy)
+                    );
+                    res.json(teamFeedbacks);
+                } else {
+                    // Regular users can only see their own feedbacks
+                    const feedbacks = await tenant.getFeedbacksByUserId(
+                        requestingUser.id
+                    );
+                    res.json(feedbacks);
+                }
+            }
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Slot Pricing routes
+    app.get("/api/slot-pricing", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            // Allow super_admin and company_admin to view pricing
+            if (
+                requestingUser.role !== "super_admin" &&
+                requestingUser.role !== "company_admin"
+            ) {
+                return res.status(403).json({ message: "Access denied" });
+            }
+
+            const pricing = await storage.getAllSlotPricing();
+            res.json(pricing);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.post("/api/slot-pricing", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser || requestingUser.role !== "super_admin") {
+                return res.status(403).json({
+                    message: "Only super admins can modify slot pricing",
+                });
+            }
+
+            const validatedData = insertSlotPricingSchema.parse(req.body);
+            const pricing = await storage.createOrUpdateSlotPricing(
+                validatedData
+            );
+
+            res.json(pricing);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    // Purchase Slots
+    app.post("/api/purchase-slots", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser || !requestingUser.companyId) {
+                return res
+                    .status(403)
+                    .json({ message: "User must belong to a company" });
+            }
+
+            if (requestingUser.role !== "company_admin") {
+                return res.status(403).json({
+                    message: "Only company admins can purchase slots",
+                });
+            }
+
+            const validatedData = slotPurchaseSchema.parse(req.body);
+
+            const pricing = await storage.getSlotPricingByType(
+                validatedData.slotType
+            );
+            if (!pricing) {
+                return res.status(404).json({
+                    message: `Pricing not found for ${validatedData.slotType} slots`,
+                });
+            }
+
+            const totalAmount = pricing.pricePerSlot * validatedData.quantity;
+
+            const payment = await storage.createCompanyPayment({
+                companyId: requestingUser.companyId,
+                slotType: validatedData.slotType,
+                slotQuantity: validatedData.quantity,
+                amount: totalAmount,
+                currency: pricing.currency,
+                paymentStatus: "paid",
+                paymentMethod: "online",
+                transactionId: `TXN-${Date.now()}`,
+            });
+
+            const updateData =
+                validatedData.slotType === "admin"
+                    ? { maxAdmins: validatedData.quantity }
+                    : { maxMembers: validatedData.quantity };
+
+            await storage.incrementCompanySlots(
+                requestingUser.companyId,
+                updateData
+            );
+
+            res.json({
+                success: true,
+                message: `Successfully purchased ${validatedData.quantity} ${validatedData.slotType} slot(s)`,
+                payment,
+            });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    // Stripe Payment Intent Creation
+    app.post("/api/create-payment-intent", async (req, res, next) => {
+        try {
+            if (!stripe) {
+                return res
+                    .status(500)
+                    .json({ message: "Payment gateway not configured" });
+            }
+
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser || !requestingUser.companyId) {
+                return res
+                    .status(403)
+                    .json({ message: "User must belong to a company" });
+            }
+
+            if (requestingUser.role !== "company_admin") {
+                return res.status(403).json({
+                    message: "Only company admins can purchase slots",
+                });
+            }
+
+            const { slotType, quantity } = req.body;
+
+            // Fetch server-side pricing to prevent tampering
+            const pricing = await storage.getSlotPricingByType(slotType);
+            if (!pricing) {
+                return res.status(400).json({ message: "Invalid slot type" });
+            }
+
+            // Calculate amount server-side from authoritative pricing
+            const calculatedAmount = pricing.pricePerSlot * quantity;
+
+            // Create payment record with server-calculated amount
+            const payment = await storage.createCompanyPayment({
+                companyId: requestingUser.companyId,
+                slotType,
+                slotQuantity: quantity,
+                amount: calculatedAmount,
+                currency: "INR",
+                paymentStatus: "pending",
+                paymentMethod: "stripe",
+            });
+
+            // Create Stripe payment intent with server-calculated amount
+            // Automatic payment methods - Stripe will show available options based on:
+            // 1. Currency (INR)
+            // 2. Amount
+            // 3. Customer location
+            // 4. Payment methods enabled in your Stripe Dashboard
+            const paymentIntent = await stripe.paymentIntents.create({
+                amount: Math.round(calculatedAmount * 100), // Convert to paise (INR smallest unit)
+                currency: "inr",
+                automatic_payment_methods: {
+                    enabled: true,
+                    allow_redirects: "always",
+                },
+                metadata: {
+                    paymentId: payment.id.toString(),
+                    companyId: requestingUser.companyId.toString(),
+                    slotType,
+                    quantity: quantity.toString(),
+                },
+            });
+
+            console.log("Payment Intent created:", {
+                id: paymentIntent.id,
+                amount: paymentIntent.amount,
+                currency: paymentIntent.currency,
+                status: paymentIntent.status,
+                hasClientSecret: !!paymentIntent.client_secret,
+                clientSecretPreview: paymentIntent.client_secret
+                    ? paymentIntent.client_secret.substring(0, 30) + "..."
+                    : "MISSING",
+            });
+
+            // Update payment with Stripe payment intent ID
+            await storage.updatePaymentStripeId(payment.id, paymentIntent.id);
+
+            const responseData = {
+                clientSecret: paymentIntent.client_secret,
+                paymentId: payment.id,
+            };
+
+            console.log("Sending response:", {
+                hasClientSecret: !!responseData.clientSecret,
+                paymentId: responseData.paymentId,
+            });
+
+            res.json(responseData);
+        } catch (error: any) {
+            console.error("Payment intent creation error:", error);
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    // Verify Payment and Update Slots
+    app.post("/api/verify-payment", async (req, res, next) => {
+        try {
+            if (!stripe) {
+                return res
+                    .status(500)
+                    .json({ message: "Payment gateway not configured" });
+            }
+
+            const { paymentIntentId, paymentId } = req.body;
+
+            // Retrieve payment intent from Stripe
+            const paymentIntent = await stripe.paymentIntents.retrieve(
+                paymentIntentId
+            );
+
+            if (paymentIntent.status !== "succeeded") {
+                return res
+                    .status(400)
+                    .json({ message: "Payment not successful" });
+            }
+
+            // Get payment record
+            const payment = await storage.getPaymentById(paymentId);
+            if (!payment) {
+                return res
+                    .status(404)
+                    .json({ message: "Payment record not found" });
+            }
+
+            // Verify metadata matches to prevent tampering
+            if (paymentIntent.metadata.paymentId !== paymentId.toString()) {
+                return res.status(400).json({
+                    message: "Payment verification failed: metadata mismatch",
+                });
+            }
+
+            // Prevent duplicate processing
+            if (payment.paymentStatus === "paid") {
+                // Payment already processed - return success with existing receipt
+                return res.json({
+                    success: true,
+                    message: "Payment already processed",
+                    payment,
+                    receiptNumber: payment.receiptNumber,
+                    emailSent: payment.emailSent,
+                });
+            }
+
+            // Get company details for email
+            const company = await storage.getCompanyById(payment.companyId);
+            if (!company) {
+                return res.status(404).json({ message: "Company not found" });
+            }
+
+            // Generate unique receipt number using payment ID for guaranteed uniqueness
+            const date = new Date();
+            const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
+            const receiptNumber = `WL-RCPT-${dateStr}-${paymentId
+                .toString()
+                .padStart(6, "0")}`;
+
+            // Prepare slot updates
+            const slotUpdates =
+                payment.slotType === "admin"
+                    ? { maxAdmins: payment.slotQuantity || 0 }
+                    : { maxMembers: payment.slotQuantity || 0 };
+
+            // CRITICAL: Atomic transaction - complete payment and update slots together
+            const updatedPayment = await storage.completePaymentWithSlots(
+                paymentId,
+                payment.companyId,
+                receiptNumber,
+                paymentIntent.id,
+                slotUpdates
+            );
+
+            // If null, payment was already processed by concurrent request - fetch current state
+            if (!updatedPayment) {
+                const currentPayment = await storage.getPaymentById(paymentId);
+                if (!currentPayment) {
+                    return res
+                        .status(404)
+                        .json({ message: "Payment record not found" });
+                }
+                // Return existing receipt data (idempotent retry succeeded)
+                return res.json({
+                    success: true,
+                    message: "Payment already processed",
+                    payment: currentPayment,
+                    receiptNumber: currentPayment.receiptNumber,
+                    emailSent: currentPayment.emailSent,
+                });
+            }
+
+            // Send email asynchronously (non-fatal - don't block on email failure)
+            let emailSent = false;
+            try {
+                emailSent = await sendPaymentConfirmationEmail({
+                    companyName: company.name,
+                    companyEmail: company.email,
+                    receiptNumber,
+                    amount: payment.amount,
+                    currency: payment.currency,
+                    slotType: payment.slotType || "member",
+                    slotQuantity: payment.slotQuantity || 1,
+                    transactionId: paymentIntent.id,
+                    paymentDate: date,
+                });
+
+                // Update email sent status if successful
+                if (emailSent) {
+                    await storage.updatePaymentEmailStatus(paymentId, true);
+                }
+            } catch (emailError: any) {
+                console.error("Email sending failed (non-fatal):", emailError);
+                // Email failure is logged but doesn't fail the payment
+            }
+
+            res.json({
+                success: true,
+                message: "Payment verified and slots added successfully",
+                payment: updatedPayment,
+                receiptNumber,
+                emailSent,
+            });
+        } catch (error: any) {
+            console.error("Payment verification error:", error);
+            next(error);
+        }
+    });
+
+    // Get company's own payment history (Company Admin)
+    app.get("/api/my-company-payments", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser || !requestingUser.companyId) {
+                return res
+                    .status(403)
+                    .json({ message: "User must belong to a company" });
+            }
+
+            if (requestingUser.role !== "company_admin") {
+                return res.status(403).json({
+                    message: "Only company admins can view payment history",
+                });
+            }
+
+            const payments = await storage.getPaymentsByCompanyId(
+                requestingUser.companyId
+            );
+            res.json(payments);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Company Payment routes (Super Admin only)
+    app.get("/api/company-payments", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser || requestingUser.role !== "super_admin") {
+                return res.status(403).json({
+                    message: "Only super admins can access company payments",
+                });
+            }
+
+            const { companyId } = req.query;
+
+            if (companyId) {
+                const payments = await storage.getPaymentsByCompanyId(
+                    parseInt(companyId as string)
+                );
+                res.json(payments);
+            } else {
+                const payments = await storage.getAllCompanyPayments();
+                res.json(payments);
+            }
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.post("/api/company-payments", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser || requestingUser.role !== "super_admin") {
+                return res.status(403).json({
+                    message: "Only super admins can create company payments",
+                });
+            }
+
+            const validatedData = insertCompanyPaymentSchema.parse(req.body);
+            const payment = await storage.createCompanyPayment(validatedData);
+            res.json(payment);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    app.patch("/api/company-payments/:id/status", async (req, res, next) => {
+        try {
+            const requestingUserId = req.user?.id;
+            if (!requestingUserId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
+
+            const requestingUser = await storage.getUserById(
+                requestingUserId
+            );
+            if (!requestingUser || requestingUser.role !== "super_admin") {
+                return res.status(403).json({
+                    message: "Only super admins can update payment status",
+                });
+            }
+
+            const { id } = req.params;
+            const validatedData = updatePaymentStatusSchema.parse(req.body);
+
+            const paymentId = parseInt(id);
+            if (isNaN(paymentId)) {
+                return res.status(400).json({ message: "Invalid payment ID" });
+            }
+
+            await storage.updatePaymentStatus(paymentId, {
+                paymentStatus: validatedData.status,
+            });
+            res.json({ message: "Payment status updated successfully" });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    // Password Reset routes
+    const handlePasswordResetRequest = async (
+        req: express.Request,
+        res: express.Response,
+        next: express.NextFunction
+    ) => {
+        try {
+            const validatedData = passwordResetRequestSchema.parse(req.body);
+
+            const user = await storage.getUserByEmail(validatedData.email);
+            const company = await storage.getCompanyByEmail(
+                validatedData.email
+            );
+
+            if (!user && !company) {
+                return res.json({
+                    message:
+                        "If an account exists with this email, a password reset link has been sent.",
+                });
+            }
+
+            const resetToken = crypto.randomBytes(32).toString("hex");
+            const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+
+            await storage.createPasswordResetToken(
+                validatedData.email,
+                resetToken,
+                expiresAt
+            );
+
+            const protocol =
+                req.headers["x-forwarded-proto"] || req.protocol || "https";
+            const host = req.headers["x-forwarded-host"] || req.headers.host;
+            const baseUrl = `${protocol}://${host}`;
+
+            await sendPasswordResetEmail({
+                email: validatedData.email,
+                resetToken,
+                userName: user?.displayName || company?.name || "User",
+                baseUrl,
+            });
+
+            res.json({
+                message:
+                    "If an account exists with this email, a password reset link has been sent.",
+            });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    };
+
+    app.post("/api/auth/request-password-reset", handlePasswordResetRequest);
+    app.post("/api/auth/forgot-password", handlePasswordResetRequest);
+
+    app.post("/api/auth/forgot-company-id", async (req, res, next) => {
+        try {
+            const { email } = req.body;
+
+            if (!email) {
+                return res.status(400).json({ message: "Email is required" });
+            }
+
+            const company = await storage.getCompanyByEmail(email);
+
+            if (company) {
+                await sendCompanyServerIdEmail({
+                    companyName: company.name,
+                    companyEmail: company.email,
+                    serverId: company.serverId,
+                });
+            }
+
+            res.json({
+                message:
+                    "If a company exists with this email, the Company Server ID has been sent.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.post("/api/auth/reset-password", async (req, res, next) => {
+        try {
+            const validatedData = passwordResetSchema.parse(req.body);
+
+            const tokenData = await storage.getPasswordResetToken(
+                validatedData.token
+            );
+
+            if (!tokenData) {
+                return res
+                    .status(400)
+                    .json({ message: "Invalid or expired reset token" });
+            }
+
+            if (tokenData.used) {
+                return res.status(400).json({
+                    message: "This reset token has already been used",
+                });
+            }
+
+            if (new Date() > new Date(tokenData.expiresAt)) {
+                return res
+                    .status(400)
+                    .json({ message: "This reset token has expired" });
+            }
+
+            const user = await storage.getUserByEmail(tokenData.email);
+            const company = await storage.getCompanyByEmail(tokenData.email);
+
+            if (!user && !company) {
+                return res.status(400).json({ message: "Account not found" });
+            }
+
+            const hashedPassword = await bcrypt.hash(
+                validatedData.newPassword,
+                10
+            );
+
+            if (user) {
+                await storage.updateUserPassword(user.id, hashedPassword);
+                await storage.revokeUserSessions(user.id);
+                disconnectUser(user.id);
+
+                if (user.role === "company_admin" && user.companyId) {
+                    await storage.updateCompany(user.companyId, {
+                        password: hashedPassword,
+                    });
+                }
+            }
+
+            if (company) {
+                await storage.updateCompany(company.id, {
+                    password: hashedPassword,
+                });
+            }
+
+            await storage.markTokenAsUsed(validatedData.token);
+
+            res.json({ message: "Password reset successfully" });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    app.post(
+        "/api/tasks-report/submit",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const userId = req.user!.id;
+                const { companyId, tasksCompleted, notes } = req.body;
+
+                if (!companyId || !tasksCompleted) {
+                    return res.status(400).json({
+                        message: "Company ID and tasks completed are required",
+                    });
+                }
+
+                const today = await companyToday(req.user!.companyId);
+
+                const existingReport = await storage.getTasksReportByDate(
+                    userId,
+                    today
+                );
+                if (existingReport) {
+                    return res.status(400).json({
+                        message: "Report already submitted for today",
+                    });
+                }
+
+                const report = await storage.createTasksReport({
+                    userId,
+                    companyId,
+                    date: today,
+                    tasksCompleted,
+                    notes: notes || null,
+                    allowedEarlyLogout: true,
+                });
+
+                res.json(report);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    app.get("/api/tasks-report/today", requireAuth, async (req, res, next) => {
+        try {
+            const userId = req.user!.id;
+            const today = await companyToday(req.user!.companyId);
+            const report = await storage.getTasksReportByDate(userId, today);
+            res.json(report);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.get("/api/tasks-report/user", requireAuth, async (req, res, next) => {
+        try {
+            const userId = req.user!.id;
+            const reports = await storage.getTasksReportsByUserId(userId);
+            res.json(reports);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.get("/api/me", requireAuth, async (req, res, next) => {
+        try {
+            const userId = req.user!.id;
+            const user = await storage.getUserById(userId);
+
+            if (!user) {
+                return res.status(404).json({ message: "User not found" });
+            }
+
+            res.json({
+                id: user.id,
+                uniqueUserId: user.uniqueUserId,
+                email: user.email,
+                displayName: user.displayName,
+                role: user.role,
+                companyId: user.companyId,
+                photoURL: user.photoURL,
+                isActive: user.isActive,
+            });
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.post("/api/leaves", requireAuth, async (req, res, next) => {
+        try {
+            const userId = req.user!.id;
+            const user = await storage.getUserById(userId);
+
+            if (!user || !user.companyId) {
+                return res
+                    .status(400)
+                    .json({ message: "User not associated with a company" });
+            }
+
+            const request = z
+                .object({
+                    startDate: z
+                        .string()
+                        .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date"),
+                    endDate: z
+                        .string()
+                        .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date"),
+                    leaveType: z.string().min(1, "Leave type is required"),
+                    reason: z.string().min(1, "Reason is required"),
+                    isHalfDay: z.boolean().default(false),
+                    halfDaySession: z.enum(["first", "second"]).optional(),
+                })
+                .parse(req.body);
+            if (request.endDate < request.startDate) {
+                return res.status(400).json({
+                    message: "End date cannot be before start date",
+                });
+            }
+
+            const { days, error } = await assessLeaveRequest(
+                userId,
+                user.companyId,
+                request
+            );
+            if (error) {
+                return res.status(400).json({ message: error });
+            }
+
+            const leave = await storage.createLeave({
+                userId,
+                companyId: user.companyId,
+                startDate: request.startDate,
+                endDate: request.endDate,
+                leaveType: request.leaveType,
+                reason: request.reason,
+                isHalfDay: request.isHalfDay,
+                halfDaySession: request.isHalfDay
+                    ? request.halfDaySession ?? "first"
+                    : null,
+                days,
+                status: "pending",
+            });
+            await startLeaveApproval(leave);
+
+            res.json(leave);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    // Employee: Leave types the company offers
+    app.get("/api/leaves/types", requireAuth, async (req, res, next) => {
+        try {
+            const user = req.user!;
+            if (!user.companyId) {
+                return res.json([]);
+            }
+
+            const companyTypes = await storage.getLeaveTypesByCompany(
+                user.companyId
+            );
+            res.json(companyTypes.filter((t) => t.isActive));
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Employee: Current leave balances
+    app.get("/api/leaves/balances/me", requireAuth, async (req, res, next) => {
+        try {
+            const user = req.user!;
+            if (!user.companyId) {
+                return res.json([]);
+            }
+
+            res.json(await getLeaveBalances(user.id, user.companyId));
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    // Employee: Cancel or move one of their own leaves. Approved leaves change only once
+    // the change is approved.
+    app.post(
+        "/api/leaves/:leaveId/change",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const user = req.user!;
+                const leave = await storage.getLeaveById(
+                    parseInt(req.params.leaveId)
+                );
+                if (!leave || leave.userId !== user.id) {
+                    return res
+                        .status(404)
+                        .json({ message: "Leave request not found" });
+                }
+
+                const date = z
+                    .string()
+                    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date");
+                const input = z
+                    .object({
+                        type: z.enum(["cancel", "modify"]),
+                        startDate: date.optional(),
+                        endDate: date.optional(),
+                        reason: z.string().trim().min(1, "Reason is required"),
+                    })
+                    .parse(req.body);
+
+                const error = await requestLeaveChange(leave, input, user);
+                if (error) {
+                    return res.status(400).json({ message: error });
+                }
+
+                const updated = (await storage.getLeaveById(leave.id))!;
+                publish(await leaveChannels(leave), {
+                    type: "LEAVE_STATUS_UPDATE",
+                    data: {
+                        leaveId: leave.id,
+                        userId: leave.userId,
+                        userName: user.displayName,
+                        status: updated.changeType
+                            ? "change_requested"
+                            : updated.status,
+                        changedBy: user.displayName,
+                        companyId: leave.companyId,
+                    },
+                });
+
+                res.json(updated);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    app.get("/api/leaves/me", requireAuth, async (req, res, next) => {
+        try {
+            const userId = req.user!.id;
+            const leaves = await storage.getLeavesByUserId(userId);
+            res.json(leaves);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.get(
+        "/api/leaves/company/:companyId",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
+                const companyId = parseInt(req.params.companyId);
+
+                if (!requestingUser) {
+                    return res.status(401).json({ message: "User not found" });
+                }
+
+                // Allow admins and team leaders
+                if (
+                    requestingUser.role !== "company_admin" &&
+                    requestingUser.role !== "super_admin" &&
+                    requestingUser.role !== "team_leader"
+                ) {
+                    return res.status(403).json({ message: "Access denied" });
+                }
+
+                // Verify company access
+                if (
+                    requestingUser.role === "company_admin" &&
+                    requestingUser.companyId !== companyId
+                ) {
+                    return res.status(403).json({
+                        message:
+                            "You can only view leave requests for your own company",
+                    });
+                }
+
+                if (
+                    requestingUser.role === "team_leader" &&
+                    requestingUser.companyId !== companyId
+                ) {
+                    return res.status(403).json({ message: "Access denied" });
+                }
+
+                let leaves;
+                if (requestingUser.role === "team_leader") {
+                    // Team leaders can only see their team members' leaves
+                    const teamMembers = await storage.getTeamMembersByLeader(
+                        requestingUserId
+                    );
+                    const teamMemberIds = teamMembers.map((m) => m.id);
+                    leaves = await storage.getLeavesByUserIds(teamMemberIds);
+                } else {
+                    // Admins can see all company leaves
+                    leaves = await storage.getLeavesByCompanyId(companyId);
+                }
+
+                res.json(
+                    await withAwaitingApprover(await withAvailableBalance(leaves))
+                );
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    app.patch(
+        "/api/leaves/:leaveId/approve",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
+                const leaveId = parseInt(req.params.leaveId);
+
+                if (!requestingUser) {
+                    return res.status(401).json({ message: "User not found" });
+                }
+
+                // Allow admins and team leaders
+                if (
+                    requestingUser.role !== "company_admin" &&
+                    requestingUser.role !== "super_admin" &&
+                    requestingUser.role !== "team_leader"
+                ) {
+                    return res.status(403).json({ message: "Access denied" });
+                }
+
+                const leave = await storage.getLeaveById(leaveId);
+                if (!leave) {
+                    return res
+                        .status(404)
+                        .json({ message: "Leave request not found" });
+                }
+
+                // Verify company access
+                if (requestingUser.companyId !== leave.companyId) {
+                    return res.status(403).json({
+                        message:
+                            "You can only approve leave requests for your own company",
+                    });
+                }
+
+                // Team leaders can only approve their team members' leaves
+                if (requestingUser.role === "team_leader") {
+                    const teamMembers = await storage.getTeamMembersByLeader(
+                        requestingUserId
+                    );
+                    const teamMemberIds = teamMembers.map((m) => m.id);
+                    if (!teamMemberIds.includes(leave.userId)) {
+                        return res.status(403).json({
+                            message:
+                                "You can only approve leave requests for your team members",
+                        });
+                    }
+                }
+
+                const { remarks } = leaveDecisionSchema.parse(req.body);
+                const step = await currentApprovalStep(leaveId);
+                if (!(await canDecideStep(requestingUser, leave, step))) {
+                    return res.status(403).json({
+                        message:
+                            "This leave request is awaiting approval from a company admin",
+                    });
+                }
+
+                // Approving an intermediate step hands the leave to the next approver
+                if (!(await isFinalApproval(requestingUser, step))) {
+                    await recordLeaveDecision(
+                        leave,
+                        step,
+                        requestingUser,
+                        "approved",
+                        remarks ?? null,
+                        false
+                    );
+                    const leaveUser = await storage.getUserById(leave.userId);
+                    publish(await leaveChannels(leave), {
+                        type: "LEAVE_STATUS_UPDATE",
+                        data: {
+                            leaveId,
+                            userId: leave.userId,
+                            userName: leaveUser?.displayName,
+                            status: "forwarded",
+                            approvedBy: requestingUser.displayName,
+                            companyId: leave.companyId,
+                        },
+                    });
+                    return res.json({
+                        message: "Leave approved and forwarded to the next approver",
+                    });
+                }
+
+                let status = "approved";
+                if (leave.changeType) {
+                    const changeError = await applyLeaveChange(
+                        leave,
+                        requestingUser
+                    );
+                    if (changeError) {
+                        return res.status(400).json({ message: changeError });
+                    }
+                    if (!leave.requestedStartDate) {
+                        status = "cancelled";
+                    }
+                } else {
+                    if (leave.status !== "approved") {
+                        const insufficient = await debitLeaveBalance(leave);
+                        if (insufficient) {
+                            return res
+                                .status(400)
+                                .json({ message: insufficient });
+                        }
+                    }
+
+                    await storage.updateLeaveStatus(
+                        leaveId,
+                        "approved",
+                        requestingUserId,
+                        remarks
+                    );
+                    await regenerateLeaveAttendance(leave, leave);
+                }
+                await recordLeaveDecision(
+                    leave,
+                    step,
+                    requestingUser,
+                    "approved",
+                    remarks ?? null,
+                    true
+                );
+
+                // Publish WebSocket update for real-time notifications
+                const leaveUser = await storage.getUserById(leave.userId);
+                publish(await leaveChannels(leave), {
+                    type: "LEAVE_STATUS_UPDATE",
+                    data: {
+                        leaveId,
+                        userId: leave.userId,
+                        userName: leaveUser?.displayName,
+                        status,
+                        approvedBy: requestingUser.displayName,
+                        companyId: leave.companyId,
+                    },
+                });
+
+                res.json({
+                    message: leave.changeType
+                        ? "Leave change approved successfully"
+                        : "Leave approved successfully",
+                });
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    app.patch(
+        "/api/leaves/:leaveId/reject",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
+                const leaveId = parseInt(req.params.leaveId);
+
+                if (!requestingUser) {
+                    return res.status(401).json({ message: "User not found" });
+                }
+
+                // Allow admins and team leaders
+                if (
+                    requestingUser.role !== "company_admin" &&
+                    requestingUser.role !== "super_admin" &&
+                    requestingUser.role !== "team_leader"
+                ) {
+                    return res.status(403).json({ message: "Access denied" });
+                }
+
+                const leave = await storage.getLeaveById(leaveId);
+                if (!leave) {
+                    return res
+                        .status(404)
+                        .json({ message: "Leave request not found" });
+                }
+
+                // Verify company access
+                if (requestingUser.companyId !== leave.companyId) {
+                    return res.status(403).json({
+                        message:
+                            "You can only reject leave requests for your own company",
+                    });
+                }
+
+                // Team leaders can only reject their team members' leaves
+                if (requestingUser.role === "team_leader") {
+                    const teamMembers = await storage.getTeamMembersByLeader(
+                        requestingUserId
+                    );
+                    const teamMemberIds = teamMembers.map((m) => m.id);
+                    if (!teamMemberIds.includes(leave.userId)) {
+                        return res.status(403).json({
+                            message:
+                                "You can only reject leave requests for your team members",
+                        });
+                    }
+                }
+
+                const { remarks } = leaveDecisionSchema.parse(req.body);
+                const step = await currentApprovalStep(leaveId);
+                if (!(await canDecideStep(requestingUser, leave, step))) {
+                    return res.status(403).json({
+                        message:
+                            "This leave request is awaiting approval from a company admin",
+                    });
+                }
+
+                // A rejected change request leaves the approved leave in place
+                if (leave.changeType) {
+                    await declineLeaveChange(
+                        leave,
+                        requestingUser,
+                        remarks ?? null
+                    );
+                } else {
+                    if (leave.status === "approved") {
+                        await restoreLeaveBalance(leave);
+                    }
+
+                    await storage.updateLeaveStatus(
+                        leaveId,
+                        "rejected",
+                        requestingUserId,
+                        remarks
+                    );
+                    if (leave.status === "approved") {
+                        await regenerateLeaveAttendance(leave, leave);
+                    }
+                }
+                await recordLeaveDecision(
+                    leave,
+                    step,
+                    requestingUser,
+                    "rejected",
+                    remarks ?? null,
+                    true
+                );
+
+                // Publish WebSocket update for real-time notifications
+                const leaveUser = await storage.getUserById(leave.userId);
+                publish(await leaveChannels(leave), {
+                    type: "LEAVE_STATUS_UPDATE",
+                    data: {
+                        leaveId,
+                        userId: leave.userId,
+                        userName: leaveUser?.displayName,
+                        status: leave.changeType ? "change_rejected" : "rejected",
+                        rejectedBy: requestingUser.displayName,
+                        companyId: leave.companyId,
+                    },
+                });
+
+                res.json({
+                    message: leave.changeType
+                        ? "Leave change rejected"
+                        : "Leave rejected successfully",
+                });
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    app.patch(
+        "/api/leaves/:leaveId/status",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
+                const leaveId = parseInt(req.params.leaveId);
+
+                if (!requestingUser) {
+                    return res.status(401).json({ message: "User not found" });
+                }
+
+                if (
+                    requestingUser.role !== "company_admin" &&
+                    requestingUser.role !== "super_admin"
+                ) {
+                    return res.status(403).json({
+                        message: "Only admins can directly change leave status",
+                    });
+                }
+
+                const validatedInput = z
+                    .object({
+                        status: z.enum(["pending", "approved", "rejected"], {
+                            errorMap: () => ({
+                                message:
+                                    "Invalid status. Must be: pending, approved, or rejected",
+                            }),
+                        }),
+                    })
+                    .parse(req.body);
+
+                const leave = await storage.getLeaveById(leaveId);
+                if (!leave) {
+                    return res
+                        .status(404)
+                        .json({ message: "Leave request not found" });
+                }
+
+                if (requestingUser.companyId !== leave.companyId) {
+                    return res.status(403).json({
+                        message:
+                            "You can only modify leave requests for your own company",
+                    });
+                }
+
+                if (leave.changeType) {
+                    return res.status(400).json({
+                        message:
+                            "Approve or reject the pending change to this leave first",
+                    });
+                }
+
+                if (
+                    validatedInput.status === "approved" &&
+                    leave.status !== "approved"
+                ) {
+                    const insufficient = await debitLeaveBalance(leave);
+                    if (insufficient) {
+                        return res.status(400).json({ message: insufficient });
+                    }
+                } else if (
+                    validatedInput.status !== "approved" &&
+                    leave.status === "approved"
+                ) {
+                    await restoreLeaveBalance(leave);
+                }
+
+                await storage.updateLeaveStatus(
+                    leaveId,
+                    validatedInput.status,
+                    requestingUserId
+                );
+                await recordStatusOverride(
+                    leave,
+                    requestingUser,
+                    validatedInput.status
+                );
+                if (
+                    (validatedInput.status === "approved") !==
+                    (leave.status === "approved")
+                ) {
+                    await regenerateLeaveAttendance(leave, leave);
+                }
 
-    // Dashboard stats
-    app.get("/api/dashboard/stats", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
+                const leaveUser = await storage.getUserById(leave.userId);
+                publish(await leaveChannels(leave), {
+                    type: "LEAVE_STATUS_UPDATE",
+                    data: {
+                        leaveId,
+                        userId: leave.userId,
+                        userName: leaveUser?.displayName,
+                        status: validatedInput.status,
+                        changedBy: requestingUser.displayName,
+                        companyId: leave.companyId,
+                    },
+                });
 
-            let companyId: number | undefined;
+                res.json({
+                    message: `Leave status changed to ${validatedInput.status} successfully`,
+                });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
 
-            if (requestingUserId) {
-                const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+    // Approval trail of a leave, visible to the applicant, their team leader and admins
+    app.get(
+        "/api/leaves/:leaveId/approvals",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                const leave = await storage.getLeaveById(
+                    parseInt(req.params.leaveId)
                 );
+                if (
+                    !leave ||
+                    leave.companyId !== requestingUser.companyId
+                ) {
+                    return res
+                        .status(404)
+                        .json({ message: "Leave request not found" });
+                }
 
                 if (
-                    requestingUser &&
-                    requestingUser.role !== "super_admin" &&
-                    requestingUser.companyId
+                    leave.userId !== requestingUser.id &&
+                    requestingUser.role !== "company_admin" &&
+                    requestingUser.role !== "super_admin"
                 ) {
-                    companyId = requestingUser.companyId;
+                    const leader = await storage.getTeamLeaderByMember(
+                        leave.userId
+                    );
+                    if (leader?.id !== requestingUser.id) {
+                        return res
+                            .status(403)
+                            .json({ message: "Access denied" });
+                    }
                 }
-            }
 
-            const stats = await storage.getDashboardStats(companyId);
-            res.json(stats);
-        } catch (error) {
-            next(error);
+                res.json(await storage.getLeaveApprovalsByLeave(leave.id));
+            } catch (error) {
+                next(error);
+            }
         }
-    });
+    );
 
-    // Group message routes
-    app.post("/api/group-messages", async (req, res, next) => {
+    app.post("/api/holidays", requireAuth, async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
-
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
-
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
+            const requestingUserId = req.user!.id;
+            const requestingUser = await storage.getUserById(requestingUserId);
 
             if (
                 !requestingUser ||
@@ -3756,655 +6605,627 @@ export async function registerRoutes(app: Express): Promise<Server> {
             ) {
                 return res
                     .status(403)
-                    .json({ message: "Only admins can send announcements" });
+                    .json({ message: "Only admins can create holidays" });
             }
 
             if (!requestingUser.companyId) {
                 return res
-                    .status(403)
-                    .json({ message: "User must belong to a company" });
+                    .status(400)
+                    .json({ message: "User not associated with a company" });
             }
 
-            const messageData = {
+            const holiday = await storage.createHoliday({
                 companyId: requestingUser.companyId,
-                senderId: requestingUser.id,
-                title: req.body.title,
-                message: req.body.message,
-            };
-
-            const validatedMessage =
-                insertGroupMessageSchema.parse(messageData);
-            const message = await storage.createGroupMessage(validatedMessage);
-
-            // Broadcast new group message via WebSocket
-            const { broadcast } = await import("./index.js");
-            broadcast({
-                type: "NEW_GROUP_MESSAGE",
-                data: {
-                    ...message,
-                    senderName: requestingUser.displayName,
-                },
+                name: req.body.name,
+                date: req.body.date,
+                description: req.body.description,
+                isOptional: req.body.isOptional === true,
             });
 
-            // Send push notification to all company users
-            const companyUsers = await storage.getUsersByCompanyId(
-                requestingUser.companyId
-            );
-            const otherUsers = companyUsers.filter(
-                (u) => u.id !== requestingUser.id
-            );
-            for (const user of otherUsers) {
-                sendPushNotificationToUser(
-                    user.id,
-                    message.title,
-                    message.message.substring(0, 100),
-                    {
-                        messageId: message.id.toString(),
-                        url: "/user/announcements",
-                    },
-                    storage
-                ).catch((error) =>
-                    console.error("Failed to send push notification:", error)
-                );
-            }
-
-            res.json(message);
+            res.json(holiday);
         } catch (error) {
             next(error);
         }
     });
 
-    app.get("/api/group-messages", async (req, res, next) => {
+    // Employee: Optional holidays the current user has opted into
+    app.get("/api/holidays/opt-ins", requireAuth, async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
-
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser) {
-                return res.status(404).json({ message: "User not found" });
-            }
-
-            const { limit } = req.query;
-
-            if (requestingUser.role === "super_admin") {
-                if (limit) {
-                    const messages = await storage.getRecentGroupMessages(
-                        parseInt(limit as string)
-                    );
-                    res.json(messages);
-                } else {
-                    const messages = await storage.getAllGroupMessages();
-                    res.json(messages);
-                }
-            } else if (requestingUser.companyId) {
-                const messages = await storage.getGroupMessagesByCompanyId(
-                    requestingUser.companyId
-                );
-                if (limit) {
-                    res.json(messages.slice(0, parseInt(limit as string)));
-                } else {
-                    res.json(messages);
-                }
-            } else {
-                res.json([]);
-            }
+            const optIns = await storage.getHolidayOptInsByUser(req.user!.id);
+            res.json(optIns);
         } catch (error) {
             next(error);
         }
     });
 
-    // Group message reply routes
     app.post(
-        "/api/group-messages/:messageId/replies",
+        "/api/holidays/:holidayId/opt-in",
+        requireAuth,
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
-                if (!requestingUserId) {
-                    return res
-                        .status(401)
-                        .json({ message: "Authentication required" });
-                }
-
-                const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                const user = req.user!;
+                const holiday = await storage.getHolidayById(
+                    parseInt(req.params.holidayId)
                 );
-                if (!requestingUser) {
-                    return res.status(404).json({ message: "User not found" });
+                if (!holiday || holiday.companyId !== user.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Holiday not found" });
                 }
-
-                if (!requestingUser.isActive) {
-                    return res.status(401).json({
-                        message: "User account disabled",
-                        code: "USER_INACTIVE",
+                if (!holiday.isOptional) {
+                    return res.status(400).json({
+                        message: "Only optional holidays can be opted into",
                     });
                 }
-
-                if (!requestingUser.companyId) {
-                    return res
-                        .status(403)
-                        .json({ message: "User must belong to a company" });
+                if (holiday.date < (await companyToday(holiday.companyId))) {
+                    return res.status(400).json({
+                        message: "This holiday has already passed",
+                    });
                 }
 
-                const messageId = parseInt(req.params.messageId);
+                const optIn = await storage.createHolidayOptIn({
+                    holidayId: holiday.id,
+                    userId: user.id,
+                    companyId: holiday.companyId,
+                });
+                res.json(optIn);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
 
-                const groupMessage = await storage.getGroupMessageById(
-                    messageId
+    app.delete(
+        "/api/holidays/:holidayId/opt-in",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const user = req.user!;
+                const holiday = await storage.getHolidayById(
+                    parseInt(req.params.holidayId)
                 );
-                if (!groupMessage) {
+                if (!holiday || holiday.companyId !== user.companyId) {
                     return res
                         .status(404)
-                        .json({ message: "Group message not found" });
-                }
-
-                if (groupMessage.companyId !== requestingUser.companyId) {
-                    return res.status(403).json({
-                        message:
-                            "Access denied: you can only reply to messages in your company",
-                    });
+                        .json({ message: "Holiday not found" });
                 }
-
-                if (
-                    typeof req.body.message !== "string" ||
-                    !req.body.message.trim()
-                ) {
+                if (holiday.date < (await companyToday(holiday.companyId))) {
                     return res.status(400).json({
-                        message: "Reply message must be a non-empty string",
+                        message: "This holiday has already passed",
                     });
                 }
 
-                const replyData = {
-                    groupMessageId: messageId,
-                    senderId: requestingUser.id,
-                    message: req.body.message,
-                };
+                await storage.deleteHolidayOptIn(holiday.id, user.id);
+                res.json({ message: "Opted out of holiday" });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
 
-                const validatedReply =
-                    insertGroupMessageReplySchema.parse(replyData);
-                const reply = await storage.createGroupMessageReply(
-                    validatedReply
+    app.get(
+        "/api/holidays/company/:companyId",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
                 );
+                const companyId = parseInt(req.params.companyId);
 
-                if (broadcast) {
-                    broadcast({
-                        type: "GROUP_MESSAGE_REPLY",
-                        reply,
-                        groupMessageId: messageId,
-                    });
-                }
-
-                res.json(reply);
-            } catch (error) {
-                if (error instanceof z.ZodError) {
-                    return res
-                        .status(400)
-                        .json({ message: error.errors[0].message });
+                if (
+                    requestingUser &&
+                    requestingUser.role === "company_admin" &&
+                    requestingUser.companyId !== companyId
+                ) {
+                    return res.status(403).json({
+                        message:
+                            "You can only view holidays for your own company",
+                    });
                 }
+
+                const holidays = await storage.getHolidaysByCompanyId(
+                    companyId
+                );
+                res.json(holidays);
+            } catch (error) {
                 next(error);
             }
         }
     );
 
-    app.get(
-        "/api/group-messages/:messageId/replies",
+    app.delete(
+        "/api/holidays/:holidayId",
+        requireAuth,
         async (req, res, next) => {
             try {
-                const requestingUserId = req.headers["x-user-id"];
-                if (!requestingUserId) {
-                    return res
-                        .status(401)
-                        .json({ message: "Authentication required" });
-                }
-
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
-                    parseInt(requestingUserId as string)
+                    requestingUserId
                 );
-                if (!requestingUser) {
-                    return res.status(404).json({ message: "User not found" });
-                }
-
-                if (!requestingUser.isActive) {
-                    return res.status(401).json({
-                        message: "User account disabled",
-                        code: "USER_INACTIVE",
-                    });
-                }
+                const holidayId = parseInt(req.params.holidayId);
 
-                if (!requestingUser.companyId) {
+                if (
+                    !requestingUser ||
+                    (requestingUser.role !== "company_admin" &&
+                        requestingUser.role !== "super_admin")
+                ) {
                     return res
                         .status(403)
-                        .json({ message: "User must belong to a company" });
+                        .json({ message: "Only admins can delete holidays" });
                 }
 
-                const messageId = parseInt(req.params.messageId);
-
-                const groupMessage = await storage.getGroupMessageById(
-                    messageId
-                );
-                if (!groupMessage) {
+                const holiday = await storage.getHolidayById(holidayId);
+                if (!holiday) {
                     return res
                         .status(404)
-                        .json({ message: "Group message not found" });
+                        .json({ message: "Holiday not found" });
                 }
 
-                if (groupMessage.companyId !== requestingUser.companyId) {
+                if (
+                    requestingUser.role === "company_admin" &&
+                    requestingUser.companyId !== holiday.companyId
+                ) {
                     return res.status(403).json({
                         message:
-                            "Access denied: you can only view replies for messages in your company",
+                            "You can only delete holidays for your own company",
                     });
                 }
 
-                const replies = await storage.getGroupMessageReplies(messageId);
-                res.json(replies);
+                await storage.deleteHoliday(holidayId);
+                res.json({ message: "Holiday deleted successfully" });
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Device token routes
-    app.post("/api/device-tokens", async (req, res, next) => {
+    app.get("/api/badges", requireAuth, async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
+            const badges = await storage.getAllBadges();
+            res.json(badges);
+        } catch (error) {
+            next(error);
+        }
+    });
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser) {
-                return res.status(404).json({ message: "User not found" });
-            }
+    app.post("/api/badges", requireAuth, async (req, res, next) => {
+        try {
+            const badge = await storage.createBadge(req.body);
+            res.json(badge);
+        } catch (error) {
+            next(error);
+        }
+    });
 
-            if (!requestingUser.isActive) {
-                return res.status(401).json({
-                    message: "User account disabled",
-                    code: "USER_INACTIVE",
-                });
-            }
+    // Company Profile Management
+    app.get("/api/my-company/profile", requireAuth, async (req, res, next) => {
+        try {
+            const requestingUserId = req.user!.id;
+            const requestingUser = await storage.getUserById(requestingUserId);
 
-            const { token, deviceType } = req.body;
-            if (!token) {
-                return res.status(400).json({ message: "Token is required" });
+            if (!requestingUser || !requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
             }
 
-            const deviceToken = await storage.createOrUpdateDeviceToken({
-                userId: requestingUser.id,
-                token,
-                deviceType: deviceType || "web",
-            });
+            const company = await storage.getCompanyById(
+                requestingUser.companyId
+            );
+            if (!company) {
+                return res.status(404).json({ message: "Company not found" });
+            }
 
-            res.json(deviceToken);
+            res.json(company);
         } catch (error) {
             next(error);
         }
     });
 
-    app.delete("/api/device-tokens/:token", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
+    app.patch(
+        "/api/my-company/profile",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser) {
-                return res.status(404).json({ message: "User not found" });
-            }
+                if (
+                    !requestingUser ||
+                    requestingUser.role !== "company_admin"
+                ) {
+                    return res.status(403).json({
+                        message:
+                            "Only company admins can update company profile",
+                    });
+                }
 
-            if (!requestingUser.isActive) {
-                return res.status(401).json({
-                    message: "User account disabled",
-                    code: "USER_INACTIVE",
-                });
-            }
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
+                }
 
-            const { token } = req.params;
-            await storage.deleteDeviceToken(token);
+                if (
+                    req.body.timezone !== undefined &&
+                    (typeof req.body.timezone !== "string" ||
+                        !isValidTimezone(req.body.timezone))
+                ) {
+                    return res
+                        .status(400)
+                        .json({ message: "Invalid timezone" });
+                }
 
-            res.json({ message: "Device token deleted successfully" });
-        } catch (error) {
-            next(error);
+                // Add audit trail
+                const updateData = {
+                    ...req.body,
+                    updatedBy:
+                        requestingUser.displayName || requestingUser.email,
+                    updatedAt: new Date(),
+                };
+
+                const updatedCompany = await storage.updateCompany(
+                    requestingUser.companyId,
+                    updateData
+                );
+                res.json(updatedCompany);
+            } catch (error) {
+                next(error);
+            }
         }
+    );
+
+    // ==================== ATTENDANCE MANAGEMENT ====================
+
+    // Validation schemas
+    // gpsLocation is sent as "lat,lng"
+    const checkInSchema = z.object({
+        gpsLocation: z.string().nullable().optional(),
+        deviceId: z.string().optional(),
+    });
+
+    const checkOutSchema = z.object({
+        gpsLocation: z.string().nullable().optional(),
+        deviceId: z.string().optional(),
+    });
+
+    const registerDeviceSchema = z.object({
+        deviceId: z.string().min(8).max(255),
+        deviceLabel: z.string().max(255).optional(),
+    });
+
+    const dailyAttendanceQuerySchema = z.object({
+        date: z.string().optional(),
+        companyId: z.string().optional(),
+    });
+
+    const manualAttendanceSchema = z.object({
+        userId: z.number(),
+        companyId: z.number(),
+        date: z.string(),
+        checkIn: z
+            .string()
+            .or(z.date())
+            .optional()
+            .transform((val) => {
+                if (typeof val === "string") return new Date(val);
+                return val;
+            }),
+        checkOut: z
+            .string()
+            .or(z.date())
+            .optional()
+            .nullable()
+            .transform((val) => {
+                if (val === null || val === undefined) return null;
+                if (typeof val === "string") return new Date(val);
+                return val;
+            }),
+        status: z.enum([
+            "present",
+            "absent",
+            "late",
+            "leave",
+            "half_day",
+            "short_day",
+            "on_leave",
+            "holiday",
+            "weekly_off",
+        ]),
+        workDuration: z.number().optional().nullable(),
+        gpsLocation: z.string().nullable().optional(),
+    });
+
+    const updateAttendanceSchema = z.object({
+        checkIn: z
+            .string()
+            .or(z.date())
+            .optional()
+            .transform((val) => {
+                if (typeof val === "string") return new Date(val);
+                return val;
+            }),
+        checkOut: z
+            .string()
+            .or(z.date())
+            .optional()
+            .nullable()
+            .transform((val) => {
+                if (val === null || val === undefined) return null;
+                if (typeof val === "string") return new Date(val);
+                return val;
+            }),
+        status: z
+            .enum([
+                "present",
+                "absent",
+                "late",
+                "leave",
+                "half_day",
+                "short_day",
+                "on_leave",
+                "holiday",
+                "weekly_off",
+            ])
+            .optional(),
+        workDuration: z.number().optional().nullable(),
+        remarks: z.string().optional().nullable(),
+    });
+
+    const reportsQuerySchema = z.object({
+        startDate: z.string().optional(),
+        endDate: z.string().optional(),
+        userId: z.string().optional(),
+        companyId: z.string().optional(),
     });
 
-    // Feedback routes
-    app.post("/api/feedbacks", async (req, res, next) => {
-        try {
-            const validatedFeedback = insertFeedbackSchema.parse(req.body);
-            const feedback = await storage.createFeedback(validatedFeedback);
-            res.json(feedback);
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                return res
-                    .status(400)
-                    .json({ message: error.errors[0].message });
-            }
-            next(error);
-        }
+    const correctionRequestSchema = z.object({
+        attendanceId: z.number(),
+        requestedCheckIn: z.string().or(z.date()).optional().nullable(),
+        requestedCheckOut: z.string().or(z.date()).optional().nullable(),
+        reason: z.string().min(1, "Reason is required"),
     });
 
-    app.get("/api/feedbacks", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
+    // Employee: Check-in
+    app.post(
+        "/api/attendance/check-in",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const validatedBody = checkInSchema.parse(req.body);
+                const userId = req.user!.id;
+                const user = await storage.getUserById(userId);
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser) {
-                return res.status(404).json({ message: "User not found" });
-            }
+                if (!user || !user.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "User or company not found" });
+                }
 
-            const { userId } = req.query;
+                const checkInTime = new Date();
+                // Overnight shifts are recorded against the date they started
+                const workday = await resolveWorkday(user, checkInTime);
+                const today = workday.date;
 
-            if (userId) {
-                const feedbacks = await storage.getFeedbacksByUserId(
-                    parseInt(userId as string)
+                // A day can hold several sessions, but only one open at a time
+                const existingRecord = await storage.getAttendanceByUserAndDate(
+                    userId,
+                    today
                 );
-                res.json(feedbacks);
-            } else {
-                // Admin viewing all company feedbacks
-                if (
-                    requestingUser.role === "company_admin" ||
-                    requestingUser.role === "super_admin"
-                ) {
-                    const allFeedbacks = await storage.getAllFeedbacks();
-                    // Filter by company unless super_admin
-                    if (requestingUser.role === "super_admin") {
-                        res.json(allFeedbacks);
-                    } else {
-                        // Get all users in the company
-                        const companyUsers = await storage.getUsersByCompanyId(
-                            requestingUser.companyId!
-                        );
-                        const companyUserIds = companyUsers.map((u) => u.id);
-                        const companyFeedbacks = allFeedbacks.filter((f) =>
-                            companyUserIds.includes(f.submittedBy)
-                        );
-                        res.json(companyFeedbacks);
-                    }
-                } else if (requestingUser.role === "team_leader") {
-                    // Team leaders can view feedback from their team members
-                    const teamMembers = await storage.getTeamMembersByLeader(
-                        requestingUser.id
-                    );
-                    const teamMemberIds = teamMembers.map((m) => m.id);
-                    const allFeedbacks = await storage.getAllFeedbacks();
-                    const teamFeedbacks = allFeedbacks.filter((f) =>
-                        teamMemberIds.includes(f.submittedBy)
-                    );
-                    res.json(teamFeedbacks);
-                } else {
-                    // Regular users can only see their own feedbacks
-                    const feedbacks = await storage.getFeedbacksByUserId(
-                        requestingUser.id
-                    );
-                    res.json(feedbacks);
+                if (existingRecord?.checkIn && !existingRecord.checkOut) {
+                    return res.status(400).json({
+                        message:
+                            "Already checked in. Check out before starting a new session",
+                    });
                 }
-            }
-        } catch (error) {
-            next(error);
-        }
-    });
 
-    // Slot Pricing routes
-    app.get("/api/slot-pricing", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
+                // Get company policy and shift info
+                const policy = await storage.getAttendancePolicyByCompany(
+                    user.companyId
+                );
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser) {
-                return res.status(404).json({ message: "User not found" });
-            }
+                const device = await checkPunchDevice(
+                    userId,
+                    policy,
+                    validatedBody.deviceId,
+                    existingRecord?.id ?? null
+                );
+                if (!device.allowed) {
+                    return res
+                        .status(device.status)
+                        .json({ message: device.message, code: device.code });
+                }
 
-            // Allow super_admin and company_admin to view pricing
-            if (
-                requestingUser.role !== "super_admin" &&
-                requestingUser.role !== "company_admin"
-            ) {
-                return res.status(403).json({ message: "Access denied" });
-            }
+                const location = await checkPunchLocation(
+                    user.companyId,
+                    policy,
+                    validatedBody.gpsLocation
+                );
+                if (!location.allowed) {
+                    return res
+                        .status(location.status)
+                        .json({ message: location.message, code: location.code });
+                }
 
-            const pricing = await storage.getAllSlotPricing();
-            res.json(pricing);
-        } catch (error) {
-            next(error);
-        }
-    });
+                const sessionDetails = {
+                    gpsLocation: validatedBody.gpsLocation || null,
+                    checkInDistance: location.distance,
+                    checkInSite: location.site,
+                    deviceId: validatedBody.deviceId || null,
+                };
 
-    app.post("/api/slot-pricing", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
+                const record = await punchIn(
+                    { ...user, companyId: user.companyId },
+                    workday,
+                    existingRecord,
+                    checkInTime,
+                    sessionDetails,
+                    req.ip || null
+                );
+                res.json(record);
+            } catch (error) {
+                next(error);
             }
+        }
+    );
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser || requestingUser.role !== "super_admin") {
-                return res.status(403).json({
-                    message: "Only super admins can modify slot pricing",
-                });
-            }
+    // Employee: Check-out
+    app.post(
+        "/api/attendance/check-out",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const validatedBody = checkOutSchema.parse(req.body ?? {});
+                const userId = req.user!.id;
+                const today = await companyToday(req.user!.companyId);
 
-            const validatedData = insertSlotPricingSchema.parse(req.body);
-            const pricing = await storage.createOrUpdateSlotPricing(
-                validatedData
-            );
+                const record = await findCurrentAttendance(userId, today);
+                if (!record || !record.checkIn) {
+                    return res.status(404).json({
+                        message: "No check-in record found for today",
+                    });
+                }
 
-            res.json(pricing);
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                return res
-                    .status(400)
-                    .json({ message: error.errors[0].message });
-            }
-            next(error);
-        }
-    });
+                if (record.checkOut) {
+                    return res
+                        .status(400)
+                        .json({ message: "Already checked out today" });
+                }
 
-    // Purchase Slots
-    app.post("/api/purchase-slots", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
+                const policy = await storage.getAttendancePolicyByCompany(
+                    record.companyId
+                );
+                const device = await checkPunchDevice(
+                    userId,
+                    policy,
+                    validatedBody.deviceId,
+                    record.id
+                );
+                if (!device.allowed) {
+                    return res
+                        .status(device.status)
+                        .json({ message: device.message, code: device.code });
+                }
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser || !requestingUser.companyId) {
-                return res
-                    .status(403)
-                    .json({ message: "User must belong to a company" });
-            }
+                const location = await checkPunchLocation(
+                    record.companyId,
+                    policy,
+                    validatedBody.gpsLocation
+                );
+                if (!location.allowed) {
+                    return res
+                        .status(location.status)
+                        .json({ message: location.message, code: location.code });
+                }
 
-            if (requestingUser.role !== "company_admin") {
-                return res.status(403).json({
-                    message: "Only company admins can purchase slots",
+                const updatedRecord = await punchOut(record, new Date(), {
+                    checkOutGpsLocation: validatedBody.gpsLocation || null,
+                    checkOutDistance: location.distance,
+                    checkOutSite: location.site,
                 });
-            }
 
-            const validatedData = slotPurchaseSchema.parse(req.body);
-
-            const pricing = await storage.getSlotPricingByType(
-                validatedData.slotType
-            );
-            if (!pricing) {
-                return res.status(404).json({
-                    message: `Pricing not found for ${validatedData.slotType} slots`,
-                });
+                res.json(updatedRecord);
+            } catch (error) {
+                next(error);
             }
+        }
+    );
 
-            const totalAmount = pricing.pricePerSlot * validatedData.quantity;
-
-            const payment = await storage.createCompanyPayment({
-                companyId: requestingUser.companyId,
-                slotType: validatedData.slotType,
-                slotQuantity: validatedData.quantity,
-                amount: totalAmount,
-                currency: pricing.currency,
-                paymentStatus: "paid",
-                paymentMethod: "online",
-                transactionId: `TXN-${Date.now()}`,
-            });
-
-            const updateData =
-                validatedData.slotType === "admin"
-                    ? { maxAdmins: validatedData.quantity }
-                    : { maxMembers: validatedData.quantity };
+    // Employee: Trusted device status for this browser
+    app.get("/api/attendance/device", requireAuth, async (req, res, next) => {
+        try {
+            const user = req.user!;
+            const { deviceId } = req.query;
 
-            await storage.incrementCompanySlots(
-                requestingUser.companyId,
-                updateData
+            const activeDevice = await storage.getActiveDeviceByUser(user.id);
+            const pendingDevice = await storage.getPendingDeviceByUser(
+                user.id
             );
+            const policy = user.companyId
+                ? await storage.getAttendancePolicyByCompany(user.companyId)
+                : null;
 
             res.json({
-                success: true,
-                message: `Successfully purchased ${validatedData.quantity} ${validatedData.slotType} slot(s)`,
-                payment,
+                requireDeviceBinding: policy?.requireDeviceBinding ?? false,
+                activeDevice,
+                pendingDevice,
+                isCurrentDevice:
+                    !!activeDevice && activeDevice.deviceId === deviceId,
             });
         } catch (error) {
-            if (error instanceof z.ZodError) {
-                return res
-                    .status(400)
-                    .json({ message: error.errors[0].message });
-            }
             next(error);
         }
     });
 
-    // Stripe Payment Intent Creation
-    app.post("/api/create-payment-intent", async (req, res, next) => {
+    // Employee: Register this device. The first device is trusted immediately;
+    // replacing it needs an admin to approve the rebind request.
+    app.post("/api/attendance/device", requireAuth, async (req, res, next) => {
         try {
-            if (!stripe) {
-                return res
-                    .status(500)
-                    .json({ message: "Payment gateway not configured" });
-            }
+            const validatedBody = registerDeviceSchema.parse(req.body);
+            const user = req.user!;
 
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
+            if (!user.companyId) {
+                return res.status(404).json({ message: "Company not found" });
             }
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser || !requestingUser.companyId) {
-                return res
-                    .status(403)
-                    .json({ message: "User must belong to a company" });
+            const activeDevice = await storage.getActiveDeviceByUser(user.id);
+            if (activeDevice?.deviceId === validatedBody.deviceId) {
+                return res.json(activeDevice);
             }
 
-            if (requestingUser.role !== "company_admin") {
-                return res.status(403).json({
-                    message: "Only company admins can purchase slots",
+            if (!activeDevice) {
+                const device = await storage.createUserDevice({
+                    userId: user.id,
+                    companyId: user.companyId,
+                    deviceId: validatedBody.deviceId,
+                    deviceLabel: validatedBody.deviceLabel || null,
+                    status: "active",
+                });
+                await storage.createAttendanceLog({
+                    attendanceId: null,
+                    userId: user.id,
+                    action: "device_registered",
+                    performedBy: user.id,
+                    newValue: validatedBody.deviceId,
                 });
+                return res.json(device);
             }
 
-            const { slotType, quantity } = req.body;
-
-            // Fetch server-side pricing to prevent tampering
-            const pricing = await storage.getSlotPricingByType(slotType);
-            if (!pricing) {
-                return res.status(400).json({ message: "Invalid slot type" });
+            const pendingDevice = await storage.getPendingDeviceByUser(
+                user.id
+            );
+            if (pendingDevice) {
+                return res.status(409).json({
+                    message:
+                        "You already have a device change request awaiting approval",
+                });
             }
 
-            // Calculate amount server-side from authoritative pricing
-            const calculatedAmount = pricing.pricePerSlot * quantity;
-
-            // Create payment record with server-calculated amount
-            const payment = await storage.createCompanyPayment({
-                companyId: requestingUser.companyId,
-                slotType,
-                slotQuantity: quantity,
-                amount: calculatedAmount,
-                currency: "INR",
-                paymentStatus: "pending",
-                paymentMethod: "stripe",
-            });
-
-            // Create Stripe payment intent with server-calculated amount
-            // Automatic payment methods - Stripe will show available options based on:
-            // 1. Currency (INR)
-            // 2. Amount
-            // 3. Customer location
-            // 4. Payment methods enabled in your Stripe Dashboard
-            const paymentIntent = await stripe.paymentIntents.create({
-                amount: Math.round(calculatedAmount * 100), // Convert to paise (INR smallest unit)
-                currency: "inr",
-                automatic_payment_methods: {
-                    enabled: true,
-                    allow_redirects: "always",
-                },
-                metadata: {
-                    paymentId: payment.id.toString(),
-                    companyId: requestingUser.companyId.toString(),
-                    slotType,
-                    quantity: quantity.toString(),
-                },
+            const device = await storage.createUserDevice({
+                userId: user.id,
+                companyId: user.companyId,
+                deviceId: validatedBody.deviceId,
+                deviceLabel: validatedBody.deviceLabel || null,
+                status: "pending",
             });
-
-            console.log("Payment Intent created:", {
-                id: paymentIntent.id,
-                amount: paymentIntent.amount,
-                currency: paymentIntent.currency,
-                status: paymentIntent.status,
-                hasClientSecret: !!paymentIntent.client_secret,
-                clientSecretPreview: paymentIntent.client_secret
-                    ? paymentIntent.client_secret.substring(0, 30) + "..."
-                    : "MISSING",
+            await storage.createAttendanceLog({
+                attendanceId: null,
+                userId: user.id,
+                action: "device_rebind_requested",
+                performedBy: user.id,
+                oldValue: activeDevice.deviceId,
+                newValue: validatedBody.deviceId,
             });
 
-            // Update payment with Stripe payment intent ID
-            await storage.updatePaymentStripeId(payment.id, paymentIntent.id);
-
-            const responseData = {
-                clientSecret: paymentIntent.client_secret,
-                paymentId: payment.id,
-            };
-
-            console.log("Sending response:", {
-                hasClientSecret: !!responseData.clientSecret,
-                paymentId: responseData.paymentId,
+            publish(channels.companyAdmins(user.companyId), {
+                type: "DEVICE_REBIND_REQUESTED",
+                userId: user.id,
             });
 
-            res.json(responseData);
-        } catch (error: any) {
-            console.error("Payment intent creation error:", error);
+            res.json(device);
+        } catch (error) {
             if (error instanceof z.ZodError) {
                 return res
                     .status(400)
@@ -4414,2509 +7235,2579 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
     });
 
-    // Verify Payment and Update Slots
-    app.post("/api/verify-payment", async (req, res, next) => {
+    // Employee: Get today's attendance
+    app.get("/api/attendance/today", requireAuth, async (req, res, next) => {
         try {
-            if (!stripe) {
-                return res
-                    .status(500)
-                    .json({ message: "Payment gateway not configured" });
-            }
-
-            const { paymentIntentId, paymentId } = req.body;
-
-            // Retrieve payment intent from Stripe
-            const paymentIntent = await stripe.paymentIntents.retrieve(
-                paymentIntentId
-            );
-
-            if (paymentIntent.status !== "succeeded") {
-                return res
-                    .status(400)
-                    .json({ message: "Payment not successful" });
-            }
-
-            // Get payment record
-            const payment = await storage.getPaymentById(paymentId);
-            if (!payment) {
-                return res
-                    .status(404)
-                    .json({ message: "Payment record not found" });
-            }
+            const userId = req.user!.id;
+            const today = await companyToday(req.user!.companyId);
 
-            // Verify metadata matches to prevent tampering
-            if (paymentIntent.metadata.paymentId !== paymentId.toString()) {
-                return res.status(400).json({
-                    message: "Payment verification failed: metadata mismatch",
-                });
+            const record = await findCurrentAttendance(userId, today);
+            if (!record) {
+                return res.json(null);
             }
 
-            // Prevent duplicate processing
-            if (payment.paymentStatus === "paid") {
-                // Payment already processed - return success with existing receipt
-                return res.json({
-                    success: true,
-                    message: "Payment already processed",
-                    payment,
-                    receiptNumber: payment.receiptNumber,
-                    emailSent: payment.emailSent,
-                });
-            }
+            const sessions = await storage.getPunchesByAttendance(record.id);
+            const breaks = await storage.getBreaksByAttendance(record.id);
+            const policy = await storage.getAttendancePolicyByCompany(
+                record.companyId
+            );
+            res.json({
+                ...record,
+                sessions,
+                breaks,
+                breakOverageMinutes: breakOverageMinutes(
+                    breaks,
+                    policy,
+                    record.checkOut ? new Date(record.checkOut) : new Date()
+                ),
+            });
+        } catch (error) {
+            next(error);
+        }
+    });
 
-            // Get company details for email
-            const company = await storage.getCompanyById(payment.companyId);
-            if (!company) {
-                return res.status(404).json({ message: "Company not found" });
-            }
+    const startBreakSchema = z.object({
+        breakType: z.enum(["lunch", "personal", "meeting"], {
+            errorMap: () => ({ message: "Choose a break type" }),
+        }),
+    });
 
-            // Generate unique receipt number using payment ID for guaranteed uniqueness
-            const date = new Date();
-            const dateStr = date.toISOString().slice(0, 10).replace(/-/g, "");
-            const receiptNumber = `WL-RCPT-${dateStr}-${paymentId
-                .toString()
-                .padStart(6, "0")}`;
+    // Employee: Start a break
+    app.post(
+        "/api/attendance/break/start",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const { breakType } = startBreakSchema.parse(req.body);
+                const userId = req.user!.id;
+                const today = await companyToday(req.user!.companyId);
 
-            // Prepare slot updates
-            const slotUpdates =
-                payment.slotType === "admin"
-                    ? { maxAdmins: payment.slotQuantity || 0 }
-                    : { maxMembers: payment.slotQuantity || 0 };
+                const record = await findCurrentAttendance(userId, today);
+                if (!record || !record.checkIn) {
+                    return res.status(404).json({
+                        message: "No check-in record found for today",
+                    });
+                }
 
-            // CRITICAL: Atomic transaction - complete payment and update slots together
-            const updatedPayment = await storage.completePaymentWithSlots(
-                paymentId,
-                payment.companyId,
-                receiptNumber,
-                paymentIntent.id,
-                slotUpdates
-            );
+                const { started, error } = await startBreak(
+                    record,
+                    breakType,
+                    new Date()
+                );
+                if (error) {
+                    return res.status(400).json({ message: error });
+                }
 
-            // If null, payment was already processed by concurrent request - fetch current state
-            if (!updatedPayment) {
-                const currentPayment = await storage.getPaymentById(paymentId);
-                if (!currentPayment) {
+                res.json(started);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
                     return res
-                        .status(404)
-                        .json({ message: "Payment record not found" });
+                        .status(400)
+                        .json({ message: error.errors[0].message });
                 }
-                // Return existing receipt data (idempotent retry succeeded)
-                return res.json({
-                    success: true,
-                    message: "Payment already processed",
-                    payment: currentPayment,
-                    receiptNumber: currentPayment.receiptNumber,
-                    emailSent: currentPayment.emailSent,
-                });
+                next(error);
             }
+        }
+    );
 
-            // Send email asynchronously (non-fatal - don't block on email failure)
-            let emailSent = false;
+    // Employee: End the running break
+    app.post(
+        "/api/attendance/break/end",
+        requireAuth,
+        async (req, res, next) => {
             try {
-                emailSent = await sendPaymentConfirmationEmail({
-                    companyName: company.name,
-                    companyEmail: company.email,
-                    receiptNumber,
-                    amount: payment.amount,
-                    currency: payment.currency,
-                    slotType: payment.slotType || "member",
-                    slotQuantity: payment.slotQuantity || 1,
-                    transactionId: paymentIntent.id,
-                    paymentDate: date,
-                });
+                const userId = req.user!.id;
+                const today = await companyToday(req.user!.companyId);
 
-                // Update email sent status if successful
-                if (emailSent) {
-                    await storage.updatePaymentEmailStatus(paymentId, true);
+                const record = await findCurrentAttendance(userId, today);
+                if (!record || !record.checkIn) {
+                    return res.status(404).json({
+                        message: "No check-in record found for today",
+                    });
                 }
-            } catch (emailError: any) {
-                console.error("Email sending failed (non-fatal):", emailError);
-                // Email failure is logged but doesn't fail the payment
-            }
-
-            res.json({
-                success: true,
-                message: "Payment verified and slots added successfully",
-                payment: updatedPayment,
-                receiptNumber,
-                emailSent,
-            });
-        } catch (error: any) {
-            console.error("Payment verification error:", error);
-            next(error);
-        }
-    });
-
-    // Get company's own payment history (Company Admin)
-    app.get("/api/my-company-payments", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
 
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser || !requestingUser.companyId) {
-                return res
-                    .status(403)
-                    .json({ message: "User must belong to a company" });
-            }
+                const { ended, breakMinutes } = await endBreak(
+                    record,
+                    new Date()
+                );
+                if (!ended) {
+                    return res
+                        .status(400)
+                        .json({ message: "You are not on a break" });
+                }
 
-            if (requestingUser.role !== "company_admin") {
-                return res.status(403).json({
-                    message: "Only company admins can view payment history",
-                });
+                res.json({ ...ended, breakMinutes });
+            } catch (error) {
+                next(error);
             }
+        }
+    );
 
-            const payments = await storage.getPaymentsByCompanyId(
-                requestingUser.companyId
+    // Employee: Get attendance history
+    app.get("/api/attendance/history", requireAuth, async (req, res, next) => {
+        try {
+            const userId = req.user!.id;
+            const { startDate, endDate } = req.query;
+
+            // Default to current month (in the company's timezone) if not provided
+            const [year, month] = (await companyToday(req.user!.companyId))
+                .split("-")
+                .map(Number);
+            const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+            const currentMonth = `${year}-${String(month).padStart(2, "0")}`;
+            const defaultStartDate = `${currentMonth}-01`;
+            const defaultEndDate = `${currentMonth}-${lastDay}`;
+
+            const records = await tenantStorageFor(
+                req.user!
+            ).getAttendanceHistory(
+                userId,
+                (startDate as string) || defaultStartDate,
+                (endDate as string) || defaultEndDate
             );
-            res.json(payments);
+
+            res.json(records);
         } catch (error) {
             next(error);
         }
     });
 
-    // Company Payment routes (Super Admin only)
-    app.get("/api/company-payments", async (req, res, next) => {
-        try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
-
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser || requestingUser.role !== "super_admin") {
-                return res.status(403).json({
-                    message: "Only super admins can access company payments",
-                });
-            }
+    // Employee: Get monthly attendance summary
+    app.get(
+        "/api/attendance/monthly-summary",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const userId = req.user!.id;
+                const { month, year } = req.query;
 
-            const { companyId } = req.query;
+                // Default to current month/year (in the company's timezone) if not provided
+                const [currentYear, currentMonth] = (
+                    await companyToday(req.user!.companyId)
+                )
+                    .split("-")
+                    .map(Number);
+                const targetMonth = month
+                    ? parseInt(month as string)
+                    : currentMonth;
+                const targetYear = year
+                    ? parseInt(year as string)
+                    : currentYear;
 
-            if (companyId) {
-                const payments = await storage.getPaymentsByCompanyId(
-                    parseInt(companyId as string)
+                const summary = await storage.getMonthlyAttendanceSummary(
+                    userId,
+                    targetMonth,
+                    targetYear
                 );
-                res.json(payments);
-            } else {
-                const payments = await storage.getAllCompanyPayments();
-                res.json(payments);
+                const latePenalty = req.user!.companyId
+                    ? await userLatePenalty(
+                          userId,
+                          req.user!.companyId,
+                          targetMonth,
+                          targetYear
+                      )
+                    : null;
+
+                res.json({ ...summary, latePenalty });
+            } catch (error) {
+                next(error);
             }
+        }
+    );
+
+    // Employee: Get attendance badges
+    app.get("/api/attendance/badges", requireAuth, async (req, res, next) => {
+        try {
+            const userId = req.user!.id;
+            const badges = await storage.getAttendanceBadgesByUser(userId);
+            res.json(badges);
         } catch (error) {
             next(error);
         }
     });
 
-    app.post("/api/company-payments", async (req, res, next) => {
+    // Employee: Get attendance streak
+    app.get("/api/attendance/streak", requireAuth, async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
-
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser || requestingUser.role !== "super_admin") {
-                return res.status(403).json({
-                    message: "Only super admins can create company payments",
-                });
-            }
-
-            const validatedData = insertCompanyPaymentSchema.parse(req.body);
-            const payment = await storage.createCompanyPayment(validatedData);
-            res.json(payment);
+            const userId = req.user!.id;
+            const streak = await storage.getAttendanceStreakByUser(userId);
+            res.json(streak || {
+                currentStreak: 0,
+                longestStreak: 0,
+                earlyBirdCount: 0,
+                onTimeCount: 0,
+                lateCount: 0,
+                absentCount: 0,
+                totalWorkingDays: 0,
+            });
         } catch (error) {
-            if (error instanceof z.ZodError) {
-                return res
-                    .status(400)
-                    .json({ message: error.errors[0].message });
-            }
             next(error);
         }
     });
 
-    app.patch("/api/company-payments/:id/status", async (req, res, next) => {
+    // Employee: Get attendance policy (for showing rules to user)
+    app.get("/api/attendance/policy", requireAuth, async (req, res, next) => {
         try {
-            const requestingUserId = req.headers["x-user-id"];
-            if (!requestingUserId) {
-                return res
-                    .status(401)
-                    .json({ message: "Authentication required" });
-            }
-
-            const requestingUser = await storage.getUserById(
-                parseInt(requestingUserId as string)
-            );
-            if (!requestingUser || requestingUser.role !== "super_admin") {
-                return res.status(403).json({
-                    message: "Only super admins can update payment status",
-                });
-            }
-
-            const { id } = req.params;
-            const validatedData = updatePaymentStatusSchema.parse(req.body);
-
-            const paymentId = parseInt(id);
-            if (isNaN(paymentId)) {
-                return res.status(400).json({ message: "Invalid payment ID" });
+            const userId = req.user!.id;
+            const user = await storage.getUserById(userId);
+            if (!user || !user.companyId) {
+                return res.status(404).json({ message: "User or company not found" });
             }
-
-            await storage.updatePaymentStatus(paymentId, {
-                paymentStatus: validatedData.status,
+            
+            const policy = await storage.getAttendancePolicyByCompany(user.companyId);
+            const { shift: userShift } = await resolveWorkday(user, new Date());
+            
+            res.json({
+                policy: policy || {
+                    halfDayHours: 4,
+                    fullDayHours: 8,
+                    lateMarkThreshold: 3,
+                    autoAbsentHours: 2,
+                    allowSelfCheckIn: true,
+                    requireGPS: false,
+                    requireDeviceBinding: false,
+                    correctionWindowDays: null,
+                    monthlyCorrectionCap: null,
+                    maxBreakMinutes: null,
+                    breakTypeLimits: {},
+                    overtimeApproval: "post",
+                    overtimeMinBlockMinutes: 0,
+                    lateMarksPerDeduction: null,
+                    lateMarkDeductionDays: 0.5,
+                    severeLateMinutes: null,
+                },
+                shift: userShift,
             });
-            res.json({ message: "Payment status updated successfully" });
         } catch (error) {
-            if (error instanceof z.ZodError) {
-                return res
-                    .status(400)
-                    .json({ message: error.errors[0].message });
-            }
             next(error);
         }
     });
 
-    // Password Reset routes
-    const handlePasswordResetRequest = async (
-        req: express.Request,
-        res: express.Response,
-        next: express.NextFunction
-    ) => {
+    // Admin: Get all company badges
+    app.get("/api/admin/attendance/badges", requireAuth, async (req, res, next) => {
         try {
-            const validatedData = passwordResetRequestSchema.parse(req.body);
-
-            const user = await storage.getUserByEmail(validatedData.email);
-            const company = await storage.getCompanyByEmail(
-                validatedData.email
-            );
-
-            if (!user && !company) {
-                return res.json({
-                    message:
-                        "If an account exists with this email, a password reset link has been sent.",
-                });
+            const userId = req.user!.id;
+            const user = await storage.getUserById(userId);
+            if (!user || !user.companyId) {
+                return res.status(404).json({ message: "User or company not found" });
             }
-
-            const resetToken = crypto.randomBytes(32).toString("hex");
-            const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
-
-            await storage.createPasswordResetToken(
-                validatedData.email,
-                resetToken,
-                expiresAt
-            );
-
-            const protocol =
-                req.headers["x-forwarded-proto"] || req.protocol || "https";
-            const host = req.headers["x-forwarded-host"] || req.headers.host;
-            const baseUrl = `${protocol}://${host}`;
-
-            await sendPasswordResetEmail({
-                email: validatedData.email,
-                resetToken,
-                userName: user?.displayName || company?.name || "User",
-                baseUrl,
-            });
-
-            res.json({
-                message:
-                    "If an account exists with this email, a password reset link has been sent.",
-            });
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                return res
-                    .status(400)
-                    .json({ message: error.errors[0].message });
+            if (user.role !== "company_admin") {
+                return res.status(403).json({ message: "Admin access required" });
             }
+            
+            const badges = await storage.getAttendanceBadgesByCompany(user.companyId);
+            res.json(badges);
+        } catch (error) {
             next(error);
         }
-    };
-
-    app.post("/api/auth/request-password-reset", handlePasswordResetRequest);
-    app.post("/api/auth/forgot-password", handlePasswordResetRequest);
+    });
 
-    app.post("/api/auth/forgot-company-id", async (req, res, next) => {
+    // Admin: Get all company streaks with user names
+    app.get("/api/admin/attendance/streaks", requireAuth, async (req, res, next) => {
         try {
-            const { email } = req.body;
-
-            if (!email) {
-                return res.status(400).json({ message: "Email is required" });
+            const userId = req.user!.id;
+            const user = await storage.getUserById(userId);
+            if (!user || !user.companyId) {
+                return res.status(404).json({ message: "User or company not found" });
             }
-
-            const company = await storage.getCompanyByEmail(email);
-
-            if (company) {
-                await sendCompanyServerIdEmail({
-                    companyName: company.name,
-                    companyEmail: company.email,
-                    serverId: company.serverId,
-                });
+            if (user.role !== "company_admin") {
+                return res.status(403).json({ message: "Admin access required" });
             }
-
-            res.json({
-                message:
-                    "If a company exists with this email, the Company Server ID has been sent.",
-            });
+            
+            const streaks = await storage.getAttendanceStreaksByCompany(user.companyId);
+            
+            // Enrich streaks with user names
+            const enrichedStreaks = await Promise.all(
+                streaks.map(async (streak) => {
+                    const streakUser = await storage.getUserById(streak.userId);
+                    return {
+                        ...streak,
+                        fullName: streakUser?.fullName || streakUser?.displayName || streakUser?.email || `User ${streak.userId}`,
+                    };
+                })
+            );
+            
+            res.json(enrichedStreaks);
         } catch (error) {
             next(error);
         }
     });
 
-    app.post("/api/auth/reset-password", async (req, res, next) => {
-        try {
-            const validatedData = passwordResetSchema.parse(req.body);
-
-            const tokenData = await storage.getPasswordResetToken(
-                validatedData.token
-            );
+    // Employee: Mark as leave
+    app.post(
+        "/api/attendance/mark-leave",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const userId = req.user!.id;
+                const user = await storage.getUserById(userId);
 
-            if (!tokenData) {
-                return res
-                    .status(400)
-                    .json({ message: "Invalid or expired reset token" });
-            }
+                if (!user || !user.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "User or company not found" });
+                }
 
-            if (tokenData.used) {
-                return res.status(400).json({
-                    message: "This reset token has already been used",
+                const markLeaveSchema = z.object({
+                    reason: z
+                        .string()
+                        .min(10, "Reason must be at least 10 characters"),
+                    date: z.string().optional(),
                 });
-            }
-
-            if (new Date() > new Date(tokenData.expiresAt)) {
-                return res
-                    .status(400)
-                    .json({ message: "This reset token has expired" });
-            }
-
-            const user = await storage.getUserByEmail(tokenData.email);
-            const company = await storage.getCompanyByEmail(tokenData.email);
-
-            if (!user && !company) {
-                return res.status(400).json({ message: "Account not found" });
-            }
-
-            const hashedPassword = await bcrypt.hash(
-                validatedData.newPassword,
-                10
-            );
 
-            if (user) {
-                await storage.updateUserPassword(user.id, hashedPassword);
+                const validatedBody = markLeaveSchema.parse(req.body);
+                const targetDate =
+                    validatedBody.date ||
+                    (await companyToday(user.companyId));
 
-                if (user.role === "company_admin" && user.companyId) {
-                    await storage.updateCompany(user.companyId, {
-                        password: hashedPassword,
+                // Check if already has attendance record for this date
+                const existingRecord = await storage.getAttendanceByUserAndDate(
+                    userId,
+                    targetDate
+                );
+                if (existingRecord && existingRecord.checkIn) {
+                    return res.status(400).json({
+                        message:
+                            "Already checked in for this date. Cannot mark as leave.",
                     });
                 }
-            }
 
-            if (company) {
-                await storage.updateCompany(company.id, {
-                    password: hashedPassword,
-                });
-            }
+                const leaveData = {
+                    userId,
+                    companyId: user.companyId,
+                    date: targetDate,
+                    status: "leave" as const,
+                    remarks: validatedBody.reason,
+                };
 
-            await storage.markTokenAsUsed(validatedData.token);
+                const record = existingRecord
+                    ? await storage.updateAttendanceRecord(
+                          existingRecord.id,
+                          leaveData
+                      )
+                    : await storage.createAttendanceRecord(leaveData);
 
-            res.json({ message: "Password reset successfully" });
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                return res
-                    .status(400)
-                    .json({ message: error.errors[0].message });
+                res.json(record);
+            } catch (error) {
+                next(error);
             }
-            next(error);
         }
+    );
+
+    const correctionTimeSchema = z
+        .string()
+        .or(z.date())
+        .optional()
+        .nullable()
+        .transform((val) => {
+            if (typeof val === "string" && val) return new Date(val);
+            if (val instanceof Date) return val;
+            return null;
+        });
+
+    const correctionItemSchema = z.object({
+        date: z
+            .string()
+            .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format"),
+        requestedCheckIn: correctionTimeSchema,
+        requestedCheckOut: correctionTimeSchema,
     });
 
+    // Either `items` for a multi-day regularization, or a single day's fields
+    const correctionFilingSchema = correctionItemSchema.partial().extend({
+        items: z
+            .array(correctionItemSchema)
+            .min(1, "At least one day is required")
+            .max(
+                MAX_CORRECTION_DAYS,
+                `A request can cover at most ${MAX_CORRECTION_DAYS} days`
+            )
+            .optional(),
+        reason: z.string().trim().min(1, "Reason is required"),
+        attachment: z.string().optional().nullable(),
+    });
+
+    // Employee: Request correction
     app.post(
-        "/api/tasks-report/submit",
+        "/api/attendance/correction-request",
         requireAuth,
         async (req, res, next) => {
             try {
-                const userId = parseInt(req.headers["x-user-id"] as string);
-                const { companyId, tasksCompleted, notes } = req.body;
+                const userId = req.user!.id;
+                const user = await storage.getUserById(userId);
 
-                if (!companyId || !tasksCompleted) {
-                    return res.status(400).json({
-                        message: "Company ID and tasks completed are required",
-                    });
+                if (!user || !user.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "User or company not found" });
                 }
 
-                const today = new Date().toISOString().split("T")[0];
-
-                const existingReport = await storage.getTasksReportByDate(
-                    userId,
-                    today
-                );
-                if (existingReport) {
-                    return res.status(400).json({
-                        message: "Report already submitted for today",
-                    });
+                const validatedBody = correctionFilingSchema.parse(req.body);
+                const { items, date, reason, attachment } = validatedBody;
+                if (!items && !date) {
+                    return res.status(400).json({ message: "Date is required" });
                 }
 
-                const report = await storage.createTasksReport({
-                    userId,
-                    companyId,
-                    date: today,
-                    tasksCompleted,
-                    notes: notes || null,
-                    allowedEarlyLogout: true,
-                });
+                const days = items ?? [
+                    {
+                        date: date!,
+                        requestedCheckIn: validatedBody.requestedCheckIn ?? null,
+                        requestedCheckOut:
+                            validatedBody.requestedCheckOut ?? null,
+                    },
+                ];
+                const error = await validateCorrectionItems(user, days);
+                if (error) {
+                    return res.status(400).json({ message: error });
+                }
 
-                res.json(report);
+                const requests = await fileCorrectionRequests(
+                    user,
+                    days,
+                    reason,
+                    attachment ?? null
+                );
+                res.json(items ? requests : requests[0]);
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
-    app.get("/api/tasks-report/today", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const today = new Date().toISOString().split("T")[0];
-            const report = await storage.getTasksReportByDate(userId, today);
-            res.json(report);
-        } catch (error) {
-            next(error);
+    // Employee: Get my correction requests
+    app.get(
+        "/api/attendance/my-corrections",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const userId = req.user!.id;
+                const requests = await storage.getCorrectionRequestsByUser(
+                    userId
+                );
+                res.json(requests);
+            } catch (error) {
+                next(error);
+            }
         }
-    });
+    );
 
-    app.get("/api/tasks-report/user", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const reports = await storage.getTasksReportsByUserId(userId);
-            res.json(reports);
-        } catch (error) {
-            next(error);
+    // Employee: Get my rewards
+    app.get(
+        "/api/attendance/my-rewards",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const userId = req.user!.id;
+                const rewards = await storage.getRewardsByUser(userId);
+                res.json(rewards);
+            } catch (error) {
+                next(error);
+            }
         }
-    });
+    );
 
-    app.get("/api/me", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const user = await storage.getUserById(userId);
+    // Admin: Get daily attendance monitor
+    app.get(
+        "/api/admin/attendance/daily",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const validatedQuery = dailyAttendanceQuerySchema.parse(
+                    req.query
+                );
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
 
-            if (!user) {
-                return res.status(404).json({ message: "User not found" });
+                if (
+                    !requestingUser ||
+                    (requestingUser.role !== "company_admin" &&
+                        requestingUser.role !== "super_admin")
+                ) {
+                    return res.status(403).json({
+                        message: "Only admins can view attendance monitor",
+                    });
+                }
+
+                const { date, companyId } = validatedQuery;
+                const targetCompanyId =
+                    requestingUser.role === "super_admin"
+                        ? parseInt(companyId as string)
+                        : requestingUser.companyId;
+
+                if (!targetCompanyId) {
+                    if (process.env.NODE_ENV === "development") {
+                        console.warn("[Attendance] Admin missing companyId:", {
+                            userId: requestingUser.id,
+                            role: requestingUser.role,
+                        });
+                    }
+                    return res
+                        .status(400)
+                        .json({ message: "Company ID required" });
+                }
+
+                const requestedDate =
+                    (date as string) || (await companyToday(targetCompanyId));
+                const records = await storage.getDailyAttendance(
+                    targetCompanyId,
+                    requestedDate
+                );
+
+                if (process.env.NODE_ENV === "development") {
+                    console.log("[Attendance] Query:", {
+                        adminId: requestingUser.id,
+                        adminRole: requestingUser.role,
+                        targetCompanyId,
+                        date: requestedDate,
+                        recordsFound: records.length,
+                    });
+                }
+
+                res.json(records);
+            } catch (error) {
+                if (process.env.NODE_ENV === "development") {
+                    console.error(
+                        "[Attendance] Error fetching daily attendance:",
+                        error
+                    );
+                }
+                next(error);
             }
-
-            res.json({
-                id: user.id,
-                uniqueUserId: user.uniqueUserId,
-                email: user.email,
-                displayName: user.displayName,
-                role: user.role,
-                companyId: user.companyId,
-                photoURL: user.photoURL,
-                isActive: user.isActive,
-            });
-        } catch (error) {
-            next(error);
         }
-    });
+    );
 
-    app.post("/api/leaves", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const user = await storage.getUserById(userId);
+    // Admin: Manual attendance entry/update
+    app.post(
+        "/api/admin/attendance/manual",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const validatedBody = manualAttendanceSchema.parse(req.body);
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
 
-            if (!user || !user.companyId) {
-                return res
-                    .status(400)
-                    .json({ message: "User not associated with a company" });
-            }
+                if (
+                    !requestingUser ||
+                    (requestingUser.role !== "company_admin" &&
+                        requestingUser.role !== "super_admin")
+                ) {
+                    return res.status(403).json({
+                        message: "Only admins can add manual attendance",
+                    });
+                }
 
-            const leave = await storage.createLeave({
-                userId,
-                companyId: user.companyId,
-                startDate: req.body.startDate,
-                endDate: req.body.endDate,
-                leaveType: req.body.leaveType,
-                reason: req.body.reason,
-                status: "pending",
-            });
+                // Entries with both punches get their status from the hours policy
+                const record = await storage.createAttendanceRecord({
+                    ...validatedBody,
+                    ...(await settleAttendance(validatedBody)),
+                    remarks: `Manual entry by ${requestingUser.displayName}`,
+                });
+                await recordOvertime(record);
 
-            res.json(leave);
-        } catch (error) {
-            next(error);
-        }
-    });
+                // Log the action
+                await storage.createAttendanceLog({
+                    attendanceId: record.id,
+                    action: "manual_entry",
+                    performedBy: requestingUserId,
+                    newValue: JSON.stringify(record),
+                });
 
-    app.get("/api/leaves/me", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const leaves = await storage.getLeavesByUserId(userId);
-            res.json(leaves);
-        } catch (error) {
-            next(error);
+                res.json(record);
+            } catch (error) {
+                next(error);
+            }
         }
-    });
+    );
 
-    app.get(
-        "/api/leaves/company/:companyId",
-        requireAuth,
+    // Admin: Update attendance record
+    app.patch(
+        "/api/admin/attendance/:id",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
+                const validatedBody = updateAttendanceSchema.parse(req.body);
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
-                const companyId = parseInt(req.params.companyId);
-
-                if (!requestingUser) {
-                    return res.status(401).json({ message: "User not found" });
-                }
 
-                // Allow admins and team leaders
                 if (
-                    requestingUser.role !== "company_admin" &&
-                    requestingUser.role !== "super_admin" &&
-                    requestingUser.role !== "team_leader"
+                    !requestingUser ||
+                    (requestingUser.role !== "company_admin" &&
+                        requestingUser.role !== "super_admin")
                 ) {
-                    return res.status(403).json({ message: "Access denied" });
+                    return res
+                        .status(403)
+                        .json({ message: "Only admins can update attendance" });
                 }
 
-                // Verify company access
-                if (
-                    requestingUser.role === "company_admin" &&
-                    requestingUser.companyId !== companyId
-                ) {
-                    return res.status(403).json({
-                        message:
-                            "You can only view leave requests for your own company",
-                    });
-                }
+                const recordId = parseInt(req.params.id);
+                const oldRecord = await tenantStorageFor(
+                    requestingUser
+                ).getAttendanceById(recordId);
 
-                if (
-                    requestingUser.role === "team_leader" &&
-                    requestingUser.companyId !== companyId
-                ) {
-                    return res.status(403).json({ message: "Access denied" });
+                if (!oldRecord) {
+                    return res
+                        .status(404)
+                        .json({ message: "Attendance record not found" });
                 }
 
-                let leaves;
-                if (requestingUser.role === "team_leader") {
-                    // Team leaders can only see their team members' leaves
-                    const teamMembers = await storage.getTeamMembersByLeader(
-                        requestingUserId
-                    );
-                    const teamMemberIds = teamMembers.map((m) => m.id);
-                    leaves = await storage.getLeavesByUserIds(teamMemberIds);
-                } else {
-                    // Admins can see all company leaves
-                    leaves = await storage.getLeavesByCompanyId(companyId);
+                // Re-derive duration and status from the edited punches unless the
+                // admin set the status explicitly
+                await alignSessions({ ...oldRecord, ...validatedBody });
+                const settled = await settleAttendance({
+                    ...oldRecord,
+                    ...validatedBody,
+                });
+                const updatedRecord = await storage.updateAttendanceRecord(
+                    recordId,
+                    validatedBody.status
+                        ? {
+                              ...validatedBody,
+                              workDuration:
+                                  settled.workDuration ??
+                                  validatedBody.workDuration,
+                              grossDuration: settled.grossDuration,
+                          }
+                        : { ...validatedBody, ...settled }
+                );
+                await recordOvertime(updatedRecord);
+
+                // Log the action
+                await storage.createAttendanceLog({
+                    attendanceId: recordId,
+                    action: "admin_update",
+                    performedBy: requestingUserId,
+                    oldValue: JSON.stringify(oldRecord),
+                    newValue: JSON.stringify(updatedRecord),
+                });
+
+                res.json(updatedRecord);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    // Admin: Punch sessions and breaks of one attendance day
+    app.get(
+        "/api/admin/attendance/:id/timeline",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const record = await tenantStorageFor(
+                    req.user!
+                ).getAttendanceById(parseInt(req.params.id));
+                if (!record) {
+                    return res
+                        .status(404)
+                        .json({ message: "Attendance record not found" });
                 }
 
-                res.json(leaves);
+                const sessions = await storage.getPunchesByAttendance(
+                    record.id
+                );
+                const breaks = await storage.getBreaksByAttendance(record.id);
+                res.json({ sessions, breaks });
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    app.patch(
-        "/api/leaves/:leaveId/approve",
+    // Team Leader: Get correction requests for team members
+    app.get(
+        "/api/corrections/team/:teamLeaderId",
         requireAuth,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
+                const requestingUserId = req.user!.id;
+                const teamLeaderId = parseInt(req.params.teamLeaderId);
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
-                const leaveId = parseInt(req.params.leaveId);
-
-                if (!requestingUser) {
-                    return res.status(401).json({ message: "User not found" });
-                }
 
-                // Allow admins and team leaders
-                if (
-                    requestingUser.role !== "company_admin" &&
-                    requestingUser.role !== "super_admin" &&
-                    requestingUser.role !== "team_leader"
-                ) {
+                // Verify the requesting user is the team leader
+                if (requestingUserId !== teamLeaderId) {
                     return res.status(403).json({ message: "Access denied" });
                 }
 
-                const leave = await storage.getLeaveById(leaveId);
-                if (!leave) {
+                if (!requestingUser || !requestingUser.companyId) {
                     return res
-                        .status(404)
-                        .json({ message: "Leave request not found" });
+                        .status(401)
+                        .json({ message: "Authentication required" });
                 }
 
-                // Verify company access
-                if (requestingUser.companyId !== leave.companyId) {
-                    return res.status(403).json({
-                        message:
-                            "You can only approve leave requests for your own company",
-                    });
-                }
+                // Get team member IDs
+                const teamMembers = await storage.getTeamMembersByLeader(
+                    teamLeaderId
+                );
+                const teamMemberIds = teamMembers.map((m) => m.id);
 
-                // Team leaders can only approve their team members' leaves
-                if (requestingUser.role === "team_leader") {
-                    const teamMembers = await storage.getTeamMembersByLeader(
-                        requestingUserId
+                // Get all corrections for the company
+                const allCorrections =
+                    await storage.getPendingCorrectionRequests(
+                        requestingUser.companyId
                     );
-                    const teamMemberIds = teamMembers.map((m) => m.id);
-                    if (!teamMemberIds.includes(leave.userId)) {
-                        return res.status(403).json({
-                            message:
-                                "You can only approve leave requests for your team members",
-                        });
-                    }
-                }
 
-                await storage.updateLeaveStatus(
-                    leaveId,
+                // Filter to only team members' corrections
+                const teamCorrections = allCorrections.filter((corr) =>
+                    teamMemberIds.includes(corr.userId)
+                );
+
+                res.json(teamCorrections);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    const correctionDecisionSchema = z.object({
+        comments: z
+            .string()
+            .trim()
+            .max(500, "Comments must be 500 characters or less")
+            .optional()
+            .nullable()
+            .transform((val) => val || null),
+    });
+
+    const bulkCorrectionDecisionSchema = correctionDecisionSchema.extend({
+        ids: z
+            .array(z.number().int())
+            .min(1, "Select at least one correction request")
+            .max(200, "At most 200 correction requests can be reviewed at once"),
+        action: z.enum(["approve", "reject"]),
+    });
+
+    // Maps the outcome of a single review onto the status codes of the per-request routes
+    const sendCorrectionOutcome = (
+        res: express.Response,
+        outcome: CorrectionOutcome,
+        forbiddenMessage: string
+    ) => {
+        if (outcome.outcome !== "skipped") {
+            return res.json(outcome.request);
+        }
+        if (outcome.reason === "not_found") {
+            return res
+                .status(404)
+                .json({ message: "Correction request not found" });
+        }
+        if (outcome.reason === "forbidden") {
+            return res.status(403).json({ message: forbiddenMessage });
+        }
+        return res.status(400).json({
+            message: "This correction request has already been reviewed",
+        });
+    };
+
+    const summarizeCorrectionOutcomes = (outcomes: CorrectionOutcome[]) => ({
+        approved: outcomes.filter((o) => o.outcome === "approved").length,
+        rejected: outcomes.filter((o) => o.outcome === "rejected").length,
+        skipped: outcomes.flatMap((o) =>
+            o.outcome === "skipped" ? [{ id: o.id, reason: o.reason }] : []
+        ),
+    });
+
+    // Team Leader: Approve correction request
+    app.patch(
+        "/api/corrections/:id/approve",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const { comments } = correctionDecisionSchema.parse(req.body);
+                const [outcome] = await decideCorrections(
+                    [parseInt(req.params.id)],
                     "approved",
-                    req.body.approvedBy || requestingUserId
+                    req.user!,
+                    "team",
+                    comments
+                );
+                sendCorrectionOutcome(
+                    res,
+                    outcome,
+                    "You can only approve corrections for your team members"
                 );
-
-                // Broadcast WebSocket update for real-time notifications
-                const { broadcast } = await import("./index.js");
-                const leaveUser = await storage.getUserById(leave.userId);
-                broadcast({
-                    type: "LEAVE_STATUS_UPDATE",
-                    data: {
-                        leaveId,
-                        userId: leave.userId,
-                        userName: leaveUser?.displayName,
-                        status: "approved",
-                        approvedBy: requestingUser.displayName,
-                        companyId: leave.companyId,
-                    },
-                });
-
-                res.json({ message: "Leave approved successfully" });
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
+    // Team Leader: Reject correction request
     app.patch(
-        "/api/leaves/:leaveId/reject",
+        "/api/corrections/:id/reject",
         requireAuth,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
+                const { comments } = correctionDecisionSchema.parse(req.body);
+                const [outcome] = await decideCorrections(
+                    [parseInt(req.params.id)],
+                    "rejected",
+                    req.user!,
+                    "team",
+                    comments
+                );
+                sendCorrectionOutcome(
+                    res,
+                    outcome,
+                    "You can only reject corrections for your team members"
                 );
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
+
+    // Team Leader: Approve or reject several correction requests at once
+    app.patch("/api/corrections/bulk", requireAuth, async (req, res, next) => {
+        try {
+            const { ids, action, comments } =
+                bulkCorrectionDecisionSchema.parse(req.body);
+            const outcomes = await decideCorrections(
+                ids,
+                action === "approve" ? "approved" : "rejected",
+                req.user!,
+                "team",
+                comments
+            );
+            res.json(summarizeCorrectionOutcomes(outcomes));
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    // Admin: Get pending correction requests
+    app.get(
+        "/api/admin/attendance/corrections/pending",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
-                const leaveId = parseInt(req.params.leaveId);
-
-                if (!requestingUser) {
-                    return res.status(401).json({ message: "User not found" });
-                }
 
-                // Allow admins and team leaders
                 if (
-                    requestingUser.role !== "company_admin" &&
-                    requestingUser.role !== "super_admin" &&
-                    requestingUser.role !== "team_leader"
+                    !requestingUser ||
+                    (requestingUser.role !== "company_admin" &&
+                        requestingUser.role !== "super_admin")
                 ) {
-                    return res.status(403).json({ message: "Access denied" });
-                }
-
-                const leave = await storage.getLeaveById(leaveId);
-                if (!leave) {
-                    return res
-                        .status(404)
-                        .json({ message: "Leave request not found" });
-                }
-
-                // Verify company access
-                if (requestingUser.companyId !== leave.companyId) {
                     return res.status(403).json({
-                        message:
-                            "You can only reject leave requests for your own company",
+                        message: "Only admins can view correction requests",
                     });
                 }
 
-                // Team leaders can only reject their team members' leaves
-                if (requestingUser.role === "team_leader") {
-                    const teamMembers = await storage.getTeamMembersByLeader(
-                        requestingUserId
-                    );
-                    const teamMemberIds = teamMembers.map((m) => m.id);
-                    if (!teamMemberIds.includes(leave.userId)) {
-                        return res.status(403).json({
-                            message:
-                                "You can only reject leave requests for your team members",
-                        });
-                    }
+                const companyId =
+                    requestingUser.role === "super_admin"
+                        ? parseInt(req.query.companyId as string)
+                        : requestingUser.companyId;
+
+                if (!companyId) {
+                    return res
+                        .status(400)
+                        .json({ message: "Company ID required" });
                 }
 
-                await storage.updateLeaveStatus(
-                    leaveId,
-                    "rejected",
-                    req.body.rejectedBy || requestingUserId
+                const requests = await storage.getPendingCorrectionRequests(
+                    companyId
                 );
-
-                // Broadcast WebSocket update for real-time notifications
-                const { broadcast } = await import("./index.js");
-                const leaveUser = await storage.getUserById(leave.userId);
-                broadcast({
-                    type: "LEAVE_STATUS_UPDATE",
-                    data: {
-                        leaveId,
-                        userId: leave.userId,
-                        userName: leaveUser?.displayName,
-                        status: "rejected",
-                        rejectedBy: requestingUser.displayName,
-                        companyId: leave.companyId,
-                    },
-                });
-
-                res.json({ message: "Leave rejected successfully" });
+                res.json(requests);
             } catch (error) {
                 next(error);
             }
         }
     );
 
+    // Admin: Approve correction request
     app.patch(
-        "/api/leaves/:leaveId/status",
-        requireAuth,
+        "/api/admin/attendance/corrections/:id/approve",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
+                const { comments } = correctionDecisionSchema.parse(req.body);
+                const [outcome] = await decideCorrections(
+                    [parseInt(req.params.id)],
+                    "approved",
+                    req.user!,
+                    "company",
+                    comments
                 );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
+                sendCorrectionOutcome(
+                    res,
+                    outcome,
+                    "You can only approve corrections in your company"
                 );
-                const leaveId = parseInt(req.params.leaveId);
-
-                if (!requestingUser) {
-                    return res.status(401).json({ message: "User not found" });
-                }
-
-                if (
-                    requestingUser.role !== "company_admin" &&
-                    requestingUser.role !== "super_admin"
-                ) {
-                    return res.status(403).json({
-                        message: "Only admins can directly change leave status",
-                    });
-                }
-
-                const validatedInput = z
-                    .object({
-                        status: z.enum(["pending", "approved", "rejected"], {
-                            errorMap: () => ({
-                                message:
-                                    "Invalid status. Must be: pending, approved, or rejected",
-                            }),
-                        }),
-                    })
-                    .parse(req.body);
-
-                const leave = await storage.getLeaveById(leaveId);
-                if (!leave) {
+            } catch (error) {
+                if (error instanceof z.ZodError) {
                     return res
-                        .status(404)
-                        .json({ message: "Leave request not found" });
-                }
-
-                if (requestingUser.companyId !== leave.companyId) {
-                    return res.status(403).json({
-                        message:
-                            "You can only modify leave requests for your own company",
-                    });
+                        .status(400)
+                        .json({ message: error.errors[0].message });
                 }
+                next(error);
+            }
+        }
+    );
 
-                await storage.updateLeaveStatus(
-                    leaveId,
-                    validatedInput.status,
-                    requestingUserId
+    // Admin: Reject correction request
+    app.patch(
+        "/api/admin/attendance/corrections/:id/reject",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const { comments } = correctionDecisionSchema.parse(req.body);
+                const [outcome] = await decideCorrections(
+                    [parseInt(req.params.id)],
+                    "rejected",
+                    req.user!,
+                    "company",
+                    comments
+                );
+                sendCorrectionOutcome(
+                    res,
+                    outcome,
+                    "You can only reject corrections in your company"
                 );
-
-                const { broadcast } = await import("./index.js");
-                const leaveUser = await storage.getUserById(leave.userId);
-                broadcast({
-                    type: "LEAVE_STATUS_UPDATE",
-                    data: {
-                        leaveId,
-                        userId: leave.userId,
-                        userName: leaveUser?.displayName,
-                        status: validatedInput.status,
-                        changedBy: requestingUser.displayName,
-                        companyId: leave.companyId,
-                    },
-                });
-
-                res.json({
-                    message: `Leave status changed to ${validatedInput.status} successfully`,
-                });
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
-    app.post("/api/holidays", requireAuth, async (req, res, next) => {
-        try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
-            );
-            const requestingUser = await storage.getUserById(requestingUserId);
-
-            if (
-                !requestingUser ||
-                (requestingUser.role !== "company_admin" &&
-                    requestingUser.role !== "super_admin")
-            ) {
-                return res
-                    .status(403)
-                    .json({ message: "Only admins can create holidays" });
+    // Admin: Approve or reject several correction requests at once
+    app.patch(
+        "/api/admin/attendance/corrections/bulk",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const { ids, action, comments } =
+                    bulkCorrectionDecisionSchema.parse(req.body);
+                const outcomes = await decideCorrections(
+                    ids,
+                    action === "approve" ? "approved" : "rejected",
+                    req.user!,
+                    "company",
+                    comments
+                );
+                res.json(summarizeCorrectionOutcomes(outcomes));
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
             }
+        }
+    );
 
-            if (!requestingUser.companyId) {
-                return res
-                    .status(400)
-                    .json({ message: "User not associated with a company" });
-            }
+    const overtimeRequestSchema = z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+        plannedMinutes: z
+            .number()
+            .int()
+            .min(1, "Planned overtime must be at least a minute")
+            .max(720, "Planned overtime must be 12 hours or less"),
+        reason: z.string().trim().min(1, "Reason is required"),
+    });
 
-            const holiday = await storage.createHoliday({
-                companyId: requestingUser.companyId,
-                name: req.body.name,
-                date: req.body.date,
-                description: req.body.description,
-            });
+    const overtimeDecisionSchema = correctionDecisionSchema.extend({
+        action: z.enum(["approve", "reject"]),
+    });
 
-            res.json(holiday);
-        } catch (error) {
-            next(error);
+    const overtimeListSchema = z.object({
+        status: z.enum(["pending", "approved", "rejected"]).optional(),
+        startDate: z.string().optional(),
+        endDate: z.string().optional(),
+        companyId: z.string().optional(),
+    });
+
+    const sendOvertimeOutcome = (
+        res: express.Response,
+        outcome: OvertimeOutcome,
+        forbiddenMessage: string
+    ) => {
+        if (outcome.outcome !== "skipped") {
+            return res.json(outcome.request);
+        }
+        if (outcome.reason === "not_found") {
+            return res.status(404).json({ message: "Overtime not found" });
+        }
+        if (outcome.reason === "forbidden") {
+            return res.status(403).json({ message: forbiddenMessage });
         }
-    });
+        return res
+            .status(400)
+            .json({ message: "This overtime has already been reviewed" });
+    };
 
-    app.get(
-        "/api/holidays/company/:companyId",
+    // Employee: Ask in advance to work overtime on a day
+    app.post(
+        "/api/attendance/overtime-request",
         requireAuth,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
-                );
-                const companyId = parseInt(req.params.companyId);
-
-                if (
-                    requestingUser &&
-                    requestingUser.role === "company_admin" &&
-                    requestingUser.companyId !== companyId
-                ) {
-                    return res.status(403).json({
-                        message:
-                            "You can only view holidays for your own company",
-                    });
+                const user = req.user!;
+                if (!user.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "User or company not found" });
                 }
 
-                const holidays = await storage.getHolidaysByCompanyId(
-                    companyId
+                const { date, plannedMinutes, reason } =
+                    overtimeRequestSchema.parse(req.body);
+                const { request, error } = await requestOvertime(
+                    user,
+                    date,
+                    plannedMinutes,
+                    reason
                 );
-                res.json(holidays);
+                if (error) {
+                    return res.status(400).json({ message: error });
+                }
+                res.json(request);
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
-    app.delete(
-        "/api/holidays/:holidayId",
+    // Employee: Get my overtime
+    app.get(
+        "/api/attendance/my-overtime",
         requireAuth,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
+                const requests = await storage.getOvertimeRequestsByUser(
+                    req.user!.id
                 );
-                const holidayId = parseInt(req.params.holidayId);
-
-                if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
-                ) {
-                    return res
-                        .status(403)
-                        .json({ message: "Only admins can delete holidays" });
-                }
-
-                const holiday = await storage.getHolidayById(holidayId);
-                if (!holiday) {
-                    return res
-                        .status(404)
-                        .json({ message: "Holiday not found" });
-                }
-
-                if (
-                    requestingUser.role === "company_admin" &&
-                    requestingUser.companyId !== holiday.companyId
-                ) {
-                    return res.status(403).json({
-                        message:
-                            "You can only delete holidays for your own company",
-                    });
-                }
-
-                await storage.deleteHoliday(holidayId);
-                res.json({ message: "Holiday deleted successfully" });
+                res.json(requests);
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    app.get("/api/badges", requireAuth, async (req, res, next) => {
+    // Team Leader: Get overtime of team members
+    app.get("/api/overtime/team", requireAuth, async (req, res, next) => {
         try {
-            const badges = await storage.getAllBadges();
-            res.json(badges);
-        } catch (error) {
-            next(error);
-        }
-    });
+            const user = req.user!;
+            if (!user.companyId) {
+                return res
+                    .status(401)
+                    .json({ message: "Authentication required" });
+            }
 
-    app.post("/api/badges", requireAuth, async (req, res, next) => {
-        try {
-            const badge = await storage.createBadge(req.body);
-            res.json(badge);
+            const { status, startDate, endDate } = overtimeListSchema.parse(
+                req.query
+            );
+            const teamMemberIds = (
+                await storage.getTeamMembersByLeader(user.id)
+            ).map((m) => m.id);
+            const requests = await storage.getOvertimeRequestsByCompany(
+                user.companyId,
+                { status, startDate, endDate }
+            );
+            res.json(requests.filter((r) => teamMemberIds.includes(r.userId)));
         } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
             next(error);
         }
     });
 
-    // Company Profile Management
-    app.get("/api/my-company/profile", requireAuth, async (req, res, next) => {
+    // Team Leader: Approve or reject overtime
+    app.patch("/api/overtime/:id", requireAuth, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
+            const { action, comments } = overtimeDecisionSchema.parse(req.body);
+            const [outcome] = await decideOvertime(
+                [parseInt(req.params.id)],
+                action === "approve" ? "approved" : "rejected",
+                req.user!,
+                "team",
+                comments
             );
-            const requestingUser = await storage.getUserById(requestingUserId);
-
-            if (!requestingUser || !requestingUser.companyId) {
-                return res.status(404).json({ message: "Company not found" });
-            }
-
-            const company = await storage.getCompanyById(
-                requestingUser.companyId
+            sendOvertimeOutcome(
+                res,
+                outcome,
+                "You can only review overtime of your team members"
             );
-            if (!company) {
-                return res.status(404).json({ message: "Company not found" });
-            }
-
-            res.json(company);
         } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
             next(error);
         }
     });
 
-    app.patch(
-        "/api/my-company/profile",
-        requireAuth,
+    // Admin: Get overtime in the company
+    app.get(
+        "/api/admin/attendance/overtime",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
-                );
+                const user = req.user!;
+                const { status, startDate, endDate, companyId } =
+                    overtimeListSchema.parse(req.query);
+                const targetCompanyId =
+                    user.role === "super_admin"
+                        ? parseInt(companyId as string)
+                        : user.companyId;
 
-                if (
-                    !requestingUser ||
-                    requestingUser.role !== "company_admin"
-                ) {
-                    return res.status(403).json({
-                        message:
-                            "Only company admins can update company profile",
-                    });
+                if (!targetCompanyId) {
+                    return res
+                        .status(400)
+                        .json({ message: "Company ID required" });
                 }
 
-                if (!requestingUser.companyId) {
+                const requests = await storage.getOvertimeRequestsByCompany(
+                    targetCompanyId,
+                    { status, startDate, endDate }
+                );
+                res.json(requests);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
                     return res
-                        .status(404)
-                        .json({ message: "Company not found" });
+                        .status(400)
+                        .json({ message: error.errors[0].message });
                 }
+                next(error);
+            }
+        }
+    );
 
-                // Add audit trail
-                const updateData = {
-                    ...req.body,
-                    updatedBy:
-                        requestingUser.displayName || requestingUser.email,
-                    updatedAt: new Date(),
-                };
-
-                const updatedCompany = await storage.updateCompany(
-                    requestingUser.companyId,
-                    updateData
+    // Admin: Approve or reject overtime
+    app.patch(
+        "/api/admin/attendance/overtime/:id",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const { action, comments } = overtimeDecisionSchema.parse(
+                    req.body
+                );
+                const [outcome] = await decideOvertime(
+                    [parseInt(req.params.id)],
+                    action === "approve" ? "approved" : "rejected",
+                    req.user!,
+                    "company",
+                    comments
+                );
+                sendOvertimeOutcome(
+                    res,
+                    outcome,
+                    "You can only review overtime in your company"
                 );
-                res.json(updatedCompany);
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
-    // ==================== ATTENDANCE MANAGEMENT ====================
-
-    // Validation schemas
-    const checkInSchema = z.object({
-        gpsLocation: z.string().nullable().optional(),
-        deviceId: z.string().optional(),
-    });
-
-    const dailyAttendanceQuerySchema = z.object({
-        date: z.string().optional(),
-        companyId: z.string().optional(),
-    });
-
-    const manualAttendanceSchema = z.object({
-        userId: z.number(),
-        companyId: z.number(),
-        date: z.string(),
-        checkIn: z
-            .string()
-            .or(z.date())
-            .optional()
-            .transform((val) => {
-                if (typeof val === "string") return new Date(val);
-                return val;
-            }),
-        checkOut: z
-            .string()
-            .or(z.date())
-            .optional()
-            .nullable()
-            .transform((val) => {
-                if (val === null || val === undefined) return null;
-                if (typeof val === "string") return new Date(val);
-                return val;
-            }),
-        status: z.enum(["present", "absent", "late", "leave"]),
-        workDuration: z.number().optional().nullable(),
-        gpsLocation: z.string().nullable().optional(),
-    });
-
-    const updateAttendanceSchema = z.object({
-        checkIn: z
-            .string()
-            .or(z.date())
-            .optional()
-            .transform((val) => {
-                if (typeof val === "string") return new Date(val);
-                return val;
-            }),
-        checkOut: z
-            .string()
-            .or(z.date())
-            .optional()
-            .nullable()
-            .transform((val) => {
-                if (val === null || val === undefined) return null;
-                if (typeof val === "string") return new Date(val);
-                return val;
-            }),
-        status: z.enum(["present", "absent", "late", "leave"]).optional(),
-        workDuration: z.number().optional().nullable(),
-        remarks: z.string().optional().nullable(),
-    });
-
-    const reportsQuerySchema = z.object({
-        startDate: z.string().optional(),
-        endDate: z.string().optional(),
-        userId: z.string().optional(),
-        companyId: z.string().optional(),
-    });
-
-    const correctionRequestSchema = z.object({
-        attendanceId: z.number(),
-        requestedCheckIn: z.string().or(z.date()).optional().nullable(),
-        requestedCheckOut: z.string().or(z.date()).optional().nullable(),
-        reason: z.string().min(1, "Reason is required"),
-    });
-
-    // Employee: Check-in
-    app.post(
-        "/api/attendance/check-in",
-        requireAuth,
+    // Admin: Get attendance reports
+    app.get(
+        "/api/admin/attendance/reports",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const validatedBody = checkInSchema.parse(req.body);
-                const userId = parseInt(req.headers["x-user-id"] as string);
-                const user = await storage.getUserById(userId);
+                const validatedQuery = reportsQuerySchema.parse(req.query);
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
 
-                if (!user || !user.companyId) {
+                if (
+                    !requestingUser ||
+                    (requestingUser.role !== "company_admin" &&
+                        requestingUser.role !== "super_admin")
+                ) {
                     return res
-                        .status(404)
-                        .json({ message: "User or company not found" });
+                        .status(403)
+                        .json({ message: "Only admins can view reports" });
                 }
 
-                const today = new Date().toISOString().split("T")[0];
+                const { companyId, startDate, endDate } = validatedQuery;
+                const type = req.query.type;
+                const targetCompanyId =
+                    requestingUser.role === "super_admin"
+                        ? parseInt(companyId as string)
+                        : requestingUser.companyId;
 
-                // Check if already checked in today
-                const existingRecord = await storage.getAttendanceByUserAndDate(
-                    userId,
-                    today
-                );
-                if (existingRecord && existingRecord.checkIn) {
+                if (!targetCompanyId) {
                     return res
                         .status(400)
-                        .json({ message: "Already checked in today" });
+                        .json({ message: "Company ID required" });
                 }
 
-                // Get company policy and shift info
-                const policy = await storage.getAttendancePolicyByCompany(
-                    user.companyId
+                const report = await storage.getAttendanceReport(
+                    targetCompanyId,
+                    startDate as string,
+                    endDate as string,
+                    type as string
                 );
 
-                const checkInTime = new Date();
-                const checkInHour = checkInTime.getHours();
-                const checkInMinutes = checkInTime.getMinutes();
-                
-                // Get user's shift or use default 10:00 AM start
-                const shifts = await storage.getShiftsByCompany(user.companyId);
-                const userShift = shifts.find(s => s.isActive) || null;
-                
-                // Parse shift start time or default to 10:00 AM
-                let shiftStartHour = 10;
-                let shiftStartMinute = 0;
-                if (userShift && userShift.startTime) {
-                    const [h, m] = userShift.startTime.split(':').map(Number);
-                    shiftStartHour = h || 10;
-                    shiftStartMinute = m || 0;
-                }
-                
-                // Calculate if late based on policy's lateMarkThreshold (in minutes after shift start)
-                const lateThresholdMinutes = policy?.lateMarkThreshold || 3;
-                const shiftStartTotalMinutes = shiftStartHour * 60 + shiftStartMinute;
-                const currentTotalMinutes = checkInHour * 60 + checkInMinutes;
-                
-                // Check if check-in is early (before shift start)
-                const isEarly = currentTotalMinutes < shiftStartTotalMinutes;
-                // Check if late (after shift start + threshold)
-                const isLate = currentTotalMinutes > (shiftStartTotalMinutes + lateThresholdMinutes);
-                
-                let status: "late" | "present" = isLate ? "late" : "present";
-
-                const checkInData = {
-                    userId,
-                    companyId: user.companyId,
-                    shiftId: userShift?.id || null,
-                    date: today,
-                    checkIn: checkInTime,
-                    status,
-                    gpsLocation: validatedBody.gpsLocation || null,
-                    ipAddress: req.ip || null,
-                    deviceId: validatedBody.deviceId || null,
-                };
+                res.json(report);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
 
-                const record = existingRecord
-                    ? await storage.updateAttendanceRecord(
-                          existingRecord.id,
-                          checkInData
-                      )
-                    : await storage.createAttendanceRecord(checkInData);
+    const payrollExportSchema = z.object({
+        month: z.coerce.number().int().min(1).max(12),
+        year: z.coerce.number().int().min(2000).max(2100),
+        format: z.enum(["csv", "xlsx"]).default("csv"),
+        preset: z
+            .enum(["standard", "zoho_payroll", "greythr", "custom"])
+            .default("standard"),
+        companyId: z.string().optional(),
+    });
 
-                // Update attendance streak
-                try {
-                    const existingStreak = await storage.getAttendanceStreakByUser(userId);
-                    const yesterday = new Date();
-                    yesterday.setDate(yesterday.getDate() - 1);
-                    const yesterdayStr = yesterday.toISOString().split("T")[0];
-                    
-                    let currentStreak = existingStreak?.currentStreak || 0;
-                    let longestStreak = existingStreak?.longestStreak || 0;
-                    let earlyBirdCount = existingStreak?.earlyBirdCount || 0;
-                    let onTimeCount = existingStreak?.onTimeCount || 0;
-                    let lateCount = existingStreak?.lateCount || 0;
-                    
-                    // Check if yesterday was present to continue streak
-                    if (existingStreak?.lastPresentDate === yesterdayStr) {
-                        currentStreak += 1;
-                    } else if (existingStreak?.lastPresentDate !== today) {
-                        // Reset streak if not consecutive
-                        currentStreak = 1;
-                    }
-                    
-                    if (currentStreak > longestStreak) {
-                        longestStreak = currentStreak;
-                    }
-                    
-                    // Update counts based on status
-                    if (isEarly) {
-                        earlyBirdCount += 1;
-                        onTimeCount += 1;
-                    } else if (!isLate) {
-                        onTimeCount += 1;
-                    } else {
-                        lateCount += 1;
-                    }
-                    
-                    await storage.createOrUpdateAttendanceStreak({
-                        userId,
-                        companyId: user.companyId,
-                        currentStreak,
-                        longestStreak,
-                        lastPresentDate: today,
-                        earlyBirdCount,
-                        onTimeCount,
-                        lateCount,
-                        absentCount: existingStreak?.absentCount || 0,
-                        totalWorkingDays: (existingStreak?.totalWorkingDays || 0) + 1,
-                    });
-                    
-                    // Award badges based on achievements
-                    const currentMonth = today.substring(0, 7);
-                    
-                    // Early Bird badge for 5+ early check-ins
-                    if (earlyBirdCount === 5 || earlyBirdCount === 10 || earlyBirdCount === 20) {
-                        await storage.createAttendanceBadge({
-                            userId,
-                            companyId: user.companyId,
-                            badgeType: "early_bird",
-                            badgeName: `Early Bird ${earlyBirdCount}`,
-                            description: `Checked in early ${earlyBirdCount} times`,
-                            earnedDate: today,
-                            month: currentMonth,
-                            streakCount: earlyBirdCount,
-                            isActive: true,
-                        });
-                    }
-                    
-                    // Perfect Streak badges
-                    if (currentStreak === 5 || currentStreak === 10 || currentStreak === 20 || currentStreak === 30) {
-                        await storage.createAttendanceBadge({
-                            userId,
-                            companyId: user.companyId,
-                            badgeType: "streak",
-                            badgeName: `${currentStreak} Day Streak`,
-                            description: `Maintained ${currentStreak} consecutive days of attendance`,
-                            earnedDate: today,
-                            month: currentMonth,
-                            streakCount: currentStreak,
-                            isActive: true,
-                        });
-                    }
-                } catch (streakError) {
-                    console.error("Error updating streak:", streakError);
-                }
+    // Admin: Column layouts available for the payroll export
+    app.get(
+        "/api/admin/attendance/payroll-export/layouts",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const user = req.user!;
+                const policy = user.companyId
+                    ? await storage.getAttendancePolicyByCompany(user.companyId)
+                    : null;
 
-                res.json(record);
+                res.json({
+                    presets: Object.entries(PAYROLL_PRESETS).map(
+                        ([id, preset]) => ({ id, ...preset })
+                    ),
+                    custom: policy?.payrollColumns ?? {},
+                });
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Employee: Check-out
-    app.post(
-        "/api/attendance/check-out",
-        requireAuth,
+    // Admin: Monthly payroll export, one row per employee
+    app.get(
+        "/api/admin/attendance/payroll-export",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const userId = parseInt(req.headers["x-user-id"] as string);
-                const today = new Date().toISOString().split("T")[0];
+                const user = req.user!;
+                const { month, year, format, preset, companyId } =
+                    payrollExportSchema.parse(req.query);
+                const targetCompanyId =
+                    user.role === "super_admin"
+                        ? parseInt(companyId as string)
+                        : user.companyId;
 
-                const record = await storage.getAttendanceByUserAndDate(
-                    userId,
-                    today
+                if (!targetCompanyId) {
+                    return res
+                        .status(400)
+                        .json({ message: "Company ID required" });
+                }
+
+                const policy = await storage.getAttendancePolicyByCompany(
+                    targetCompanyId
                 );
-                if (!record) {
-                    return res.status(404).json({
-                        message: "No check-in record found for today",
+                const { rows, leaveTypeCodes } = await buildPayrollRows(
+                    targetCompanyId,
+                    month,
+                    year
+                );
+                const columns = payrollColumns(
+                    preset,
+                    policy?.payrollColumns ?? {},
+                    leaveTypeCodes
+                );
+                if (columns.length === 0) {
+                    return res.status(400).json({
+                        message:
+                            "The custom payroll layout has no columns. Set it up in the attendance policy.",
                     });
                 }
 
-                if (record.checkOut) {
-                    return res
-                        .status(400)
-                        .json({ message: "Already checked out today" });
+                const table = payrollTable(columns, rows);
+                const fileName = `payroll-${year}-${String(month).padStart(
+                    2,
+                    "0"
+                )}`;
+                if (format === "xlsx") {
+                    res.setHeader(
+                        "Content-Type",
+                        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    );
+                    res.setHeader(
+                        "Content-Disposition",
+                        `attachment; filename="${fileName}.xlsx"`
+                    );
+                    return res.send(await payrollWorkbook(table, fileName));
                 }
 
-                const checkOut = new Date();
-                const checkIn = new Date(record.checkIn!);
-                const workDuration = Math.floor(
-                    (checkOut.getTime() - checkIn.getTime()) / 1000 / 60
-                ); // in minutes
-
-                const updatedRecord = await storage.updateAttendanceRecord(
-                    record.id,
-                    {
-                        checkOut,
-                        workDuration,
-                    }
+                res.setHeader("Content-Type", "text/csv; charset=utf-8");
+                res.setHeader(
+                    "Content-Disposition",
+                    `attachment; filename="${fileName}.csv"`
                 );
-
-                res.json(updatedRecord);
+                res.send(toCsv(table));
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
-    // Employee: Get today's attendance
-    app.get("/api/attendance/today", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const today = new Date().toISOString().split("T")[0];
-
-            const record = await storage.getAttendanceByUserAndDate(
-                userId,
-                today
-            );
-            res.json(record || null);
-        } catch (error) {
-            next(error);
-        }
+    const optionalRule = (rule: z.ZodNumber) =>
+        z.preprocess(
+            (value) => (value === "" ? null : value),
+            rule.nullable().optional()
+        );
+    const latePenaltyPreviewSchema = z.object({
+        month: z.coerce.number().int().min(1).max(12),
+        year: z.coerce.number().int().min(2000).max(2100),
+        // An empty value previews the rule switched off
+        lateMarksPerDeduction: optionalRule(
+            z.coerce.number().int().min(1).max(31)
+        ),
+        lateMarkDeductionDays: z.coerce.number().min(0.25).max(5).optional(),
+        severeLateMinutes: optionalRule(
+            z.coerce.number().int().min(1).max(720)
+        ),
     });
 
-    // Employee: Get attendance history
-    app.get("/api/attendance/history", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const { startDate, endDate } = req.query;
-
-            // Default to current month if not provided
-            const now = new Date();
-            const defaultStartDate = new Date(
-                now.getFullYear(),
-                now.getMonth(),
-                1
-            )
-                .toISOString()
-                .split("T")[0];
-            const defaultEndDate = new Date(
-                now.getFullYear(),
-                now.getMonth() + 1,
-                0
-            )
-                .toISOString()
-                .split("T")[0];
-
-            const records = await storage.getAttendanceHistory(
-                userId,
-                (startDate as string) || defaultStartDate,
-                (endDate as string) || defaultEndDate
-            );
+    // Admin: Late penalties per employee for a month. Rules passed in the query
+    // replace the saved ones, to preview a change before saving it.
+    app.get(
+        "/api/admin/attendance/late-penalties",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const user = req.user!;
+                if (!user.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
+                }
 
-            res.json(records);
-        } catch (error) {
-            next(error);
+                const { month, year, ...overrides } =
+                    latePenaltyPreviewSchema.parse(req.query);
+                const result = await evaluateLatePenalties(
+                    user.companyId,
+                    month,
+                    year,
+                    Object.fromEntries(
+                        Object.entries(overrides).filter(
+                            ([, value]) => value !== undefined
+                        )
+                    )
+                );
+                res.json(result);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
         }
-    });
+    );
 
-    // Employee: Get monthly attendance summary
+    // Admin: Get user attendance history
     app.get(
-        "/api/attendance/monthly-summary",
-        requireAuth,
+        "/api/admin/attendance/history/:userId",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const userId = parseInt(req.headers["x-user-id"] as string);
+                const requestingUserId = req.user!.id;
+                const requestingUser = await storage.getUserById(
+                    requestingUserId
+                );
+                const targetUserId = parseInt(req.params.userId);
                 const { month, year } = req.query;
 
-                // Default to current month/year if not provided
-                const now = new Date();
+                if (
+                    !requestingUser ||
+                    (requestingUser.role !== "company_admin" &&
+                        requestingUser.role !== "super_admin")
+                ) {
+                    return res.status(403).json({
+                        message: "Only admins can view user attendance history",
+                    });
+                }
+
+                // Get target user to verify company access
+                const targetUser = await storage.getUserById(targetUserId);
+                if (!targetUser) {
+                    return res.status(404).json({ message: "User not found" });
+                }
+
+                // Ensure admin can only view users from their company (unless super admin)
+                if (
+                    requestingUser.role === "company_admin" &&
+                    targetUser.companyId !== requestingUser.companyId
+                ) {
+                    return res.status(403).json({
+                        message:
+                            "You can only view attendance for users in your company",
+                    });
+                }
+
+                // Default to current month (in the user's company timezone) if not provided
+                const [currentYear, currentMonth] = (
+                    await companyToday(targetUser.companyId)
+                )
+                    .split("-")
+                    .map(Number);
                 const targetMonth = month
                     ? parseInt(month as string)
-                    : now.getMonth() + 1;
+                    : currentMonth;
                 const targetYear = year
                     ? parseInt(year as string)
-                    : now.getFullYear();
+                    : currentYear;
+
+                const startDate = `${targetYear}-${targetMonth
+                    .toString()
+                    .padStart(2, "0")}-01`;
+                const lastDay = new Date(targetYear, targetMonth, 0).getDate();
+                const endDate = `${targetYear}-${targetMonth
+                    .toString()
+                    .padStart(2, "0")}-${lastDay.toString().padStart(2, "0")}`;
 
+                const records = await tenantStorageFor(
+                    requestingUser
+                ).getAttendanceHistory(
+                    targetUserId,
+                    startDate,
+                    endDate
+                );
                 const summary = await storage.getMonthlyAttendanceSummary(
-                    userId,
+                    targetUserId,
                     targetMonth,
                     targetYear
                 );
+                const latePenalty = targetUser.companyId
+                    ? await userLatePenalty(
+                          targetUserId,
+                          targetUser.companyId,
+                          targetMonth,
+                          targetYear
+                      )
+                    : null;
 
-                res.json(summary);
-            } catch (error) {
-                next(error);
-            }
-        }
-    );
-
-    // Employee: Get attendance badges
-    app.get("/api/attendance/badges", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const badges = await storage.getAttendanceBadgesByUser(userId);
-            res.json(badges);
-        } catch (error) {
-            next(error);
-        }
-    });
-
-    // Employee: Get attendance streak
-    app.get("/api/attendance/streak", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const streak = await storage.getAttendanceStreakByUser(userId);
-            res.json(streak || {
-                currentStreak: 0,
-                longestStreak: 0,
-                earlyBirdCount: 0,
-                onTimeCount: 0,
-                lateCount: 0,
-                absentCount: 0,
-                totalWorkingDays: 0,
-            });
-        } catch (error) {
-            next(error);
+                res.json({
+                    records,
+                    summary: { ...summary, latePenalty },
+                    user: {
+                        id: targetUser.id,
+                        displayName: targetUser.displayName,
+                        email: targetUser.email,
+                    },
+                });
+            } catch (error) {
+                next(error);
+            }
         }
-    });
+    );
 
-    // Employee: Get attendance policy (for showing rules to user)
-    app.get("/api/attendance/policy", requireAuth, async (req, res, next) => {
+    // Shifts Management
+    app.post("/api/admin/shifts", requireAdmin, async (req, res, next) => {
         try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const user = await storage.getUserById(userId);
-            if (!user || !user.companyId) {
-                return res.status(404).json({ message: "User or company not found" });
+            const requestingUserId = req.user!.id;
+            const requestingUser = await storage.getUserById(requestingUserId);
+
+            if (
+                !requestingUser ||
+                (requestingUser.role !== "company_admin" &&
+                    requestingUser.role !== "super_admin")
+            ) {
+                return res
+                    .status(403)
+                    .json({ message: "Only admins can create shifts" });
             }
-            
-            const policy = await storage.getAttendancePolicyByCompany(user.companyId);
-            const shifts = await storage.getShiftsByCompany(user.companyId);
-            const activeShift = shifts.find(s => s.isActive);
-            
-            res.json({
-                policy: policy || {
-                    halfDayHours: 4,
-                    fullDayHours: 8,
-                    lateMarkThreshold: 3,
-                    autoAbsentHours: 2,
-                    allowSelfCheckIn: true,
-                    requireGPS: false,
-                    requireDeviceBinding: false,
-                },
-                shift: activeShift || null,
+
+            const shift = await storage.createShift({
+                ...req.body,
+                companyId: requestingUser.companyId!,
             });
+
+            res.json(shift);
         } catch (error) {
             next(error);
         }
     });
 
-    // Admin: Get all company badges
-    app.get("/api/admin/attendance/badges", requireAuth, async (req, res, next) => {
-        try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const user = await storage.getUserById(userId);
-            if (!user || !user.companyId) {
-                return res.status(404).json({ message: "User or company not found" });
-            }
-            if (user.role !== "company_admin") {
-                return res.status(403).json({ message: "Admin access required" });
+    app.get(
+        "/api/shifts/company/:companyId",
+        requireAuth,
+        async (req, res, next) => {
+            try {
+                const companyId = parseInt(req.params.companyId);
+                const shifts = await storage.getShiftsByCompany(companyId);
+                res.json(shifts);
+            } catch (error) {
+                next(error);
             }
-            
-            const badges = await storage.getAttendanceBadgesByCompany(user.companyId);
-            res.json(badges);
-        } catch (error) {
-            next(error);
         }
-    });
+    );
 
-    // Admin: Get all company streaks with user names
-    app.get("/api/admin/attendance/streaks", requireAuth, async (req, res, next) => {
+    app.get("/api/admin/shifts", requireAdmin, async (req, res, next) => {
         try {
-            const userId = parseInt(req.headers["x-user-id"] as string);
-            const user = await storage.getUserById(userId);
-            if (!user || !user.companyId) {
-                return res.status(404).json({ message: "User or company not found" });
-            }
-            if (user.role !== "company_admin") {
-                return res.status(403).json({ message: "Admin access required" });
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
             }
-            
-            const streaks = await storage.getAttendanceStreaksByCompany(user.companyId);
-            
-            // Enrich streaks with user names
-            const enrichedStreaks = await Promise.all(
-                streaks.map(async (streak) => {
-                    const streakUser = await storage.getUserById(streak.userId);
-                    return {
-                        ...streak,
-                        fullName: streakUser?.fullName || streakUser?.displayName || streakUser?.email || `User ${streak.userId}`,
-                    };
-                })
+
+            const companyShifts = await storage.getShiftsByCompany(
+                requestingUser.companyId
             );
-            
-            res.json(enrichedStreaks);
+            res.json(companyShifts);
         } catch (error) {
             next(error);
         }
     });
 
-    // Employee: Mark as leave
-    app.post(
-        "/api/attendance/mark-leave",
-        requireAuth,
+    // Shift assignments (per user or per team, optionally rotating weekly)
+    app.get(
+        "/api/admin/shift-assignments",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const userId = parseInt(req.headers["x-user-id"] as string);
-                const user = await storage.getUserById(userId);
-
-                if (!user || !user.companyId) {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
                     return res
                         .status(404)
-                        .json({ message: "User or company not found" });
+                        .json({ message: "Company not found" });
                 }
 
-                const markLeaveSchema = z.object({
-                    reason: z
-                        .string()
-                        .min(10, "Reason must be at least 10 characters"),
-                    date: z.string().optional(),
-                });
-
-                const validatedBody = markLeaveSchema.parse(req.body);
-                const targetDate =
-                    validatedBody.date ||
-                    new Date().toISOString().split("T")[0];
-
-                // Check if already has attendance record for this date
-                const existingRecord = await storage.getAttendanceByUserAndDate(
-                    userId,
-                    targetDate
+                const assignments = await storage.getShiftAssignmentsByCompany(
+                    requestingUser.companyId
                 );
-                if (existingRecord && existingRecord.checkIn) {
-                    return res.status(400).json({
-                        message:
-                            "Already checked in for this date. Cannot mark as leave.",
-                    });
-                }
-
-                const leaveData = {
-                    userId,
-                    companyId: user.companyId,
-                    date: targetDate,
-                    status: "leave" as const,
-                    remarks: validatedBody.reason,
-                };
-
-                const record = existingRecord
-                    ? await storage.updateAttendanceRecord(
-                          existingRecord.id,
-                          leaveData
-                      )
-                    : await storage.createAttendanceRecord(leaveData);
-
-                res.json(record);
+                res.json(assignments);
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Employee: Request correction
     app.post(
-        "/api/attendance/correction-request",
-        requireAuth,
+        "/api/admin/shift-assignments",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const userId = parseInt(req.headers["x-user-id"] as string);
-                const user = await storage.getUserById(userId);
-
-                if (!user || !user.companyId) {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
                     return res
                         .status(404)
-                        .json({ message: "User or company not found" });
+                        .json({ message: "Company not found" });
                 }
 
-                const correctionSchema = insertCorrectionRequestSchema
-                    .omit({
-                        userId: true,
-                        companyId: true,
-                        status: true,
-                        reviewedBy: true,
-                        reviewComments: true,
-                        requestedCheckIn: true,
-                        requestedCheckOut: true,
-                    })
-                    .extend({
-                        attendanceId: z.number().optional().nullable(),
-                        requestedCheckIn: z
-                            .string()
-                            .or(z.date())
-                            .optional()
-                            .nullable()
-                            .transform((val) => {
-                                if (typeof val === "string" && val)
-                                    return new Date(val);
-                                if (val instanceof Date) return val;
-                                return null;
-                            }),
-                        requestedCheckOut: z
-                            .string()
-                            .or(z.date())
-                            .optional()
-                            .nullable()
-                            .transform((val) => {
-                                if (typeof val === "string" && val)
-                                    return new Date(val);
-                                if (val instanceof Date) return val;
-                                return null;
-                            }),
-                    });
-
-                const validatedBody = correctionSchema.parse(req.body);
-
-                const correctionData = {
-                    userId,
-                    companyId: user.companyId,
-                    ...validatedBody,
-                };
-
-                const request = await storage.createCorrectionRequest(
-                    correctionData
+                const validatedData = insertShiftAssignmentSchema.parse({
+                    ...req.body,
+                    companyId: requestingUser.companyId,
+                    createdBy: requestingUser.id,
+                });
+                const invalid = await validateShiftAssignment(
+                    requestingUser.companyId,
+                    validatedData
                 );
-                res.json(request);
-            } catch (error) {
-                next(error);
-            }
-        }
-    );
+                if (invalid) {
+                    return res.status(400).json({ message: invalid });
+                }
 
-    // Employee: Get my correction requests
-    app.get(
-        "/api/attendance/my-corrections",
-        requireAuth,
-        async (req, res, next) => {
-            try {
-                const userId = parseInt(req.headers["x-user-id"] as string);
-                const requests = await storage.getCorrectionRequestsByUser(
-                    userId
+                const assignment = await storage.createShiftAssignment(
+                    validatedData
                 );
-                res.json(requests);
-            } catch (error) {
-                next(error);
-            }
-        }
-    );
-
-    // Employee: Get my rewards
-    app.get(
-        "/api/attendance/my-rewards",
-        requireAuth,
-        async (req, res, next) => {
-            try {
-                const userId = parseInt(req.headers["x-user-id"] as string);
-                const rewards = await storage.getRewardsByUser(userId);
-                res.json(rewards);
+                res.json(assignment);
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
-    // Admin: Get daily attendance monitor
-    app.get(
-        "/api/admin/attendance/daily",
+    app.patch(
+        "/api/admin/shift-assignments/:id",
         requireAdmin,
         async (req, res, next) => {
             try {
-                const validatedQuery = dailyAttendanceQuerySchema.parse(
-                    req.query
-                );
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
+                const requestingUser = req.user!;
+                const assignment = await storage.getShiftAssignmentById(
+                    parseInt(req.params.id)
                 );
-
                 if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
+                    !assignment ||
+                    assignment.companyId !== requestingUser.companyId
                 ) {
-                    return res.status(403).json({
-                        message: "Only admins can view attendance monitor",
-                    });
-                }
-
-                const { date, companyId } = validatedQuery;
-                const targetCompanyId =
-                    requestingUser.role === "super_admin"
-                        ? parseInt(companyId as string)
-                        : requestingUser.companyId;
-
-                if (!targetCompanyId) {
-                    if (process.env.NODE_ENV === "development") {
-                        console.warn("[Attendance] Admin missing companyId:", {
-                            userId: requestingUser.id,
-                            role: requestingUser.role,
-                        });
-                    }
                     return res
-                        .status(400)
-                        .json({ message: "Company ID required" });
+                        .status(404)
+                        .json({ message: "Shift assignment not found" });
                 }
 
-                const requestedDate =
-                    (date as string) || new Date().toISOString().split("T")[0];
-                const records = await storage.getDailyAttendance(
-                    targetCompanyId,
-                    requestedDate
-                );
-
-                if (process.env.NODE_ENV === "development") {
-                    console.log("[Attendance] Query:", {
-                        adminId: requestingUser.id,
-                        adminRole: requestingUser.role,
-                        targetCompanyId,
-                        date: requestedDate,
-                        recordsFound: records.length,
-                    });
+                const updates = insertShiftAssignmentSchema
+                    .omit({ companyId: true, createdBy: true })
+                    .partial()
+                    .parse(req.body);
+                const invalid = await validateShiftAssignment(
+                    assignment.companyId,
+                    { ...assignment, ...updates }
+                );
+                if (invalid) {
+                    return res.status(400).json({ message: invalid });
                 }
 
-                res.json(records);
+                const updated = await storage.updateShiftAssignment(
+                    assignment.id,
+                    updates
+                );
+                res.json(updated);
             } catch (error) {
-                if (process.env.NODE_ENV === "development") {
-                    console.error(
-                        "[Attendance] Error fetching daily attendance:",
-                        error
-                    );
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
                 }
                 next(error);
             }
         }
     );
 
-    // Admin: Manual attendance entry/update
-    app.post(
-        "/api/admin/attendance/manual",
+    app.delete(
+        "/api/admin/shift-assignments/:id",
         requireAdmin,
         async (req, res, next) => {
             try {
-                const validatedBody = manualAttendanceSchema.parse(req.body);
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
+                const requestingUser = req.user!;
+                const assignment = await storage.getShiftAssignmentById(
+                    parseInt(req.params.id)
                 );
-
                 if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
+                    !assignment ||
+                    assignment.companyId !== requestingUser.companyId
                 ) {
-                    return res.status(403).json({
-                        message: "Only admins can add manual attendance",
-                    });
+                    return res
+                        .status(404)
+                        .json({ message: "Shift assignment not found" });
                 }
 
-                const record = await storage.createAttendanceRecord({
-                    ...validatedBody,
-                    remarks: `Manual entry by ${requestingUser.displayName}`,
-                });
-
-                // Log the action
-                await storage.createAttendanceLog({
-                    attendanceId: record.id,
-                    action: "manual_entry",
-                    performedBy: requestingUserId,
-                    newValue: JSON.stringify(record),
-                });
-
-                res.json(record);
+                await storage.deleteShiftAssignment(assignment.id);
+                res.json({ message: "Shift assignment deleted" });
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Admin: Update attendance record
-    app.patch(
-        "/api/admin/attendance/:id",
+    // Roster: the resolved shift of every active company user for each day in a range
+    const rosterQuerySchema = z.object({
+        start: z
+            .string()
+            .regex(/^\d{4}-\d{2}-\d{2}$/, "Start must be a YYYY-MM-DD date"),
+        days: z.coerce.number().int().min(1).max(31).default(7),
+    });
+
+    app.get("/api/admin/shift-roster", requireAdmin, async (req, res, next) => {
+        try {
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
+
+            const { start, days } = rosterQuerySchema.parse(req.query);
+            const companyId = requestingUser.companyId;
+            const [companyUsers, companyShifts, assignments, teams] =
+                await Promise.all([
+                    storage.getUsersByCompanyId(companyId),
+                    storage.getShiftsByCompany(companyId),
+                    storage.getShiftAssignmentsByCompany(companyId),
+                    storage.getAllTeamAssignments(companyId),
+                ]);
+
+            const activeShiftIds = new Set(
+                companyShifts.filter((s) => s.isActive).map((s) => s.id)
+            );
+            const defaultShiftId =
+                companyShifts.find((s) => s.isActive)?.id ?? null;
+            const leaderByMember = new Map(
+                teams.map((t) => [t.memberId, t.teamLeaderId])
+            );
+            const dates = Array.from({ length: days }, (_, i) =>
+                addDays(start, i)
+            );
+
+            const roster: ShiftRosterEntry[] = companyUsers
+                .filter((u) => u.isActive && u.role !== "super_admin")
+                .map((u) => {
+                    const teamLeaderId =
+                        u.role === "team_leader"
+                            ? u.id
+                            : leaderByMember.get(u.id) ?? null;
+                    return {
+                        userId: u.id,
+                        userName: u.displayName,
+                        teamLeaderId,
+                        days: dates.map((date) => {
+                            const assignment = findAssignmentForDate(
+                                assignments,
+                                u.id,
+                                teamLeaderId,
+                                date
+                            );
+                            const shiftId = assignment
+                                ? shiftIdForDate(assignment, date)
+                                : null;
+                            return shiftId && activeShiftIds.has(shiftId)
+                                ? { date, shiftId, assignmentId: assignment!.id }
+                                : { date, shiftId: defaultShiftId, assignmentId: null };
+                        }),
+                    };
+                });
+
+            res.json({ dates, shifts: companyShifts, roster });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
+    // Attendance Policy Management
+    app.get(
+        "/api/admin/attendance-policy",
         requireAdmin,
         async (req, res, next) => {
             try {
-                const validatedBody = updateAttendanceSchema.parse(req.body);
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
 
-                if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
-                ) {
-                    return res
-                        .status(403)
-                        .json({ message: "Only admins can update attendance" });
-                }
-
-                const recordId = parseInt(req.params.id);
-                const oldRecord = await storage.getAttendanceById(recordId);
-
-                if (!oldRecord) {
+                if (!requestingUser || !requestingUser.companyId) {
                     return res
                         .status(404)
-                        .json({ message: "Attendance record not found" });
+                        .json({ message: "Company not found" });
                 }
 
-                const updatedRecord = await storage.updateAttendanceRecord(
-                    recordId,
-                    validatedBody
+                const policy = await storage.getAttendancePolicyByCompany(
+                    requestingUser.companyId
                 );
-
-                // Log the action
-                await storage.createAttendanceLog({
-                    attendanceId: recordId,
-                    action: "admin_update",
-                    performedBy: requestingUserId,
-                    oldValue: JSON.stringify(oldRecord),
-                    newValue: JSON.stringify(updatedRecord),
-                });
-
-                res.json(updatedRecord);
+                res.json(policy || null);
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Team Leader: Get correction requests for team members
-    app.get(
-        "/api/corrections/team/:teamLeaderId",
-        requireAuth,
+    app.post(
+        "/api/admin/attendance-policy",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const teamLeaderId = parseInt(req.params.teamLeaderId);
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
 
-                // Verify the requesting user is the team leader
-                if (requestingUserId !== teamLeaderId) {
-                    return res.status(403).json({ message: "Access denied" });
-                }
-
-                if (!requestingUser || !requestingUser.companyId) {
+                if (
+                    !requestingUser ||
+                    (requestingUser.role !== "company_admin" &&
+                        requestingUser.role !== "super_admin")
+                ) {
                     return res
-                        .status(401)
-                        .json({ message: "Authentication required" });
+                        .status(403)
+                        .json({ message: "Only admins can manage policies" });
                 }
 
-                // Get team member IDs
-                const teamMembers = await storage.getTeamMembersByLeader(
-                    teamLeaderId
-                );
-                const teamMemberIds = teamMembers.map((m) => m.id);
-
-                // Get all corrections for the company
-                const allCorrections =
-                    await storage.getPendingCorrectionRequests(
-                        requestingUser.companyId
+                const validatedPolicy = insertAttendancePolicySchema.parse({
+                    ...req.body,
+                    companyId: requestingUser.companyId!,
+                });
+                // Requiring GPS without an office location would block every punch
+                if (validatedPolicy.requireGPS) {
+                    const geofences = await storage.getGeofencesByCompany(
+                        validatedPolicy.companyId
                     );
+                    if (!geofences.some((geofence) => geofence.isActive)) {
+                        return res.status(400).json({
+                            message:
+                                "Add an active office location before requiring GPS",
+                        });
+                    }
+                }
 
-                // Filter to only team members' corrections
-                const teamCorrections = allCorrections.filter((corr) =>
-                    teamMemberIds.includes(corr.userId)
+                const policy = await storage.createOrUpdateAttendancePolicy(
+                    validatedPolicy
                 );
 
-                res.json(teamCorrections);
+                res.json(policy);
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
-    // Team Leader: Approve correction request
+    // Leave types (quotas, accrual and carry-forward behind leave balances). Types are
+    // deactivated rather than deleted since balances and past leaves refer to them.
+    app.get("/api/admin/leave-types", requireAdmin, async (req, res, next) => {
+        try {
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
+
+            res.json(
+                await storage.getLeaveTypesByCompany(requestingUser.companyId)
+            );
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.post("/api/admin/leave-types", requireAdmin, async (req, res, next) => {
+        try {
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
+
+            const validatedData = insertLeaveTypeSchema.parse({
+                ...req.body,
+                companyId: requestingUser.companyId,
+            });
+            if (
+                await storage.getLeaveTypeByCode(
+                    requestingUser.companyId,
+                    validatedData.code
+                )
+            ) {
+                return res.status(400).json({
+                    message: "A leave type with this code already exists",
+                });
+            }
+
+            const leaveType = await storage.createLeaveType(validatedData);
+            res.json(leaveType);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
     app.patch(
-        "/api/corrections/:id/approve",
-        requireAuth,
+        "/api/admin/leave-types/:id",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
+                const requestingUser = req.user!;
+                const leaveType = await storage.getLeaveTypeById(
+                    parseInt(req.params.id)
                 );
-
-                if (!requestingUser) {
-                    return res
-                        .status(401)
-                        .json({ message: "Authentication required" });
-                }
-
-                const requestId = parseInt(req.params.id);
-                const correctionRequest =
-                    await storage.getCorrectionRequestById(requestId);
-
-                if (!correctionRequest) {
+                if (
+                    !leaveType ||
+                    leaveType.companyId !== requestingUser.companyId
+                ) {
                     return res
                         .status(404)
-                        .json({ message: "Correction request not found" });
+                        .json({ message: "Leave type not found" });
                 }
 
-                // Verify the user making the correction is from the team
-                const teamMembers = await storage.getTeamMembersByLeader(
-                    requestingUserId
+                // The code links existing leave requests to the type, so it can't change
+                const updates = insertLeaveTypeSchema
+                    .omit({ companyId: true, code: true })
+                    .partial()
+                    .parse(req.body);
+                const updated = await storage.updateLeaveType(
+                    leaveType.id,
+                    updates
                 );
-                const teamMemberIds = teamMembers.map((m) => m.id);
+                res.json(updated);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
+                next(error);
+            }
+        }
+    );
 
-                if (!teamMemberIds.includes(correctionRequest.userId)) {
-                    return res.status(403).json({
-                        message:
-                            "You can only approve corrections for your team members",
-                    });
+    // Leave approval chain: who approves in which order, when long leaves also need an
+    // admin, and how long a step may wait before it escalates
+    app.get(
+        "/api/admin/leave-approval-policy",
+        requireAdmin,
+        async (req, res, next) => {
+            try {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
                 }
 
-                // Update correction request status
-                const updatedRequest = await storage.updateCorrectionRequest(
-                    requestId,
-                    {
-                        status: "approved",
-                        reviewedBy: requestingUserId,
-                        reviewComments: req.body.comments,
-                    }
+                const policy = await storage.getLeaveApprovalPolicy(
+                    requestingUser.companyId
                 );
-
-                // Apply the correction to attendance record
-                if (correctionRequest.attendanceId) {
-                    const attendanceUpdate: any = {};
-                    if (correctionRequest.requestedCheckIn) {
-                        attendanceUpdate.checkIn =
-                            correctionRequest.requestedCheckIn;
-                    }
-                    if (correctionRequest.requestedCheckOut) {
-                        attendanceUpdate.checkOut =
-                            correctionRequest.requestedCheckOut;
-                    }
-
-                    if (attendanceUpdate.checkIn || attendanceUpdate.checkOut) {
-                        await storage.updateAttendanceRecord(
-                            correctionRequest.attendanceId,
-                            attendanceUpdate
-                        );
-
-                        // Log the correction
-                        await storage.createAttendanceLog({
-                            attendanceId: correctionRequest.attendanceId,
-                            action: "correction_applied",
-                            performedBy: requestingUserId,
-                            newValue: JSON.stringify(correctionRequest),
-                        });
+                res.json(
+                    policy || {
+                        companyId: requestingUser.companyId,
+                        steps: DEFAULT_APPROVAL_STEPS,
+                        longLeaveDays: null,
+                        slaHours: DEFAULT_SLA_HOURS,
                     }
-                }
-
-                res.json(updatedRequest);
+                );
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Team Leader: Reject correction request
-    app.patch(
-        "/api/corrections/:id/reject",
-        requireAuth,
+    app.put(
+        "/api/admin/leave-approval-policy",
+        requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
-                );
-
-                if (!requestingUser) {
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
                     return res
-                        .status(401)
-                        .json({ message: "Authentication required" });
+                        .status(404)
+                        .json({ message: "Company not found" });
                 }
 
-                const requestId = parseInt(req.params.id);
-                const correctionRequest =
-                    await storage.getCorrectionRequestById(requestId);
-
-                if (!correctionRequest) {
+                const validatedData = insertLeaveApprovalPolicySchema.parse({
+                    ...req.body,
+                    companyId: requestingUser.companyId,
+                });
+                const policy = await storage.upsertLeaveApprovalPolicy(
+                    validatedData
+                );
+                res.json(policy);
+            } catch (error) {
+                if (error instanceof z.ZodError) {
                     return res
-                        .status(404)
-                        .json({ message: "Correction request not found" });
+                        .status(400)
+                        .json({ message: error.errors[0].message });
                 }
+                next(error);
+            }
+        }
+    );
 
-                // Verify the user making the rejection is from the team
-                const teamMembers = await storage.getTeamMembersByLeader(
-                    requestingUserId
-                );
-                const teamMemberIds = teamMembers.map((m) => m.id);
+    // Geofences (office locations used by the requireGPS policy)
+    app.get("/api/admin/geofences", requireAdmin, async (req, res, next) => {
+        try {
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
 
-                if (!teamMemberIds.includes(correctionRequest.userId)) {
-                    return res.status(403).json({
-                        message:
-                            "You can only reject corrections for your team members",
-                    });
-                }
+            const companyGeofences = await storage.getGeofencesByCompany(
+                requestingUser.companyId
+            );
+            res.json(companyGeofences);
+        } catch (error) {
+            next(error);
+        }
+    });
 
-                const updatedRequest = await storage.updateCorrectionRequest(
-                    requestId,
-                    {
-                        status: "rejected",
-                        reviewedBy: requestingUserId,
-                        reviewComments: req.body.comments,
-                    }
-                );
+    app.post("/api/admin/geofences", requireAdmin, async (req, res, next) => {
+        try {
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
 
-                res.json(updatedRequest);
-            } catch (error) {
-                next(error);
+            const validatedData = insertGeofenceSchema.parse({
+                ...req.body,
+                companyId: requestingUser.companyId,
+            });
+            const geofence = await storage.createGeofence(validatedData);
+            res.json(geofence);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
             }
+            next(error);
         }
-    );
+    });
 
-    // Admin: Get pending correction requests
-    app.get(
-        "/api/admin/attendance/corrections/pending",
+    app.patch(
+        "/api/admin/geofences/:id",
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
+                const requestingUser = req.user!;
+                const geofence = await storage.getGeofenceById(
+                    parseInt(req.params.id)
                 );
-
                 if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
+                    !geofence ||
+                    geofence.companyId !== requestingUser.companyId
                 ) {
-                    return res.status(403).json({
-                        message: "Only admins can view correction requests",
-                    });
-                }
-
-                const companyId =
-                    requestingUser.role === "super_admin"
-                        ? parseInt(req.query.companyId as string)
-                        : requestingUser.companyId;
-
-                if (!companyId) {
                     return res
-                        .status(400)
-                        .json({ message: "Company ID required" });
+                        .status(404)
+                        .json({ message: "Geofence not found" });
                 }
 
-                const requests = await storage.getPendingCorrectionRequests(
-                    companyId
+                const updates = insertGeofenceSchema
+                    .omit({ companyId: true })
+                    .partial()
+                    .parse(req.body);
+                const updated = await storage.updateGeofence(
+                    geofence.id,
+                    updates
                 );
-                res.json(requests);
+                res.json(updated);
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
-    // Admin: Approve correction request
-    app.patch(
-        "/api/admin/attendance/corrections/:id/approve",
+    app.delete(
+        "/api/admin/geofences/:id",
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
+                const requestingUser = req.user!;
+                const geofence = await storage.getGeofenceById(
+                    parseInt(req.params.id)
                 );
-
                 if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
+                    !geofence ||
+                    geofence.companyId !== requestingUser.companyId
                 ) {
-                    return res.status(403).json({
-                        message: "Only admins can approve corrections",
-                    });
-                }
-
-                const requestId = parseInt(req.params.id);
-                const correctionRequest =
-                    await storage.getCorrectionRequestById(requestId);
-
-                if (!correctionRequest) {
                     return res
                         .status(404)
-                        .json({ message: "Correction request not found" });
-                }
-
-                // Update correction request status
-                const updatedRequest = await storage.updateCorrectionRequest(
-                    requestId,
-                    {
-                        status: "approved",
-                        reviewedBy: requestingUserId,
-                        reviewComments: req.body.comments,
-                    }
-                );
-
-                // Apply the correction to attendance record
-                if (correctionRequest.attendanceId) {
-                    const attendanceUpdate: any = {};
-                    if (correctionRequest.requestedCheckIn) {
-                        attendanceUpdate.checkIn =
-                            correctionRequest.requestedCheckIn;
-                    }
-                    if (correctionRequest.requestedCheckOut) {
-                        attendanceUpdate.checkOut =
-                            correctionRequest.requestedCheckOut;
-                    }
-
-                    if (attendanceUpdate.checkIn || attendanceUpdate.checkOut) {
-                        await storage.updateAttendanceRecord(
-                            correctionRequest.attendanceId,
-                            attendanceUpdate
-                        );
-
-                        // Log the correction
-                        await storage.createAttendanceLog({
-                            attendanceId: correctionRequest.attendanceId,
-                            action: "correction_applied",
-                            performedBy: requestingUserId,
-                            newValue: JSON.stringify(correctionRequest),
-                        });
-                    }
+                        .json({ message: "Geofence not found" });
                 }
 
-                res.json(updatedRequest);
+                await storage.deleteGeofence(geofence.id);
+                res.json({ message: "Geofence deleted" });
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Admin: Reject correction request
-    app.patch(
-        "/api/admin/attendance/corrections/:id/reject",
+    // Device Binding Management
+    app.get(
+        "/api/admin/device-bindings",
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
-                );
-
-                if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
-                ) {
-                    return res.status(403).json({
-                        message: "Only admins can reject corrections",
-                    });
+                const requestingUser = req.user!;
+                if (!requestingUser.companyId) {
+                    return res
+                        .status(404)
+                        .json({ message: "Company not found" });
                 }
 
-                const requestId = parseInt(req.params.id);
-                const updatedRequest = await storage.updateCorrectionRequest(
-                    requestId,
-                    {
-                        status: "rejected",
-                        reviewedBy: requestingUserId,
-                        reviewComments: req.body.comments,
-                    }
+                const devices = await storage.getUserDevicesByCompany(
+                    requestingUser.companyId
                 );
-
-                res.json(updatedRequest);
+                res.json(devices);
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Admin: Get attendance reports
-    app.get(
-        "/api/admin/attendance/reports",
+    app.post(
+        "/api/admin/device-bindings/:id/:decision",
         requireAdmin,
         async (req, res, next) => {
             try {
-                const validatedQuery = reportsQuerySchema.parse(req.query);
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
-                );
+                const requestingUser = req.user!;
+                const { decision } = req.params;
+                if (decision !== "approve" && decision !== "reject") {
+                    return res
+                        .status(400)
+                        .json({ message: "Invalid decision" });
+                }
 
+                const device = await storage.getUserDeviceById(
+                    parseInt(req.params.id)
+                );
                 if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
+                    !device ||
+                    device.companyId !== requestingUser.companyId
                 ) {
                     return res
-                        .status(403)
-                        .json({ message: "Only admins can view reports" });
+                        .status(404)
+                        .json({ message: "Device request not found" });
                 }
 
-                const { companyId, startDate, endDate } = validatedQuery;
-                const type = req.query.type;
-                const targetCompanyId =
-                    requestingUser.role === "super_admin"
-                        ? parseInt(companyId as string)
-                        : requestingUser.companyId;
-
-                if (!targetCompanyId) {
-                    return res
-                        .status(400)
-                        .json({ message: "Company ID required" });
+                if (device.status !== "pending") {
+                    return res.status(400).json({
+                        message: "This device request has already been reviewed",
+                    });
                 }
 
-                const report = await storage.getAttendanceReport(
-                    targetCompanyId,
-                    startDate as string,
-                    endDate as string,
-                    type as string
+                const previousDevice = await storage.getActiveDeviceByUser(
+                    device.userId
                 );
+                const updated =
+                    decision === "approve"
+                        ? await storage.approveUserDevice(
+                              device.id,
+                              requestingUser.id
+                          )
+                        : await storage.rejectUserDevice(
+                              device.id,
+                              requestingUser.id
+                          );
 
-                res.json(report);
+                await storage.createAttendanceLog({
+                    attendanceId: null,
+                    userId: device.userId,
+                    action:
+                        decision === "approve"
+                            ? "device_rebind_approved"
+                            : "device_rebind_rejected",
+                    performedBy: requestingUser.id,
+                    oldValue: previousDevice?.deviceId || null,
+                    newValue: device.deviceId,
+                });
+
+                publish(channels.user(device.userId), {
+                    type: "DEVICE_BINDING_UPDATED",
+                    status: updated.status,
+                });
+
+                res.json(updated);
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Admin: Get user attendance history
-    app.get(
-        "/api/admin/attendance/history/:userId",
+    // Clears a user's binding so the next device they use is trusted automatically
+    app.post(
+        "/api/admin/users/:id/reset-device",
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
+                const requestingUser = req.user!;
+                const targetUser = await storage.getUserById(
+                    parseInt(req.params.id)
                 );
-                const targetUserId = parseInt(req.params.userId);
-                const { month, year } = req.query;
-
-                if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
-                ) {
-                    return res.status(403).json({
-                        message: "Only admins can view user attendance history",
-                    });
-                }
-
-                // Get target user to verify company access
-                const targetUser = await storage.getUserById(targetUserId);
-                if (!targetUser) {
-                    return res.status(404).json({ message: "User not found" });
-                }
-
-                // Ensure admin can only view users from their company (unless super admin)
                 if (
-                    requestingUser.role === "company_admin" &&
+                    !targetUser ||
                     targetUser.companyId !== requestingUser.companyId
                 ) {
-                    return res.status(403).json({
-                        message:
-                            "You can only view attendance for users in your company",
-                    });
-                }
-
-                // Default to current month if not provided
-                const now = new Date();
-                const targetMonth = month
-                    ? parseInt(month as string)
-                    : now.getMonth() + 1;
-                const targetYear = year
-                    ? parseInt(year as string)
-                    : now.getFullYear();
-
-                const startDate = `${targetYear}-${targetMonth
-                    .toString()
-                    .padStart(2, "0")}-01`;
-                const lastDay = new Date(targetYear, targetMonth, 0).getDate();
-                const endDate = `${targetYear}-${targetMonth
-                    .toString()
-                    .padStart(2, "0")}-${lastDay.toString().padStart(2, "0")}`;
+                    return res.status(404).json({ message: "User not found" });
+                }
 
-                const records = await storage.getAttendanceHistory(
-                    targetUserId,
-                    startDate,
-                    endDate
+                const previousDevice = await storage.getActiveDeviceByUser(
+                    targetUser.id
                 );
-                const summary = await storage.getMonthlyAttendanceSummary(
-                    targetUserId,
-                    targetMonth,
-                    targetYear
+                await storage.revokeUserDevices(
+                    targetUser.id,
+                    requestingUser.id
                 );
+                await storage.createAttendanceLog({
+                    attendanceId: null,
+                    userId: targetUser.id,
+                    action: "device_binding_reset",
+                    performedBy: requestingUser.id,
+                    oldValue: previousDevice?.deviceId || null,
+                });
 
-                res.json({
-                    records,
-                    summary,
-                    user: {
-                        id: targetUser.id,
-                        displayName: targetUser.displayName,
-                        email: targetUser.email,
-                    },
+                publish(channels.user(targetUser.id), {
+                    type: "DEVICE_BINDING_UPDATED",
+                    status: "revoked",
                 });
+
+                res.json({ message: "Device binding reset" });
             } catch (error) {
                 next(error);
             }
         }
     );
 
-    // Shifts Management
-    app.post("/api/admin/shifts", requireAdmin, async (req, res, next) => {
+    // Attendance Kiosks
+    const registerKioskSchema = z.object({
+        name: z.string().trim().min(1, "Kiosk name is required").max(100),
+        deviceId: z.string().min(8).max(255),
+        gpsLocation: z.string().nullable().optional(),
+    });
+
+    const kioskPunchActionSchema = z.enum(["check_in", "check_out"], {
+        errorMap: () => ({ message: "Choose check in or check out" }),
+    });
+
+    const kioskPinPunchSchema = z.object({
+        uniqueUserId: z.string().trim().min(1, "User ID is required"),
+        pin: z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits"),
+        action: kioskPunchActionSchema,
+    });
+
+    const kioskPinSchema = z.object({
+        pin: z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits"),
+    });
+
+    const kioskScanSchema = z.object({
+        code: z.string().min(1).max(100),
+        action: kioskPunchActionSchema,
+    });
+
+    app.get("/api/admin/kiosks", requireAdmin, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
+
+            const kiosks = await storage.getAttendanceKiosksByCompany(
+                requestingUser.companyId
             );
-            const requestingUser = await storage.getUserById(requestingUserId);
+            res.json(kiosks.map(({ tokenHash: _, ...kiosk }) => kiosk));
+        } catch (error) {
+            next(error);
+        }
+    });
 
-            if (
-                !requestingUser ||
-                (requestingUser.role !== "company_admin" &&
-                    requestingUser.role !== "super_admin")
-            ) {
+    // Registers the admin's current browser as a kiosk. The token in the response is
+    // not stored in readable form, so this is the only time it is available.
+    app.post("/api/admin/kiosks", requireAdmin, async (req, res, next) => {
+        try {
+            const requestingUser = req.user!;
+            if (!requestingUser.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
+
+            const validatedData = registerKioskSchema.parse(req.body);
+            const { kiosk, token, error } = await registerKiosk(
+                { ...requestingUser, companyId: requestingUser.companyId },
+                {
+                    name: validatedData.name,
+                    deviceId: validatedData.deviceId,
+                    gpsLocation: validatedData.gpsLocation || null,
+                }
+            );
+            if (error) {
+                return res.status(400).json({ message: error });
+            }
+
+            const { tokenHash: _, ...kioskDetails } = kiosk!;
+            res.json({ kiosk: kioskDetails, token });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
                 return res
-                    .status(403)
-                    .json({ message: "Only admins can create shifts" });
+                    .status(400)
+                    .json({ message: error.errors[0].message });
             }
+            next(error);
+        }
+    });
 
-            const shift = await storage.createShift({
-                ...req.body,
-                companyId: requestingUser.companyId!,
+    app.patch("/api/admin/kiosks/:id", requireAdmin, async (req, res, next) => {
+        try {
+            const requestingUser = req.user!;
+            const { isActive } = z
+                .object({ isActive: z.boolean() })
+                .parse(req.body);
+
+            const kiosk = await storage.getAttendanceKioskById(
+                parseInt(req.params.id)
+            );
+            if (!kiosk || kiosk.companyId !== requestingUser.companyId) {
+                return res.status(404).json({ message: "Kiosk not found" });
+            }
+
+            const { tokenHash: _, ...updated } =
+                await storage.updateAttendanceKiosk(kiosk.id, { isActive });
+            await storage.createAttendanceLog({
+                attendanceId: null,
+                userId: requestingUser.id,
+                action: isActive ? "kiosk_enabled" : "kiosk_disabled",
+                performedBy: requestingUser.id,
+                newValue: kiosk.name,
             });
+            res.json(updated);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
 
-            res.json(shift);
+    // Kiosk: Its own details, to confirm the stored token is still valid
+    app.get("/api/kiosk/session", async (req, res, next) => {
+        try {
+            const kiosk = await kioskFromAuthorization(
+                req.headers.authorization
+            );
+            if (!kiosk) {
+                return res.status(401).json({
+                    message: "This device is not registered as a kiosk",
+                    code: "KIOSK_UNREGISTERED",
+                });
+            }
+
+            const company = await storage.getCompanyById(kiosk.companyId);
+            res.json({
+                id: kiosk.id,
+                name: kiosk.name,
+                site: kiosk.site,
+                companyName: company?.name ?? null,
+            });
         } catch (error) {
             next(error);
         }
     });
 
-    app.get(
-        "/api/shifts/company/:companyId",
-        requireAuth,
-        async (req, res, next) => {
-            try {
-                const companyId = parseInt(req.params.companyId);
-                const shifts = await storage.getShiftsByCompany(companyId);
-                res.json(shifts);
-            } catch (error) {
-                next(error);
+    // Kiosk: The QR code to show right now. The kiosk passes the code it shows as
+    // ?current= and keeps it until it expires or is scanned.
+    app.get("/api/kiosk/code", async (req, res, next) => {
+        try {
+            const kiosk = await kioskFromAuthorization(
+                req.headers.authorization
+            );
+            if (!kiosk) {
+                return res.status(401).json({
+                    message: "This device is not registered as a kiosk",
+                    code: "KIOSK_UNREGISTERED",
+                });
             }
+
+            const current =
+                typeof req.query.current === "string"
+                    ? req.query.current
+                    : undefined;
+            res.json(await kioskCode(kiosk, new Date(), current));
+        } catch (error) {
+            next(error);
         }
-    );
+    });
 
-    // Attendance Policy Management
-    app.get(
-        "/api/admin/attendance-policy",
-        requireAdmin,
-        async (req, res, next) => {
-            try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
-                );
+    // Kiosk: Punch an employee in or out with their user ID and PIN
+    app.post("/api/kiosk/punch", async (req, res, next) => {
+        try {
+            const kiosk = await kioskFromAuthorization(
+                req.headers.authorization
+            );
+            if (!kiosk) {
+                return res.status(401).json({
+                    message: "This device is not registered as a kiosk",
+                    code: "KIOSK_UNREGISTERED",
+                });
+            }
 
-                if (!requestingUser || !requestingUser.companyId) {
-                    return res
-                        .status(404)
-                        .json({ message: "Company not found" });
-                }
+            const { uniqueUserId, pin, action: requested } =
+                kioskPinPunchSchema.parse(req.body);
+            const now = new Date();
+            const verified = await verifyKioskPin(
+                kiosk,
+                uniqueUserId,
+                pin,
+                now
+            );
+            if (!verified.user) {
+                return res.status(401).json({ message: verified.error });
+            }
 
-                const policy = await storage.getAttendancePolicyByCompany(
-                    requestingUser.companyId
-                );
-                res.json(policy || null);
-            } catch (error) {
-                next(error);
+            const { record, action, error } = await kioskPunch(
+                kiosk,
+                verified.user,
+                requested,
+                now,
+                req.ip || null
+            );
+            if (error) {
+                return res.status(400).json({ message: error });
+            }
+            res.json({
+                action,
+                userName: verified.user.displayName,
+                time: now,
+                status: record!.status,
+            });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
             }
+            next(error);
         }
-    );
+    });
 
+    // Employee: Punch in or out by scanning a kiosk's QR code from their own session
     app.post(
-        "/api/admin/attendance-policy",
-        requireAdmin,
+        "/api/attendance/kiosk-scan",
+        requireAuth,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
+                const { code, action: requested } = kioskScanSchema.parse(
+                    req.body
                 );
-                const requestingUser = await storage.getUserById(
-                    requestingUserId
-                );
-
-                if (
-                    !requestingUser ||
-                    (requestingUser.role !== "company_admin" &&
-                        requestingUser.role !== "super_admin")
-                ) {
-                    return res
-                        .status(403)
-                        .json({ message: "Only admins can manage policies" });
+                const now = new Date();
+                const kiosk = await redeemKioskCode(code, now);
+                if (!kiosk) {
+                    return res.status(400).json({
+                        message:
+                            "This QR code has expired or was already used. Scan the code on the kiosk again.",
+                    });
                 }
 
-                const policy = await storage.createOrUpdateAttendancePolicy({
-                    ...req.body,
-                    companyId: requestingUser.companyId!,
-                });
+                const user = await storage.getUserById(req.user!.id);
+                if (!user) {
+                    return res.status(404).json({ message: "User not found" });
+                }
 
-                res.json(policy);
+                const { record, action, error } = await kioskPunch(
+                    kiosk,
+                    user,
+                    requested,
+                    now,
+                    req.ip || null
+                );
+                if (error) {
+                    return res.status(400).json({ message: error });
+                }
+                res.json({ action, kioskName: kiosk.name, record });
             } catch (error) {
+                if (error instanceof z.ZodError) {
+                    return res
+                        .status(400)
+                        .json({ message: error.errors[0].message });
+                }
                 next(error);
             }
         }
     );
 
+    // Employee: Whether a kiosk PIN is set (never the PIN itself)
+    app.get("/api/attendance/kiosk-pin", requireAuth, async (req, res, next) => {
+        try {
+            const kioskPin = await storage.getKioskPinByUser(req.user!.id);
+            res.json({
+                hasPin: !!kioskPin,
+                updatedAt: kioskPin?.updatedAt ?? null,
+            });
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.put("/api/attendance/kiosk-pin", requireAuth, async (req, res, next) => {
+        try {
+            const user = req.user!;
+            if (!user.companyId) {
+                return res.status(404).json({ message: "Company not found" });
+            }
+
+            const { pin } = kioskPinSchema.parse(req.body);
+            const kioskPin = await setKioskPin(
+                { ...user, companyId: user.companyId },
+                pin
+            );
+            await storage.createAttendanceLog({
+                attendanceId: null,
+                userId: user.id,
+                action: "kiosk_pin_set",
+                performedBy: user.id,
+            });
+            res.json({ hasPin: true, updatedAt: kioskPin.updatedAt });
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res
+                    .status(400)
+                    .json({ message: error.errors[0].message });
+            }
+            next(error);
+        }
+    });
+
     // CRM - Enquiry Routes (Admin Only)
     app.get("/api/crm/enquiries", requireAdmin, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
-            );
+            const requestingUserId = req.user!.id;
             const requestingUser = await storage.getUserById(requestingUserId);
 
             if (!requestingUser || !requestingUser.companyId) {
                 return res.status(404).json({ message: "Company not found" });
             }
 
-            const enquiries = await storage.getEnquiriesByCompanyId(
-                requestingUser.companyId
-            );
+            const enquiries = await tenantStorageFor(
+                requestingUser
+            ).getEnquiries();
             res.json(enquiries);
         } catch (error) {
             next(error);
@@ -6925,27 +9816,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/crm/enquiries/:id", requireAdmin, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
-            );
+            const requestingUserId = req.user!.id;
             const requestingUser = await storage.getUserById(requestingUserId);
 
             if (!requestingUser || !requestingUser.companyId) {
                 return res.status(404).json({ message: "Company not found" });
             }
 
-            const enquiry = await storage.getEnquiryById(
-                parseInt(req.params.id)
-            );
+            const enquiry = await tenantStorageFor(
+                requestingUser
+            ).getEnquiryById(parseInt(req.params.id));
             if (!enquiry) {
                 return res.status(404).json({ message: "Enquiry not found" });
             }
 
-            // Verify enquiry belongs to user's company
-            if (enquiry.companyId !== requestingUser.companyId) {
-                return res.status(403).json({ message: "Access denied" });
-            }
-
             res.json(enquiry);
         } catch (error) {
             next(error);
@@ -6954,9 +9838,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.post("/api/crm/enquiries", requireAdmin, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
-            );
+            const requestingUserId = req.user!.id;
             const requestingUser = await storage.getUserById(requestingUserId);
 
             if (!requestingUser || !requestingUser.companyId) {
@@ -6980,9 +9862,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
@@ -6993,20 +9873,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
                         .json({ message: "Company not found" });
                 }
 
-                const enquiry = await storage.getEnquiryById(
-                    parseInt(req.params.id)
-                );
+                const enquiry = await tenantStorageFor(
+                    requestingUser
+                ).getEnquiryById(parseInt(req.params.id));
                 if (!enquiry) {
                     return res
                         .status(404)
                         .json({ message: "Enquiry not found" });
                 }
 
-                // Verify enquiry belongs to user's company
-                if (enquiry.companyId !== requestingUser.companyId) {
-                    return res.status(403).json({ message: "Access denied" });
-                }
-
                 await storage.updateEnquiry(parseInt(req.params.id), req.body);
                 res.json({ message: "Enquiry updated successfully" });
             } catch (error) {
@@ -7020,9 +9895,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
@@ -7033,20 +9906,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
                         .json({ message: "Company not found" });
                 }
 
-                const enquiry = await storage.getEnquiryById(
-                    parseInt(req.params.id)
-                );
+                const enquiry = await tenantStorageFor(
+                    requestingUser
+                ).getEnquiryById(parseInt(req.params.id));
                 if (!enquiry) {
                     return res
                         .status(404)
                         .json({ message: "Enquiry not found" });
                 }
 
-                // Verify enquiry belongs to user's company
-                if (enquiry.companyId !== requestingUser.companyId) {
-                    return res.status(403).json({ message: "Access denied" });
-                }
-
                 await storage.deleteEnquiry(parseInt(req.params.id));
                 res.json({ message: "Enquiry deleted successfully" });
             } catch (error) {
@@ -7057,9 +9925,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.get("/api/crm/stats", requireAdmin, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
-            );
+            const requestingUserId = req.user!.id;
             const requestingUser = await storage.getUserById(requestingUserId);
 
             if (!requestingUser || !requestingUser.companyId) {
@@ -7078,9 +9944,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // CRM - Followup Routes (Admin Only)
     app.get("/api/crm/followups", requireAdmin, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
-            );
+            const requestingUserId = req.user!.id;
             const requestingUser = await storage.getUserById(requestingUserId);
 
             if (!requestingUser || !requestingUser.companyId) {
@@ -7101,9 +9965,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
@@ -7115,19 +9977,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
 
                 // Verify enquiry belongs to user's company
-                const enquiry = await storage.getEnquiryById(
-                    parseInt(req.params.enquiryId)
-                );
+                const enquiry = await tenantStorageFor(
+                    requestingUser
+                ).getEnquiryById(parseInt(req.params.enquiryId));
                 if (!enquiry) {
                     return res
                         .status(404)
                         .json({ message: "Enquiry not found" });
                 }
 
-                if (enquiry.companyId !== requestingUser.companyId) {
-                    return res.status(403).json({ message: "Access denied" });
-                }
-
                 const followups = await storage.getFollowupsByEnquiryId(
                     parseInt(req.params.enquiryId)
                 );
@@ -7140,9 +9998,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     app.post("/api/crm/followups", requireAdmin, async (req, res, next) => {
         try {
-            const requestingUserId = parseInt(
-                req.headers["x-user-id"] as string
-            );
+            const requestingUserId = req.user!.id;
             const requestingUser = await storage.getUserById(requestingUserId);
 
             if (!requestingUser || !requestingUser.companyId) {
@@ -7150,20 +10006,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
 
             // Verify the enquiry belongs to the user's company
-            const enquiry = await storage.getEnquiryById(
-                parseInt(req.body.enquiryId)
-            );
+            const enquiry = await tenantStorageFor(
+                requestingUser
+            ).getEnquiryById(parseInt(req.body.enquiryId));
             if (!enquiry) {
                 return res.status(404).json({ message: "Enquiry not found" });
             }
 
-            if (enquiry.companyId !== requestingUser.companyId) {
-                return res.status(403).json({
-                    message:
-                        "Access denied - enquiry belongs to another company",
-                });
-            }
-
             const followup = await storage.createFollowup({
                 ...req.body,
                 companyId: requestingUser.companyId,
@@ -7181,9 +10030,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
@@ -7221,9 +10068,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requireAdmin,
         async (req, res, next) => {
             try {
-                const requestingUserId = parseInt(
-                    req.headers["x-user-id"] as string
-                );
+                const requestingUserId = req.user!.id;
                 const requestingUser = await storage.getUserById(
                     requestingUserId
                 );
@@ -0,0 +1,157 @@
+import { storage } from "./storage";
+import type {
+    AttendanceRecord,
+    Shift,
+    ShiftAssignment,
+    User,
+} from "@shared/schema";
+import {
+    addDays,
+    findAssignmentForDate,
+    isOvernightShift,
+    shiftIdForDate,
+    toMinutes,
+} from "./utils/shift-schedule";
+import { zonedTime } from "./utils/timezone";
+import { companyTimezone } from "./company-time";
+
+// Shift assignments can target a whole team; a team leader belongs to their own team
+export async function teamLeaderIdFor(
+    user: Pick<User, "id" | "role">
+): Promise<number | null> {
+    if (user.role === "team_leader") {
+        return user.id;
+    }
+    const leader = await storage.getTeamLeaderByMember(user.id);
+    return leader?.id ?? null;
+}
+
+// The shift a user works on `date`: their own assignment, else their team's, else the
+// company's first active shift (which applied to everyone before assignments existed)
+export async function resolveUserShift(
+    user: Pick<User, "id" | "role" | "companyId">,
+    date: string
+): Promise<Shift | null> {
+    if (!user.companyId) {
+        return null;
+    }
+
+    const teamLeaderId = await teamLeaderIdFor(user);
+    return pickShift(
+        await storage.getShiftsByCompany(user.companyId),
+        await storage.getShiftAssignmentsForUser(user.id, teamLeaderId, date),
+        user.id,
+        teamLeaderId,
+        date
+    );
+}
+
+// resolveUserShift for any user of a company, with the company's shifts, shift
+// assignments and teams loaded once up front for jobs that go through every user
+export async function loadCompanyShifts(
+    companyId: number
+): Promise<(user: Pick<User, "id" | "role">, date: string) => Shift | null> {
+    const companyShifts = await storage.getShiftsByCompany(companyId);
+    const assignments = await storage.getShiftAssignmentsByCompany(companyId);
+    const activeUserIds = new Set(
+        (await storage.getUsersByCompanyId(companyId)).map((u) => u.id)
+    );
+    const leaderOf = new Map<number, number>();
+    for (const team of await storage.getAllTeamAssignments(companyId)) {
+        if (activeUserIds.has(team.teamLeaderId) && !leaderOf.has(team.memberId)) {
+            leaderOf.set(team.memberId, team.teamLeaderId);
+        }
+    }
+
+    return (user, date) => {
+        const teamLeaderId =
+            user.role === "team_leader" ? user.id : leaderOf.get(user.id) ?? null;
+        return pickShift(companyShifts, assignments, user.id, teamLeaderId, date);
+    };
+}
+
+function pickShift(
+    companyShifts: Shift[],
+    assignments: ShiftAssignment[],
+    userId: number,
+    teamLeaderId: number | null,
+    date: string
+): Shift | null {
+    const assignment = findAssignmentForDate(
+        assignments,
+        userId,
+        teamLeaderId,
+        date
+    );
+
+    if (assignment) {
+        const shiftId = shiftIdForDate(assignment, date);
+        const shift = companyShifts.find((s) => s.id === shiftId && s.isActive);
+        if (shift) {
+            return shift;
+        }
+    }
+
+    return companyShifts.find((s) => s.isActive) || null;
+}
+
+// The attendance date a punch at `now` belongs to, in the company's timezone. Until
+// yesterday's overnight shift has ended, punches still count towards yesterday;
+// otherwise it is today's shift. `minutes` is the local time of day of the punch.
+export async function resolveWorkday(
+    user: Pick<User, "id" | "role" | "companyId">,
+    now: Date
+): Promise<{
+    date: string;
+    shift: Shift | null;
+    minutes: number;
+    pastMidnight: boolean;
+}> {
+    const local = zonedTime(now, await companyTimezone(user.companyId));
+    const yesterday = addDays(local.date, -1);
+
+    const previousShift = await resolveUserShift(user, yesterday);
+    if (
+        isOvernightShift(previousShift) &&
+        local.minutes < toMinutes(previousShift!.endTime)
+    ) {
+        return {
+            date: yesterday,
+            shift: previousShift,
+            minutes: local.minutes,
+            pastMidnight: true,
+        };
+    }
+
+    return {
+        date: local.date,
+        shift: await resolveUserShift(user, local.date),
+        minutes: local.minutes,
+        pastMidnight: false,
+    };
+}
+
+// The record a user is currently working against: today's, or yesterday's if it is an
+// overnight shift that was checked into and is still open after midnight
+export async function findCurrentAttendance(
+    userId: number,
+    today: string
+): Promise<AttendanceRecord | null> {
+    const record = await storage.getAttendanceByUserAndDate(userId, today);
+    if (record?.checkIn) {
+        return record;
+    }
+
+    const previous = await storage.getAttendanceByUserAndDate(
+        userId,
+        addDays(today, -1)
+    );
+    if (previous?.checkIn && !previous.checkOut && previous.shiftId) {
+        const shift = await storage.getShiftById(previous.shiftId);
+        if (isOvernightShift(shift)) {
+            return previous;
+        }
+    }
+
+    return record;
+}
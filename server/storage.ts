@@ -11,6 +11,10 @@ import {
     groupMessages,
     groupMessageReplies,
     taskTimeLogs,
+    taskComments,
+    taskChecklistItems,
+    taskDependencies,
+    taskWorkflowStatuses,
     feedbacks,
     slotPricing,
     companyPayments,
@@ -18,13 +22,28 @@ import {
     adminActivityLogs,
     badges,
     autoTasks,
+    recurringTasks,
     leaves,
+    leaveTypes,
+    leaveBalances,
+    leaveApprovalPolicies,
+    leaveApprovals,
     holidays,
+    holidayOptIns,
     tasksReports,
     shifts,
     attendancePolicies,
+    geofences,
+    userDevices,
+    attendanceKiosks,
+    kioskPins,
+    kioskCodeRedemptions,
+    shiftAssignments,
     attendanceRecords,
+    attendancePunches,
+    attendanceBreaks,
     correctionRequests,
+    overtimeRequests,
     rewards,
     attendanceLogs,
     attendanceBadges,
@@ -54,6 +73,15 @@ import {
     type InsertGroupMessageReply,
     type TaskTimeLog,
     type InsertTaskTimeLog,
+    type TaskComment,
+    type InsertTaskComment,
+    type TaskCommentWithUser,
+    type TaskChecklistItem,
+    type InsertTaskChecklistItem,
+    type TaskDependency,
+    type InsertTaskDependency,
+    type TaskWorkflowStatus,
+    type InsertTaskWorkflowStatus,
     type Feedback,
     type InsertFeedback,
     type SlotPricing,
@@ -66,22 +94,52 @@ import {
     type Badge,
     type InsertBadge,
     type AutoTask,
+    type RecurringTask,
+    type InsertRecurringTask,
     type InsertAutoTask,
     type Leave,
     type InsertLeave,
+    type LeaveType,
+    type InsertLeaveType,
+    type LeaveBalance,
+    type InsertLeaveBalance,
+    type LeaveApprovalPolicy,
+    type InsertLeaveApprovalPolicy,
+    type LeaveApproval,
+    type InsertLeaveApproval,
+    type LeaveApprovalStep,
     type Holiday,
     type InsertHoliday,
+    type HolidayOptIn,
+    type InsertHolidayOptIn,
     type TasksReport,
     type InsertTasksReport,
     type Shift,
     type InsertShift,
+    type ShiftAssignment,
+    type InsertShiftAssignment,
     type AttendancePolicy,
     type InsertAttendancePolicy,
+    type Geofence,
+    type InsertGeofence,
+    type UserDevice,
+    type InsertUserDevice,
+    type UserDeviceWithUser,
+    type AttendanceKiosk,
+    type InsertAttendanceKiosk,
+    type KioskPin,
+    type InsertKioskPin,
     type AttendanceRecord,
     type InsertAttendanceRecord,
     type DailyAttendanceRecord,
+    type AttendancePunch,
+    type InsertAttendancePunch,
+    type AttendanceBreak,
+    type InsertAttendanceBreak,
     type CorrectionRequest,
     type InsertCorrectionRequest,
+    type OvertimeRequest,
+    type InsertOvertimeRequest,
     type Reward,
     type InsertReward,
     type AttendanceLog,
@@ -99,7 +157,15 @@ import {
     type DeviceToken,
     type InsertDeviceToken,
 } from "@shared/schema";
-import { eq, and, or, desc, gte, lte, sql, inArray } from "drizzle-orm";
+import { eq, and, or, ne, desc, gte, lte, lt, sql, inArray, isNull } from "drizzle-orm";
+import {
+    DEFAULT_TIMEZONE,
+    startOfDayInTimezone,
+    todayInTimezone,
+} from "./utils/timezone";
+import { creditedOvertimeMinutes } from "./utils/overtime";
+import { isLeaveDay, isNonWorkingDay } from "./utils/day-status";
+import type { WorkingCalendar } from "./working-calendar";
 
 function generateUniqueId(prefix: string): string {
     const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
@@ -137,6 +203,7 @@ export interface IStorage {
     updateUserRole(id: number, role: string): Promise<void>;
     updateUserPassword(id: number, password: string): Promise<void>;
     toggleUserStatus(id: number, isActive: boolean): Promise<void>;
+    revokeUserSessions(id: number): Promise<void>;
     getAllUsers(includeDeleted?: boolean): Promise<User[]>;
     deleteUser(id: number): Promise<void>;
     softDeleteUser(id: number): Promise<void>;
@@ -152,6 +219,37 @@ export interface IStorage {
     updateTaskStatus(id: number, status: string): Promise<void>;
     updateTask(id: number, updates: Partial<InsertTask>): Promise<void>;
     deleteTask(id: number): Promise<void>;
+    getSubtasks(parentTaskId: number): Promise<Task[]>;
+
+    // Task checklist operations
+    createTaskChecklistItem(item: InsertTaskChecklistItem): Promise<TaskChecklistItem>;
+    getTaskChecklistItemById(id: number): Promise<TaskChecklistItem | null>;
+    getTaskChecklistItems(taskId: number): Promise<TaskChecklistItem[]>;
+    updateTaskChecklistItem(
+        id: number,
+        updates: Partial<InsertTaskChecklistItem> &
+            Partial<Pick<TaskChecklistItem, "completedBy" | "completedAt">>
+    ): Promise<TaskChecklistItem>;
+    deleteTaskChecklistItem(id: number): Promise<void>;
+
+    // Task dependency operations
+    createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency>;
+    getTaskDependencies(taskId: number): Promise<TaskDependency[]>;
+    getTaskDependents(dependsOnTaskId: number): Promise<TaskDependency[]>;
+    getTaskDependenciesByCompany(companyId: number): Promise<TaskDependency[]>;
+    getOpenBlockers(taskIds: number[]): Promise<TaskDependency[]>;
+    deleteTaskDependency(taskId: number, dependsOnTaskId: number): Promise<void>;
+
+    // Task workflow operations
+    getWorkflowStatuses(companyId: number): Promise<TaskWorkflowStatus[]>;
+    createWorkflowStatuses(statuses: InsertTaskWorkflowStatus[]): Promise<TaskWorkflowStatus[]>;
+    updateWorkflowStatus(
+        companyId: number,
+        key: string,
+        updates: Partial<InsertTaskWorkflowStatus>
+    ): Promise<TaskWorkflowStatus>;
+    deleteWorkflowStatus(companyId: number, key: string): Promise<void>;
+    countTasksWithStatus(companyId: number, status: string): Promise<number>;
 
     // Report operations
     createReport(report: InsertReport): Promise<Report>;
@@ -169,7 +267,7 @@ export interface IStorage {
     createMessage(message: InsertMessage): Promise<Message>;
     getMessagesByReceiverId(receiverId: number): Promise<Message[]>;
     getUnreadMessagesByReceiverId(receiverId: number): Promise<Message[]>;
-    markMessageAsRead(id: number): Promise<void>;
+    markMessageAsRead(id: number, receiverId: number): Promise<boolean>;
     getAllMessages(): Promise<Message[]>;
 
     // Device token operations
@@ -190,7 +288,11 @@ export interface IStorage {
     getAllFiles(): Promise<FileUpload[]>;
 
     // Archive operations
-    archiveReports(month: number, year: number): Promise<void>;
+    archiveReports(
+        month: number,
+        year: number,
+        companyId: number | null
+    ): Promise<void>;
     getArchivedReports(userId?: number): Promise<ArchiveReport[]>;
 
     // Group message operations
@@ -232,6 +334,11 @@ export interface IStorage {
     ): Promise<TaskTimeLog>;
     getTaskTimeLogs(taskId: number, userId: number): Promise<TaskTimeLog[]>;
 
+    // Task comment operations
+    createTaskComment(comment: InsertTaskComment): Promise<TaskComment>;
+    getTaskCommentById(id: number): Promise<TaskComment | null>;
+    getTaskComments(taskId: number): Promise<TaskCommentWithUser[]>;
+
     // Feedback operations
     createFeedback(feedback: InsertFeedback): Promise<Feedback>;
     getAllFeedbacks(): Promise<Feedback[]>;
@@ -348,6 +455,28 @@ export interface IStorage {
     // Auto task operations
     createAutoTask(task: InsertAutoTask): Promise<AutoTask>;
     getRecentAutoTasks(limit: number): Promise<AutoTask[]>;
+    getAutoTasksByCompany(
+        companyId: number,
+        taskType: string,
+        limit: number
+    ): Promise<AutoTask[]>;
+
+    // Recurring task operations
+    createRecurringTask(task: InsertRecurringTask): Promise<RecurringTask>;
+    getRecurringTaskById(id: number): Promise<RecurringTask | null>;
+    getRecurringTasksByCompany(companyId: number): Promise<RecurringTask[]>;
+    updateRecurringTask(
+        id: number,
+        updates: Partial<InsertRecurringTask> &
+            Partial<Pick<RecurringTask, "rotationIndex" | "lastRunDate">>
+    ): Promise<RecurringTask>;
+    recordRecurringTaskRun(
+        id: number,
+        date: string,
+        rotationIndex: number,
+        newTasks: InsertTask[]
+    ): Promise<Task[] | null>;
+    deleteRecurringTask(id: number): Promise<void>;
 
     // Leave operations
     createLeave(leave: InsertLeave): Promise<Leave>;
@@ -362,6 +491,52 @@ export interface IStorage {
         remarks?: string
     ): Promise<void>;
     getLeaveById(id: number): Promise<Leave | null>;
+    updateLeave(id: number, updates: Partial<InsertLeave>): Promise<void>;
+    getApprovedLeavesInRange(
+        companyId: number,
+        startDate: string,
+        endDate: string
+    ): Promise<Leave[]>;
+
+    // Leave types and balances
+    createLeaveType(leaveType: InsertLeaveType): Promise<LeaveType>;
+    getLeaveTypesByCompany(companyId: number): Promise<LeaveType[]>;
+    getLeaveTypeById(id: number): Promise<LeaveType | null>;
+    getLeaveTypeByCode(
+        companyId: number,
+        code: string
+    ): Promise<LeaveType | null>;
+    updateLeaveType(
+        id: number,
+        updates: Partial<InsertLeaveType>
+    ): Promise<LeaveType | null>;
+    getLeaveBalance(
+        userId: number,
+        leaveTypeId: number,
+        year: number
+    ): Promise<LeaveBalance | null>;
+    createLeaveBalance(balance: InsertLeaveBalance): Promise<LeaveBalance>;
+    adjustLeaveBalanceUsed(id: number, delta: number): Promise<void>;
+    updateLeaveBalanceCarriedForward(
+        id: number,
+        carriedForward: number
+    ): Promise<LeaveBalance>;
+
+    // Leave approval workflow
+    getLeaveApprovalPolicy(
+        companyId: number
+    ): Promise<LeaveApprovalPolicy | null>;
+    upsertLeaveApprovalPolicy(
+        policy: InsertLeaveApprovalPolicy
+    ): Promise<LeaveApprovalPolicy>;
+    createLeaveApproval(approval: InsertLeaveApproval): Promise<LeaveApproval>;
+    getLeaveApprovalsByLeave(leaveId: number): Promise<LeaveApprovalStep[]>;
+    getPendingLeaveApprovals(leaveIds: number[]): Promise<LeaveApproval[]>;
+    getOverdueLeaveApprovals(now: Date): Promise<LeaveApproval[]>;
+    updateLeaveApproval(
+        id: number,
+        updates: Partial<InsertLeaveApproval>
+    ): Promise<LeaveApproval | null>;
 
     // Holiday operations
     createHoliday(holiday: InsertHoliday): Promise<Holiday>;
@@ -369,6 +544,10 @@ export interface IStorage {
     getHolidayByDate(companyId: number, date: string): Promise<Holiday | null>;
     deleteHoliday(id: number): Promise<void>;
     updateHoliday(id: number, updates: Partial<InsertHoliday>): Promise<void>;
+    createHolidayOptIn(optIn: InsertHolidayOptIn): Promise<HolidayOptIn>;
+    deleteHolidayOptIn(holidayId: number, userId: number): Promise<void>;
+    getHolidayOptInsByUser(userId: number): Promise<HolidayOptIn[]>;
+    getHolidayOptInsByCompany(companyId: number): Promise<HolidayOptIn[]>;
 
     // Tasks report operations
     createTasksReport(report: InsertTasksReport): Promise<TasksReport>;
@@ -383,6 +562,25 @@ export interface IStorage {
     getShiftsByCompany(companyId: number): Promise<Shift[]>;
     getShiftById(id: number): Promise<Shift | null>;
 
+    // NEW ATTENDANCE SYSTEM - Shift Assignments
+    createShiftAssignment(
+        assignment: InsertShiftAssignment
+    ): Promise<ShiftAssignment>;
+    getShiftAssignmentsByCompany(
+        companyId: number
+    ): Promise<ShiftAssignment[]>;
+    getShiftAssignmentsForUser(
+        userId: number,
+        teamLeaderId: number | null,
+        date: string
+    ): Promise<ShiftAssignment[]>;
+    getShiftAssignmentById(id: number): Promise<ShiftAssignment | null>;
+    updateShiftAssignment(
+        id: number,
+        updates: Partial<InsertShiftAssignment>
+    ): Promise<ShiftAssignment>;
+    deleteShiftAssignment(id: number): Promise<void>;
+
     // NEW ATTENDANCE SYSTEM - Policy Management
     createOrUpdateAttendancePolicy(
         policy: InsertAttendancePolicy
@@ -391,6 +589,16 @@ export interface IStorage {
         companyId: number
     ): Promise<AttendancePolicy | null>;
 
+    // NEW ATTENDANCE SYSTEM - Geofences
+    createGeofence(geofence: InsertGeofence): Promise<Geofence>;
+    getGeofencesByCompany(companyId: number): Promise<Geofence[]>;
+    getGeofenceById(id: number): Promise<Geofence | null>;
+    updateGeofence(
+        id: number,
+        updates: Partial<InsertGeofence>
+    ): Promise<Geofence>;
+    deleteGeofence(id: number): Promise<void>;
+
     // NEW ATTENDANCE SYSTEM - Attendance Records
     createAttendanceRecord(
         record: InsertAttendanceRecord
@@ -409,6 +617,11 @@ export interface IStorage {
         startDate: string,
         endDate: string
     ): Promise<AttendanceRecord[]>;
+    getAttendanceByCompanyInRange(
+        companyId: number,
+        startDate: string,
+        endDate: string
+    ): Promise<AttendanceRecord[]>;
     getDailyAttendance(
         companyId: number,
         date: string
@@ -421,8 +634,15 @@ export interface IStorage {
         totalDays: number;
         presentDays: number;
         lateDays: number;
+        halfDays: number;
+        shortDays: number;
         absentDays: number;
+        leaveDays: number;
+        holidayDays: number;
+        weeklyOffDays: number;
         totalHours: number;
+        grossHours: number;
+        breakHours: number;
     }>;
     getAttendanceReport(
         companyId: number,
@@ -431,6 +651,26 @@ export interface IStorage {
         type: string
     ): Promise<any>;
 
+    // Attendance Punch Sessions
+    createAttendancePunch(
+        punch: InsertAttendancePunch
+    ): Promise<AttendancePunch>;
+    updateAttendancePunch(
+        id: number,
+        updates: Partial<InsertAttendancePunch>
+    ): Promise<AttendancePunch>;
+    getPunchesByAttendance(attendanceId: number): Promise<AttendancePunch[]>;
+
+    // Attendance Breaks
+    createAttendanceBreak(
+        attendanceBreak: InsertAttendanceBreak
+    ): Promise<AttendanceBreak>;
+    updateAttendanceBreak(
+        id: number,
+        updates: Partial<InsertAttendanceBreak>
+    ): Promise<AttendanceBreak>;
+    getBreaksByAttendance(attendanceId: number): Promise<AttendanceBreak[]>;
+
     // NEW ATTENDANCE SYSTEM - Correction Requests
     createCorrectionRequest(
         request: InsertCorrectionRequest
@@ -443,7 +683,27 @@ export interface IStorage {
     getCorrectionRequestsByUser(userId: number): Promise<CorrectionRequest[]>;
     getPendingCorrectionRequests(
         companyId: number
-    ): Promise<CorrectionRequest[]>;
+    ): Promise<(CorrectionRequest & { userName: string | null })[]>;
+
+    // NEW ATTENDANCE SYSTEM - Overtime
+    createOvertimeRequest(
+        request: InsertOvertimeRequest
+    ): Promise<OvertimeRequest>;
+    updateOvertimeRequest(
+        id: number,
+        updates: Partial<InsertOvertimeRequest>
+    ): Promise<OvertimeRequest>;
+    deleteOvertimeRequest(id: number): Promise<void>;
+    getOvertimeRequestById(id: number): Promise<OvertimeRequest | null>;
+    getOvertimeRequestByUserAndDate(
+        userId: number,
+        date: string
+    ): Promise<OvertimeRequest | null>;
+    getOvertimeRequestsByUser(userId: number): Promise<OvertimeRequest[]>;
+    getOvertimeRequestsByCompany(
+        companyId: number,
+        filters: { status?: string; startDate?: string; endDate?: string }
+    ): Promise<(OvertimeRequest & { userName: string | null })[]>;
 
     // NEW ATTENDANCE SYSTEM - Rewards
     createReward(reward: InsertReward): Promise<Reward>;
@@ -452,6 +712,29 @@ export interface IStorage {
     // NEW ATTENDANCE SYSTEM - Attendance Logs (Audit Trail)
     createAttendanceLog(log: InsertAttendanceLog): Promise<AttendanceLog>;
 
+    // NEW ATTENDANCE SYSTEM - Device Binding
+    createUserDevice(device: InsertUserDevice): Promise<UserDevice>;
+    getUserDeviceById(id: number): Promise<UserDevice | null>;
+    getActiveDeviceByUser(userId: number): Promise<UserDevice | null>;
+    getPendingDeviceByUser(userId: number): Promise<UserDevice | null>;
+    getUserDevicesByCompany(companyId: number): Promise<UserDeviceWithUser[]>;
+    approveUserDevice(id: number, reviewedBy: number): Promise<UserDevice>;
+    rejectUserDevice(id: number, reviewedBy: number): Promise<UserDevice>;
+    revokeUserDevices(userId: number, reviewedBy: number): Promise<void>;
+
+    // NEW ATTENDANCE SYSTEM - Kiosks
+    createAttendanceKiosk(kiosk: InsertAttendanceKiosk): Promise<AttendanceKiosk>;
+    getAttendanceKioskById(id: number): Promise<AttendanceKiosk | null>;
+    getAttendanceKioskByTokenHash(tokenHash: string): Promise<AttendanceKiosk | null>;
+    getAttendanceKiosksByCompany(companyId: number): Promise<AttendanceKiosk[]>;
+    updateAttendanceKiosk(id: number, updates: Partial<InsertAttendanceKiosk> & { lastSeenAt?: Date }): Promise<AttendanceKiosk>;
+    getKioskPinByUser(userId: number): Promise<KioskPin | null>;
+    setKioskPin(pin: InsertKioskPin): Promise<KioskPin>;
+    updateKioskPin(userId: number, updates: Pick<KioskPin, "failedAttempts" | "lockedUntil">): Promise<KioskPin>;
+    redeemKioskCode(kioskId: number, nonce: string): Promise<boolean>;
+    isKioskCodeRedeemed(kioskId: number, nonce: string): Promise<boolean>;
+    deleteKioskCodeRedemptionsBefore(before: Date): Promise<void>;
+
     // NEW ATTENDANCE SYSTEM - Badges
     createAttendanceBadge(badge: InsertAttendanceBadge): Promise<AttendanceBadge>;
     getAttendanceBadgesByUser(userId: number): Promise<AttendanceBadge[]>;
@@ -687,6 +970,19 @@ export class DbStorage implements IStorage {
             await db
                 .delete(taskTimeLogs)
                 .where(inArray(taskTimeLogs.taskId, taskIds));
+            await db
+                .delete(taskComments)
+                .where(inArray(taskComments.taskId, taskIds));
+            await db
+                .delete(taskChecklistItems)
+                .where(inArray(taskChecklistItems.taskId, taskIds));
+            await db
+                .delete(taskDependencies)
+                .where(inArray(taskDependencies.taskId, taskIds));
+            await db
+                .update(tasks)
+                .set({ parentTaskId: null })
+                .where(inArray(tasks.id, taskIds));
         }
 
         if (userIds.length > 0) {
@@ -727,6 +1023,13 @@ export class DbStorage implements IStorage {
         await db.delete(groupMessages).where(eq(groupMessages.companyId, id));
         await db.delete(reports).where(eq(reports.companyId, id));
         await db.delete(tasks).where(eq(tasks.companyId, id));
+        await db
+            .delete(recurringTasks)
+            .where(eq(recurringTasks.companyId, id));
+        await db.delete(autoTasks).where(eq(autoTasks.companyId, id));
+        await db
+            .delete(taskWorkflowStatuses)
+            .where(eq(taskWorkflowStatuses.companyId, id));
         await db
             .delete(companyPayments)
             .where(eq(companyPayments.companyId, id));
@@ -810,6 +1113,13 @@ export class DbStorage implements IStorage {
         await db.update(users).set({ isActive }).where(eq(users.id, id));
     }
 
+    async revokeUserSessions(id: number): Promise<void> {
+        await db
+            .update(users)
+            .set({ sessionVersion: sql`${users.sessionVersion} + 1` })
+            .where(eq(users.id, id));
+    }
+
     async getAllUsers(includeDeleted: boolean = false): Promise<User[]> {
         if (includeDeleted) {
             return await db.select().from(users);
@@ -839,9 +1149,12 @@ export class DbStorage implements IStorage {
         await db.delete(adminActivityLogs).where(eq(adminActivityLogs.performedBy, id));
         await db.update(leaves).set({ approvedBy: null }).where(eq(leaves.approvedBy, id));
         await db.update(correctionRequests).set({ reviewedBy: null }).where(eq(correctionRequests.reviewedBy, id));
+        await db.update(overtimeRequests).set({ reviewedBy: null }).where(eq(overtimeRequests.reviewedBy, id));
         
-        // Delete device tokens
+        // Delete device tokens and the kiosk PIN
         await db.delete(deviceTokens).where(eq(deviceTokens.userId, id));
+        await db.delete(kioskPins).where(eq(kioskPins.userId, id));
+        await db.update(attendanceKiosks).set({ createdBy: null }).where(eq(attendanceKiosks.createdBy, id));
         
         // Delete rewards
         await db.delete(rewards).where(eq(rewards.userId, id));
@@ -853,8 +1166,13 @@ export class DbStorage implements IStorage {
         }
         await db.delete(attendanceLogs).where(eq(attendanceLogs.performedBy, id));
         
+        // Delete punch sessions and breaks (reference attendanceRecords)
+        await db.delete(attendancePunches).where(eq(attendancePunches.userId, id));
+        await db.delete(attendanceBreaks).where(eq(attendanceBreaks.userId, id));
+
         // Delete correction requests (must be after attendanceRecords dependency check)
         await db.delete(correctionRequests).where(eq(correctionRequests.userId, id));
+        await db.delete(overtimeRequests).where(eq(overtimeRequests.userId, id));
         
         // Delete attendance records
         await db.delete(attendanceRecords).where(eq(attendanceRecords.userId, id));
@@ -865,8 +1183,17 @@ export class DbStorage implements IStorage {
         // Delete tasks reports
         await db.delete(tasksReports).where(eq(tasksReports.userId, id));
         
-        // Delete leaves
+        // Delete leaves (with their approval trail) and leave balances
+        await db.update(leaveApprovals).set({ actedBy: null }).where(eq(leaveApprovals.actedBy, id));
+        const userLeaves = await db.select({ id: leaves.id }).from(leaves).where(eq(leaves.userId, id));
+        if (userLeaves.length > 0) {
+            await db.delete(leaveApprovals).where(inArray(leaveApprovals.leaveId, userLeaves.map((l) => l.id)));
+        }
         await db.delete(leaves).where(eq(leaves.userId, id));
+        await db.delete(leaveBalances).where(eq(leaveBalances.userId, id));
+        
+        // Delete optional holiday opt-ins
+        await db.delete(holidayOptIns).where(eq(holidayOptIns.userId, id));
         
         // Delete archive reports
         await db.delete(archiveReports).where(eq(archiveReports.userId, id));
@@ -910,10 +1237,22 @@ export class DbStorage implements IStorage {
         for (const task of userTasks) {
             // Delete task time logs for this task (from any user)
             await db.delete(taskTimeLogs).where(eq(taskTimeLogs.taskId, task.id));
+            await db.delete(taskComments).where(eq(taskComments.taskId, task.id));
+            await db.delete(taskChecklistItems).where(eq(taskChecklistItems.taskId, task.id));
+            await db.delete(taskDependencies).where(or(eq(taskDependencies.taskId, task.id), eq(taskDependencies.dependsOnTaskId, task.id)));
+            // Subtasks of this task stay, as top-level tasks
+            await db.update(tasks).set({ parentTaskId: null }).where(eq(tasks.parentTaskId, task.id));
             // Nullify message references to this task
             await db.update(messages).set({ relatedTaskId: null }).where(eq(messages.relatedTaskId, task.id));
         }
         
+        // Keep the user's comments on other tasks, without an author
+        await db.update(taskComments).set({ userId: null }).where(eq(taskComments.userId, id));
+        await db.update(taskChecklistItems).set({ completedBy: null }).where(eq(taskChecklistItems.completedBy, id));
+        await db.update(taskDependencies).set({ createdBy: null }).where(eq(taskDependencies.createdBy, id));
+        await db.update(recurringTasks).set({ createdBy: null }).where(eq(recurringTasks.createdBy, id));
+        await db.update(recurringTasks).set({ assigneeId: null }).where(eq(recurringTasks.assigneeId, id));
+
         // Null out assignedBy references, then delete assigned tasks
         await db.update(tasks).set({ assignedBy: null }).where(eq(tasks.assignedBy, id));
         await db.delete(tasks).where(eq(tasks.assignedTo, id));
@@ -987,10 +1326,214 @@ export class DbStorage implements IStorage {
 
         // Delete any task time logs for this task
         await db.delete(taskTimeLogs).where(eq(taskTimeLogs.taskId, id));
+        await db.delete(taskComments).where(eq(taskComments.taskId, id));
+        await db
+            .delete(taskChecklistItems)
+            .where(eq(taskChecklistItems.taskId, id));
+        await db
+            .delete(taskDependencies)
+            .where(
+                or(
+                    eq(taskDependencies.taskId, id),
+                    eq(taskDependencies.dependsOnTaskId, id)
+                )
+            );
+
+        // Subtasks outlive their parent as top-level tasks
+        await db
+            .update(tasks)
+            .set({ parentTaskId: null, updatedAt: new Date() })
+            .where(eq(tasks.parentTaskId, id));
 
         await db.delete(tasks).where(eq(tasks.id, id));
     }
 
+    async getSubtasks(parentTaskId: number): Promise<Task[]> {
+        return await db
+            .select()
+            .from(tasks)
+            .where(eq(tasks.parentTaskId, parentTaskId))
+            .orderBy(tasks.createdAt);
+    }
+
+    async createTaskChecklistItem(
+        item: InsertTaskChecklistItem
+    ): Promise<TaskChecklistItem> {
+        const result = await db
+            .insert(taskChecklistItems)
+            .values(item)
+            .returning();
+        return result[0];
+    }
+
+    async getTaskChecklistItemById(
+        id: number
+    ): Promise<TaskChecklistItem | null> {
+        const result = await db
+            .select()
+            .from(taskChecklistItems)
+            .where(eq(taskChecklistItems.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getTaskChecklistItems(taskId: number): Promise<TaskChecklistItem[]> {
+        return await db
+            .select()
+            .from(taskChecklistItems)
+            .where(eq(taskChecklistItems.taskId, taskId))
+            .orderBy(taskChecklistItems.position, taskChecklistItems.id);
+    }
+
+    async updateTaskChecklistItem(
+        id: number,
+        updates: Partial<InsertTaskChecklistItem> &
+            Partial<Pick<TaskChecklistItem, "completedBy" | "completedAt">>
+    ): Promise<TaskChecklistItem> {
+        const result = await db
+            .update(taskChecklistItems)
+            .set(updates)
+            .where(eq(taskChecklistItems.id, id))
+            .returning();
+        return result[0];
+    }
+
+    async deleteTaskChecklistItem(id: number): Promise<void> {
+        await db
+            .delete(taskChecklistItems)
+            .where(eq(taskChecklistItems.id, id));
+    }
+
+    async createTaskDependency(
+        dependency: InsertTaskDependency
+    ): Promise<TaskDependency> {
+        const result = await db
+            .insert(taskDependencies)
+            .values(dependency)
+            .returning();
+        return result[0];
+    }
+
+    async getTaskDependencies(taskId: number): Promise<TaskDependency[]> {
+        return await db
+            .select()
+            .from(taskDependencies)
+            .where(eq(taskDependencies.taskId, taskId))
+            .orderBy(taskDependencies.createdAt);
+    }
+
+    async getTaskDependents(
+        dependsOnTaskId: number
+    ): Promise<TaskDependency[]> {
+        return await db
+            .select()
+            .from(taskDependencies)
+            .where(eq(taskDependencies.dependsOnTaskId, dependsOnTaskId));
+    }
+
+    async getTaskDependenciesByCompany(
+        companyId: number
+    ): Promise<TaskDependency[]> {
+        return await db
+            .select()
+            .from(taskDependencies)
+            .where(eq(taskDependencies.companyId, companyId));
+    }
+
+    // Dependencies of the given tasks whose blocking task is not completed yet
+    async getOpenBlockers(taskIds: number[]): Promise<TaskDependency[]> {
+        if (taskIds.length === 0) {
+            return [];
+        }
+        const result = await db
+            .select({ dependency: taskDependencies })
+            .from(taskDependencies)
+            .innerJoin(tasks, eq(taskDependencies.dependsOnTaskId, tasks.id))
+            .where(
+                and(
+                    inArray(taskDependencies.taskId, taskIds),
+                    ne(tasks.status, "completed")
+                )
+            );
+        return result.map((row) => row.dependency);
+    }
+
+    async deleteTaskDependency(
+        taskId: number,
+        dependsOnTaskId: number
+    ): Promise<void> {
+        await db
+            .delete(taskDependencies)
+            .where(
+                and(
+                    eq(taskDependencies.taskId, taskId),
+                    eq(taskDependencies.dependsOnTaskId, dependsOnTaskId)
+                )
+            );
+    }
+
+    async getWorkflowStatuses(
+        companyId: number
+    ): Promise<TaskWorkflowStatus[]> {
+        return await db
+            .select()
+            .from(taskWorkflowStatuses)
+            .where(eq(taskWorkflowStatuses.companyId, companyId))
+            .orderBy(taskWorkflowStatuses.position, taskWorkflowStatuses.id);
+    }
+
+    async createWorkflowStatuses(
+        statuses: InsertTaskWorkflowStatus[]
+    ): Promise<TaskWorkflowStatus[]> {
+        if (statuses.length === 0) {
+            return [];
+        }
+        return await db
+            .insert(taskWorkflowStatuses)
+            .values(statuses)
+            .returning();
+    }
+
+    async updateWorkflowStatus(
+        companyId: number,
+        key: string,
+        updates: Partial<InsertTaskWorkflowStatus>
+    ): Promise<TaskWorkflowStatus> {
+        const result = await db
+            .update(taskWorkflowStatuses)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(
+                and(
+                    eq(taskWorkflowStatuses.companyId, companyId),
+                    eq(taskWorkflowStatuses.key, key)
+                )
+            )
+            .returning();
+        return result[0];
+    }
+
+    async deleteWorkflowStatus(companyId: number, key: string): Promise<void> {
+        await db
+            .delete(taskWorkflowStatuses)
+            .where(
+                and(
+                    eq(taskWorkflowStatuses.companyId, companyId),
+                    eq(taskWorkflowStatuses.key, key)
+                )
+            );
+    }
+
+    async countTasksWithStatus(
+        companyId: number,
+        status: string
+    ): Promise<number> {
+        const result = await db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(tasks)
+            .where(and(eq(tasks.companyId, companyId), eq(tasks.status, status)));
+        return result[0]?.count ?? 0;
+    }
+
     async createReport(report: InsertReport): Promise<Report> {
         const result = await db.insert(reports).values(report).returning();
         return result[0];
@@ -1075,11 +1618,14 @@ export class DbStorage implements IStorage {
             .orderBy(desc(messages.createdAt));
     }
 
-    async markMessageAsRead(id: number): Promise<void> {
-        await db
+    // False when the message does not exist or was sent to someone else
+    async markMessageAsRead(id: number, receiverId: number): Promise<boolean> {
+        const result = await db
             .update(messages)
             .set({ readStatus: true })
-            .where(eq(messages.id, id));
+            .where(and(eq(messages.id, id), eq(messages.receiverId, receiverId)))
+            .returning({ id: messages.id });
+        return result.length > 0;
     }
 
     async getAllMessages(): Promise<Message[]> {
@@ -1185,19 +1731,24 @@ export class DbStorage implements IStorage {
             .orderBy(desc(fileUploads.uploadedAt));
     }
 
-    async archiveReports(month: number, year: number): Promise<void> {
+    // Moves a month's reports into the archive; a null companyId archives every company's
+    async archiveReports(
+        month: number,
+        year: number,
+        companyId: number | null
+    ): Promise<void> {
         const startDate = new Date(year, month - 1, 1);
         const endDate = new Date(year, month, 0, 23, 59, 59);
+        const inMonth = and(
+            gte(reports.createdAt, startDate),
+            lte(reports.createdAt, endDate),
+            companyId === null ? undefined : eq(reports.companyId, companyId)
+        );
 
         const reportsToArchive = await db
             .select()
             .from(reports)
-            .where(
-                and(
-                    gte(reports.createdAt, startDate),
-                    lte(reports.createdAt, endDate)
-                )
-            );
+            .where(inMonth);
 
         if (reportsToArchive.length > 0) {
             const archiveData = reportsToArchive.map((report) => ({
@@ -1211,14 +1762,7 @@ export class DbStorage implements IStorage {
             }));
 
             await db.insert(archiveReports).values(archiveData);
-            await db
-                .delete(reports)
-                .where(
-                    and(
-                        gte(reports.createdAt, startDate),
-                        lte(reports.createdAt, endDate)
-                    )
-                );
+            await db.delete(reports).where(inMonth);
         }
     }
 
@@ -1446,6 +1990,42 @@ export class DbStorage implements IStorage {
             .orderBy(desc(taskTimeLogs.date));
     }
 
+    async createTaskComment(
+        comment: InsertTaskComment
+    ): Promise<TaskComment> {
+        const result = await db
+            .insert(taskComments)
+            .values(comment)
+            .returning();
+        return result[0];
+    }
+
+    async getTaskCommentById(id: number): Promise<TaskComment | null> {
+        const result = await db
+            .select()
+            .from(taskComments)
+            .where(eq(taskComments.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getTaskComments(taskId: number): Promise<TaskCommentWithUser[]> {
+        const results = await db
+            .select({
+                comment: taskComments,
+                userName: users.displayName,
+            })
+            .from(taskComments)
+            .leftJoin(users, eq(taskComments.userId, users.id))
+            .where(eq(taskComments.taskId, taskId))
+            .orderBy(taskComments.createdAt, taskComments.id);
+
+        return results.map((r) => ({
+            ...r.comment,
+            userName: r.userName,
+        }));
+    }
+
     async createFeedback(feedback: InsertFeedback): Promise<Feedback> {
         const result = await db.insert(feedbacks).values(feedback).returning();
         return result[0];
@@ -1677,10 +2257,10 @@ export class DbStorage implements IStorage {
         completedTasks: number;
         totalFiles: number;
     }> {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
+        // "Today" starts at midnight in the company's timezone
+        const company = companyId ? await this.getCompanyById(companyId) : null;
+        const timezone = company?.timezone || DEFAULT_TIMEZONE;
+        const today = startOfDayInTimezone(todayInTimezone(timezone), timezone);
 
         const [userCount] = companyId
             ? await db
@@ -2119,9 +2699,17 @@ export class DbStorage implements IStorage {
                 startDate: leaves.startDate,
                 endDate: leaves.endDate,
                 reason: leaves.reason,
+                isHalfDay: leaves.isHalfDay,
+                halfDaySession: leaves.halfDaySession,
+                days: leaves.days,
                 status: leaves.status,
                 approvedBy: leaves.approvedBy,
                 remarks: leaves.remarks,
+                changeType: leaves.changeType,
+                requestedStartDate: leaves.requestedStartDate,
+                requestedEndDate: leaves.requestedEndDate,
+                changeReason: leaves.changeReason,
+                history: leaves.history,
                 createdAt: leaves.createdAt,
                 updatedAt: leaves.updatedAt,
                 userName: users.displayName,
@@ -2151,9 +2739,17 @@ export class DbStorage implements IStorage {
                 startDate: leaves.startDate,
                 endDate: leaves.endDate,
                 reason: leaves.reason,
+                isHalfDay: leaves.isHalfDay,
+                halfDaySession: leaves.halfDaySession,
+                days: leaves.days,
                 status: leaves.status,
                 approvedBy: leaves.approvedBy,
                 remarks: leaves.remarks,
+                changeType: leaves.changeType,
+                requestedStartDate: leaves.requestedStartDate,
+                requestedEndDate: leaves.requestedEndDate,
+                changeReason: leaves.changeReason,
+                history: leaves.history,
                 createdAt: leaves.createdAt,
                 updatedAt: leaves.updatedAt,
                 userName: users.displayName,
@@ -2195,48 +2791,343 @@ export class DbStorage implements IStorage {
         return result[0] || null;
     }
 
-    async createHoliday(holiday: InsertHoliday): Promise<Holiday> {
-        const result = await db.insert(holidays).values(holiday).returning();
+    async updateLeave(id: number, updates: Partial<InsertLeave>): Promise<void> {
+        await db
+            .update(leaves)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(leaves.id, id));
+    }
+
+    // Approved leaves of a company that overlap [startDate, endDate]
+    async getApprovedLeavesInRange(
+        companyId: number,
+        startDate: string,
+        endDate: string
+    ): Promise<Leave[]> {
+        return await db
+            .select()
+            .from(leaves)
+            .where(
+                and(
+                    eq(leaves.companyId, companyId),
+                    eq(leaves.status, "approved"),
+                    lte(leaves.startDate, endDate),
+                    gte(leaves.endDate, startDate)
+                )
+            );
+    }
+
+    // Leave Type Management
+    async createLeaveType(leaveType: InsertLeaveType): Promise<LeaveType> {
+        const result = await db.insert(leaveTypes).values(leaveType).returning();
         return result[0];
     }
 
-    async getHolidaysByCompanyId(companyId: number): Promise<Holiday[]> {
+    async getLeaveTypesByCompany(companyId: number): Promise<LeaveType[]> {
         return await db
             .select()
-            .from(holidays)
-            .where(eq(holidays.companyId, companyId))
-            .orderBy(desc(holidays.date));
+            .from(leaveTypes)
+            .where(eq(leaveTypes.companyId, companyId))
+            .orderBy(leaveTypes.name);
     }
 
-    async getHolidayByDate(
+    async getLeaveTypeById(id: number): Promise<LeaveType | null> {
+        const result = await db
+            .select()
+            .from(leaveTypes)
+            .where(eq(leaveTypes.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getLeaveTypeByCode(
         companyId: number,
-        date: string
-    ): Promise<Holiday | null> {
+        code: string
+    ): Promise<LeaveType | null> {
         const result = await db
             .select()
-            .from(holidays)
+            .from(leaveTypes)
             .where(
-                and(eq(holidays.companyId, companyId), eq(holidays.date, date))
+                and(
+                    eq(leaveTypes.companyId, companyId),
+                    eq(leaveTypes.code, code)
+                )
             )
             .limit(1);
         return result[0] || null;
     }
 
-    async deleteHoliday(id: number): Promise<void> {
-        await db.delete(holidays).where(eq(holidays.id, id));
-    }
-
-    async updateHoliday(
+    async updateLeaveType(
         id: number,
-        updates: Partial<InsertHoliday>
-    ): Promise<void> {
-        await db.update(holidays).set(updates).where(eq(holidays.id, id));
+        updates: Partial<InsertLeaveType>
+    ): Promise<LeaveType | null> {
+        const result = await db
+            .update(leaveTypes)
+            .set(updates)
+            .where(eq(leaveTypes.id, id))
+            .returning();
+        return result[0] || null;
     }
 
-    async createTasksReport(report: InsertTasksReport): Promise<TasksReport> {
-        const result = await db.insert(tasksReports).values(report).returning();
-        return result[0];
-    }
+    // Leave Balance Management
+    async getLeaveBalance(
+        userId: number,
+        leaveTypeId: number,
+        year: number
+    ): Promise<LeaveBalance | null> {
+        const result = await db
+            .select()
+            .from(leaveBalances)
+            .where(
+                and(
+                    eq(leaveBalances.userId, userId),
+                    eq(leaveBalances.leaveTypeId, leaveTypeId),
+                    eq(leaveBalances.year, year)
+                )
+            )
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async createLeaveBalance(
+        balance: InsertLeaveBalance
+    ): Promise<LeaveBalance> {
+        const result = await db
+            .insert(leaveBalances)
+            .values(balance)
+            .onConflictDoNothing()
+            .returning();
+        if (result[0]) {
+            return result[0];
+        }
+        return (await this.getLeaveBalance(
+            balance.userId,
+            balance.leaveTypeId,
+            balance.year
+        ))!;
+    }
+
+    // Applied as an increment so concurrent approvals don't overwrite each other
+    async adjustLeaveBalanceUsed(id: number, delta: number): Promise<void> {
+        await db
+            .update(leaveBalances)
+            .set({
+                used: sql`${leaveBalances.used} + ${delta}`,
+                updatedAt: new Date(),
+            })
+            .where(eq(leaveBalances.id, id));
+    }
+
+    async updateLeaveBalanceCarriedForward(
+        id: number,
+        carriedForward: number
+    ): Promise<LeaveBalance> {
+        const result = await db
+            .update(leaveBalances)
+            .set({ carriedForward, updatedAt: new Date() })
+            .where(eq(leaveBalances.id, id))
+            .returning();
+        return result[0];
+    }
+
+    // Leave Approval Workflow
+    async getLeaveApprovalPolicy(
+        companyId: number
+    ): Promise<LeaveApprovalPolicy | null> {
+        const result = await db
+            .select()
+            .from(leaveApprovalPolicies)
+            .where(eq(leaveApprovalPolicies.companyId, companyId))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async upsertLeaveApprovalPolicy(
+        policy: InsertLeaveApprovalPolicy
+    ): Promise<LeaveApprovalPolicy> {
+        const result = await db
+            .insert(leaveApprovalPolicies)
+            .values(policy)
+            .onConflictDoUpdate({
+                target: leaveApprovalPolicies.companyId,
+                set: { ...policy, updatedAt: new Date() },
+            })
+            .returning();
+        return result[0];
+    }
+
+    async createLeaveApproval(
+        approval: InsertLeaveApproval
+    ): Promise<LeaveApproval> {
+        const result = await db
+            .insert(leaveApprovals)
+            .values(approval)
+            .returning();
+        return result[0];
+    }
+
+    async getLeaveApprovalsByLeave(
+        leaveId: number
+    ): Promise<LeaveApprovalStep[]> {
+        return await db
+            .select({
+                id: leaveApprovals.id,
+                leaveId: leaveApprovals.leaveId,
+                companyId: leaveApprovals.companyId,
+                stepIndex: leaveApprovals.stepIndex,
+                approverRole: leaveApprovals.approverRole,
+                subject: leaveApprovals.subject,
+                status: leaveApprovals.status,
+                actedBy: leaveApprovals.actedBy,
+                remarks: leaveApprovals.remarks,
+                dueAt: leaveApprovals.dueAt,
+                actedAt: leaveApprovals.actedAt,
+                createdAt: leaveApprovals.createdAt,
+                actedByName: users.displayName,
+            })
+            .from(leaveApprovals)
+            .leftJoin(users, eq(leaveApprovals.actedBy, users.id))
+            .where(eq(leaveApprovals.leaveId, leaveId))
+            .orderBy(leaveApprovals.stepIndex, leaveApprovals.id);
+    }
+
+    // The step each of the given leaves is currently waiting on
+    async getPendingLeaveApprovals(
+        leaveIds: number[]
+    ): Promise<LeaveApproval[]> {
+        if (leaveIds.length === 0) {
+            return [];
+        }
+
+        return await db
+            .select()
+            .from(leaveApprovals)
+            .where(
+                and(
+                    inArray(leaveApprovals.leaveId, leaveIds),
+                    eq(leaveApprovals.status, "pending")
+                )
+            );
+    }
+
+    async getOverdueLeaveApprovals(now: Date): Promise<LeaveApproval[]> {
+        return await db
+            .select()
+            .from(leaveApprovals)
+            .where(
+                and(
+                    eq(leaveApprovals.status, "pending"),
+                    lte(leaveApprovals.dueAt, now)
+                )
+            );
+    }
+
+    async updateLeaveApproval(
+        id: number,
+        updates: Partial<InsertLeaveApproval>
+    ): Promise<LeaveApproval | null> {
+        const result = await db
+            .update(leaveApprovals)
+            .set(updates)
+            .where(eq(leaveApprovals.id, id))
+            .returning();
+        return result[0] || null;
+    }
+
+    async createHoliday(holiday: InsertHoliday): Promise<Holiday> {
+        const result = await db.insert(holidays).values(holiday).returning();
+        return result[0];
+    }
+
+    async getHolidaysByCompanyId(companyId: number): Promise<Holiday[]> {
+        return await db
+            .select()
+            .from(holidays)
+            .where(eq(holidays.companyId, companyId))
+            .orderBy(desc(holidays.date));
+    }
+
+    async getHolidayByDate(
+        companyId: number,
+        date: string
+    ): Promise<Holiday | null> {
+        const result = await db
+            .select()
+            .from(holidays)
+            .where(
+                and(eq(holidays.companyId, companyId), eq(holidays.date, date))
+            )
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async deleteHoliday(id: number): Promise<void> {
+        await db.delete(holidayOptIns).where(eq(holidayOptIns.holidayId, id));
+        await db.delete(holidays).where(eq(holidays.id, id));
+    }
+
+    async updateHoliday(
+        id: number,
+        updates: Partial<InsertHoliday>
+    ): Promise<void> {
+        await db.update(holidays).set(updates).where(eq(holidays.id, id));
+    }
+
+    // Optional holidays only apply to the employees who opted into them
+    async createHolidayOptIn(optIn: InsertHolidayOptIn): Promise<HolidayOptIn> {
+        const result = await db
+            .insert(holidayOptIns)
+            .values(optIn)
+            .onConflictDoNothing()
+            .returning();
+        if (result[0]) {
+            return result[0];
+        }
+
+        const existing = await db
+            .select()
+            .from(holidayOptIns)
+            .where(
+                and(
+                    eq(holidayOptIns.holidayId, optIn.holidayId),
+                    eq(holidayOptIns.userId, optIn.userId)
+                )
+            )
+            .limit(1);
+        return existing[0];
+    }
+
+    async deleteHolidayOptIn(holidayId: number, userId: number): Promise<void> {
+        await db
+            .delete(holidayOptIns)
+            .where(
+                and(
+                    eq(holidayOptIns.holidayId, holidayId),
+                    eq(holidayOptIns.userId, userId)
+                )
+            );
+    }
+
+    async getHolidayOptInsByUser(userId: number): Promise<HolidayOptIn[]> {
+        return await db
+            .select()
+            .from(holidayOptIns)
+            .where(eq(holidayOptIns.userId, userId));
+    }
+
+    async getHolidayOptInsByCompany(
+        companyId: number
+    ): Promise<HolidayOptIn[]> {
+        return await db
+            .select()
+            .from(holidayOptIns)
+            .where(eq(holidayOptIns.companyId, companyId));
+    }
+
+    async createTasksReport(report: InsertTasksReport): Promise<TasksReport> {
+        const result = await db.insert(tasksReports).values(report).returning();
+        return result[0];
+    }
 
     async getTasksReportByDate(
         userId: number,
@@ -2286,6 +3177,107 @@ export class DbStorage implements IStorage {
             .limit(limit);
     }
 
+    async getAutoTasksByCompany(
+        companyId: number,
+        taskType: string,
+        limit: number
+    ): Promise<AutoTask[]> {
+        return await db
+            .select()
+            .from(autoTasks)
+            .where(
+                and(
+                    eq(autoTasks.companyId, companyId),
+                    eq(autoTasks.taskType, taskType)
+                )
+            )
+            .orderBy(desc(autoTasks.executedAt))
+            .limit(limit);
+    }
+
+    async createRecurringTask(
+        task: InsertRecurringTask
+    ): Promise<RecurringTask> {
+        const result = await db
+            .insert(recurringTasks)
+            .values(task)
+            .returning();
+        return result[0];
+    }
+
+    async getRecurringTaskById(id: number): Promise<RecurringTask | null> {
+        const result = await db
+            .select()
+            .from(recurringTasks)
+            .where(eq(recurringTasks.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getRecurringTasksByCompany(
+        companyId: number
+    ): Promise<RecurringTask[]> {
+        return await db
+            .select()
+            .from(recurringTasks)
+            .where(eq(recurringTasks.companyId, companyId))
+            .orderBy(desc(recurringTasks.createdAt));
+    }
+
+    async updateRecurringTask(
+        id: number,
+        updates: Partial<InsertRecurringTask> &
+            Partial<Pick<RecurringTask, "rotationIndex" | "lastRunDate">>
+    ): Promise<RecurringTask> {
+        const result = await db
+            .update(recurringTasks)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(recurringTasks.id, id))
+            .returning();
+        return result[0];
+    }
+
+    // Marks the definition as run on `date` and creates the run's tasks, together or not
+    // at all. Returns null without creating anything if it already ran that day.
+    async recordRecurringTaskRun(
+        id: number,
+        date: string,
+        rotationIndex: number,
+        newTasks: InsertTask[]
+    ): Promise<Task[] | null> {
+        return await db.transaction(async (tx) => {
+            const marked = await tx
+                .update(recurringTasks)
+                .set({ lastRunDate: date, rotationIndex, updatedAt: new Date() })
+                .where(
+                    and(
+                        eq(recurringTasks.id, id),
+                        or(
+                            isNull(recurringTasks.lastRunDate),
+                            ne(recurringTasks.lastRunDate, date)
+                        )
+                    )
+                )
+                .returning();
+            if (marked.length === 0) {
+                return null;
+            }
+            if (newTasks.length === 0) {
+                return [];
+            }
+            return await tx.insert(tasks).values(newTasks).returning();
+        });
+    }
+
+    // Tasks already generated from the definition are kept
+    async deleteRecurringTask(id: number): Promise<void> {
+        await db
+            .update(tasks)
+            .set({ recurringTaskId: null })
+            .where(eq(tasks.recurringTaskId, id));
+        await db.delete(recurringTasks).where(eq(recurringTasks.id, id));
+    }
+
     async getPendingLeaves(companyId: number): Promise<Leave[]> {
         return await db
             .select()
@@ -2324,6 +3316,82 @@ export class DbStorage implements IStorage {
         return result[0] || null;
     }
 
+    // Shift Assignment Management
+    async createShiftAssignment(
+        assignment: InsertShiftAssignment
+    ): Promise<ShiftAssignment> {
+        const result = await db
+            .insert(shiftAssignments)
+            .values(assignment)
+            .returning();
+        return result[0];
+    }
+
+    async getShiftAssignmentsByCompany(
+        companyId: number
+    ): Promise<ShiftAssignment[]> {
+        return await db
+            .select()
+            .from(shiftAssignments)
+            .where(eq(shiftAssignments.companyId, companyId))
+            .orderBy(desc(shiftAssignments.effectiveFrom));
+    }
+
+    // Every assignment that could apply to the user on `date`, either their own or one
+    // made for their team
+    async getShiftAssignmentsForUser(
+        userId: number,
+        teamLeaderId: number | null,
+        date: string
+    ): Promise<ShiftAssignment[]> {
+        return await db
+            .select()
+            .from(shiftAssignments)
+            .where(
+                and(
+                    teamLeaderId
+                        ? or(
+                              eq(shiftAssignments.userId, userId),
+                              and(
+                                  sql`${shiftAssignments.userId} IS NULL`,
+                                  eq(shiftAssignments.teamLeaderId, teamLeaderId)
+                              )
+                          )
+                        : eq(shiftAssignments.userId, userId),
+                    lte(shiftAssignments.effectiveFrom, date),
+                    or(
+                        sql`${shiftAssignments.effectiveTo} IS NULL`,
+                        gte(shiftAssignments.effectiveTo, date)
+                    )
+                )
+            );
+    }
+
+    async getShiftAssignmentById(id: number): Promise<ShiftAssignment | null> {
+        const result = await db
+            .select()
+            .from(shiftAssignments)
+            .where(eq(shiftAssignments.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async updateShiftAssignment(
+        id: number,
+        updates: Partial<InsertShiftAssignment>
+    ): Promise<ShiftAssignment> {
+        const result = await db
+            .update(shiftAssignments)
+            .set(updates)
+            .where(eq(shiftAssignments.id, id))
+            .returning();
+        return result[0];
+    }
+
+    async deleteShiftAssignment(id: number): Promise<void> {
+        await db.delete(shiftAssignments).where(eq(shiftAssignments.id, id));
+    }
+
     // Attendance Policy Management
     async createOrUpdateAttendancePolicy(
         policy: InsertAttendancePolicy
@@ -2361,6 +3429,45 @@ export class DbStorage implements IStorage {
         return result[0] || null;
     }
 
+    // Geofence Management
+    async createGeofence(geofence: InsertGeofence): Promise<Geofence> {
+        const result = await db.insert(geofences).values(geofence).returning();
+        return result[0];
+    }
+
+    async getGeofencesByCompany(companyId: number): Promise<Geofence[]> {
+        return await db
+            .select()
+            .from(geofences)
+            .where(eq(geofences.companyId, companyId))
+            .orderBy(geofences.name);
+    }
+
+    async getGeofenceById(id: number): Promise<Geofence | null> {
+        const result = await db
+            .select()
+            .from(geofences)
+            .where(eq(geofences.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async updateGeofence(
+        id: number,
+        updates: Partial<InsertGeofence>
+    ): Promise<Geofence> {
+        const result = await db
+            .update(geofences)
+            .set(updates)
+            .where(eq(geofences.id, id))
+            .returning();
+        return result[0];
+    }
+
+    async deleteGeofence(id: number): Promise<void> {
+        await db.delete(geofences).where(eq(geofences.id, id));
+    }
+
     // Attendance Record Management
     async createAttendanceRecord(
         record: InsertAttendanceRecord
@@ -2442,8 +3549,15 @@ export class DbStorage implements IStorage {
                 checkIn: attendanceRecords.checkIn,
                 checkOut: attendanceRecords.checkOut,
                 workDuration: attendanceRecords.workDuration,
+                grossDuration: attendanceRecords.grossDuration,
+                breakMinutes: attendanceRecords.breakMinutes,
                 status: attendanceRecords.status,
                 gpsLocation: attendanceRecords.gpsLocation,
+                checkInDistance: attendanceRecords.checkInDistance,
+                checkInSite: attendanceRecords.checkInSite,
+                checkOutGpsLocation: attendanceRecords.checkOutGpsLocation,
+                checkOutDistance: attendanceRecords.checkOutDistance,
+                checkOutSite: attendanceRecords.checkOutSite,
                 ipAddress: attendanceRecords.ipAddress,
                 deviceId: attendanceRecords.deviceId,
                 remarks: attendanceRecords.remarks,
@@ -2474,8 +3588,16 @@ export class DbStorage implements IStorage {
         totalDays: number;
         presentDays: number;
         lateDays: number;
+        halfDays: number;
+        shortDays: number;
         absentDays: number;
+        leaveDays: number;
+        holidayDays: number;
+        weeklyOffDays: number;
         totalHours: number;
+        grossHours: number;
+        breakHours: number;
+        overtimeHours: number;
     }> {
         const startDate = `${year}-${month.toString().padStart(2, "0")}-01`;
         const lastDay = new Date(year, month, 0).getDate();
@@ -2489,30 +3611,64 @@ export class DbStorage implements IStorage {
             endDate
         );
 
+        // Holidays and weekly offs are counted separately, not as days to be worked
+        const totalDays = records.filter(
+            (r) => !isNonWorkingDay(r.status)
+        ).length;
         const presentDays = records.filter(
             (r) => r.status === "present"
         ).length;
         const lateDays = records.filter((r) => r.status === "late").length;
+        const halfDays = records.filter((r) => r.status === "half_day").length;
+        const shortDays = records.filter(
+            (r) => r.status === "short_day"
+        ).length;
         const absentDays = records.filter((r) => r.status === "absent").length;
+        const leaveDays = records.filter((r) => isLeaveDay(r.status)).length;
+        const holidayDays = records.filter(
+            (r) => r.status === "holiday"
+        ).length;
+        const weeklyOffDays = records.filter(
+            (r) => r.status === "weekly_off"
+        ).length;
         const totalHours =
             records.reduce((sum, r) => sum + (r.workDuration || 0), 0) / 60;
+        // Days settled before breaks were tracked have no gross time of their own
+        const grossHours =
+            records.reduce(
+                (sum, r) => sum + (r.grossDuration ?? r.workDuration ?? 0),
+                0
+            ) / 60;
+        const breakHours =
+            records.reduce((sum, r) => sum + r.breakMinutes, 0) / 60;
+        const overtimeHours =
+            (await this.getOvertimeRequestsByUser(userId))
+                .filter((o) => o.date >= startDate && o.date <= endDate)
+                .reduce((sum, o) => sum + creditedOvertimeMinutes(o), 0) / 60;
 
         return {
-            totalDays: records.length,
+            totalDays,
             presentDays,
             lateDays,
+            halfDays,
+            shortDays,
             absentDays,
+            leaveDays,
+            holidayDays,
+            weeklyOffDays,
             totalHours: Math.round(totalHours * 10) / 10,
+            grossHours: Math.round(grossHours * 10) / 10,
+            breakHours: Math.round(breakHours * 10) / 10,
+            overtimeHours: Math.round(overtimeHours * 10) / 10,
         };
     }
 
-    async getAttendanceReport(
+    async getAttendanceByCompanyInRange(
         companyId: number,
         startDate: string,
-        endDate: string,
-        type: string
-    ): Promise<any> {
-        const records = await db
+        endDate: string
+    ): Promise<AttendanceRecord[]> {
+        return await db
             .select()
             .from(attendanceRecords)
             .where(
@@ -2523,6 +3679,25 @@ export class DbStorage implements IStorage {
                 )
             )
             .orderBy(attendanceRecords.date);
+    }
+
+    async getAttendanceReport(
+        companyId: number,
+        startDate: string,
+        endDate: string,
+        type: string
+    ): Promise<any> {
+        const records = await this.getAttendanceByCompanyInRange(
+            companyId,
+            startDate,
+            endDate
+        );
+        // Only approved overtime is reported, weighted by its day's multiplier for pay
+        const overtime = await this.getOvertimeRequestsByCompany(companyId, {
+            status: "approved",
+            startDate,
+            endDate,
+        });
 
         if (type === "summary") {
             const totalRecords = records.length;
@@ -2530,23 +3705,138 @@ export class DbStorage implements IStorage {
                 (r) => r.status === "present"
             ).length;
             const lateCount = records.filter((r) => r.status === "late").length;
+            const halfDayCount = records.filter(
+                (r) => r.status === "half_day"
+            ).length;
+            const shortDayCount = records.filter(
+                (r) => r.status === "short_day"
+            ).length;
             const absentCount = records.filter(
                 (r) => r.status === "absent"
             ).length;
+            const workedDays = records.filter((r) => r.checkIn && r.checkOut);
+            const netMinutes = workedDays.reduce(
+                (sum, r) => sum + (r.workDuration || 0),
+                0
+            );
+            const grossMinutes = workedDays.reduce(
+                (sum, r) => sum + (r.grossDuration ?? r.workDuration ?? 0),
+                0
+            );
+            const breakMinutes = workedDays.reduce(
+                (sum, r) => sum + r.breakMinutes,
+                0
+            );
+            const overtimeMinutes = overtime.reduce(
+                (sum, o) => sum + creditedOvertimeMinutes(o),
+                0
+            );
+            const weightedOvertimeMinutes = overtime.reduce(
+                (sum, o) => sum + creditedOvertimeMinutes(o) * o.multiplier,
+                0
+            );
 
             return {
                 totalRecords,
                 presentCount,
                 lateCount,
+                halfDayCount,
+                shortDayCount,
                 absentCount,
                 presentPercentage:
                     totalRecords > 0
                         ? Math.round((presentCount / totalRecords) * 100)
                         : 0,
+                netHours: Math.round((netMinutes / 60) * 10) / 10,
+                grossHours: Math.round((grossMinutes / 60) * 10) / 10,
+                breakHours: Math.round((breakMinutes / 60) * 10) / 10,
+                averageBreakMinutes: workedDays.length
+                    ? Math.round(breakMinutes / workedDays.length)
+                    : 0,
+                overtimeHours: Math.round((overtimeMinutes / 60) * 10) / 10,
+                weightedOvertimeHours:
+                    Math.round((weightedOvertimeMinutes / 60) * 10) / 10,
             };
         }
 
-        return records;
+        return records.map((r) => {
+            const approved = overtime.find(
+                (o) => o.userId === r.userId && o.date === r.date
+            );
+            return {
+                ...r,
+                overtimeMinutes: approved
+                    ? creditedOvertimeMinutes(approved)
+                    : 0,
+                overtimeMultiplier: approved?.multiplier ?? null,
+            };
+        });
+    }
+
+    // Attendance Punch Sessions
+    async createAttendancePunch(
+        punch: InsertAttendancePunch
+    ): Promise<AttendancePunch> {
+        const result = await db
+            .insert(attendancePunches)
+            .values(punch)
+            .returning();
+        return result[0];
+    }
+
+    async updateAttendancePunch(
+        id: number,
+        updates: Partial<InsertAttendancePunch>
+    ): Promise<AttendancePunch> {
+        const result = await db
+            .update(attendancePunches)
+            .set(updates)
+            .where(eq(attendancePunches.id, id))
+            .returning();
+        return result[0];
+    }
+
+    async getPunchesByAttendance(
+        attendanceId: number
+    ): Promise<AttendancePunch[]> {
+        return await db
+            .select()
+            .from(attendancePunches)
+            .where(eq(attendancePunches.attendanceId, attendanceId))
+            .orderBy(attendancePunches.checkIn);
+    }
+
+    // Attendance Breaks
+    async createAttendanceBreak(
+        attendanceBreak: InsertAttendanceBreak
+    ): Promise<AttendanceBreak> {
+        const result = await db
+            .insert(attendanceBreaks)
+            .values(attendanceBreak)
+            .returning();
+        return result[0];
+    }
+
+    async updateAttendanceBreak(
+        id: number,
+        updates: Partial<InsertAttendanceBreak>
+    ): Promise<AttendanceBreak> {
+        const result = await db
+            .update(attendanceBreaks)
+            .set(updates)
+            .where(eq(attendanceBreaks.id, id))
+            .returning();
+        return result[0];
+    }
+
+    async getBreaksByAttendance(
+        attendanceId: number
+    ): Promise<AttendanceBreak[]> {
+        return await db
+            .select()
+            .from(attendanceBreaks)
+            .where(eq(attendanceBreaks.attendanceId, attendanceId))
+            .orderBy(attendanceBreaks.startedAt);
     }
 
     // Correction Request Management
@@ -2595,10 +3885,28 @@ export class DbStorage implements IStorage {
 
     async getPendingCorrectionRequests(
         companyId: number
-    ): Promise<CorrectionRequest[]> {
+    ): Promise<(CorrectionRequest & { userName: string | null })[]> {
         return await db
-            .select()
+            .select({
+                id: correctionRequests.id,
+                userId: correctionRequests.userId,
+                companyId: correctionRequests.companyId,
+                attendanceId: correctionRequests.attendanceId,
+                batchId: correctionRequests.batchId,
+                date: correctionRequests.date,
+                requestedCheckIn: correctionRequests.requestedCheckIn,
+                requestedCheckOut: correctionRequests.requestedCheckOut,
+                reason: correctionRequests.reason,
+                attachment: correctionRequests.attachment,
+                status: correctionRequests.status,
+                reviewedBy: correctionRequests.reviewedBy,
+                reviewComments: correctionRequests.reviewComments,
+                createdAt: correctionRequests.createdAt,
+                updatedAt: correctionRequests.updatedAt,
+                userName: users.displayName,
+            })
             .from(correctionRequests)
+            .leftJoin(users, eq(correctionRequests.userId, users.id))
             .where(
                 and(
                     eq(correctionRequests.companyId, companyId),
@@ -2608,6 +3916,111 @@ export class DbStorage implements IStorage {
             .orderBy(desc(correctionRequests.createdAt));
     }
 
+    // Overtime Management
+    async createOvertimeRequest(
+        request: InsertOvertimeRequest
+    ): Promise<OvertimeRequest> {
+        const result = await db
+            .insert(overtimeRequests)
+            .values(request)
+            .returning();
+        return result[0];
+    }
+
+    async updateOvertimeRequest(
+        id: number,
+        updates: Partial<InsertOvertimeRequest>
+    ): Promise<OvertimeRequest> {
+        const result = await db
+            .update(overtimeRequests)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(overtimeRequests.id, id))
+            .returning();
+        return result[0];
+    }
+
+    async deleteOvertimeRequest(id: number): Promise<void> {
+        await db.delete(overtimeRequests).where(eq(overtimeRequests.id, id));
+    }
+
+    async getOvertimeRequestById(id: number): Promise<OvertimeRequest | null> {
+        const result = await db
+            .select()
+            .from(overtimeRequests)
+            .where(eq(overtimeRequests.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getOvertimeRequestByUserAndDate(
+        userId: number,
+        date: string
+    ): Promise<OvertimeRequest | null> {
+        const result = await db
+            .select()
+            .from(overtimeRequests)
+            .where(
+                and(
+                    eq(overtimeRequests.userId, userId),
+                    eq(overtimeRequests.date, date)
+                )
+            )
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getOvertimeRequestsByUser(
+        userId: number
+    ): Promise<OvertimeRequest[]> {
+        return await db
+            .select()
+            .from(overtimeRequests)
+            .where(eq(overtimeRequests.userId, userId))
+            .orderBy(desc(overtimeRequests.date));
+    }
+
+    async getOvertimeRequestsByCompany(
+        companyId: number,
+        filters: { status?: string; startDate?: string; endDate?: string }
+    ): Promise<(OvertimeRequest & { userName: string | null })[]> {
+        const conditions = [eq(overtimeRequests.companyId, companyId)];
+        if (filters.status) {
+            conditions.push(eq(overtimeRequests.status, filters.status));
+        }
+        if (filters.startDate) {
+            conditions.push(gte(overtimeRequests.date, filters.startDate));
+        }
+        if (filters.endDate) {
+            conditions.push(lte(overtimeRequests.date, filters.endDate));
+        }
+
+        return await db
+            .select({
+                id: overtimeRequests.id,
+                userId: overtimeRequests.userId,
+                companyId: overtimeRequests.companyId,
+                attendanceId: overtimeRequests.attendanceId,
+                date: overtimeRequests.date,
+                dayType: overtimeRequests.dayType,
+                plannedMinutes: overtimeRequests.plannedMinutes,
+                workedMinutes: overtimeRequests.workedMinutes,
+                approvedMinutes: overtimeRequests.approvedMinutes,
+                multiplier: overtimeRequests.multiplier,
+                reason: overtimeRequests.reason,
+                status: overtimeRequests.status,
+                reviewedBy: overtimeRequests.reviewedBy,
+                reviewComments: overtimeRequests.reviewComments,
+                reviewedAt: overtimeRequests.reviewedAt,
+                createdAt: overtimeRequests.createdAt,
+                updatedAt: overtimeRequests.updatedAt,
+                userName: users.displayName,
+            })
+            .from(overtimeRequests)
+            .leftJoin(users, eq(overtimeRequests.userId, users.id))
+            .where(and(...conditions))
+            .orderBy(desc(overtimeRequests.date));
+    }
+
     // Reward Management
     async createReward(reward: InsertReward): Promise<Reward> {
         const result = await db.insert(rewards).values(reward).returning();
@@ -2630,13 +4043,268 @@ export class DbStorage implements IStorage {
         return result[0];
     }
 
-    // Mark users as absent if they haven't checked in
-    async markAbsentUsers(date: string): Promise<number> {
-        const allActiveUsers = await this.getAllUsers(false);
+    // Device Binding
+    async createUserDevice(device: InsertUserDevice): Promise<UserDevice> {
+        const result = await db.insert(userDevices).values(device).returning();
+        return result[0];
+    }
+
+    async getUserDeviceById(id: number): Promise<UserDevice | null> {
+        const result = await db
+            .select()
+            .from(userDevices)
+            .where(eq(userDevices.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getActiveDeviceByUser(userId: number): Promise<UserDevice | null> {
+        const result = await db
+            .select()
+            .from(userDevices)
+            .where(
+                and(
+                    eq(userDevices.userId, userId),
+                    eq(userDevices.status, "active")
+                )
+            )
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getPendingDeviceByUser(userId: number): Promise<UserDevice | null> {
+        const result = await db
+            .select()
+            .from(userDevices)
+            .where(
+                and(
+                    eq(userDevices.userId, userId),
+                    eq(userDevices.status, "pending")
+                )
+            )
+            .orderBy(desc(userDevices.createdAt))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getUserDevicesByCompany(
+        companyId: number
+    ): Promise<UserDeviceWithUser[]> {
+        const results = await db
+            .select({
+                device: userDevices,
+                userName: users.displayName,
+                userEmail: users.email,
+            })
+            .from(userDevices)
+            .innerJoin(users, eq(userDevices.userId, users.id))
+            .where(
+                and(
+                    eq(userDevices.companyId, companyId),
+                    inArray(userDevices.status, ["active", "pending"])
+                )
+            )
+            .orderBy(desc(userDevices.createdAt));
+
+        return results.map((r) => ({
+            ...r.device,
+            userName: r.userName,
+            userEmail: r.userEmail,
+        }));
+    }
+
+    // A user has at most one active device, so approving a rebind retires the old one
+    async approveUserDevice(
+        id: number,
+        reviewedBy: number
+    ): Promise<UserDevice> {
+        return await db.transaction(async (tx) => {
+            const pending = await tx
+                .select()
+                .from(userDevices)
+                .where(eq(userDevices.id, id))
+                .limit(1);
+
+            await tx
+                .update(userDevices)
+                .set({ status: "revoked", reviewedBy, reviewedAt: new Date() })
+                .where(
+                    and(
+                        eq(userDevices.userId, pending[0].userId),
+                        eq(userDevices.status, "active")
+                    )
+                );
+
+            const result = await tx
+                .update(userDevices)
+                .set({ status: "active", reviewedBy, reviewedAt: new Date() })
+                .where(eq(userDevices.id, id))
+                .returning();
+            return result[0];
+        });
+    }
+
+    async rejectUserDevice(
+        id: number,
+        reviewedBy: number
+    ): Promise<UserDevice> {
+        const result = await db
+            .update(userDevices)
+            .set({ status: "rejected", reviewedBy, reviewedAt: new Date() })
+            .where(eq(userDevices.id, id))
+            .returning();
+        return result[0];
+    }
+
+    async revokeUserDevices(userId: number, reviewedBy: number): Promise<void> {
+        await db
+            .update(userDevices)
+            .set({ status: "revoked", reviewedBy, reviewedAt: new Date() })
+            .where(
+                and(
+                    eq(userDevices.userId, userId),
+                    inArray(userDevices.status, ["active", "pending"])
+                )
+            );
+    }
+
+    async createAttendanceKiosk(
+        kiosk: InsertAttendanceKiosk
+    ): Promise<AttendanceKiosk> {
+        const result = await db
+            .insert(attendanceKiosks)
+            .values(kiosk)
+            .returning();
+        return result[0];
+    }
+
+    async getAttendanceKioskById(id: number): Promise<AttendanceKiosk | null> {
+        const result = await db
+            .select()
+            .from(attendanceKiosks)
+            .where(eq(attendanceKiosks.id, id))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getAttendanceKioskByTokenHash(
+        tokenHash: string
+    ): Promise<AttendanceKiosk | null> {
+        const result = await db
+            .select()
+            .from(attendanceKiosks)
+            .where(eq(attendanceKiosks.tokenHash, tokenHash))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getAttendanceKiosksByCompany(
+        companyId: number
+    ): Promise<AttendanceKiosk[]> {
+        return await db
+            .select()
+            .from(attendanceKiosks)
+            .where(eq(attendanceKiosks.companyId, companyId))
+            .orderBy(desc(attendanceKiosks.createdAt));
+    }
+
+    async updateAttendanceKiosk(
+        id: number,
+        updates: Partial<InsertAttendanceKiosk> & { lastSeenAt?: Date }
+    ): Promise<AttendanceKiosk> {
+        const result = await db
+            .update(attendanceKiosks)
+            .set(updates)
+            .where(eq(attendanceKiosks.id, id))
+            .returning();
+        return result[0];
+    }
+
+    async getKioskPinByUser(userId: number): Promise<KioskPin | null> {
+        const result = await db
+            .select()
+            .from(kioskPins)
+            .where(eq(kioskPins.userId, userId))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    // Setting a PIN replaces the old one and clears any lockout
+    async setKioskPin(pin: InsertKioskPin): Promise<KioskPin> {
+        const values = {
+            ...pin,
+            failedAttempts: 0,
+            lockedUntil: null,
+            updatedAt: new Date(),
+        };
+        const result = await db
+            .insert(kioskPins)
+            .values(values)
+            .onConflictDoUpdate({ target: kioskPins.userId, set: values })
+            .returning();
+        return result[0];
+    }
+
+    async updateKioskPin(
+        userId: number,
+        updates: Pick<KioskPin, "failedAttempts" | "lockedUntil">
+    ): Promise<KioskPin> {
+        const result = await db
+            .update(kioskPins)
+            .set(updates)
+            .where(eq(kioskPins.userId, userId))
+            .returning();
+        return result[0];
+    }
+
+    // False when the code was redeemed before; the unique key settles concurrent scans
+    async redeemKioskCode(kioskId: number, nonce: string): Promise<boolean> {
+        const result = await db
+            .insert(kioskCodeRedemptions)
+            .values({ kioskId, nonce })
+            .onConflictDoNothing()
+            .returning();
+        return result.length > 0;
+    }
+
+    async isKioskCodeRedeemed(
+        kioskId: number,
+        nonce: string
+    ): Promise<boolean> {
+        const result = await db
+            .select({ id: kioskCodeRedemptions.id })
+            .from(kioskCodeRedemptions)
+            .where(
+                and(
+                    eq(kioskCodeRedemptions.kioskId, kioskId),
+                    eq(kioskCodeRedemptions.nonce, nonce)
+                )
+            )
+            .limit(1);
+        return result.length > 0;
+    }
+
+    async deleteKioskCodeRedemptionsBefore(before: Date): Promise<void> {
+        await db
+            .delete(kioskCodeRedemptions)
+            .where(lt(kioskCodeRedemptions.redeemedAt, before));
+    }
+
+    // Mark a company's users as absent if they haven't checked in. `shouldMark` lets the
+    // caller leave out users whose workday for `date` has not finished yet; users who
+    // were not expected to work per `calendar` get a holiday/weekly_off/on_leave record.
+    async markAbsentUsers(
+        companyId: number,
+        date: string,
+        shouldMark?: (user: User) => Promise<boolean>,
+        calendar?: WorkingCalendar
+    ): Promise<number> {
+        const companyUsers = await this.getUsersByCompanyId(companyId);
         let markedCount = 0;
 
-        for (const user of allActiveUsers) {
+        for (const user of companyUsers) {
             if (!user.companyId) continue;
+            if (shouldMark && !(await shouldMark(user))) continue;
 
             const existingRecord = await this.getAttendanceByUserAndDate(
                 user.id,
@@ -2644,15 +4312,18 @@ export class DbStorage implements IStorage {
             );
 
             if (!existingRecord) {
+                const nonWorkingDay = calendar?.nonWorkingDay(user.id, date);
                 const absentRecord = {
                     userId: user.id,
                     companyId: user.companyId,
                     date: date,
-                    status: "absent" as const,
+                    status: nonWorkingDay?.status ?? "absent",
                     checkIn: null,
                     checkOut: null,
                     workDuration: null,
-                    remarks: "Auto-marked absent - no check-in",
+                    remarks: nonWorkingDay
+                        ? `Auto-marked ${nonWorkingDay.status.replace("_", " ")} - ${nonWorkingDay.reason}`
+                        : "Auto-marked absent - no check-in",
                 };
 
                 await this.createAttendanceRecord(absentRecord);
@@ -2891,12 +4562,9 @@ export class DbStorage implements IStorage {
         totalDrops: number;
         monthDrops: number;
     }> {
-        const now = new Date();
-        const year = now.getFullYear();
-        const month = String(now.getMonth() + 1).padStart(2, "0");
-        const day = String(now.getDate()).padStart(2, "0");
-        const currentMonth = `${year}-${month}`;
-        const today = `${year}-${month}-${day}`;
+        const company = await this.getCompanyById(companyId);
+        const today = todayInTimezone(company?.timezone || DEFAULT_TIMEZONE);
+        const currentMonth = today.substring(0, 7);
 
         const allEnquiries = await this.getEnquiriesByCompanyId(companyId);
 
@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import type { Task, TaskChecklistItem } from "@shared/schema";
+import { publish } from "./realtime";
+import { taskChannels } from "./task-activity";
+import { taskProgress } from "./utils/task-progress";
+
+export type SubtaskWithProgress = Task & { progress: number };
+
+export interface TaskBreakdown {
+    progress: number;
+    checklist: TaskChecklistItem[];
+    subtasks: SubtaskWithProgress[];
+}
+
+// Whether a task may become a subtask of parentTaskId. Subtasks are one level deep: a
+// parent cannot itself be a subtask, and a task that has subtasks cannot get a parent.
+export async function validateParentTask(
+    parentTaskId: number,
+    task: { id?: number; companyId: number }
+): Promise<string | null> {
+    const parent = await storage.getTaskById(parentTaskId);
+    if (!parent || parent.companyId !== task.companyId) {
+        return "Parent task not found";
+    }
+    if (parent.id === task.id) {
+        return "A task cannot be its own subtask";
+    }
+    if (parent.parentTaskId) {
+        return "Subtasks cannot have subtasks of their own";
+    }
+    if (task.id && (await storage.getSubtasks(task.id)).length > 0) {
+        return "A task with subtasks cannot become a subtask";
+    }
+    return null;
+}
+
+// The reason a task cannot be completed yet, or null when it can
+export async function completionBlocker(task: Task): Promise<string | null> {
+    const open = (await storage.getSubtasks(task.id)).filter(
+        (subtask) => subtask.isRequired && subtask.status !== "completed"
+    );
+    if (open.length === 0) {
+        return null;
+    }
+    return `Complete the required subtasks first: ${open
+        .map((subtask) => subtask.title)
+        .join(", ")}`;
+}
+
+async function progressOf(task: Task, subtaskProgress: number[] = []) {
+    const checklist = await storage.getTaskChecklistItems(task.id);
+    return {
+        checklist,
+        progress: taskProgress({
+            completed: task.status === "completed",
+            checklist,
+            subtaskProgress,
+        }),
+    };
+}
+
+// Checklist, subtasks and overall progress of a task, rolled up from its subtasks
+export async function taskBreakdown(task: Task): Promise<TaskBreakdown> {
+    const subtasks: SubtaskWithProgress[] = [];
+    for (const subtask of await storage.getSubtasks(task.id)) {
+        const { progress } = await progressOf(subtask);
+        subtasks.push({ ...subtask, progress });
+    }
+    const { checklist, progress } = await progressOf(
+        task,
+        subtasks.map((subtask) => subtask.progress)
+    );
+    return { progress, checklist, subtasks };
+}
+
+// A change to a subtask moves its parent's progress; followers of the parent refetch it
+export async function publishParentUpdate(task: Task): Promise<void> {
+    if (!task.parentTaskId) {
+        return;
+    }
+    const parent = await storage.getTaskById(task.parentTaskId);
+    if (parent) {
+        publish(await taskChannels(parent), {
+            type: "task_updated",
+            taskId: parent.id,
+            status: parent.status,
+        });
+    }
+}
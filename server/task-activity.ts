@@ -0,0 +1,180 @@
+import { storage } from "./storage";
+import type {
+    Task,
+    TaskActivityType,
+    TaskComment,
+    TaskCommentWithUser,
+    User,
+} from "@shared/schema";
+import { channels, publish } from "./realtime";
+import { sendPushNotificationToUser } from "./lib/firebase-admin";
+import { findMentions } from "./utils/mentions";
+
+// Realtime audience for task events: the assignee, whoever assigned it, the assignee's
+// team leader and the company admins
+export async function taskChannels(task: Task): Promise<string[]> {
+    const audience = [
+        channels.user(task.assignedTo),
+        channels.companyAdmins(task.companyId),
+    ];
+    if (task.assignedBy) {
+        audience.push(channels.user(task.assignedBy));
+    }
+    const leader = await storage.getTeamLeaderByMember(task.assignedTo);
+    if (leader) {
+        audience.push(channels.user(leader.id));
+    }
+    return audience;
+}
+
+// Where a user of the given role finds their tasks, used as push notification links
+export function tasksPath(role: string): string {
+    if (role === "company_admin") return "/admin/tasks";
+    if (role === "team_leader") return "/team-leader/tasks";
+    return "/user/tasks";
+}
+
+async function publishTaskComment(
+    task: Task,
+    comment: TaskComment,
+    extraChannels: string[] = []
+): Promise<TaskCommentWithUser> {
+    const author = comment.userId
+        ? await storage.getUserById(comment.userId)
+        : null;
+    const entry = { ...comment, userName: author?.displayName ?? null };
+    const audience = new Set([...(await taskChannels(task)), ...extraChannels]);
+    publish(Array.from(audience), {
+        type: "task_comment",
+        taskId: task.id,
+        comment: entry,
+    });
+    return entry;
+}
+
+// Adds an automatic entry to the task's stream, e.g. when its status changes
+export async function recordTaskActivity(
+    task: Task,
+    actorId: number | null,
+    activityType: TaskActivityType,
+    oldValue: string | null = null,
+    newValue: string | null = null
+): Promise<TaskCommentWithUser> {
+    const activity = await storage.createTaskComment({
+        taskId: task.id,
+        companyId: task.companyId,
+        userId: actorId,
+        kind: "activity",
+        activityType,
+        oldValue,
+        newValue,
+    });
+    return await publishTaskComment(task, activity);
+}
+
+// Records what an edit changed about a task: its status, assignee and deadline
+export async function recordTaskChanges(
+    before: Task,
+    after: Task,
+    actorId: number
+): Promise<void> {
+    if (before.status !== after.status) {
+        await recordTaskActivity(
+            after,
+            actorId,
+            "status_changed",
+            before.status,
+            after.status
+        );
+    }
+    if (before.assignedTo !== after.assignedTo) {
+        const [previous, next] = await Promise.all([
+            storage.getUserById(before.assignedTo),
+            storage.getUserById(after.assignedTo),
+        ]);
+        await recordTaskActivity(
+            after,
+            actorId,
+            "reassigned",
+            previous?.displayName ?? null,
+            next?.displayName ?? null
+        );
+    }
+    const beforeDeadline = before.deadline?.toISOString() ?? null;
+    const afterDeadline = after.deadline?.toISOString() ?? null;
+    if (beforeDeadline !== afterDeadline) {
+        await recordTaskActivity(
+            after,
+            actorId,
+            "deadline_changed",
+            beforeDeadline,
+            afterDeadline
+        );
+    }
+}
+
+// Posts a comment to a task's stream. A reply to a reply joins the thread of the
+// comment that started it. Company users mentioned as "@Display Name" receive the
+// comment live and as a push notification, as do the assignee and the assigner.
+export async function addTaskComment(
+    task: Task,
+    author: Pick<User, "id" | "displayName">,
+    body: string,
+    parentId: number | null
+): Promise<{ comment: TaskCommentWithUser | null; error: string | null }> {
+    let threadId: number | null = null;
+    if (parentId) {
+        const parent = await storage.getTaskCommentById(parentId);
+        if (!parent || parent.taskId !== task.id || parent.kind !== "comment") {
+            return { comment: null, error: "The comment you replied to was not found" };
+        }
+        threadId = parent.parentId ?? parent.id;
+    }
+
+    const companyUsers = (
+        await storage.getUsersByCompanyId(task.companyId)
+    ).filter((u) => u.isActive);
+    const mentions = findMentions(body, companyUsers).filter(
+        (id) => id !== author.id
+    );
+
+    const comment = await storage.createTaskComment({
+        taskId: task.id,
+        companyId: task.companyId,
+        userId: author.id,
+        kind: "comment",
+        parentId: threadId,
+        body,
+        mentions,
+    });
+    const entry = await publishTaskComment(
+        task,
+        comment,
+        mentions.map((id) => channels.user(id))
+    );
+
+    const participants = [task.assignedTo, task.assignedBy].filter(
+        (id): id is number =>
+            !!id && id !== author.id && !mentions.includes(id)
+    );
+    const roles = new Map(companyUsers.map((u) => [u.id, u.role]));
+    const notify = (userId: number, title: string) =>
+        sendPushNotificationToUser(
+            userId,
+            title,
+            body.length > 120 ? `${body.slice(0, 117)}...` : body,
+            { url: tasksPath(roles.get(userId) ?? "company_member") },
+            storage
+        ).catch((error) =>
+            console.error("Failed to send task comment notification:", error)
+        );
+
+    for (const userId of mentions) {
+        notify(userId, `${author.displayName} mentioned you on "${task.title}"`);
+    }
+    for (const userId of Array.from(new Set(participants))) {
+        notify(userId, `${author.displayName} commented on "${task.title}"`);
+    }
+
+    return { comment: entry, error: null };
+}
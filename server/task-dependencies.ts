@@ -0,0 +1,166 @@
+import { storage } from "./storage";
+import type { Task, TaskWithBlockers } from "@shared/schema";
+import { channels, publish } from "./realtime";
+import { sendPushNotificationToUser } from "./lib/firebase-admin";
+import { taskChannels, tasksPath } from "./task-activity";
+import { findDependencyCycle } from "./utils/dependency-graph";
+
+export type DependencySummary = { id: number; title: string; status: string };
+
+export interface TaskDependencies {
+    isBlocked: boolean;
+    // Tasks this task waits for, and tasks waiting for this one
+    dependsOn: DependencySummary[];
+    blocking: DependencySummary[];
+}
+
+function summarize(task: Task): DependencySummary {
+    return { id: task.id, title: task.title, status: task.status };
+}
+
+async function tasksById(ids: number[]): Promise<Task[]> {
+    const found: Task[] = [];
+    for (const id of ids) {
+        const task = await storage.getTaskById(id);
+        if (task) {
+            found.push(task);
+        }
+    }
+    return found;
+}
+
+// Whether `task` may come to depend on dependsOnTaskId: both tasks are in the same
+// company, the dependency is new, and it does not close a cycle
+export async function validateDependency(
+    task: Task,
+    dependsOnTaskId: number
+): Promise<string | null> {
+    const blocker = await storage.getTaskById(dependsOnTaskId);
+    if (!blocker || blocker.companyId !== task.companyId) {
+        return "Task not found";
+    }
+    if (blocker.id === task.id) {
+        return "A task cannot depend on itself";
+    }
+
+    const edges = await storage.getTaskDependenciesByCompany(task.companyId);
+    if (
+        edges.some(
+            (e) => e.taskId === task.id && e.dependsOnTaskId === blocker.id
+        )
+    ) {
+        return "This dependency already exists";
+    }
+    const cycle = findDependencyCycle(edges, task.id, blocker.id);
+    if (cycle) {
+        const titles = new Map(
+            (await tasksById(Array.from(new Set(cycle)))).map((t) => [
+                t.id,
+                t.title,
+            ])
+        );
+        return `This would create a circular dependency: ${cycle
+            .map((id) => titles.get(id) ?? `#${id}`)
+            .join(" → ")}`;
+    }
+    return null;
+}
+
+// Adds the derived blocked state to a list of tasks
+export async function withBlockers(tasks: Task[]): Promise<TaskWithBlockers[]> {
+    const open = await storage.getOpenBlockers(tasks.map((t) => t.id));
+    return tasks.map((task) => {
+        const blockedByTaskIds = open
+            .filter((d) => d.taskId === task.id)
+            .map((d) => d.dependsOnTaskId);
+        return {
+            ...task,
+            isBlocked:
+                task.status !== "completed" && blockedByTaskIds.length > 0,
+            blockedByTaskIds,
+        };
+    });
+}
+
+export async function taskDependencies(task: Task): Promise<TaskDependencies> {
+    const [dependsOn, blocking] = await Promise.all([
+        storage
+            .getTaskDependencies(task.id)
+            .then((rows) => tasksById(rows.map((d) => d.dependsOnTaskId))),
+        storage
+            .getTaskDependents(task.id)
+            .then((rows) => tasksById(rows.map((d) => d.taskId))),
+    ]);
+    return {
+        isBlocked:
+            task.status !== "completed" &&
+            dependsOn.some((t) => t.status !== "completed"),
+        dependsOn: dependsOn.map(summarize),
+        blocking: blocking.map(summarize),
+    };
+}
+
+// The reason a task cannot be started or completed yet, or null when nothing it
+// depends on is still open
+export async function startBlocker(task: Task): Promise<string | null> {
+    const open = await storage.getOpenBlockers([task.id]);
+    if (open.length === 0) {
+        return null;
+    }
+    const waitingFor = await tasksById(open.map((d) => d.dependsOnTaskId));
+    return `This task is blocked until these tasks are completed: ${waitingFor
+        .map((t) => t.title)
+        .join(", ")}`;
+}
+
+// Tells the tasks that depend on `task` that its status changed. When `task` was
+// the last open dependency of a task, that task's assignee is notified that it can
+// start.
+export async function publishDependencyChanges(
+    before: Task,
+    after: Task
+): Promise<void> {
+    if (before.status === after.status) {
+        return;
+    }
+    const dependents = await storage.getTaskDependents(after.id);
+    if (dependents.length === 0) {
+        return;
+    }
+
+    const stillBlocked = new Set(
+        (await storage.getOpenBlockers(dependents.map((d) => d.taskId))).map(
+            (d) => d.taskId
+        )
+    );
+    for (const dependent of await tasksById(dependents.map((d) => d.taskId))) {
+        publish(await taskChannels(dependent), {
+            type: "task_updated",
+            taskId: dependent.id,
+            status: dependent.status,
+        });
+
+        if (
+            after.status !== "completed" ||
+            dependent.status === "completed" ||
+            stillBlocked.has(dependent.id)
+        ) {
+            continue;
+        }
+        publish(channels.user(dependent.assignedTo), {
+            type: "task_unblocked",
+            taskId: dependent.id,
+            completedTaskId: after.id,
+        });
+        const assignee = await storage.getUserById(dependent.assignedTo);
+        sendPushNotificationToUser(
+            dependent.assignedTo,
+            "Task ready to start",
+            `"${after.title}" is done, so you can start "${dependent.title}"`,
+            { url: tasksPath(assignee?.role ?? "company_member") },
+            storage
+        ).catch((error) =>
+            console.error("Failed to send task unblocked notification:", error)
+        );
+    }
+}
@@ -0,0 +1,302 @@
+import { storage } from "./storage";
+import {
+    BUILT_IN_TASK_STATUSES,
+    DEFAULT_TASK_WORKFLOW,
+    type InsertTask,
+    type InsertTaskWorkflowStatus,
+    type Task,
+    type TaskStatusCategory,
+    type TaskWorkflowStatus,
+} from "@shared/schema";
+import { channels, publish } from "./realtime";
+import type { TenantStorage } from "./tenant-storage";
+
+export type WorkflowColumn = Pick<
+    TaskWorkflowStatus,
+    "key" | "name" | "category" | "position" | "wipLimit" | "allowedTransitions"
+>;
+
+export type WorkflowColumnChanges = Partial<
+    Pick<
+        InsertTaskWorkflowStatus,
+        "name" | "category" | "position" | "wipLimit" | "allowedTransitions"
+    >
+>;
+
+function isBuiltIn(key: string): boolean {
+    return (BUILT_IN_TASK_STATUSES as readonly string[]).includes(key);
+}
+
+function defaultWorkflow(): WorkflowColumn[] {
+    return DEFAULT_TASK_WORKFLOW.map((status, position) => ({
+        ...status,
+        position,
+        wipLimit: null,
+        allowedTransitions: [],
+    }));
+}
+
+// The columns of a company's task board, in order
+export async function companyWorkflow(
+    companyId: number
+): Promise<WorkflowColumn[]> {
+    const stored = await storage.getWorkflowStatuses(companyId);
+    return stored.length > 0 ? stored : defaultWorkflow();
+}
+
+// The default workflow is only stored once an admin first changes it
+async function storedWorkflow(
+    companyId: number
+): Promise<TaskWorkflowStatus[]> {
+    const stored = await storage.getWorkflowStatuses(companyId);
+    if (stored.length > 0) {
+        return stored;
+    }
+    return await storage.createWorkflowStatuses(
+        DEFAULT_TASK_WORKFLOW.map((status, position) => ({
+            ...status,
+            companyId,
+            position,
+            allowedTransitions: [],
+        }))
+    );
+}
+
+// Saves new positions for columns listed in their new order
+async function renumber(
+    companyId: number,
+    ordered: WorkflowColumn[]
+): Promise<void> {
+    for (let position = 0; position < ordered.length; position++) {
+        if (ordered[position].position !== position) {
+            await storage.updateWorkflowStatus(
+                companyId,
+                ordered[position].key,
+                { position }
+            );
+        }
+    }
+}
+
+function publishWorkflow(companyId: number) {
+    publish(channels.company(companyId), {
+        type: "task_workflow_updated",
+    });
+}
+
+// A status key derived from a column name, e.g. "In Review" becomes "in_review"
+function statusKeyFor(name: string, takenKeys: string[]): string {
+    const base =
+        name
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "_")
+            .replace(/^_+|_+$/g, "")
+            .slice(0, 16) || "status";
+    let key = base;
+    for (let suffix = 2; takenKeys.includes(key); suffix++) {
+        key = `${base}_${suffix}`;
+    }
+    return key;
+}
+
+function columnError(
+    columns: WorkflowColumn[],
+    key: string,
+    changes: WorkflowColumnChanges
+): string | null {
+    const category = changes.category as TaskStatusCategory | undefined;
+    if (category === "done" && key !== "completed") {
+        return "Only the Completed column can finish a task";
+    }
+    if (
+        category &&
+        isBuiltIn(key) &&
+        columns.find((c) => c.key === key)?.category !== category
+    ) {
+        return "The category of a built-in column cannot change";
+    }
+    if (changes.wipLimit && key === "completed") {
+        return "The Completed column cannot have a WIP limit";
+    }
+    const keys = columns.map((c) => c.key);
+    for (const target of changes.allowedTransitions ?? []) {
+        if (target === key) {
+            return "A column cannot move tasks to itself";
+        }
+        if (!keys.includes(target)) {
+            return `Unknown status: ${target}`;
+        }
+    }
+    return null;
+}
+
+// Adds a column to a company's workflow, just before its done column
+export async function addWorkflowColumn(
+    companyId: number,
+    column: Required<Pick<WorkflowColumnChanges, "name" | "category">> &
+        WorkflowColumnChanges
+): Promise<string | null> {
+    const columns = await storedWorkflow(companyId);
+    const key = statusKeyFor(
+        column.name,
+        columns.map((c) => c.key)
+    );
+    const error = columnError(columns, key, column);
+    if (error) {
+        return error;
+    }
+
+    const [created] = await storage.createWorkflowStatuses([
+        {
+            companyId,
+            key,
+            name: column.name,
+            category: column.category,
+            position: columns.length,
+            wipLimit: column.wipLimit ?? null,
+            allowedTransitions: column.allowedTransitions ?? [],
+        },
+    ]);
+    const doneIndex = columns.findIndex((c) => c.category === "done");
+    const ordered = [...columns];
+    ordered.splice(doneIndex === -1 ? columns.length : doneIndex, 0, created);
+    await renumber(companyId, ordered);
+    publishWorkflow(companyId);
+    return null;
+}
+
+// Renames, limits or moves a column; `position` is its new index on the board
+export async function updateWorkflowColumn(
+    companyId: number,
+    key: string,
+    changes: WorkflowColumnChanges
+): Promise<string | null> {
+    const columns = await storedWorkflow(companyId);
+    const column = columns.find((c) => c.key === key);
+    if (!column) {
+        return "Column not found";
+    }
+    const error = columnError(columns, key, changes);
+    if (error) {
+        return error;
+    }
+
+    const { position, ...fields } = changes;
+    if (Object.keys(fields).length > 0) {
+        await storage.updateWorkflowStatus(companyId, key, fields);
+    }
+    if (position !== undefined && position !== columns.indexOf(column)) {
+        const ordered = columns.filter((c) => c.key !== key);
+        ordered.splice(Math.min(position, ordered.length), 0, column);
+        await renumber(companyId, ordered);
+    }
+    publishWorkflow(companyId);
+    return null;
+}
+
+// Removes a custom column that no task is in, and every transition into it
+export async function removeWorkflowColumn(
+    companyId: number,
+    key: string
+): Promise<string | null> {
+    const columns = await storedWorkflow(companyId);
+    const column = columns.find((c) => c.key === key);
+    if (!column) {
+        return "Column not found";
+    }
+    if (isBuiltIn(key)) {
+        return "Built-in columns cannot be removed";
+    }
+    const taskCount = await storage.countTasksWithStatus(companyId, key);
+    if (taskCount > 0) {
+        return `Move the ${taskCount} task${
+            taskCount === 1 ? "" : "s"
+        } out of "${column.name}" first`;
+    }
+
+    await storage.deleteWorkflowStatus(companyId, key);
+    for (const other of columns) {
+        if (other.allowedTransitions.includes(key)) {
+            await storage.updateWorkflowStatus(companyId, other.key, {
+                allowedTransitions: other.allowedTransitions.filter(
+                    (target) => target !== key
+                ),
+            });
+        }
+    }
+    await renumber(
+        companyId,
+        columns.filter((c) => c.key !== key)
+    );
+    publishWorkflow(companyId);
+    return null;
+}
+
+// Why a task cannot move to `status`: the status is unknown, the task's current
+// column does not allow the move, or the target column is at its WIP limit
+export async function validateStatusChange(
+    task: Task,
+    status: string
+): Promise<string | null> {
+    if (status === task.status) {
+        return null;
+    }
+    const columns = await companyWorkflow(task.companyId);
+    const target = columns.find((c) => c.key === status);
+    if (!target) {
+        return `Unknown status: ${status}`;
+    }
+
+    const current = columns.find((c) => c.key === task.status);
+    if (
+        current &&
+        current.allowedTransitions.length > 0 &&
+        !current.allowedTransitions.includes(status)
+    ) {
+        const allowed = columns
+            .filter((c) => current.allowedTransitions.includes(c.key))
+            .map((c) => c.name);
+        return `Tasks in "${current.name}" can only move to ${allowed.join(
+            ", "
+        )}`;
+    }
+
+    if (
+        target.wipLimit &&
+        (await storage.countTasksWithStatus(task.companyId, status)) >=
+            target.wipLimit
+    ) {
+        return wipLimitError(target);
+    }
+    return null;
+}
+
+function wipLimitError(column: Pick<WorkflowColumn, "name" | "wipLimit">) {
+    return `"${column.name}" is at its WIP limit of ${column.wipLimit}`;
+}
+
+// Saves a task's changes once validateStatusChange has passed. The WIP limit is checked
+// again as part of the update, since another move may have filled the column since.
+export async function saveTaskChanges(
+    tenant: TenantStorage,
+    task: Task,
+    updates: Partial<InsertTask>
+): Promise<{ task: Task | null; error: string | null }> {
+    const { task: updated, fullColumn } =
+        await tenant.updateTaskWithinWipLimit(task.id, updates);
+    return {
+        task: updated,
+        error: fullColumn ? wipLimitError(fullColumn) : null,
+    };
+}
+
+// Whether tasks in `status` count as started, so their dependencies must be done
+export async function isStartedStatus(
+    companyId: number,
+    status: string
+): Promise<boolean> {
+    const column = (await companyWorkflow(companyId)).find(
+        (c) => c.key === status
+    );
+    return !!column && column.category !== "todo";
+}
@@ -0,0 +1,337 @@
+import { createRequire } from "module";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+
+// The storage layer runs against an in-process Postgres instead of DATABASE_URL
+vi.mock("./db", async () => {
+    const { PGlite } = await import("@electric-sql/pglite");
+    const { drizzle } = await import("drizzle-orm/pglite");
+    const schema = await import("@shared/schema");
+    return { db: drizzle(new PGlite(), { schema }) };
+});
+
+import { db } from "./db";
+import { tenantStorageFor } from "./tenant-storage";
+
+const {
+    companies,
+    users,
+    tasks,
+    reports,
+    fileUploads,
+    enquiries,
+    feedbacks,
+    attendanceRecords,
+    taskWorkflowStatuses,
+} = schema;
+
+async function createTables() {
+    // The ESM build of drizzle-kit/api cannot load under vitest; the CommonJS one can
+    const { generateDrizzleJson, generateMigration } = createRequire(
+        import.meta.url
+    )("drizzle-kit/api") as typeof import("drizzle-kit/api");
+    const statements = await generateMigration(
+        generateDrizzleJson({}),
+        generateDrizzleJson(schema)
+    );
+    for (const statement of statements) {
+        await db.execute(sql.raw(statement));
+    }
+}
+
+// One of everything the tests look up, owned by a single company
+async function seedCompany(name: string) {
+    const [company] = await db
+        .insert(companies)
+        .values({
+            serverId: `${name}-server`,
+            name,
+            email: `admin@${name}.test`,
+            password: "",
+        })
+        .returning();
+    const [admin] = await db
+        .insert(users)
+        .values({
+            uniqueUserId: `${name}-admin`,
+            email: `admin-user@${name}.test`,
+            displayName: `${name} admin`,
+            role: "company_admin",
+            companyId: company.id,
+        })
+        .returning();
+    const [member] = await db
+        .insert(users)
+        .values({
+            uniqueUserId: `${name}-member`,
+            email: `member@${name}.test`,
+            displayName: `${name} member`,
+            companyId: company.id,
+        })
+        .returning();
+    const [task] = await db
+        .insert(tasks)
+        .values({
+            companyId: company.id,
+            assignedBy: admin.id,
+            assignedTo: member.id,
+            title: `${name} task`,
+        })
+        .returning();
+    const [report] = await db
+        .insert(reports)
+        .values({
+            companyId: company.id,
+            userId: member.id,
+            reportType: "evening",
+        })
+        .returning();
+    const [file] = await db
+        .insert(fileUploads)
+        .values({
+            userId: member.id,
+            reportId: report.id,
+            fileName: `${name}.pdf`,
+            fileUrl: `/uploads/${name}.pdf`,
+            fileType: "pdf",
+        })
+        .returning();
+    const [enquiry] = await db
+        .insert(enquiries)
+        .values({
+            companyId: company.id,
+            customerName: `${name} customer`,
+            mobileNo: "5550100",
+            enquiryDate: "2026-10-01",
+            createdBy: admin.id,
+        })
+        .returning();
+    const [feedback] = await db
+        .insert(feedbacks)
+        .values({
+            companyId: company.id,
+            submittedBy: member.id,
+            recipientType: "Admin",
+            message: `${name} feedback`,
+        })
+        .returning();
+    const [attendance] = await db
+        .insert(attendanceRecords)
+        .values({
+            companyId: company.id,
+            userId: member.id,
+            date: "2026-10-01",
+        })
+        .returning();
+    return {
+        company,
+        admin,
+        member,
+        task,
+        report,
+        file,
+        enquiry,
+        feedback,
+        attendance,
+    };
+}
+
+type Seeded = Awaited<ReturnType<typeof seedCompany>>;
+
+let a: Seeded;
+let b: Seeded;
+
+beforeAll(async () => {
+    await createTables();
+    a = await seedCompany("acme");
+    b = await seedCompany("globex");
+}, 60_000);
+
+describe("tenantStorageFor", () => {
+    describe("tasks", () => {
+        it("only returns the caller's company's tasks", async () => {
+            const tenant = tenantStorageFor(a.admin);
+
+            expect((await tenant.getTasks()).map((t) => t.id)).toEqual([
+                a.task.id,
+            ]);
+            expect(await tenant.getTaskById(b.task.id)).toBeNull();
+            expect(await tenant.getTasksByUserId(b.member.id)).toEqual([]);
+            expect(await tenant.getTasksByAssignedBy(b.admin.id)).toEqual([]);
+        });
+
+        it("cannot update or delete another company's task", async () => {
+            const tenant = tenantStorageFor(a.admin);
+
+            expect(
+                await tenant.updateTask(b.task.id, { title: "hijacked" })
+            ).toBeNull();
+            expect(await tenant.deleteTask(b.task.id)).toBe(false);
+
+            const [untouched] = await db
+                .select()
+                .from(tasks)
+                .where(eq(tasks.id, b.task.id));
+            expect(untouched.title).toBe(b.task.title);
+        });
+
+        it("never moves a task to another company", async () => {
+            const updated = await tenantStorageFor(a.admin).updateTask(
+                a.task.id,
+                { companyId: b.company.id, priority: "high" }
+            );
+
+            expect(updated?.companyId).toBe(a.company.id);
+            expect(updated?.priority).toBe("high");
+        });
+    });
+
+    describe("reports", () => {
+        it("only returns the caller's company's reports", async () => {
+            const tenant = tenantStorageFor(a.member);
+
+            expect((await tenant.getReports()).map((r) => r.id)).toEqual([
+                a.report.id,
+            ]);
+            expect(await tenant.getReportsByUserId(b.member.id)).toEqual([]);
+            expect(
+                await tenant.getReportsByDate(
+                    new Date(0),
+                    new Date(Date.now() + 60_000),
+                    b.member.id
+                )
+            ).toEqual([]);
+        });
+    });
+
+    describe("files", () => {
+        it("only returns files uploaded by the caller's company", async () => {
+            const tenant = tenantStorageFor(a.admin);
+
+            expect((await tenant.getFiles()).map((f) => f.id)).toEqual([
+                a.file.id,
+            ]);
+            expect(await tenant.getFilesByUserId(b.member.id)).toEqual([]);
+            expect(await tenant.getFilesByReportId(b.report.id)).toEqual([]);
+        });
+    });
+
+    describe("CRM enquiries", () => {
+        it("only returns the caller's company's enquiries", async () => {
+            const tenant = tenantStorageFor(a.admin);
+
+            expect((await tenant.getEnquiries()).map((e) => e.id)).toEqual([
+                a.enquiry.id,
+            ]);
+            expect(await tenant.getEnquiryById(b.enquiry.id)).toBeNull();
+        });
+    });
+
+    describe("feedback", () => {
+        it("only returns feedback submitted in the caller's company", async () => {
+            const tenant = tenantStorageFor(a.admin);
+
+            expect((await tenant.getFeedbacks()).map((f) => f.id)).toEqual([
+                a.feedback.id,
+            ]);
+            expect(await tenant.getFeedbacksByUserId(b.member.id)).toEqual([]);
+        });
+    });
+
+    describe("attendance", () => {
+        it("only returns the caller's company's attendance", async () => {
+            const tenant = tenantStorageFor(a.admin);
+
+            expect(
+                (await tenant.getAttendanceById(a.attendance.id))?.id
+            ).toBe(a.attendance.id);
+            expect(await tenant.getAttendanceById(b.attendance.id)).toBeNull();
+            expect(
+                await tenant.getAttendanceHistory(
+                    b.member.id,
+                    "2026-01-01",
+                    "2026-12-31"
+                )
+            ).toEqual([]);
+        });
+    });
+
+    describe("super admin", () => {
+        it("reads every company's rows", async () => {
+            const tenant = tenantStorageFor({
+                role: "super_admin",
+                companyId: null,
+            });
+
+            expect(tenant.companyId).toBeNull();
+            expect(
+                (await tenant.getTasks()).map((t) => t.id).sort()
+            ).toEqual([a.task.id, b.task.id].sort());
+            expect(await tenant.getTaskById(b.task.id)).not.toBeNull();
+            expect(await tenant.getEnquiryById(b.enquiry.id)).not.toBeNull();
+            expect(await tenant.getFilesByUserId(b.member.id)).toHaveLength(1);
+        });
+    });
+
+    describe("user without a company", () => {
+        it("reads nothing rather than everything", async () => {
+            const tenant = tenantStorageFor({
+                role: "company_member",
+                companyId: null,
+            });
+
+            expect(tenant.companyId).toBe(-1);
+            expect(await tenant.getTasks()).toEqual([]);
+            expect(await tenant.getReports()).toEqual([]);
+            expect(await tenant.getFiles()).toEqual([]);
+            expect(await tenant.getEnquiries()).toEqual([]);
+            expect(await tenant.getFeedbacks()).toEqual([]);
+            expect(await tenant.getAttendanceById(a.attendance.id)).toBeNull();
+            expect(
+                await tenant.updateTask(a.task.id, { title: "orphaned" })
+            ).toBeNull();
+        });
+    });
+
+    describe("WIP limits", () => {
+        it("refuses a move into a column at its WIP limit", async () => {
+            await db.insert(taskWorkflowStatuses).values({
+                companyId: a.company.id,
+                key: "in_review",
+                name: "In Review",
+                category: "in_progress",
+                wipLimit: 1,
+            });
+            const [second] = await db
+                .insert(tasks)
+                .values({
+                    companyId: a.company.id,
+                    assignedBy: a.admin.id,
+                    assignedTo: a.member.id,
+                    title: "acme second task",
+                })
+                .returning();
+            const tenant = tenantStorageFor(a.admin);
+
+            const moved = await tenant.updateTaskWithinWipLimit(a.task.id, {
+                status: "in_review",
+            });
+            expect(moved.task?.status).toBe("in_review");
+            expect(moved.fullColumn).toBeNull();
+
+            const refused = await tenant.updateTaskWithinWipLimit(second.id, {
+                status: "in_review",
+            });
+            expect(refused.task).toBeNull();
+            expect(refused.fullColumn?.key).toBe("in_review");
+
+            expect(
+                await tenantStorageFor(b.admin).updateTaskWithinWipLimit(
+                    a.task.id,
+                    { status: "pending" }
+                )
+            ).toEqual({ task: null, fullColumn: null });
+        });
+    });
+});
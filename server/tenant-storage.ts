@@ -0,0 +1,392 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+    users,
+    tasks,
+    reports,
+    messages,
+    ratings,
+    feedbacks,
+    fileUploads,
+    archiveReports,
+    enquiries,
+    attendanceRecords,
+    taskWorkflowStatuses,
+    type User,
+    type Task,
+    type InsertTask,
+    type Report,
+    type Message,
+    type Rating,
+    type Feedback,
+    type FileUpload,
+    type ArchiveReport,
+    type Enquiry,
+    type AttendanceRecord,
+    type TaskWorkflowStatus,
+} from "@shared/schema";
+import {
+    eq,
+    and,
+    or,
+    desc,
+    gte,
+    lte,
+    getTableColumns,
+    sql,
+    type SQL,
+    type AnyColumn,
+} from "drizzle-orm";
+
+// Which rows a caller may read or change. `null` means every company (super admin only).
+export type TenantScope = { companyId: number | null };
+
+// Access to company-owned data, limited to a single tenant. Every query goes
+// through `companyFilter`, so a non-super-admin caller cannot read or change
+// another company's rows regardless of which ids it passes in. Tables without a
+// company_id column are scoped through the owning user's company.
+export class TenantStorage {
+    constructor(private readonly scope: TenantScope) {}
+
+    get companyId(): number | null {
+        return this.scope.companyId;
+    }
+
+    private companyFilter(column: AnyColumn): SQL | undefined {
+        if (this.scope.companyId === null) {
+            return undefined;
+        }
+        return eq(column, this.scope.companyId);
+    }
+
+    // Tasks
+    async getTasks(): Promise<Task[]> {
+        return await db
+            .select()
+            .from(tasks)
+            .where(this.companyFilter(tasks.companyId))
+            .orderBy(desc(tasks.createdAt));
+    }
+
+    async getTaskById(id: number): Promise<Task | null> {
+        const result = await db
+            .select()
+            .from(tasks)
+            .where(and(eq(tasks.id, id), this.companyFilter(tasks.companyId)))
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getTasksByUserId(userId: number): Promise<Task[]> {
+        return await db
+            .select()
+            .from(tasks)
+            .where(
+                and(
+                    eq(tasks.assignedTo, userId),
+                    this.companyFilter(tasks.companyId)
+                )
+            )
+            .orderBy(desc(tasks.createdAt));
+    }
+
+    async getTasksByAssignedBy(assignedBy: number): Promise<Task[]> {
+        return await db
+            .select()
+            .from(tasks)
+            .where(
+                and(
+                    eq(tasks.assignedBy, assignedBy),
+                    this.companyFilter(tasks.companyId)
+                )
+            )
+            .orderBy(desc(tasks.createdAt));
+    }
+
+    // Moving a task to another company is never a valid update, so companyId is dropped
+    async updateTask(
+        id: number,
+        updates: Partial<InsertTask>
+    ): Promise<Task | null> {
+        const { companyId: _, ...fields } = updates;
+        const result = await db
+            .update(tasks)
+            .set({ ...fields, updatedAt: new Date() })
+            .where(and(eq(tasks.id, id), this.companyFilter(tasks.companyId)))
+            .returning();
+        return result[0] || null;
+    }
+
+    // Like updateTask, but a move into a column at its WIP limit is refused and the full
+    // column returned instead. The column's row stays locked from the count to the
+    // update, so concurrent moves into it wait their turn rather than overshoot.
+    async updateTaskWithinWipLimit(
+        id: number,
+        updates: Partial<InsertTask>
+    ): Promise<{ task: Task | null; fullColumn: TaskWorkflowStatus | null }> {
+        const { companyId: _, ...fields } = updates;
+        return await db.transaction(async (tx) => {
+            const [task] = await tx
+                .select()
+                .from(tasks)
+                .where(
+                    and(eq(tasks.id, id), this.companyFilter(tasks.companyId))
+                )
+                .for("update");
+            if (!task) {
+                return { task: null, fullColumn: null };
+            }
+
+            if (fields.status !== undefined && fields.status !== task.status) {
+                const [column] = await tx
+                    .select()
+                    .from(taskWorkflowStatuses)
+                    .where(
+                        and(
+                            eq(taskWorkflowStatuses.companyId, task.companyId),
+                            eq(taskWorkflowStatuses.key, fields.status)
+                        )
+                    )
+                    .for("update");
+                if (column?.wipLimit) {
+                    const [{ count }] = await tx
+                        .select({ count: sql<number>`count(*)::int` })
+                        .from(tasks)
+                        .where(
+                            and(
+                                eq(tasks.companyId, task.companyId),
+                                eq(tasks.status, fields.status)
+                            )
+                        );
+                    if (count >= column.wipLimit) {
+                        return { task: null, fullColumn: column };
+                    }
+                }
+            }
+
+            const [updated] = await tx
+                .update(tasks)
+                .set({ ...fields, updatedAt: new Date() })
+                .where(eq(tasks.id, task.id))
+                .returning();
+            return { task: updated, fullColumn: null };
+        });
+    }
+
+    async deleteTask(id: number): Promise<boolean> {
+        const task = await this.getTaskById(id);
+        if (!task) {
+            return false;
+        }
+        await storage.deleteTask(task.id);
+        return true;
+    }
+
+    // Reports
+    async getReports(): Promise<Report[]> {
+        return await db
+            .select()
+            .from(reports)
+            .where(this.companyFilter(reports.companyId))
+            .orderBy(desc(reports.createdAt));
+    }
+
+    async getReportsByUserId(userId: number): Promise<Report[]> {
+        return await db
+            .select()
+            .from(reports)
+            .where(
+                and(
+                    eq(reports.userId, userId),
+                    this.companyFilter(reports.companyId)
+                )
+            )
+            .orderBy(desc(reports.createdAt));
+    }
+
+    async getReportsByDate(
+        startDate: Date,
+        endDate: Date,
+        userId?: number
+    ): Promise<Report[]> {
+        return await db
+            .select()
+            .from(reports)
+            .where(
+                and(
+                    userId ? eq(reports.userId, userId) : undefined,
+                    gte(reports.createdAt, startDate),
+                    lte(reports.createdAt, endDate),
+                    this.companyFilter(reports.companyId)
+                )
+            )
+            .orderBy(desc(reports.createdAt));
+    }
+
+    async getArchivedReports(userId?: number): Promise<ArchiveReport[]> {
+        return await db
+            .select(getTableColumns(archiveReports))
+            .from(archiveReports)
+            .innerJoin(users, eq(archiveReports.userId, users.id))
+            .where(
+                and(
+                    userId ? eq(archiveReports.userId, userId) : undefined,
+                    this.companyFilter(users.companyId)
+                )
+            )
+            .orderBy(desc(archiveReports.originalDate));
+    }
+
+    // Files
+    async getFiles(): Promise<FileUpload[]> {
+        return await this.selectFiles();
+    }
+
+    async getFilesByUserId(userId: number): Promise<FileUpload[]> {
+        return await this.selectFiles(eq(fileUploads.userId, userId));
+    }
+
+    async getFilesByReportId(reportId: number): Promise<FileUpload[]> {
+        return await this.selectFiles(eq(fileUploads.reportId, reportId));
+    }
+
+    private async selectFiles(condition?: SQL): Promise<FileUpload[]> {
+        return await db
+            .select(getTableColumns(fileUploads))
+            .from(fileUploads)
+            .innerJoin(users, eq(fileUploads.userId, users.id))
+            .where(and(condition, this.companyFilter(users.companyId)))
+            .orderBy(desc(fileUploads.uploadedAt));
+    }
+
+    // Messages (scoped by the sender's company)
+    async getMessages(participantId?: number): Promise<Message[]> {
+        return await db
+            .select(getTableColumns(messages))
+            .from(messages)
+            .innerJoin(users, eq(messages.senderId, users.id))
+            .where(
+                and(
+                    participantId
+                        ? or(
+                              eq(messages.senderId, participantId),
+                              eq(messages.receiverId, participantId)
+                          )
+                        : undefined,
+                    this.companyFilter(users.companyId)
+                )
+            )
+            .orderBy(desc(messages.createdAt));
+    }
+
+    // Ratings (scoped by the rated user's company)
+    async getRatings(): Promise<Rating[]> {
+        return await this.selectRatings();
+    }
+
+    async getRatingsByUserId(userId: number): Promise<Rating[]> {
+        return await this.selectRatings(eq(ratings.userId, userId));
+    }
+
+    async getLatestRatingByUserId(userId: number): Promise<Rating | null> {
+        const result = await this.selectRatings(eq(ratings.userId, userId));
+        return result[0] || null;
+    }
+
+    private async selectRatings(condition?: SQL): Promise<Rating[]> {
+        return await db
+            .select(getTableColumns(ratings))
+            .from(ratings)
+            .innerJoin(users, eq(ratings.userId, users.id))
+            .where(and(condition, this.companyFilter(users.companyId)))
+            .orderBy(desc(ratings.createdAt));
+    }
+
+    // Feedback (scoped by the submitter's company)
+    async getFeedbacks(): Promise<Feedback[]> {
+        return await this.selectFeedbacks();
+    }
+
+    async getFeedbacksByUserId(userId: number): Promise<Feedback[]> {
+        return await this.selectFeedbacks(eq(feedbacks.submittedBy, userId));
+    }
+
+    private async selectFeedbacks(condition?: SQL): Promise<Feedback[]> {
+        return await db
+            .select(getTableColumns(feedbacks))
+            .from(feedbacks)
+            .innerJoin(users, eq(feedbacks.submittedBy, users.id))
+            .where(and(condition, this.companyFilter(users.companyId)))
+            .orderBy(desc(feedbacks.createdAt));
+    }
+
+    // CRM enquiries
+    async getEnquiries(): Promise<Enquiry[]> {
+        return await db
+            .select()
+            .from(enquiries)
+            .where(this.companyFilter(enquiries.companyId))
+            .orderBy(desc(enquiries.createdAt));
+    }
+
+    async getEnquiryById(id: number): Promise<Enquiry | null> {
+        const result = await db
+            .select()
+            .from(enquiries)
+            .where(
+                and(
+                    eq(enquiries.id, id),
+                    this.companyFilter(enquiries.companyId)
+                )
+            )
+            .limit(1);
+        return result[0] || null;
+    }
+
+    // Attendance
+    async getAttendanceById(id: number): Promise<AttendanceRecord | null> {
+        const result = await db
+            .select()
+            .from(attendanceRecords)
+            .where(
+                and(
+                    eq(attendanceRecords.id, id),
+                    this.companyFilter(attendanceRecords.companyId)
+                )
+            )
+            .limit(1);
+        return result[0] || null;
+    }
+
+    async getAttendanceHistory(
+        userId: number,
+        startDate: string,
+        endDate: string
+    ): Promise<AttendanceRecord[]> {
+        return await db
+            .select()
+            .from(attendanceRecords)
+            .where(
+                and(
+                    eq(attendanceRecords.userId, userId),
+                    gte(attendanceRecords.date, startDate),
+                    lte(attendanceRecords.date, endDate),
+                    this.companyFilter(attendanceRecords.companyId)
+                )
+            )
+            .orderBy(desc(attendanceRecords.date));
+    }
+}
+
+// A user without a company can only be a super admin; anyone else gets a scope that
+// matches no rows rather than falling back to unscoped access.
+const NO_COMPANY = -1;
+
+export function tenantStorageFor(
+    user: Pick<User, "role" | "companyId">
+): TenantStorage {
+    if (user.role === "super_admin") {
+        return new TenantStorage({ companyId: null });
+    }
+    return new TenantStorage({ companyId: user.companyId ?? NO_COMPANY });
+}
@@ -0,0 +1,29 @@
+export type ApproverRole = 'team_leader' | 'company_admin';
+
+// Single step, with admins able to decide at any point, as before chains were configurable
+export const DEFAULT_APPROVAL_STEPS: ApproverRole[] = ['team_leader'];
+export const DEFAULT_SLA_HOURS = 48;
+
+function isApproverRole(step: string): step is ApproverRole {
+  return step === 'team_leader' || step === 'company_admin';
+}
+
+// The approver roles a leave goes through. Leaves longer than `longLeaveDays` always
+// end with a company admin.
+export function approvalChain(
+  steps: string[],
+  leaveDays: number | null,
+  longLeaveDays: number | null
+): ApproverRole[] {
+  const chain = steps.filter(isApproverRole);
+  const isLongLeave = longLeaveDays !== null && leaveDays !== null && leaveDays > longLeaveDays;
+
+  if (chain.length === 0 || (isLongLeave && chain[chain.length - 1] !== 'company_admin')) {
+    chain.push('company_admin');
+  }
+  return chain;
+}
+
+export function dueAt(from: Date, slaHours: number): Date {
+  return new Date(from.getTime() + slaHours * 60 * 60 * 1000);
+}
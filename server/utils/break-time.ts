@@ -0,0 +1,50 @@
+import type { AttendanceBreak, AttendancePolicy, BreakType } from '@shared/schema';
+
+export const BREAK_TYPES: BreakType[] = ['lunch', 'personal', 'meeting'];
+
+type BreakSpan = Pick<AttendanceBreak, 'breakType' | 'startedAt' | 'endedAt'>;
+type BreakPolicy = Pick<AttendancePolicy, 'maxBreakMinutes' | 'breakTypeLimits'> | null | undefined;
+
+// Length of a break in whole minutes; one still running counts up to `now`
+export function breakDuration(span: BreakSpan, now: Date): number {
+  const end = span.endedAt ? new Date(span.endedAt) : now;
+  return Math.max(0, Math.floor((end.getTime() - new Date(span.startedAt).getTime()) / 1000 / 60));
+}
+
+export function totalBreakMinutes(breaks: BreakSpan[], now: Date, type?: BreakType): number {
+  return breaks
+    .filter((span) => !type || span.breakType === type)
+    .reduce((sum, span) => sum + breakDuration(span, now), 0);
+}
+
+// Minutes of `type` still allowed today under both the daily total and the type's own
+// limit, or null when the policy sets neither
+export function remainingBreakMinutes(
+  breaks: BreakSpan[],
+  type: BreakType,
+  policy: BreakPolicy,
+  now: Date
+): number | null {
+  const allowances: number[] = [];
+  if (policy?.maxBreakMinutes) {
+    allowances.push(policy.maxBreakMinutes - totalBreakMinutes(breaks, now));
+  }
+  const typeLimit = policy?.breakTypeLimits?.[type];
+  if (typeLimit) {
+    allowances.push(typeLimit - totalBreakMinutes(breaks, now, type));
+  }
+  return allowances.length ? Math.max(0, Math.min(...allowances)) : null;
+}
+
+// Break minutes taken beyond the policy's allowances; a day over both the daily total
+// and a type limit counts the larger excess
+export function breakOverageMinutes(breaks: BreakSpan[], policy: BreakPolicy, now: Date): number {
+  const overTotal = policy?.maxBreakMinutes
+    ? totalBreakMinutes(breaks, now) - policy.maxBreakMinutes
+    : 0;
+  const overTypes = BREAK_TYPES.reduce((sum, type) => {
+    const limit = policy?.breakTypeLimits?.[type];
+    return limit ? sum + Math.max(0, totalBreakMinutes(breaks, now, type) - limit) : sum;
+  }, 0);
+  return Math.max(0, overTotal, overTypes);
+}
@@ -0,0 +1,53 @@
+import type { AttendancePolicy } from '@shared/schema';
+
+export type ArrivalStatus = 'present' | 'late';
+export type DayStatus = ArrivalStatus | 'half_day' | 'short_day' | 'absent';
+
+// Leave is recorded as 'leave' when marked from the attendance page and as 'on_leave'
+// when generated from an approved leave request
+const LEAVE_DAY_STATUSES = ['leave', 'on_leave'];
+
+// Holidays and weekly offs are recorded so the calendar shows them, but are not days
+// anyone was expected to work
+const NON_WORKING_DAY_STATUSES = ['holiday', 'weekly_off'];
+
+export function isLeaveDay(status: string): boolean {
+  return LEAVE_DAY_STATUSES.includes(status);
+}
+
+export function isNonWorkingDay(status: string): boolean {
+  return NON_WORKING_DAY_STATUSES.includes(status);
+}
+
+// Used when a company has not saved an attendance policy yet (matches the table defaults)
+export const DEFAULT_DAY_HOURS = { halfDayHours: 4, fullDayHours: 8 };
+
+export function workedMinutes(checkIn: Date, checkOut: Date, breakMinutes: number = 0): number {
+  const elapsed = Math.floor((checkOut.getTime() - checkIn.getTime()) / 1000 / 60);
+  return Math.max(0, elapsed - breakMinutes);
+}
+
+// Time on the clock across a day's punch sessions; the gaps between sessions are not
+// work. Sessions still open are left out.
+export function sessionMinutes(sessions: { checkIn: Date; checkOut: Date | null }[]): number {
+  return sessions.reduce(
+    (sum, session) =>
+      session.checkOut ? sum + workedMinutes(new Date(session.checkIn), new Date(session.checkOut)) : sum,
+    0
+  );
+}
+
+// Final status of a completed day. A full day keeps its arrival status (present or
+// late); anything shorter is graded by the policy's half/full day thresholds.
+export function deriveDayStatus(
+  minutes: number,
+  policy: Pick<AttendancePolicy, 'halfDayHours' | 'fullDayHours'> | null | undefined,
+  arrival: ArrivalStatus
+): DayStatus {
+  const { halfDayHours, fullDayHours } = policy ?? DEFAULT_DAY_HOURS;
+
+  if (minutes >= fullDayHours * 60) return arrival;
+  if (minutes >= halfDayHours * 60) return 'half_day';
+  if (minutes > 0) return 'short_day';
+  return 'absent';
+}
@@ -0,0 +1,35 @@
+export type DependencyEdge = { taskId: number; dependsOnTaskId: number };
+
+// The chain of tasks that would close a cycle if `taskId` came to depend on
+// `dependsOnTaskId`, from `taskId` back to itself, or null when the new dependency is safe
+export function findDependencyCycle(
+  edges: DependencyEdge[],
+  taskId: number,
+  dependsOnTaskId: number
+): number[] | null {
+  if (taskId === dependsOnTaskId) return [taskId, taskId];
+
+  const dependsOn = new Map<number, number[]>();
+  for (const edge of edges) {
+    const list = dependsOn.get(edge.taskId) ?? [];
+    list.push(edge.dependsOnTaskId);
+    dependsOn.set(edge.taskId, list);
+  }
+
+  // Depth-first from the new blocker: reaching taskId again means a cycle
+  const visited = new Set<number>();
+  const path: number[] = [];
+  const visit = (id: number): boolean => {
+    if (id === taskId) return true;
+    if (visited.has(id)) return false;
+    visited.add(id);
+    path.push(id);
+    for (const next of dependsOn.get(id) ?? []) {
+      if (visit(next)) return true;
+    }
+    path.pop();
+    return false;
+  };
+
+  return visit(dependsOnTaskId) ? [taskId, ...path, taskId] : null;
+}
@@ -0,0 +1,96 @@
+import type { Geofence } from '@shared/schema';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceMatch {
+  geofence: Geofence;
+  distance: number;
+  inside: boolean;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// The attendance page sends locations as "lat,lng"
+export function parseGpsLocation(value: string | null | undefined): Coordinates | null {
+  if (!value) return null;
+
+  const [lat, lng] = value.split(',').map((part) => parseFloat(part.trim()));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  return { latitude: lat, longitude: lng };
+}
+
+// Great-circle (haversine) distance, rounded to whole meters
+export function distanceInMeters(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return Math.round(2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h)));
+}
+
+// Picks the closest geofence that contains the point, or failing that the one whose
+// boundary is nearest, so a rejection can tell the user how far off they are
+export function findNearestGeofence(point: Coordinates, geofences: Geofence[]): GeofenceMatch | null {
+  let best: GeofenceMatch | null = null;
+
+  for (const geofence of geofences) {
+    if (!geofence.isActive) continue;
+
+    const distance = distanceInMeters(point, geofence);
+    const inside = distance <= geofence.radiusMeters;
+    const candidate = { geofence, distance, inside };
+
+    if (
+      !best ||
+      (inside && !best.inside) ||
+      (inside && best.inside && distance < best.distance) ||
+      (!inside &&
+        !best.inside &&
+        distance - geofence.radiusMeters < best.distance - best.geofence.radiusMeters)
+    ) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+export type PunchLocationCheck =
+  | { allowed: true; distance: number | null; site: string | null }
+  | { allowed: false; reason: 'gps_required' | 'no_geofence' }
+  | { allowed: false; reason: 'outside_geofence'; match: GeofenceMatch };
+
+// Checks a check-in/out location against a company's geofences. When GPS is required
+// the location must be inside an active geofence, so without one nothing passes;
+// otherwise the nearest site and distance are only recorded.
+export function evaluatePunchLocation(
+  gpsLocation: string | null | undefined,
+  geofences: Geofence[],
+  requireGPS: boolean
+): PunchLocationCheck {
+  const point = parseGpsLocation(gpsLocation);
+  if (!point) {
+    return requireGPS
+      ? { allowed: false, reason: 'gps_required' }
+      : { allowed: true, distance: null, site: null };
+  }
+
+  const match = findNearestGeofence(point, geofences);
+  if (requireGPS && !match) return { allowed: false, reason: 'no_geofence' };
+  if (requireGPS && match && !match.inside) return { allowed: false, reason: 'outside_geofence', match };
+
+  return {
+    allowed: true,
+    distance: match ? match.distance : null,
+    site: match && match.inside ? match.geofence.name : null,
+  };
+}
@@ -0,0 +1,40 @@
+import type { AttendancePolicy } from '@shared/schema';
+
+export type LatePenaltyRules = Pick<
+  AttendancePolicy,
+  'lateMarksPerDeduction' | 'lateMarkDeductionDays' | 'severeLateMinutes'
+>;
+
+export interface LateDay {
+  date: string;
+  minutesLate: number;
+  // Whether the day was otherwise attended in full; half days are already paid as such
+  fullDay: boolean;
+}
+
+export interface LatePenalty {
+  lateMarks: number;
+  severeLateDays: string[];
+  deductionDays: number;
+  // Late marks left before the next deduction, null when marks carry no deduction
+  marksToNextDeduction: number | null;
+}
+
+// Penalty for a month of late arrivals. A full day with an arrival beyond
+// severeLateMinutes is paid as half a day and does not also count as a late mark;
+// every lateMarksPerDeduction remaining marks deduct lateMarkDeductionDays.
+export function latePenalty(days: LateDay[], rules: LatePenaltyRules): LatePenalty {
+  const severe = days.filter(
+    (d) => d.fullDay && rules.severeLateMinutes !== null && d.minutesLate > rules.severeLateMinutes
+  );
+  const lateMarks = days.length - severe.length;
+  const perDeduction = rules.lateMarksPerDeduction;
+
+  const markDeductions = perDeduction ? Math.floor(lateMarks / perDeduction) * rules.lateMarkDeductionDays : 0;
+  return {
+    lateMarks,
+    severeLateDays: severe.map((d) => d.date),
+    deductionDays: markDeductions + severe.length * 0.5,
+    marksToNextDeduction: perDeduction ? perDeduction - (lateMarks % perDeduction) : null,
+  };
+}
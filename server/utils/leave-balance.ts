@@ -0,0 +1,57 @@
+import type { LeaveType } from '@shared/schema';
+import { addDays } from './shift-schedule';
+
+// Balances move in half days
+function roundDownToHalf(days: number): number {
+  return Math.floor(days * 2) / 2;
+}
+
+// Days of a leave type earned by the end of `month` (1-12). Monthly accrual credits a
+// twelfth of the annual quota at the start of each month.
+export function accruedDays(
+  leaveType: Pick<LeaveType, 'annualQuota' | 'accrual'>,
+  month: number
+): number {
+  if (leaveType.accrual !== 'monthly') return leaveType.annualQuota;
+  return roundDownToHalf((leaveType.annualQuota * month) / 12);
+}
+
+export function carryForwardDays(unused: number, cap: number): number {
+  return Math.max(0, Math.min(unused, cap));
+}
+
+export interface LeaveDayOptions {
+  isHalfDay: boolean;
+  sandwichRule: boolean;
+  isNonWorking: (date: string) => boolean;
+}
+
+// Days a leave from startDate to endDate (inclusive) costs, by the calendar year each
+// day falls in so a leave over New Year is charged to both years' balances. Non-working
+// days are free unless the sandwich rule applies and leave days fall on both sides.
+export function countLeaveDaysByYear(startDate: string, endDate: string, options: LeaveDayOptions): Map<number, number> {
+  const byYear = new Map<number, number>();
+  if (options.isHalfDay) {
+    if (!options.isNonWorking(startDate)) byYear.set(yearOf(startDate), 0.5);
+    return byYear;
+  }
+
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  const working = dates.map((date) => !options.isNonWorking(date));
+  const firstWorking = working.indexOf(true);
+  const lastWorking = working.lastIndexOf(true);
+
+  dates.forEach((date, i) => {
+    if (working[i] || (options.sandwichRule && i > firstWorking && i < lastWorking)) {
+      byYear.set(yearOf(date), (byYear.get(yearOf(date)) ?? 0) + 1);
+    }
+  });
+  return byYear;
+}
+
+export function yearOf(date: string): number {
+  return parseInt(date.slice(0, 4));
+}
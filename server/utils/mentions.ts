@@ -0,0 +1,31 @@
+export interface MentionCandidate {
+  id: number;
+  displayName: string;
+}
+
+function isNameCharacter(char: string | undefined): boolean {
+  // Letters of any script have distinct cases; \w covers digits and the underscore
+  return !!char && (/\w/.test(char) || char.toLowerCase() !== char.toUpperCase());
+}
+
+// Users mentioned in a comment as "@Display Name". Matching ignores case, and a name
+// only counts when it is not followed by more of a word, so "@Ann" does not match
+// "@Anna"; when two names both match at the same "@", the longer one wins.
+export function findMentions(body: string, candidates: MentionCandidate[]): number[] {
+  const text = body.toLowerCase();
+  const byLength = [...candidates]
+    .filter((c) => c.displayName.trim())
+    .sort((a, b) => b.displayName.length - a.displayName.length);
+  const mentioned = new Set<number>();
+
+  for (let at = text.indexOf('@'); at !== -1; at = text.indexOf('@', at + 1)) {
+    const match = byLength.find((c) => {
+      const name = c.displayName.trim().toLowerCase();
+      return text.startsWith(name, at + 1) && !isNameCharacter(text[at + 1 + name.length]);
+    });
+    if (match) {
+      mentioned.add(match.id);
+    }
+  }
+  return Array.from(mentioned);
+}
@@ -0,0 +1,38 @@
+import type { AttendancePolicy, OvertimeRequest } from '@shared/schema';
+
+export type OvertimeDayType = 'working' | 'weekend' | 'holiday';
+
+// Matches the attendance_policies column defaults for companies without a saved policy
+export const DEFAULT_OVERTIME_MULTIPLIERS: Record<OvertimeDayType, number> = {
+  working: 1.5,
+  weekend: 2,
+  holiday: 2,
+};
+
+// Minutes worked beyond `expectedMinutes`, counted in whole blocks of `blockMinutes`.
+// Extra time shorter than one block is not overtime.
+export function overtimeMinutes(worked: number, expectedMinutes: number, blockMinutes: number): number {
+  const extra = Math.max(0, worked - expectedMinutes);
+  return blockMinutes > 0 ? Math.floor(extra / blockMinutes) * blockMinutes : extra;
+}
+
+export function overtimeMultiplier(
+  policy:
+    | Pick<AttendancePolicy, 'overtimeMultiplier' | 'weekendOvertimeMultiplier' | 'holidayOvertimeMultiplier'>
+    | null
+    | undefined,
+  dayType: OvertimeDayType
+): number {
+  if (!policy) return DEFAULT_OVERTIME_MULTIPLIERS[dayType];
+  if (dayType === 'holiday') return policy.holidayOvertimeMultiplier;
+  if (dayType === 'weekend') return policy.weekendOvertimeMultiplier;
+  return policy.overtimeMultiplier;
+}
+
+// Overtime minutes that count for an entry: approved time, never more than was worked
+export function creditedOvertimeMinutes(
+  request: Pick<OvertimeRequest, 'status' | 'workedMinutes' | 'approvedMinutes'>
+): number {
+  if (request.status !== 'approved') return 0;
+  return Math.min(request.workedMinutes, request.approvedMinutes ?? request.workedMinutes);
+}
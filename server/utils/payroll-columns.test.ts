@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './payroll-columns';
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv([['Doe, Jane', 'say "hi"', 'two\nlines', 3]])).toBe(
+      '"Doe, Jane","say ""hi""","two\nlines",3'
+    );
+  });
+
+  it('keeps text that starts like a formula from running as one', () => {
+    expect(
+      toCsv([['=HYPERLINK("http://x.test","pay")', '+1', '-2', '@SUM(A1)', '\tname', '\rname']])
+    ).toBe('"\'=HYPERLINK(""http://x.test"",""pay"")",\'+1,\'-2,\'@SUM(A1),\'\tname,"\'\rname"');
+  });
+
+  it('leaves numbers alone, negative ones included', () => {
+    expect(toCsv([[-1.5, 0, 'Jane']])).toBe('-1.5,0,Jane');
+  });
+});
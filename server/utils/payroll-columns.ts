@@ -0,0 +1,96 @@
+import { PAYROLL_FIELDS, type PayrollColumnMapping, type PayrollField } from '@shared/schema';
+
+export type PayrollPreset = 'standard' | 'zoho_payroll' | 'greythr' | 'custom';
+
+type PresetLayout = { name: string; columns: PayrollColumnMapping };
+
+// Header layouts offered for the monthly export. paidLeaveByType expands to one column
+// per leave type, named "<header> (<leave type code>)".
+export const PAYROLL_PRESETS: Record<Exclude<PayrollPreset, 'custom'>, PresetLayout> = {
+  standard: {
+    name: 'Standard',
+    columns: {
+      employeeId: 'Employee ID',
+      employeeName: 'Employee Name',
+      email: 'Email',
+      periodDays: 'Days in Period',
+      payableDays: 'Payable Days',
+      lopDays: 'LOP Days',
+      paidLeaveDays: 'Paid Leave Days',
+      paidLeaveByType: 'Paid Leave',
+      holidays: 'Holidays',
+      weeklyOffs: 'Weekly Offs',
+      presentDays: 'Present Days',
+      lateCount: 'Late Count',
+      lateDeductionDays: 'Late Deduction Days',
+      halfDays: 'Half Days',
+      overtimeHours: 'Overtime Hours',
+      weightedOvertimeHours: 'Payable Overtime Hours',
+    },
+  },
+  zoho_payroll: {
+    name: 'Zoho Payroll',
+    columns: {
+      employeeId: 'Employee ID',
+      employeeName: 'Employee Name',
+      payableDays: 'Payable Days',
+      lopDays: 'LOP Days',
+      paidLeaveByType: 'Leave',
+      overtimeHours: 'Overtime Hours',
+    },
+  },
+  greythr: {
+    name: 'greytHR',
+    columns: {
+      employeeId: 'Employee No',
+      employeeName: 'Name',
+      periodDays: 'Total Days',
+      payableDays: 'Paid Days',
+      lopDays: 'LOP',
+      holidays: 'Holidays',
+      weeklyOffs: 'Weekly Off',
+      lateCount: 'Late Marks',
+      lateDeductionDays: 'Late Deduction',
+      weightedOvertimeHours: 'OT Hours',
+    },
+  },
+};
+
+export interface PayrollColumn {
+  field: PayrollField;
+  header: string;
+  // Leave type code for the per-type paid leave columns
+  leaveType?: string;
+}
+
+// The columns of an export under a preset (or the company's saved mapping for "custom"),
+// in PAYROLL_FIELDS order, with paid leave split out per leave type
+export function payrollColumns(
+  preset: PayrollPreset,
+  customMapping: PayrollColumnMapping,
+  leaveTypeCodes: string[]
+): PayrollColumn[] {
+  const mapping = preset === 'custom' ? customMapping : PAYROLL_PRESETS[preset].columns;
+
+  return PAYROLL_FIELDS.flatMap((field): PayrollColumn[] => {
+    const header = mapping[field]?.trim();
+    if (!header) return [];
+    if (field === 'paidLeaveByType') {
+      return leaveTypeCodes.map((code) => ({ field, header: `${header} (${code})`, leaveType: code }));
+    }
+    return [{ field, header }];
+  });
+}
+
+// Text starting with one of these is read as a formula by Excel and Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number): string {
+  // Names and remarks are user input; a leading ' keeps them plain text
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
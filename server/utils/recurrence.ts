@@ -0,0 +1,62 @@
+import type { RecurringTask } from '@shared/schema';
+import { addDays, monthBounds } from './shift-schedule';
+
+export type RecurrenceRule = Pick<RecurringTask, 'frequency' | 'weekDays' | 'monthDay' | 'startDate' | 'endDate'>;
+
+// Whether a recurring task is due on `date` (YYYY-MM-DD). A monthly rule for a day the
+// month does not have, such as the 31st, falls on the month's last day.
+export function occursOn(rule: RecurrenceRule, date: string): boolean {
+  if (date < rule.startDate || (rule.endDate && date > rule.endDate)) return false;
+
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+    case 'weekly':
+      return rule.weekDays.includes(weekday);
+    case 'monthly': {
+      if (!rule.monthDay) return false;
+      const lastDay = Number(monthBounds(year, month).endDate.split('-')[2]);
+      return day === Math.min(rule.monthDay, lastDay);
+    }
+    default:
+      return false;
+  }
+}
+
+// The user whose turn it is in a round-robin rotation, starting at `index` and passing
+// over users who cannot take tasks. Returns null when nobody in the rotation can.
+export function nextInRotation(
+  userIds: number[],
+  index: number,
+  isAvailable: (userId: number) => boolean
+): { userId: number; index: number } | null {
+  for (let step = 0; step < userIds.length; step++) {
+    const next = (index + step) % userIds.length;
+    if (isAvailable(userIds[next])) {
+      return { userId: userIds[next], index: next };
+    }
+  }
+  return null;
+}
+
+// The first `count` dates from `from` on that the rule falls on and that are not in
+// `skipDates`, looking at most a year ahead
+export function upcomingOccurrences(
+  rule: RecurrenceRule,
+  from: string,
+  count: number,
+  skipDates: Set<string> = new Set()
+): string[] {
+  const dates: string[] = [];
+  for (let offset = 0; offset <= 366 && dates.length < count; offset++) {
+    const date = addDays(from, offset);
+    if (occursOn(rule, date) && !skipDates.has(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
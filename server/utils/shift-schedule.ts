@@ -0,0 +1,80 @@
+import type { Shift, ShiftAssignment } from '@shared/schema';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date((toDayNumber(date) + days) * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+// First and last date of a calendar month (1-12)
+export function monthBounds(year: number, month: number): { startDate: string; endDate: string } {
+  const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
+  const nextMonth = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`;
+  return { startDate, endDate: addDays(nextMonth, -1) };
+}
+
+// "HH:MM" to minutes after midnight
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+// A shift that ends at or before its start time runs past midnight, e.g. 22:00-06:00.
+// Its attendance belongs to the date the shift started.
+export function isOvernightShift(shift: Pick<Shift, 'startTime' | 'endTime'> | null | undefined): boolean {
+  return !!shift && toMinutes(shift.endTime) <= toMinutes(shift.startTime);
+}
+
+// Scheduled length of a shift in minutes, wrapping past midnight for overnight shifts
+export function shiftLengthMinutes(shift: Pick<Shift, 'startTime' | 'endTime'>): number {
+  const length = toMinutes(shift.endTime) - toMinutes(shift.startTime);
+  return length > 0 ? length : length + 24 * 60;
+}
+
+export function coversDate(assignment: Pick<ShiftAssignment, 'effectiveFrom' | 'effectiveTo'>, date: string): boolean {
+  return assignment.effectiveFrom <= date && (!assignment.effectiveTo || assignment.effectiveTo >= date);
+}
+
+// A single shift id is a fixed assignment; several ids rotate weekly, starting with the
+// first one in the week of effectiveFrom (e.g. [day, night] alternates every 7 days)
+export function shiftIdForDate(assignment: Pick<ShiftAssignment, 'shiftIds' | 'effectiveFrom'>, date: string): number {
+  const { shiftIds } = assignment;
+  const week = Math.floor((toDayNumber(date) - toDayNumber(assignment.effectiveFrom)) / 7);
+  return shiftIds[((week % shiftIds.length) + shiftIds.length) % shiftIds.length];
+}
+
+// A user's own assignment wins over their team's; among equals the most recently
+// effective (then most recently created) assignment applies
+export function findAssignmentForDate(
+  assignments: ShiftAssignment[],
+  userId: number,
+  teamLeaderId: number | null,
+  date: string
+): ShiftAssignment | null {
+  let best: ShiftAssignment | null = null;
+
+  for (const assignment of assignments) {
+    if (!coversDate(assignment, date)) continue;
+
+    const isUserLevel = assignment.userId === userId;
+    const isTeamLevel = teamLeaderId !== null && assignment.userId === null && assignment.teamLeaderId === teamLeaderId;
+    if (!isUserLevel && !isTeamLevel) continue;
+
+    if (
+      !best ||
+      (isUserLevel && best.userId === null) ||
+      ((best.userId === null) === !isUserLevel &&
+        (assignment.effectiveFrom > best.effectiveFrom ||
+          (assignment.effectiveFrom === best.effectiveFrom && assignment.id > best.id)))
+    ) {
+      best = assignment;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,20 @@
+export interface ProgressInput {
+  completed: boolean;
+  checklist: Array<{ isDone: boolean }>;
+  // Progress of each subtask in percent, already rolled up from its own checklist
+  subtaskProgress: number[];
+}
+
+// Completion of a task in percent. Every checklist item and every subtask weighs the
+// same; a subtask counts with its own progress. A completed task is always at 100, and
+// one with neither a checklist nor subtasks is at 0 until it is completed.
+export function taskProgress({ completed, checklist, subtaskProgress }: ProgressInput): number {
+  if (completed) return 100;
+  const parts = checklist.length + subtaskProgress.length;
+  if (parts === 0) return 0;
+
+  const done =
+    checklist.filter((item) => item.isDone).length +
+    subtaskProgress.reduce((sum, progress) => sum + progress / 100, 0);
+  return Math.floor((done / parts) * 100);
+}
@@ -0,0 +1,65 @@
+// Companies created before timezones were configurable ran on IST (the old absent cron
+// was pinned to it), so that stays the default
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+export interface ZonedTime {
+  date: string; // YYYY-MM-DD
+  minutes: number; // minutes after local midnight
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(instant: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const value = (type: string) => parts.find((part) => part.type === type)!.value;
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    hour: Number(value('hour')),
+    minute: Number(value('minute')),
+    second: Number(value('second')),
+  };
+}
+
+// The wall-clock date and time of `instant` in the given zone
+export function zonedTime(instant: Date, timezone: string): ZonedTime {
+  const { year, month, day, hour, minute } = zonedParts(instant, timezone);
+  return {
+    date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    minutes: hour * 60 + minute,
+  };
+}
+
+export function todayInTimezone(timezone: string, now: Date = new Date()): string {
+  return zonedTime(now, timezone).date;
+}
+
+// The instant local midnight starts on `date` in the given zone. The zone offset is
+// read at noon UTC of that date, which is wrong only on the rare days a DST change
+// happens between midnight and noon local time.
+export function startOfDayInTimezone(date: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const noon = Date.UTC(year, month - 1, day, 12);
+  const local = zonedParts(new Date(noon), timezone);
+  const offset =
+    Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - noon;
+  return new Date(Date.UTC(year, month - 1, day) - offset);
+}
@@ -0,0 +1,128 @@
+import { storage } from "./storage";
+import { addDays } from "./utils/shift-schedule";
+
+export type NonWorkingStatus = "holiday" | "weekly_off" | "on_leave";
+
+export interface NonWorkingDay {
+    status: NonWorkingStatus;
+    reason: string;
+}
+
+export interface WorkingCalendar {
+    // Why `date` is not a working day for the user, or null if they are expected to work
+    nonWorkingDay(userId: number, date: string): NonWorkingDay | null;
+}
+
+// Weekly offs default to Sunday for companies without a saved policy (matches the column default)
+const DEFAULT_WEEKLY_OFF_DAYS = [0];
+
+// A streak only bridges a bounded run of non-working days
+const MAX_STREAK_GAP_DAYS = 31;
+
+const WEEKDAY_NAMES = [
+    "Sunday",
+    "Monday",
+    "Tuesday",
+    "Wednesday",
+    "Thursday",
+    "Friday",
+    "Saturday",
+];
+
+function weekdayOf(date: string): number {
+    return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// A company's weekly offs, holidays (optional ones only for users who opted in) and
+// approved leave between `startDate` and `endDate`. Holidays take precedence over
+// weekly offs, which take precedence over leave.
+export async function loadWorkingCalendar(
+    companyId: number,
+    startDate: string,
+    endDate: string
+): Promise<WorkingCalendar> {
+    const policy = await storage.getAttendancePolicyByCompany(companyId);
+    const weeklyOffDays = policy?.weeklyOffDays ?? DEFAULT_WEEKLY_OFF_DAYS;
+
+    const companyHolidays = (
+        await storage.getHolidaysByCompanyId(companyId)
+    ).filter((h) => h.date >= startDate && h.date <= endDate);
+    const optIns = companyHolidays.some((h) => h.isOptional)
+        ? await storage.getHolidayOptInsByCompany(companyId)
+        : [];
+    const approvedLeaves = await storage.getApprovedLeavesInRange(
+        companyId,
+        startDate,
+        endDate
+    );
+
+    return {
+        nonWorkingDay(userId, date) {
+            const holiday = companyHolidays.find(
+                (h) =>
+                    h.date === date &&
+                    (!h.isOptional ||
+                        optIns.some(
+                            (o) => o.holidayId === h.id && o.userId === userId
+                        ))
+            );
+            if (holiday) {
+                return { status: "holiday", reason: holiday.name };
+            }
+
+            const weekday = weekdayOf(date);
+            if (weeklyOffDays.includes(weekday)) {
+                return {
+                    status: "weekly_off",
+                    reason: `Weekly off (${WEEKDAY_NAMES[weekday]})`,
+                };
+            }
+
+            const leave = approvedLeaves.find(
+                (l) =>
+                    l.userId === userId &&
+                    l.startDate <= date &&
+                    l.endDate >= date
+            );
+            if (leave) {
+                return { status: "on_leave", reason: `${leave.leaveType} leave` };
+            }
+
+            return null;
+        },
+    };
+}
+
+// Whether a check-in on `today` continues a streak last extended on `lastPresentDate`:
+// every day in between must have been a non-working day for the user
+export async function continuesStreak(
+    userId: number,
+    companyId: number,
+    lastPresentDate: string | null | undefined,
+    today: string
+): Promise<boolean> {
+    if (!lastPresentDate || lastPresentDate >= today) {
+        return false;
+    }
+
+    const firstGapDay = addDays(lastPresentDate, 1);
+    const lastGapDay = addDays(today, -1);
+    if (firstGapDay > lastGapDay) {
+        return true;
+    }
+    if (addDays(firstGapDay, MAX_STREAK_GAP_DAYS) <= lastGapDay) {
+        return false;
+    }
+
+    const calendar = await loadWorkingCalendar(
+        companyId,
+        firstGapDay,
+        lastGapDay
+    );
+    for (let date = firstGapDay; date <= lastGapDay; date = addDays(date, 1)) {
+        if (!calendar.nonWorkingDay(userId, date)) {
+            return false;
+        }
+    }
+    return true;
+}
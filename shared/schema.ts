@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, serial, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, serial, uniqueIndex, doublePrecision, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -24,6 +24,7 @@ export const companies = pgTable("companies", {
   city: varchar("city", { length: 100 }),
   state: varchar("state", { length: 100 }),
   country: varchar("country", { length: 100 }),
+  timezone: varchar("timezone", { length: 64 }).notNull().default("Asia/Kolkata"),
   
   employees: integer("employees"),
   annualTurnover: varchar("annual_turnover", { length: 50 }),
@@ -55,6 +56,7 @@ export const users = pgTable("users", {
   companyId: integer("company_id").references(() => companies.id),
   firebaseUid: text("firebase_uid").unique(),
   isActive: boolean("is_active").notNull().default(true),
+  sessionVersion: integer("session_version").notNull().default(0),
   deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -70,6 +72,83 @@ export const tasks = pgTable("tasks", {
   deadline: timestamp("deadline"),
   status: varchar("status", { length: 20 }).notNull().default("pending"),
   completedAt: timestamp("completed_at"),
+  // Set on subtasks. A parent cannot be completed while a required subtask is open.
+  parentTaskId: integer("parent_task_id").references((): AnyPgColumn => tasks.id),
+  isRequired: boolean("is_required").notNull().default(true),
+  // Set on tasks generated from a recurring task definition
+  recurringTaskId: integer("recurring_task_id").references((): AnyPgColumn => recurringTasks.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const taskChecklistItems = pgTable("task_checklist_items", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").references(() => tasks.id).notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  isDone: boolean("is_done").notNull().default(false),
+  position: integer("position").notNull().default(0),
+  completedBy: integer("completed_by").references(() => users.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A column of a company's task workflow. tasks.status holds the column's key. The
+// built-in pending, in_progress and completed columns can be renamed and limited but
+// not removed; "completed" is the only done column. Moving a task out of a column is
+// limited to allowedTransitions when that is not empty, and into it by wipLimit.
+// Companies without rows use DEFAULT_TASK_WORKFLOW.
+export const taskWorkflowStatuses = pgTable("task_workflow_statuses", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  key: varchar("key", { length: 20 }).notNull(),
+  name: varchar("name", { length: 50 }).notNull(),
+  category: varchar("category", { length: 20 }).notNull(),
+  position: integer("position").notNull().default(0),
+  wipLimit: integer("wip_limit"),
+  allowedTransitions: text("allowed_transitions").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueWorkflowStatusKey: uniqueIndex("unique_workflow_status_key").on(table.companyId, table.key),
+}));
+
+// Finish-to-start: taskId cannot start until dependsOnTaskId is completed. A task with
+// an unfinished dependency is blocked; that state is derived, never stored.
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").references(() => tasks.id).notNull(),
+  dependsOnTaskId: integer("depends_on_task_id").references(() => tasks.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueTaskDependency: uniqueIndex("unique_task_dependency").on(table.taskId, table.dependsOnTaskId),
+}));
+
+// A task that is generated again on a schedule. "daily" runs every day, "weekdays"
+// Monday to Friday, "weekly" on weekDays (0 = Sunday) and "monthly" on monthDay, or on
+// the last day of shorter months. Company holidays are skipped. The assignee is one
+// user, every member of a team leader's team, or the next user of rotationUserIds.
+export const recurringTasks = pgTable("recurring_tasks", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description"),
+  priority: varchar("priority", { length: 20 }).notNull().default("medium"),
+  frequency: varchar("frequency", { length: 20 }).notNull(),
+  weekDays: integer("week_days").array().notNull().default(sql`'{}'::integer[]`),
+  monthDay: integer("month_day"),
+  // Local time the generated task is due on its day, as "HH:MM"; no deadline when null
+  dueTime: varchar("due_time", { length: 5 }),
+  assigneeRule: varchar("assignee_rule", { length: 20 }).notNull(),
+  assigneeId: integer("assignee_id").references(() => users.id),
+  rotationUserIds: integer("rotation_user_ids").array().notNull().default(sql`'{}'::integer[]`),
+  rotationIndex: integer("rotation_index").notNull().default(0),
+  startDate: varchar("start_date", { length: 10 }).notNull(),
+  endDate: varchar("end_date", { length: 10 }),
+  isActive: boolean("is_active").notNull().default(true),
+  lastRunDate: varchar("last_run_date", { length: 10 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -161,6 +240,24 @@ export const taskTimeLogs = pgTable("task_time_logs", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// The discussion stream of a task. "comment" entries are written by users and may reply
+// to another comment (parentId) and mention company users; "activity" entries are
+// recorded automatically when the task's status, assignee, deadline or timer changes.
+export const taskComments = pgTable("task_comments", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").references(() => tasks.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  userId: integer("user_id").references(() => users.id),
+  kind: varchar("kind", { length: 20 }).notNull().default("comment"),
+  parentId: integer("parent_id"),
+  body: text("body"),
+  mentions: integer("mentions").array().notNull().default(sql`'{}'::integer[]`),
+  activityType: varchar("activity_type", { length: 30 }),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const feedbacks = pgTable("feedbacks", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").references(() => companies.id).notNull(),
@@ -230,6 +327,7 @@ export const badges = pgTable("badges", {
 
 export const autoTasks = pgTable("auto_tasks", {
   id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id),
   taskName: varchar("task_name", { length: 100 }).notNull(),
   taskType: varchar("task_type", { length: 50 }).notNull(),
   status: varchar("status", { length: 20 }).notNull(),
@@ -237,6 +335,20 @@ export const autoTasks = pgTable("auto_tasks", {
   executedAt: timestamp("executed_at").defaultNow().notNull(),
 });
 
+export type LeaveRevision = {
+  action: "withdrawn" | "cancelled" | "partially_cancelled" | "modified" | "change_rejected";
+  previousStartDate: string;
+  previousEndDate: string;
+  previousDays: number | null;
+  startDate: string;
+  endDate: string;
+  days: number | null;
+  reason: string | null;
+  actedBy: number;
+  actedByName: string;
+  at: string;
+};
+
 export const leaves = pgTable("leaves", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -245,13 +357,75 @@ export const leaves = pgTable("leaves", {
   startDate: varchar("start_date", { length: 10 }).notNull(),
   endDate: varchar("end_date", { length: 10 }).notNull(),
   reason: text("reason").notNull(),
+  isHalfDay: boolean("is_half_day").notNull().default(false),
+  halfDaySession: varchar("half_day_session", { length: 10 }),
+  days: doublePrecision("days"),
   status: varchar("status", { length: 20 }).notNull().default("pending"),
   approvedBy: integer("approved_by").references(() => users.id),
   remarks: text("remarks"),
+  changeType: varchar("change_type", { length: 10 }),
+  requestedStartDate: varchar("requested_start_date", { length: 10 }),
+  requestedEndDate: varchar("requested_end_date", { length: 10 }),
+  changeReason: text("change_reason"),
+  history: jsonb("history").$type<LeaveRevision[]>().notNull().default(sql`'[]'::jsonb`),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const leaveTypes = pgTable("leave_types", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  code: varchar("code", { length: 50 }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  annualQuota: doublePrecision("annual_quota").notNull().default(0),
+  accrual: varchar("accrual", { length: 20 }).notNull().default("annual"),
+  carryForwardCap: doublePrecision("carry_forward_cap").notNull().default(0),
+  allowHalfDay: boolean("allow_half_day").notNull().default(true),
+  sandwichRule: boolean("sandwich_rule").notNull().default(false),
+  isPaid: boolean("is_paid").notNull().default(true),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueLeaveTypeCode: uniqueIndex("unique_leave_type_code").on(table.companyId, table.code),
+}));
+
+export const leaveBalances = pgTable("leave_balances", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  leaveTypeId: integer("leave_type_id").references(() => leaveTypes.id).notNull(),
+  year: integer("year").notNull(),
+  carriedForward: doublePrecision("carried_forward").notNull().default(0),
+  used: doublePrecision("used").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueLeaveBalance: uniqueIndex("unique_leave_balance").on(table.userId, table.leaveTypeId, table.year),
+}));
+
+export const leaveApprovalPolicies = pgTable("leave_approval_policies", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id).notNull().unique(),
+  steps: text("steps").array().notNull().default(sql`'{team_leader,company_admin}'::text[]`),
+  longLeaveDays: integer("long_leave_days"),
+  slaHours: integer("sla_hours").notNull().default(48),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const leaveApprovals = pgTable("leave_approvals", {
+  id: serial("id").primaryKey(),
+  leaveId: integer("leave_id").references(() => leaves.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  stepIndex: integer("step_index").notNull(),
+  approverRole: varchar("approver_role", { length: 20 }).notNull(),
+  subject: varchar("subject", { length: 10 }).notNull().default("request"),
+  status: varchar("status", { length: 20 }).notNull().default("waiting"),
+  actedBy: integer("acted_by").references(() => users.id),
+  remarks: text("remarks"),
+  dueAt: timestamp("due_at"),
+  actedAt: timestamp("acted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const holidays = pgTable("holidays", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").references(() => companies.id).notNull(),
@@ -262,6 +436,16 @@ export const holidays = pgTable("holidays", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const holidayOptIns = pgTable("holiday_opt_ins", {
+  id: serial("id").primaryKey(),
+  holidayId: integer("holiday_id").references(() => holidays.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueHolidayOptIn: uniqueIndex("unique_holiday_opt_in").on(table.holidayId, table.userId),
+}));
+
 export const tasksReports = pgTable("tasks_reports", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -285,19 +469,88 @@ export const shifts = pgTable("shifts", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export type BreakType = "lunch" | "personal" | "meeting";
+
+export type BreakTypeLimits = Partial<Record<BreakType, number>>;
+
+// "pre": overtime counts only up to what a team leader approved beforehand;
+// "post": overtime worked is reviewed after the day is settled
+export type OvertimeApproval = "pre" | "post";
+
+export const PAYROLL_FIELDS = [
+  "employeeId",
+  "employeeName",
+  "email",
+  "periodDays",
+  "payableDays",
+  "lopDays",
+  "paidLeaveDays",
+  "paidLeaveByType",
+  "holidays",
+  "weeklyOffs",
+  "presentDays",
+  "lateCount",
+  "lateDeductionDays",
+  "halfDays",
+  "overtimeHours",
+  "weightedOvertimeHours",
+] as const;
+
+export type PayrollField = (typeof PAYROLL_FIELDS)[number];
+
+// Export header for each payroll field; fields without a header are left out
+export type PayrollColumnMapping = Partial<Record<PayrollField, string>>;
+
 export const attendancePolicies = pgTable("attendance_policies", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").references(() => companies.id).notNull(),
   halfDayHours: integer("half_day_hours").notNull().default(4),
   fullDayHours: integer("full_day_hours").notNull().default(8),
   lateMarkThreshold: integer("late_mark_threshold").notNull().default(3),
+  lateMarksPerDeduction: integer("late_marks_per_deduction"),
+  lateMarkDeductionDays: doublePrecision("late_mark_deduction_days").notNull().default(0.5),
+  severeLateMinutes: integer("severe_late_minutes"),
   autoAbsentHours: integer("auto_absent_hours").notNull().default(2),
   allowSelfCheckIn: boolean("allow_self_check_in").notNull().default(true),
   requireGPS: boolean("require_gps").notNull().default(false),
   requireDeviceBinding: boolean("require_device_binding").notNull().default(false),
+  weeklyOffDays: integer("weekly_off_days").array().notNull().default(sql`'{0}'::integer[]`),
+  correctionWindowDays: integer("correction_window_days"),
+  monthlyCorrectionCap: integer("monthly_correction_cap"),
+  maxBreakMinutes: integer("max_break_minutes"),
+  breakTypeLimits: jsonb("break_type_limits").$type<BreakTypeLimits>().notNull().default(sql`'{}'::jsonb`),
+  overtimeApproval: varchar("overtime_approval", { length: 10 }).$type<OvertimeApproval>().notNull().default("post"),
+  overtimeMinBlockMinutes: integer("overtime_min_block_minutes").notNull().default(0),
+  overtimeMultiplier: doublePrecision("overtime_multiplier").notNull().default(1.5),
+  weekendOvertimeMultiplier: doublePrecision("weekend_overtime_multiplier").notNull().default(2),
+  holidayOvertimeMultiplier: doublePrecision("holiday_overtime_multiplier").notNull().default(2),
+  payrollColumns: jsonb("payroll_columns").$type<PayrollColumnMapping>().notNull().default(sql`'{}'::jsonb`),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const geofences = pgTable("geofences", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  radiusMeters: integer("radius_meters").notNull().default(100),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const shiftAssignments = pgTable("shift_assignments", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  userId: integer("user_id").references(() => users.id),
+  teamLeaderId: integer("team_leader_id").references(() => users.id),
+  shiftIds: integer("shift_ids").array().notNull(),
+  effectiveFrom: varchar("effective_from", { length: 10 }).notNull(),
+  effectiveTo: varchar("effective_to", { length: 10 }),
+  createdBy: integer("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const attendanceRecords = pgTable("attendance_records", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -307,8 +560,15 @@ export const attendanceRecords = pgTable("attendance_records", {
   checkIn: timestamp("check_in"),
   checkOut: timestamp("check_out"),
   workDuration: integer("work_duration"),
+  grossDuration: integer("gross_duration"),
+  breakMinutes: integer("break_minutes").notNull().default(0),
   status: varchar("status", { length: 20 }).notNull().default("absent"),
   gpsLocation: text("gps_location"),
+  checkInDistance: integer("check_in_distance"),
+  checkInSite: varchar("check_in_site", { length: 100 }),
+  checkOutGpsLocation: text("check_out_gps_location"),
+  checkOutDistance: integer("check_out_distance"),
+  checkOutSite: varchar("check_out_site", { length: 100 }),
   ipAddress: varchar("ip_address", { length: 50 }),
   deviceId: varchar("device_id", { length: 255 }),
   remarks: text("remarks"),
@@ -316,11 +576,41 @@ export const attendanceRecords = pgTable("attendance_records", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const attendancePunches = pgTable("attendance_punches", {
+  id: serial("id").primaryKey(),
+  attendanceId: integer("attendance_id").references(() => attendanceRecords.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  checkIn: timestamp("check_in").notNull(),
+  checkOut: timestamp("check_out"),
+  gpsLocation: text("gps_location"),
+  checkInDistance: integer("check_in_distance"),
+  checkInSite: varchar("check_in_site", { length: 100 }),
+  checkOutGpsLocation: text("check_out_gps_location"),
+  checkOutDistance: integer("check_out_distance"),
+  checkOutSite: varchar("check_out_site", { length: 100 }),
+  deviceId: varchar("device_id", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const attendanceBreaks = pgTable("attendance_breaks", {
+  id: serial("id").primaryKey(),
+  attendanceId: integer("attendance_id").references(() => attendanceRecords.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  breakType: varchar("break_type", { length: 20 }).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  durationMinutes: integer("duration_minutes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const correctionRequests = pgTable("correction_requests", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
   companyId: integer("company_id").references(() => companies.id).notNull(),
   attendanceId: integer("attendance_id").references(() => attendanceRecords.id),
+  batchId: varchar("batch_id", { length: 36 }),
   date: varchar("date", { length: 10 }).notNull(),
   requestedCheckIn: timestamp("requested_check_in"),
   requestedCheckOut: timestamp("requested_check_out"),
@@ -333,6 +623,28 @@ export const correctionRequests = pgTable("correction_requests", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const overtimeRequests = pgTable("overtime_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  attendanceId: integer("attendance_id").references(() => attendanceRecords.id),
+  date: varchar("date", { length: 10 }).notNull(),
+  dayType: varchar("day_type", { length: 20 }).notNull().default("working"),
+  plannedMinutes: integer("planned_minutes"),
+  workedMinutes: integer("worked_minutes").notNull().default(0),
+  approvedMinutes: integer("approved_minutes"),
+  multiplier: doublePrecision("multiplier").notNull().default(1),
+  reason: text("reason"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewComments: text("review_comments"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueOvertimePerDay: uniqueIndex("unique_overtime_per_day").on(table.userId, table.date),
+}));
+
 export const rewards = pgTable("rewards", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -345,7 +657,8 @@ export const rewards = pgTable("rewards", {
 
 export const attendanceLogs = pgTable("attendance_logs", {
   id: serial("id").primaryKey(),
-  attendanceId: integer("attendance_id").references(() => attendanceRecords.id).notNull(),
+  attendanceId: integer("attendance_id").references(() => attendanceRecords.id),
+  userId: integer("user_id").references(() => users.id),
   action: varchar("action", { length: 100 }).notNull(),
   performedBy: integer("performed_by").references(() => users.id).notNull(),
   oldValue: text("old_value"),
@@ -353,6 +666,56 @@ export const attendanceLogs = pgTable("attendance_logs", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const userDevices = pgTable("user_devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  deviceId: varchar("device_id", { length: 255 }).notNull(),
+  deviceLabel: varchar("device_label", { length: 255 }),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Shared check-in devices (e.g. a tablet at reception). The kiosk authenticates with a
+// secret issued when an admin registers it; only its SHA-256 hash is stored.
+export const attendanceKiosks = pgTable("attendance_kiosks", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  deviceId: varchar("device_id", { length: 255 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  gpsLocation: text("gps_location"),
+  site: varchar("site", { length: 100 }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id),
+  lastSeenAt: timestamp("last_seen_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// PINs employees punch in with at a kiosk, kept apart from the user row so they never
+// travel with user objects
+export const kioskPins = pgTable("kiosk_pins", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  pinHash: text("pin_hash").notNull(),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// QR codes already scanned at a kiosk. Each code carries a nonce and may punch only once.
+export const kioskCodeRedemptions = pgTable("kiosk_code_redemptions", {
+  id: serial("id").primaryKey(),
+  kioskId: integer("kiosk_id").references(() => attendanceKiosks.id).notNull(),
+  nonce: varchar("nonce", { length: 32 }).notNull(),
+  redeemedAt: timestamp("redeemed_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueKioskCodeNonce: uniqueIndex("unique_kiosk_code_nonce").on(table.kioskId, table.nonce),
+}));
+
 export const attendanceBadges = pgTable("attendance_badges", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -435,6 +798,7 @@ export const insertCompanySchema = createInsertSchema(companies).omit({
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   uniqueUserId: true,
+  sessionVersion: true,
   createdAt: true,
 });
 
@@ -583,6 +947,50 @@ export const insertTaskTimeLogSchema = createInsertSchema(taskTimeLogs).omit({
   updatedAt: true,
 });
 
+export const insertTaskChecklistItemSchema = createInsertSchema(taskChecklistItems, {
+  title: z.string().trim().min(1, "Checklist item cannot be empty").max(255),
+}).omit({
+  id: true,
+  createdAt: true,
+  completedBy: true,
+  completedAt: true,
+});
+
+// "todo" columns have not started; moving a task into any other column needs its
+// dependencies completed
+export const TASK_STATUS_CATEGORIES = ["todo", "in_progress", "done"] as const;
+export type TaskStatusCategory = (typeof TASK_STATUS_CATEGORIES)[number];
+
+export const BUILT_IN_TASK_STATUSES = ["pending", "in_progress", "completed"] as const;
+
+export const DEFAULT_TASK_WORKFLOW: Array<{ key: string; name: string; category: TaskStatusCategory }> = [
+  { key: "pending", name: "Pending", category: "todo" },
+  { key: "in_progress", name: "In Progress", category: "in_progress" },
+  { key: "completed", name: "Completed", category: "done" },
+];
+
+export const insertTaskWorkflowStatusSchema = createInsertSchema(taskWorkflowStatuses, {
+  name: z.string().trim().min(1, "Column name is required").max(50),
+  category: z.enum(TASK_STATUS_CATEGORIES),
+  position: z.number().int().min(0),
+  wipLimit: z.number().int().min(1, "WIP limit must be at least 1").nullable().optional(),
+  allowedTransitions: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaskCommentSchema = createInsertSchema(taskComments).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertFeedbackSchema = createInsertSchema(feedbacks).omit({
   id: true,
   createdAt: true,
@@ -652,6 +1060,30 @@ export type GroupMessageReply = typeof groupMessageReplies.$inferSelect;
 export type InsertTaskTimeLog = z.infer<typeof insertTaskTimeLogSchema>;
 export type TaskTimeLog = typeof taskTimeLogs.$inferSelect;
 
+export type InsertTaskChecklistItem = z.infer<typeof insertTaskChecklistItemSchema>;
+export type TaskChecklistItem = typeof taskChecklistItems.$inferSelect;
+
+export type InsertTaskWorkflowStatus = z.infer<typeof insertTaskWorkflowStatusSchema>;
+export type TaskWorkflowStatus = typeof taskWorkflowStatuses.$inferSelect;
+
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+
+// A task with its derived blocked state: the unfinished tasks it is waiting for
+export type TaskWithBlockers = Task & {
+  isBlocked: boolean;
+  blockedByTaskIds: number[];
+};
+
+export type InsertTaskComment = z.infer<typeof insertTaskCommentSchema>;
+export type TaskComment = typeof taskComments.$inferSelect;
+
+export type TaskCommentWithUser = TaskComment & {
+  userName: string | null;
+};
+
+export type TaskActivityType = "status_changed" | "reassigned" | "deadline_changed" | "timer_started" | "timer_paused" | "timer_completed";
+
 export type InsertFeedback = z.infer<typeof insertFeedbackSchema>;
 export type Feedback = typeof feedbacks.$inferSelect;
 
@@ -692,7 +1124,37 @@ export const insertAutoTaskSchema = createInsertSchema(autoTasks).omit({
 export type InsertAutoTask = z.infer<typeof insertAutoTaskSchema>;
 export type AutoTask = typeof autoTasks.$inferSelect;
 
-export const insertLeaveSchema = createInsertSchema(leaves).omit({
+export const RECURRENCE_FREQUENCIES = ["daily", "weekdays", "weekly", "monthly"] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export const RECURRING_ASSIGNEE_RULES = ["user", "team", "round_robin"] as const;
+export type RecurringAssigneeRule = (typeof RECURRING_ASSIGNEE_RULES)[number];
+
+export const insertRecurringTaskSchema = createInsertSchema(recurringTasks, {
+  title: z.string().trim().min(1, "Title is required").max(255),
+  priority: z.enum(["low", "medium", "high"]),
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  weekDays: z.array(z.number().int().min(0).max(6)),
+  monthDay: z.number().int().min(1).max(31).nullable().optional(),
+  dueTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Due time must be HH:MM").nullable().optional(),
+  assigneeRule: z.enum(RECURRING_ASSIGNEE_RULES),
+  rotationUserIds: z.array(z.number().int().positive()),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be YYYY-MM-DD").nullable().optional(),
+}).omit({
+  id: true,
+  rotationIndex: true,
+  lastRunDate: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertRecurringTask = z.infer<typeof insertRecurringTaskSchema>;
+export type RecurringTask = typeof recurringTasks.$inferSelect;
+
+export const insertLeaveSchema = createInsertSchema(leaves, {
+  history: z.array(z.custom<LeaveRevision>()).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -701,6 +1163,63 @@ export const insertLeaveSchema = createInsertSchema(leaves).omit({
 export type InsertLeave = z.infer<typeof insertLeaveSchema>;
 export type Leave = typeof leaves.$inferSelect;
 
+export const insertLeaveTypeSchema = createInsertSchema(leaveTypes, {
+  code: z.string().regex(/^[a-z0-9_]+$/, "Code may only contain lowercase letters, digits and underscores"),
+  name: z.string().min(1, "Name is required"),
+  annualQuota: z.number().min(0).max(366),
+  accrual: z.enum(["annual", "monthly"]),
+  carryForwardCap: z.number().min(0).max(366),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLeaveType = z.infer<typeof insertLeaveTypeSchema>;
+export type LeaveType = typeof leaveTypes.$inferSelect;
+
+export const insertLeaveBalanceSchema = createInsertSchema(leaveBalances).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertLeaveBalance = z.infer<typeof insertLeaveBalanceSchema>;
+export type LeaveBalance = typeof leaveBalances.$inferSelect;
+
+export const insertLeaveApprovalPolicySchema = createInsertSchema(leaveApprovalPolicies, {
+  steps: z.array(z.enum(["team_leader", "company_admin"])).min(1, "Add at least one approval step"),
+  longLeaveDays: z.number().int().min(1).nullable().optional(),
+  slaHours: z.number().int().min(1).max(720),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertLeaveApprovalPolicy = z.infer<typeof insertLeaveApprovalPolicySchema>;
+export type LeaveApprovalPolicy = typeof leaveApprovalPolicies.$inferSelect;
+
+export const insertLeaveApprovalSchema = createInsertSchema(leaveApprovals).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLeaveApproval = z.infer<typeof insertLeaveApprovalSchema>;
+export type LeaveApproval = typeof leaveApprovals.$inferSelect;
+
+export type LeaveApprovalStep = LeaveApproval & {
+  actedByName: string | null;
+};
+
+export type LeaveBalanceSummary = {
+  leaveTypeId: number;
+  code: string;
+  name: string;
+  year: number;
+  accrued: number;
+  carriedForward: number;
+  used: number;
+  available: number;
+};
+
 export const insertHolidaySchema = createInsertSchema(holidays).omit({
   id: true,
   createdAt: true,
@@ -709,6 +1228,14 @@ export const insertHolidaySchema = createInsertSchema(holidays).omit({
 export type InsertHoliday = z.infer<typeof insertHolidaySchema>;
 export type Holiday = typeof holidays.$inferSelect;
 
+export const insertHolidayOptInSchema = createInsertSchema(holidayOptIns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertHolidayOptIn = z.infer<typeof insertHolidayOptInSchema>;
+export type HolidayOptIn = typeof holidayOptIns.$inferSelect;
+
 export const insertTasksReportSchema = createInsertSchema(tasksReports).omit({
   id: true,
   createdAt: true,
@@ -726,7 +1253,22 @@ export const insertShiftSchema = createInsertSchema(shifts).omit({
 export type InsertShift = z.infer<typeof insertShiftSchema>;
 export type Shift = typeof shifts.$inferSelect;
 
-export const insertAttendancePolicySchema = createInsertSchema(attendancePolicies).omit({
+export const insertAttendancePolicySchema = createInsertSchema(attendancePolicies, {
+  weeklyOffDays: z.array(z.number().int().min(0).max(6)),
+  correctionWindowDays: z.number().int().min(1).max(366).nullable().optional(),
+  monthlyCorrectionCap: z.number().int().min(1).max(31).nullable().optional(),
+  lateMarksPerDeduction: z.number().int().min(1).max(31).nullable().optional(),
+  lateMarkDeductionDays: z.number().min(0.25).max(5).optional(),
+  severeLateMinutes: z.number().int().min(1).max(720).nullable().optional(),
+  maxBreakMinutes: z.number().int().min(1).max(720).nullable().optional(),
+  breakTypeLimits: z.record(z.enum(["lunch", "personal", "meeting"]), z.number().int().min(1).max(720)).optional(),
+  overtimeApproval: z.enum(["pre", "post"]).optional(),
+  overtimeMinBlockMinutes: z.number().int().min(0).max(240).optional(),
+  overtimeMultiplier: z.number().min(1).max(5).optional(),
+  weekendOvertimeMultiplier: z.number().min(1).max(5).optional(),
+  holidayOvertimeMultiplier: z.number().min(1).max(5).optional(),
+  payrollColumns: z.record(z.enum(PAYROLL_FIELDS), z.string().trim().max(60)).optional(),
+}).omit({
   id: true,
   updatedAt: true,
 });
@@ -734,6 +1276,37 @@ export const insertAttendancePolicySchema = createInsertSchema(attendancePolicie
 export type InsertAttendancePolicy = z.infer<typeof insertAttendancePolicySchema>;
 export type AttendancePolicy = typeof attendancePolicies.$inferSelect;
 
+export const insertGeofenceSchema = createInsertSchema(geofences, {
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  radiusMeters: z.number().int().min(10).max(10000),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertGeofence = z.infer<typeof insertGeofenceSchema>;
+export type Geofence = typeof geofences.$inferSelect;
+
+export const insertShiftAssignmentSchema = createInsertSchema(shiftAssignments, {
+  shiftIds: z.array(z.number().int().positive()).min(1, "Select at least one shift").max(8),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective from must be a YYYY-MM-DD date"),
+  effectiveTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective to must be a YYYY-MM-DD date").nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertShiftAssignment = z.infer<typeof insertShiftAssignmentSchema>;
+export type ShiftAssignment = typeof shiftAssignments.$inferSelect;
+
+export type ShiftRosterEntry = {
+  userId: number;
+  userName: string;
+  teamLeaderId: number | null;
+  days: { date: string; shiftId: number | null; assignmentId: number | null }[];
+};
+
 export const insertAttendanceRecordSchema = createInsertSchema(attendanceRecords).omit({
   id: true,
   createdAt: true,
@@ -749,6 +1322,24 @@ export type DailyAttendanceRecord = AttendanceRecord & {
   userPhotoURL: string | null;
 };
 
+export const insertAttendancePunchSchema = createInsertSchema(attendancePunches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAttendancePunch = z.infer<typeof insertAttendancePunchSchema>;
+export type AttendancePunch = typeof attendancePunches.$inferSelect;
+
+export const insertAttendanceBreakSchema = createInsertSchema(attendanceBreaks, {
+  breakType: z.enum(["lunch", "personal", "meeting"]),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAttendanceBreak = z.infer<typeof insertAttendanceBreakSchema>;
+export type AttendanceBreak = typeof attendanceBreaks.$inferSelect;
+
 export const insertCorrectionRequestSchema = createInsertSchema(correctionRequests).omit({
   id: true,
   createdAt: true,
@@ -758,6 +1349,15 @@ export const insertCorrectionRequestSchema = createInsertSchema(correctionReques
 export type InsertCorrectionRequest = z.infer<typeof insertCorrectionRequestSchema>;
 export type CorrectionRequest = typeof correctionRequests.$inferSelect;
 
+export const insertOvertimeRequestSchema = createInsertSchema(overtimeRequests).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertOvertimeRequest = z.infer<typeof insertOvertimeRequestSchema>;
+export type OvertimeRequest = typeof overtimeRequests.$inferSelect;
+
 export const insertRewardSchema = createInsertSchema(rewards).omit({
   id: true,
   createdAt: true,
@@ -774,6 +1374,41 @@ export const insertAttendanceLogSchema = createInsertSchema(attendanceLogs).omit
 export type InsertAttendanceLog = z.infer<typeof insertAttendanceLogSchema>;
 export type AttendanceLog = typeof attendanceLogs.$inferSelect;
 
+export const insertUserDeviceSchema = createInsertSchema(userDevices).omit({
+  id: true,
+  createdAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+});
+
+export type InsertUserDevice = z.infer<typeof insertUserDeviceSchema>;
+export type UserDevice = typeof userDevices.$inferSelect;
+
+export type UserDeviceWithUser = UserDevice & {
+  userName: string;
+  userEmail: string;
+};
+
+export const insertAttendanceKioskSchema = createInsertSchema(attendanceKiosks, {
+  name: z.string().trim().min(1, "Kiosk name is required").max(100),
+  deviceId: z.string().min(8).max(255),
+}).omit({
+  id: true,
+  createdAt: true,
+  lastSeenAt: true,
+});
+
+export type InsertAttendanceKiosk = z.infer<typeof insertAttendanceKioskSchema>;
+export type AttendanceKiosk = typeof attendanceKiosks.$inferSelect;
+
+export const insertKioskPinSchema = createInsertSchema(kioskPins).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertKioskPin = z.infer<typeof insertKioskPinSchema>;
+export type KioskPin = typeof kioskPins.$inferSelect;
+
 export const insertAttendanceBadgeSchema = createInsertSchema(attendanceBadges).omit({
   id: true,
   createdAt: true,
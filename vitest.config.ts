@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            "@": path.resolve(import.meta.dirname, "client", "src"),
+            "@shared": path.resolve(import.meta.dirname, "shared"),
+        },
+        // shared/ holds a compiled schema.js next to schema.ts; tests run the source
+        extensions: [".ts", ".tsx", ".mjs", ".js", ".jsx", ".json"],
+    },
+    test: {
+        include: ["server/**/*.test.ts"],
+        environment: "node",
+    },
+});